@@ -0,0 +1,56 @@
+CREATE TYPE "LoanInterestMethod" AS ENUM ('ADD_ON', 'DIMINISHING');
+
+CREATE TYPE "LoanStatus" AS ENUM ('OPEN', 'PAID', 'WRITTEN_OFF');
+
+CREATE TABLE "loans" (
+  "id" UUID NOT NULL,
+  "memberId" UUID NOT NULL,
+  "principal" DECIMAL(14,2) NOT NULL,
+  "interestMethod" "LoanInterestMethod" NOT NULL DEFAULT 'ADD_ON',
+  "interestRate" DECIMAL(7,4) NOT NULL DEFAULT 0,
+  "termDays" INTEGER NOT NULL,
+  "installmentAmount" DECIMAL(14,2) NOT NULL,
+  "totalPayable" DECIMAL(14,2) NOT NULL,
+  "outstandingBalance" DECIMAL(14,2) NOT NULL,
+  "releaseDate" DATE NOT NULL,
+  "maturityDate" DATE NOT NULL,
+  "status" "LoanStatus" NOT NULL DEFAULT 'OPEN',
+  "closedAt" TIMESTAMPTZ,
+  "createdById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "loans_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "loans_memberId_status_releaseDate_idx"
+ON "loans"("memberId", "status", "releaseDate");
+
+CREATE INDEX "loans_status_maturityDate_idx"
+ON "loans"("status", "maturityDate");
+
+ALTER TABLE "loans"
+ADD CONSTRAINT "loans_memberId_fkey"
+FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "loans"
+ADD CONSTRAINT "loans_createdById_fkey"
+FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "active_releases" ADD COLUMN "loanId" UUID;
+
+CREATE UNIQUE INDEX "active_releases_loanId_key"
+ON "active_releases"("loanId");
+
+ALTER TABLE "active_releases"
+ADD CONSTRAINT "active_releases_loanId_fkey"
+FOREIGN KEY ("loanId") REFERENCES "loans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "balance_adjustments" ADD COLUMN "loanId" UUID;
+
+CREATE INDEX "balance_adjustments_loanId_createdAt_idx"
+ON "balance_adjustments"("loanId", "createdAt");
+
+ALTER TABLE "balance_adjustments"
+ADD CONSTRAINT "balance_adjustments_loanId_fkey"
+FOREIGN KEY ("loanId") REFERENCES "loans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+CREATE TYPE "LoanPaymentFrequency" AS ENUM ('DAILY', 'WEEKLY');
+
+ALTER TABLE "loans" ADD COLUMN "paymentFrequency" "LoanPaymentFrequency" NOT NULL DEFAULT 'DAILY';
+
+CREATE TABLE "loan_installments" (
+  "id" UUID NOT NULL,
+  "loanId" UUID NOT NULL,
+  "sequence" INTEGER NOT NULL,
+  "dueDate" DATE NOT NULL,
+  "principalDue" DECIMAL(14,2) NOT NULL,
+  "interestDue" DECIMAL(14,2) NOT NULL,
+  "amountDue" DECIMAL(14,2) NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "loan_installments_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "loan_installments_loanId_sequence_key"
+ON "loan_installments"("loanId", "sequence");
+
+CREATE INDEX "loan_installments_dueDate_idx"
+ON "loan_installments"("dueDate");
+
+ALTER TABLE "loan_installments"
+ADD CONSTRAINT "loan_installments_loanId_fkey"
+FOREIGN KEY ("loanId") REFERENCES "loans"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,8 @@
+ALTER TABLE "savings_adjustments" ADD COLUMN "balanceAdjustmentId" UUID;
+
+CREATE UNIQUE INDEX "savings_adjustments_balanceAdjustmentId_key"
+ON "savings_adjustments"("balanceAdjustmentId");
+
+ALTER TABLE "savings_adjustments"
+ADD CONSTRAINT "savings_adjustments_balanceAdjustmentId_fkey"
+FOREIGN KEY ("balanceAdjustmentId") REFERENCES "balance_adjustments"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+ALTER TABLE "balance_adjustments" ADD COLUMN "reversalOfId" UUID;
+ALTER TABLE "balance_adjustments" ADD COLUMN "reversalReason" TEXT;
+
+CREATE UNIQUE INDEX "balance_adjustments_reversalOfId_key"
+ON "balance_adjustments"("reversalOfId");
+
+ALTER TABLE "balance_adjustments"
+ADD CONSTRAINT "balance_adjustments_reversalOfId_fkey"
+FOREIGN KEY ("reversalOfId") REFERENCES "balance_adjustments"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+ALTER TABLE "savings_adjustments" ADD COLUMN "reversalOfId" UUID;
+ALTER TABLE "savings_adjustments" ADD COLUMN "reversalReason" TEXT;
+
+CREATE UNIQUE INDEX "savings_adjustments_reversalOfId_key"
+ON "savings_adjustments"("reversalOfId");
+
+ALTER TABLE "savings_adjustments"
+ADD CONSTRAINT "savings_adjustments_reversalOfId_fkey"
+FOREIGN KEY ("reversalOfId") REFERENCES "savings_adjustments"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+ALTER TABLE "processing_fees" ADD COLUMN "reversalOfId" UUID;
+ALTER TABLE "processing_fees" ADD COLUMN "reversalReason" TEXT;
+
+CREATE UNIQUE INDEX "processing_fees_reversalOfId_key"
+ON "processing_fees"("reversalOfId");
+
+ALTER TABLE "processing_fees"
+ADD CONSTRAINT "processing_fees_reversalOfId_fkey"
+FOREIGN KEY ("reversalOfId") REFERENCES "processing_fees"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+ALTER TABLE "passbook_fees" ADD COLUMN "reversalOfId" UUID;
+ALTER TABLE "passbook_fees" ADD COLUMN "reversalReason" TEXT;
+
+CREATE UNIQUE INDEX "passbook_fees_reversalOfId_key"
+ON "passbook_fees"("reversalOfId");
+
+ALTER TABLE "passbook_fees"
+ADD CONSTRAINT "passbook_fees_reversalOfId_fkey"
+FOREIGN KEY ("reversalOfId") REFERENCES "passbook_fees"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+ALTER TABLE "loan_insurances" ADD COLUMN "reversalOfId" UUID;
+ALTER TABLE "loan_insurances" ADD COLUMN "reversalReason" TEXT;
+
+CREATE UNIQUE INDEX "loan_insurances_reversalOfId_key"
+ON "loan_insurances"("reversalOfId");
+
+ALTER TABLE "loan_insurances"
+ADD CONSTRAINT "loan_insurances_reversalOfId_fkey"
+FOREIGN KEY ("reversalOfId") REFERENCES "loan_insurances"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
+
+ALTER TABLE "membership_fees" ADD COLUMN "reversalOfId" UUID;
+ALTER TABLE "membership_fees" ADD COLUMN "reversalReason" TEXT;
+
+CREATE UNIQUE INDEX "membership_fees_reversalOfId_key"
+ON "membership_fees"("reversalOfId");
+
+ALTER TABLE "membership_fees"
+ADD CONSTRAINT "membership_fees_reversalOfId_fkey"
+FOREIGN KEY ("reversalOfId") REFERENCES "membership_fees"("id") ON DELETE NO ACTION ON UPDATE CASCADE;
@@ -0,0 +1,41 @@
+CREATE TYPE "ApprovalRequestType" AS ENUM ('REVERSAL', 'BALANCE_INCREASE', 'SAVINGS_WITHDRAWAL', 'ACCOUNTING_OVERRIDE');
+
+CREATE TYPE "ApprovalStatus" AS ENUM ('PENDING', 'APPROVED', 'REJECTED');
+
+CREATE TABLE "approval_requests" (
+  "id" UUID NOT NULL,
+  "type" "ApprovalRequestType" NOT NULL,
+  "status" "ApprovalStatus" NOT NULL DEFAULT 'PENDING',
+  "memberId" UUID,
+  "payload" JSONB NOT NULL,
+  "reason" TEXT,
+  "requestedById" UUID NOT NULL,
+  "decidedById" UUID,
+  "decisionNote" TEXT,
+  "resultId" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "decidedAt" TIMESTAMPTZ,
+
+  CONSTRAINT "approval_requests_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "approval_requests_status_createdAt_idx"
+ON "approval_requests"("status", "createdAt");
+
+CREATE INDEX "approval_requests_requestedById_createdAt_idx"
+ON "approval_requests"("requestedById", "createdAt");
+
+CREATE INDEX "approval_requests_memberId_createdAt_idx"
+ON "approval_requests"("memberId", "createdAt");
+
+ALTER TABLE "approval_requests"
+ADD CONSTRAINT "approval_requests_memberId_fkey"
+FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+ALTER TABLE "approval_requests"
+ADD CONSTRAINT "approval_requests_requestedById_fkey"
+FOREIGN KEY ("requestedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "approval_requests"
+ADD CONSTRAINT "approval_requests_decidedById_fkey"
+FOREIGN KEY ("decidedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
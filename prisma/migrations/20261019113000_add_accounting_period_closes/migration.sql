@@ -0,0 +1,26 @@
+CREATE TABLE "accounting_period_closes" (
+  "id" UUID NOT NULL,
+  "periodStart" DATE NOT NULL,
+  "periodEnd" DATE NOT NULL,
+  "closedById" UUID NOT NULL,
+  "closedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "reopenedById" UUID,
+  "reopenedAt" TIMESTAMPTZ,
+  "reopenReason" TEXT,
+
+  CONSTRAINT "accounting_period_closes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "accounting_period_closes_periodStart_periodEnd_idx"
+ON "accounting_period_closes"("periodStart", "periodEnd");
+
+CREATE INDEX "accounting_period_closes_closedAt_idx"
+ON "accounting_period_closes"("closedAt");
+
+ALTER TABLE "accounting_period_closes"
+ADD CONSTRAINT "accounting_period_closes_closedById_fkey"
+FOREIGN KEY ("closedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+ALTER TABLE "accounting_period_closes"
+ADD CONSTRAINT "accounting_period_closes_reopenedById_fkey"
+FOREIGN KEY ("reopenedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,71 @@
+CREATE TYPE "LedgerAccountType" AS ENUM ('ASSET', 'LIABILITY', 'EQUITY', 'INCOME', 'EXPENSE');
+
+CREATE TYPE "JournalSourceType" AS ENUM (
+  'BALANCE_ADJUSTMENT',
+  'SAVINGS_ADJUSTMENT',
+  'SAVINGS_ACCRUAL',
+  'PROCESSING_FEE',
+  'PASSBOOK_FEE',
+  'LOAN_INSURANCE',
+  'MEMBERSHIP_FEE',
+  'ACTIVE_RELEASE',
+  'ACCOUNTING_DAY'
+);
+
+CREATE TABLE "ledger_accounts" (
+  "id" UUID NOT NULL,
+  "code" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "type" "LedgerAccountType" NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "ledger_accounts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "ledger_accounts_code_key" ON "ledger_accounts"("code");
+
+CREATE TABLE "journal_entries" (
+  "id" UUID NOT NULL,
+  "entryDate" DATE NOT NULL,
+  "sourceType" "JournalSourceType" NOT NULL,
+  "sourceId" UUID NOT NULL,
+  "memberId" UUID,
+  "description" TEXT NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "journal_entries_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "journal_entries_sourceType_sourceId_key"
+ON "journal_entries"("sourceType", "sourceId");
+
+CREATE INDEX "journal_entries_entryDate_idx" ON "journal_entries"("entryDate");
+
+CREATE INDEX "journal_entries_memberId_entryDate_idx"
+ON "journal_entries"("memberId", "entryDate");
+
+ALTER TABLE "journal_entries"
+ADD CONSTRAINT "journal_entries_memberId_fkey"
+FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+CREATE TABLE "journal_lines" (
+  "id" UUID NOT NULL,
+  "journalEntryId" UUID NOT NULL,
+  "accountCode" TEXT NOT NULL,
+  "debit" DECIMAL(14,2) NOT NULL DEFAULT 0,
+  "credit" DECIMAL(14,2) NOT NULL DEFAULT 0,
+
+  CONSTRAINT "journal_lines_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "journal_lines_journalEntryId_idx" ON "journal_lines"("journalEntryId");
+
+CREATE INDEX "journal_lines_accountCode_idx" ON "journal_lines"("accountCode");
+
+ALTER TABLE "journal_lines"
+ADD CONSTRAINT "journal_lines_journalEntryId_fkey"
+FOREIGN KEY ("journalEntryId") REFERENCES "journal_entries"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+ALTER TABLE "journal_lines"
+ADD CONSTRAINT "journal_lines_accountCode_fkey"
+FOREIGN KEY ("accountCode") REFERENCES "ledger_accounts"("code") ON DELETE RESTRICT ON UPDATE CASCADE;
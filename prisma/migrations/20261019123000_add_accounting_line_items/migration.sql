@@ -0,0 +1,22 @@
+CREATE TYPE "AccountingLineSection" AS ENUM ('RECEIPTS', 'PAYMENTS', 'DAILY_EXPENSES');
+
+CREATE TYPE "AccountingLineCategory" AS ENUM ('RECEIPT', 'PAYMENT', 'BANK_DEPOSIT', 'MANAGEMENT_EXPENSE', 'MEMO');
+
+CREATE TABLE "accounting_line_items" (
+  "id" UUID NOT NULL,
+  "section" "AccountingLineSection" NOT NULL,
+  "key" TEXT NOT NULL,
+  "label" TEXT NOT NULL,
+  "category" "AccountingLineCategory" NOT NULL,
+  "ledgerAccountCode" TEXT,
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "archivedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "accounting_line_items_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "accounting_line_items_section_key_key" ON "accounting_line_items"("section", "key");
+
+CREATE INDEX "accounting_line_items_section_sortOrder_idx" ON "accounting_line_items"("section", "sortOrder");
@@ -0,0 +1,115 @@
+CREATE TYPE "BankTransactionType" AS ENUM ('DEPOSIT', 'WITHDRAWAL');
+
+CREATE TABLE "bank_accounts" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "name" TEXT NOT NULL,
+  "bankName" TEXT,
+  "accountNumber" TEXT,
+  "openingBalance" DECIMAL(14,2) NOT NULL DEFAULT 0,
+  "archivedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "bank_accounts_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "bank_accounts_name_key" ON "bank_accounts"("name");
+
+CREATE TABLE "bank_transactions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "bankAccountId" UUID NOT NULL,
+  "accountingDate" DATE NOT NULL,
+  "type" "BankTransactionType" NOT NULL,
+  "amount" DECIMAL(14,2) NOT NULL,
+  "createdById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "bank_transactions_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "bank_transactions_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "bank_accounts"("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "bank_transactions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "bank_transactions_bankAccountId_accountingDate_type_key" ON "bank_transactions"("bankAccountId", "accountingDate", "type");
+CREATE INDEX "bank_transactions_accountingDate_idx" ON "bank_transactions"("accountingDate");
+
+CREATE TABLE "bank_statement_imports" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "bankAccountId" UUID NOT NULL,
+  "fileName" TEXT NOT NULL,
+  "statementStart" DATE NOT NULL,
+  "statementEnd" DATE NOT NULL,
+  "endingBalance" DECIMAL(14,2),
+  "importedById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "bank_statement_imports_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "bank_statement_imports_bankAccountId_fkey" FOREIGN KEY ("bankAccountId") REFERENCES "bank_accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "bank_statement_imports_importedById_fkey" FOREIGN KEY ("importedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE INDEX "bank_statement_imports_bankAccountId_createdAt_idx" ON "bank_statement_imports"("bankAccountId", "createdAt");
+
+CREATE TABLE "bank_statement_lines" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "importId" UUID NOT NULL,
+  "transactionDate" DATE NOT NULL,
+  "description" TEXT NOT NULL,
+  "amount" DECIMAL(14,2) NOT NULL,
+  "balance" DECIMAL(14,2),
+  "matchedTransactionId" UUID,
+
+  CONSTRAINT "bank_statement_lines_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "bank_statement_lines_importId_fkey" FOREIGN KEY ("importId") REFERENCES "bank_statement_imports"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "bank_statement_lines_matchedTransactionId_fkey" FOREIGN KEY ("matchedTransactionId") REFERENCES "bank_transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "bank_statement_lines_matchedTransactionId_key" ON "bank_statement_lines"("matchedTransactionId");
+CREATE INDEX "bank_statement_lines_importId_transactionDate_idx" ON "bank_statement_lines"("importId", "transactionDate");
+
+-- Move the numbered DFOB lines of saved accounting days into bank transactions
+CREATE TEMP TABLE "legacy_bank_lines" AS
+SELECT
+  d."accountingDate",
+  d."updatedById",
+  n AS "accountNo",
+  COALESCE(NULLIF(d."payments" ->> ('bankDeposit' || n), '')::numeric, 0) AS "deposit",
+  COALESCE(NULLIF(d."receipts" ->> ('bankWithdrawal' || n), '')::numeric, 0) AS "withdrawal"
+FROM "accounting_days" d
+CROSS JOIN generate_series(1, 5) AS n;
+
+INSERT INTO "bank_accounts" ("name", "updatedAt")
+SELECT DISTINCT 'DFOB' || "accountNo", CURRENT_TIMESTAMP
+FROM "legacy_bank_lines"
+WHERE "deposit" <> 0 OR "withdrawal" <> 0;
+
+INSERT INTO "bank_transactions" ("bankAccountId", "accountingDate", "type", "amount", "createdById", "updatedAt")
+SELECT a."id", l."accountingDate", 'DEPOSIT', l."deposit", l."updatedById", CURRENT_TIMESTAMP
+FROM "legacy_bank_lines" l
+JOIN "bank_accounts" a ON a."name" = 'DFOB' || l."accountNo"
+WHERE l."deposit" <> 0;
+
+INSERT INTO "bank_transactions" ("bankAccountId", "accountingDate", "type", "amount", "createdById", "updatedAt")
+SELECT a."id", l."accountingDate", 'WITHDRAWAL', l."withdrawal", l."updatedById", CURRENT_TIMESTAMP
+FROM "legacy_bank_lines" l
+JOIN "bank_accounts" a ON a."name" = 'DFOB' || l."accountNo"
+WHERE l."withdrawal" <> 0;
+
+DROP TABLE "legacy_bank_lines";
+
+UPDATE "accounting_days"
+SET
+  "payments" = "payments" - 'bankDeposit1' - 'bankDeposit2' - 'bankDeposit3' - 'bankDeposit4' - 'bankDeposit5',
+  "receipts" = "receipts" - 'bankWithdrawal1' - 'bankWithdrawal2';
+
+DELETE FROM "accounting_line_items"
+WHERE ("section" = 'PAYMENTS' AND "key" IN ('bankDeposit1', 'bankDeposit2', 'bankDeposit3', 'bankDeposit4', 'bankDeposit5'))
+   OR ("section" = 'RECEIPTS' AND "key" IN ('bankWithdrawal1', 'bankWithdrawal2'));
+
+-- The hand-typed bank transaction memo lines are replaced by the bank account ledger
+UPDATE "accounting_line_items"
+SET "archivedAt" = CURRENT_TIMESTAMP
+WHERE "section" = 'PAYMENTS' AND "key" LIKE 'bankTransaction%' AND "archivedAt" IS NULL;
+
+-- Accounting day journals are re-posted with the bank transactions on the next ledger run
+DELETE FROM "journal_entries" WHERE "sourceType" = 'ACCOUNTING_DAY';
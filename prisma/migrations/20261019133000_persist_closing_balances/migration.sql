@@ -0,0 +1,73 @@
+ALTER TABLE "accounting_days" ADD COLUMN "closingBalance" DECIMAL(14,2);
+ALTER TABLE "accounting_days" ADD COLUMN "closingBalanceVersion" INTEGER NOT NULL DEFAULT 0;
+
+-- Move the closing balance out of the payments JSON. Only days inside an active
+-- period close keep it (they are frozen); every other day was stored at save time
+-- and may predate backdated entries, so it is recomputed on first read.
+UPDATE "accounting_days" d
+SET "closingBalance" = ROUND(("payments"->>'__closingBalance')::numeric)
+WHERE ("payments"->>'__closingBalance') ~ '^-?[0-9]+(\.[0-9]+)?$'
+  AND EXISTS (
+    SELECT 1 FROM "accounting_period_closes" c
+    WHERE c."reopenedAt" IS NULL
+      AND d."accountingDate" BETWEEN c."periodStart" AND c."periodEnd"
+  );
+
+UPDATE "accounting_days"
+SET "payments" = "payments" - '__closingBalance'
+WHERE "payments" ? '__closingBalance';
+
+-- Marks the closing balance of every saved day on or after from_date as stale,
+-- except days inside an active period close.
+CREATE FUNCTION "invalidate_accounting_closing_balances"(from_date DATE) RETURNS VOID AS $$
+  UPDATE "accounting_days" d
+  SET "closingBalance" = NULL,
+      "closingBalanceVersion" = d."closingBalanceVersion" + 1
+  WHERE d."accountingDate" >= from_date
+    AND NOT EXISTS (
+      SELECT 1 FROM "accounting_period_closes" c
+      WHERE c."reopenedAt" IS NULL
+        AND d."accountingDate" BETWEEN c."periodStart" AND c."periodEnd"
+    );
+$$ LANGUAGE sql;
+
+-- Ledger rows count toward the accounting day of their Manila calendar date.
+CREATE FUNCTION "invalidate_accounting_closing_balances_for_row"() RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM "invalidate_accounting_closing_balances"((OLD."createdAt" AT TIME ZONE 'Asia/Manila')::date);
+  END IF;
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM "invalidate_accounting_closing_balances"((NEW."createdAt" AT TIME ZONE 'Asia/Manila')::date);
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER "balance_adjustments_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "balance_adjustments"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
+
+CREATE TRIGGER "savings_adjustments_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "savings_adjustments"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
+
+CREATE TRIGGER "active_releases_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "active_releases"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
+
+CREATE TRIGGER "loan_insurances_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "loan_insurances"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
+
+CREATE TRIGGER "processing_fees_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "processing_fees"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
+
+CREATE TRIGGER "passbook_fees_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "passbook_fees"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
+
+CREATE TRIGGER "membership_fees_invalidate_closing_balances"
+AFTER INSERT OR UPDATE OR DELETE ON "membership_fees"
+FOR EACH ROW EXECUTE FUNCTION "invalidate_accounting_closing_balances_for_row"();
@@ -0,0 +1,18 @@
+CREATE TABLE "accounting_cash_counts" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "accountingDate" DATE NOT NULL,
+  "denominations" JSONB NOT NULL,
+  "countedTotal" DECIMAL(14,2) NOT NULL,
+  "expectedBalance" DECIMAL(14,2) NOT NULL,
+  "variance" DECIMAL(14,2) NOT NULL,
+  "explanation" TEXT,
+  "countedById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "accounting_cash_counts_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "accounting_cash_counts_countedById_fkey" FOREIGN KEY ("countedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "accounting_cash_counts_accountingDate_key" ON "accounting_cash_counts"("accountingDate");
+CREATE INDEX "accounting_cash_counts_countedById_updatedAt_idx" ON "accounting_cash_counts"("countedById", "updatedAt");
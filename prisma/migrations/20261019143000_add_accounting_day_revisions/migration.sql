@@ -0,0 +1,53 @@
+-- CreateEnum
+CREATE TYPE "AccountingRevisionSource" AS ENUM ('SAVE', 'APPROVAL', 'RESTORE', 'ENCODER_OVERRIDE');
+
+-- CreateTable
+CREATE TABLE "accounting_day_revisions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "accountingDayId" UUID NOT NULL,
+  "version" INTEGER NOT NULL,
+  "source" "AccountingRevisionSource" NOT NULL,
+  "snapshot" JSONB NOT NULL,
+  "changes" JSONB NOT NULL,
+  "closingBalance" DECIMAL(14,2),
+  "restoredFromVersion" INTEGER,
+  "savedById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "accounting_day_revisions_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "accounting_day_revisions_accountingDayId_fkey" FOREIGN KEY ("accountingDayId") REFERENCES "accounting_days"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "accounting_day_revisions_savedById_fkey" FOREIGN KEY ("savedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "accounting_day_revisions_accountingDayId_version_key" ON "accounting_day_revisions"("accountingDayId", "version");
+CREATE INDEX "accounting_day_revisions_savedById_createdAt_idx" ON "accounting_day_revisions"("savedById", "createdAt");
+
+-- Seed version 1 of every saved day from its current state, so later diffs have a base
+INSERT INTO "accounting_day_revisions" ("accountingDayId", "version", "source", "snapshot", "changes", "closingBalance", "savedById", "createdAt")
+SELECT
+  d."id",
+  1,
+  'SAVE',
+  jsonb_build_object(
+    'receipts', d."receipts",
+    'payments', d."payments",
+    'dailyExpenses', d."dailyExpenses",
+    'encoderOverrideAllowed', d."encoderOverrideAllowed",
+    'bankTransactions', COALESCE((
+      SELECT jsonb_agg(jsonb_build_object('bankAccountId', t."bankAccountId", 'deposit', t."deposit", 'withdrawal', t."withdrawal"))
+      FROM (
+        SELECT
+          bt."bankAccountId",
+          SUM(CASE WHEN bt."type" = 'DEPOSIT' THEN bt."amount" ELSE 0 END) AS "deposit",
+          SUM(CASE WHEN bt."type" = 'WITHDRAWAL' THEN bt."amount" ELSE 0 END) AS "withdrawal"
+        FROM "bank_transactions" bt
+        WHERE bt."accountingDate" = d."accountingDate"
+        GROUP BY bt."bankAccountId"
+      ) t
+    ), '[]'::jsonb)
+  ),
+  '[]'::jsonb,
+  d."closingBalance",
+  d."updatedById",
+  d."updatedAt"
+FROM "accounting_days" d;
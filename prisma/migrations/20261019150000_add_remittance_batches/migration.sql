@@ -0,0 +1,50 @@
+-- CreateEnum
+CREATE TYPE "RemittanceStatus" AS ENUM ('PENDING', 'POSTED', 'REJECTED');
+
+-- CreateEnum
+CREATE TYPE "RemittanceCollectionType" AS ENUM ('LOAN_PAYMENT', 'SAVINGS', 'PROCESSING_FEE', 'PASSBOOK_FEE', 'MEMBERSHIP_FEE', 'LOAN_INSURANCE');
+
+-- CreateTable
+CREATE TABLE "remittance_batches" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "groupId" UUID NOT NULL,
+  "businessDate" DATE NOT NULL,
+  "status" "RemittanceStatus" NOT NULL DEFAULT 'PENDING',
+  "declaredTotal" DECIMAL(14,2) NOT NULL,
+  "postedTotal" DECIMAL(14,2),
+  "cashTurnedIn" DECIMAL(14,2),
+  "variance" DECIMAL(14,2),
+  "reviewNote" TEXT,
+  "submittedById" UUID NOT NULL,
+  "submittedAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "reviewedById" UUID,
+  "reviewedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "remittance_batches_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "remittance_batches_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "remittance_batches_submittedById_fkey" FOREIGN KEY ("submittedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "remittance_batches_reviewedById_fkey" FOREIGN KEY ("reviewedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "remittance_batches_groupId_businessDate_key" ON "remittance_batches"("groupId", "businessDate");
+CREATE INDEX "remittance_batches_status_businessDate_idx" ON "remittance_batches"("status", "businessDate");
+CREATE INDEX "remittance_batches_submittedById_submittedAt_idx" ON "remittance_batches"("submittedById", "submittedAt");
+
+-- CreateTable
+CREATE TABLE "remittance_lines" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "batchId" UUID NOT NULL,
+  "memberId" UUID NOT NULL,
+  "type" "RemittanceCollectionType" NOT NULL,
+  "declaredAmount" DECIMAL(14,2) NOT NULL,
+  "postedAmount" DECIMAL(14,2),
+
+  CONSTRAINT "remittance_lines_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "remittance_lines_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "remittance_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "remittance_lines_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "remittance_lines_batchId_memberId_type_key" ON "remittance_lines"("batchId", "memberId", "type");
+CREATE INDEX "remittance_lines_memberId_idx" ON "remittance_lines"("memberId");
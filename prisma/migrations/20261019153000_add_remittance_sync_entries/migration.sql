@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "remittance_sync_entries" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "idempotencyKey" TEXT NOT NULL,
+  "batchId" UUID NOT NULL,
+  "memberId" UUID NOT NULL,
+  "type" "RemittanceCollectionType" NOT NULL,
+  "amount" DECIMAL(14,2) NOT NULL,
+  "recordedAt" TIMESTAMPTZ NOT NULL,
+  "syncedById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "remittance_sync_entries_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "remittance_sync_entries_batchId_fkey" FOREIGN KEY ("batchId") REFERENCES "remittance_batches"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "remittance_sync_entries_syncedById_fkey" FOREIGN KEY ("syncedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "remittance_sync_entries_idempotencyKey_key" ON "remittance_sync_entries"("idempotencyKey");
+CREATE INDEX "remittance_sync_entries_batchId_idx" ON "remittance_sync_entries"("batchId");
@@ -0,0 +1,18 @@
+-- AlterTable
+ALTER TABLE "members" ADD COLUMN "deactivatedAt" TIMESTAMPTZ;
+
+-- Backfill from the member's delete audit entry, falling back to the last update
+UPDATE "members" m
+SET "deactivatedAt" = COALESCE(
+  (
+    SELECT MAX(a."createdAt")
+    FROM "audit_logs" a
+    WHERE a."entityType" = 'Member'
+      AND a."entityId" = m."id"::text
+      AND a."action" = 'MEMBER_DELETE'
+  ),
+  m."updatedAt"
+)
+WHERE m."status" = 'INACTIVE';
+
+CREATE INDEX "members_deactivatedAt_idx" ON "members"("deactivatedAt");
@@ -0,0 +1,25 @@
+-- CreateEnum
+CREATE TYPE "IncentiveRuleType" AS ENUM ('COLLECTION_ABOVE_TARGET', 'NEW_MEMBER_BONUS', 'RELEASE_PERCENT', 'PAR_PENALTY');
+
+-- AlterTable
+ALTER TABLE "employees" ADD COLUMN "baseSalary" DECIMAL(14,2);
+
+-- CreateTable
+CREATE TABLE "incentive_rules" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "name" TEXT NOT NULL,
+  "type" "IncentiveRuleType" NOT NULL,
+  "rate" DECIMAL(7,4),
+  "amount" DECIMAL(14,2),
+  "threshold" DECIMAL(14,2),
+  "sortOrder" INTEGER NOT NULL DEFAULT 0,
+  "archivedAt" TIMESTAMPTZ,
+  "createdById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "incentive_rules_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "incentive_rules_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE INDEX "incentive_rules_archivedAt_sortOrder_idx" ON "incentive_rules"("archivedAt", "sortOrder");
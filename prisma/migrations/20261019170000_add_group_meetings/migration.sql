@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "Weekday" AS ENUM ('MONDAY', 'TUESDAY', 'WEDNESDAY', 'THURSDAY', 'FRIDAY', 'SATURDAY', 'SUNDAY');
+
+-- CreateEnum
+CREATE TYPE "AttendanceStatus" AS ENUM ('PRESENT', 'LATE', 'EXCUSED', 'ABSENT');
+
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "meetingWeekday" "Weekday",
+ADD COLUMN "meetingTime" TEXT,
+ADD COLUMN "meetingVenue" TEXT,
+ADD COLUMN "meetingBarangay" TEXT;
+
+-- CreateTable
+CREATE TABLE "group_meetings" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "groupId" UUID NOT NULL,
+  "meetingDate" DATE NOT NULL,
+  "notes" TEXT,
+  "recordedById" UUID NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "group_meetings_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "group_meetings_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "group_meetings_recordedById_fkey" FOREIGN KEY ("recordedById") REFERENCES "users"("id") ON DELETE RESTRICT ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "group_meetings_groupId_meetingDate_key" ON "group_meetings"("groupId", "meetingDate");
+CREATE INDEX "group_meetings_meetingDate_idx" ON "group_meetings"("meetingDate");
+
+-- CreateTable
+CREATE TABLE "meeting_attendances" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "meetingId" UUID NOT NULL,
+  "memberId" UUID NOT NULL,
+  "status" "AttendanceStatus" NOT NULL,
+
+  CONSTRAINT "meeting_attendances_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "meeting_attendances_meetingId_fkey" FOREIGN KEY ("meetingId") REFERENCES "group_meetings"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "meeting_attendances_memberId_fkey" FOREIGN KEY ("memberId") REFERENCES "members"("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+CREATE UNIQUE INDEX "meeting_attendances_meetingId_memberId_key" ON "meeting_attendances"("meetingId", "memberId");
+CREATE INDEX "meeting_attendances_memberId_idx" ON "meeting_attendances"("memberId");
@@ -0,0 +1,24 @@
+-- CreateTable
+CREATE TABLE "group_officer_assignments" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "groupId" UUID NOT NULL,
+  "employeeId" UUID NOT NULL,
+  "effectiveFrom" DATE NOT NULL,
+  "effectiveTo" DATE,
+  "assignedById" UUID,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "group_officer_assignments_pkey" PRIMARY KEY ("id"),
+  CONSTRAINT "group_officer_assignments_groupId_fkey" FOREIGN KEY ("groupId") REFERENCES "groups"("id") ON DELETE CASCADE ON UPDATE CASCADE,
+  CONSTRAINT "group_officer_assignments_employeeId_fkey" FOREIGN KEY ("employeeId") REFERENCES "employees"("id") ON DELETE RESTRICT ON UPDATE CASCADE,
+  CONSTRAINT "group_officer_assignments_assignedById_fkey" FOREIGN KEY ("assignedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE
+);
+
+CREATE INDEX "group_officer_assignments_groupId_effectiveFrom_idx" ON "group_officer_assignments"("groupId", "effectiveFrom");
+CREATE INDEX "group_officer_assignments_employeeId_effectiveFrom_idx" ON "group_officer_assignments"("employeeId", "effectiveFrom");
+
+-- Backfill: no earlier history was kept, so the current officer holds each group from its creation
+INSERT INTO "group_officer_assignments" ("groupId", "employeeId", "effectiveFrom")
+SELECT g."id", g."collectionOfficerId", (g."createdAt" AT TIME ZONE 'Asia/Manila')::date
+FROM "groups" g
+WHERE g."collectionOfficerId" IS NOT NULL;
@@ -0,0 +1,65 @@
+-- CreateTable
+CREATE TABLE "branches" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "code" TEXT NOT NULL,
+  "name" TEXT NOT NULL,
+  "area" TEXT,
+  "address" TEXT,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "branches_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "branches_code_key" ON "branches"("code");
+CREATE UNIQUE INDEX "branches_name_key" ON "branches"("name");
+CREATE INDEX "branches_area_idx" ON "branches"("area");
+
+-- Everything recorded so far belongs to the existing office
+INSERT INTO "branches" ("code", "name", "updatedAt") VALUES ('MAIN', 'Main Office', CURRENT_TIMESTAMP);
+
+-- AlterTable
+ALTER TABLE "groups" ADD COLUMN "branchId" UUID;
+ALTER TABLE "employees" ADD COLUMN "branchId" UUID;
+ALTER TABLE "accounting_days" ADD COLUMN "branchId" UUID;
+ALTER TABLE "accounting_cash_counts" ADD COLUMN "branchId" UUID;
+ALTER TABLE "bank_transactions" ADD COLUMN "branchId" UUID;
+
+UPDATE "groups" SET "branchId" = (SELECT "id" FROM "branches" WHERE "code" = 'MAIN');
+UPDATE "employees" SET "branchId" = (SELECT "id" FROM "branches" WHERE "code" = 'MAIN');
+UPDATE "accounting_days" SET "branchId" = (SELECT "id" FROM "branches" WHERE "code" = 'MAIN');
+UPDATE "accounting_cash_counts" SET "branchId" = (SELECT "id" FROM "branches" WHERE "code" = 'MAIN');
+UPDATE "bank_transactions" SET "branchId" = (SELECT "id" FROM "branches" WHERE "code" = 'MAIN');
+
+-- Pending accounting overrides are applied to the branch's sheet once approved
+UPDATE "approval_requests"
+SET "payload" = "payload" || jsonb_build_object('branchId', (SELECT "id" FROM "branches" WHERE "code" = 'MAIN'))
+WHERE "type" = 'ACCOUNTING_OVERRIDE';
+
+ALTER TABLE "groups" ALTER COLUMN "branchId" SET NOT NULL;
+ALTER TABLE "employees" ALTER COLUMN "branchId" SET NOT NULL;
+ALTER TABLE "accounting_days" ALTER COLUMN "branchId" SET NOT NULL;
+ALTER TABLE "accounting_cash_counts" ALTER COLUMN "branchId" SET NOT NULL;
+ALTER TABLE "bank_transactions" ALTER COLUMN "branchId" SET NOT NULL;
+
+-- One cash sheet, cash count and bank entry set per branch per day
+DROP INDEX "accounting_days_accountingDate_key";
+CREATE UNIQUE INDEX "accounting_days_branchId_accountingDate_key" ON "accounting_days"("branchId", "accountingDate");
+CREATE INDEX "accounting_days_accountingDate_idx" ON "accounting_days"("accountingDate");
+
+DROP INDEX "accounting_cash_counts_accountingDate_key";
+CREATE UNIQUE INDEX "accounting_cash_counts_branchId_accountingDate_key" ON "accounting_cash_counts"("branchId", "accountingDate");
+CREATE INDEX "accounting_cash_counts_accountingDate_idx" ON "accounting_cash_counts"("accountingDate");
+
+DROP INDEX "bank_transactions_bankAccountId_accountingDate_type_key";
+CREATE UNIQUE INDEX "bank_transactions_bankAccountId_branchId_accountingDate_type_key" ON "bank_transactions"("bankAccountId", "branchId", "accountingDate", "type");
+
+CREATE INDEX "groups_branchId_idx" ON "groups"("branchId");
+CREATE INDEX "employees_branchId_idx" ON "employees"("branchId");
+
+-- AddForeignKey
+ALTER TABLE "groups" ADD CONSTRAINT "groups_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "employees" ADD CONSTRAINT "employees_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "accounting_days" ADD CONSTRAINT "accounting_days_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "accounting_cash_counts" ADD CONSTRAINT "accounting_cash_counts_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+ALTER TABLE "bank_transactions" ADD CONSTRAINT "bank_transactions_branchId_fkey" FOREIGN KEY ("branchId") REFERENCES "branches"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
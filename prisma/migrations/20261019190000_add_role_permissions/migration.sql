@@ -0,0 +1,13 @@
+-- CreateTable
+CREATE TABLE "role_permissions" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "role" "Role" NOT NULL,
+  "permission" TEXT NOT NULL,
+  "allowed" BOOLEAN NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "role_permissions_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "role_permissions_role_permission_key" ON "role_permissions"("role", "permission");
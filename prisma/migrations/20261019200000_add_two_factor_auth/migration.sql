@@ -0,0 +1,45 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "totpSecret" TEXT;
+ALTER TABLE "users" ADD COLUMN "totpEnabledAt" TIMESTAMPTZ;
+ALTER TABLE "users" ADD COLUMN "totpLastStep" INTEGER;
+
+-- CreateTable
+CREATE TABLE "two_factor_challenges" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "tokenHash" TEXT NOT NULL,
+  "userId" UUID NOT NULL,
+  "attempts" INTEGER NOT NULL DEFAULT 0,
+  "expiresAt" TIMESTAMPTZ NOT NULL,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "two_factor_challenges_pkey" PRIMARY KEY ("id")
+);
+
+CREATE UNIQUE INDEX "two_factor_challenges_tokenHash_key" ON "two_factor_challenges"("tokenHash");
+CREATE INDEX "two_factor_challenges_userId_idx" ON "two_factor_challenges"("userId");
+
+ALTER TABLE "two_factor_challenges" ADD CONSTRAINT "two_factor_challenges_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "user_recovery_codes" (
+  "id" UUID NOT NULL DEFAULT gen_random_uuid(),
+  "userId" UUID NOT NULL,
+  "codeHash" TEXT NOT NULL,
+  "usedAt" TIMESTAMPTZ,
+  "createdAt" TIMESTAMPTZ NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+  CONSTRAINT "user_recovery_codes_pkey" PRIMARY KEY ("id")
+);
+
+CREATE INDEX "user_recovery_codes_userId_idx" ON "user_recovery_codes"("userId");
+
+ALTER TABLE "user_recovery_codes" ADD CONSTRAINT "user_recovery_codes_userId_fkey" FOREIGN KEY ("userId") REFERENCES "users"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- CreateTable
+CREATE TABLE "role_security_policies" (
+  "role" "Role" NOT NULL,
+  "twoFactorRequired" BOOLEAN NOT NULL DEFAULT false,
+  "updatedAt" TIMESTAMPTZ NOT NULL,
+
+  CONSTRAINT "role_security_policies_pkey" PRIMARY KEY ("role")
+);
@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "users" ADD COLUMN "totpFailedAttempts" INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE "users" ADD COLUMN "totpLockedUntil" TIMESTAMPTZ;
+
+-- AlterTable
+ALTER TABLE "two_factor_challenges" DROP COLUMN "attempts";
@@ -0,0 +1,56 @@
+// Keeps the collector's collection sheet usable without a connection. Only the sheet
+// page, its data and the static build assets are cached; everything else goes to the
+// network untouched. Queued entries live in localStorage, not here. Logging out
+// deletes this cache and the queue (see LogoutButton).
+const CACHE_NAME = "collection-sheet-v1";
+
+self.addEventListener("install", () => {
+  self.skipWaiting();
+});
+
+self.addEventListener("activate", (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) => Promise.all(keys.filter((key) => key !== CACHE_NAME).map((key) => caches.delete(key))))
+      .then(() => self.clients.claim()),
+  );
+});
+
+async function networkFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  try {
+    const response = await fetch(request);
+    if (response.ok) cache.put(request, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request, { ignoreVary: true });
+    if (cached) return cached;
+    throw error;
+  }
+}
+
+async function cacheFirst(request) {
+  const cache = await caches.open(CACHE_NAME);
+  const cached = await cache.match(request);
+  if (cached) return cached;
+  const response = await fetch(request);
+  if (response.ok) cache.put(request, response.clone());
+  return response;
+}
+
+self.addEventListener("fetch", (event) => {
+  const { request } = event;
+  if (request.method !== "GET") return;
+
+  const url = new URL(request.url);
+  if (url.origin !== self.location.origin) return;
+
+  if (url.pathname.startsWith("/_next/static/") || url.pathname === "/logo.jpg") {
+    event.respondWith(cacheFirst(request));
+    return;
+  }
+  if (url.pathname.startsWith("/app/remittances/sheet/") || url.pathname === "/api/remittances/sheet") {
+    event.respondWith(networkFirst(request));
+  }
+});
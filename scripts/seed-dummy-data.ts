@@ -10,11 +10,17 @@ async function main() {
   const admin = await prisma.user.findUnique({ where: { username: "admin" } });
   if (!admin) throw new Error("Admin not found. Run basic seed first.");
 
+  const branch = await prisma.branch.upsert({
+    where: { code: "MAIN" },
+    create: { code: "MAIN", name: "Main Office" },
+    update: {},
+  });
+
   // 2. Create Employees
   const employees = await prisma.employee.createManyAndReturn({
     data: [
-      { firstName: "Juan", lastName: "Dela Cruz", position: "COLLECTION_OFFICER" },
-      { firstName: "Maria", lastName: "Santos", position: "COLLECTION_OFFICER" },
+      { firstName: "Juan", lastName: "Dela Cruz", position: "COLLECTION_OFFICER", branchId: branch.id },
+      { firstName: "Maria", lastName: "Santos", position: "COLLECTION_OFFICER", branchId: branch.id },
     ]
   });
 
@@ -24,7 +30,8 @@ async function main() {
       name: "North Sector A",
       description: "Barangay 1-10",
       createdById: admin.id,
-      collectionOfficerId: employees[0].id
+      collectionOfficerId: employees[0].id,
+      branchId: branch.id
     }
   });
 
@@ -33,7 +40,8 @@ async function main() {
       name: "South Sector B",
       description: "Barangay 11-20",
       createdById: admin.id,
-      collectionOfficerId: employees[1].id
+      collectionOfficerId: employees[1].id,
+      branchId: branch.id
     }
   });
 
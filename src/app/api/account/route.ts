@@ -1,6 +1,6 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { hashPassword, verifyPassword } from "@/lib/auth/password";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
@@ -13,6 +13,7 @@ const UpdateAccountSchema = z.object({
 
 export async function PUT(req: NextRequest) {
   const user = await requireUser();
+  requirePermission(user, "account.update");
   const body = await req.json();
 
   const parsed = UpdateAccountSchema.safeParse({
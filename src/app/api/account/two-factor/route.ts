@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext, type AuditRequestContext } from "@/lib/audit";
+import {
+  confirmTwoFactorEnrollment,
+  disableTwoFactor,
+  getTwoFactorErrorResponse,
+  recordTwoFactorFailure,
+  regenerateRecoveryCodes,
+  startTwoFactorEnrollment,
+} from "@/lib/auth/two-factor";
+
+const CodeSchema = z.object({
+  code: z.string().trim().min(6).max(20),
+});
+
+function errorResponse(error: unknown, fallback: string) {
+  const mapped = getTwoFactorErrorResponse(error);
+  if (mapped) return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+  console.error(`${fallback}:`, error);
+  return NextResponse.json({ error: fallback }, { status: 500 });
+}
+
+// A wrong code rolls back the transaction, so the miss is counted and audited after it.
+async function handleCodeError(
+  error: unknown,
+  userId: string,
+  context: string,
+  request: AuditRequestContext,
+  fallback: string,
+) {
+  if (error instanceof Error && error.message === "TWO_FACTOR_INVALID_CODE") {
+    const { locked } = await recordTwoFactorFailure(userId, context, request);
+    if (locked) error = new Error("TWO_FACTOR_LOCKED");
+  }
+  return errorResponse(error, fallback);
+}
+
+async function readCode(req: NextRequest) {
+  const body = await req.json().catch(() => ({}));
+  return CodeSchema.safeParse(body);
+}
+
+// Starts enrollment: stores a pending secret and returns the QR code to scan.
+export async function POST() {
+  const user = await requireUser({ allowTwoFactorSetup: true });
+
+  try {
+    const { secret, qrSvg } = await prisma.$transaction((tx) => startTwoFactorEnrollment(tx, user.id));
+    return NextResponse.json({ secret, qrSvg });
+  } catch (error) {
+    return errorResponse(error, "Failed to start two-factor setup");
+  }
+}
+
+// Confirms enrollment with a first code and returns the recovery codes, shown once.
+export async function PUT(req: NextRequest) {
+  const user = await requireUser({ allowTwoFactorSetup: true });
+  const parsed = await readCode(req);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Enter the 6-digit code from your app" }, { status: 400 });
+  }
+
+  try {
+    const request = await tryGetAuditRequestContext();
+    const result = await prisma.$transaction(async (tx) => {
+      const result = await confirmTwoFactorEnrollment(tx, user.id, parsed.data.code);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "TWO_FACTOR_ENROLL",
+        entityType: "User",
+        entityId: user.id,
+        metadata: { recoveryCodes: result.recoveryCodes.length },
+        request,
+      });
+      return result;
+    });
+    return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    return errorResponse(error, "Failed to turn on two-factor authentication");
+  }
+}
+
+// Replaces the recovery codes after checking a current code.
+export async function PATCH(req: NextRequest) {
+  const user = await requireUser({ allowTwoFactorSetup: true });
+  const parsed = await readCode(req);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Enter a code from your app" }, { status: 400 });
+  }
+
+  const request = await tryGetAuditRequestContext();
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const result = await regenerateRecoveryCodes(tx, user.id, parsed.data.code);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "TWO_FACTOR_RECOVERY_CODES_REGENERATE",
+        entityType: "User",
+        entityId: user.id,
+        metadata: { recoveryCodes: result.recoveryCodes.length },
+        request,
+      });
+      return result;
+    });
+    return NextResponse.json({ success: true, recoveryCodes: result.recoveryCodes });
+  } catch (error) {
+    return handleCodeError(error, user.id, "RECOVERY_CODES", request, "Failed to regenerate recovery codes");
+  }
+}
+
+export async function DELETE(req: NextRequest) {
+  const user = await requireUser({ allowTwoFactorSetup: true });
+  const parsed = await readCode(req);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Enter a code from your app" }, { status: 400 });
+  }
+
+  const request = await tryGetAuditRequestContext();
+  try {
+    await prisma.$transaction(async (tx) => {
+      await disableTwoFactor(tx, user.id, parsed.data.code);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "TWO_FACTOR_DISABLE",
+        entityType: "User",
+        entityId: user.id,
+        request,
+      });
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    return handleCodeError(error, user.id, "DISABLE", request, "Failed to turn off two-factor authentication");
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { getAccountingReportData } from "@/lib/accounting";
+import { assertBranchAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getBranchErrorResponse } from "@/lib/branches";
+import { SaveCashCountSchema, getCashCountErrorResponse, saveCashCount } from "@/lib/cash-count";
+import { prisma } from "@/lib/db";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
+
+export async function PUT(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.save");
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = SaveCashCountSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid cash count" }, { status: 400 });
+  }
+
+  const { branchId, accountingDate, counts, explanation } = parsed.data;
+  const request = await tryGetAuditRequestContext();
+
+  try {
+    await assertBranchAccess(user, branchId);
+    await assertPeriodOpen(prisma, new Date(`${accountingDate}T12:00:00.000+08:00`));
+    const { view } = await getAccountingReportData(branchId, accountingDate);
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const result = await saveCashCount(tx, {
+        branchId,
+        accountingDate,
+        counts: Object.fromEntries(Object.entries(counts).map(([key, value]) => [key, Number(value)])),
+        explanation: explanation ?? null,
+        expectedBalance: view.closingBalance,
+        userId: user.id,
+      });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "ACCOUNTING_CASH_COUNT_SAVE",
+        entityType: "AccountingCashCount",
+        entityId: result.id,
+        metadata: {
+          branchId,
+          accountingDate,
+          countedTotal: result.cashCount.countedTotal,
+          expectedBalance: result.cashCount.expectedBalance,
+          variance: result.cashCount.variance,
+          explanation: result.cashCount.explanation,
+        },
+        request,
+      });
+
+      return result.cashCount;
+    });
+
+    return NextResponse.json({ success: true, cashCount: saved });
+  } catch (error) {
+    const mapped = getPeriodCloseErrorResponse(error) ?? getCashCountErrorResponse(error) ?? getBranchErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
+    console.error("Error saving cash count:", error);
+    return NextResponse.json({ error: "Failed to save cash count" }, { status: 500 });
+  }
+}
@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import {
+  ReopenPeriodSchema,
+  getPeriodCloseErrorResponse,
+  reopenAccountingPeriod,
+} from "@/lib/period-close";
+
+// Reopens a closed period; the close row is kept with who reopened it and why.
+export async function DELETE(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.close");
+  const { id } = await params;
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = ReopenPeriodSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "A reason is required to reopen a period" }, { status: 400 });
+  }
+
+  const request = await tryGetAuditRequestContext();
+
+  try {
+    const reopened = await prisma.$transaction(async (tx) => {
+      const close = await reopenAccountingPeriod(tx, {
+        id,
+        reopenedById: user.id,
+        reason: parsed.data.reason,
+      });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "ACCOUNTING_PERIOD_REOPENED",
+        entityType: "AccountingPeriodClose",
+        entityId: close.id,
+        metadata: {
+          from: close.periodStart.toISOString().slice(0, 10),
+          to: close.periodEnd.toISOString().slice(0, 10),
+          reason: parsed.data.reason,
+        },
+        request,
+      });
+
+      return close;
+    });
+
+    return NextResponse.json({ success: true, id: reopened.id });
+  } catch (error) {
+    const mapped = getPeriodCloseErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
+    console.error("Error reopening accounting period:", error);
+    return NextResponse.json({ error: "Failed to reopen accounting period" }, { status: 500 });
+  }
+}
@@ -0,0 +1,79 @@
+import { NextRequest, NextResponse } from "next/server";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import {
+  ClosePeriodSchema,
+  closeAccountingPeriod,
+  getPeriodCloseErrorResponse,
+  serializePeriodClose,
+} from "@/lib/period-close";
+
+export async function GET() {
+  const user = await requireUser();
+  requirePermission(user, "accounting.view");
+
+  try {
+    const closes = await prisma.accountingPeriodClose.findMany({
+      where: { reopenedAt: null },
+      orderBy: { periodStart: "desc" },
+      take: 100,
+      include: { closedBy: { select: { name: true } } },
+    });
+
+    return NextResponse.json({ items: closes.map(serializePeriodClose) });
+  } catch (error) {
+    console.error("Error loading closed periods:", error);
+    return NextResponse.json({ error: "Failed to load closed periods" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.close");
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = ClosePeriodSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid period" }, { status: 400 });
+  }
+
+  const request = await tryGetAuditRequestContext();
+
+  try {
+    const result = await prisma.$transaction(async (tx) => {
+      const closed = await closeAccountingPeriod(tx, {
+        from: parsed.data.from,
+        to: parsed.data.to,
+        closedById: user.id,
+      });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "ACCOUNTING_PERIOD_CLOSED",
+        entityType: "AccountingPeriodClose",
+        entityId: closed.close.id,
+        metadata: { from: parsed.data.from, to: parsed.data.to, frozenDays: closed.frozenDays },
+        request,
+      });
+
+      return closed;
+    });
+
+    return NextResponse.json(
+      {
+        success: true,
+        periodClose: serializePeriodClose({ ...result.close, closedBy: { name: user.name } }),
+        frozenDays: result.frozenDays,
+      },
+      { status: 201 },
+    );
+  } catch (error) {
+    const mapped = getPeriodCloseErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
+    console.error("Error closing accounting period:", error);
+    return NextResponse.json({ error: "Failed to close accounting period" }, { status: 500 });
+  }
+}
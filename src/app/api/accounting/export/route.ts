@@ -3,11 +3,15 @@ import fs from "fs";
 import path from "path";
 import { NextResponse } from "next/server";
 import { renderToStream } from "@react-pdf/renderer";
-import { Role } from "@prisma/client";
 import { createAuditLogStandalone, tryGetAuditRequestContext } from "@/lib/audit";
 import { getAccountingReportData } from "@/lib/accounting";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { getAccountingRollupData, validateAccountingRollupRange } from "@/lib/accounting-rollup";
+import { getScopedBranchIds } from "@/lib/auth/access";
+import { requirePermission, requireUser, type AuthUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
 import { AccountingReportPdf } from "@/lib/pdf/AccountingReportPdf";
+import { AccountingRollupPdf } from "@/lib/pdf/AccountingRollupPdf";
+import { buildAccountingRollupWorkbook } from "@/lib/xlsx/accounting-rollup";
 import { formatDateYMD, getManilaToday } from "@/lib/date";
 
 export const runtime = "nodejs";
@@ -19,11 +23,107 @@ function safeFilePart(s: string) {
     .replaceAll(/(^-|-$)/g, "");
 }
 
+const COMPANY_NAME = "Triple E Microfinance";
+
+async function readLogo() {
+  try {
+    return await fs.promises.readFile(path.join(process.cwd(), "public", "logo.jpg"));
+  } catch {
+    return null;
+  }
+}
+
+async function renderPdf(element: React.ReactElement) {
+  const stream = await renderToStream(element as any);
+  const chunks: Buffer[] = [];
+  // @ts-ignore
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Branches covered by the export: the `branch` param when the user may see it,
+ * otherwise every branch they can see (consolidated).
+ */
+async function resolveExportBranches(actor: AuthUser, requested: string | null) {
+  const branches = await listBranches({ branchIds: await getScopedBranchIds(actor) });
+  const selected = branches.filter((branch) => branch.id === requested);
+  return selected.length > 0 ? selected : branches;
+}
+
+function headerName(branches: { name: string }[]) {
+  return branches.length === 1 ? `${COMPANY_NAME} — ${branches[0].name}` : COMPANY_NAME;
+}
+
+/** Period summary for `from`..`to`, as PDF or, with `format=xlsx`, as a workbook. */
+async function exportRollup(url: URL, actor: AuthUser) {
+  const from = url.searchParams.get("from")?.trim() ?? "";
+  const today = formatDateYMD(getManilaToday());
+  const rawTo = url.searchParams.get("to")?.trim() ?? "";
+  const to = rawTo > today ? today : rawTo;
+  const format = url.searchParams.get("format") === "xlsx" ? "xlsx" : "pdf";
+  const isPreview = url.searchParams.get("preview") === "true";
+
+  const invalid = validateAccountingRollupRange(from, to);
+  if (invalid) return NextResponse.json({ error: invalid }, { status: 400 });
+
+  try {
+    const branches = await resolveExportBranches(actor, url.searchParams.get("branch"));
+    if (branches.length === 0) return NextResponse.json({ error: "No branch to export" }, { status: 404 });
+    const branchIds = branches.map((branch) => branch.id);
+    const rollup = await getAccountingRollupData(from, to, branchIds);
+    const body =
+      format === "xlsx"
+        ? await buildAccountingRollupWorkbook(rollup, headerName(branches))
+        : await renderPdf(
+            React.createElement(AccountingRollupPdf, {
+              data: { ...rollup, companyName: headerName(branches), logoUrl: (await readLogo()) ?? undefined },
+            }),
+          );
+
+    try {
+      const request = await tryGetAuditRequestContext();
+      await createAuditLogStandalone({
+        actorUserId: actor.id,
+        action: "ACCOUNTING_EXPORT",
+        entityType: "AccountingDay",
+        entityId: `${from}..${to}`,
+        metadata: { from, to, branchIds, days: rollup.days.length, format },
+        request,
+      });
+    } catch {
+      // ignore audit failures for export
+    }
+
+    const filename = `accounting-${safeFilePart(from)}-to-${safeFilePart(to)}.${format}`;
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "xlsx"
+            ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            : "application/pdf",
+        "Content-Disposition": `${isPreview && format === "pdf" ? "inline" : "attachment"}; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating accounting period export:", error);
+    return NextResponse.json({ error: "Failed to generate accounting export" }, { status: 500 });
+  }
+}
+
 export async function GET(req: Request) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(actor, "report.export");
 
   const url = new URL(req.url);
+  if (url.searchParams.has("from") || url.searchParams.has("to")) {
+    return exportRollup(url, actor);
+  }
+
   const rawDate = url.searchParams.get("date")?.trim() ?? "";
   const isPreview = url.searchParams.get("preview") === "true";
   const today = formatDateYMD(getManilaToday());
@@ -35,33 +135,25 @@ export async function GET(req: Request) {
       : today;
 
   try {
-    const reportData = await getAccountingReportData(accountingDate);
-
-    let logoBinary: Buffer | null = null;
-    try {
-      const logoPath = path.join(process.cwd(), "public", "logo.jpg");
-      logoBinary = await fs.promises.readFile(logoPath);
-    } catch {
-      logoBinary = null;
+    const branches = await resolveExportBranches(actor, url.searchParams.get("branch"));
+    if (branches.length !== 1) {
+      return NextResponse.json({ error: "Choose a branch for the daily sheet" }, { status: 400 });
     }
+    const branchId = branches[0].id;
+    const reportData = await getAccountingReportData(branchId, accountingDate);
+
+    const logoBinary = await readLogo();
 
-    const stream = await renderToStream(
+    const pdfBuffer = await renderPdf(
       React.createElement(AccountingReportPdf, {
         data: {
           ...reportData,
-          companyName: "Triple E Microfinance",
+          companyName: headerName(branches),
           logoUrl: logoBinary ?? undefined,
         },
-      }) as any,
+      }),
     );
 
-    const chunks: Buffer[] = [];
-    // @ts-ignore
-    for await (const chunk of stream) {
-      chunks.push(Buffer.from(chunk));
-    }
-    const pdfBuffer = Buffer.concat(chunks);
-
     try {
       const request = await tryGetAuditRequestContext();
       await createAuditLogStandalone({
@@ -69,7 +161,7 @@ export async function GET(req: Request) {
         action: "ACCOUNTING_EXPORT",
         entityType: "AccountingDay",
         entityId: accountingDate,
-        metadata: { accountingDate, format: "pdf" },
+        metadata: { branchId, accountingDate, format: "pdf" },
         request,
       });
     } catch {
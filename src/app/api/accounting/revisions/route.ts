@@ -0,0 +1,98 @@
+import { NextRequest, NextResponse } from "next/server";
+import { AccountingRevisionSource } from "@prisma/client";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { saveAccountingDay, type AccountingManualData } from "@/lib/accounting";
+import {
+  RestoreAccountingRevisionSchema,
+  getAccountingDayRevisionSnapshot,
+  getAccountingRevisionErrorResponse,
+  listAccountingDayRevisions,
+} from "@/lib/accounting-revisions";
+import { assertBranchAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getBankAccountErrorResponse } from "@/lib/bank-accounts";
+import { getBranchErrorResponse } from "@/lib/branches";
+import { prisma } from "@/lib/db";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
+
+export async function GET(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.view");
+
+  const accountingDate = req.nextUrl.searchParams.get("date");
+  if (!accountingDate || !/^\d{4}-\d{2}-\d{2}$/.test(accountingDate)) {
+    return NextResponse.json({ error: "Invalid accounting date" }, { status: 400 });
+  }
+  const branchId = req.nextUrl.searchParams.get("branch");
+  if (!branchId || !/^[0-9a-fA-F-]{36}$/.test(branchId)) {
+    return NextResponse.json({ error: "Invalid branch" }, { status: 400 });
+  }
+
+  try {
+    await assertBranchAccess(user, branchId);
+    const items = await listAccountingDayRevisions(branchId, accountingDate);
+    return NextResponse.json({ items });
+  } catch (error) {
+    const denied = getBranchErrorResponse(error);
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
+    console.error("Error loading accounting revisions:", error);
+    return NextResponse.json({ error: "Failed to load accounting revisions" }, { status: 500 });
+  }
+}
+
+export async function POST(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.override");
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = RestoreAccountingRevisionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid revision" }, { status: 400 });
+  }
+
+  const { branchId, accountingDate, version } = parsed.data;
+  const request = await tryGetAuditRequestContext();
+
+  try {
+    await assertBranchAccess(user, branchId);
+    await assertPeriodOpen(prisma, new Date(`${accountingDate}T12:00:00.000+08:00`));
+
+    const saved = await prisma.$transaction(async (tx) => {
+      const revision = await getAccountingDayRevisionSnapshot(tx, branchId, accountingDate, version);
+      const result = await saveAccountingDay(tx, {
+        branchId,
+        accountingDate,
+        manualData: revision.snapshot as Partial<AccountingManualData>,
+        userId: user.id,
+        source: AccountingRevisionSource.RESTORE,
+        restoredFromVersion: revision.version,
+      });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "ACCOUNTING_DAY_RESTORE",
+        entityType: "AccountingDay",
+        entityId: result.day.id,
+        metadata: { branchId, accountingDate, restoredFromVersion: revision.version },
+        request,
+      });
+
+      return result;
+    });
+
+    return NextResponse.json({ success: true, accountingDate, data: saved.data });
+  } catch (error) {
+    const mapped =
+      getPeriodCloseErrorResponse(error) ??
+      getAccountingRevisionErrorResponse(error) ??
+      getBankAccountErrorResponse(error) ??
+      getBranchErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
+    console.error("Error restoring accounting revision:", error);
+    return NextResponse.json({ error: "Failed to restore accounting revision" }, { status: 500 });
+  }
+}
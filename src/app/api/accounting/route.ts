@@ -1,30 +1,48 @@
 import { NextRequest, NextResponse } from "next/server";
-import { Role } from "@prisma/client";
+import { ApprovalRequestType } from "@prisma/client";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 import {
-  buildAccountingView,
-  CLOSING_BALANCE_KEY,
-  getAccountingComputedTotals,
-  getBaseOpeningBalance,
   getAccountingReportData,
-  serializeAccountingManualData,
+  saveAccountingDay,
   sanitizeAccountingManualData,
+  setAccountingEncoderOverride,
   type AccountingManualData,
 } from "@/lib/accounting";
+import { canApproveRequests, submitApprovalRequest } from "@/lib/approvals";
+import { getBankAccountErrorResponse } from "@/lib/bank-accounts";
+import { getBranchErrorResponse } from "@/lib/branches";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import {
+  assertPeriodOpen,
+  findActivePeriodClose,
+  getPeriodCloseErrorResponse,
+  serializePeriodClose,
+} from "@/lib/period-close";
+import { assertBranchAccess } from "@/lib/auth/access";
+import { hasPermission, requirePermission, requireUser } from "@/lib/auth/session";
 
 const SaveAccountingSchema = z.object({
+  branchId: z.string().uuid(),
   accountingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   openingBalanceOverride: z.union([z.number(), z.string(), z.null()]).optional(),
   loanReleaseOverride: z.union([z.number(), z.string(), z.null()]).optional(),
   receipts: z.record(z.string(), z.union([z.number(), z.string()])),
   payments: z.record(z.string(), z.union([z.number(), z.string()])),
   dailyExpenses: z.record(z.string(), z.union([z.number(), z.string()])),
+  bankTransactions: z
+    .array(
+      z.object({
+        bankAccountId: z.string().uuid(),
+        deposit: z.union([z.number(), z.string()]),
+        withdrawal: z.union([z.number(), z.string()]),
+      }),
+    )
+    .optional(),
 });
 
 const EncoderOverrideSchema = z.object({
+  branchId: z.string().uuid(),
   accountingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
   encoderOverrideAllowed: z.boolean(),
 });
@@ -35,7 +53,7 @@ function toDateOnly(date: string) {
 
 export async function GET(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "accounting.view");
 
   const accountingDate = req.nextUrl.searchParams.get("date");
   if (!accountingDate || !/^\d{4}-\d{2}-\d{2}$/.test(accountingDate)) {
@@ -44,14 +62,30 @@ export async function GET(req: NextRequest) {
       { status: 400 },
     );
   }
+  const branchId = req.nextUrl.searchParams.get("branch");
+  if (!branchId || !/^[0-9a-fA-F-]{36}$/.test(branchId)) {
+    return NextResponse.json(
+      { error: "Invalid branch" },
+      { status: 400 },
+    );
+  }
 
   try {
-    const reportData = await getAccountingReportData(accountingDate);
+    await assertBranchAccess(user, branchId);
+    const [reportData, periodClose] = await Promise.all([
+      getAccountingReportData(branchId, accountingDate),
+      findActivePeriodClose(prisma, toDateOnly(accountingDate)),
+    ]);
     return NextResponse.json({
       success: true,
       reportData,
+      periodClose: periodClose ? serializePeriodClose(periodClose) : null,
     });
   } catch (error) {
+    const denied = getBranchErrorResponse(error);
+    if (denied) {
+      return NextResponse.json({ error: denied.error }, { status: denied.status });
+    }
     console.error("Error loading accounting day:", error);
     return NextResponse.json(
       { error: "Failed to load accounting day" },
@@ -62,7 +96,7 @@ export async function GET(req: NextRequest) {
 
 export async function PUT(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "accounting.save");
 
   const body = await req.json();
   const parsed = SaveAccountingSchema.safeParse(body);
@@ -74,89 +108,57 @@ export async function PUT(req: NextRequest) {
     );
   }
 
-  const inputManualData = sanitizeAccountingManualData(parsed.data as Partial<AccountingManualData>);
-  const accountingDate = parsed.data.accountingDate;
+  const { branchId, accountingDate } = parsed.data;
   const request = await tryGetAuditRequestContext();
 
   try {
+    await assertBranchAccess(user, branchId);
+    await assertPeriodOpen(prisma, toDateOnly(accountingDate));
+
     const existing = await (prisma as any).accountingDay.findUnique({
-      where: { accountingDate: toDateOnly(accountingDate) },
-      select: {
-        id: true,
-        receipts: true,
-        payments: true,
-        dailyExpenses: true,
-        encoderOverrideAllowed: true,
-      },
+      where: { branchId_accountingDate: { branchId, accountingDate: toDateOnly(accountingDate) } },
+      select: { id: true, receipts: true, encoderOverrideAllowed: true },
     });
 
-    const existingManualData = existing
+    const overrideAllowed = existing
       ? sanitizeAccountingManualData({
           receipts: existing.receipts,
-          payments: existing.payments,
-          dailyExpenses: existing.dailyExpenses,
           encoderOverrideAllowed: existing.encoderOverrideAllowed,
-        })
-      : null;
-    const manualData = {
-      ...inputManualData,
-      encoderOverrideAllowed: existingManualData?.encoderOverrideAllowed ?? false,
-    };
-    const serializedManualData = serializeAccountingManualData(manualData);
-
-    const computedTotals = await getAccountingComputedTotals(accountingDate);
-    const baseOpeningBalance = await getBaseOpeningBalance(accountingDate, computedTotals);
-    const resolvedOpeningBalance = manualData.openingBalanceOverride ?? baseOpeningBalance;
-    const resolvedComputedTotals = {
-      ...computedTotals,
-      loanRelease: manualData.loanReleaseOverride ?? computedTotals.loanRelease,
-    };
-    const view = buildAccountingView(manualData, resolvedComputedTotals, resolvedOpeningBalance);
-    const paymentsWithClosingBalance = {
-      ...serializedManualData.payments,
-      [CLOSING_BALANCE_KEY]: Math.round(view.closingBalance),
-    };
+        }).encoderOverrideAllowed
+      : false;
+
+    // Overwriting a saved day without an explicit grant goes through the approvals inbox
+    if (existing && !hasPermission(user, "accounting.override") && !overrideAllowed && !(await canApproveRequests(user))) {
+      const { branchId: _branch, accountingDate: _date, ...manualData } = parsed.data;
+      const approval = await prisma.$transaction((tx) =>
+        submitApprovalRequest(tx, {
+          type: ApprovalRequestType.ACCOUNTING_OVERRIDE,
+          payload: { branchId, accountingDate, manualData },
+          requestedById: user.id,
+          request,
+        }),
+      );
 
-    if (existing && user.role !== Role.SUPER_ADMIN && !existingManualData?.encoderOverrideAllowed) {
       return NextResponse.json(
-        {
-          error:
-            "This accounting day is already saved. Only a super admin or an encoder allowed for this date can override it.",
-        },
-        { status: 403 },
+        { success: true, pendingApproval: true, approvalRequestId: approval.id, accountingDate },
+        { status: 202 },
       );
     }
 
     const saved = await prisma.$transaction(async (tx) => {
-      const result = existing
-        ? await (tx as any).accountingDay.update({
-            where: { accountingDate: toDateOnly(accountingDate) },
-            data: {
-              receipts: serializedManualData.receipts,
-              payments: paymentsWithClosingBalance,
-              dailyExpenses: serializedManualData.dailyExpenses,
-              encoderOverrideAllowed: manualData.encoderOverrideAllowed,
-              updatedById: user.id,
-            },
-          })
-        : await (tx as any).accountingDay.create({
-            data: {
-              accountingDate: toDateOnly(accountingDate),
-              receipts: serializedManualData.receipts,
-              payments: paymentsWithClosingBalance,
-              dailyExpenses: serializedManualData.dailyExpenses,
-              encoderOverrideAllowed: manualData.encoderOverrideAllowed,
-              createdById: user.id,
-              updatedById: user.id,
-            },
-          });
+      const result = await saveAccountingDay(tx, {
+        branchId,
+        accountingDate,
+        manualData: parsed.data as Partial<AccountingManualData>,
+        userId: user.id,
+      });
 
       await createAuditLog(tx, {
         actorUserId: user.id,
         action: "ACCOUNTING_DAY_SAVE",
         entityType: "AccountingDay",
-        entityId: result.id,
-        metadata: { accountingDate },
+        entityId: result.day.id,
+        metadata: { branchId, accountingDate },
         request,
       });
 
@@ -166,14 +168,14 @@ export async function PUT(req: NextRequest) {
     return NextResponse.json({
       success: true,
       accountingDate,
-      data: {
-        ...serializedManualData,
-        payments: paymentsWithClosingBalance,
-        encoderOverrideAllowed: manualData.encoderOverrideAllowed,
-        lastUpdatedAt: saved.updatedAt?.toISOString?.() ?? null,
-      },
+      data: saved.data,
     });
   } catch (error) {
+    const mapped =
+      getPeriodCloseErrorResponse(error) ?? getBankAccountErrorResponse(error) ?? getBranchErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
     console.error("Error saving accounting day:", error);
     return NextResponse.json(
       { error: "Failed to save accounting day" },
@@ -184,7 +186,7 @@ export async function PUT(req: NextRequest) {
 
 export async function PATCH(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]);
+  requirePermission(user, "accounting.override");
 
   const body = await req.json();
   const parsed = EncoderOverrideSchema.safeParse(body);
@@ -196,53 +198,20 @@ export async function PATCH(req: NextRequest) {
     );
   }
 
-  const { accountingDate, encoderOverrideAllowed } = parsed.data;
+  const { branchId, accountingDate, encoderOverrideAllowed } = parsed.data;
   const request = await tryGetAuditRequestContext();
 
   try {
-    const existing = await (prisma as any).accountingDay.findUnique({
-      where: { accountingDate: toDateOnly(accountingDate) },
-      select: {
-        id: true,
-        receipts: true,
-        payments: true,
-        dailyExpenses: true,
-        encoderOverrideAllowed: true,
-        updatedAt: true,
-      },
-    });
-
-    if (!existing) {
-      return NextResponse.json(
-        { error: "Save the accounting day first before granting encoder override." },
-        { status: 404 },
-      );
-    }
-
-    const manualData = sanitizeAccountingManualData({
-      receipts: existing.receipts,
-      payments: existing.payments,
-      dailyExpenses: existing.dailyExpenses,
-      encoderOverrideAllowed,
-    });
-    const serializedManualData = serializeAccountingManualData(manualData);
-    const existingClosingBalance = (existing.payments as any)?.[CLOSING_BALANCE_KEY];
-    const nextPayments = {
-      ...serializedManualData.payments,
-      ...(existingClosingBalance === undefined ? {} : { [CLOSING_BALANCE_KEY]: existingClosingBalance }),
-    };
+    await assertPeriodOpen(prisma, toDateOnly(accountingDate));
 
     const saved = await prisma.$transaction(async (tx) => {
-      const result = await (tx as any).accountingDay.update({
-        where: { accountingDate: toDateOnly(accountingDate) },
-        data: {
-          receipts: serializedManualData.receipts,
-          payments: nextPayments,
-          dailyExpenses: serializedManualData.dailyExpenses,
-          encoderOverrideAllowed,
-          updatedById: user.id,
-        },
+      const result = await setAccountingEncoderOverride(tx, {
+        branchId,
+        accountingDate,
+        encoderOverrideAllowed,
+        userId: user.id,
       });
+      if (!result) return null;
 
       await createAuditLog(tx, {
         actorUserId: user.id,
@@ -251,13 +220,20 @@ export async function PATCH(req: NextRequest) {
           : "ACCOUNTING_ENCODER_OVERRIDE_REVOKED",
         entityType: "AccountingDay",
         entityId: result.id,
-        metadata: { accountingDate, encoderOverrideAllowed },
+        metadata: { branchId, accountingDate, encoderOverrideAllowed },
         request,
       });
 
       return result;
     });
 
+    if (!saved) {
+      return NextResponse.json(
+        { error: "Save the accounting day first before granting encoder override." },
+        { status: 404 },
+      );
+    }
+
     return NextResponse.json({
       success: true,
       accountingDate,
@@ -265,6 +241,10 @@ export async function PATCH(req: NextRequest) {
       lastUpdatedAt: saved.updatedAt?.toISOString?.() ?? null,
     });
   } catch (error) {
+    const closed = getPeriodCloseErrorResponse(error);
+    if (closed) {
+      return NextResponse.json({ error: closed.error }, { status: closed.status });
+    }
     console.error("Error updating encoder override permission:", error);
     return NextResponse.json(
       { error: "Failed to update encoder override permission" },
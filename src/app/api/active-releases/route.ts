@@ -1,26 +1,39 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { hasRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { LoanInterestMethod, LoanPaymentFrequency } from "@prisma/client";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 import { getManilaBusinessDate } from "@/lib/date";
+import { createLoanWithRelease, serializeLoan } from "@/lib/loans";
+import { getPeriodCloseErrorResponse } from "@/lib/period-close";
 
 export async function POST(req: NextRequest) {
   const actor = await requireUser();
-  if (!hasRole(actor, [Role.SUPER_ADMIN, Role.ENCODER])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(actor, "adjustment.create");
 
   const body = await req.json();
   const memberId = String(body.memberId || "").trim();
   const amount = parseFloat(String(body.amount || "").trim());
+  const interestMethod = body.interestMethod ? String(body.interestMethod) : undefined;
+  const interestRate = body.interestRate != null && body.interestRate !== "" ? Number(body.interestRate) : undefined;
+  const termDays = body.termDays != null && body.termDays !== "" ? Number(body.termDays) : undefined;
+  const paymentFrequency = body.paymentFrequency ? String(body.paymentFrequency) : undefined;
 
   if (!memberId || !amount || isNaN(amount) || amount <= 0) {
     return NextResponse.json({ error: "Invalid memberId or amount" }, { status: 400 });
   }
+  if (
+    (interestMethod !== undefined && !(Object.values(LoanInterestMethod) as string[]).includes(interestMethod)) ||
+    (interestRate !== undefined && (isNaN(interestRate) || interestRate < 0)) ||
+    (termDays !== undefined && (!Number.isInteger(termDays) || termDays <= 0)) ||
+    (paymentFrequency !== undefined && !(Object.values(LoanPaymentFrequency) as string[]).includes(paymentFrequency))
+  ) {
+    return NextResponse.json({ error: "Invalid loan terms" }, { status: 400 });
+  }
+  if (!(await canAccessMember(actor, memberId))) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
 
   const request = await tryGetAuditRequestContext();
   const releaseDate = getManilaBusinessDate();
@@ -35,12 +48,16 @@ export async function POST(req: NextRequest) {
         throw new Error("Member not found");
       }
 
-      const activeRelease = await (tx as any).activeRelease.create({
-        data: {
-          memberId: member.id,
-          amount,
-          releaseDate,
-          createdAt: releaseDate,
+      const { loan, release } = await createLoanWithRelease(tx, {
+        memberId: member.id,
+        createdById: actor.id,
+        releaseDate,
+        terms: {
+          principal: amount,
+          interestMethod: interestMethod as LoanInterestMethod | undefined,
+          interestRate,
+          termDays,
+          paymentFrequency: paymentFrequency as LoanPaymentFrequency | undefined,
         },
       });
 
@@ -51,13 +68,14 @@ export async function POST(req: NextRequest) {
         entityId: member.id,
         metadata: {
           amount,
+          loanId: loan.id,
           releaseDate: releaseDate.toISOString(),
           source: "member_detail",
         },
         request,
       });
 
-      return activeRelease;
+      return { ...release, loan };
     });
 
     return NextResponse.json(
@@ -67,6 +85,7 @@ export async function POST(req: NextRequest) {
         amount: Number(created.amount),
         releaseDate: created.releaseDate.toISOString(),
         createdAt: created.createdAt.toISOString(),
+        loan: serializeLoan(created.loan),
       },
       { status: 201 },
     );
@@ -74,6 +93,10 @@ export async function POST(req: NextRequest) {
     if (error.message === "Member not found") {
       return NextResponse.json({ error: "Member not found" }, { status: 404 });
     }
+    const closed = getPeriodCloseErrorResponse(error);
+    if (closed) {
+      return NextResponse.json({ error: closed.error }, { status: closed.status });
+    }
     console.error("Error creating active release:", error);
     return NextResponse.json({ error: "Failed to create active release" }, { status: 500 });
   }
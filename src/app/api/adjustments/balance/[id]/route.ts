@@ -1,67 +1,87 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireUser } from "@/lib/auth/session";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { ReversalSchema, reverseBalanceAdjustment } from "@/lib/reversals";
+import {
+  canApproveRequests,
+  getApprovalErrorResponse,
+  getReversalMemberId,
+  submitReversalRequest,
+} from "@/lib/approvals";
 
+// Reverts by posting a contra-entry; the original adjustment is kept.
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const user = await requireUser();
+  requirePermission(user, "adjustment.revert");
   const { id } = await params;
 
-  try {
-    await prisma.$transaction(async (tx) => {
-      const adjustment = await tx.balanceAdjustment.findUnique({
-        where: { id },
-        include: { member: true },
-      });
-
-      if (!adjustment) {
-        throw new Error("Adjustment not found");
-      }
-
-      // Reverse the effect
-      let adjustmentAmount = Number(adjustment.amount);
-      if (adjustment.type === "DEDUCT") {
-        adjustmentAmount = -adjustmentAmount;
-      }
-      // If INCREASE, amount is positive.
-      // Revert: newBalance = currentBalance - amount
-      // If DEDUCT, amount is effectively negative (conceptually).
-      // Revert: newBalance = currentBalance - (-amount) = currentBalance + amount
+  const body = await req.json().catch(() => ({}));
+  const parsed = ReversalSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "A reason is required to revert an adjustment" }, { status: 400 });
+  }
 
-      // Wait, let's be precise.
-      // If type INCREASE, it added to balance. Revert should SUBTRACT.
-      // If type DEDUCT, it subtracted from balance. Revert should ADD.
-      
-      const reverseAmount = adjustment.type === "INCREASE" 
-        ? -Number(adjustment.amount) 
-        : Number(adjustment.amount);
+  try {
+    const memberId = await getReversalMemberId("BALANCE", id);
+    if (!memberId || !(await canAccessMember(user, memberId))) {
+      return NextResponse.json({ error: "Adjustment not found" }, { status: 404 });
+    }
 
-      const updateData: any = {
-        balance: { increment: reverseAmount },
-      };
+    const request = await tryGetAuditRequestContext();
 
-      if (adjustment.type === "DEDUCT" && adjustment.member && adjustment.member.daysCount > 0) {
-        updateData.daysCount = adjustment.member.daysCount - 1;
-      }
+    if (!(await canApproveRequests(user))) {
+      const approval = await prisma.$transaction((tx) =>
+        submitReversalRequest(tx, {
+          target: "BALANCE",
+          adjustmentId: id,
+          reason: parsed.data.reason,
+          requestedById: user.id,
+          request,
+        }),
+      );
+      return NextResponse.json(
+        { success: true, pendingApproval: true, approvalRequestId: approval.id },
+        { status: 202 },
+      );
+    }
 
-      await tx.member.update({
-        where: { id: adjustment.memberId },
-        data: updateData,
+    const result = await prisma.$transaction(async (tx) => {
+      const result = await reverseBalanceAdjustment(tx, {
+        id,
+        encodedById: user.id,
+        reason: parsed.data.reason,
       });
 
-      await tx.balanceAdjustment.delete({
-        where: { id },
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: result.kind === "OFFSET" ? "SAVINGS_OFFSET_REVERTED" : "BALANCE_ADJUSTMENT_REVERTED",
+        entityType: "Member",
+        entityId: result.member.id,
+        metadata: {
+          adjustmentId: id,
+          reversalId: result.balance.reversal.id,
+          type: result.balance.original.type,
+          amount: result.balance.original.amount.toFixed(2),
+          reason: parsed.data.reason,
+          memberBalanceBeforeRevert: result.memberBefore.balance.toFixed(2),
+          memberBalanceAfterRevert: result.member.balance.toFixed(2),
+        },
+        request,
       });
+
+      return result;
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, reversalId: result.balance.reversal.id });
   } catch (error) {
+    const mapped = getApprovalErrorResponse(error);
+    if (mapped) return NextResponse.json({ error: mapped.error }, { status: mapped.status });
     console.error("Error reverting balance adjustment:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to revert adjustment" },
-      { status: 500 }
-    );
+    return NextResponse.json({ error: "Failed to revert adjustment" }, { status: 500 });
   }
 }
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { canAccessMember, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { z } from "zod";
+import { tryGetAuditRequestContext } from "@/lib/audit";
 import { formatDateYMD, getManilaBusinessDate, getManilaDateRange } from "@/lib/date";
-import { BalanceAdjustment, Role } from "@prisma/client";
+import { ApprovalRequestType, BalanceAdjustment } from "@prisma/client";
+import { canApproveRequests, submitApprovalRequest } from "@/lib/approvals";
+import { applyLoanDeduction, applyLoanIncrease, getLoanErrorResponse } from "@/lib/loans";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
 
 const BalanceAdjustmentSchema = z.object({
   memberId: z.string().uuid(),
@@ -14,24 +18,24 @@ const BalanceAdjustmentSchema = z.object({
 
 export async function GET(req: NextRequest) {
     const user = await requireUser();
-    requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+    requirePermission(user, "adjustment.view");
     const { searchParams } = new URL(req.url);
     const memberId = searchParams.get("memberId");
     const page = Number(searchParams.get("page") || "1");
     const limit = Number(searchParams.get("limit") || "10");
-    const collectorGroupIds = await getCollectorScopedGroupIds(user);
+    const scopedGroupIds = await getScopedGroupIds(user);
 
     if (!memberId) {
         return NextResponse.json({ error: "Member ID is required" }, { status: 400 });
     }
 
     try {
-        if (collectorGroupIds) {
+        if (scopedGroupIds) {
             const member = await prisma.member.findUnique({
                 where: { id: memberId },
                 select: { groupId: true },
             });
-            if (!member?.groupId || !collectorGroupIds.includes(member.groupId)) {
+            if (!member?.groupId || !scopedGroupIds.includes(member.groupId)) {
                 return NextResponse.json({ error: "Member not found" }, { status: 404 });
             }
         }
@@ -42,7 +46,10 @@ export async function GET(req: NextRequest) {
                 orderBy: { createdAt: "desc" },
                 skip: (page - 1) * limit,
                 take: limit,
-                include: { encodedBy: { select: { name: true } } },
+                include: {
+                    encodedBy: { select: { name: true } },
+                    reversal: { select: { id: true } },
+                },
             }),
             prisma.balanceAdjustment.count({ where: { memberId } }),
         ]);
@@ -69,7 +76,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "adjustment.create");
   
   try {
     const body = await req.json();
@@ -80,16 +87,44 @@ export async function POST(req: NextRequest) {
     }
 
     const { memberId, type, amount } = parsed.data;
+    if (!(await canAccessMember(user, memberId))) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    if (type === "INCREASE" && !(await canApproveRequests(user))) {
+      const request = await tryGetAuditRequestContext();
+      const approval = await prisma.$transaction(async (tx) => {
+        const member = await tx.member.findUnique({ where: { id: memberId } });
+        if (!member) throw new Error("Member not found");
+
+        return submitApprovalRequest(tx, {
+          type: ApprovalRequestType.BALANCE_INCREASE,
+          memberId,
+          payload: { amount: amount.toFixed(2) },
+          requestedById: user.id,
+          request,
+        });
+      });
+      return NextResponse.json(
+        { success: true, pendingApproval: true, approvalRequestId: approval.id },
+        { status: 202 },
+      );
+    }
 
     const adjustmentDate = getManilaBusinessDate();
     const todayStr = formatDateYMD(adjustmentDate);
     const todayRange = getManilaDateRange(todayStr, todayStr);
 
     const result = await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(tx, adjustmentDate);
+
       const alreadyUpdated = await tx.balanceAdjustment.findFirst({
         where: {
           memberId,
           createdAt: { gte: todayRange.from, lte: todayRange.to },
+          savingsOffset: { is: null },
+          reversalOfId: null,
+          reversal: { is: null },
         },
       });
       if (alreadyUpdated) {
@@ -108,6 +143,11 @@ export async function POST(req: NextRequest) {
         data: { balance: balanceAfter },
       });
 
+      const loanId =
+        type === "DEDUCT"
+          ? await applyLoanDeduction(tx, memberId, amount)
+          : await applyLoanIncrease(tx, memberId, amount);
+
       const adjustment = await tx.balanceAdjustment.create({
         data: {
           memberId,
@@ -116,6 +156,7 @@ export async function POST(req: NextRequest) {
           amount,
           balanceBefore,
           balanceAfter,
+          loanId,
           createdAt: adjustmentDate,
         },
         include: { encodedBy: { select: { name: true } } }
@@ -142,6 +183,10 @@ export async function POST(req: NextRequest) {
         { status: 409 },
       );
     }
+    const mapped = getLoanErrorResponse(error) ?? getPeriodCloseErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
     console.error("Error creating balance adjustment:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Failed to create adjustment" },
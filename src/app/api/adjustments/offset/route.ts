@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { getManilaBusinessDate } from "@/lib/date";
+import { getLoanErrorResponse } from "@/lib/loans";
+import { getPeriodCloseErrorResponse } from "@/lib/period-close";
+import { applySavingsOffset } from "@/lib/savings";
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+
+const SavingsOffsetSchema = z.object({
+  memberId: z.string().uuid(),
+  amount: z.coerce.number().positive(),
+});
+
+export async function POST(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "adjustment.create");
+
+  try {
+    const body = await req.json();
+    const parsed = SavingsOffsetSchema.safeParse(body);
+
+    if (!parsed.success) {
+      return NextResponse.json({ error: "Invalid input", details: parsed.error.format() }, { status: 400 });
+    }
+
+    if (!(await canAccessMember(user, parsed.data.memberId))) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    const amount = new Prisma.Decimal(parsed.data.amount.toFixed(2));
+    const request = await tryGetAuditRequestContext();
+
+    const result = await prisma.$transaction(async (tx) => {
+      const offset = await applySavingsOffset(tx, {
+        memberId: parsed.data.memberId,
+        encodedById: user.id,
+        amount,
+        createdAt: getManilaBusinessDate(),
+      });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "SAVINGS_OFFSET",
+        entityType: "Member",
+        entityId: parsed.data.memberId,
+        metadata: {
+          amount: amount.toFixed(2),
+          savingsAdjustmentId: offset.savingsAdjustment.id,
+          balanceAdjustmentId: offset.balanceAdjustment.id,
+          loanId: offset.balanceAdjustment.loanId,
+          savingsAfter: offset.savingsAdjustment.savingsAfter.toFixed(2),
+          balanceAfter: offset.balanceAdjustment.balanceAfter.toFixed(2),
+        },
+        request,
+      });
+
+      return offset;
+    });
+
+    return NextResponse.json({
+      success: true,
+      savingsAdjustment: {
+        ...result.savingsAdjustment,
+        amount: Number(result.savingsAdjustment.amount),
+        savingsBefore: Number(result.savingsAdjustment.savingsBefore),
+        savingsAfter: Number(result.savingsAdjustment.savingsAfter),
+        createdAt: result.savingsAdjustment.createdAt.toISOString(),
+      },
+      balanceAdjustment: {
+        ...result.balanceAdjustment,
+        amount: Number(result.balanceAdjustment.amount),
+        balanceBefore: Number(result.balanceAdjustment.balanceBefore),
+        balanceAfter: Number(result.balanceAdjustment.balanceAfter),
+        createdAt: result.balanceAdjustment.createdAt.toISOString(),
+      },
+      newSavings: Number(result.savingsAdjustment.savingsAfter),
+      newBalance: Number(result.balanceAdjustment.balanceAfter),
+    });
+  } catch (error) {
+    if (error instanceof Error) {
+      if (error.message === "MEMBER_NOT_FOUND") {
+        return NextResponse.json({ error: "Member not found" }, { status: 404 });
+      }
+      if (error.message === "INSUFFICIENT_SAVINGS") {
+        return NextResponse.json({ error: "Offset exceeds current savings" }, { status: 400 });
+      }
+      if (error.message === "EXCEEDS_BALANCE") {
+        return NextResponse.json({ error: "Offset exceeds current balance" }, { status: 400 });
+      }
+    }
+    const mapped = getLoanErrorResponse(error) ?? getPeriodCloseErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
+    console.error("Error applying savings offset:", error);
+    return NextResponse.json({ error: "Failed to apply offset" }, { status: 500 });
+  }
+}
@@ -1,51 +1,87 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireUser } from "@/lib/auth/session";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { ReversalSchema, reverseSavingsAdjustment } from "@/lib/reversals";
+import {
+  canApproveRequests,
+  getApprovalErrorResponse,
+  getReversalMemberId,
+  submitReversalRequest,
+} from "@/lib/approvals";
 
+// Reverts by posting a contra-entry; the original adjustment is kept.
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const user = await requireUser();
+  requirePermission(user, "adjustment.revert");
   const { id } = await params;
 
+  const body = await req.json().catch(() => ({}));
+  const parsed = ReversalSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "A reason is required to revert an adjustment" }, { status: 400 });
+  }
+
   try {
-    await prisma.$transaction(async (tx) => {
-      const adjustment = await tx.savingsAdjustment.findUnique({
-        where: { id },
-        include: { member: true },
+    const memberId = await getReversalMemberId("SAVINGS", id);
+    if (!memberId || !(await canAccessMember(user, memberId))) {
+      return NextResponse.json({ error: "Adjustment not found" }, { status: 404 });
+    }
+
+    const request = await tryGetAuditRequestContext();
+
+    if (!(await canApproveRequests(user))) {
+      const approval = await prisma.$transaction((tx) =>
+        submitReversalRequest(tx, {
+          target: "SAVINGS",
+          adjustmentId: id,
+          reason: parsed.data.reason,
+          requestedById: user.id,
+          request,
+        }),
+      );
+      return NextResponse.json(
+        { success: true, pendingApproval: true, approvalRequestId: approval.id },
+        { status: 202 },
+      );
+    }
+
+    const result = await prisma.$transaction(async (tx) => {
+      const result = await reverseSavingsAdjustment(tx, {
+        id,
+        encodedById: user.id,
+        reason: parsed.data.reason,
       });
 
-      if (!adjustment) {
-        throw new Error("Adjustment not found");
-      }
-
-      // Reverse the effect
-      // If INCREASE, it added to savings. Revert should SUBTRACT.
-      // If WITHDRAW or APPLY_TO_BALANCE, it subtracted from savings. Revert should ADD.
-      
-      const reverseAmount = adjustment.type === "INCREASE" 
-        ? -Number(adjustment.amount) 
-        : Number(adjustment.amount);
-
-      await tx.member.update({
-        where: { id: adjustment.memberId },
-        data: {
-          savings: { increment: reverseAmount },
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: result.kind === "OFFSET" ? "SAVINGS_OFFSET_REVERTED" : "SAVINGS_ADJUSTMENT_REVERTED",
+        entityType: "Member",
+        entityId: result.member.id,
+        metadata: {
+          adjustmentId: id,
+          reversalId: result.savings.reversal.id,
+          type: result.savings.original.type,
+          amount: result.savings.original.amount.toFixed(2),
+          reason: parsed.data.reason,
+          memberSavingsBeforeRevert: result.memberBefore.savings.toFixed(2),
+          memberSavingsAfterRevert: result.member.savings.toFixed(2),
         },
+        request,
       });
 
-      await tx.savingsAdjustment.delete({
-        where: { id },
-      });
+      return result;
     });
 
-    return NextResponse.json({ success: true });
+    return NextResponse.json({ success: true, reversalId: result.savings.reversal.id });
   } catch (error) {
+    const mapped = getApprovalErrorResponse(error);
+    if (mapped) return NextResponse.json({ error: mapped.error }, { status: mapped.status });
     console.error("Error reverting savings adjustment:", error);
-    return NextResponse.json(
-      { error: error instanceof Error ? error.message : "Failed to revert adjustment" },
-      { status: 500 }
-    );
+    return NextResponse.json({ error: "Failed to revert adjustment" }, { status: 500 });
   }
 }
@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { canAccessMember, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { z } from "zod";
+import { tryGetAuditRequestContext } from "@/lib/audit";
 import { formatDateYMD, getManilaBusinessDate, getManilaDateRange } from "@/lib/date";
-import { Role, SavingsAdjustment } from "@prisma/client";
+import { ApprovalRequestType, SavingsAdjustment } from "@prisma/client";
+import { canApproveRequests, requiresWithdrawalApproval, submitApprovalRequest } from "@/lib/approvals";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
 
 const SavingsAdjustmentSchema = z.object({
   memberId: z.string().uuid(),
@@ -14,24 +17,24 @@ const SavingsAdjustmentSchema = z.object({
 
 export async function GET(req: NextRequest) {
     const user = await requireUser();
-    requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+    requirePermission(user, "adjustment.view");
     const { searchParams } = new URL(req.url);
     const memberId = searchParams.get("memberId");
     const page = Number(searchParams.get("page") || "1");
     const limit = Number(searchParams.get("limit") || "10");
-    const collectorGroupIds = await getCollectorScopedGroupIds(user);
+    const scopedGroupIds = await getScopedGroupIds(user);
 
     if (!memberId) {
         return NextResponse.json({ error: "Member ID is required" }, { status: 400 });
     }
 
     try {
-        if (collectorGroupIds) {
+        if (scopedGroupIds) {
             const member = await prisma.member.findUnique({
                 where: { id: memberId },
                 select: { groupId: true },
             });
-            if (!member?.groupId || !collectorGroupIds.includes(member.groupId)) {
+            if (!member?.groupId || !scopedGroupIds.includes(member.groupId)) {
                 return NextResponse.json({ error: "Member not found" }, { status: 404 });
             }
         }
@@ -42,7 +45,10 @@ export async function GET(req: NextRequest) {
                 orderBy: { createdAt: "desc" },
                 skip: (page - 1) * limit,
                 take: limit,
-                include: { encodedBy: { select: { name: true } } },
+                include: {
+                    encodedBy: { select: { name: true } },
+                    reversal: { select: { id: true } },
+                },
             }),
             prisma.savingsAdjustment.count({ where: { memberId } }),
         ]);
@@ -69,7 +75,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "adjustment.create");
   
   try {
     const body = await req.json();
@@ -80,16 +86,45 @@ export async function POST(req: NextRequest) {
     }
 
     const { memberId, type, amount } = parsed.data;
+    if (!(await canAccessMember(user, memberId))) {
+      return NextResponse.json({ error: "Member not found" }, { status: 404 });
+    }
+
+    if (type === "WITHDRAW" && requiresWithdrawalApproval(amount) && !(await canApproveRequests(user))) {
+      const request = await tryGetAuditRequestContext();
+      const approval = await prisma.$transaction(async (tx) => {
+        const member = await tx.member.findUnique({ where: { id: memberId } });
+        if (!member) throw new Error("Member not found");
+        if (Number(member.savings) < amount) throw new Error("Withdrawal exceeds current savings");
+
+        return submitApprovalRequest(tx, {
+          type: ApprovalRequestType.SAVINGS_WITHDRAWAL,
+          memberId,
+          payload: { amount: amount.toFixed(2) },
+          requestedById: user.id,
+          request,
+        });
+      });
+      return NextResponse.json(
+        { success: true, pendingApproval: true, approvalRequestId: approval.id },
+        { status: 202 },
+      );
+    }
 
     const adjustmentDate = getManilaBusinessDate();
     const todayStr = formatDateYMD(adjustmentDate);
     const todayRange = getManilaDateRange(todayStr, todayStr);
 
     const result = await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(tx, adjustmentDate);
+
       const alreadyUpdated = await tx.savingsAdjustment.findFirst({
         where: {
           memberId,
           createdAt: { gte: todayRange.from, lte: todayRange.to },
+          type: { not: "APPLY_TO_BALANCE" },
+          reversalOfId: null,
+          reversal: { is: null },
         },
       });
       if (alreadyUpdated) {
@@ -142,6 +177,10 @@ export async function POST(req: NextRequest) {
         { status: 409 },
       );
     }
+    const closed = getPeriodCloseErrorResponse(error);
+    if (closed) {
+      return NextResponse.json({ error: closed.error }, { status: closed.status });
+    }
     console.error("Error creating savings adjustment:", error);
     return NextResponse.json(
       { error: error instanceof Error ? error.message : "Failed to create adjustment" },
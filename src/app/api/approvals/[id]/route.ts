@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { tryGetAuditRequestContext } from "@/lib/audit";
+import {
+  ApprovalDecisionSchema,
+  canApproveRequests,
+  decideApprovalRequest,
+  getApprovalErrorResponse,
+} from "@/lib/approvals";
+
+// Approves (and applies) or rejects a pending request.
+export async function POST(
+  req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const user = await requireUser();
+  requirePermission(user, "approval.view");
+  const { id } = await params;
+  if (!(await canApproveRequests(user, id))) {
+    return NextResponse.json(
+      { error: "Your role is not allowed to do this action" },
+      { status: 403 },
+    );
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = ApprovalDecisionSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid input" }, { status: 400 });
+  }
+
+  try {
+    const request = await tryGetAuditRequestContext();
+
+    const result = await prisma.$transaction((tx) =>
+      decideApprovalRequest(tx, {
+        id,
+        decidedById: user.id,
+        decision: parsed.data.decision,
+        note: parsed.data.note,
+        request,
+      }),
+    );
+
+    return NextResponse.json({
+      success: true,
+      status: result.approval.status,
+      resultId: result.resultId,
+    });
+  } catch (error) {
+    const mapped = getApprovalErrorResponse(error);
+    if (mapped) return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    console.error("Error deciding approval request:", error);
+    return NextResponse.json({ error: "Failed to process approval request" }, { status: 500 });
+  }
+}
@@ -0,0 +1,47 @@
+import { NextRequest, NextResponse } from "next/server";
+import { ApprovalStatus, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { canApproveRequests, describeApprovalRequest, getApprovalScopeWhere } from "@/lib/approvals";
+
+export async function GET(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "approval.view");
+
+  const status = req.nextUrl.searchParams.get("status") ?? ApprovalStatus.PENDING;
+  if (status !== "ALL" && !(Object.values(ApprovalStatus) as string[]).includes(status)) {
+    return NextResponse.json({ error: "Invalid status" }, { status: 400 });
+  }
+
+  const isApprover = await canApproveRequests(user);
+  const where: Prisma.ApprovalRequestWhereInput = {
+    ...(status === "ALL" ? {} : { status: status as ApprovalStatus }),
+    ...(isApprover ? await getApprovalScopeWhere(user) : { requestedById: user.id }),
+  };
+
+  try {
+    const approvals = await prisma.approvalRequest.findMany({
+      where,
+      orderBy: { createdAt: "desc" },
+      take: 200,
+      include: {
+        member: { select: { id: true, firstName: true, lastName: true } },
+        requestedBy: { select: { id: true, name: true } },
+        decidedBy: { select: { id: true, name: true } },
+      },
+    });
+
+    return NextResponse.json({
+      canApprove: isApprover,
+      items: approvals.map((a) => ({
+        ...a,
+        description: describeApprovalRequest(a),
+        createdAt: a.createdAt.toISOString(),
+        decidedAt: a.decidedAt ? a.decidedAt.toISOString() : null,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching approval requests:", error);
+    return NextResponse.json({ error: "Failed to fetch approval requests" }, { status: 500 });
+  }
+}
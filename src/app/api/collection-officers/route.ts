@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 
 export async function GET(req: NextRequest) {
-  await requireUser();
-  
+  const user = await requireUser();
+  requirePermission(user, "group.view");
+
   const officers = await prisma.employee.findMany({
     orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
     select: { id: true, firstName: true, lastName: true },
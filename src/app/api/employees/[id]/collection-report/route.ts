@@ -1,9 +1,11 @@
 import React from "react";
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { BalanceUpdateType, Role, SavingsUpdateType } from "@prisma/client";
+import { canAccessEmployee } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { BalanceUpdateType, SavingsUpdateType } from "@prisma/client";
 import { getManilaDateRange } from "@/lib/date";
+import { listOfficerAssignmentWindows } from "@/lib/officer-assignments";
 import { renderToStream } from "@react-pdf/renderer";
 import {
   OfficerCollectionReportPdf,
@@ -56,9 +58,12 @@ export async function GET(
   ctx: { params: Promise<{ id: string }> },
 ) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(actor, "report.export");
 
   const { id } = await ctx.params;
+  if (!(await canAccessEmployee(actor, id))) {
+    return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+  }
   const { from: dateFrom, to: dateTo } = parseDateRange(req);
   const url = new URL(req.url);
   const format = url.searchParams.get("format")?.toLowerCase();
@@ -68,108 +73,20 @@ export async function GET(
     return NextResponse.json({ error: "Invalid dates" }, { status: 400 });
   }
 
-  const range = getManilaDateRange(dateFrom, dateTo);
-
-  const employee = await (prisma as any).employee.findUnique({
+  const employee = await prisma.employee.findUnique({
     where: { id },
-    include: {
-      groupsAsCollectionOfficer: {
-        orderBy: { name: "asc" },
-        include: {
-          members: {
-            where: { status: "ACTIVE" },
-            include: {
-              balanceAdjustments: {
-                where: {
-                  type: BalanceUpdateType.DEDUCT,
-                  createdAt: {
-                    gte: range.from,
-                    lte: range.to,
-                  },
-                },
-                select: {
-                  amount: true,
-                  balanceAfter: true,
-                },
-              },
-              savingsAdjustments: {
-                where: {
-                  createdAt: {
-                    gte: range.from,
-                    lte: range.to,
-                  },
-                  OR: [
-                    { type: SavingsUpdateType.INCREASE },
-                    { type: SavingsUpdateType.WITHDRAW },
-                  ],
-                },
-                select: {
-                  amount: true,
-                  type: true,
-                },
-              },
-              notes: {
-                orderBy: { createdAt: "desc" },
-                take: 1,
-                select: {
-                  content: true,
-                },
-              },
-              processingFees: {
-                where: {
-                  createdAt: {
-                    gte: range.from,
-                    lte: range.to,
-                  },
-                },
-                select: {
-                  amount: true,
-                },
-              },
-              membershipFees: {
-                where: {
-                  createdAt: {
-                    gte: range.from,
-                    lte: range.to,
-                  },
-                },
-                select: {
-                  amount: true,
-                },
-              },
-              loanInsurances: {
-                where: {
-                  createdAt: {
-                    gte: range.from,
-                    lte: range.to,
-                  },
-                },
-                select: {
-                  amount: true,
-                },
-              },
-              passbookFees: {
-                where: {
-                  createdAt: {
-                    gte: range.from,
-                    lte: range.to,
-                  },
-                },
-                select: {
-                  amount: true,
-                },
-              },
-            },
-          },
-        },
-      },
-    },
+    select: { id: true, firstName: true, lastName: true },
   });
 
   if (!employee) {
     return NextResponse.json({ error: "Employee not found" }, { status: 404 });
   }
 
+  // Each group is reported only for the days this officer held it
+  const windows = (await listOfficerAssignmentWindows({ from: dateFrom, to: dateTo, employeeIds: [id] })).sort(
+    (a, b) => a.groupName.localeCompare(b.groupName) || a.from.localeCompare(b.from),
+  );
+
   const groupRows: OfficerGroupRow[] = [];
   const totals = {
     loanCollection: 0,
@@ -186,7 +103,100 @@ export async function GET(
     offsetAmount: 0,
   };
 
-  for (const group of employee.groupsAsCollectionOfficer as any[]) {
+  for (const assignment of windows) {
+    const windowRange = getManilaDateRange(assignment.from, assignment.to);
+    const group = await prisma.group.findUniqueOrThrow({
+      where: { id: assignment.groupId },
+      select: {
+        name: true,
+        members: {
+          where: { status: "ACTIVE" },
+          include: {
+            balanceAdjustments: {
+              where: {
+                type: BalanceUpdateType.DEDUCT,
+                createdAt: {
+                  gte: windowRange.from,
+                  lte: windowRange.to,
+                },
+              },
+              select: {
+                amount: true,
+                balanceAfter: true,
+              },
+            },
+            savingsAdjustments: {
+              where: {
+                createdAt: {
+                  gte: windowRange.from,
+                  lte: windowRange.to,
+                },
+                OR: [
+                  { type: SavingsUpdateType.INCREASE },
+                  { type: SavingsUpdateType.WITHDRAW },
+                ],
+              },
+              select: {
+                amount: true,
+                type: true,
+              },
+            },
+            notes: {
+              orderBy: { createdAt: "desc" },
+              take: 1,
+              select: {
+                content: true,
+              },
+            },
+            processingFees: {
+              where: {
+                createdAt: {
+                  gte: windowRange.from,
+                  lte: windowRange.to,
+                },
+              },
+              select: {
+                amount: true,
+              },
+            },
+            membershipFees: {
+              where: {
+                createdAt: {
+                  gte: windowRange.from,
+                  lte: windowRange.to,
+                },
+              },
+              select: {
+                amount: true,
+              },
+            },
+            loanInsurances: {
+              where: {
+                createdAt: {
+                  gte: windowRange.from,
+                  lte: windowRange.to,
+                },
+              },
+              select: {
+                amount: true,
+              },
+            },
+            passbookFees: {
+              where: {
+                createdAt: {
+                  gte: windowRange.from,
+                  lte: windowRange.to,
+                },
+              },
+              select: {
+                amount: true,
+              },
+            },
+          },
+        },
+      },
+    });
+
     let loanCollection = 0;
     let savings = 0;
     let processingFee = 0;
@@ -204,17 +214,11 @@ export async function GET(
         COALESCE(SUM(sa."amount"), 0)::float8 AS "offset_amount"
       FROM "savings_adjustments" sa
       JOIN "members" m ON m."id" = sa."memberId"
-      WHERE m."groupId" = ${group.id}::uuid
-        AND sa."type" = 'WITHDRAW'
-        AND sa."createdAt" >= ${range.from}
-        AND sa."createdAt" <= ${range.to}
-        AND EXISTS (
-          SELECT 1
-          FROM "member_notes" mn
-          WHERE mn."memberId" = sa."memberId"
-            AND UPPER(TRIM(mn."content")) = 'OFFSET'
-            AND (mn."createdAt" AT TIME ZONE 'Asia/Manila')::date = (sa."createdAt" AT TIME ZONE 'Asia/Manila')::date
-        )
+      WHERE m."groupId" = ${assignment.groupId}::uuid
+        AND sa."type" = 'APPLY_TO_BALANCE'
+        AND sa."balanceAdjustmentId" IS NOT NULL
+        AND sa."createdAt" >= ${windowRange.from}
+        AND sa."createdAt" <= ${windowRange.to}
     `;
 
     offsetCount = Number(offsetRows?.[0]?.offset_count ?? 0);
@@ -268,7 +272,8 @@ export async function GET(
     const cashOnHand = totalCollection - offsetAmount;
 
     groupRows.push({
-      groupName: group.name,
+      groupName:
+        assignment.from === dateFrom && assignment.to === dateTo ? group.name : `${group.name} (${assignment.from} to ${assignment.to})`,
       loanCollection,
       savings,
       processingFee,
@@ -0,0 +1,167 @@
+import React from "react";
+import { NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { canAccessEmployee } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { BalanceUpdateType, LoanStatus, MemberStatus } from "@prisma/client";
+import { formatDateYMDManila, getManilaDateRange } from "@/lib/date";
+import { renderToStream } from "@react-pdf/renderer";
+import {
+  FieldSheetGroup,
+  OfficerFieldSheetData,
+  OfficerFieldSheetPdf,
+} from "@/lib/pdf/OfficerFieldSheetPdf";
+import fs from "fs";
+import path from "path";
+
+export const runtime = "nodejs";
+
+function safeFilePart(s: string) {
+  return s
+    .replaceAll(/[^a-zA-Z0-9-_]+/g, "-")
+    .replaceAll(/-+/g, "-")
+    .replaceAll(/(^-|-$)/g, "");
+}
+
+export async function GET(
+  req: Request,
+  ctx: { params: Promise<{ id: string }> },
+) {
+  const actor = await requireUser();
+  requirePermission(actor, "report.export");
+
+  const { id } = await ctx.params;
+  if (!(await canAccessEmployee(actor, id))) {
+    return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+  }
+  const url = new URL(req.url);
+  const date = url.searchParams.get("date")?.trim() ?? "";
+  const format = url.searchParams.get("format")?.toLowerCase();
+  const isPreview = url.searchParams.get("preview") === "true";
+
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(date)) {
+    return NextResponse.json({ error: "Invalid date" }, { status: 400 });
+  }
+
+  const range = getManilaDateRange(date, date);
+
+  const employee = await prisma.employee.findUnique({
+    where: { id },
+    include: {
+      groupsAsCollectionOfficer: {
+        orderBy: { name: "asc" },
+        include: {
+          members: {
+            where: { status: MemberStatus.ACTIVE },
+            orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+            select: {
+              id: true,
+              firstName: true,
+              lastName: true,
+              balance: true,
+              savings: true,
+              daysCount: true,
+              loans: {
+                where: { status: LoanStatus.OPEN },
+                orderBy: [{ releaseDate: "asc" }, { createdAt: "asc" }],
+                take: 1,
+                select: { installmentAmount: true },
+              },
+            },
+          },
+        },
+      },
+    },
+  });
+
+  if (!employee) {
+    return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+  }
+
+  // Last payment before the sheet's date, so the sheet reads the same whenever it is printed
+  const memberIds = employee.groupsAsCollectionOfficer.flatMap((group) => group.members.map((m) => m.id));
+  const lastPayments = memberIds.length
+    ? await prisma.balanceAdjustment.groupBy({
+        by: ["memberId"],
+        where: {
+          memberId: { in: memberIds },
+          type: BalanceUpdateType.DEDUCT,
+          createdAt: { lt: range.from },
+          reversalOfId: null,
+          reversal: { is: null },
+        },
+        _max: { createdAt: true },
+      })
+    : [];
+  const lastPaymentByMember = new Map(lastPayments.map((r) => [r.memberId, r._max.createdAt]));
+
+  const groups: FieldSheetGroup[] = employee.groupsAsCollectionOfficer.map((group) => {
+    const members = group.members.map((member) => {
+      const lastPayment = lastPaymentByMember.get(member.id);
+      return {
+        memberName: `${member.lastName}, ${member.firstName}`,
+        balance: Number(member.balance),
+        expectedInstallment: member.loans[0] ? Number(member.loans[0].installmentAmount) : null,
+        daysCount: member.daysCount,
+        savings: Number(member.savings),
+        lastPaymentDate: lastPayment ? formatDateYMDManila(lastPayment) : null,
+      };
+    });
+
+    return {
+      groupName: group.name,
+      members,
+      totals: {
+        balance: members.reduce((sum, m) => sum + m.balance, 0),
+        expectedInstallment: members.reduce((sum, m) => sum + (m.expectedInstallment ?? 0), 0),
+        savings: members.reduce((sum, m) => sum + m.savings, 0),
+      },
+    };
+  });
+
+  let logoBinary: Buffer | null = null;
+  try {
+    const logoPath = path.join(process.cwd(), "public", "logo.jpg");
+    logoBinary = await fs.promises.readFile(logoPath);
+  } catch {
+    logoBinary = null;
+  }
+
+  const sheetData: OfficerFieldSheetData = {
+    officerName: `${employee.firstName} ${employee.lastName}`,
+    dateLabel: new Date(date).toLocaleDateString("en-US", {
+      year: "numeric",
+      month: "short",
+      day: "2-digit",
+    }),
+    groups,
+    companyName: "Triple E Microfinance",
+    logoUrl: format === "json" ? undefined : (logoBinary ?? undefined),
+  };
+
+  if (format === "json") {
+    return NextResponse.json(sheetData);
+  }
+
+  const stream = await renderToStream(
+    React.createElement(OfficerFieldSheetPdf, { data: sheetData }) as any,
+  );
+
+  const chunks: Buffer[] = [];
+  // @ts-ignore
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  const pdfBuffer = Buffer.concat(chunks);
+
+  const filename = `field-sheet-${safeFilePart(employee.lastName)}-${safeFilePart(employee.firstName)}-${date}.pdf`;
+
+  return new NextResponse(pdfBuffer, {
+    status: 200,
+    headers: {
+      "Content-Type": "application/pdf",
+      "Content-Disposition": `${isPreview ? "inline" : "attachment"}; filename="${filename}"`,
+      "Cache-Control": "no-store",
+    },
+  });
+}
@@ -1,9 +1,13 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role, EmployeePosition } from "@prisma/client";
+import { assertBranchAccess, canAccessEmployee, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { EmployeePosition } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { getBranchErrorResponse } from "@/lib/branches";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { setEmployeeGroups } from "@/lib/officer-assignments";
 
 const UpdateEmployeeSchema = z.object({
   firstName: z.string().min(1).max(80),
@@ -15,6 +19,7 @@ const UpdateEmployeeSchema = z.object({
     "OPERATIONS_MANAGER",
   ]),
   assignedGroupIds: z.union([z.string(), z.array(z.string())]).optional(),
+  branchId: z.string().uuid(),
 });
 
 export async function PUT(
@@ -22,7 +27,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "employee.manage");
   const { id } = await params;
 
   const body = await req.json();
@@ -40,6 +45,7 @@ export async function PUT(
     lastName: String(body.lastName || "").trim(),
     position: String(body.position || ""),
     assignedGroupIds,
+    branchId: String(body.branchId || ""),
   });
 
   if (!parsed.success) {
@@ -48,22 +54,42 @@ export async function PUT(
       { status: 400 }
     );
   }
+  if (!(await canAccessEmployee(actor, id))) {
+    return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+  }
+  const scopedGroupIds = await getScopedGroupIds(actor);
+  if (scopedGroupIds && assignedGroupIds.some((groupId) => !scopedGroupIds.includes(groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
 
   const request = await tryGetAuditRequestContext();
 
   try {
+    await assertBranchAccess(actor, parsed.data.branchId);
+
     let updatedEmployee;
     await prisma.$transaction(async (tx) => {
-      updatedEmployee = await tx.employee.update({
+      await tx.employee.update({
         where: { id },
         data: {
           firstName: parsed.data.firstName,
           lastName: parsed.data.lastName,
           position: parsed.data.position as EmployeePosition,
-          groupsAsCollectionOfficer: {
-            set: assignedGroupIds.map((id) => ({ id })),
-          },
+          branchId: parsed.data.branchId,
         },
+      });
+
+      const today = formatDateYMD(getManilaBusinessDate());
+      await setEmployeeGroups(tx, {
+        employeeId: id,
+        groupIds: assignedGroupIds,
+        effectiveFrom: today,
+        today,
+        userId: actor.id,
+      });
+
+      updatedEmployee = await tx.employee.findUniqueOrThrow({
+        where: { id },
         include: { groupsAsCollectionOfficer: true },
       });
 
@@ -76,6 +102,7 @@ export async function PUT(
           firstName: parsed.data.firstName,
           lastName: parsed.data.lastName,
           position: parsed.data.position,
+          branchId: parsed.data.branchId,
           assignedGroupIds,
         },
         request,
@@ -84,6 +111,8 @@ export async function PUT(
 
     return NextResponse.json(updatedEmployee);
   } catch (error: any) {
+    const denied = getBranchErrorResponse(error);
+    if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status });
     console.error("Error updating employee:", error);
     return NextResponse.json({ error: "Failed to update employee" }, { status: 500 });
   }
@@ -94,8 +123,11 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "employee.manage");
   const { id } = await params;
+  if (!(await canAccessEmployee(actor, id))) {
+    return NextResponse.json({ error: "Employee not found" }, { status: 404 });
+  }
 
   const request = await tryGetAuditRequestContext();
 
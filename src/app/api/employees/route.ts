@@ -1,9 +1,13 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role, EmployeePosition } from "@prisma/client";
+import { assertBranchAccess, getScopedBranchIds, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { EmployeePosition } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { getBranchErrorResponse } from "@/lib/branches";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { setEmployeeGroups } from "@/lib/officer-assignments";
 
 const CreateEmployeeSchema = z.object({
   firstName: z.string().min(1).max(80),
@@ -15,24 +19,28 @@ const CreateEmployeeSchema = z.object({
     "OPERATIONS_MANAGER",
   ]),
   assignedGroupIds: z.union([z.string(), z.array(z.string())]).optional(),
+  branchId: z.string().uuid(),
 });
 
 export async function GET(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]);
+  requirePermission(user, "employee.manage");
 
   const searchParams = req.nextUrl.searchParams;
   const q = (searchParams.get("q") ?? "").trim();
+  const branchIds = await getScopedBranchIds(user);
 
-  const where =
-    q.length > 0
+  const where = {
+    ...(branchIds ? { branchId: { in: branchIds } } : {}),
+    ...(q.length > 0
       ? {
           OR: [
             { firstName: { contains: q, mode: "insensitive" as const } },
             { lastName: { contains: q, mode: "insensitive" as const } },
           ],
         }
-      : {};
+      : {}),
+  };
 
   const employees = await prisma.employee.findMany({
     where,
@@ -43,6 +51,7 @@ export async function GET(req: NextRequest) {
           name: true,
         },
       },
+      branch: { select: { id: true, name: true } },
     },
     orderBy: { createdAt: "desc" },
   });
@@ -52,7 +61,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "employee.manage");
 
   const body = await req.json();
   
@@ -69,6 +78,7 @@ export async function POST(req: NextRequest) {
     lastName: String(body.lastName || "").trim(),
     position: String(body.position || ""),
     assignedGroupIds,
+    branchId: String(body.branchId || ""),
   });
 
   if (!parsed.success) {
@@ -78,20 +88,38 @@ export async function POST(req: NextRequest) {
     );
   }
 
+  const scopedGroupIds = await getScopedGroupIds(actor);
+  if (scopedGroupIds && assignedGroupIds.some((groupId) => !scopedGroupIds.includes(groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
+
   const request = await tryGetAuditRequestContext();
 
   try {
+    await assertBranchAccess(actor, parsed.data.branchId);
+
     let createdEmployee;
     await prisma.$transaction(async (tx) => {
-      createdEmployee = await tx.employee.create({
+      const employee = await tx.employee.create({
         data: {
           firstName: parsed.data.firstName,
           lastName: parsed.data.lastName,
           position: parsed.data.position as EmployeePosition,
-          groupsAsCollectionOfficer: {
-            connect: assignedGroupIds.map((id) => ({ id })),
-          },
+          branchId: parsed.data.branchId,
         },
+      });
+
+      const today = formatDateYMD(getManilaBusinessDate());
+      await setEmployeeGroups(tx, {
+        employeeId: employee.id,
+        groupIds: assignedGroupIds,
+        effectiveFrom: today,
+        today,
+        userId: actor.id,
+      });
+
+      createdEmployee = await tx.employee.findUniqueOrThrow({
+        where: { id: employee.id },
         include: { groupsAsCollectionOfficer: true },
       });
 
@@ -104,6 +132,7 @@ export async function POST(req: NextRequest) {
           firstName: createdEmployee.firstName,
           lastName: createdEmployee.lastName,
           position: createdEmployee.position,
+          branchId: createdEmployee.branchId,
           assignedGroupIds,
           assignedGroupNames: createdEmployee.groupsAsCollectionOfficer.map(g => g.name).join(", "),
         },
@@ -113,6 +142,8 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(createdEmployee, { status: 201 });
   } catch (error: any) {
+    const denied = getBranchErrorResponse(error);
+    if (denied) return NextResponse.json({ error: denied.error }, { status: denied.status });
     console.error("Error creating employee:", error);
     return NextResponse.json({ error: "Failed to create employee" }, { status: 500 });
   }
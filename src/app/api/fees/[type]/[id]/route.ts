@@ -1,47 +1,91 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { isFeeType, ReversalSchema, reverseFee } from "@/lib/reversals";
+import {
+  canApproveRequests,
+  getApprovalErrorResponse,
+  getReversalMemberId,
+  submitReversalRequest,
+} from "@/lib/approvals";
 
+// Reverts by posting a negative fee row; the original fee is kept.
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ type: string; id: string }> },
 ) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "adjustment.revert");
   const { type, id } = await params;
 
+  if (!isFeeType(type)) {
+    return NextResponse.json({ error: "Invalid fee type" }, { status: 400 });
+  }
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = ReversalSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "A reason is required to revert a fee" }, { status: 400 });
+  }
+
   try {
-    if (type === "processing") {
-      const row = await prisma.processingFee.findUnique({ where: { id } });
-      if (!row) return NextResponse.json({ error: "Fee not found" }, { status: 404 });
-      await prisma.processingFee.delete({ where: { id } });
-      return NextResponse.json({ success: true });
+    const memberId = await getReversalMemberId(type, id);
+    if (!memberId || !(await canAccessMember(user, memberId))) {
+      return NextResponse.json({ error: "Fee not found" }, { status: 404 });
     }
 
-    if (type === "membership") {
-      const row = await prisma.membershipFee.findUnique({ where: { id } });
-      if (!row) return NextResponse.json({ error: "Fee not found" }, { status: 404 });
-      await prisma.membershipFee.delete({ where: { id } });
-      return NextResponse.json({ success: true });
-    }
+    const request = await tryGetAuditRequestContext();
 
-    if (type === "loan-insurance") {
-      const row = await prisma.loanInsurance.findUnique({ where: { id } });
-      if (!row) return NextResponse.json({ error: "Fee not found" }, { status: 404 });
-      await prisma.loanInsurance.delete({ where: { id } });
-      return NextResponse.json({ success: true });
+    if (!(await canApproveRequests(user))) {
+      const approval = await prisma.$transaction((tx) =>
+        submitReversalRequest(tx, {
+          target: type,
+          adjustmentId: id,
+          reason: parsed.data.reason,
+          requestedById: user.id,
+          request,
+        }),
+      );
+      return NextResponse.json(
+        { success: true, pendingApproval: true, approvalRequestId: approval.id },
+        { status: 202 },
+      );
     }
 
-    if (type === "passbook") {
-      const row = await prisma.passbookFee.findUnique({ where: { id } });
-      if (!row) return NextResponse.json({ error: "Fee not found" }, { status: 404 });
-      await prisma.passbookFee.delete({ where: { id } });
-      return NextResponse.json({ success: true });
-    }
+    const result = await prisma.$transaction(async (tx) => {
+      const result = await reverseFee(tx, type, {
+        id,
+        encodedById: user.id,
+        reason: parsed.data.reason,
+      });
 
-    return NextResponse.json({ error: "Invalid fee type" }, { status: 400 });
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "FEE_REVERTED",
+        entityType: "Member",
+        entityId: result.original.memberId,
+        metadata: {
+          feeType: type,
+          feeId: id,
+          reversalId: result.reversal.id,
+          amount: result.original.amount.toFixed(2),
+          reason: parsed.data.reason,
+        },
+        request,
+      });
+
+      return result;
+    });
+
+    return NextResponse.json({ success: true, reversalId: result.reversal.id });
   } catch (error) {
+    const mapped = getApprovalErrorResponse(error);
+    if (mapped) {
+      const message = mapped.status === 404 ? "Fee not found" : mapped.error;
+      return NextResponse.json({ error: message }, { status: mapped.status });
+    }
     console.error("Error reverting fee:", error);
     return NextResponse.json({ error: "Failed to revert fee" }, { status: 500 });
   }
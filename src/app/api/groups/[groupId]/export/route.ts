@@ -1,11 +1,13 @@
 import React from "react";
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { BalanceUpdateType, Role, SavingsUpdateType } from "@prisma/client";
+import { canAccessGroup } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { BalanceUpdateType, SavingsUpdateType } from "@prisma/client";
 import { createAuditLogStandalone, tryGetAuditRequestContext } from "@/lib/audit";
 import { getMonday, formatDateYMD, getManilaDateRange, getWeekdaysInRange } from "@/lib/date";
 import { renderToStream } from "@react-pdf/renderer";
+import { findOfficerOnDate, listOfficerAssignmentWindows } from "@/lib/officer-assignments";
 import { CollectionReportPdf } from "@/lib/pdf/CollectionReportPdf";
 import fs from "fs";
 import path from "path";
@@ -43,9 +45,12 @@ function parseDateRange(req: Request): { from: string | null; to: string | null
 
 export async function GET(req: Request, ctx: { params: Promise<{ groupId: string }> }) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(actor, "report.export");
 
   const { groupId } = await ctx.params;
+  if (!(await canAccessGroup(actor, groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
   const { from: dateFromRaw, to: dateTo } = parseDateRange(req);
   const url = new URL(req.url);
   const format = url.searchParams.get("format")?.toLowerCase();
@@ -224,6 +229,25 @@ export async function GET(req: Request, ctx: { params: Promise<{ groupId: string
     };
   });
 
+  // Credit each day's collections to the officer assigned to the group that day
+  const windows = await listOfficerAssignmentWindows({ from: dateFrom, to: dateTo, groupIds: [groupId] });
+  const officers = await prisma.employee.findMany({
+    where: { id: { in: [...new Set(windows.map((w) => w.employeeId))] } },
+    select: { id: true, firstName: true, lastName: true },
+  });
+  const officerNames = new Map(officers.map((o) => [o.id, `${o.firstName} ${o.lastName}`]));
+  const dayOfficers: Record<string, string> = {};
+  const officerTotals = new Map<string, { officerName: string; totalPayments: number; totalSavings: number }>();
+  for (const dateStr of dayColumns) {
+    const officerId = findOfficerOnDate(windows, groupId, dateStr);
+    const officerName = officerId ? (officerNames.get(officerId) ?? "-") : "Unassigned";
+    dayOfficers[dateStr] = officerName;
+    const entry = officerTotals.get(officerName) ?? { officerName, totalPayments: 0, totalSavings: 0 };
+    entry.totalPayments += totals.dailyPayments[dateStr] || 0;
+    entry.totalSavings += totals.dailySavings[dateStr] || 0;
+    officerTotals.set(officerName, entry);
+  }
+
   let logoBinary: Buffer | null = null;
   try {
     const logoPath = path.join(process.cwd(), "public", "logo.jpg");
@@ -239,6 +263,8 @@ export async function GET(req: Request, ctx: { params: Promise<{ groupId: string
     dayColumns,
     members: membersData,
     totals,
+    dayOfficers,
+    officerTotals: [...officerTotals.values()],
     companyName: "Triple E Microfinance",
     logoUrl: format === "json" ? undefined : (logoBinary ?? undefined),
   };
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { hasRole, requireUser } from "@/lib/auth/session";
-import { Prisma, Role } from "@prisma/client";
+import { canAccessGroup } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { Prisma } from "@prisma/client";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 
@@ -21,13 +22,11 @@ export async function POST(
   { params }: { params: Promise<{ groupId: string }> }
 ) {
   const user = await requireUser();
-  if (!hasRole(user, [Role.SUPER_ADMIN, Role.ENCODER])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(user, "member.create");
   const { groupId } = await params;
+  if (!(await canAccessGroup(user, groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
 
   try {
     const body = await req.json();
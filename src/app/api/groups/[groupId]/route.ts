@@ -1,22 +1,31 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { assertBranchAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
-
-const UpdateGroupSchema = z.object({
-  name: z.string().min(1).max(120),
-  description: z.string().max(500).optional(),
-  collectionOfficerId: z.string().uuid().optional().nullable(),
-});
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { getBranchErrorResponse } from "@/lib/branches";
+import { MeetingScheduleSchema } from "@/lib/meetings";
+import { getOfficerAssignmentErrorResponse, setGroupCollectionOfficer } from "@/lib/officer-assignments";
+
+const UpdateGroupSchema = z
+  .object({
+    name: z.string().min(1).max(120),
+    description: z.string().max(500).optional(),
+    collectionOfficerId: z.string().uuid().optional().nullable(),
+    // Day the officer change takes effect (Manila business date); defaults to today
+    officerEffectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/).optional(),
+    branchId: z.string().uuid().optional(),
+  })
+  .extend(MeetingScheduleSchema.shape);
 
 export async function PUT(
   req: NextRequest,
   { params }: { params: Promise<{ groupId: string }> }
 ) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "group.update");
   const { groupId } = await params;
 
   try {
@@ -42,12 +51,31 @@ export async function PUT(
         throw new Error("Group not found");
       }
 
+      await assertBranchAccess(user, existingGroup.branchId);
+      if (parsed.data.branchId) {
+        await assertBranchAccess(user, parsed.data.branchId);
+      }
+
+      const today = formatDateYMD(getManilaBusinessDate());
+      await setGroupCollectionOfficer(tx, {
+        groupId,
+        employeeId: parsed.data.collectionOfficerId ?? null,
+        effectiveFrom: parsed.data.officerEffectiveFrom ?? today,
+        today,
+        userId: user.id,
+      });
+
       group = await tx.group.update({
         where: { id: groupId },
         data: {
           name: parsed.data.name,
           description: parsed.data.description,
-          collectionOfficerId: parsed.data.collectionOfficerId ?? null,
+          branchId: parsed.data.branchId,
+          // Schedule fields left out of the body keep their current values
+          meetingWeekday: parsed.data.meetingWeekday,
+          meetingTime: parsed.data.meetingTime,
+          meetingVenue: parsed.data.meetingVenue,
+          meetingBarangay: parsed.data.meetingBarangay,
         },
       });
 
@@ -61,12 +89,23 @@ export async function PUT(
             name: existingGroup.name,
             description: existingGroup.description,
             collectionOfficerId: existingGroup.collectionOfficerId,
+            branchId: existingGroup.branchId,
+            meetingWeekday: existingGroup.meetingWeekday,
+            meetingTime: existingGroup.meetingTime,
+            meetingVenue: existingGroup.meetingVenue,
+            meetingBarangay: existingGroup.meetingBarangay,
           },
           new: {
             name: group.name,
             description: group.description,
             collectionOfficerId: group.collectionOfficerId,
+            branchId: group.branchId,
+            meetingWeekday: group.meetingWeekday,
+            meetingTime: group.meetingTime,
+            meetingVenue: group.meetingVenue,
+            meetingBarangay: group.meetingBarangay,
           },
+          officerEffectiveFrom: parsed.data.officerEffectiveFrom ?? null,
         },
         request,
       });
@@ -77,6 +116,14 @@ export async function PUT(
     if (error.message === "Group not found") {
         return NextResponse.json({ error: "Group not found" }, { status: 404 });
     }
+    const branchError = getBranchErrorResponse(error);
+    if (branchError) {
+      return NextResponse.json({ error: branchError.error }, { status: branchError.status });
+    }
+    const assignmentError = getOfficerAssignmentErrorResponse(error);
+    if (assignmentError) {
+      return NextResponse.json({ error: assignmentError.error }, { status: assignmentError.status });
+    }
     console.error("Error updating group:", error);
     return NextResponse.json(
       { error: "Internal Server Error" },
@@ -90,7 +137,7 @@ export async function DELETE(
   { params }: { params: Promise<{ groupId: string }> }
 ) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]); // Only SUPER_ADMIN can delete
+  requirePermission(user, "group.delete");
   const { groupId } = await params;
 
   try {
@@ -1,20 +1,23 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { assertBranchAccess, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { setGroupCollectionOfficer } from "@/lib/officer-assignments";
+import { getBranchErrorResponse } from "@/lib/branches";
 
 const CreateGroupSchema = z.object({
   name: z.string().min(1).max(120),
   description: z.string().max(500).optional(),
   collectionOfficerId: z.string().uuid().optional().nullable(),
+  branchId: z.string().uuid(),
 });
 
 export async function GET(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+  requirePermission(user, "group.view");
   const { searchParams } = new URL(req.url);
   const page = Math.max(1, parseInt(searchParams.get("page") ?? "1") || 1);
   const limit = Math.max(1, parseInt(searchParams.get("limit") ?? "20") || 20);
@@ -23,12 +26,12 @@ export async function GET(req: NextRequest) {
   const officerId = searchParams.get("officerId")?.trim() || "";
 
   const where: any = {};
-  const collectorGroupIds = await getCollectorScopedGroupIds(user);
-  if (collectorGroupIds) {
-    where.id = { in: collectorGroupIds };
+  const scopedGroupIds = await getScopedGroupIds(user);
+  if (scopedGroupIds) {
+    where.id = { in: scopedGroupIds };
   }
   if (groupId && /^[0-9a-fA-F-]{36}$/.test(groupId)) {
-    if (collectorGroupIds && !collectorGroupIds.includes(groupId)) {
+    if (scopedGroupIds && !scopedGroupIds.includes(groupId)) {
       where.id = { in: [] };
     } else {
       where.id = groupId;
@@ -63,6 +66,7 @@ export async function GET(req: NextRequest) {
           },
         },
         collectionOfficer: { select: { id: true, firstName: true, lastName: true } },
+        branch: { select: { id: true, name: true } },
       },
       skip: (page - 1) * limit,
       take: limit,
@@ -80,7 +84,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "group.update");
 
   try {
     const body = await req.json();
@@ -93,6 +97,8 @@ export async function POST(req: NextRequest) {
       );
     }
 
+    await assertBranchAccess(user, parsed.data.branchId);
+
     const request = await tryGetAuditRequestContext();
     let group;
 
@@ -102,10 +108,22 @@ export async function POST(req: NextRequest) {
           name: parsed.data.name,
           description: parsed.data.description,
           collectionOfficerId: parsed.data.collectionOfficerId ?? null,
+          branchId: parsed.data.branchId,
           createdById: user.id,
         },
       });
 
+      if (group.collectionOfficerId) {
+        const today = formatDateYMD(getManilaBusinessDate());
+        await setGroupCollectionOfficer(tx, {
+          groupId: group.id,
+          employeeId: group.collectionOfficerId,
+          effectiveFrom: today,
+          today,
+          userId: user.id,
+        });
+      }
+
       await createAuditLog(tx, {
         actorUserId: user.id,
         action: "GROUP_CREATE",
@@ -115,6 +133,7 @@ export async function POST(req: NextRequest) {
           name: group.name,
           description: group.description ?? null,
           collectionOfficerId: group.collectionOfficerId ?? null,
+          branchId: group.branchId,
         },
         request,
       });
@@ -122,6 +141,10 @@ export async function POST(req: NextRequest) {
 
     return NextResponse.json(group, { status: 201 });
   } catch (error) {
+    const branchError = getBranchErrorResponse(error);
+    if (branchError) {
+      return NextResponse.json({ error: branchError.error }, { status: branchError.status });
+    }
     console.error("Error creating group:", error);
     return NextResponse.json(
       { error: "Internal Server Error" },
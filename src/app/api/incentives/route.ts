@@ -0,0 +1,107 @@
+import React from "react";
+import fs from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+import { renderToStream } from "@react-pdf/renderer";
+import { createAuditLogStandalone, tryGetAuditRequestContext } from "@/lib/audit";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getIncentiveReport, isIncentiveMonth } from "@/lib/incentives";
+import { IncentiveStatementPdf } from "@/lib/pdf/IncentiveStatementPdf";
+import { buildIncentivePayrollWorkbook } from "@/lib/xlsx/incentives";
+
+export const runtime = "nodejs";
+
+function safeFilePart(s: string) {
+  return s
+    .replaceAll(/[^a-zA-Z0-9-_]+/g, "-")
+    .replaceAll(/-+/g, "-")
+    .replaceAll(/(^-|-$)/g, "");
+}
+
+const COMPANY_NAME = "Triple E Microfinance";
+
+async function readLogo() {
+  try {
+    return await fs.promises.readFile(path.join(process.cwd(), "public", "logo.jpg"));
+  } catch {
+    return null;
+  }
+}
+
+async function renderPdf(element: React.ReactElement) {
+  const stream = await renderToStream(element as any);
+  const chunks: Buffer[] = [];
+  // @ts-ignore
+  for await (const chunk of stream) {
+    chunks.push(Buffer.from(chunk));
+  }
+  return Buffer.concat(chunks);
+}
+
+/** Incentive statements for `month` (YYYY-MM) as PDF or, with `format=xlsx`, as a payroll workbook. */
+export async function GET(req: Request) {
+  const actor = await requireUser();
+  requirePermission(actor, "incentive.manage");
+
+  const url = new URL(req.url);
+  const month = url.searchParams.get("month")?.trim() ?? "";
+  const employeeId = url.searchParams.get("employeeId")?.trim() || undefined;
+  const format = url.searchParams.get("format") === "xlsx" ? "xlsx" : "pdf";
+  const isPreview = url.searchParams.get("preview") === "true";
+
+  if (!isIncentiveMonth(month)) {
+    return NextResponse.json({ error: "Invalid month" }, { status: 400 });
+  }
+
+  try {
+    const report = await getIncentiveReport(month, employeeId);
+    if (employeeId && report.statements.length === 0) {
+      return NextResponse.json({ error: "Collection officer not found" }, { status: 404 });
+    }
+
+    const body =
+      format === "xlsx"
+        ? await buildIncentivePayrollWorkbook(report, COMPANY_NAME)
+        : await renderPdf(
+            React.createElement(IncentiveStatementPdf, {
+              data: { report, companyName: COMPANY_NAME, logoUrl: (await readLogo()) ?? undefined },
+            }),
+          );
+
+    try {
+      const request = await tryGetAuditRequestContext();
+      await createAuditLogStandalone({
+        actorUserId: actor.id,
+        action: "INCENTIVE_EXPORT",
+        entityType: employeeId ? "Employee" : "IncentiveRule",
+        entityId: employeeId ?? month,
+        metadata: {
+          month,
+          format,
+          statements: report.statements.length,
+          incentiveTotal: report.totals.incentiveTotal,
+        },
+        request,
+      });
+    } catch {
+      // ignore audit failures for export
+    }
+
+    const subject = employeeId ? `-${safeFilePart(report.statements[0].employeeName)}` : "";
+    const filename = `incentives-${month}${subject}.${format}`;
+    return new NextResponse(body, {
+      status: 200,
+      headers: {
+        "Content-Type":
+          format === "xlsx"
+            ? "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet"
+            : "application/pdf",
+        "Content-Disposition": `${isPreview && format === "pdf" ? "inline" : "attachment"}; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating incentive export:", error);
+    return NextResponse.json({ error: "Failed to generate incentive export" }, { status: 500 });
+  }
+}
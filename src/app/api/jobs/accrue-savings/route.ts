@@ -0,0 +1,52 @@
+import { NextRequest, NextResponse } from "next/server";
+import { timingSafeEqual } from "crypto";
+import { AuditActorType } from "@prisma/client";
+import { createAuditLogStandalone } from "@/lib/audit";
+import { getPeriodCloseErrorResponse } from "@/lib/period-close";
+import { accrueSavings } from "@/lib/savings";
+
+function getJobKey(req: NextRequest): string | null {
+  const authorization = req.headers.get("authorization") ?? "";
+  if (authorization.toLowerCase().startsWith("bearer ")) {
+    return authorization.slice(7).trim() || null;
+  }
+  return req.headers.get("x-job-key")?.trim() || null;
+}
+
+function isValidJobKey(provided: string, expected: string) {
+  const a = Buffer.from(provided);
+  const b = Buffer.from(expected);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+export async function POST(req: NextRequest) {
+  const expected = process.env.LMS_JOBS_API_KEY;
+  if (!expected) {
+    return NextResponse.json({ error: "Jobs API key is not configured" }, { status: 503 });
+  }
+
+  const provided = getJobKey(req);
+  if (!provided || !isValidJobKey(provided, expected)) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const result = await accrueSavings();
+
+    await createAuditLogStandalone({
+      actorType: AuditActorType.SYSTEM,
+      action: "SAVINGS_ACCRUAL_RUN",
+      entityType: "SavingsAccrual",
+      metadata: result,
+    });
+
+    return NextResponse.json(result);
+  } catch (error) {
+    const closed = getPeriodCloseErrorResponse(error);
+    if (closed) {
+      return NextResponse.json({ error: closed.error }, { status: closed.status });
+    }
+    console.error("Savings accrual job failed:", error);
+    return NextResponse.json({ error: "Savings accrual failed" }, { status: 500 });
+  }
+}
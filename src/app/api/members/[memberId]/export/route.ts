@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role, BalanceUpdateType, SavingsUpdateType } from "@prisma/client";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { BalanceUpdateType, LoanStatus, SavingsUpdateType } from "@prisma/client";
 import { createAuditLogStandalone, tryGetAuditRequestContext } from "@/lib/audit";
-import { getManilaDateRange, getMonday, formatDateYMD, getWeekdaysInRange } from "@/lib/date";
+import { getManilaBusinessDate, getManilaDateRange, getMonday, formatDateYMD, getWeekdaysInRange } from "@/lib/date";
+import { allocateScheduleStatus } from "@/lib/loans";
 import React from "react";
 import { renderToStream } from "@react-pdf/renderer";
 import { MemberReportPdf } from "@/lib/pdf/MemberReportPdf";
@@ -36,9 +38,12 @@ export async function GET(
   ctx: { params: Promise<{ memberId: string }> },
 ) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(actor, "report.export");
 
   const { memberId } = await ctx.params;
+  if (!(await canAccessMember(actor, memberId))) {
+    return NextResponse.json({ error: "Not found" }, { status: 404 });
+  }
   const { from: dateFromStr, to: dateToStr } = parseDateRange(req);
   const url = new URL(req.url, "http://localhost");
   const format = url.searchParams.get("format")?.toLowerCase();
@@ -153,6 +158,41 @@ export async function GET(
     totalSavingsPeriod += savingsSum;
   });
 
+  // Amortization schedule of the current loan (latest open loan, else latest loan)
+  const scheduleLoan =
+    (await prisma.loan.findFirst({
+      where: { memberId: member.id, status: LoanStatus.OPEN },
+      orderBy: [{ releaseDate: "desc" }, { createdAt: "desc" }],
+      include: { installments: { orderBy: { sequence: "asc" } } },
+    })) ??
+    (await prisma.loan.findFirst({
+      where: { memberId: member.id },
+      orderBy: [{ releaseDate: "desc" }, { createdAt: "desc" }],
+      include: { installments: { orderBy: { sequence: "asc" } } },
+    }));
+
+  const schedule = scheduleLoan
+    ? {
+        releaseDate: formatDateYMD(scheduleLoan.releaseDate),
+        maturityDate: formatDateYMD(scheduleLoan.maturityDate),
+        principal: toNumber(scheduleLoan.principal),
+        totalPayable: toNumber(scheduleLoan.totalPayable),
+        outstandingBalance: toNumber(scheduleLoan.outstandingBalance),
+        paymentFrequency: scheduleLoan.paymentFrequency,
+        rows: allocateScheduleStatus(
+          scheduleLoan.installments.map((row) => ({
+            sequence: row.sequence,
+            dueDate: row.dueDate,
+            principalDue: toNumber(row.principalDue),
+            interestDue: toNumber(row.interestDue),
+            amountDue: toNumber(row.amountDue),
+          })),
+          toNumber(scheduleLoan.totalPayable) - toNumber(scheduleLoan.outstandingBalance),
+          getManilaBusinessDate(),
+        ).map((row) => ({ ...row, dueDate: formatDateYMD(row.dueDate) })),
+      }
+    : null;
+
   const reportData = {
     memberInfo,
     dayColumns,
@@ -163,6 +203,7 @@ export async function GET(
     savings: savingsMap,
     totalPayments: totalPaymentsPeriod,
     totalSavings: totalSavingsPeriod,
+    schedule,
     companyName: "Triple E Microfinance",
     logoUrl: format === "json" ? undefined : await (async () => {
       try {
@@ -1,29 +1,29 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { MemberNote, Role } from "@prisma/client";
+import { getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { MemberNote } from "@prisma/client";
 
 export async function GET(req: NextRequest, { params }: { params: Promise<{ memberId: string }> }) {
     const user = await requireUser();
-    requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+    requirePermission(user, "member.view");
     const { memberId } = await params;
     const { searchParams } = new URL(req.url);
     const page = Number(searchParams.get("page") || "1");
     const limit = Number(searchParams.get("limit") || "10");
-    const collectorGroupIds = await getCollectorScopedGroupIds(user);
+    const scopedGroupIds = await getScopedGroupIds(user);
 
     if (!memberId) {
         return NextResponse.json({ error: "Member ID is required" }, { status: 400 });
     }
 
     try {
-        if (collectorGroupIds) {
+        if (scopedGroupIds) {
             const member = await prisma.member.findUnique({
                 where: { id: memberId },
                 select: { groupId: true },
             });
-            if (!member?.groupId || !collectorGroupIds.includes(member.groupId)) {
+            if (!member?.groupId || !scopedGroupIds.includes(member.groupId)) {
                 return NextResponse.json({ error: "Member not found" }, { status: 404 });
             }
         }
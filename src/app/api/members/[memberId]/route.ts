@@ -1,11 +1,14 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { hasRole, requireRole, requireUser } from "@/lib/auth/session";
-import { Prisma, Role } from "@prisma/client";
+import { canAccessGroup, canAccessMember, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { ApprovalRequestType, Prisma } from "@prisma/client";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { canApproveRequests, requiresWithdrawalApproval, submitApprovalRequest } from "@/lib/approvals";
+import { applyLoanDeduction, applyLoanIncrease, createLoanWithRelease, getLoanErrorResponse, serializeLoan } from "@/lib/loans";
 import { formatDateYMD, getManilaBusinessDate, getManilaDateRange } from "@/lib/date";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
 
 const UpdateMemberSchema = z.object({
   groupId: z.string().uuid().optional(),
@@ -29,9 +32,9 @@ const UpdateMemberSchema = z.object({
 
 export async function GET(req: NextRequest, { params }: { params: Promise<{ memberId: string }> }) {
   const user = await requireUser();
-  requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+  requirePermission(user, "member.view");
   const { memberId } = await params;
-  const collectorGroupIds = await getCollectorScopedGroupIds(user);
+  const scopedGroupIds = await getScopedGroupIds(user);
   
   try {
     const member = await (prisma as any).member.findUnique({
@@ -52,21 +55,36 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ memb
         activeReleases: {
           orderBy: [{ releaseDate: "desc" }, { createdAt: "desc" }],
         },
+        loans: {
+          orderBy: [{ releaseDate: "desc" }, { createdAt: "desc" }],
+        },
         processingFees: {
           orderBy: { createdAt: "desc" },
-          include: { encodedBy: { select: { name: true } } }
+          include: {
+            encodedBy: { select: { name: true } },
+            reversal: { select: { id: true } },
+          },
         },
         loanInsurances: {
           orderBy: { createdAt: "desc" },
-          include: { encodedBy: { select: { name: true } } }
+          include: {
+            encodedBy: { select: { name: true } },
+            reversal: { select: { id: true } },
+          },
         },
         passbookFees: {
           orderBy: { createdAt: "desc" },
-          include: { encodedBy: { select: { name: true } } }
+          include: {
+            encodedBy: { select: { name: true } },
+            reversal: { select: { id: true } },
+          },
         },
         membershipFees: {
           orderBy: { createdAt: "desc" },
-          include: { encodedBy: { select: { name: true } } }
+          include: {
+            encodedBy: { select: { name: true } },
+            reversal: { select: { id: true } },
+          },
         },
       }
     });
@@ -76,8 +94,8 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ memb
     }
 
     if (
-      collectorGroupIds &&
-      (!member.groupId || !collectorGroupIds.includes(member.groupId))
+      scopedGroupIds &&
+      (!member.groupId || !scopedGroupIds.includes(member.groupId))
     ) {
       return NextResponse.json({ error: "Member not found" }, { status: 404 });
     }
@@ -107,6 +125,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ memb
         releaseDate: r.releaseDate instanceof Date ? r.releaseDate.toISOString() : r.releaseDate,
         createdAt: r.createdAt instanceof Date ? r.createdAt.toISOString() : r.createdAt,
       })),
+      loans: (member as any).loans.map(serializeLoan),
       processingFees: (member as any).processingFees.map((pf: any) => ({
         ...pf,
         amount: Number(pf.amount),
@@ -145,12 +164,7 @@ export async function GET(req: NextRequest, { params }: { params: Promise<{ memb
 
 export async function PUT(req: NextRequest, { params }: { params: Promise<{ memberId: string }> }) {
   const user = await requireUser();
-  if (!hasRole(user, [Role.SUPER_ADMIN, Role.ENCODER])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(user, "member.update");
   const { memberId } = await params;
 
   const body = await req.json();
@@ -159,15 +173,22 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
   if (!parsed.success) {
     return NextResponse.json({ error: "Invalid input", details: parsed.error.format() }, { status: 400 });
   }
+  if (!(await canAccessMember(user, memberId))) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
+  if (parsed.data.groupId && !(await canAccessGroup(user, parsed.data.groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
 
   const request = await tryGetAuditRequestContext();
   const businessDate = getManilaBusinessDate();
   const todayStr = formatDateYMD(businessDate);
   const todayRange = getManilaDateRange(todayStr, todayStr);
   const releaseDate = businessDate;
+  const isApprover = await canApproveRequests(user);
 
   try {
-    const updatedMember = await prisma.$transaction(async (tx) => {
+    const { updated: updatedMember, pendingApprovals } = await prisma.$transaction(async (tx) => {
       const existingMember = await tx.member.findUnique({ where: { id: memberId } });
       if (!existingMember) {
         throw new Error("Member not found");
@@ -181,12 +202,27 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
         parsed.data.savings !== undefined ? Number(parsed.data.savings.toFixed(2)) : existingSavings;
       const balanceChanged = parsed.data.balance !== undefined && nextBalance !== existingBalance;
       const savingsChanged = parsed.data.savings !== undefined && nextSavings !== existingSavings;
+      // Balance increases and large withdrawals by non-approvers are filed for approval instead
+      const balanceNeedsApproval = balanceChanged && nextBalance > existingBalance && !isApprover;
+      const savingsNeedsApproval =
+        savingsChanged &&
+        nextSavings < existingSavings &&
+        !isApprover &&
+        requiresWithdrawalApproval((existingSavings - nextSavings).toFixed(2));
+      const pendingApprovals: ApprovalRequestType[] = [];
+
+      if (balanceChanged || savingsChanged) {
+        await assertPeriodOpen(tx, businessDate);
+      }
 
       if (balanceChanged) {
         const alreadyUpdatedToday = await tx.balanceAdjustment.findFirst({
           where: {
             memberId,
             createdAt: { gte: todayRange.from, lte: todayRange.to },
+            savingsOffset: { is: null },
+            reversalOfId: null,
+            reversal: { is: null },
           },
         });
         if (alreadyUpdatedToday) {
@@ -199,6 +235,9 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
           where: {
             memberId,
             createdAt: { gte: todayRange.from, lte: todayRange.to },
+            type: { not: "APPLY_TO_BALANCE" },
+            reversalOfId: null,
+            reversal: { is: null },
           },
         });
         if (alreadyUpdatedToday) {
@@ -215,31 +254,69 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
           age: parsed.data.age,
           address: parsed.data.address,
           phoneNumber: parsed.data.phoneNumber,
-          balance: parsed.data.balance !== undefined ? new Prisma.Decimal(parsed.data.balance.toFixed(2)) : undefined,
-          savings: parsed.data.savings !== undefined ? new Prisma.Decimal(parsed.data.savings.toFixed(2)) : undefined,
+          balance:
+            parsed.data.balance !== undefined && !balanceNeedsApproval
+              ? new Prisma.Decimal(parsed.data.balance.toFixed(2))
+              : undefined,
+          savings:
+            parsed.data.savings !== undefined && !savingsNeedsApproval
+              ? new Prisma.Decimal(parsed.data.savings.toFixed(2))
+              : undefined,
           daysCount: parsed.data.daysCount,
           status: parsed.data.status as "ACTIVE" | "INACTIVE" | undefined,
+          deactivatedAt:
+            parsed.data.status === undefined || parsed.data.status === existingMember.status
+              ? undefined
+              : parsed.data.status === "INACTIVE"
+                ? new Date()
+                : null,
         },
         include: {
             group: { select: { id: true, name: true } }
         }
       });
 
-      if (balanceChanged) {
+      if (balanceNeedsApproval) {
+        await submitApprovalRequest(tx, {
+          type: ApprovalRequestType.BALANCE_INCREASE,
+          memberId,
+          payload: { amount: (nextBalance - existingBalance).toFixed(2) },
+          requestedById: user.id,
+          request,
+        });
+        pendingApprovals.push(ApprovalRequestType.BALANCE_INCREASE);
+      } else if (balanceChanged) {
+        const type = nextBalance > existingBalance ? "INCREASE" : "DEDUCT";
+        const amount = Math.abs(nextBalance - existingBalance);
+        const loanId =
+          type === "DEDUCT"
+            ? await applyLoanDeduction(tx, memberId, amount)
+            : await applyLoanIncrease(tx, memberId, amount);
+
         await tx.balanceAdjustment.create({
           data: {
             memberId,
             encodedById: user.id,
-            type: nextBalance > existingBalance ? "INCREASE" : "DEDUCT",
-            amount: Math.abs(nextBalance - existingBalance),
+            type,
+            amount,
             balanceBefore: existingMember.balance,
             balanceAfter: new Prisma.Decimal(nextBalance.toFixed(2)),
+            loanId,
             createdAt: businessDate,
           },
         });
       }
 
-      if (savingsChanged) {
+      if (savingsNeedsApproval) {
+        await submitApprovalRequest(tx, {
+          type: ApprovalRequestType.SAVINGS_WITHDRAWAL,
+          memberId,
+          payload: { amount: (existingSavings - nextSavings).toFixed(2) },
+          requestedById: user.id,
+          request,
+        });
+        pendingApprovals.push(ApprovalRequestType.SAVINGS_WITHDRAWAL);
+      } else if (savingsChanged) {
         await tx.savingsAdjustment.create({
           data: {
             memberId,
@@ -327,12 +404,11 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
       }
 
       if (parsed.data.activeReleaseAmount && parsed.data.activeReleaseAmount > 0) {
-        await tx.activeRelease.create({
-          data: {
-            memberId,
-            amount: parsed.data.activeReleaseAmount,
-            releaseDate,
-          },
+        const { loan } = await createLoanWithRelease(tx, {
+          memberId,
+          createdById: user.id,
+          releaseDate,
+          terms: { principal: parsed.data.activeReleaseAmount },
         });
 
         await createAuditLog(tx, {
@@ -342,14 +418,17 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
           entityId: memberId,
           metadata: {
             amount: parsed.data.activeReleaseAmount,
+            loanId: loan.id,
             releaseDate: releaseDate.toISOString(),
             source: "member_update",
           },
           request,
         });
+        // The release added the loan to the balance after `updated` was read
+        updated.balance = updated.balance.plus(loan.totalPayable);
       }
 
-      return updated;
+      return { updated, pendingApprovals };
     }, { timeout: 20000 });
 
     const serializedMember = updatedMember ? {
@@ -357,6 +436,7 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
         balance: Number(updatedMember.balance),
         savings: Number(updatedMember.savings),
         createdAt: updatedMember.createdAt.toISOString(),
+        pendingApprovals,
     } : null;
 
     return NextResponse.json(serializedMember);
@@ -370,6 +450,10 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
     if (error.message === "SAVINGS_ALREADY_UPDATED_TODAY") {
       return NextResponse.json({ error: "Savings has already been updated today." }, { status: 409 });
     }
+    const mapped = getLoanErrorResponse(error) ?? getPeriodCloseErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
     console.error("Error updating member:", error);
     return NextResponse.json({ error: "Failed to update member" }, { status: 500 });
   }
@@ -377,13 +461,11 @@ export async function PUT(req: NextRequest, { params }: { params: Promise<{ memb
 
 export async function DELETE(req: NextRequest, { params }: { params: Promise<{ memberId: string }> }) {
   const user = await requireUser();
-  if (!hasRole(user, [Role.SUPER_ADMIN])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(user, "member.delete");
   const { memberId } = await params;
+  if (!(await canAccessMember(user, memberId))) {
+    return NextResponse.json({ error: "Member not found" }, { status: 404 });
+  }
 
   const request = await tryGetAuditRequestContext();
 
@@ -391,13 +473,13 @@ export async function DELETE(req: NextRequest, { params }: { params: Promise<{ m
     await prisma.$transaction(async (tx) => {
       const member = await tx.member.findUnique({
         where: { id: memberId },
-        select: { id: true, firstName: true, lastName: true, groupId: true },
+        select: { id: true, firstName: true, lastName: true, groupId: true, status: true },
       });
       if (!member) return;
 
       await tx.member.update({
         where: { id: memberId },
-        data: { status: "INACTIVE" },
+        data: { status: "INACTIVE", deactivatedAt: member.status === "INACTIVE" ? undefined : new Date() },
       });
 
       await createAuditLog(tx, {
@@ -1,18 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { hasRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 import { getManilaBusinessDate, getManilaDateRange, formatDateYMD } from "@/lib/date";
+import { applyLoanDeduction, createLoanWithRelease, deductionExceedsLoan } from "@/lib/loans";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
 
 export async function POST(req: NextRequest) {
   const actor = await requireUser();
-  if (!hasRole(actor, [Role.SUPER_ADMIN, Role.ENCODER])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(actor, "adjustment.create");
 
   const { updates } = await req.json();
 
@@ -20,6 +17,17 @@ export async function POST(req: NextRequest) {
   const businessDate = getManilaBusinessDate();
   const todayStr = formatDateYMD(businessDate);
   const todayRange = getManilaDateRange(todayStr, todayStr);
+  const scopedGroupIds = await getScopedGroupIds(actor);
+
+  try {
+    await assertPeriodOpen(prisma, businessDate);
+  } catch (error) {
+    const closed = getPeriodCloseErrorResponse(error);
+    if (closed) {
+      return NextResponse.json({ error: closed.error }, { status: closed.status });
+    }
+    throw error;
+  }
 
   const errors: { memberId: string; message: string; type: "balance" | "savings" | "processingFee" }[] = [];
   const warnings: { memberId: string; message: string }[] = [];
@@ -29,9 +37,19 @@ export async function POST(req: NextRequest) {
       async (tx) => {
         const member = await tx.member.findUnique({
           where: { id: update.memberId },
-          select: { id: true, firstName: true, lastName: true, balance: true, savings: true, daysCount: true },
+          select: {
+            id: true,
+            firstName: true,
+            lastName: true,
+            groupId: true,
+            balance: true,
+            savings: true,
+            daysCount: true,
+          },
         });
+        // Members outside the actor's branches are skipped like unknown ones
         if (!member) return;
+        if (scopedGroupIds && (!member.groupId || !scopedGroupIds.includes(member.groupId))) return;
 
         const balanceDeduct = parseFloat(update.balanceDeduct) || 0;
         const savingsIncrease = parseFloat(update.savingsIncrease) || 0;
@@ -98,13 +116,11 @@ export async function POST(req: NextRequest) {
         }
 
         if (activeReleaseAmount > 0) {
-          await (tx as any).activeRelease.create({
-            data: {
-              memberId: member.id,
-              amount: activeReleaseAmount,
-              releaseDate: businessDate,
-              createdAt: businessDate,
-            },
+          const { loan } = await createLoanWithRelease(tx, {
+            memberId: member.id,
+            createdById: actor.id,
+            releaseDate: businessDate,
+            terms: { principal: activeReleaseAmount },
           });
 
           await createAuditLog(tx, {
@@ -114,6 +130,7 @@ export async function POST(req: NextRequest) {
             entityId: member.id,
             metadata: {
               amount: activeReleaseAmount,
+              loanId: loan.id,
               releaseDate: businessDate.toISOString(),
               source: "member_bulk_update",
             },
@@ -126,6 +143,9 @@ export async function POST(req: NextRequest) {
             where: {
               memberId: member.id,
               createdAt: { gte: todayRange.from, lte: todayRange.to },
+              savingsOffset: { is: null },
+              reversalOfId: null,
+              reversal: { is: null },
             },
           });
 
@@ -143,8 +163,18 @@ export async function POST(req: NextRequest) {
               type: "balance",
               message: `Balance for ${member.firstName} has already been updated today.`,
             });
+          } else if (await deductionExceedsLoan(tx, member.id, balanceDeduct)) {
+            errors.push({
+              memberId: member.id,
+              type: "balance",
+              message: `Payment for ${member.firstName} is more than the outstanding balance of their loan.`,
+            });
           } else {
-            const balanceBefore = member.balance;
+            // Re-read: a release above has already added to the balance
+            const { balance: balanceBefore } = await tx.member.findUniqueOrThrow({
+              where: { id: member.id },
+              select: { balance: true },
+            });
             const balanceAfter = balanceBefore.minus(balanceDeduct);
 
             const shouldIncrementDays = newDaysCount === null;
@@ -158,6 +188,8 @@ export async function POST(req: NextRequest) {
               },
             });
 
+            const loanId = await applyLoanDeduction(tx, member.id, balanceDeduct);
+
             await tx.balanceAdjustment.create({
               data: {
                 memberId: member.id,
@@ -166,6 +198,7 @@ export async function POST(req: NextRequest) {
                 amount: balanceDeduct,
                 balanceBefore,
                 balanceAfter,
+                loanId,
                 createdAt: businessDate,
               },
             });
@@ -197,6 +230,9 @@ export async function POST(req: NextRequest) {
             where: {
               memberId: member.id,
               createdAt: { gte: todayRange.from, lte: todayRange.to },
+              type: { not: "APPLY_TO_BALANCE" },
+              reversalOfId: null,
+              reversal: { is: null },
             },
           });
 
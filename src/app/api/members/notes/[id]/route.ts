@@ -1,22 +1,22 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { hasRole, requireUser, requireRole } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { canAccessMember } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 
 export async function DELETE(
   req: NextRequest,
   { params }: { params: Promise<{ id: string }> }
 ) {
   const user = await requireUser();
-  if (!hasRole(user, [Role.SUPER_ADMIN, Role.ENCODER])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(user, "member.update");
   const { id } = await params;
 
   try {
+    const note = await prisma.memberNote.findUnique({ where: { id }, select: { memberId: true } });
+    if (!note || !(await canAccessMember(user, note.memberId))) {
+      return NextResponse.json({ error: "Note not found" }, { status: 404 });
+    }
+
     await (prisma as any).memberNote.delete({
       where: { id },
     });
@@ -1,10 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { hasRole, requireRole, requireUser } from "@/lib/auth/session";
-import { BalanceUpdateType, Prisma, Role, SavingsUpdateType } from "@prisma/client";
+import { canAccessGroup, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { BalanceUpdateType, Prisma, SavingsUpdateType } from "@prisma/client";
 import { z } from "zod";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { createLoanWithRelease } from "@/lib/loans";
 import { getManilaBusinessDate, getManilaDateRange, formatDateYMD } from "@/lib/date";
 
 const CreateMemberSchema = z.object({
@@ -28,7 +29,7 @@ const CreateMemberSchema = z.object({
 export async function GET(req: NextRequest) {
   try {
     const user = await requireUser();
-    requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+    requirePermission(user, "member.view");
 
     const { searchParams } = new URL(req.url);
     const q = (searchParams.get("q") ?? "").trim();
@@ -39,19 +40,19 @@ export async function GET(req: NextRequest) {
     const days = parseInt(searchParams.get("days") ?? "0") || 0;
     const status = searchParams.get("status");
     const newMember = searchParams.get("newMember") === "true";
-    const collectorGroupIds = await getCollectorScopedGroupIds(user);
+    const scopedGroupIds = await getScopedGroupIds(user);
 
     const where: any = {};
     let forceNoResults = false;
-    if (collectorGroupIds) {
+    if (scopedGroupIds) {
       if (groupId) {
-        if (collectorGroupIds.includes(groupId)) {
+        if (scopedGroupIds.includes(groupId)) {
           where.groupId = groupId;
         } else {
           forceNoResults = true;
         }
       } else {
-        where.groupId = { in: collectorGroupIds };
+        where.groupId = { in: scopedGroupIds };
       }
     } else if (groupId) {
       where.groupId = groupId;
@@ -137,6 +138,8 @@ export async function GET(req: NextRequest) {
           },
           processingFees: {
             where: {
+              reversalOfId: null,
+              reversal: { is: null },
               createdAt: {
                 gte: todayRange.from,
                 lte: todayRange.to,
@@ -147,6 +150,8 @@ export async function GET(req: NextRequest) {
           },
           loanInsurances: {
             where: {
+              reversalOfId: null,
+              reversal: { is: null },
               createdAt: {
                 gte: todayRange.from,
                 lte: todayRange.to,
@@ -157,6 +162,8 @@ export async function GET(req: NextRequest) {
           },
           passbookFees: {
             where: {
+              reversalOfId: null,
+              reversal: { is: null },
               createdAt: {
                 gte: todayRange.from,
                 lte: todayRange.to,
@@ -167,6 +174,8 @@ export async function GET(req: NextRequest) {
           },
           membershipFees: {
             where: {
+              reversalOfId: null,
+              reversal: { is: null },
               createdAt: {
                 gte: todayRange.from,
                 lte: todayRange.to,
@@ -191,6 +200,8 @@ export async function GET(req: NextRequest) {
             where: {
               memberId: { in: memberIds },
               type: BalanceUpdateType.DEDUCT,
+              reversalOfId: null,
+              reversal: { is: null },
             },
             _max: {
               createdAt: true,
@@ -297,12 +308,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   const user = await requireUser();
-  if (!hasRole(user, [Role.SUPER_ADMIN, Role.ENCODER])) {
-    return NextResponse.json(
-      { error: "Your role is not allowed to do this action" },
-      { status: 403 },
-    );
-  }
+  requirePermission(user, "member.create");
 
   const body = await req.json();
   const parsed = CreateMemberSchema.safeParse(body);
@@ -310,6 +316,16 @@ export async function POST(req: NextRequest) {
   if (!parsed.success) {
     return NextResponse.json({ error: "Invalid input", details: parsed.error.format() }, { status: 400 });
   }
+  // A release opens the balance with the loan's total payable, so a typed balance would be charged twice
+  if ((parsed.data.activeReleaseAmount ?? 0) > 0 && parsed.data.balance !== 0) {
+    return NextResponse.json(
+      { error: "Enter either an opening balance or an active release, not both" },
+      { status: 400 },
+    );
+  }
+  if (!(await canAccessGroup(user, parsed.data.groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
 
   const today = new Date();
   const releaseDate = getManilaBusinessDate();
@@ -366,12 +382,11 @@ export async function POST(req: NextRequest) {
       }
 
       if (parsed.data.activeReleaseAmount && parsed.data.activeReleaseAmount > 0) {
-        await tx.activeRelease.create({
-          data: {
-            memberId: newMember.id,
-            amount: parsed.data.activeReleaseAmount,
-            releaseDate,
-          },
+        const { loan } = await createLoanWithRelease(tx, {
+          memberId: newMember.id,
+          createdById: user.id,
+          releaseDate,
+          terms: { principal: parsed.data.activeReleaseAmount },
         });
 
         await createAuditLog(tx, {
@@ -381,11 +396,14 @@ export async function POST(req: NextRequest) {
           entityId: newMember.id,
           metadata: {
             amount: parsed.data.activeReleaseAmount,
+            loanId: loan.id,
             releaseDate: releaseDate.toISOString(),
             source: "member_create",
           },
           request,
         });
+        // The release added the loan to the balance after `newMember` was read
+        newMember.balance = newMember.balance.plus(loan.totalPayable);
       }
 
       return newMember;
@@ -1,6 +1,6 @@
 import { NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { Role } from "@prisma/client";
 
 type NotificationItem = {
@@ -18,7 +18,7 @@ const EXCLUDED_ACTIONS = ["LOGIN", "LOGOUT"];
 
 export async function GET() {
   const authUser = await requireUser();
-  requireRole(authUser, [Role.SUPER_ADMIN]);
+  requirePermission(authUser, "notification.view");
 
   const user = await prisma.user.findUnique({
     where: { id: authUser.id },
@@ -79,7 +79,7 @@ export async function GET() {
 
 export async function POST(req: Request) {
   const authUser = await requireUser();
-  requireRole(authUser, [Role.SUPER_ADMIN]);
+  requirePermission(authUser, "notification.view");
 
   let body: unknown = null;
   try {
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getCollectionSheet } from "@/lib/collection-sheet";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+
+export async function GET(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "remittance.submit");
+
+  const groupId = req.nextUrl.searchParams.get("groupId") ?? "";
+  const scopedGroupIds = await getScopedGroupIds(user);
+  if (!groupId || (scopedGroupIds && !scopedGroupIds.includes(groupId))) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
+
+  try {
+    const sheet = await getCollectionSheet(groupId, formatDateYMD(getManilaBusinessDate()), user.id);
+    if (!sheet) return NextResponse.json({ error: "Group not found" }, { status: 404 });
+    return NextResponse.json({ sheet });
+  } catch (error) {
+    console.error("Error loading collection sheet:", error);
+    return NextResponse.json({ error: "Failed to load collection sheet" }, { status: 500 });
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { SyncRemittanceSchema, getCollectionSheetErrorResponse, syncRemittanceEntries } from "@/lib/collection-sheet";
+import { prisma } from "@/lib/db";
+import { getPeriodCloseErrorResponse } from "@/lib/period-close";
+import { getRemittanceErrorResponse } from "@/lib/remittances";
+
+export async function POST(req: NextRequest) {
+  const user = await requireUser();
+  requirePermission(user, "remittance.submit");
+
+  const body = await req.json().catch(() => ({}));
+  const parsed = SyncRemittanceSchema.safeParse(body);
+  if (!parsed.success) {
+    return NextResponse.json({ error: "Invalid entries" }, { status: 400 });
+  }
+
+  const scopedGroupIds = await getScopedGroupIds(user);
+  if (scopedGroupIds && !scopedGroupIds.includes(parsed.data.groupId)) {
+    return NextResponse.json({ error: "Group not found" }, { status: 404 });
+  }
+
+  const request = await tryGetAuditRequestContext();
+
+  try {
+    const results = await prisma.$transaction(async (tx) => {
+      const results = await syncRemittanceEntries(tx, { ...parsed.data, userId: user.id });
+      const applied = results.filter((result) => result.status === "APPLIED");
+      const conflicts = results.filter((result) => result.status === "CONFLICT");
+
+      if (applied.length > 0 || conflicts.length > 0) {
+        await createAuditLog(tx, {
+          actorUserId: user.id,
+          action: "REMITTANCE_SYNC",
+          entityType: "Group",
+          entityId: parsed.data.groupId,
+          metadata: {
+            businessDate: parsed.data.businessDate,
+            applied: applied.length,
+            conflicts: conflicts.map((result) => ({
+              idempotencyKey: result.idempotencyKey,
+              reason: result.conflict?.reason,
+            })),
+            forced: parsed.data.entries.filter(
+              (entry) => entry.force && applied.some((result) => result.idempotencyKey === entry.idempotencyKey),
+            ).length,
+          },
+          request,
+        });
+      }
+
+      return results;
+    });
+
+    return NextResponse.json({ results });
+  } catch (error) {
+    const mapped =
+      getCollectionSheetErrorResponse(error) ?? getRemittanceErrorResponse(error) ?? getPeriodCloseErrorResponse(error);
+    if (mapped) {
+      return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    }
+    console.error("Error syncing remittance entries:", error);
+    return NextResponse.json({ error: "Failed to sync collections" }, { status: 500 });
+  }
+}
@@ -1,16 +1,26 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getScopedGroupIds, resolveBranchFilter } from "@/lib/auth/access";
 
 export async function GET(req: NextRequest) {
-  await requireUser();
+  const user = await requireUser();
+  requirePermission(user, "report.view");
   const { searchParams } = new URL(req.url);
   const page = Math.max(1, parseInt(searchParams.get("page") ?? "1") || 1);
   const limit = Math.max(1, parseInt(searchParams.get("limit") ?? "20") || 20);
   const q = searchParams.get("q")?.trim() || "";
 
-  // @ts-ignore - prisma types might complain about mode if not enabled, but it usually is for postgres
-  const where = q ? { name: { contains: q, mode: "insensitive" } } : {};
+  const [scopedGroupIds, branchIds] = await Promise.all([
+    getScopedGroupIds(user),
+    resolveBranchFilter(user, searchParams.get("branch")),
+  ]);
+
+  const where = {
+    ...(q ? { name: { contains: q, mode: "insensitive" as const } } : {}),
+    ...(scopedGroupIds ? { id: { in: scopedGroupIds } } : {}),
+    ...(branchIds ? { branchId: { in: branchIds } } : {}),
+  };
 
   const [items, total] = await Promise.all([
     prisma.group.findMany({
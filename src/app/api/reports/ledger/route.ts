@@ -0,0 +1,26 @@
+import { NextResponse } from "next/server";
+import { resolveBranchFilter } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getLedgerReportData } from "@/lib/ledger";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const actor = await requireUser();
+  requirePermission(actor, "ledger.view");
+
+  const url = new URL(req.url);
+  const from = url.searchParams.get("from") ?? "";
+  const to = url.searchParams.get("to") ?? "";
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+    return NextResponse.json({ error: "Invalid date range" }, { status: 400 });
+  }
+
+  try {
+    const branchIds = await resolveBranchFilter(actor, url.searchParams.get("branch"));
+    return NextResponse.json(await getLedgerReportData(from, to, { branchIds }));
+  } catch (error) {
+    console.error("Error generating ledger report:", error);
+    return NextResponse.json({ error: "Failed to generate ledger report" }, { status: 500 });
+  }
+}
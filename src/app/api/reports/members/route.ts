@@ -1,17 +1,27 @@
 import { NextRequest, NextResponse } from "next/server";
 import { prisma } from "@/lib/db";
-import { requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getScopedGroupIds, resolveBranchFilter } from "@/lib/auth/access";
+import { branchMemberWhere } from "@/lib/branches";
 
 export async function GET(req: NextRequest) {
-  await requireUser();
+  const user = await requireUser();
+  requirePermission(user, "report.view");
   const { searchParams } = new URL(req.url);
   const page = Math.max(1, parseInt(searchParams.get("page") ?? "1") || 1);
   const limit = Math.max(1, parseInt(searchParams.get("limit") ?? "20") || 20);
   const q = searchParams.get("q")?.trim() || "";
   const sort = searchParams.get("sort") === "desc" ? "desc" : "asc";
 
+  const [scopedGroupIds, branchIds] = await Promise.all([
+    getScopedGroupIds(user),
+    resolveBranchFilter(user, searchParams.get("branch")),
+  ]);
+
   const where = {
     status: "ACTIVE",
+    ...(scopedGroupIds ? { groupId: { in: scopedGroupIds } } : {}),
+    ...branchMemberWhere(branchIds),
     ...(q
       ? {
           OR: [
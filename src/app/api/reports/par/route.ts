@@ -0,0 +1,87 @@
+import React from "react";
+import fs from "fs";
+import path from "path";
+import { NextResponse } from "next/server";
+import { renderToStream } from "@react-pdf/renderer";
+import { createAuditLogStandalone, tryGetAuditRequestContext } from "@/lib/audit";
+import { resolveBranchFilter } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getParReportData } from "@/lib/par";
+import { ParReportPdf } from "@/lib/pdf/ParReportPdf";
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const actor = await requireUser();
+  requirePermission(actor, "report.export");
+
+  const url = new URL(req.url);
+  const format = url.searchParams.get("format")?.toLowerCase();
+  const isPreview = url.searchParams.get("preview") === "true";
+
+  try {
+    const branchIds = await resolveBranchFilter(actor, url.searchParams.get("branch"));
+    const reportData = await getParReportData(undefined, { branchIds });
+
+    if (format === "json") {
+      return NextResponse.json(reportData);
+    }
+
+    let logoBinary: Buffer | null = null;
+    try {
+      const logoPath = path.join(process.cwd(), "public", "logo.jpg");
+      logoBinary = await fs.promises.readFile(logoPath);
+    } catch {
+      logoBinary = null;
+    }
+
+    const stream = await renderToStream(
+      React.createElement(ParReportPdf, {
+        data: {
+          ...reportData,
+          companyName: "Triple E Microfinance",
+          logoUrl: logoBinary ?? undefined,
+        },
+      }) as any,
+    );
+
+    const chunks: Buffer[] = [];
+    // @ts-ignore
+    for await (const chunk of stream) {
+      chunks.push(Buffer.from(chunk));
+    }
+    const pdfBuffer = Buffer.concat(chunks);
+
+    try {
+      const request = await tryGetAuditRequestContext();
+      await createAuditLogStandalone({
+        actorUserId: actor.id,
+        action: "EXPORT_PAR_REPORT_PDF",
+        entityType: "Report",
+        entityId: reportData.asOf,
+        metadata: {
+          asOf: reportData.asOf,
+          outstanding: reportData.totals.outstanding,
+          atRisk: reportData.totals.atRisk,
+          branchIds,
+        },
+        request,
+      });
+    } catch {
+      // ignore audit failures for export
+    }
+
+    const filename = `par-report-${reportData.asOf}.pdf`;
+    return new NextResponse(pdfBuffer, {
+      status: 200,
+      headers: {
+        "Content-Type": "application/pdf",
+        "Content-Disposition": `${isPreview ? "inline" : "attachment"}; filename="${filename}"`,
+        "Cache-Control": "no-store",
+      },
+    });
+  } catch (error) {
+    console.error("Error generating PAR report:", error);
+    return NextResponse.json({ error: "Failed to generate PAR report" }, { status: 500 });
+  }
+}
@@ -0,0 +1,84 @@
+import fs from "fs";
+import path from "path";
+import ts from "typescript";
+import { describe, expect, it } from "vitest";
+
+const API_DIR = path.join(process.cwd(), "src/app/api");
+const HTTP_METHODS = new Set(["GET", "POST", "PUT", "PATCH", "DELETE"]);
+
+// Handlers that cannot go through the permission registry, keyed by route path under src/app/api
+const EXEMPT_ROUTES: Record<string, string> = {
+  "account/two-factor/route.ts":
+    "every signed-in user manages their own second factor, including before it is set up",
+  "jobs/accrue-savings/route.ts": "called by the scheduler with the jobs API key, not by a user",
+};
+
+function listRouteFiles(dir: string): string[] {
+  return fs
+    .readdirSync(dir, { recursive: true, encoding: "utf8" })
+    .filter((file) => path.basename(file) === "route.ts")
+    .map((file) => file.split(path.sep).join("/"))
+    .sort();
+}
+
+/** Exported HTTP handlers in a route file, with their function bodies. */
+function findHandlers(source: ts.SourceFile) {
+  const handlers: { method: string; body: ts.Node }[] = [];
+  for (const statement of source.statements) {
+    const exported = ts.canHaveModifiers(statement)
+      ? ts.getModifiers(statement)?.some((m) => m.kind === ts.SyntaxKind.ExportKeyword)
+      : false;
+    if (!exported) continue;
+
+    if (ts.isFunctionDeclaration(statement) && statement.name && statement.body) {
+      if (HTTP_METHODS.has(statement.name.text)) {
+        handlers.push({ method: statement.name.text, body: statement.body });
+      }
+    } else if (ts.isVariableStatement(statement)) {
+      for (const decl of statement.declarationList.declarations) {
+        if (ts.isIdentifier(decl.name) && HTTP_METHODS.has(decl.name.text) && decl.initializer) {
+          handlers.push({ method: decl.name.text, body: decl.initializer });
+        }
+      }
+    }
+  }
+  return handlers;
+}
+
+function callsRequirePermission(node: ts.Node): boolean {
+  if (
+    ts.isCallExpression(node) &&
+    ts.isIdentifier(node.expression) &&
+    node.expression.text === "requirePermission"
+  ) {
+    return true;
+  }
+  return ts.forEachChild(node, callsRequirePermission) ?? false;
+}
+
+const routeFiles = listRouteFiles(API_DIR);
+
+describe("API route permissions", () => {
+  it("finds the route files", () => {
+    expect(routeFiles.length).toBeGreaterThan(0);
+  });
+
+  it.each(routeFiles.filter((file) => !(file in EXEMPT_ROUTES)))(
+    "%s checks a permission in every handler",
+    (file) => {
+      const text = fs.readFileSync(path.join(API_DIR, file), "utf8");
+      const source = ts.createSourceFile(file, text, ts.ScriptTarget.Latest, true);
+      const handlers = findHandlers(source);
+
+      expect(handlers.length).toBeGreaterThan(0);
+      const missing = handlers.filter((h) => !callsRequirePermission(h.body)).map((h) => h.method);
+      expect(missing).toEqual([]);
+    },
+  );
+
+  it("only exempts routes that exist", () => {
+    for (const file of Object.keys(EXEMPT_ROUTES)) {
+      expect(routeFiles).toContain(file);
+    }
+  });
+});
@@ -1,6 +1,5 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
 import { hashPassword } from "@/lib/auth/password";
@@ -21,7 +20,7 @@ export async function PUT(
   { params }: { params: Promise<{ id: string }> }
 ) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "user.manage");
   const { id } = await params;
 
   const body = await req.json();
@@ -146,7 +145,7 @@ export async function DELETE(
   { params }: { params: Promise<{ id: string }> }
 ) {
     const actor = await requireUser();
-    requireRole(actor, [Role.SUPER_ADMIN]);
+    requirePermission(actor, "user.manage");
     const { id } = await params;
 
     if (id === actor.id) {
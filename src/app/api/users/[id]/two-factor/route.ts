@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from "next/server";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { getTwoFactorErrorResponse, resetTwoFactor } from "@/lib/auth/two-factor";
+
+// Clears a user's authenticator and recovery codes so they can enroll again, e.g. after a lost phone.
+export async function DELETE(
+  _req: NextRequest,
+  { params }: { params: Promise<{ id: string }> },
+) {
+  const actor = await requireUser();
+  requirePermission(actor, "user.manage");
+  const { id } = await params;
+
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      await resetTwoFactor(tx, id);
+      await tx.authSession.deleteMany({ where: { userId: id } });
+      await createAuditLog(tx, {
+        actorUserId: actor.id,
+        action: "TWO_FACTOR_RESET",
+        entityType: "User",
+        entityId: id,
+        request,
+      });
+    });
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    const mapped = getTwoFactorErrorResponse(error);
+    if (mapped) return NextResponse.json({ error: mapped.error }, { status: mapped.status });
+    console.error("Error resetting two-factor authentication:", error);
+    return NextResponse.json({ error: "Failed to reset two-factor authentication" }, { status: 500 });
+  }
+}
@@ -1,5 +1,5 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { Role } from "@prisma/client";
 import { NextRequest, NextResponse } from "next/server";
 import { z } from "zod";
@@ -17,7 +17,7 @@ const CreateUserSchema = z.object({
 
 export async function GET(req: NextRequest) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]);
+  requirePermission(user, "user.manage");
 
   const searchParams = req.nextUrl.searchParams;
   const q = (searchParams.get("q") ?? "").trim();
@@ -48,6 +48,7 @@ export async function GET(req: NextRequest) {
         select: { id: true, firstName: true, lastName: true },
       },
       isActive: true,
+      totpEnabledAt: true,
       createdAt: true,
     },
   });
@@ -57,7 +58,7 @@ export async function GET(req: NextRequest) {
 
 export async function POST(req: NextRequest) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "user.manage");
 
   const body = await req.json();
   const parsed = CreateUserSchema.safeParse({
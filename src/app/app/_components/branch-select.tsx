@@ -0,0 +1,52 @@
+"use client";
+
+import { usePathname, useRouter, useSearchParams } from "next/navigation";
+import { useTransition } from "react";
+
+type BranchOption = { id: string; name: string };
+
+/** Sets `?branch=` on the current page; "All branches" clears it for the consolidated view. */
+export function BranchSelect({
+  branches,
+  value,
+  allowAll,
+}: {
+  branches: BranchOption[];
+  value: string | null;
+  allowAll: boolean;
+}) {
+  const router = useRouter();
+  const pathname = usePathname();
+  const searchParams = useSearchParams();
+  const [isPending, startTransition] = useTransition();
+
+  if (branches.length < 2 && !allowAll) return null;
+
+  const onChange = (branchId: string) => {
+    startTransition(() => {
+      const params = new URLSearchParams(searchParams?.toString() ?? "");
+      if (branchId) params.set("branch", branchId);
+      else params.delete("branch");
+      params.delete("page");
+      const qs = params.toString();
+      router.push(`${pathname ?? ""}${qs ? `?${qs}` : ""}`);
+    });
+  };
+
+  return (
+    <select
+      value={value ?? ""}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={isPending}
+      aria-label="Branch"
+      className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20 disabled:opacity-60"
+    >
+      {allowAll ? <option value="">All branches</option> : null}
+      {branches.map((branch) => (
+        <option key={branch.id} value={branch.id}>
+          {branch.name}
+        </option>
+      ))}
+    </select>
+  );
+}
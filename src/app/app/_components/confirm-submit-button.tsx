@@ -8,11 +8,15 @@ export function ConfirmSubmitButton(
   props: ButtonHTMLAttributes<HTMLButtonElement> & {
     confirmMessage: string;
     loadingText?: string;
+    /** When set, the dialog asks for a reason and submits it under this field name. */
+    reasonName?: string;
   },
 ) {
-  const { confirmMessage, loadingText = "Deleting...", onClick, children, ...rest } = props;
+  const { confirmMessage, loadingText = "Deleting...", reasonName, onClick, children, ...rest } = props;
   const [open, setOpen] = useState(false);
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [reason, setReason] = useState("");
+  const reasonMissing = Boolean(reasonName) && reason.trim().length === 0;
   const btnRef = useRef<HTMLButtonElement | null>(null);
 
   const submitLabel = useMemo(() => {
@@ -36,6 +40,7 @@ export function ConfirmSubmitButton(
 
   return (
     <>
+      {reasonName ? <input type="hidden" name={reasonName} value={reason} /> : null}
       <button
         {...rest}
         ref={btnRef}
@@ -71,7 +76,7 @@ export function ConfirmSubmitButton(
             <button
               type="button"
               onClick={handleConfirm}
-              disabled={isSubmitting}
+              disabled={isSubmitting || reasonMissing}
               className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed flex items-center gap-2 transition-all"
             >
               {isSubmitting && (
@@ -100,7 +105,21 @@ export function ConfirmSubmitButton(
             </button>
           </>
         }
-      />
+      >
+        {reasonName ? (
+          <div>
+            <label className="text-sm font-medium text-slate-700">Reason</label>
+            <textarea
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+              rows={3}
+              maxLength={500}
+              disabled={isSubmitting}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+        ) : null}
+      </Modal>
     </>
   );
 }
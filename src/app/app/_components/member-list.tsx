@@ -60,24 +60,36 @@ export type Member = {
     amount: number;
     createdAt: string;
     encodedBy: { name: string };
+    reversalOfId?: string | null;
+    reversalReason?: string | null;
+    reversal?: { id: string } | null;
   }[];
   loanInsurances?: {
     id: string;
     amount: number;
     createdAt: string;
     encodedBy: { name: string };
+    reversalOfId?: string | null;
+    reversalReason?: string | null;
+    reversal?: { id: string } | null;
   }[];
   passbookFees?: {
     id: string;
     amount: number;
     createdAt: string;
     encodedBy: { name: string };
+    reversalOfId?: string | null;
+    reversalReason?: string | null;
+    reversal?: { id: string } | null;
   }[];
   membershipFees?: {
     id: string;
     amount: number;
     createdAt: string;
     encodedBy: { name: string };
+    reversalOfId?: string | null;
+    reversalReason?: string | null;
+    reversal?: { id: string } | null;
   }[];
   notes?: {
     id: string;
@@ -95,6 +107,24 @@ export type Member = {
   status?: string;
 };
 
+function ReversalTag({ entry }: { entry: { reversalOfId?: string | null; reversalReason?: string | null; reversal?: { id: string } | null } }) {
+  if (entry.reversalOfId) {
+    return (
+      <span className="ml-2 rounded bg-red-100 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-red-700" title={entry.reversalReason ?? undefined}>
+        Reversal
+      </span>
+    );
+  }
+  if (entry.reversal) {
+    return (
+      <span className="ml-2 rounded bg-slate-200 px-1.5 py-0.5 text-[10px] font-semibold uppercase text-slate-600">
+        Reversed
+      </span>
+    );
+  }
+  return null;
+}
+
 export type Group = {
   id: string;
   name: string;
@@ -307,6 +337,8 @@ export function MemberList({
     message: string;
   }>({ isOpen: false, type: null, id: null, title: "", message: "" });
   const [isConfirming, setIsConfirming] = useState(false);
+  const [revertReason, setRevertReason] = useState("");
+  const requiresReason = confirmation.type?.startsWith("REVERT_") ?? false;
 
   const [formData, setFormData] = useState({
     firstName: "",
@@ -327,7 +359,7 @@ export function MemberList({
   const canDelete = userRole === Role.SUPER_ADMIN;
   const canBulkUpdate = userRole === Role.SUPER_ADMIN || userRole === Role.ENCODER;
   const canManageActiveRelease = userRole === Role.SUPER_ADMIN || userRole === Role.ENCODER;
-  const canRevertFees = userRole === Role.SUPER_ADMIN || userRole === Role.ENCODER;
+  const canRevert = userRole === Role.SUPER_ADMIN || userRole === Role.ENCODER;
 
   const fetchMembers = async (p = page, q = search, g = groupId, s = sort, l = limit, d = daysFilter, stat = statusFilter, nm = newMemberFilter) => {
     // If fixedGroupId is set, always use it
@@ -611,11 +643,18 @@ export function MemberList({
             if (isViewModalOpen) setIsViewModalOpen(false);
         } else if (confirmation.type === 'REVERT_BALANCE') {
             if (!confirmation.id) return;
-            const res = await fetch(`/api/adjustments/balance/${confirmation.id}`, { method: "DELETE" });
+            const res = await fetch(`/api/adjustments/balance/${confirmation.id}`, {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ reason: revertReason }),
+            });
             if (!res.ok) {
                 const data = await res.json();
                 throw new Error(data.error || "Failed to revert");
             }
+            if (res.status === 202) {
+                showAppToast("info", "Reversal submitted for approval.");
+            }
             if (viewMember) {
                 // Silent refresh of member data to update balance
                 const memberRes = await fetch(`/api/members/${viewMember.id}`);
@@ -628,11 +667,18 @@ export function MemberList({
             fetchMembers(page, search, groupId, sort, limit, daysFilter, statusFilter, newMemberFilter);
         } else if (confirmation.type === 'REVERT_SAVINGS') {
             if (!confirmation.id) return;
-            const res = await fetch(`/api/adjustments/savings/${confirmation.id}`, { method: "DELETE" });
+            const res = await fetch(`/api/adjustments/savings/${confirmation.id}`, {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ reason: revertReason }),
+            });
             if (!res.ok) {
                 const data = await res.json();
                 throw new Error(data.error || "Failed to revert");
             }
+            if (res.status === 202) {
+                showAppToast("info", "Reversal submitted for approval.");
+            }
             if (viewMember) {
                 // Silent refresh of member data to update savings
                 const memberRes = await fetch(`/api/members/${viewMember.id}`);
@@ -670,11 +716,18 @@ export function MemberList({
                       : confirmation.type === 'REVERT_LOAN_INSURANCE'
                         ? 'loan-insurance'
                         : 'passbook';
-            const res = await fetch(`/api/fees/${feeType}/${confirmation.id}`, { method: "DELETE" });
+            const res = await fetch(`/api/fees/${feeType}/${confirmation.id}`, {
+                method: "DELETE",
+                headers: { "Content-Type": "application/json" },
+                body: JSON.stringify({ reason: revertReason }),
+            });
             if (!res.ok) {
                 const data = await res.json();
                 throw new Error(data.error || "Failed to revert");
             }
+            if (res.status === 202) {
+                showAppToast("info", "Reversal submitted for approval.");
+            }
             if (viewMember) {
                 const memberRes = await fetch(`/api/members/${viewMember.id}`);
                 if (memberRes.ok) {
@@ -694,22 +747,24 @@ export function MemberList({
   };
 
   const handleRevertBalanceAdjustment = (adjId: string) => {
+    setRevertReason("");
     setConfirmation({
         isOpen: true,
         type: 'REVERT_BALANCE',
         id: adjId,
         title: "Revert Balance Adjustment",
-        message: "Are you sure you want to revert this adjustment? This will reverse the transaction."
+        message: "Are you sure you want to revert this adjustment? A reversing entry will be recorded; the original stays in the history."
     });
   };
 
   const handleRevertSavingsAdjustment = (adjId: string) => {
+    setRevertReason("");
     setConfirmation({
         isOpen: true,
         type: 'REVERT_SAVINGS',
         id: adjId,
         title: "Revert Savings Adjustment",
-        message: "Are you sure you want to revert this adjustment? This will reverse the transaction."
+        message: "Are you sure you want to revert this adjustment? A reversing entry will be recorded; the original stays in the history."
     });
   };
 
@@ -724,42 +779,46 @@ export function MemberList({
   };
 
   const handleRevertProcessingFee = (id: string) => {
+    setRevertReason("");
     setConfirmation({
       isOpen: true,
       type: 'REVERT_PROCESSING_FEE',
       id,
       title: "Revert Processing Fee",
-      message: "Are you sure you want to revert this fee? This will remove the record.",
+      message: "Are you sure you want to revert this fee? A reversing entry will be recorded; the original stays in the history.",
     });
   };
 
   const handleRevertMembershipFee = (id: string) => {
+    setRevertReason("");
     setConfirmation({
       isOpen: true,
       type: 'REVERT_MEMBERSHIP_FEE',
       id,
       title: "Revert Membership Fee",
-      message: "Are you sure you want to revert this fee? This will remove the record.",
+      message: "Are you sure you want to revert this fee? A reversing entry will be recorded; the original stays in the history.",
     });
   };
 
   const handleRevertLoanInsurance = (id: string) => {
+    setRevertReason("");
     setConfirmation({
       isOpen: true,
       type: 'REVERT_LOAN_INSURANCE',
       id,
       title: "Revert Loan Insurance",
-      message: "Are you sure you want to revert this fee? This will remove the record.",
+      message: "Are you sure you want to revert this fee? A reversing entry will be recorded; the original stays in the history.",
     });
   };
 
   const handleRevertPassbookFee = (id: string) => {
+    setRevertReason("");
     setConfirmation({
       isOpen: true,
       type: 'REVERT_PASSBOOK_FEE',
       id,
       title: "Revert Passbook Fee",
-      message: "Are you sure you want to revert this fee? This will remove the record.",
+      message: "Are you sure you want to revert this fee? A reversing entry will be recorded; the original stays in the history.",
     });
   };
 
@@ -900,7 +959,8 @@ export function MemberList({
         savings: member?.savings?.toString() || "0",
         daysCount: member?.daysCount?.toString() || "0",
         cycles: initialCycles,
-        activeReleaseAmount: member?.latestActiveReleaseAmount?.toString() || "",
+        // Only a newly entered amount is released; the previous release is shown as a hint
+        activeReleaseAmount: "",
         status: member?.status || "ACTIVE",
     });
     setIsModalOpen(true);
@@ -979,8 +1039,12 @@ export function MemberList({
             throw new Error(data.error || "Failed to save member");
         }
 
+        const saved = await res.json();
         handleCloseModal();
         showAppToast("success", editingMember ? "Member updated successfully." : "Member created successfully.");
+        if (saved?.pendingApprovals?.length) {
+            showAppToast("info", "Balance increase or savings withdrawal submitted for approval.");
+        }
         fetchMembers(page, search, groupId, sort, limit, daysFilter, statusFilter, newMemberFilter); // Refresh list
     } catch (error: any) {
         showAppToast("error", error.message || "Failed to save member");
@@ -1669,6 +1733,7 @@ export function MemberList({
                                                             <tr key={pf.id}>
                                                                 <td className="px-3 py-2">
                                                                     {formatDateManila(pf.createdAt)}
+                                                                    <ReversalTag entry={pf} />
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
                                                                     {Number(pf.amount).toLocaleString('en-US', {
@@ -1681,7 +1746,7 @@ export function MemberList({
                                                                     {pf.encodedBy.name}
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
-                                                                    {canRevertFees && (
+                                                                    {canRevert && !pf.reversalOfId && !pf.reversal && (
                                                                         <button
                                                                             onClick={() => handleRevertProcessingFee(pf.id)}
                                                                             className="text-xs font-medium text-slate-500 hover:text-red-600 hover:underline"
@@ -1721,6 +1786,7 @@ export function MemberList({
                                                             <tr key={pf.id}>
                                                                 <td className="px-3 py-2">
                                                                     {formatDateManila(pf.createdAt)}
+                                                                    <ReversalTag entry={pf} />
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
                                                                     {Number(pf.amount).toLocaleString('en-US', {
@@ -1733,7 +1799,7 @@ export function MemberList({
                                                                     {pf.encodedBy.name}
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
-                                                                    {canRevertFees && (
+                                                                    {canRevert && !pf.reversalOfId && !pf.reversal && (
                                                                         <button
                                                                             onClick={() => handleRevertPassbookFee(pf.id)}
                                                                             className="text-xs font-medium text-slate-500 hover:text-red-600 hover:underline"
@@ -1773,6 +1839,7 @@ export function MemberList({
                                                             <tr key={li.id}>
                                                                 <td className="px-3 py-2">
                                                                     {formatDateManila(li.createdAt)}
+                                                                    <ReversalTag entry={li} />
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
                                                                     {Number(li.amount).toLocaleString('en-US', {
@@ -1785,7 +1852,7 @@ export function MemberList({
                                                                     {li.encodedBy.name}
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
-                                                                    {canRevertFees && (
+                                                                    {canRevert && !li.reversalOfId && !li.reversal && (
                                                                         <button
                                                                             onClick={() => handleRevertLoanInsurance(li.id)}
                                                                             className="text-xs font-medium text-slate-500 hover:text-red-600 hover:underline"
@@ -1825,6 +1892,7 @@ export function MemberList({
                                                             <tr key={pf.id}>
                                                                 <td className="px-3 py-2">
                                                                     {formatDateManila(pf.createdAt)}
+                                                                    <ReversalTag entry={pf} />
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
                                                                     {Number(pf.amount).toLocaleString('en-US', {
@@ -1837,7 +1905,7 @@ export function MemberList({
                                                                     {pf.encodedBy.name}
                                                                 </td>
                                                                 <td className="px-3 py-2 text-right">
-                                                                    {canRevertFees && (
+                                                                    {canRevert && !pf.reversalOfId && !pf.reversal && (
                                                                         <button
                                                                             onClick={() => handleRevertMembershipFee(pf.id)}
                                                                             className="text-xs font-medium text-slate-500 hover:text-red-600 hover:underline"
@@ -1986,7 +2054,10 @@ export function MemberList({
                                                 ) : (
                                                     balanceAdjustments.map(adj => (
                                                         <tr key={adj.id}>
-                                                            <td className="px-3 py-2">{formatDateManila(adj.createdAt)}</td>
+                                                            <td className="px-3 py-2">
+                                                                {formatDateManila(adj.createdAt)}
+                                                                <ReversalTag entry={adj} />
+                                                            </td>
                                                             <td className="px-3 py-2">
                                                                 <span className={`text-xs px-2 py-0.5 rounded ${adj.type === 'DEDUCT' ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
                                                                     {adj.type}
@@ -1994,7 +2065,7 @@ export function MemberList({
                                                             </td>
                                                             <td className="px-3 py-2 text-right">{adj.amount.toLocaleString()}</td>
                                                             <td className="px-3 py-2 text-right">
-                                                                {canDelete && (
+                                                                {canRevert && !adj.reversalOfId && !adj.reversal && (
                                                                     <button onClick={() => handleRevertBalanceAdjustment(adj.id)} className="text-xs font-medium text-slate-500 hover:text-red-600 hover:underline" title="Revert Transaction">
                                                                         REVERT
                                                                     </button>
@@ -2039,7 +2110,10 @@ export function MemberList({
                                                 ) : (
                                                     savingsAdjustments.map(adj => (
                                                         <tr key={adj.id}>
-                                                            <td className="px-3 py-2">{formatDateManila(adj.createdAt)}</td>
+                                                            <td className="px-3 py-2">
+                                                                {formatDateManila(adj.createdAt)}
+                                                                <ReversalTag entry={adj} />
+                                                            </td>
                                                             <td className="px-3 py-2">
                                                                 <span className={`text-xs px-2 py-0.5 rounded ${adj.type === 'INCREASE' ? 'bg-emerald-100 text-emerald-700' : 'bg-red-100 text-red-700'}`}>
                                                                     {adj.type}
@@ -2047,7 +2121,7 @@ export function MemberList({
                                                             </td>
                                                             <td className="px-3 py-2 text-right">{adj.amount.toLocaleString()}</td>
                                                             <td className="px-3 py-2 text-right">
-                                                                {canDelete && (
+                                                                {canRevert && !adj.reversalOfId && !adj.reversal && (
                                                                     <button onClick={() => handleRevertSavingsAdjustment(adj.id)} className="text-xs font-medium text-slate-500 hover:text-red-600 hover:underline" title="Revert Transaction">
                                                                         REVERT
                                                                     </button>
@@ -2202,11 +2276,16 @@ export function MemberList({
                             </div>
                             <div>
                                 <label className="mb-1 block text-sm font-medium text-slate-700">
-                                    Active Release (optional)
+                                    {editingMember ? "New Release (optional)" : "Active Release (optional)"}
                                 </label>
                                 <input
                                     type="number"
                                     step="0.01"
+                                    placeholder={
+                                        editingMember?.latestActiveReleaseAmount != null
+                                            ? `Last release: ${Number(editingMember.latestActiveReleaseAmount).toLocaleString("en-US")}`
+                                            : undefined
+                                    }
                                     value={formData.activeReleaseAmount}
                                     onChange={(e) => setFormData({ ...formData, activeReleaseAmount: e.target.value })}
                                     className="w-full rounded-lg border border-slate-300 bg-white px-3 py-2 text-sm text-slate-900 placeholder:text-slate-400 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500/20"
@@ -2373,6 +2452,20 @@ export function MemberList({
                         {confirmation.message}
                     </p>
 
+                    {requiresReason && (
+                        <div className="mt-4">
+                            <label className="text-sm font-medium text-slate-700">Reason</label>
+                            <textarea
+                                value={revertReason}
+                                onChange={(e) => setRevertReason(e.target.value)}
+                                rows={3}
+                                maxLength={500}
+                                disabled={isConfirming}
+                                className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                            />
+                        </div>
+                    )}
+
                     <div className="mt-6 flex justify-end gap-3 pt-2">
                         <button
                             type="button"
@@ -2385,7 +2478,7 @@ export function MemberList({
                         <button
                             type="button"
                             onClick={handleConfirmAction}
-                            disabled={isConfirming}
+                            disabled={isConfirming || (requiresReason && !revertReason.trim())}
                             className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500/20 disabled:opacity-50"
                         >
                             {isConfirming ? "Confirming..." : "Confirm"}
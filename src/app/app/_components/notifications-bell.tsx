@@ -40,6 +40,7 @@ function formatTitle(n: NotificationItem) {
 }
 
 export function NotificationsBell({ user }: { user: AuthUser }) {
+  const canView = user.permissions.includes("notification.view");
   const [open, setOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [unreadCount, setUnreadCount] = useState<number>(0);
@@ -118,7 +119,7 @@ export function NotificationsBell({ user }: { user: AuthUser }) {
   }, [open, refresh]);
 
   useEffect(() => {
-    if (user.role !== "SUPER_ADMIN") return;
+    if (!canView) return;
 
     // Poll so the badge updates without manual refresh.
     // Faster while dropdown is open, slower while closed.
@@ -141,7 +142,7 @@ export function NotificationsBell({ user }: { user: AuthUser }) {
       window.removeEventListener("focus", onVisibilityOrFocus);
       document.removeEventListener("visibilitychange", onVisibilityOrFocus);
     };
-  }, [open, refresh, user.role]);
+  }, [canView, open, refresh]);
 
   useEffect(() => {
     if (!open) return;
@@ -172,7 +173,7 @@ export function NotificationsBell({ user }: { user: AuthUser }) {
     );
   }, [unreadCount]);
 
-  if (user.role !== "SUPER_ADMIN") return null;
+  if (!canView) return null;
 
   return (
     <div className="relative" ref={rootRef}>
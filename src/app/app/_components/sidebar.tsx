@@ -1,7 +1,12 @@
 import Image from "next/image";
 import { NavLink } from "./nav-link";
 import {
+  IconBank,
+  IconBook,
   IconBriefcase,
+  IconBuilding,
+  IconCalendar,
+  IconCheckCircle,
   IconDashboard,
   IconFileText,
   IconFolder,
@@ -10,13 +15,15 @@ import {
   IconSettings,
   IconShield,
   IconUsers,
+  IconWallet,
 } from "./icons";
 import type { AuthUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import type { Permission } from "@/lib/auth/permissions";
 import clsx from "clsx";
 
 export function Sidebar({ user, mobile, collapsed }: { user: AuthUser; mobile?: boolean; collapsed?: boolean }) {
   const isCollapsed = !mobile && collapsed;
+  const can = (permission: Permission) => user.permissions.includes(permission);
 
   return (
     <aside
@@ -52,29 +59,49 @@ export function Sidebar({ user, mobile, collapsed }: { user: AuthUser; mobile?:
             </div>
           )}
           <div className="space-y-1">
-            {user.role === Role.SUPER_ADMIN ? (
+            {can("dashboard.view") || (user.role !== "COLLECTOR" && user.employeeId) ? (
               <NavLink href="/app" label={isCollapsed ? "" : "Dashboard"} icon={<IconDashboard />} />
             ) : null}
-            <NavLink href="/app/groups" label={isCollapsed ? "" : "Groups"} icon={<IconFolder />} />
-            {user.role === Role.ENCODER || user.role === Role.SUPER_ADMIN || user.role === "COLLECTOR" ? (
+            {can("group.view") ? (
+              <NavLink href="/app/groups" label={isCollapsed ? "" : "Groups"} icon={<IconFolder />} />
+            ) : null}
+            {can("member.view") ? (
               <NavLink href="/app/members" label={isCollapsed ? "" : "Members"} icon={<IconUsers />} />
             ) : null}
-            {user.role === Role.SUPER_ADMIN ? (
+            {can("meeting.view") ? (
+              <NavLink href="/app/meetings" label={isCollapsed ? "" : "Meetings"} icon={<IconCalendar />} />
+            ) : null}
+            {can("remittance.view") || can("remittance.submit") ? (
+              <NavLink href="/app/remittances" label={isCollapsed ? "" : "Remittances"} icon={<IconWallet />} />
+            ) : null}
+            {can("branch.manage") ? (
+              <NavLink href="/app/branches" label={isCollapsed ? "" : "Branches"} icon={<IconBuilding />} />
+            ) : null}
+            {can("employee.manage") ? (
               <NavLink href="/app/employees" label={isCollapsed ? "" : "Employees"} icon={<IconBriefcase />} />
             ) : null}
-            {user.role === Role.SUPER_ADMIN || user.role === Role.ENCODER ? (
+            {can("accounting.view") ? (
               <NavLink href="/app/accounting" label={isCollapsed ? "" : "Accounting"} icon={<IconMoney />} />
             ) : null}
-            {user.role === Role.SUPER_ADMIN || user.role === Role.ENCODER ? (
+            {can("bank.reconcile") ? (
+              <NavLink href="/app/bank-accounts" label={isCollapsed ? "" : "Bank Accounts"} icon={<IconBank />} />
+            ) : null}
+            {can("ledger.view") ? (
+              <NavLink href="/app/ledger" label={isCollapsed ? "" : "General Ledger"} icon={<IconBook />} />
+            ) : null}
+            {can("report.view") ? (
               <NavLink href="/app/reports" label={isCollapsed ? "" : "Reports"} icon={<IconFileText />} />
             ) : null}
-            {user.role === Role.SUPER_ADMIN ? (
+            {can("approval.view") ? (
+              <NavLink href="/app/approvals" label={isCollapsed ? "" : "Approvals"} icon={<IconCheckCircle />} />
+            ) : null}
+            {can("user.manage") ? (
               <NavLink href="/app/users" label={isCollapsed ? "" : "Users"} icon={<IconShield />} />
             ) : null}
-            {user.role === Role.SUPER_ADMIN ? (
+            {can("audit.view") || (user.role !== "COLLECTOR" && user.employeeId) ? (
               <NavLink href="/app/audit" label={isCollapsed ? "" : "Audit Trail"} icon={<IconSearch />} />
             ) : null}
-            {user.role !== Role.VIEWER ? (
+            {can("account.update") ? (
               <NavLink href="/app/account" label={isCollapsed ? "" : "Account"} icon={<IconSettings />} />
             ) : null}
           </div>
@@ -1,10 +1,30 @@
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { hasPermission, requireUser } from "@/lib/auth/session";
+import { countUnusedRecoveryCodes, isTwoFactorRequired } from "@/lib/auth/two-factor";
 import AccountClient from "./account-client";
+import TwoFactorClient from "./two-factor-client";
 
-export default async function AccountPage() {
-  const user = await requireUser();
-  requireRole(user, ["SUPER_ADMIN", "ENCODER", "COLLECTOR"] as Role[]);
+export default async function AccountPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ twoFactor?: string }>;
+}) {
+  const user = await requireUser({ allowTwoFactorSetup: true });
+  const sp = await searchParams;
 
-  return <AccountClient user={user} />;
+  const [required, recoveryCodesLeft] = await Promise.all([
+    isTwoFactorRequired(user.role),
+    user.twoFactorEnabled ? countUnusedRecoveryCodes(user.id) : Promise.resolve(0),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      {(user.twoFactorSetupRequired || sp.twoFactor === "required") && !user.twoFactorEnabled && (
+        <div className="rounded-lg border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
+          Your role requires two-factor authentication. Set it up below to continue using the system.
+        </div>
+      )}
+      {hasPermission(user, "account.update") && <AccountClient user={user} />}
+      <TwoFactorClient enabled={user.twoFactorEnabled} required={required} recoveryCodesLeft={recoveryCodesLeft} />
+    </div>
+  );
 }
@@ -0,0 +1,225 @@
+"use client";
+
+import { useState } from "react";
+import { useRouter } from "next/navigation";
+import { showAppToast } from "../_components/app-toast";
+
+interface TwoFactorClientProps {
+  enabled: boolean;
+  required: boolean;
+  recoveryCodesLeft: number;
+}
+
+type Enrollment = { qrSvg: string; secret: string };
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm tracking-widest text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+async function callTwoFactor(method: "POST" | "PUT" | "PATCH" | "DELETE", body?: { code: string }) {
+  const res = await fetch("/api/account/two-factor", {
+    method,
+    headers: { "Content-Type": "application/json" },
+    body: body ? JSON.stringify(body) : undefined,
+  });
+  const data = await res.json();
+  if (!res.ok) throw new Error(data.error || "Request failed");
+  return data;
+}
+
+export default function TwoFactorClient({ enabled, required, recoveryCodesLeft }: TwoFactorClientProps) {
+  const router = useRouter();
+  const [enrollment, setEnrollment] = useState<Enrollment | null>(null);
+  const [recoveryCodes, setRecoveryCodes] = useState<string[] | null>(null);
+  const [code, setCode] = useState("");
+  const [isSaving, setIsSaving] = useState(false);
+
+  const run = async (action: () => Promise<void>) => {
+    setIsSaving(true);
+    try {
+      await action();
+    } catch (err: any) {
+      showAppToast("error", err.message || "Request failed");
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleStart = () =>
+    run(async () => {
+      const data = await callTwoFactor("POST");
+      setEnrollment({ qrSvg: data.qrSvg, secret: data.secret });
+      setCode("");
+    });
+
+  const handleConfirm = (e: React.FormEvent) => {
+    e.preventDefault();
+    return run(async () => {
+      const data = await callTwoFactor("PUT", { code });
+      setEnrollment(null);
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      showAppToast("success", "Two-factor authentication is on.");
+      router.refresh();
+    });
+  };
+
+  const handleRegenerate = () =>
+    run(async () => {
+      const data = await callTwoFactor("PATCH", { code });
+      setRecoveryCodes(data.recoveryCodes);
+      setCode("");
+      showAppToast("success", "New recovery codes created. The old ones no longer work.");
+      router.refresh();
+    });
+
+  const handleDisable = () =>
+    run(async () => {
+      await callTwoFactor("DELETE", { code });
+      setCode("");
+      showAppToast("success", "Two-factor authentication is off.");
+      router.refresh();
+    });
+
+  return (
+    <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div>
+          <h2 className="text-base font-semibold text-slate-900">Two-factor authentication</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            Sign in with your password and a 6-digit code from an authenticator app such as Google Authenticator
+            or Microsoft Authenticator.
+          </p>
+        </div>
+        <span
+          className={`rounded-full border px-2 py-1 text-xs font-medium ${
+            enabled
+              ? "border-emerald-200 bg-emerald-50 text-emerald-700"
+              : "border-slate-200 bg-slate-50 text-slate-600"
+          }`}
+        >
+          {enabled ? "ON" : "OFF"}
+        </span>
+      </div>
+
+      {recoveryCodes && (
+        <div className="mt-6 rounded-lg border border-amber-200 bg-amber-50 p-4">
+          <p className="text-sm font-medium text-amber-800">
+            Save these recovery codes somewhere safe. Each one signs you in once if you lose your phone. They
+            will not be shown again.
+          </p>
+          <ul className="mt-3 grid grid-cols-2 gap-2 font-mono text-sm text-slate-900 sm:grid-cols-5">
+            {recoveryCodes.map((c) => (
+              <li key={c} className="rounded bg-white px-2 py-1 text-center">
+                {c}
+              </li>
+            ))}
+          </ul>
+          <button
+            type="button"
+            onClick={() => setRecoveryCodes(null)}
+            className="mt-3 rounded-lg border border-amber-300 bg-white px-3 py-1.5 text-xs font-medium text-amber-800 hover:bg-amber-100"
+          >
+            I saved them
+          </button>
+        </div>
+      )}
+
+      {!enabled && !enrollment && (
+        <button
+          type="button"
+          onClick={handleStart}
+          disabled={isSaving}
+          className="mt-6 rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isSaving ? "Starting..." : "Set up authenticator app"}
+        </button>
+      )}
+
+      {!enabled && enrollment && (
+        <form onSubmit={handleConfirm} className="mt-6 grid gap-6 md:grid-cols-[auto_1fr]">
+          <div
+            className="h-48 w-48 rounded-lg border border-slate-200 bg-white p-2"
+            dangerouslySetInnerHTML={{ __html: enrollment.qrSvg }}
+          />
+          <div className="space-y-4">
+            <div className="space-y-1">
+              <p className="text-sm text-slate-700">Scan the QR code with your app, or enter this key manually:</p>
+              <div className="break-all rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 font-mono text-sm text-slate-700">
+                {enrollment.secret}
+              </div>
+            </div>
+            <div className="space-y-1">
+              <label className="text-sm font-medium text-slate-700">Code from the app</label>
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                inputMode="numeric"
+                autoComplete="one-time-code"
+                placeholder="123456"
+                maxLength={6}
+                required
+                className={inputClass}
+              />
+            </div>
+            <div className="flex gap-2">
+              <button
+                type="submit"
+                disabled={isSaving}
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {isSaving ? "Verifying..." : "Turn on"}
+              </button>
+              <button
+                type="button"
+                onClick={() => setEnrollment(null)}
+                className="rounded-lg px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        </form>
+      )}
+
+      {enabled && (
+        <div className="mt-6 space-y-4">
+          <p className="text-sm text-slate-600">
+            {recoveryCodesLeft} unused recovery code{recoveryCodesLeft === 1 ? "" : "s"} left.
+            {required && " Your role requires two-factor authentication, so it cannot be turned off."}
+          </p>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="w-48 space-y-1">
+              <label className="text-sm font-medium text-slate-700">Current code</label>
+              <input
+                value={code}
+                onChange={(e) => setCode(e.target.value)}
+                autoComplete="one-time-code"
+                placeholder="123456"
+                maxLength={11}
+                className={inputClass}
+              />
+            </div>
+            <button
+              type="button"
+              onClick={handleRegenerate}
+              disabled={isSaving || !code}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              New recovery codes
+            </button>
+            {!required && (
+              <button
+                type="button"
+                onClick={handleDisable}
+                disabled={isSaving || !code}
+                className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Turn off
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+}
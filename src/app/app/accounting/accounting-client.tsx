@@ -1,16 +1,33 @@
 "use client";
 
+import Link from "next/link";
+import { useRouter } from "next/navigation";
 import { useCallback, useEffect, useMemo, useState } from "react";
 import { IconEye, IconFileText, IconX } from "../_components/icons";
-import { Role } from "@prisma/client";
 import {
   buildAccountingView,
-  DAILY_EXPENSE_FIELDS,
-  PAYMENT_MANUAL_FIELDS,
   type AccountingComputedTotals,
   type AccountingManualData,
 } from "@/lib/accounting";
+import type { Permission } from "@/lib/auth/permissions";
+import type { AccountingDayRevisionEntry, AccountingRevisionChange } from "@/lib/accounting-revisions";
+import {
+  ACCOUNTING_LINE_SECTION_FIELDS,
+  getVisibleLineItems,
+  type AccountingLineItemConfig,
+} from "@/lib/accounting-line-items";
+import { getVisibleBankAccounts, type AccountingBankAccount } from "@/lib/bank-accounts";
+import {
+  CASH_DENOMINATIONS,
+  getCashCountTotal,
+  getCashVariance,
+  sanitizeCashCounts,
+  type AccountingCashCount,
+  type CashCounts,
+} from "@/lib/cash-count";
+import { getMonthBounds, type SerializedPeriodClose } from "@/lib/period-close";
 import { showAppToast } from "../_components/app-toast";
+import { Modal } from "../_components/modal";
 
 function formatMoney(value: number) {
   return new Intl.NumberFormat("en-US", {
@@ -97,21 +114,285 @@ function SectionCard({
   );
 }
 
+function formatCash(value: number) {
+  return new Intl.NumberFormat("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  }).format(value || 0);
+}
+
+function CashCountCard({
+  counts,
+  explanation,
+  expectedBalance,
+  savedCashCount,
+  editable,
+  saving,
+  lockedReason,
+  onCountChange,
+  onExplanationChange,
+  onSave,
+}: {
+  counts: CashCounts;
+  explanation: string;
+  expectedBalance: number;
+  savedCashCount: AccountingCashCount | null;
+  editable: boolean;
+  saving: boolean;
+  lockedReason: string | null;
+  onCountChange: (key: string, next: number) => void;
+  onExplanationChange: (next: string) => void;
+  onSave: () => void;
+}) {
+  const countedTotal = getCashCountTotal(counts);
+  const variance = getCashVariance(countedTotal, expectedBalance);
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="flex flex-wrap items-start justify-between gap-3 border-b border-slate-200 px-5 py-4">
+        <div>
+          <h2 className="text-lg font-semibold text-slate-900">Cash Count</h2>
+          <p className="mt-1 text-sm text-slate-500">
+            Count the cash on hand by denomination and compare it with the closing balance.
+            {savedCashCount
+              ? ` Last counted ${formatDateTime(savedCashCount.updatedAt)}${
+                  savedCashCount.countedByName ? ` by ${savedCashCount.countedByName}` : ""
+                }.`
+              : ""}
+          </p>
+        </div>
+        <Link
+          href="/app/accounting/cash-variances"
+          className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+        >
+          Variance History
+        </Link>
+      </div>
+      <div className="grid gap-6 p-5 lg:grid-cols-[minmax(0,2fr)_minmax(0,1fr)]">
+        <div className="grid gap-x-6 gap-y-2 sm:grid-cols-2">
+          {(["BILL", "COIN"] as const).map((kind) => (
+            <div key={kind} className="space-y-2">
+              <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+                {kind === "BILL" ? "Bills" : "Coins"}
+              </div>
+              {CASH_DENOMINATIONS.filter((d) => d.kind === kind).map((d) => (
+                <div key={d.key} className="grid grid-cols-[64px_minmax(0,1fr)_110px] items-center gap-3">
+                  <div className="text-sm font-medium text-slate-700">₱{d.label}</div>
+                  <input
+                    type="number"
+                    inputMode="numeric"
+                    min={0}
+                    step="1"
+                    readOnly={!editable}
+                    value={counts[d.key] ? counts[d.key] : ""}
+                    onChange={(e) => onCountChange(d.key, Math.max(0, Math.round(Number(e.target.value) || 0)))}
+                    className={
+                      editable
+                        ? "w-full rounded-lg border border-amber-300 bg-amber-100 px-3 py-1.5 text-right text-sm font-medium text-slate-900 focus:border-amber-500 focus:outline-none"
+                        : "w-full rounded-lg border border-slate-200 bg-slate-50 px-3 py-1.5 text-right text-sm font-medium text-slate-700"
+                    }
+                  />
+                  <div className="text-right text-sm text-slate-600">
+                    {formatCash(d.value * (counts[d.key] ?? 0))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          ))}
+        </div>
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-600">Cash Counted</span>
+            <span className="font-semibold text-slate-900">{formatCash(countedTotal)}</span>
+          </div>
+          <div className="flex items-center justify-between text-sm">
+            <span className="text-slate-600">Closing Balance</span>
+            <span className="font-semibold text-slate-900">{formatCash(expectedBalance)}</span>
+          </div>
+          <div
+            className={`flex items-center justify-between rounded-lg px-3 py-2 text-sm font-semibold ${
+              variance < 0
+                ? "bg-red-50 text-red-700"
+                : variance > 0
+                  ? "bg-amber-50 text-amber-800"
+                  : "bg-emerald-50 text-emerald-700"
+            }`}
+          >
+            <span>{variance < 0 ? "Shortage" : variance > 0 ? "Overage" : "Balanced"}</span>
+            <span>{formatCash(variance)}</span>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-700">Explanation</label>
+            <textarea
+              value={explanation}
+              onChange={(e) => onExplanationChange(e.target.value)}
+              readOnly={!editable}
+              rows={3}
+              maxLength={500}
+              placeholder={variance !== 0 ? "Required when the count does not match" : ""}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+          <button
+            type="button"
+            onClick={onSave}
+            disabled={!editable || saving || (variance !== 0 && !explanation.trim())}
+            className="w-full rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
+          >
+            {saving ? "Saving..." : lockedReason ?? "Save Cash Count"}
+          </button>
+        </div>
+      </div>
+    </section>
+  );
+}
+
+const REVISION_SOURCE_LABELS: Record<AccountingDayRevisionEntry["source"], string> = {
+  SAVE: "Saved",
+  APPROVAL: "Saved on approval",
+  RESTORE: "Restored",
+  ENCODER_OVERRIDE: "Override permission",
+};
+
+function getRevisionFieldLabel(
+  field: string,
+  lineItems: AccountingLineItemConfig[],
+  bankAccounts: AccountingBankAccount[],
+) {
+  if (field === "openingBalanceOverride") return "Opening Balance (override)";
+  if (field === "loanReleaseOverride") return "Loan Release (override)";
+  if (field === "encoderOverrideAllowed") return "Encoder Override";
+
+  const [scope, key, side] = field.split(".");
+  if (scope === "bank") {
+    const name = bankAccounts.find((account) => account.id === key)?.name ?? "Bank";
+    return side === "deposit" ? `Bank depo-${name}` : `Bank wdl.-${name}`;
+  }
+  return lineItems.find((item) => ACCOUNTING_LINE_SECTION_FIELDS[item.section] === scope && item.key === key)?.label ?? key;
+}
+
+function formatRevisionValue(value: AccountingRevisionChange["from"]) {
+  if (value === null) return "Auto";
+  if (typeof value === "boolean") return value ? "On" : "Off";
+  return formatMoney(value);
+}
+
+function RevisionHistoryCard({
+  revisions,
+  lineItems,
+  bankAccounts,
+  canRestore,
+  restoring,
+  onRestore,
+}: {
+  revisions: AccountingDayRevisionEntry[];
+  lineItems: AccountingLineItemConfig[];
+  bankAccounts: AccountingBankAccount[];
+  canRestore: boolean;
+  restoring: boolean;
+  onRestore: (version: number) => void;
+}) {
+  const latestVersion = revisions[0]?.version ?? 0;
+
+  return (
+    <section className="rounded-2xl border border-slate-200 bg-white shadow-sm">
+      <div className="border-b border-slate-200 px-5 py-4">
+        <h2 className="text-lg font-semibold text-slate-900">Revision History</h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Every save of this day, newest first, with the inputs that changed.
+        </p>
+      </div>
+      {revisions.length === 0 ? (
+        <div className="px-5 py-4 text-sm text-slate-500">No revisions recorded for this day.</div>
+      ) : (
+        <ol className="divide-y divide-slate-200">
+          {revisions.map((revision) => (
+            <li key={revision.id} className="px-5 py-4">
+              <div className="flex flex-wrap items-start justify-between gap-3">
+                <div>
+                  <div className="flex flex-wrap items-center gap-2">
+                    <span className="text-sm font-semibold text-slate-900">v{revision.version}</span>
+                    <span className="rounded-full bg-slate-100 px-2 py-0.5 text-xs font-medium text-slate-700">
+                      {REVISION_SOURCE_LABELS[revision.source]}
+                      {revision.restoredFromVersion ? ` from v${revision.restoredFromVersion}` : ""}
+                    </span>
+                    {revision.encoderOverrideAllowed ? (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-xs font-medium text-amber-800">
+                        Encoder override on
+                      </span>
+                    ) : null}
+                  </div>
+                  <div className="mt-1 text-xs text-slate-500">
+                    {formatDateTime(revision.createdAt)}
+                    {revision.savedByName ? ` by ${revision.savedByName}` : ""}
+                    {revision.closingBalance !== null ? ` · Closing ${formatMoney(revision.closingBalance)}` : ""}
+                  </div>
+                </div>
+                {canRestore && revision.version !== latestVersion ? (
+                  <button
+                    type="button"
+                    onClick={() => onRestore(revision.version)}
+                    disabled={restoring}
+                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+                  >
+                    Restore
+                  </button>
+                ) : null}
+              </div>
+              {revision.changes.length > 0 ? (
+                <ul className="mt-2 space-y-1 text-sm">
+                  {revision.changes.map((change) => (
+                    <li key={change.field} className="flex flex-wrap gap-x-2 text-slate-600">
+                      <span className="font-medium text-slate-700">
+                        {getRevisionFieldLabel(change.field, lineItems, bankAccounts)}
+                      </span>
+                      <span className="text-red-600 line-through">{formatRevisionValue(change.from)}</span>
+                      <span>→</span>
+                      <span className="text-emerald-700">{formatRevisionValue(change.to)}</span>
+                    </li>
+                  ))}
+                </ul>
+              ) : (
+                <div className="mt-2 text-sm text-slate-500">
+                  {revision.version === 1 && revision.source === "SAVE" ? "First save of the day." : "No input changes."}
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+      )}
+    </section>
+  );
+}
+
 export function AccountingClient({
+  branchId,
+  branches,
   selectedDate,
-  userRole,
+  permissions,
   initialManualData,
   computedTotals,
   initialOpeningBalance,
   lastUpdatedAt,
+  initialPeriodClose,
+  initialLineItems,
+  initialBankAccounts,
+  initialCashCount,
 }: {
+  branchId: string;
+  branches: { id: string; name: string }[];
   selectedDate: string;
-  userRole: Role | "COLLECTOR";
+  permissions: Permission[];
   initialManualData: AccountingManualData;
   computedTotals: AccountingComputedTotals;
   initialOpeningBalance: number;
   lastUpdatedAt: string | null;
+  initialPeriodClose: SerializedPeriodClose | null;
+  initialLineItems: AccountingLineItemConfig[];
+  initialBankAccounts: AccountingBankAccount[];
+  initialCashCount: AccountingCashCount | null;
 }) {
+  const router = useRouter();
   const [currentDate, setCurrentDate] = useState(selectedDate);
   const [manualData, setManualData] = useState(initialManualData);
   const [currentComputedTotals, setCurrentComputedTotals] = useState(computedTotals);
@@ -124,6 +405,19 @@ export function AccountingClient({
   const [error, setError] = useState<string | null>(null);
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
   const [isOverrideMode, setIsOverrideMode] = useState(false);
+  const [periodClose, setPeriodClose] = useState(initialPeriodClose);
+  const [updatingPeriod, setUpdatingPeriod] = useState(false);
+  const [isReopenOpen, setIsReopenOpen] = useState(false);
+  const [reopenReason, setReopenReason] = useState("");
+  const [lineItems, setLineItems] = useState(initialLineItems);
+  const [bankAccounts, setBankAccounts] = useState(initialBankAccounts);
+  const [cashCount, setCashCount] = useState(initialCashCount);
+  const [cashCounts, setCashCounts] = useState<CashCounts>(sanitizeCashCounts(initialCashCount?.counts));
+  const [cashExplanation, setCashExplanation] = useState(initialCashCount?.explanation ?? "");
+  const [savingCashCount, setSavingCashCount] = useState(false);
+  const [revisions, setRevisions] = useState<AccountingDayRevisionEntry[]>([]);
+  const [restoreVersion, setRestoreVersion] = useState<number | null>(null);
+  const [restoringRevision, setRestoringRevision] = useState(false);
 
   useEffect(() => {
     setCurrentDate(selectedDate);
@@ -131,23 +425,51 @@ export function AccountingClient({
     setCurrentComputedTotals(computedTotals);
     setOpeningBalance(initialOpeningBalance);
     setCurrentLastUpdatedAt(lastUpdatedAt);
+    setPeriodClose(initialPeriodClose);
+    setLineItems(initialLineItems);
+    setBankAccounts(initialBankAccounts);
+    setCashCount(initialCashCount);
+    setCashCounts(sanitizeCashCounts(initialCashCount?.counts));
+    setCashExplanation(initialCashCount?.explanation ?? "");
     setIsOverrideMode(false);
-  }, [selectedDate, initialManualData, computedTotals, initialOpeningBalance, lastUpdatedAt]);
+  }, [
+    selectedDate,
+    initialManualData,
+    computedTotals,
+    initialOpeningBalance,
+    lastUpdatedAt,
+    initialPeriodClose,
+    initialLineItems,
+    initialBankAccounts,
+    initialCashCount,
+  ]);
 
   const isSavedDay = Boolean(currentLastUpdatedAt);
-  const isSuperAdmin = userRole === Role.SUPER_ADMIN;
-  const isEncoder = userRole === Role.ENCODER;
-  const canOverride = isSavedDay && isSuperAdmin;
-  const canEncoderOverride = isSavedDay && isEncoder && manualData.encoderOverrideAllowed;
+  const isClosed = Boolean(periodClose);
+  // Overriders rewrite saved days directly; other savers need a grant or an approval
+  const canOverrideDays = permissions.includes("accounting.override");
+  const needsOverrideGrant = !canOverrideDays && permissions.includes("accounting.save");
+  const canClosePeriods = permissions.includes("accounting.close");
+  const canOverride = isSavedDay && canOverrideDays && !isClosed;
+  const canEncoderOverride = isSavedDay && needsOverrideGrant && manualData.encoderOverrideAllowed && !isClosed;
+  // Without a grant, encoders can still submit an overwrite for approval
+  const canRequestOverride = isSavedDay && needsOverrideGrant && !manualData.encoderOverrideAllowed && !isClosed;
   const canEditManualInputs =
-    !isSavedDay || (isSuperAdmin && isOverrideMode) || canEncoderOverride;
+    !isClosed &&
+    (!isSavedDay ||
+      ((canOverrideDays || canRequestOverride) && isOverrideMode) ||
+      canEncoderOverride);
   const canEditOpeningBalance =
-    (isSuperAdmin && canEditManualInputs) || canEncoderOverride;
+    (canOverrideDays && canEditManualInputs) ||
+    canEncoderOverride ||
+    (canRequestOverride && isOverrideMode);
   const canEditLoanRelease = canEditManualInputs;
+  const canCountCash = isSavedDay && !isClosed && permissions.includes("accounting.save");
+  const canRestoreRevision = isSavedDay && canOverrideDays && !isClosed;
 
   const view = useMemo(
-    () => buildAccountingView(manualData, currentComputedTotals, openingBalance),
-    [manualData, currentComputedTotals, openingBalance],
+    () => buildAccountingView(manualData, currentComputedTotals, openingBalance, lineItems),
+    [manualData, currentComputedTotals, openingBalance, lineItems],
   );
 
   const updateValue = (
@@ -164,11 +486,30 @@ export function AccountingClient({
     }));
   };
 
+  const updateBankEntry = (bankAccountId: string, field: "deposit" | "withdrawal", value: number) => {
+    setManualData((current) => {
+      const entry = current.bankTransactions.find((e) => e.bankAccountId === bankAccountId) ?? {
+        bankAccountId,
+        deposit: 0,
+        withdrawal: 0,
+      };
+      return {
+        ...current,
+        bankTransactions: [
+          ...current.bankTransactions.filter((e) => e.bankAccountId !== bankAccountId),
+          { ...entry, [field]: value },
+        ],
+      };
+    });
+  };
+
   const refreshEncoderOverrideState = useCallback(async () => {
-    if (!isEncoder || !isSavedDay) return;
+    if (!needsOverrideGrant || !isSavedDay) return;
 
     try {
-      const response = await fetch(`/api/accounting?date=${encodeURIComponent(currentDate)}`);
+      const response = await fetch(
+        `/api/accounting?date=${encodeURIComponent(currentDate)}&branch=${encodeURIComponent(branchId)}`,
+      );
       const result = await response.json();
       if (!response.ok) return;
 
@@ -185,10 +526,10 @@ export function AccountingClient({
     } catch {
       // Ignore background refresh errors and keep the current UI state.
     }
-  }, [currentDate, isEncoder, isSavedDay]);
+  }, [branchId, currentDate, needsOverrideGrant, isSavedDay]);
 
   useEffect(() => {
-    if (!isEncoder || !isSavedDay) return;
+    if (!needsOverrideGrant || !isSavedDay) return;
 
     const handleFocus = () => {
       void refreshEncoderOverrideState();
@@ -206,7 +547,32 @@ export function AccountingClient({
       window.removeEventListener("focus", handleFocus);
       document.removeEventListener("visibilitychange", handleFocus);
     };
-  }, [isEncoder, isSavedDay, refreshEncoderOverrideState]);
+  }, [needsOverrideGrant, isSavedDay, refreshEncoderOverrideState]);
+
+  useEffect(() => {
+    if (!currentLastUpdatedAt) {
+      setRevisions([]);
+      return;
+    }
+
+    let cancelled = false;
+    const loadRevisions = async () => {
+      try {
+        const response = await fetch(
+          `/api/accounting/revisions?date=${encodeURIComponent(currentDate)}&branch=${encodeURIComponent(branchId)}`,
+        );
+        const result = await response.json();
+        if (!cancelled && response.ok) setRevisions(result.items ?? []);
+      } catch {
+        // The timeline is informational; keep whatever was loaded before.
+      }
+    };
+    void loadRevisions();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [branchId, currentDate, currentLastUpdatedAt]);
 
   const handleDateChange = async (nextDate: string) => {
     if (!nextDate) return;
@@ -215,7 +581,9 @@ export function AccountingClient({
     setMessage(null);
 
     try {
-      const response = await fetch(`/api/accounting?date=${encodeURIComponent(nextDate)}`);
+      const response = await fetch(
+        `/api/accounting?date=${encodeURIComponent(nextDate)}&branch=${encodeURIComponent(branchId)}`,
+      );
       const result = await response.json();
       if (!response.ok) {
         throw new Error(result.error || "Failed to load accounting data");
@@ -225,10 +593,19 @@ export function AccountingClient({
         manualData: AccountingManualData;
         computedTotals: AccountingComputedTotals;
         view: { openingBalance: number };
+        lineItems: AccountingLineItemConfig[];
+        bankAccounts: AccountingBankAccount[];
+        cashCount: AccountingCashCount | null;
         lastUpdatedAt: string | null;
       };
 
       setCurrentDate(nextDate);
+      setLineItems(reportData.lineItems);
+      setBankAccounts(reportData.bankAccounts);
+      setCashCount(reportData.cashCount);
+      setCashCounts(sanitizeCashCounts(reportData.cashCount?.counts));
+      setCashExplanation(reportData.cashCount?.explanation ?? "");
+      setPeriodClose(result.periodClose ?? null);
       setManualData(reportData.manualData);
       setCurrentComputedTotals(reportData.computedTotals);
       setOpeningBalance(reportData.view.openingBalance);
@@ -260,12 +637,14 @@ export function AccountingClient({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          branchId,
           accountingDate: currentDate,
           openingBalanceOverride: canEditOpeningBalance ? openingBalance : null,
           loanReleaseOverride: canEditLoanRelease ? currentComputedTotals.loanRelease : null,
           receipts: manualData.receipts,
           payments: manualData.payments,
           dailyExpenses: manualData.dailyExpenses,
+          bankTransactions: manualData.bankTransactions,
         }),
       });
 
@@ -274,6 +653,13 @@ export function AccountingClient({
         throw new Error(result.error || "Failed to save accounting data");
       }
 
+      if (result.pendingApproval) {
+        setMessage(`Override for ${currentDate} submitted for approval.`);
+        setIsOverrideMode(false);
+        showAppToast("info", `Override for ${currentDate} submitted for approval.`);
+        return;
+      }
+
       setCurrentLastUpdatedAt(result.data?.lastUpdatedAt ?? new Date().toISOString());
       setMessage(`Saved accounting data for ${currentDate}.`);
       setIsOverrideMode(false);
@@ -292,6 +678,41 @@ export function AccountingClient({
     }
   };
 
+  const handleSaveCashCount = async () => {
+    setSavingCashCount(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/accounting/cash-count", {
+        method: "PUT",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          branchId,
+          accountingDate: currentDate,
+          counts: cashCounts,
+          explanation: cashExplanation,
+        }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to save cash count");
+      }
+
+      setCashCount(result.cashCount);
+      setMessage(`Saved cash count for ${currentDate}.`);
+      showAppToast("success", `Saved cash count for ${currentDate}.`);
+    } catch (err: any) {
+      setError(err.message || "Failed to save cash count");
+      showAppToast("error", err.message || "Failed to save cash count");
+    } finally {
+      setSavingCashCount(false);
+    }
+  };
+
   const handleEncoderOverridePermission = async (nextAllowed: boolean) => {
     setUpdatingEncoderOverride(true);
     setError(null);
@@ -304,6 +725,7 @@ export function AccountingClient({
           "Content-Type": "application/json",
         },
         body: JSON.stringify({
+          branchId,
           accountingDate: currentDate,
           encoderOverrideAllowed: nextAllowed,
         }),
@@ -338,7 +760,107 @@ export function AccountingClient({
     }
   };
 
-  const basePdfUrl = `/api/accounting/export?date=${encodeURIComponent(currentDate)}`;
+  const handleRestoreRevision = async () => {
+    if (restoreVersion === null) return;
+    setRestoringRevision(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/accounting/revisions", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ branchId, accountingDate: currentDate, version: restoreVersion }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to restore revision");
+      }
+
+      const restoredVersion = restoreVersion;
+      setRestoreVersion(null);
+      await handleDateChange(currentDate);
+      setMessage(`Restored v${restoredVersion} of ${currentDate}.`);
+      showAppToast("success", `Restored v${restoredVersion} of ${currentDate}.`);
+    } catch (err: any) {
+      setError(err.message || "Failed to restore revision");
+      showAppToast("error", err.message || "Failed to restore revision");
+    } finally {
+      setRestoringRevision(false);
+    }
+  };
+
+  const handleClosePeriod = async (scope: "DAY" | "MONTH") => {
+    const period = scope === "DAY" ? { from: currentDate, to: currentDate } : getMonthBounds(currentDate);
+    setUpdatingPeriod(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch("/api/accounting/close", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(period),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to close accounting period");
+      }
+
+      const label = scope === "DAY" ? currentDate : `${period.from} to ${period.to}`;
+      setPeriodClose(result.periodClose);
+      setIsOverrideMode(false);
+      setMessage(`Closed ${label}.`);
+      showAppToast("success", `Closed ${label}.`);
+    } catch (err: any) {
+      setError(err.message || "Failed to close accounting period");
+      showAppToast("error", err.message || "Failed to close accounting period");
+    } finally {
+      setUpdatingPeriod(false);
+    }
+  };
+
+  const handleReopenPeriod = async () => {
+    if (!periodClose) return;
+    setUpdatingPeriod(true);
+    setError(null);
+    setMessage(null);
+
+    try {
+      const response = await fetch(`/api/accounting/close/${periodClose.id}`, {
+        method: "DELETE",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ reason: reopenReason }),
+      });
+
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result.error || "Failed to reopen accounting period");
+      }
+
+      const label = `${periodClose.periodStart} to ${periodClose.periodEnd}`;
+      setPeriodClose(null);
+      setIsReopenOpen(false);
+      setReopenReason("");
+      setMessage(`Reopened ${label}.`);
+      showAppToast("success", `Reopened ${label}.`);
+    } catch (err: any) {
+      setError(err.message || "Failed to reopen accounting period");
+      showAppToast("error", err.message || "Failed to reopen accounting period");
+    } finally {
+      setUpdatingPeriod(false);
+    }
+  };
+
+  const basePdfUrl = `/api/accounting/export?date=${encodeURIComponent(currentDate)}&branch=${encodeURIComponent(branchId)}`;
 
   const handlePreview = () => {
     setPreviewUrl(`${basePdfUrl}&preview=true`);
@@ -348,6 +870,27 @@ export function AccountingClient({
     setPreviewUrl(null);
   };
 
+  const toManualRows = (section: AccountingLineItemConfig["section"]) => {
+    const field = ACCOUNTING_LINE_SECTION_FIELDS[section];
+    return getVisibleLineItems(lineItems, manualData, section).map((item) => ({
+      key: item.key,
+      label: item.archived ? `${item.label} (archived)` : item.label,
+      value: manualData[field][item.key] ?? 0,
+      editable: canEditManualInputs,
+      onChange: (next: number) => updateValue(field, item.key, next),
+    }));
+  };
+
+  const visibleBankAccounts = getVisibleBankAccounts(bankAccounts, manualData.bankTransactions);
+  const toBankRows = (field: "deposit" | "withdrawal", prefix: string) =>
+    visibleBankAccounts.map((account) => ({
+      key: `${field}-${account.id}`,
+      label: `${prefix}-${account.name}${account.archived ? " (archived)" : ""}`,
+      value: manualData.bankTransactions.find((e) => e.bankAccountId === account.id)?.[field] ?? 0,
+      editable: canEditManualInputs,
+      onChange: (next: number) => updateBankEntry(account.id, field, next),
+    }));
+
   const receiptsRows = [
     {
       key: "openingBalance",
@@ -361,35 +904,9 @@ export function AccountingClient({
     { key: "processingFee", label: "PF", value: currentComputedTotals.processingFee },
     { key: "passbook", label: "Passbook", value: currentComputedTotals.passbook },
     { key: "membershipFee", label: "Mem Fee", value: currentComputedTotals.membershipFee },
-    {
-      key: "cashAdvance",
-      label: "CASH ADVANCE",
-      value: manualData.receipts.cashAdvance,
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("receipts", "cashAdvance", next),
-    },
     { key: "loanInsurance", label: "Loan Insurance", value: currentComputedTotals.loanInsurance },
-    {
-      key: "ftIn",
-      label: "FT(IN)",
-      value: manualData.receipts.ftIn,
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("receipts", "ftIn", next),
-    },
-    {
-      key: "bankWithdrawal1",
-      label: "Bank wdl.-DFOB1",
-      value: manualData.receipts.bankWithdrawal1,
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("receipts", "bankWithdrawal1", next),
-    },
-    {
-      key: "bankWithdrawal2",
-      label: "Bank wdl.-DFOB2",
-      value: manualData.receipts.bankWithdrawal2,
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("receipts", "bankWithdrawal2", next),
-    },
+    ...toManualRows("RECEIPTS"),
+    ...toBankRows("withdrawal", "Bank wdl."),
   ];
 
   const paymentsRows = [
@@ -409,45 +926,13 @@ export function AccountingClient({
       label: "Mgmt. Exp.",
       value: view.managementExpense,
     },
-    {
-      key: "otherPay",
-      label: "Other Pay",
-      value: manualData.payments.otherPay,
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("payments", "otherPay", next),
-    },
-    {
-      key: "ftOut",
-      label: "FT(OUT)",
-      value: manualData.payments.ftOut,
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("payments", "ftOut", next),
-    },
-    ...PAYMENT_MANUAL_FIELDS.filter((field) => field.key.startsWith("bankDeposit")).map((field) => ({
-      key: field.key,
-      label: field.label,
-      value: manualData.payments[field.key],
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("payments", field.key, next),
-    })),
-    ...PAYMENT_MANUAL_FIELDS.filter((field) => field.key.startsWith("bankTransaction")).map((field) => ({
-      key: field.key,
-      label: field.label,
-      value: manualData.payments[field.key],
-      editable: canEditManualInputs,
-      onChange: (next: number) => updateValue("payments", field.key, next),
-    })),
+    ...toManualRows("PAYMENTS"),
+    ...toBankRows("deposit", "Bank depo"),
     { key: "bankDepositTotal", label: "Bank Deposit Total", value: view.bankDepositTotal },
     { key: "closingBalance", label: "Closing Balance", value: view.closingBalance },
   ];
 
-  const dailyExpenseRows = DAILY_EXPENSE_FIELDS.map((field) => ({
-    key: field.key,
-    label: field.label,
-    value: manualData.dailyExpenses[field.key],
-    editable: canEditManualInputs,
-    onChange: (next: number) => updateValue("dailyExpenses", field.key, next),
-  }));
+  const dailyExpenseRows = toManualRows("DAILY_EXPENSES");
 
   return (
     <div className="space-y-6">
@@ -462,6 +947,27 @@ export function AccountingClient({
             </p>
           </div>
           <div className="flex flex-col gap-3 sm:flex-row sm:items-end">
+            {branches.length > 1 ? (
+              <div>
+                <label className="text-sm font-medium text-slate-700">Branch</label>
+                <select
+                  value={branchId}
+                  onChange={(e) =>
+                    router.push(
+                      `/app/accounting?branch=${encodeURIComponent(e.target.value)}&date=${encodeURIComponent(currentDate)}`,
+                    )
+                  }
+                  disabled={loadingDate || saving || updatingEncoderOverride}
+                  className="mt-1 block rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                >
+                  {branches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
             <div>
               <label className="text-sm font-medium text-slate-700">Accounting Date</label>
               <input
@@ -488,7 +994,21 @@ export function AccountingClient({
               <IconFileText className="h-4 w-4" />
               Download PDF
             </a>
-            {canOverride ? (
+            <Link
+              href="/app/accounting/rollup"
+              className="inline-flex items-center justify-center rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Period Summary
+            </Link>
+            {permissions.includes("accounting.configure") ? (
+              <Link
+                href="/app/accounting/line-items"
+                className="inline-flex items-center justify-center rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+              >
+                Line Items
+              </Link>
+            ) : null}
+            {canOverride || canRequestOverride ? (
               <button
                 type="button"
                 onClick={() => {
@@ -498,10 +1018,44 @@ export function AccountingClient({
                 }}
                 className="rounded-lg border border-amber-300 bg-amber-50 px-4 py-2 text-sm font-medium text-amber-800 hover:bg-amber-100"
               >
-                {isOverrideMode ? "Cancel Override" : "Enable Override"}
+                {isOverrideMode
+                  ? "Cancel Override"
+                  : canRequestOverride
+                    ? "Request Override"
+                    : "Enable Override"}
+              </button>
+            ) : null}
+            {canClosePeriods && isClosed ? (
+              <button
+                type="button"
+                onClick={() => setIsReopenOpen(true)}
+                disabled={updatingPeriod || loadingDate || saving}
+                className="rounded-lg border border-red-200 bg-red-50 px-4 py-2 text-sm font-medium text-red-700 hover:bg-red-100 disabled:cursor-not-allowed disabled:opacity-60"
+              >
+                Reopen Period
               </button>
             ) : null}
-            {isSuperAdmin && isSavedDay ? (
+            {canClosePeriods && !isClosed ? (
+              <>
+                <button
+                  type="button"
+                  onClick={() => void handleClosePeriod("DAY")}
+                  disabled={updatingPeriod || loadingDate || saving || !isSavedDay}
+                  className="rounded-lg border border-slate-300 bg-slate-50 px-4 py-2 text-sm font-medium text-slate-800 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Close Day
+                </button>
+                <button
+                  type="button"
+                  onClick={() => void handleClosePeriod("MONTH")}
+                  disabled={updatingPeriod || loadingDate || saving}
+                  className="rounded-lg border border-slate-300 bg-slate-50 px-4 py-2 text-sm font-medium text-slate-800 hover:bg-slate-100 disabled:cursor-not-allowed disabled:opacity-60"
+                >
+                  Close Month
+                </button>
+              </>
+            ) : null}
+            {canOverrideDays && isSavedDay && !isClosed ? (
               <button
                 type="button"
                 onClick={() =>
@@ -523,13 +1077,29 @@ export function AccountingClient({
               disabled={saving || loadingDate || updatingEncoderOverride || !canEditManualInputs}
               className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-60"
             >
-              {saving ? "Saving..." : loadingDate ? "Loading..." : canEditManualInputs ? "Save Daily Inputs" : "Inputs Locked"}
+              {saving
+                ? "Saving..."
+                : loadingDate
+                  ? "Loading..."
+                  : isClosed
+                    ? "Period Closed"
+                    : !canEditManualInputs
+                      ? "Inputs Locked"
+                      : canRequestOverride
+                        ? "Submit for Approval"
+                        : "Save Daily Inputs"}
             </button>
           </div>
         </div>
-        {isSavedDay ? (
+        {periodClose ? (
+          <div className="mt-4 rounded-xl border border-red-200 bg-red-50 px-4 py-3 text-sm text-red-800">
+            {`This date is in a closed period (${periodClose.periodStart} to ${periodClose.periodEnd})`}
+            {periodClose.closedByName ? `, closed by ${periodClose.closedByName}` : ""}
+            {". Nothing dated inside it can be saved, reverted or deleted until a super admin reopens it."}
+          </div>
+        ) : isSavedDay ? (
           <div className="mt-4 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-800">
-            {isSuperAdmin
+            {canOverrideDays
               ? isOverrideMode
                 ? "Override mode is enabled. You can now adjust the saved manual inputs."
                 : manualData.encoderOverrideAllowed
@@ -537,7 +1107,9 @@ export function AccountingClient({
                   : "This accounting day is already saved. Manual inputs are locked until a super admin enables override."
               : canEncoderOverride
                 ? "This accounting day is already saved, but encoder override is allowed for this date."
-                : "This accounting day is already saved. Manual inputs are locked and only a super admin can override them."}
+                : isOverrideMode
+                  ? "Your changes to this saved day will be submitted for approval and applied once a manager approves them."
+                  : "This accounting day is already saved. Manual inputs are locked; use Request Override to submit changes for approval."}
           </div>
         ) : null}
         <div className="mt-4 grid gap-3 md:grid-cols-4">
@@ -602,6 +1174,102 @@ export function AccountingClient({
         />
       </div>
 
+      <CashCountCard
+        counts={cashCounts}
+        explanation={cashExplanation}
+        expectedBalance={view.closingBalance}
+        savedCashCount={cashCount}
+        editable={canCountCash}
+        saving={savingCashCount}
+        lockedReason={isClosed ? "Period Closed" : !isSavedDay ? "Save the Day First" : null}
+        onCountChange={(key, next) => setCashCounts((current) => ({ ...current, [key]: next }))}
+        onExplanationChange={setCashExplanation}
+        onSave={() => void handleSaveCashCount()}
+      />
+
+      {isSavedDay ? (
+        <RevisionHistoryCard
+          revisions={revisions}
+          lineItems={lineItems}
+          bankAccounts={bankAccounts}
+          canRestore={canRestoreRevision}
+          restoring={restoringRevision}
+          onRestore={setRestoreVersion}
+        />
+      ) : null}
+
+      <Modal
+        open={restoreVersion !== null}
+        title="Restore revision"
+        description={`The inputs of ${currentDate} will be replaced with v${restoreVersion ?? ""}. The restore is saved as a new revision.`}
+        onClose={() => {
+          if (!restoringRevision) setRestoreVersion(null);
+        }}
+        footer={
+          <>
+            <button
+              type="button"
+              onClick={() => setRestoreVersion(null)}
+              disabled={restoringRevision}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleRestoreRevision()}
+              disabled={restoringRevision}
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {restoringRevision ? "Restoring..." : "Restore"}
+            </button>
+          </>
+        }
+      />
+
+      <Modal
+        open={isReopenOpen}
+        title="Reopen accounting period"
+        description={
+          periodClose
+            ? `Reopening ${periodClose.periodStart} to ${periodClose.periodEnd} lets entries dated inside it change again.`
+            : undefined
+        }
+        onClose={() => {
+          if (!updatingPeriod) setIsReopenOpen(false);
+        }}
+        footer={
+          <>
+            <button
+              type="button"
+              onClick={() => setIsReopenOpen(false)}
+              disabled={updatingPeriod}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              Cancel
+            </button>
+            <button
+              type="button"
+              onClick={() => void handleReopenPeriod()}
+              disabled={updatingPeriod || !reopenReason.trim()}
+              className="rounded-lg bg-red-600 px-4 py-2 text-sm font-medium text-white hover:bg-red-700 disabled:cursor-not-allowed disabled:opacity-50"
+            >
+              {updatingPeriod ? "Reopening..." : "Reopen"}
+            </button>
+          </>
+        }
+      >
+        <label className="text-sm font-medium text-slate-700">Reason</label>
+        <textarea
+          value={reopenReason}
+          onChange={(e) => setReopenReason(e.target.value)}
+          rows={3}
+          maxLength={500}
+          disabled={updatingPeriod}
+          className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+        />
+      </Modal>
+
       {previewUrl && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4 backdrop-blur-sm">
           <div className="flex h-full max-h-[90vh] w-full max-w-6xl flex-col overflow-hidden rounded-2xl bg-white shadow-2xl">
@@ -0,0 +1,140 @@
+import Link from "next/link";
+import { getScopedBranchIds, resolveBranchFilter } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
+import { getReportPreset1Month } from "@/lib/date";
+import { listCashCountVariances } from "@/lib/cash-count";
+import { BranchSelect } from "../../_components/branch-select";
+import { DateRangeFilter } from "../../reports/date-filter";
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export default async function CashVariancesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; branch?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.view");
+
+  const sp = await searchParams;
+  const defaultPreset = getReportPreset1Month();
+  const from =
+    (sp.from?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.from) ? sp.from : null) ??
+    defaultPreset.from;
+  const to =
+    (sp.to?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.to) ? sp.to : null) ??
+    defaultPreset.to;
+
+  const [branches, branchIds] = await Promise.all([
+    getScopedBranchIds(user).then((scoped) => listBranches({ branchIds: scoped })),
+    resolveBranchFilter(user, sp.branch),
+  ]);
+  const report = await listCashCountVariances(from, to, branchIds);
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Cash Variances</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              End-of-day cash counts against the closing balance. Shortages are negative, overages positive.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <BranchSelect branches={branches} value={sp.branch ?? null} allowAll={branches.length > 1} />
+            <Link
+              href="/app/accounting"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Back to Accounting
+            </Link>
+          </div>
+        </div>
+
+        <DateRangeFilter
+          from={from}
+          to={to}
+          basePath="/app/accounting/cash-variances"
+          branch={sp.branch}
+          description="Shows the cash counts recorded for accounting days in the range."
+        />
+
+        <div className="mt-4 grid gap-3 md:grid-cols-4">
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Days Counted</div>
+            <div className="mt-2 text-xl font-semibold text-slate-900">
+              {report.counted}
+              <span className="ml-2 text-sm font-normal text-slate-500">{report.withVariance} with variance</span>
+            </div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Shortages</div>
+            <div className="mt-2 text-xl font-semibold text-red-600">{formatAmount(report.shortage)}</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Overages</div>
+            <div className="mt-2 text-xl font-semibold text-amber-700">{formatAmount(report.overage)}</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Net Variance</div>
+            <div className="mt-2 text-xl font-semibold text-slate-900">{formatAmount(report.net)}</div>
+          </div>
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Accounting Day</th>
+                <th className="py-2 pr-4">Branch</th>
+                <th className="py-2 pr-4 text-right">Cash Counted</th>
+                <th className="py-2 pr-4 text-right">Closing Balance</th>
+                <th className="py-2 pr-4 text-right">Variance</th>
+                <th className="py-2 pr-4">Explanation</th>
+                <th className="py-2 pr-2">Counted By</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {report.rows.map((row) => (
+                <tr key={row.id} className="hover:bg-slate-50">
+                  <td className="py-2 pr-4 pl-2 text-slate-600 whitespace-nowrap">
+                    <Link
+                      href={`/app/accounting?date=${row.accountingDate}&branch=${row.branchId}`}
+                      className="hover:underline hover:text-blue-600"
+                    >
+                      {row.accountingDate}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{row.branchName}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(row.countedTotal)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(row.expectedBalance)}</td>
+                  <td
+                    className={`py-2 pr-4 text-right font-medium ${
+                      row.variance < 0 ? "text-red-600" : row.variance > 0 ? "text-amber-700" : "text-emerald-600"
+                    }`}
+                  >
+                    {formatAmount(row.variance)}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{row.explanation ?? "-"}</td>
+                  <td className="py-2 pr-2 text-slate-600">{row.countedByName ?? "-"}</td>
+                </tr>
+              ))}
+              {report.rows.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={7}>
+                    No cash counts in this range.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,288 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { AccountingLineCategory, AccountingLineSection, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import {
+  ACCOUNTING_LINE_CATEGORY_LABELS,
+  ACCOUNTING_LINE_SECTION_LABELS,
+  CreateAccountingLineItemSchema,
+  LINE_ITEM_LEDGER_ACCOUNTS,
+  UpdateAccountingLineItemSchema,
+  createAccountingLineItem,
+  listAccountingLineItems,
+  moveAccountingLineItem,
+  setAccountingLineItemArchived,
+  updateAccountingLineItem,
+} from "@/lib/accounting-line-items";
+
+const PAGE_PATH = "/app/accounting/line-items";
+
+async function runLineItemAction(
+  action: string,
+  run: (tx: Prisma.TransactionClient) => Promise<{ id: string }>,
+  metadata: Record<string, string | boolean | null>,
+) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.configure");
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const item = await run(tx);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action,
+        entityType: "AccountingLineItem",
+        entityId: item.id,
+        metadata,
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Accounting line item error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`${PAGE_PATH}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath(PAGE_PATH);
+  revalidatePath("/app/accounting");
+  redirect(`${PAGE_PATH}?status=saved`);
+}
+
+function readLineItemForm(formData: FormData) {
+  return {
+    section: String(formData.get("section") || ""),
+    label: String(formData.get("label") || ""),
+    category: String(formData.get("category") || ""),
+    ledgerAccountCode: String(formData.get("ledgerAccountCode") || ""),
+  };
+}
+
+async function createLineItemAction(formData: FormData) {
+  "use server";
+
+  const parsed = CreateAccountingLineItemSchema.safeParse(readLineItemForm(formData));
+  if (!parsed.success) redirect(`${PAGE_PATH}?error=invalid`);
+
+  await runLineItemAction("ACCOUNTING_LINE_ITEM_CREATE", (tx) => createAccountingLineItem(tx, parsed.data), {
+    section: parsed.data.section,
+    label: parsed.data.label,
+    category: parsed.data.category,
+    ledgerAccountCode: parsed.data.ledgerAccountCode,
+  });
+}
+
+async function updateLineItemAction(id: string, formData: FormData) {
+  "use server";
+
+  const parsed = UpdateAccountingLineItemSchema.safeParse(readLineItemForm(formData));
+  if (!parsed.success) redirect(`${PAGE_PATH}?error=invalid`);
+
+  await runLineItemAction("ACCOUNTING_LINE_ITEM_UPDATE", (tx) => updateAccountingLineItem(tx, id, parsed.data), {
+    label: parsed.data.label,
+    category: parsed.data.category,
+    ledgerAccountCode: parsed.data.ledgerAccountCode,
+  });
+}
+
+async function archiveLineItemAction(id: string, archived: boolean) {
+  "use server";
+
+  await runLineItemAction(
+    archived ? "ACCOUNTING_LINE_ITEM_ARCHIVE" : "ACCOUNTING_LINE_ITEM_RESTORE",
+    (tx) => setAccountingLineItemArchived(tx, id, archived),
+    { archived },
+  );
+}
+
+async function moveLineItemAction(id: string, direction: "up" | "down") {
+  "use server";
+
+  await runLineItemAction("ACCOUNTING_LINE_ITEM_REORDER", (tx) => moveAccountingLineItem(tx, id, direction), {
+    direction,
+  });
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Enter a label and pick what the line counts toward.",
+  LINE_ITEM_NOT_FOUND: "Line item not found.",
+  LINE_ITEM_ALREADY_ARCHIVED: "This line item is already archived.",
+  LINE_ITEM_NOT_ARCHIVED: "This line item is not archived.",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+function CategorySelect({ defaultValue }: { defaultValue?: AccountingLineCategory }) {
+  return (
+    <select name="category" defaultValue={defaultValue} required className={inputClass}>
+      {Object.values(AccountingLineCategory).map((category) => (
+        <option key={category} value={category}>
+          {ACCOUNTING_LINE_CATEGORY_LABELS[category]}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function LedgerAccountSelect({ defaultValue }: { defaultValue?: string | null }) {
+  return (
+    <select name="ledgerAccountCode" defaultValue={defaultValue ?? ""} className={inputClass}>
+      <option value="">Not posted</option>
+      {LINE_ITEM_LEDGER_ACCOUNTS.map((account) => (
+        <option key={account.code} value={account.code}>
+          {account.code} {account.name}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+export default async function AccountingLineItemsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.configure");
+  const sp = await searchParams;
+
+  const items = await listAccountingLineItems();
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Accounting Line Items</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Manual lines on the daily accounting sheet and its PDF. Archived lines are hidden from new
+              days but still show, and still count, on days that have a value for them.
+            </p>
+          </div>
+          <Link
+            href="/app/accounting"
+            className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Back to Accounting
+          </Link>
+        </div>
+
+        {sp.status === "saved" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Line items updated.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to update the line items."}
+          </div>
+        )}
+      </div>
+
+      {Object.values(AccountingLineSection).map((section) => {
+        const sectionItems = items.filter((item) => item.section === section);
+        return (
+          <div key={section} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+            <div className="text-sm font-semibold text-slate-900">{ACCOUNTING_LINE_SECTION_LABELS[section]}</div>
+
+            <div className="mt-4 hidden grid-cols-[minmax(0,2fr)_minmax(0,1.5fr)_minmax(0,2fr)_auto] gap-3 text-xs font-semibold uppercase text-slate-500 md:grid">
+              <div>Label</div>
+              <div>Counts Toward</div>
+              <div>Ledger Account</div>
+              <div className="text-right">Actions</div>
+            </div>
+
+            <div className="mt-2 divide-y divide-slate-200">
+              {sectionItems.map((item, index) => (
+                <form
+                  key={item.id}
+                  action={updateLineItemAction.bind(null, item.id)}
+                  className={`grid items-center gap-3 py-3 md:grid-cols-[minmax(0,2fr)_minmax(0,1.5fr)_minmax(0,2fr)_auto] ${
+                    item.archivedAt ? "opacity-60" : ""
+                  }`}
+                >
+                  <div>
+                    <input name="label" defaultValue={item.label} required maxLength={60} className={inputClass} />
+                    <div className="mt-1 text-xs text-slate-400">
+                      {item.key}
+                      {item.archivedAt ? " · archived" : ""}
+                    </div>
+                  </div>
+                  <CategorySelect defaultValue={item.category} />
+                  <LedgerAccountSelect defaultValue={item.ledgerAccountCode} />
+                  <div className="flex justify-end gap-2 whitespace-nowrap">
+                    <button
+                      type="submit"
+                      className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                    >
+                      Save
+                    </button>
+                    <button
+                      type="submit"
+                      formAction={moveLineItemAction.bind(null, item.id, "up")}
+                      disabled={index === 0}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      Up
+                    </button>
+                    <button
+                      type="submit"
+                      formAction={moveLineItemAction.bind(null, item.id, "down")}
+                      disabled={index === sectionItems.length - 1}
+                      className="rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-xs text-slate-700 hover:bg-slate-50 disabled:opacity-40"
+                    >
+                      Down
+                    </button>
+                    <button
+                      type="submit"
+                      formAction={archiveLineItemAction.bind(null, item.id, !item.archivedAt)}
+                      className={
+                        item.archivedAt
+                          ? "rounded-lg border border-emerald-200 bg-white px-3 py-1.5 text-xs font-medium text-emerald-700 hover:bg-emerald-50"
+                          : "rounded-lg border border-red-200 bg-white px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50"
+                      }
+                    >
+                      {item.archivedAt ? "Restore" : "Archive"}
+                    </button>
+                  </div>
+                </form>
+              ))}
+            </div>
+
+            <form
+              action={createLineItemAction}
+              className="mt-4 grid items-center gap-3 rounded-lg border border-dashed border-slate-300 bg-slate-50 p-3 md:grid-cols-[minmax(0,2fr)_minmax(0,1.5fr)_minmax(0,2fr)_auto]"
+            >
+              <input type="hidden" name="section" value={section} />
+              <input name="label" placeholder="New line label" required maxLength={60} className={inputClass} />
+              <CategorySelect
+                defaultValue={
+                  section === AccountingLineSection.RECEIPTS
+                    ? AccountingLineCategory.RECEIPT
+                    : section === AccountingLineSection.PAYMENTS
+                      ? AccountingLineCategory.PAYMENT
+                      : AccountingLineCategory.MANAGEMENT_EXPENSE
+                }
+              />
+              <LedgerAccountSelect />
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-medium text-white hover:bg-slate-800"
+                >
+                  Add Line
+                </button>
+              </div>
+            </form>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
@@ -1,18 +1,21 @@
-import { Role } from "@prisma/client";
 import {
   getAccountingReportData,
 } from "@/lib/accounting";
 import { AccountingClient } from "@/app/app/accounting/accounting-client";
+import { prisma } from "@/lib/db";
+import { findActivePeriodClose, serializePeriodClose } from "@/lib/period-close";
 import { formatDateYMD, getManilaToday } from "@/lib/date";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { getScopedBranchIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
 
 export default async function AccountingPage({
   searchParams,
 }: {
-  searchParams: Promise<{ date?: string }>;
+  searchParams: Promise<{ date?: string; branch?: string }>;
 }) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "accounting.view");
 
   const sp = await searchParams;
   const today = formatDateYMD(getManilaToday());
@@ -21,16 +24,37 @@ export default async function AccountingPage({
       ? sp.date
       : today;
 
-  const reportData = await getAccountingReportData(selectedDate);
+  // The daily sheet is kept per branch; default to the first one the user can see.
+  const branches = await listBranches({ branchIds: await getScopedBranchIds(user) });
+  const branch = branches.find((b) => b.id === sp.branch) ?? branches[0];
+  if (!branch) {
+    return (
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">
+        No branch is available for accounting.
+      </div>
+    );
+  }
+
+  const [reportData, periodClose] = await Promise.all([
+    getAccountingReportData(branch.id, selectedDate),
+    findActivePeriodClose(prisma, new Date(`${selectedDate}T12:00:00.000+08:00`)),
+  ]);
 
   return (
     <AccountingClient
+      key={branch.id}
+      branchId={branch.id}
+      branches={branches.map((b) => ({ id: b.id, name: b.name }))}
       selectedDate={selectedDate}
-      userRole={user.role}
+      permissions={user.permissions}
       initialManualData={reportData.manualData}
       computedTotals={reportData.computedTotals}
       initialOpeningBalance={reportData.view.openingBalance}
       lastUpdatedAt={reportData.lastUpdatedAt}
+      initialLineItems={reportData.lineItems}
+      initialBankAccounts={reportData.bankAccounts}
+      initialCashCount={reportData.cashCount}
+      initialPeriodClose={periodClose ? serializePeriodClose(periodClose) : null}
     />
   );
 }
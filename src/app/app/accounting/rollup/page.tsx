@@ -0,0 +1,161 @@
+import Link from "next/link";
+import { getScopedBranchIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
+import { formatDateYMD, getManilaToday, getReportPreset1Month } from "@/lib/date";
+import { getAccountingRollupData, validateAccountingRollupRange } from "@/lib/accounting-rollup";
+import { BranchSelect } from "../../_components/branch-select";
+import { DateRangeFilter } from "../../reports/date-filter";
+
+const formatAmount = (value: number) =>
+  value ? value.toLocaleString("en-US", { minimumFractionDigits: 0, maximumFractionDigits: 0 }) : "";
+
+export default async function AccountingRollupPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; branch?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "accounting.view");
+
+  const sp = await searchParams;
+  const today = formatDateYMD(getManilaToday());
+  const defaultPreset = getReportPreset1Month();
+  const from =
+    (sp.from?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.from) ? sp.from : null) ??
+    defaultPreset.from;
+  const rawTo =
+    (sp.to?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.to) ? sp.to : null) ??
+    defaultPreset.to;
+  const to = rawTo > today ? today : rawTo;
+
+  // Without a branch the summary consolidates every branch the user can see.
+  const branches = await listBranches({ branchIds: await getScopedBranchIds(user) });
+  const branch = branches.find((b) => b.id === sp.branch) ?? null;
+  const branchIds = branch ? [branch.id] : branches.map((b) => b.id);
+  const branchQuery = branch ? `&branch=${encodeURIComponent(branch.id)}` : "";
+
+  const rangeError = validateAccountingRollupRange(from, to);
+  const rollup = rangeError || branchIds.length === 0 ? null : await getAccountingRollupData(from, to, branchIds);
+  const exportUrl = `/api/accounting/export?from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}${branchQuery}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Accounting Period Summary</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Daily sheets side by side with period totals. The opening balance is the first day&apos;s and the
+              closing balance the last day&apos;s.
+            </p>
+          </div>
+          <div className="flex flex-wrap gap-2">
+            <BranchSelect branches={branches} value={branch?.id ?? null} allowAll={branches.length > 1} />
+            <Link
+              href="/app/accounting"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Back to Accounting
+            </Link>
+            {rollup ? (
+              <>
+                <a
+                  href={exportUrl}
+                  className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+                >
+                  Download PDF
+                </a>
+                <a
+                  href={`${exportUrl}&format=xlsx`}
+                  className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+                >
+                  Download Excel
+                </a>
+              </>
+            ) : null}
+          </div>
+        </div>
+
+        <DateRangeFilter
+          from={from}
+          to={to}
+          basePath="/app/accounting/rollup"
+          branch={branch?.id}
+          description="Weekdays in the range, plus any weekend day with a saved sheet, are included."
+        />
+      </div>
+
+      {rangeError ? (
+        <div className="rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">{rangeError}.</div>
+      ) : null}
+
+      {rollup ? (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="flex flex-wrap gap-6 text-sm">
+            <div>
+              <span className="text-slate-500">Opening Balance </span>
+              <span className="font-semibold text-slate-900">{formatAmount(rollup.openingBalance) || "0"}</span>
+            </div>
+            <div>
+              <span className="text-slate-500">Closing Balance </span>
+              <span className="font-semibold text-slate-900">{formatAmount(rollup.closingBalance) || "0"}</span>
+            </div>
+            <div>
+              <span className="text-slate-500">Saved Days </span>
+              <span className="font-semibold text-slate-900">
+                {rollup.savedDays.length} of {rollup.days.length}
+              </span>
+            </div>
+          </div>
+
+          <div className="mt-4 overflow-x-auto">
+            <table className="min-w-full text-right text-xs">
+              <thead className="bg-slate-50 text-slate-500">
+                <tr>
+                  <th className="sticky left-0 bg-slate-50 py-2 pr-4 pl-2 text-left uppercase">Line</th>
+                  {rollup.days.map((day) => (
+                    <th
+                      key={day}
+                      className={`py-2 px-2 font-medium whitespace-nowrap ${
+                        rollup.savedDays.includes(day) ? "" : "text-slate-400"
+                      }`}
+                    >
+                      <Link href={`/app/accounting?date=${day}${branchQuery}`} className="hover:underline hover:text-blue-600">
+                        {day.slice(5)}
+                      </Link>
+                    </th>
+                  ))}
+                  <th className="py-2 px-2 uppercase">Period</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {rollup.sections.map((section) => [
+                  <tr key={section.key} className="bg-slate-100">
+                    <td
+                      className="sticky left-0 bg-slate-100 py-1.5 pr-4 pl-2 text-left font-semibold text-slate-900"
+                      colSpan={rollup.days.length + 2}
+                    >
+                      {section.title}
+                    </td>
+                  </tr>,
+                  ...section.rows.map((row) => (
+                    <tr key={`${section.key}-${row.key}`} className={row.emphasis ? "font-semibold text-slate-900" : "text-slate-700"}>
+                      <td className="sticky left-0 bg-white py-1.5 pr-4 pl-2 text-left whitespace-nowrap">{row.label}</td>
+                      {row.values.map((value, index) => (
+                        <td key={rollup.days[index]} className="py-1.5 px-2">
+                          {formatAmount(value)}
+                        </td>
+                      ))}
+                      <td className="py-1.5 px-2 font-semibold text-slate-900 bg-slate-50">{formatAmount(row.total)}</td>
+                    </tr>
+                  )),
+                ])}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
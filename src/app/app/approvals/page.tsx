@@ -0,0 +1,245 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { ApprovalStatus, Prisma } from "@prisma/client";
+import { tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateTimeManila } from "@/lib/date";
+import {
+  APPROVAL_TYPE_LABELS,
+  ApprovalDecisionSchema,
+  canApproveRequests,
+  decideApprovalRequest,
+  describeApprovalRequest,
+  getApprovalScopeWhere,
+} from "@/lib/approvals";
+import { ConfirmSubmitButton } from "../_components/confirm-submit-button";
+
+const STATUS_FILTERS = ["PENDING", "APPROVED", "REJECTED", "ALL"] as const;
+
+async function decideApprovalAction(approvalId: string, decision: "APPROVE" | "REJECT", formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  if (!(await canApproveRequests(user, approvalId))) redirect("/app/approvals?error=forbidden");
+
+  const parsed = ApprovalDecisionSchema.safeParse({
+    decision,
+    note: String(formData.get("note") || "") || undefined,
+  });
+  if (!parsed.success) redirect("/app/approvals?error=invalid");
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction((tx) =>
+      decideApprovalRequest(tx, {
+        id: approvalId,
+        decidedById: user.id,
+        decision: parsed.data.decision,
+        note: parsed.data.note,
+        request,
+      }),
+    );
+  } catch (e: any) {
+    console.error("Approval decision error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`/app/approvals?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath("/app/approvals");
+  redirect(`/app/approvals?status=${decision === "APPROVE" ? "approved" : "rejected"}`);
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  forbidden: "Only a super admin, unit manager or operations manager can decide on requests.",
+  invalid: "Invalid decision.",
+  APPROVAL_NOT_FOUND: "Approval request not found.",
+  APPROVAL_ALREADY_DECIDED: "This request has already been decided.",
+  SELF_APPROVAL: "You cannot decide on your own request.",
+  INSUFFICIENT_SAVINGS: "The member no longer has enough savings for this withdrawal.",
+  ALREADY_REVERSED: "This entry has already been reversed.",
+  ADJUSTMENT_NOT_FOUND: "The entry to reverse no longer exists.",
+  MEMBER_NOT_FOUND: "Member not found.",
+  PERIOD_CLOSED: "The accounting period is closed. A super admin must reopen it first.",
+  BANK_ACCOUNT_NOT_FOUND: "A bank account in this override no longer exists.",
+  BANK_ACCOUNT_ARCHIVED: "A bank account in this override has been archived.",
+};
+
+export default async function ApprovalsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ filter?: string; status?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "approval.view");
+  const sp = await searchParams;
+  const isApprover = await canApproveRequests(user);
+  const filter = STATUS_FILTERS.find((f) => f === sp.filter) ?? "PENDING";
+
+  const where: Prisma.ApprovalRequestWhereInput = {
+    ...(filter === "ALL" ? {} : { status: filter as ApprovalStatus }),
+    // Makers without approval rights only see what they submitted; approvers see their branches
+    ...(isApprover ? await getApprovalScopeWhere(user) : { requestedById: user.id }),
+  };
+
+  const approvals = await prisma.approvalRequest.findMany({
+    where,
+    orderBy: { createdAt: filter === "PENDING" ? "asc" : "desc" },
+    take: 200,
+    include: {
+      member: { select: { id: true, firstName: true, lastName: true } },
+      requestedBy: { select: { name: true } },
+      decidedBy: { select: { name: true } },
+    },
+  });
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Approvals</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {isApprover
+                ? "Reversals, balance increases, large savings withdrawals and accounting overrides waiting for a checker."
+                : "Requests you submitted. They take effect once a super admin or manager approves them."}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {STATUS_FILTERS.map((f) => (
+              <Link
+                key={f}
+                href={`/app/approvals?filter=${f}`}
+                className={`rounded-lg border px-3 py-2 text-sm ${filter === f
+                    ? "border-blue-600 bg-blue-600 text-white"
+                    : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+                  }`}
+              >
+                {f.charAt(0) + f.slice(1).toLowerCase()}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {sp.status === "approved" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Request approved and applied.
+          </div>
+        )}
+        {sp.status === "rejected" && (
+          <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            Request rejected.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to process the request."}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">{approvals.length.toLocaleString()} request(s)</div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Requested</th>
+                <th className="py-2 pr-4">Type</th>
+                <th className="py-2 pr-4">Member</th>
+                <th className="py-2 pr-4">Details</th>
+                <th className="py-2 pr-4">Requested By</th>
+                <th className="py-2 pr-4">Status</th>
+                <th className="py-2 pr-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {approvals.map((a) => (
+                <tr key={a.id} className="hover:bg-slate-50 align-top">
+                  <td className="py-2 pr-4 pl-2 text-slate-600 whitespace-nowrap">
+                    {formatDateTimeManila(a.createdAt)}
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-slate-900">{APPROVAL_TYPE_LABELS[a.type]}</td>
+                  <td className="py-2 pr-4 text-slate-600">
+                    {a.member ? (
+                      <Link
+                        href={`/app/members/${a.member.id}`}
+                        className="text-slate-700 hover:underline hover:text-blue-600"
+                      >
+                        {a.member.lastName}, {a.member.firstName}
+                      </Link>
+                    ) : (
+                      "-"
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">
+                    <div>{describeApprovalRequest(a)}</div>
+                    {a.reason ? <div className="text-xs text-slate-500">Reason: {a.reason}</div> : null}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{a.requestedBy.name}</td>
+                  <td className="py-2 pr-4">
+                    <span
+                      className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${a.status === ApprovalStatus.APPROVED
+                          ? "bg-emerald-100 text-emerald-700"
+                          : a.status === ApprovalStatus.REJECTED
+                            ? "bg-red-100 text-red-700"
+                            : "bg-amber-100 text-amber-700"
+                        }`}
+                    >
+                      {a.status}
+                    </span>
+                    {a.decidedBy ? (
+                      <div className="mt-1 text-xs text-slate-500">
+                        {a.decidedBy.name}
+                        {a.decidedAt ? ` · ${formatDateTimeManila(a.decidedAt)}` : ""}
+                      </div>
+                    ) : null}
+                    {a.decisionNote ? <div className="text-xs text-slate-500">{a.decisionNote}</div> : null}
+                  </td>
+                  <td className="py-2 pr-4 text-right whitespace-nowrap">
+                    {isApprover && a.status === ApprovalStatus.PENDING && a.requestedById !== user.id ? (
+                      <div className="flex justify-end gap-2">
+                        <form action={decideApprovalAction.bind(null, a.id, "APPROVE")}>
+                          <ConfirmSubmitButton
+                            confirmMessage={`Approve and apply: ${describeApprovalRequest(a)}?`}
+                            loadingText="Approving..."
+                            className="rounded-lg bg-emerald-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-emerald-700"
+                          >
+                            Approve
+                          </ConfirmSubmitButton>
+                        </form>
+                        <form action={decideApprovalAction.bind(null, a.id, "REJECT")}>
+                          <ConfirmSubmitButton
+                            reasonName="note"
+                            confirmMessage={`Reject this request: ${describeApprovalRequest(a)}?`}
+                            loadingText="Rejecting..."
+                            className="rounded-lg border border-red-200 bg-white px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50"
+                          >
+                            Reject
+                          </ConfirmSubmitButton>
+                        </form>
+                      </div>
+                    ) : (
+                      <span className="text-xs text-slate-400">—</span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {approvals.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={7}>
+                    No requests found.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,10 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getScopedBranchIds, resolveBranchFilter } from "@/lib/auth/access";
+import { listBranches } from "@/lib/branches";
+import { Prisma } from "@prisma/client";
 import Link from "next/link";
+import { BranchSelect } from "../_components/branch-select";
 
 function clampInt(n: number, min: number, max: number) {
   return Math.max(min, Math.min(max, n));
@@ -14,32 +17,40 @@ export default async function AuditTrailPage({
     page?: string;
     pageSize?: string;
     q?: string;
+    branch?: string;
   }>;
 }) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  // Unit and operations managers see the trail of users in their branch or area
+  const scopedBranchIds = actor.role === "COLLECTOR" ? null : await getScopedBranchIds(actor);
+  if (!scopedBranchIds) requirePermission(actor, "audit.view");
 
   const sp = await searchParams;
+  const branchIds = await resolveBranchFilter(actor, sp.branch);
   const page = clampInt(Number(sp.page ?? "1") || 1, 1, 100000);
   const pageSize = clampInt(Number(sp.pageSize ?? "25") || 25, 5, 100);
   const q = (sp.q ?? "").trim();
 
   const terms = q.split(/\s+/).filter(Boolean).slice(0, 8);
 
-  const where =
-    terms.length > 0
-      ? {
-        AND: terms.map((t) => ({
-          OR: [
-            { action: { contains: t, mode: "insensitive" as const } },
-            { entityType: { contains: t, mode: "insensitive" as const } },
-            { entityId: { contains: t, mode: "insensitive" as const } },
-            { actorUser: { is: { email: { contains: t, mode: "insensitive" as const } } } },
-            { actorUser: { is: { name: { contains: t, mode: "insensitive" as const } } } },
-          ],
-        })),
-      }
-      : {};
+  const conditions: Prisma.AuditLogWhereInput[] = [];
+  if (branchIds) {
+    conditions.push({ actorUser: { is: { employee: { is: { branchId: { in: branchIds } } } } } });
+  }
+  if (terms.length > 0) {
+    conditions.push(
+      ...terms.map((t) => ({
+        OR: [
+          { action: { contains: t, mode: "insensitive" as const } },
+          { entityType: { contains: t, mode: "insensitive" as const } },
+          { entityId: { contains: t, mode: "insensitive" as const } },
+          { actorUser: { is: { email: { contains: t, mode: "insensitive" as const } } } },
+          { actorUser: { is: { name: { contains: t, mode: "insensitive" as const } } } },
+        ],
+      })),
+    );
+  }
+  const where: Prisma.AuditLogWhereInput = conditions.length > 0 ? { AND: conditions } : {};
 
   const [total, logs] = await Promise.all([
     prisma.auditLog.count({ where }),
@@ -72,7 +83,10 @@ export default async function AuditTrailPage({
 
   const totalPages = Math.max(1, Math.ceil(total / pageSize));
   const safePage = Math.min(page, totalPages);
-  const base = `/app/audit?pageSize=${pageSize}${q ? `&q=${encodeURIComponent(q)}` : ""}`;
+  const base = `/app/audit?pageSize=${pageSize}${q ? `&q=${encodeURIComponent(q)}` : ""}${
+    sp.branch ? `&branch=${encodeURIComponent(sp.branch)}` : ""
+  }`;
+  const branches = await listBranches({ branchIds: scopedBranchIds });
   const prevHref = safePage > 1 ? `${base}&page=${safePage - 1}` : undefined;
   const nextHref = safePage < totalPages ? `${base}&page=${safePage + 1}` : undefined;
 
@@ -84,10 +98,17 @@ export default async function AuditTrailPage({
             <h1 className="text-xl font-semibold text-slate-900">Audit Trail</h1>
             <p className="mt-1 text-sm text-slate-500">
               Records every mutating action performed by logged-in users.
+              {branchIds ? " Filtered to users linked to an employee of the selected branch." : ""}
             </p>
           </div>
           <form action="/app/audit" method="get" className="flex gap-2">
             <input type="hidden" name="pageSize" value={String(pageSize)} />
+            {sp.branch ? <input type="hidden" name="branch" value={sp.branch} /> : null}
+            <BranchSelect
+              branches={branches}
+              value={branchIds && branchIds.length === 1 ? branchIds[0] : null}
+              allowAll={branches.length > 1}
+            />
             <input
               name="q"
               defaultValue={q}
@@ -0,0 +1,310 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { BankTransactionType } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateTimeManila } from "@/lib/date";
+import {
+  getBankAccountErrorResponse,
+  getBankAccountRegister,
+  importBankStatement,
+  matchBankStatement,
+} from "@/lib/bank-accounts";
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+async function importStatementAction(accountId: string, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "bank.reconcile");
+
+  const path = `/app/bank-accounts/${accountId}`;
+  const file = formData.get("statement");
+  if (!(file instanceof File) || file.size === 0) redirect(`${path}?error=BANK_STATEMENT_EMPTY`);
+
+  let errorCode: string | null = null;
+  let result: { lineCount: number; matched: number } | null = null;
+  try {
+    const csv = await file.text();
+    const request = await tryGetAuditRequestContext();
+    result = await prisma.$transaction(async (tx) => {
+      const imported = await importBankStatement(tx, {
+        bankAccountId: accountId,
+        fileName: file.name || "statement.csv",
+        csv,
+        importedById: user.id,
+      });
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "BANK_STATEMENT_IMPORT",
+        entityType: "BankStatementImport",
+        entityId: imported.statementImport.id,
+        metadata: { bankAccountId: accountId, lines: imported.lineCount, matched: imported.matched },
+        request,
+      });
+      return imported;
+    });
+  } catch (e: any) {
+    console.error("Bank statement import error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode || !result) redirect(`${path}?error=${encodeURIComponent(errorCode ?? "FAILED")}`);
+
+  revalidatePath(path);
+  redirect(`${path}?imported=${result.lineCount}&matched=${result.matched}`);
+}
+
+async function rematchAction(accountId: string) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "bank.reconcile");
+
+  const path = `/app/bank-accounts/${accountId}`;
+  const matched = await prisma.$transaction((tx) => matchBankStatement(tx, accountId));
+
+  revalidatePath(path);
+  redirect(`${path}?matched=${matched}`);
+}
+
+export default async function BankAccountPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ accountId: string }>;
+  searchParams: Promise<{ imported?: string; matched?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "bank.reconcile");
+  const { accountId } = await params;
+  const sp = await searchParams;
+
+  const data = await getBankAccountRegister(accountId);
+  if (!data) notFound();
+
+  const { account, register, reconciliation, imports } = data;
+  const latest = imports[0] ?? null;
+  const errorMessage = sp.error
+    ? (getBankAccountErrorResponse(new Error(sp.error))?.error ?? "Failed to import the statement.")
+    : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">
+              {account.name}
+              {account.archivedAt ? <span className="ml-2 text-sm font-normal text-slate-500">(archived)</span> : null}
+            </h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {[account.bankName, account.accountNumber].filter(Boolean).join(" · ") || "No bank details"} · Opening
+              balance {formatAmount(account.openingBalance)}
+            </p>
+          </div>
+          <div className="text-right">
+            <div className="text-xs uppercase text-slate-500">Book Balance</div>
+            <div className="text-2xl font-semibold text-slate-900">{formatAmount(data.balance)}</div>
+          </div>
+        </div>
+
+        {sp.imported && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Imported {sp.imported} statement line(s); {sp.matched ?? 0} matched.
+          </div>
+        )}
+        {!sp.imported && sp.matched && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Matching re-run; {sp.matched} more line(s) matched.
+          </div>
+        )}
+        {errorMessage && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {errorMessage}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="text-sm font-semibold text-slate-900">Reconciliation</div>
+            <p className="mt-1 text-sm text-slate-500">
+              Upload the bank&apos;s CSV statement (date, description and amount, or credit and debit columns).
+              Lines are matched to deposits and withdrawals of the same amount within three days.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <form action={importStatementAction.bind(null, account.id)} className="flex items-center gap-2">
+              <input
+                type="file"
+                name="statement"
+                accept=".csv,text/csv"
+                required
+                className="text-sm text-slate-700 file:mr-2 file:rounded-lg file:border-0 file:bg-slate-100 file:px-3 file:py-2 file:text-sm file:font-medium file:text-slate-700"
+              />
+              <button
+                type="submit"
+                className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+              >
+                Import Statement
+              </button>
+            </form>
+            {imports.length > 0 ? (
+              <form action={rematchAction.bind(null, account.id)}>
+                <button
+                  type="submit"
+                  className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+                >
+                  Re-run Matching
+                </button>
+              </form>
+            ) : null}
+          </div>
+        </div>
+
+        {reconciliation ? (
+          <div className="mt-4 grid gap-3 sm:grid-cols-2 lg:grid-cols-5">
+            <div className="rounded-lg border border-slate-200 p-3">
+              <div className="text-xs uppercase text-slate-500">Statement Period</div>
+              <div className="mt-1 text-sm font-medium text-slate-900">
+                {reconciliation.statementStart} to {reconciliation.statementEnd}
+              </div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-3">
+              <div className="text-xs uppercase text-slate-500">Statement Balance</div>
+              <div className="mt-1 text-sm font-medium text-slate-900">
+                {reconciliation.statementBalance == null ? "Not in file" : formatAmount(reconciliation.statementBalance)}
+              </div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-3">
+              <div className="text-xs uppercase text-slate-500">Book Balance on {reconciliation.statementEnd}</div>
+              <div className="mt-1 text-sm font-medium text-slate-900">{formatAmount(reconciliation.bookBalance)}</div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-3">
+              <div className="text-xs uppercase text-slate-500">Difference</div>
+              <div
+                className={`mt-1 text-sm font-medium ${
+                  reconciliation.difference ? "text-red-600" : "text-emerald-600"
+                }`}
+              >
+                {reconciliation.difference == null ? "-" : formatAmount(reconciliation.difference)}
+              </div>
+            </div>
+            <div className="rounded-lg border border-slate-200 p-3">
+              <div className="text-xs uppercase text-slate-500">Unmatched</div>
+              <div className="mt-1 text-sm font-medium text-slate-900">
+                {reconciliation.unmatchedStatementLines} on statement · {reconciliation.unmatchedTransactions} in
+                books
+              </div>
+            </div>
+          </div>
+        ) : (
+          <div className="mt-4 text-sm text-slate-500">No statement imported yet.</div>
+        )}
+
+        {latest ? (
+          <div className="mt-6">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">
+              Latest Statement · {latest.fileName} · imported by {latest.importedByName}{" "}
+              {formatDateTimeManila(latest.createdAt)}
+            </div>
+            <div className="mt-2 overflow-x-auto">
+              <table className="min-w-full text-left text-sm">
+                <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+                  <tr>
+                    <th className="py-2 pr-4 pl-2">Date</th>
+                    <th className="py-2 pr-4">Description</th>
+                    <th className="py-2 pr-4 text-right">Amount</th>
+                    <th className="py-2 pr-4 text-right">Balance</th>
+                    <th className="py-2 pr-2">Match</th>
+                  </tr>
+                </thead>
+                <tbody className="divide-y divide-slate-200">
+                  {latest.lines.map((line) => (
+                    <tr key={line.id} className={line.matchedDate ? "" : "bg-red-50"}>
+                      <td className="py-2 pr-4 pl-2 text-slate-600 whitespace-nowrap">{line.transactionDate}</td>
+                      <td className="py-2 pr-4 text-slate-700">{line.description || "-"}</td>
+                      <td className="py-2 pr-4 text-right text-slate-900">{formatAmount(line.amount)}</td>
+                      <td className="py-2 pr-4 text-right text-slate-600">
+                        {line.balance == null ? "-" : formatAmount(line.balance)}
+                      </td>
+                      <td className="py-2 pr-2">
+                        {line.matchedDate ? (
+                          <span className="text-xs text-emerald-700">Accounting day {line.matchedDate}</span>
+                        ) : (
+                          <span className="rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-bold uppercase text-red-700">
+                            Unmatched
+                          </span>
+                        )}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </div>
+        ) : null}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">Register</div>
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Accounting Day</th>
+                <th className="py-2 pr-4 text-right">Deposit</th>
+                <th className="py-2 pr-4 text-right">Withdrawal</th>
+                <th className="py-2 pr-4 text-right">Balance</th>
+                <th className="py-2 pr-2">Statement</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {register.map((row) => (
+                <tr key={row.id} className="hover:bg-slate-50">
+                  <td className="py-2 pr-4 pl-2 text-slate-600">
+                    <Link
+                      href={`/app/accounting?date=${row.accountingDate}`}
+                      className="hover:underline hover:text-blue-600"
+                    >
+                      {row.accountingDate}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {row.type === BankTransactionType.DEPOSIT ? formatAmount(row.amount) : "-"}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {row.type === BankTransactionType.WITHDRAWAL ? formatAmount(row.amount) : "-"}
+                  </td>
+                  <td className="py-2 pr-4 text-right font-medium text-slate-900">{formatAmount(row.balance)}</td>
+                  <td className="py-2 pr-2">
+                    {row.matched ? (
+                      <span className="text-xs text-emerald-700">Matched</span>
+                    ) : (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-bold uppercase text-amber-700">
+                        Not on a statement
+                      </span>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {register.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={5}>
+                    No deposits or withdrawals recorded yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,223 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { prisma } from "@/lib/db";
+import { hasPermission, requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import {
+  CreateBankAccountSchema,
+  createBankAccount,
+  listBankAccountBalances,
+  setBankAccountArchived,
+} from "@/lib/bank-accounts";
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+async function createBankAccountAction(formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "accounting.configure");
+
+  const parsed = CreateBankAccountSchema.safeParse({
+    name: String(formData.get("name") || ""),
+    bankName: String(formData.get("bankName") || ""),
+    accountNumber: String(formData.get("accountNumber") || ""),
+    openingBalance: String(formData.get("openingBalance") || "0"),
+  });
+  if (!parsed.success) redirect("/app/bank-accounts?error=invalid");
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const account = await createBankAccount(tx, parsed.data);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "BANK_ACCOUNT_CREATE",
+        entityType: "BankAccount",
+        entityId: account.id,
+        metadata: { name: account.name, openingBalance: parsed.data.openingBalance },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Create bank account error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`/app/bank-accounts?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath("/app/bank-accounts");
+  redirect("/app/bank-accounts?status=created");
+}
+
+async function archiveBankAccountAction(id: string, archived: boolean) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "accounting.configure");
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const account = await setBankAccountArchived(tx, id, archived);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: archived ? "BANK_ACCOUNT_ARCHIVE" : "BANK_ACCOUNT_RESTORE",
+        entityType: "BankAccount",
+        entityId: account.id,
+        metadata: { name: account.name },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Archive bank account error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`/app/bank-accounts?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath("/app/bank-accounts");
+  revalidatePath("/app/accounting");
+  redirect("/app/bank-accounts");
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Enter a name and a valid opening balance.",
+  BANK_ACCOUNT_NAME_TAKEN: "A bank account with this name already exists.",
+  BANK_ACCOUNT_NOT_FOUND: "Bank account not found.",
+};
+
+const inputClass =
+  "mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+export default async function BankAccountsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "bank.reconcile");
+  const isSuperAdmin = hasPermission(user, "accounting.configure");
+  const sp = await searchParams;
+
+  const accounts = await listBankAccountBalances();
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-semibold text-slate-900">Bank Accounts</h1>
+        <p className="mt-1 text-sm text-slate-500">
+          Deposits and withdrawals are entered on the accounting day. Open an account to see its running
+          balance and reconcile it against a bank statement.
+        </p>
+
+        {sp.status === "created" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Bank account created.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to update the bank account."}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Account</th>
+                <th className="py-2 pr-4">Bank</th>
+                <th className="py-2 pr-4">Account No.</th>
+                <th className="py-2 pr-4 text-right">Book Balance</th>
+                <th className="py-2 pr-4 text-right">Not on a Statement</th>
+                <th className="py-2 pr-4 text-right">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {accounts.map((account) => (
+                <tr key={account.id} className={`hover:bg-slate-50 ${account.archivedAt ? "opacity-60" : ""}`}>
+                  <td className="py-2 pr-4 pl-2 font-medium text-slate-900">
+                    <Link href={`/app/bank-accounts/${account.id}`} className="hover:underline hover:text-blue-600">
+                      {account.name}
+                    </Link>
+                    {account.archivedAt ? <span className="ml-2 text-xs text-slate-500">archived</span> : null}
+                  </td>
+                  <td className="py-2 pr-4 text-slate-600">{account.bankName ?? "-"}</td>
+                  <td className="py-2 pr-4 text-slate-600">{account.accountNumber ?? "-"}</td>
+                  <td className="py-2 pr-4 text-right font-medium text-slate-900">{formatAmount(account.balance)}</td>
+                  <td className="py-2 pr-4 text-right">
+                    {account.unmatchedCount > 0 ? (
+                      <span className="rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-bold uppercase text-amber-700">
+                        {account.unmatchedCount} unmatched
+                      </span>
+                    ) : (
+                      <span className="text-xs text-slate-400">—</span>
+                    )}
+                  </td>
+                  <td className="py-2 pr-4 text-right whitespace-nowrap">
+                    {isSuperAdmin ? (
+                      <form action={archiveBankAccountAction.bind(null, account.id, !account.archivedAt)}>
+                        <button
+                          type="submit"
+                          className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                        >
+                          {account.archivedAt ? "Restore" : "Archive"}
+                        </button>
+                      </form>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+              {accounts.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={6}>
+                    No bank accounts yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {isSuperAdmin ? (
+        <form action={createBankAccountAction} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="text-sm font-semibold text-slate-900">Add Bank Account</div>
+          <div className="mt-4 grid gap-4 md:grid-cols-4">
+            <div>
+              <label className="text-sm font-medium text-slate-700">Name</label>
+              <input name="name" required maxLength={40} placeholder="DFOB1" className={inputClass} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-slate-700">Bank</label>
+              <input name="bankName" maxLength={80} className={inputClass} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-slate-700">Account No.</label>
+              <input name="accountNumber" maxLength={40} className={inputClass} />
+            </div>
+            <div>
+              <label className="text-sm font-medium text-slate-700">Opening Balance</label>
+              <input name="openingBalance" type="number" step="0.01" defaultValue="0" className={inputClass} />
+            </div>
+          </div>
+          <div className="mt-4 flex justify-end">
+            <button
+              type="submit"
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700"
+            >
+              Add Account
+            </button>
+          </div>
+        </form>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,183 @@
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { BranchSchema, createBranch, listBranchesWithCounts, updateBranch } from "@/lib/branches";
+
+const PAGE_PATH = "/app/branches";
+
+async function runBranchAction(
+  action: string,
+  run: (tx: Prisma.TransactionClient) => Promise<{ id: string; metadata: Prisma.InputJsonValue }>,
+) {
+  const user = await requireUser();
+  requirePermission(user, "branch.manage");
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const result = await run(tx);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action,
+        entityType: "Branch",
+        entityId: result.id,
+        metadata: result.metadata,
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Branch error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`${PAGE_PATH}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath(PAGE_PATH);
+  redirect(`${PAGE_PATH}?status=saved`);
+}
+
+function readBranchForm(formData: FormData) {
+  return {
+    code: String(formData.get("code") || ""),
+    name: String(formData.get("name") || ""),
+    area: String(formData.get("area") || ""),
+    address: String(formData.get("address") || ""),
+  };
+}
+
+async function createBranchAction(formData: FormData) {
+  "use server";
+
+  const parsed = BranchSchema.safeParse(readBranchForm(formData));
+  if (!parsed.success) redirect(`${PAGE_PATH}?error=invalid`);
+
+  await runBranchAction("BRANCH_CREATE", async (tx) => {
+    const branch = await createBranch(tx, parsed.data);
+    return { id: branch.id, metadata: parsed.data };
+  });
+}
+
+async function updateBranchAction(id: string, formData: FormData) {
+  "use server";
+
+  const parsed = BranchSchema.safeParse(readBranchForm(formData));
+  if (!parsed.success) redirect(`${PAGE_PATH}?error=invalid`);
+
+  await runBranchAction("BRANCH_UPDATE", async (tx) => {
+    const { before } = await updateBranch(tx, id, parsed.data);
+    return {
+      id,
+      metadata: {
+        before: { code: before.code, name: before.name, area: before.area, address: before.address },
+        after: parsed.data,
+      },
+    };
+  });
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Enter a code (letters, digits and dashes) and a name.",
+  BRANCH_NOT_FOUND: "Branch not found.",
+  BRANCH_CODE_TAKEN: "Another branch already uses this code.",
+  BRANCH_NAME_TAKEN: "Another branch already uses this name.",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+const GRID = "md:grid-cols-[minmax(0,0.8fr)_minmax(0,1.5fr)_minmax(0,1.2fr)_minmax(0,2fr)_auto_auto]";
+
+export default async function BranchesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "branch.manage");
+  const sp = await searchParams;
+
+  const branches = await listBranchesWithCounts();
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h1 className="text-xl font-semibold text-slate-900">Branches</h1>
+        <p className="mt-1 text-sm text-slate-500">
+          Each branch owns its groups, employees and daily cash sheet. A unit manager linked to a user sees
+          only their branch; an operations manager sees every branch in their area.
+        </p>
+
+        {sp.status === "saved" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Branches updated.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to update the branches."}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className={`hidden gap-3 text-xs font-semibold uppercase text-slate-500 md:grid ${GRID}`}>
+          <div>Code</div>
+          <div>Name</div>
+          <div>Area</div>
+          <div>Address</div>
+          <div>Groups / Staff</div>
+          <div className="text-right">Actions</div>
+        </div>
+
+        <div className="mt-2 divide-y divide-slate-200">
+          {branches.map((branch) => (
+            <form
+              key={branch.id}
+              action={updateBranchAction.bind(null, branch.id)}
+              className={`grid items-center gap-3 py-3 ${GRID}`}
+            >
+              <input name="code" defaultValue={branch.code} required maxLength={12} className={inputClass} />
+              <input name="name" defaultValue={branch.name} required maxLength={80} className={inputClass} />
+              <input name="area" defaultValue={branch.area ?? ""} maxLength={80} className={inputClass} />
+              <input name="address" defaultValue={branch.address ?? ""} maxLength={200} className={inputClass} />
+              <div className="whitespace-nowrap text-sm text-slate-600">
+                {branch.groupCount} / {branch.employeeCount}
+              </div>
+              <div className="flex justify-end">
+                <button
+                  type="submit"
+                  className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                >
+                  Save
+                </button>
+              </div>
+            </form>
+          ))}
+        </div>
+
+        <form
+          action={createBranchAction}
+          className={`mt-4 grid items-center gap-3 rounded-lg border border-dashed border-slate-300 bg-slate-50 p-3 ${GRID}`}
+        >
+          <input name="code" placeholder="Code" required maxLength={12} className={inputClass} />
+          <input name="name" placeholder="Branch name" required maxLength={80} className={inputClass} />
+          <input name="area" placeholder="Area (optional)" maxLength={80} className={inputClass} />
+          <input name="address" placeholder="Address (optional)" maxLength={200} className={inputClass} />
+          <div />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-medium text-white hover:bg-slate-800"
+            >
+              Add Branch
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,19 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { EmployeePosition, Role } from "@prisma/client";
+import { assertBranchAccess, getScopedBranchIds, getScopedGroupIds, requireEmployeeAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { EmployeePosition } from "@prisma/client";
 import { redirect } from "next/navigation";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 import { SubmitButton } from "../../_components/submit-button";
 import { z } from "zod";
 import Link from "next/link";
 import { revalidatePath } from "next/cache";
+import { formatDateYMD, getManilaBusinessDate, getReportPreset1Month } from "@/lib/date";
+import { listBranches } from "@/lib/branches";
+import { setEmployeeGroups } from "@/lib/officer-assignments";
+import { getOfficerPerformance } from "@/lib/officer-performance";
+import { DateRangeFilter } from "../../reports/date-filter";
+import { EfficiencyTrendChart, GroupScorecardTable, ScorecardSummary } from "../performance-charts";
 
 const POSITION_LABELS: Record<EmployeePosition, string> = {
     COLLECTION_OFFICER: "Collection officer",
@@ -25,13 +32,16 @@ const UpdateEmployeeSchema = z.object({
         "OPERATIONS_MANAGER",
     ]),
     assignedGroupIds: z.union([z.string(), z.array(z.string())]).optional(),
+    branchId: z.string().uuid(),
+    baseSalary: z.coerce.number().min(0).max(10_000_000).nullable(),
 });
 
 async function updateEmployeeAction(employeeId: string, formData: FormData) {
     "use server";
 
     const user = await requireUser();
-    requireRole(user, [Role.SUPER_ADMIN]);
+    requirePermission(user, "employee.manage");
+    await requireEmployeeAccess(user, employeeId);
 
     const rawGroupIds = formData.getAll("assignedGroupIds");
     const assignedGroupIds = rawGroupIds.map(String).filter(Boolean);
@@ -41,6 +51,8 @@ async function updateEmployeeAction(employeeId: string, formData: FormData) {
         lastName: String(formData.get("lastName") || "").trim(),
         position: String(formData.get("position") || ""),
         assignedGroupIds,
+        branchId: String(formData.get("branchId") || ""),
+        baseSalary: String(formData.get("baseSalary") || "").trim() || null,
     });
 
     if (!parsed.success) redirect(`/app/employees/${employeeId}?updated=0`);
@@ -48,6 +60,12 @@ async function updateEmployeeAction(employeeId: string, formData: FormData) {
     const request = await tryGetAuditRequestContext();
 
     try {
+        await assertBranchAccess(user, parsed.data.branchId);
+        const scopedGroupIds = await getScopedGroupIds(user);
+        if (scopedGroupIds && assignedGroupIds.some((groupId) => !scopedGroupIds.includes(groupId))) {
+            throw new Error("Group not found");
+        }
+
         await prisma.$transaction(async (tx) => {
             await tx.employee.update({
                 where: { id: employeeId },
@@ -55,12 +73,20 @@ async function updateEmployeeAction(employeeId: string, formData: FormData) {
                     firstName: parsed.data.firstName,
                     lastName: parsed.data.lastName,
                     position: parsed.data.position as EmployeePosition,
-                    groupsAsCollectionOfficer: {
-                        set: assignedGroupIds.map((id) => ({ id })),
-                    },
+                    branchId: parsed.data.branchId,
+                    baseSalary: parsed.data.baseSalary,
                 },
             });
 
+            const today = formatDateYMD(getManilaBusinessDate());
+            await setEmployeeGroups(tx, {
+                employeeId,
+                groupIds: assignedGroupIds,
+                effectiveFrom: today,
+                today,
+                userId: user.id,
+            });
+
             await createAuditLog(tx, {
                 actorUserId: user.id,
                 action: "EMPLOYEE_UPDATE",
@@ -70,6 +96,8 @@ async function updateEmployeeAction(employeeId: string, formData: FormData) {
                     firstName: parsed.data.firstName,
                     lastName: parsed.data.lastName,
                     position: parsed.data.position,
+                    branchId: parsed.data.branchId,
+                    baseSalary: parsed.data.baseSalary,
                     assignedGroupIds,
                 },
                 request,
@@ -89,14 +117,23 @@ export default async function EmployeeDetailsPage({
     searchParams,
 }: {
     params: Promise<{ employeeId: string }>;
-    searchParams: Promise<{ updated?: string }>;
+    searchParams: Promise<{ updated?: string; from?: string; to?: string }>;
 }) {
     const user = await requireUser();
-    requireRole(user, [Role.SUPER_ADMIN]);
+    requirePermission(user, "employee.manage");
     const { employeeId } = await params;
+    await requireEmployeeAccess(user, employeeId);
     const sp = await searchParams;
+    const [scopedBranchIds, scopedGroupIds] = await Promise.all([getScopedBranchIds(user), getScopedGroupIds(user)]);
+    const defaultPreset = getReportPreset1Month();
+    const from =
+        (sp.from?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.from) ? sp.from : null) ??
+        defaultPreset.from;
+    const to =
+        (sp.to?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.to) ? sp.to : null) ??
+        defaultPreset.to;
 
-    const [employee, groups] = await Promise.all([
+    const [employee, groups, branches] = await Promise.all([
         prisma.employee.findUnique({
             where: { id: employeeId },
             include: {
@@ -104,9 +141,11 @@ export default async function EmployeeDetailsPage({
             },
         }),
         prisma.group.findMany({
+            where: scopedGroupIds ? { id: { in: scopedGroupIds } } : undefined,
             orderBy: { name: "asc" },
             select: { id: true, name: true, collectionOfficerId: true },
         }),
+        listBranches({ branchIds: scopedBranchIds }),
     ]);
 
     if (!employee) {
@@ -123,6 +162,11 @@ export default async function EmployeeDetailsPage({
     }
 
     const assignedIds = new Set(employee.groupsAsCollectionOfficer.map((g) => g.id));
+    const performance =
+        employee.position === EmployeePosition.COLLECTION_OFFICER
+            ? await getOfficerPerformance({ from, to, officerId: employee.id })
+            : null;
+    const scorecard = performance?.officers[0] ?? null;
 
     return (
         <div className="space-y-6">
@@ -187,6 +231,37 @@ export default async function EmployeeDetailsPage({
                         </select>
                     </div>
 
+                    <div>
+                        <label className="text-sm font-medium text-slate-700">Branch</label>
+                        <select
+                            name="branchId"
+                            defaultValue={employee.branchId}
+                            required
+                            className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                        >
+                            {branches.map((branch) => (
+                                <option key={branch.id} value={branch.id}>
+                                    {branch.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+
+                    <div>
+                        <label className="text-sm font-medium text-slate-700">Monthly Base Salary</label>
+                        <input
+                            name="baseSalary"
+                            type="number"
+                            min="0"
+                            step="0.01"
+                            defaultValue={employee.baseSalary === null ? "" : Number(employee.baseSalary)}
+                            className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                        />
+                        <p className="mt-1 text-xs text-slate-500">
+                            Used on incentive statements and the payroll export. Leave blank if not on payroll.
+                        </p>
+                    </div>
+
                     <div>
                         <label className="text-sm font-medium text-slate-700">Assign Groups</label>
                         <div className="mt-1 max-h-60 overflow-y-auto rounded-lg border border-slate-200 bg-slate-50 p-2">
@@ -223,6 +298,49 @@ export default async function EmployeeDetailsPage({
                     </div>
                 </form>
             </div>
+
+            {performance && scorecard ? (
+                <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+                    <div className="flex flex-wrap items-end justify-between gap-4">
+                        <div>
+                            <h2 className="text-sm font-semibold text-slate-900">Performance</h2>
+                            <p className="mt-1 text-sm text-slate-500">
+                                Ranked {scorecard.rank} of {performance.officerCount} collection officers by efficiency.
+                                PAR is as of {performance.parAsOf}.
+                            </p>
+                        </div>
+                        <Link
+                            href={`/app/employees/performance?from=${from}&to=${to}`}
+                            className="text-sm font-medium text-blue-600 hover:underline"
+                        >
+                            Compare all officers
+                        </Link>
+                    </div>
+
+                    <DateRangeFilter
+                        from={from}
+                        to={to}
+                        basePath={`/app/employees/${employee.id}`}
+                        description="Scorecard covers dues, collections, releases and exits within the range."
+                    />
+
+                    <div className="mt-4">
+                        <ScorecardSummary metrics={scorecard} />
+                    </div>
+
+                    <div className="mt-6 rounded-xl border border-slate-200 p-4">
+                        <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">
+                            Efficiency by {performance.granularity}
+                        </div>
+                        <EfficiencyTrendChart trend={scorecard.trend} />
+                    </div>
+
+                    <div className="mt-6">
+                        <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">Groups</div>
+                        <GroupScorecardTable groups={scorecard.groups} />
+                    </div>
+                </div>
+            ) : null}
         </div>
     );
 }
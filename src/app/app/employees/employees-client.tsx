@@ -1,6 +1,7 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import Link from "next/link";
 import { EmployeePosition, Role } from "@prisma/client";
 import { IconSearch, IconPlus, IconX, IconPencil, IconTrash } from "../_components/icons";
 import { showAppToast } from "../_components/app-toast";
@@ -18,9 +19,16 @@ type Employee = {
   lastName: string;
   position: EmployeePosition;
   createdAt: string;
+  branchId: string;
+  branch: { id: string; name: string };
   groupsAsCollectionOfficer: { id: string; name: string }[];
 };
 
+type Branch = {
+  id: string;
+  name: string;
+};
+
 type Group = {
   id: string;
   name: string;
@@ -30,10 +38,12 @@ type Group = {
 export function EmployeesClient({
   initialEmployees,
   initialGroups,
+  initialBranches,
   userRole,
 }: {
   initialEmployees: Employee[];
   initialGroups: Group[];
+  initialBranches: Branch[];
   userRole: Role;
 }) {
   const [employees, setEmployees] = useState<Employee[]>(initialEmployees);
@@ -60,6 +70,7 @@ export function EmployeesClient({
     firstName: "",
     lastName: "",
     position: "" as EmployeePosition | "",
+    branchId: "",
     assignedGroupIds: [] as string[],
   });
 
@@ -93,6 +104,7 @@ export function EmployeesClient({
       firstName: "",
       lastName: "",
       position: "",
+      branchId: initialBranches.length === 1 ? initialBranches[0].id : "",
       assignedGroupIds: [],
     });
     setIsModalOpen(true);
@@ -104,6 +116,7 @@ export function EmployeesClient({
       firstName: employee.firstName,
       lastName: employee.lastName,
       position: employee.position,
+      branchId: employee.branchId,
       assignedGroupIds: employee.groupsAsCollectionOfficer.map((g) => g.id),
     });
     setIsModalOpen(true);
@@ -210,6 +223,20 @@ export function EmployeesClient({
                 className="w-64 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none placeholder:text-slate-500 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
               />
             </div>
+            <Link
+              href="/app/employees/performance"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Officer Performance
+            </Link>
+            {canManage && (
+              <Link
+                href="/app/employees/incentives"
+                className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+              >
+                Incentives
+              </Link>
+            )}
             {canManage && (
               <button
                 onClick={openCreateModal}
@@ -228,6 +255,7 @@ export function EmployeesClient({
               <tr>
                 <th className="py-2 pr-4">Name</th>
                 <th className="py-2 pr-4">Position</th>
+                <th className="py-2 pr-4">Branch</th>
                 <th className="py-2 pr-4">Group</th>
                 <th className="py-2 pr-4">Created</th>
                 {canManage && <th className="py-2 pr-0 text-right">Actions</th>}
@@ -242,6 +270,7 @@ export function EmployeesClient({
                   <td className="py-2 pr-4 text-slate-600">
                     {POSITION_LABELS[e.position]}
                   </td>
+                  <td className="py-2 pr-4 text-slate-600">{e.branch.name}</td>
                   <td className="py-2 pr-4">
                     <div className="flex flex-wrap gap-1">
                       {e.groupsAsCollectionOfficer.length > 0 ? (
@@ -283,7 +312,7 @@ export function EmployeesClient({
               ))}
               {employees.length === 0 && (
                 <tr>
-                  <td className="py-4 text-center text-slate-500" colSpan={canManage ? 5 : 4}>
+                  <td className="py-4 text-center text-slate-500" colSpan={canManage ? 6 : 5}>
                     No employees found.
                   </td>
                 </tr>
@@ -324,7 +353,7 @@ export function EmployeesClient({
                   className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
                 />
               </div>
-              <div className="md:col-span-2">
+              <div>
                 <label className="text-sm font-medium text-slate-700">Position</label>
                 <select
                   required
@@ -338,6 +367,23 @@ export function EmployeesClient({
                   ))}
                 </select>
               </div>
+              <div>
+                <label className="text-sm font-medium text-slate-700">Branch</label>
+                <select
+                  required
+                  value={formData.branchId}
+                  onChange={e => setFormData({...formData, branchId: e.target.value})}
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                >
+                  <option value="" disabled>Select branch...</option>
+                  {initialBranches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>{branch.name}</option>
+                  ))}
+                </select>
+                <p className="mt-1 text-xs text-slate-500">
+                  Unit and operations managers linked to a user see only their branch (or area).
+                </p>
+              </div>
               
               <div className="md:col-span-2">
                 <label className="text-sm font-medium text-slate-700">Assign Groups</label>
@@ -0,0 +1,387 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { IncentiveRuleType, Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateYMD, getManilaToday } from "@/lib/date";
+import {
+  INCENTIVE_RULE_TYPES,
+  IncentiveRuleSchema,
+  createIncentiveRule,
+  getIncentiveReport,
+  isIncentiveMonth,
+  listIncentiveRules,
+  setIncentiveRuleArchived,
+  updateIncentiveRule,
+} from "@/lib/incentives";
+import { formatAmount, formatPercent } from "../performance-charts";
+
+const PAGE_PATH = "/app/employees/incentives";
+
+async function runIncentiveRuleAction(
+  action: string,
+  run: (tx: Prisma.TransactionClient, userId: string) => Promise<{ id: string }>,
+  metadata: Record<string, string | number | boolean | null>,
+) {
+  const user = await requireUser();
+  requirePermission(user, "incentive.manage");
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const rule = await run(tx, user.id);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action,
+        entityType: "IncentiveRule",
+        entityId: rule.id,
+        metadata,
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Incentive rule error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`${PAGE_PATH}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath(PAGE_PATH);
+  redirect(`${PAGE_PATH}?status=saved`);
+}
+
+function readRuleForm(formData: FormData) {
+  const optional = (key: string) => {
+    const value = String(formData.get(key) || "").trim();
+    return value === "" ? undefined : value;
+  };
+  return {
+    name: String(formData.get("name") || ""),
+    type: String(formData.get("type") || ""),
+    rate: optional("rate"),
+    amount: optional("amount"),
+    threshold: optional("threshold"),
+  };
+}
+
+async function createRuleAction(formData: FormData) {
+  "use server";
+
+  const parsed = IncentiveRuleSchema.safeParse(readRuleForm(formData));
+  if (!parsed.success) redirect(`${PAGE_PATH}?error=invalid`);
+
+  await runIncentiveRuleAction(
+    "INCENTIVE_RULE_CREATE",
+    (tx, userId) => createIncentiveRule(tx, { ...parsed.data, userId }),
+    {
+      name: parsed.data.name,
+      type: parsed.data.type,
+      rate: parsed.data.rate ?? null,
+      amount: parsed.data.amount ?? null,
+      threshold: parsed.data.threshold ?? null,
+    },
+  );
+}
+
+async function updateRuleAction(id: string, formData: FormData) {
+  "use server";
+
+  const parsed = IncentiveRuleSchema.safeParse(readRuleForm(formData));
+  if (!parsed.success) redirect(`${PAGE_PATH}?error=invalid`);
+
+  await runIncentiveRuleAction("INCENTIVE_RULE_UPDATE", (tx) => updateIncentiveRule(tx, id, parsed.data), {
+    name: parsed.data.name,
+    type: parsed.data.type,
+    rate: parsed.data.rate ?? null,
+    amount: parsed.data.amount ?? null,
+    threshold: parsed.data.threshold ?? null,
+  });
+}
+
+async function archiveRuleAction(id: string, archived: boolean) {
+  "use server";
+
+  await runIncentiveRuleAction(
+    archived ? "INCENTIVE_RULE_ARCHIVE" : "INCENTIVE_RULE_RESTORE",
+    (tx) => setIncentiveRuleArchived(tx, id, archived),
+    { archived },
+  );
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Enter a name and every value the rule type needs. Rates and PAR thresholds are percentages.",
+  INCENTIVE_RULE_NOT_FOUND: "Incentive rule not found.",
+  INCENTIVE_RULE_ALREADY_ARCHIVED: "This incentive rule is already archived.",
+  INCENTIVE_RULE_NOT_ARCHIVED: "This incentive rule is not archived.",
+};
+
+const inputClass =
+  "w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+const RULE_GRID = "md:grid-cols-[minmax(0,2fr)_minmax(0,2fr)_minmax(0,1fr)_minmax(0,1fr)_minmax(0,1fr)_auto]";
+
+function TypeSelect({ defaultValue }: { defaultValue?: IncentiveRuleType }) {
+  return (
+    <select name="type" defaultValue={defaultValue} required className={inputClass}>
+      {INCENTIVE_RULE_TYPES.map((config) => (
+        <option key={config.type} value={config.type}>
+          {config.label}
+        </option>
+      ))}
+    </select>
+  );
+}
+
+function NumberInput({ name, defaultValue, placeholder }: { name: string; defaultValue?: number | null; placeholder: string }) {
+  return (
+    <input
+      name={name}
+      type="number"
+      min="0"
+      step="0.01"
+      defaultValue={defaultValue ?? ""}
+      placeholder={placeholder}
+      className={inputClass}
+    />
+  );
+}
+
+export default async function IncentivesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ month?: string; status?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "incentive.manage");
+
+  const sp = await searchParams;
+  const month = isIncentiveMonth(sp.month?.trim()) ? sp.month!.trim() : formatDateYMD(getManilaToday()).slice(0, 7);
+
+  const [rules, report] = await Promise.all([
+    listIncentiveRules({ includeArchived: true }),
+    getIncentiveReport(month),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Officer Incentives</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Active rules are applied to each collection officer&apos;s month: collections and releases in their
+              current groups, members who paid a membership fee, and PAR at month end.
+            </p>
+          </div>
+          <Link
+            href="/app/employees"
+            className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Back to Employees
+          </Link>
+        </div>
+
+        {sp.status === "saved" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Incentive rules updated.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to update the incentive rules."}
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">Rules</div>
+        <ul className="mt-2 space-y-1 text-xs text-slate-500">
+          {INCENTIVE_RULE_TYPES.map((config) => (
+            <li key={config.type}>
+              <span className="font-medium text-slate-700">{config.label}:</span> {config.description}
+            </li>
+          ))}
+        </ul>
+
+        <div className={`mt-4 hidden gap-3 text-xs font-semibold uppercase text-slate-500 md:grid ${RULE_GRID}`}>
+          <div>Name</div>
+          <div>Type</div>
+          <div>Rate %</div>
+          <div>Amount</div>
+          <div>Target / PAR %</div>
+          <div className="text-right">Actions</div>
+        </div>
+
+        <div className="mt-2 divide-y divide-slate-200">
+          {rules.map((rule) => (
+            <form
+              key={rule.id}
+              action={updateRuleAction.bind(null, rule.id)}
+              className={`grid items-center gap-3 py-3 ${RULE_GRID} ${rule.archived ? "opacity-60" : ""}`}
+            >
+              <div>
+                <input name="name" defaultValue={rule.name} required maxLength={80} className={inputClass} />
+                {rule.archived ? <div className="mt-1 text-xs text-slate-400">archived</div> : null}
+              </div>
+              <TypeSelect defaultValue={rule.type} />
+              <NumberInput name="rate" defaultValue={rule.rate} placeholder="Rate" />
+              <NumberInput name="amount" defaultValue={rule.amount} placeholder="Amount" />
+              <NumberInput name="threshold" defaultValue={rule.threshold} placeholder="Threshold" />
+              <div className="flex justify-end gap-2 whitespace-nowrap">
+                <button
+                  type="submit"
+                  className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                >
+                  Save
+                </button>
+                <button
+                  type="submit"
+                  formAction={archiveRuleAction.bind(null, rule.id, !rule.archived)}
+                  className={
+                    rule.archived
+                      ? "rounded-lg border border-emerald-200 bg-white px-3 py-1.5 text-xs font-medium text-emerald-700 hover:bg-emerald-50"
+                      : "rounded-lg border border-red-200 bg-white px-3 py-1.5 text-xs font-medium text-red-600 hover:bg-red-50"
+                  }
+                >
+                  {rule.archived ? "Restore" : "Archive"}
+                </button>
+              </div>
+            </form>
+          ))}
+          {rules.length === 0 ? <div className="py-3 text-sm text-slate-500">No incentive rules yet.</div> : null}
+        </div>
+
+        <form
+          action={createRuleAction}
+          className={`mt-4 grid items-center gap-3 rounded-lg border border-dashed border-slate-300 bg-slate-50 p-3 ${RULE_GRID}`}
+        >
+          <input name="name" placeholder="New rule name" required maxLength={80} className={inputClass} />
+          <TypeSelect />
+          <NumberInput name="rate" placeholder="Rate" />
+          <NumberInput name="amount" placeholder="Amount" />
+          <NumberInput name="threshold" placeholder="Threshold" />
+          <div className="flex justify-end">
+            <button
+              type="submit"
+              className="rounded-lg bg-slate-900 px-4 py-2 text-xs font-medium text-white hover:bg-slate-800"
+            >
+              Add Rule
+            </button>
+          </div>
+        </form>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <div className="text-sm font-semibold text-slate-900">Statements for {report.monthLabel}</div>
+            <p className="mt-1 text-xs text-slate-500">
+              PAR as of {report.parAsOf}. Set each officer&apos;s base salary on their employee page.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-end gap-2">
+            <form className="flex items-end gap-2">
+              <input name="month" type="month" defaultValue={month} className={inputClass} />
+              <button
+                type="submit"
+                className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+              >
+                Show
+              </button>
+            </form>
+            <a
+              href={`/api/incentives?month=${month}&preview=true`}
+              target="_blank"
+              className="rounded-lg bg-slate-900 px-4 py-2 text-sm font-medium text-white hover:bg-slate-800"
+            >
+              Statements PDF
+            </a>
+            <a
+              href={`/api/incentives?month=${month}&format=xlsx`}
+              className="rounded-lg bg-emerald-600 px-4 py-2 text-sm font-medium text-white hover:bg-emerald-700"
+            >
+              Payroll XLSX
+            </a>
+          </div>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Collection Officer</th>
+                <th className="py-2 pr-4 text-right">Collections</th>
+                <th className="py-2 pr-4 text-right">New Members</th>
+                <th className="py-2 pr-4 text-right">Releases</th>
+                <th className="py-2 pr-4 text-right">PAR</th>
+                <th className="py-2 pr-4 text-right">Base Salary</th>
+                <th className="py-2 pr-4 text-right">Incentives</th>
+                <th className="py-2 pr-4 text-right">Total Pay</th>
+                <th className="py-2 pr-2 text-right"></th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {report.statements.map((statement) => (
+                <tr key={statement.employeeId} className="hover:bg-slate-50 align-top">
+                  <td className="py-2 pr-4 pl-2 font-medium text-slate-900">
+                    <Link
+                      href={`/app/employees/${statement.employeeId}`}
+                      className="hover:underline hover:text-blue-600"
+                    >
+                      {statement.employeeName}
+                    </Link>
+                    <div className="text-xs font-normal text-slate-500">{statement.groupNames.length} group(s)</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(statement.metrics.collections)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{statement.metrics.newMembers}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {statement.metrics.releaseCount}
+                    <div className="text-xs text-slate-500">{formatAmount(statement.metrics.releaseAmount)}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatPercent(statement.metrics.parRatio)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(statement.baseSalary)}</td>
+                  <td
+                    className={`py-2 pr-4 text-right font-semibold ${statement.incentiveTotal < 0 ? "text-red-600" : "text-slate-900"}`}
+                    title={statement.lines.map((line) => `${line.ruleName}: ${formatAmount(line.amount)}`).join("\n")}
+                  >
+                    {formatAmount(statement.incentiveTotal)}
+                  </td>
+                  <td className="py-2 pr-4 text-right font-semibold text-slate-900">{formatAmount(statement.totalPay)}</td>
+                  <td className="py-2 pr-2 text-right">
+                    <a
+                      href={`/api/incentives?month=${month}&employeeId=${statement.employeeId}&preview=true`}
+                      target="_blank"
+                      className="text-xs font-medium text-blue-600 hover:underline"
+                    >
+                      Statement
+                    </a>
+                  </td>
+                </tr>
+              ))}
+              {report.statements.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={9}>
+                    No collection officers found.
+                  </td>
+                </tr>
+              ) : (
+                <tr className="bg-slate-50 font-semibold text-slate-900">
+                  <td className="py-2 pr-4 pl-2" colSpan={5}>
+                    Total
+                  </td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(report.totals.baseSalary)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(report.totals.incentiveTotal)}</td>
+                  <td className="py-2 pr-4 text-right">{formatAmount(report.totals.totalPay)}</td>
+                  <td />
+                </tr>
+              )}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,7 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { getScopedBranchIds, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
 import { EmployeesClient } from "./employees-client";
 
 export default async function EmployeesPage({
@@ -9,21 +10,24 @@ export default async function EmployeesPage({
   searchParams: Promise<{ q?: string }>;
 }) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]);
+  requirePermission(user, "employee.manage");
   const sp = await searchParams;
   const q = (sp.q ?? "").trim();
+  const [branchIds, scopedGroupIds] = await Promise.all([getScopedBranchIds(user), getScopedGroupIds(user)]);
 
-  const where =
-    q.length > 0
+  const where = {
+    ...(branchIds ? { branchId: { in: branchIds } } : {}),
+    ...(q.length > 0
       ? {
         OR: [
           { firstName: { contains: q, mode: "insensitive" as const } },
           { lastName: { contains: q, mode: "insensitive" as const } },
         ],
       }
-      : {};
+      : {}),
+  };
 
-  const [employees, groups] = await Promise.all([
+  const [employees, groups, branches] = await Promise.all([
     prisma.employee.findMany({
       where,
       include: {
@@ -33,13 +37,16 @@ export default async function EmployeesPage({
             name: true,
           },
         },
+        branch: { select: { id: true, name: true } },
       },
       orderBy: { createdAt: "desc" },
     }),
     prisma.group.findMany({
+      where: scopedGroupIds ? { id: { in: scopedGroupIds } } : undefined,
       orderBy: { name: "asc" },
       select: { id: true, name: true, collectionOfficerId: true },
     }),
+    listBranches({ branchIds }),
   ]);
 
   const serializedEmployees = employees.map(e => ({
@@ -51,6 +58,7 @@ export default async function EmployeesPage({
     <EmployeesClient 
       initialEmployees={serializedEmployees} 
       initialGroups={groups}
+      initialBranches={branches}
       userRole={user.role} 
     />
   );
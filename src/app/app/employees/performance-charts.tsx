@@ -0,0 +1,162 @@
+import Link from "next/link";
+import type { GroupScorecard, PerformanceMetrics, PerformanceTrendPoint } from "@/lib/officer-performance";
+
+export const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+export const formatPercent = (value: number | null) => (value === null ? "-" : `${(value * 100).toFixed(1)}%`);
+
+export function efficiencyClass(value: number | null) {
+  if (value === null) return "text-slate-500";
+  if (value >= 0.95) return "text-emerald-600";
+  if (value >= 0.8) return "text-amber-700";
+  return "text-red-600";
+}
+
+/** Efficiency per period as bars, scaled so a full bar is at least 100% of dues. */
+export function EfficiencyTrendChart({ trend, compact = false }: { trend: PerformanceTrendPoint[]; compact?: boolean }) {
+  const max = Math.max(1, ...trend.map((point) => point.efficiency ?? 0));
+
+  return (
+    <div className={compact ? "flex h-8 w-32 items-end gap-px" : ""}>
+      <div className={compact ? "contents" : "flex h-48 items-end justify-between gap-2 px-2"}>
+        {trend.map((point) => {
+          const height = point.efficiency === null ? 0 : (point.efficiency / max) * 100;
+          const title = `${point.label}: ${formatPercent(point.efficiency)} (${formatAmount(point.scheduledCollected)} of ${formatAmount(point.due)})`;
+          return compact ? (
+            <div
+              key={point.bucket}
+              className={`flex-1 rounded-t-sm ${point.efficiency === null ? "bg-slate-200" : point.efficiency >= 0.95 ? "bg-emerald-400" : point.efficiency >= 0.8 ? "bg-amber-400" : "bg-red-400"}`}
+              style={{ height: `${Math.max(6, height)}%` }}
+              title={title}
+            />
+          ) : (
+            <div key={point.bucket} className="flex h-full flex-1 flex-col items-center justify-end gap-2">
+              <div className="flex h-[75%] w-full items-end justify-center">
+                <div
+                  className={`w-full max-w-[28px] rounded-t-lg ${point.efficiency === null ? "bg-slate-200" : point.efficiency >= 0.95 ? "bg-emerald-500" : point.efficiency >= 0.8 ? "bg-amber-500" : "bg-red-500"}`}
+                  style={{ height: `${Math.max(3, height)}%` }}
+                  title={title}
+                />
+              </div>
+              <span className="text-[10px] font-semibold text-slate-600">{formatPercent(point.efficiency)}</span>
+              <span className="text-[10px] uppercase tracking-tight text-slate-500 whitespace-nowrap">{point.label}</span>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export function ScorecardSummary({ metrics }: { metrics: PerformanceMetrics }) {
+  const cards = [
+    {
+      label: "Collection Efficiency",
+      value: formatPercent(metrics.efficiency),
+      valueClass: efficiencyClass(metrics.efficiency),
+      note: `${formatAmount(metrics.scheduledCollected)} of ${formatAmount(metrics.due)} due`,
+    },
+    {
+      label: "PAR",
+      value: formatPercent(metrics.parRatio),
+      valueClass: "text-slate-900",
+      note: `${formatAmount(metrics.parAtRisk)} at risk · ${formatPercent(metrics.parShare)} of total`,
+    },
+    {
+      label: "New Releases",
+      value: metrics.releaseCount.toLocaleString(),
+      valueClass: "text-slate-900",
+      note: formatAmount(metrics.releaseAmount),
+    },
+    {
+      label: "Full Repayments",
+      value: metrics.fullRepaymentCount.toLocaleString(),
+      valueClass: "text-slate-900",
+      note: formatAmount(metrics.fullRepaymentAmount),
+    },
+    {
+      label: "Attrition",
+      value: formatPercent(metrics.attritionRate),
+      valueClass: "text-slate-900",
+      note: `${metrics.attritionCount} left · ${metrics.activeMembers} active`,
+    },
+  ];
+
+  return (
+    <div className="grid gap-3 md:grid-cols-5">
+      {cards.map((card) => (
+        <div key={card.label} className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+          <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">{card.label}</div>
+          <div className={`mt-2 text-xl font-semibold ${card.valueClass}`}>{card.value}</div>
+          <div className="mt-1 text-xs text-slate-500">{card.note}</div>
+        </div>
+      ))}
+    </div>
+  );
+}
+
+export function GroupScorecardTable({ groups }: { groups: GroupScorecard[] }) {
+  return (
+    <div className="overflow-x-auto">
+      <table className="min-w-full text-left text-sm">
+        <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+          <tr>
+            <th className="py-2 pr-4 pl-2">Group</th>
+            <th className="py-2 pr-4 text-right">Due</th>
+            <th className="py-2 pr-4 text-right">Collected</th>
+            <th className="py-2 pr-4 text-right">Efficiency</th>
+            <th className="py-2 pr-4 text-right">PAR</th>
+            <th className="py-2 pr-4 text-right">Releases</th>
+            <th className="py-2 pr-4 text-right">Full Repaid</th>
+            <th className="py-2 pr-2 text-right">Attrition</th>
+          </tr>
+        </thead>
+        <tbody className="divide-y divide-slate-200">
+          {groups.map((group) => (
+            <tr key={group.groupId} className="hover:bg-slate-50">
+              <td className="py-2 pr-4 pl-2 font-medium text-slate-900">
+                <Link href={`/app/groups/${group.groupId}`} className="hover:underline hover:text-blue-600">
+                  {group.groupName}
+                </Link>
+                <div className="text-xs font-normal text-slate-500">
+                  {group.heldAtParAsOf ? `${group.activeMembers} active` : `Handed over after ${group.assignedTo}`}
+                </div>
+              </td>
+              <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(group.due)}</td>
+              <td className="py-2 pr-4 text-right text-slate-700">
+                {formatAmount(group.scheduledCollected)}
+                {group.collected !== group.scheduledCollected ? (
+                  <div className="text-xs text-slate-500">{formatAmount(group.collected)} total</div>
+                ) : null}
+              </td>
+              <td className={`py-2 pr-4 text-right font-semibold ${efficiencyClass(group.efficiency)}`}>
+                {formatPercent(group.efficiency)}
+              </td>
+              <td className="py-2 pr-4 text-right text-slate-700">
+                {formatPercent(group.parRatio)}
+                <div className="text-xs text-slate-500">{formatAmount(group.parAtRisk)}</div>
+              </td>
+              <td className="py-2 pr-4 text-right text-slate-700">
+                {group.releaseCount}
+                <div className="text-xs text-slate-500">{formatAmount(group.releaseAmount)}</div>
+              </td>
+              <td className="py-2 pr-4 text-right text-slate-700">{group.fullRepaymentCount}</td>
+              <td className="py-2 pr-2 text-right text-slate-700">
+                {group.attritionCount}
+                <div className="text-xs text-slate-500">{formatPercent(group.attritionRate)}</div>
+              </td>
+            </tr>
+          ))}
+          {groups.length === 0 ? (
+            <tr>
+              <td className="py-4 text-slate-500 pl-2" colSpan={8}>
+                No groups assigned.
+              </td>
+            </tr>
+          ) : null}
+        </tbody>
+      </table>
+    </div>
+  );
+}
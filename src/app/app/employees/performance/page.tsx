@@ -0,0 +1,144 @@
+import Link from "next/link";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getReportPreset1Month } from "@/lib/date";
+import { getOfficerPerformance } from "@/lib/officer-performance";
+import { DateRangeFilter } from "../../reports/date-filter";
+import {
+  EfficiencyTrendChart,
+  ScorecardSummary,
+  efficiencyClass,
+  formatAmount,
+  formatPercent,
+} from "../performance-charts";
+
+export default async function OfficerPerformancePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "employee.performance");
+
+  const sp = await searchParams;
+  const defaultPreset = getReportPreset1Month();
+  const from =
+    (sp.from?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.from) ? sp.from : null) ??
+    defaultPreset.from;
+  const to =
+    (sp.to?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.to) ? sp.to : null) ??
+    defaultPreset.to;
+
+  const report = await getOfficerPerformance({ from, to });
+  const periodQuery = `from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Officer Performance</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Collection efficiency is what was collected on scheduled loans divided by the installments that fell due.
+              Activity counts toward the officer assigned to the group on the day it happened; PAR is as of{" "}
+              {report.parAsOf} and counts toward the officer assigned then.
+            </p>
+          </div>
+          <Link
+            href="/app/employees"
+            className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Back to Employees
+          </Link>
+        </div>
+
+        <DateRangeFilter
+          from={from}
+          to={to}
+          basePath="/app/employees/performance"
+          description="Scorecards cover dues, collections, releases and exits within the range."
+        />
+
+        <div className="mt-4">
+          <ScorecardSummary metrics={report.totals} />
+        </div>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">
+          Ranking <span className="font-normal text-slate-500">· trend by {report.granularity}</span>
+        </div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">#</th>
+                <th className="py-2 pr-4">Collection Officer</th>
+                <th className="py-2 pr-4 text-right">Efficiency</th>
+                <th className="py-2 pr-4">Trend</th>
+                <th className="py-2 pr-4 text-right">Collected / Due</th>
+                <th className="py-2 pr-4 text-right">PAR</th>
+                <th className="py-2 pr-4 text-right">Share of PAR</th>
+                <th className="py-2 pr-4 text-right">Releases</th>
+                <th className="py-2 pr-4 text-right">Full Repaid</th>
+                <th className="py-2 pr-2 text-right">Attrition</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {report.officers.map((officer) => (
+                <tr key={officer.officerId} className="hover:bg-slate-50 align-top">
+                  <td className="py-2 pr-4 pl-2 font-semibold text-slate-500">{officer.rank}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-900">
+                    <Link
+                      href={`/app/employees/${officer.officerId}?${periodQuery}`}
+                      className="hover:underline hover:text-blue-600"
+                    >
+                      {officer.officerName}
+                    </Link>
+                    <div className="text-xs font-normal text-slate-500">
+                      {officer.groups.length} group(s) · {officer.activeMembers} active
+                    </div>
+                  </td>
+                  <td className={`py-2 pr-4 text-right font-semibold ${efficiencyClass(officer.efficiency)}`}>
+                    {formatPercent(officer.efficiency)}
+                  </td>
+                  <td className="py-2 pr-4">
+                    <EfficiencyTrendChart trend={officer.trend} compact />
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {formatAmount(officer.scheduledCollected)}
+                    <div className="text-xs text-slate-500">of {formatAmount(officer.due)}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {formatPercent(officer.parRatio)}
+                    <div className="text-xs text-slate-500">{formatAmount(officer.parAtRisk)}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatPercent(officer.parShare)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {officer.releaseCount}
+                    <div className="text-xs text-slate-500">{formatAmount(officer.releaseAmount)}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {officer.fullRepaymentCount}
+                    <div className="text-xs text-slate-500">{formatAmount(officer.fullRepaymentAmount)}</div>
+                  </td>
+                  <td className="py-2 pr-2 text-right text-slate-700">
+                    {officer.attritionCount}
+                    <div className="text-xs text-slate-500">{formatPercent(officer.attritionRate)}</div>
+                  </td>
+                </tr>
+              ))}
+              {report.officers.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={10}>
+                    No collection officers found.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,29 +1,56 @@
 import Link from "next/link";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { assertBranchAccess, getScopedBranchIds, requireGroupAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
+import { Weekday } from "@prisma/client";
 import { z } from "zod";
 import { redirect } from "next/navigation";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { MeetingScheduleSchema, WEEKDAY_LABELS } from "@/lib/meetings";
+import { listGroupAssignmentHistory, setGroupCollectionOfficer } from "@/lib/officer-assignments";
 import { SubmitButton } from "../../../_components/submit-button";
 
-const UpdateGroupSchema = z.object({
-  name: z.string().min(1).max(120),
-  description: z.string().max(500).optional(),
-  collectionOfficerId: z.string().uuid().optional().nullable(),
-});
+const UpdateGroupSchema = z
+  .object({
+    name: z.string().min(1).max(120),
+    description: z.string().max(500).optional(),
+    collectionOfficerId: z.string().uuid().optional().nullable(),
+    officerEffectiveFrom: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    branchId: z.string().uuid(),
+  })
+  .extend(MeetingScheduleSchema.shape);
+
+const GROUP_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  collectionOfficerId: true,
+  branchId: true,
+  meetingWeekday: true,
+  meetingTime: true,
+  meetingVenue: true,
+  meetingBarangay: true,
+} as const;
 
 async function updateGroupAction(groupId: string, formData: FormData) {
   "use server";
 
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(actor, "group.update");
 
   const rawCo = String(formData.get("collectionOfficerId") || "").trim();
   const parsed = UpdateGroupSchema.safeParse({
     name: String(formData.get("name") || "").trim(),
     description: String(formData.get("description") || "").trim() || undefined,
     collectionOfficerId: rawCo === "" ? null : rawCo,
+    officerEffectiveFrom: String(formData.get("officerEffectiveFrom") || ""),
+    branchId: String(formData.get("branchId") || ""),
+    meetingWeekday: String(formData.get("meetingWeekday") || "") || null,
+    meetingTime: String(formData.get("meetingTime") || "").trim() || null,
+    meetingVenue: String(formData.get("meetingVenue") || ""),
+    meetingBarangay: String(formData.get("meetingBarangay") || ""),
   });
 
   if (!parsed.success) redirect(`/app/groups/${groupId}/edit?saved=0`);
@@ -33,18 +60,32 @@ async function updateGroupAction(groupId: string, formData: FormData) {
     await prisma.$transaction(async (tx) => {
       const before = await tx.group.findUnique({
         where: { id: groupId },
-        select: { id: true, name: true, description: true, collectionOfficerId: true },
+        select: GROUP_SELECT,
       });
       if (!before) throw new Error("Group not found");
+      await assertBranchAccess(actor, before.branchId);
+      await assertBranchAccess(actor, parsed.data!.branchId);
+
+      await setGroupCollectionOfficer(tx, {
+        groupId,
+        employeeId: parsed.data!.collectionOfficerId ?? null,
+        effectiveFrom: parsed.data!.officerEffectiveFrom,
+        today: formatDateYMD(getManilaBusinessDate()),
+        userId: actor.id,
+      });
 
       const after = await tx.group.update({
         where: { id: groupId },
         data: {
           name: parsed.data!.name,
           description: parsed.data!.description,
-          collectionOfficerId: parsed.data!.collectionOfficerId ?? null,
+          branchId: parsed.data!.branchId,
+          meetingWeekday: parsed.data!.meetingWeekday ?? null,
+          meetingTime: parsed.data!.meetingTime ?? null,
+          meetingVenue: parsed.data!.meetingVenue ?? null,
+          meetingBarangay: parsed.data!.meetingBarangay ?? null,
         },
-        select: { id: true, name: true, description: true, collectionOfficerId: true },
+        select: GROUP_SELECT,
       });
 
       await createAuditLog(tx, {
@@ -52,7 +93,7 @@ async function updateGroupAction(groupId: string, formData: FormData) {
         action: "GROUP_UPDATE",
         entityType: "Group",
         entityId: groupId,
-        metadata: { before, after },
+        metadata: { before, after, officerEffectiveFrom: parsed.data!.officerEffectiveFrom },
         request,
       });
     });
@@ -71,20 +112,26 @@ export default async function EditGroupPage({
   searchParams: Promise<{ saved?: string }>;
 }) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "group.update");
 
   const { groupId } = await params;
   const sp = await searchParams;
+  await requireGroupAccess(user, groupId);
+  const scopedBranchIds = await getScopedBranchIds(user);
 
-  const [collectionOfficers, group] = await Promise.all([
+  const today = formatDateYMD(getManilaBusinessDate());
+  const [collectionOfficers, group, assignmentHistory, branches] = await Promise.all([
     prisma.employee.findMany({
+      where: scopedBranchIds ? { branchId: { in: scopedBranchIds } } : undefined,
       orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
       select: { id: true, firstName: true, lastName: true },
     }),
     prisma.group.findUnique({
       where: { id: groupId },
-      select: { id: true, name: true, description: true, collectionOfficerId: true },
+      select: GROUP_SELECT,
     }),
+    listGroupAssignmentHistory(groupId),
+    listBranches({ branchIds: scopedBranchIds }),
   ]);
 
   if (!group) {
@@ -113,6 +160,12 @@ export default async function EditGroupPage({
           </div>
         </div>
 
+        {sp.saved === "0" ? (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            Changes were not saved. Check the fields, and that an officer change is not dated in the future or
+            before the current officer&apos;s start date.
+          </div>
+        ) : null}
 
         <form action={updateGroupAction.bind(null, groupId)} className="mt-6 grid gap-3 md:grid-cols-3">
           <div className="md:col-span-1">
@@ -132,7 +185,22 @@ export default async function EditGroupPage({
               className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
             />
           </div>
-          <div className="md:col-span-3">
+          <div>
+            <label className="text-sm font-medium text-slate-900">Branch</label>
+            <select
+              name="branchId"
+              defaultValue={group.branchId}
+              required
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            >
+              {branches.map((branch) => (
+                <option key={branch.id} value={branch.id}>
+                  {branch.name}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
             <label className="text-sm font-medium text-slate-900">Collection Officer (optional)</label>
             <select
               name="collectionOfficerId"
@@ -147,6 +215,59 @@ export default async function EditGroupPage({
               ))}
             </select>
           </div>
+          <div>
+            <label className="text-sm font-medium text-slate-900">Officer Change Effective</label>
+            <input
+              name="officerEffectiveFrom"
+              type="date"
+              defaultValue={today}
+              max={today}
+              required
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-900">Meeting Day</label>
+            <select
+              name="meetingWeekday"
+              defaultValue={group.meetingWeekday ?? ""}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            >
+              <option value="">No schedule</option>
+              {Object.values(Weekday).map((weekday) => (
+                <option key={weekday} value={weekday}>
+                  {WEEKDAY_LABELS[weekday]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-900">Meeting Time</label>
+            <input
+              name="meetingTime"
+              type="time"
+              defaultValue={group.meetingTime ?? ""}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-900">Venue</label>
+            <input
+              name="meetingVenue"
+              defaultValue={group.meetingVenue ?? ""}
+              maxLength={120}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
+          <div>
+            <label className="text-sm font-medium text-slate-900">Barangay</label>
+            <input
+              name="meetingBarangay"
+              defaultValue={group.meetingBarangay ?? ""}
+              maxLength={120}
+              className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+          </div>
 
           <div className="md:col-span-3 mt-2 flex flex-wrap items-center gap-2">
             <SubmitButton loadingText="Saving...">
@@ -161,6 +282,39 @@ export default async function EditGroupPage({
           </div>
         </form>
       </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <h2 className="text-base font-semibold text-slate-900">Collection Officer History</h2>
+        <p className="mt-1 text-sm text-slate-500">
+          Collections are credited to the officer assigned on the day they were made.
+        </p>
+        {assignmentHistory.length === 0 ? (
+          <div className="mt-4 text-sm text-slate-500">No collection officer has been assigned.</div>
+        ) : (
+          <div className="mt-4 overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="border-b border-slate-200 text-left text-xs font-semibold uppercase tracking-wide text-slate-500">
+                  <th className="py-2 pr-4">Officer</th>
+                  <th className="py-2 pr-4">From</th>
+                  <th className="py-2 pr-4">To</th>
+                  <th className="py-2">Assigned By</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {assignmentHistory.map((row) => (
+                  <tr key={row.id}>
+                    <td className="py-2 pr-4 text-slate-900">{row.employeeName}</td>
+                    <td className="py-2 pr-4 text-slate-700">{row.from}</td>
+                    <td className="py-2 pr-4 text-slate-700">{row.to ?? "Current"}</td>
+                    <td className="py-2 text-slate-500">{row.assignedBy ?? "-"}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
     </div>
   );
 }
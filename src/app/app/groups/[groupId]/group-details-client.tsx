@@ -27,6 +27,11 @@ interface GroupDetailsClientProps {
   };
   sort: "asc" | "desc";
   createdStatus?: string;
+  meetings: {
+    schedule: string | null;
+    meetingCount: number;
+    attendanceRate: number | null;
+  };
 }
 
 export function GroupDetailsClient({
@@ -35,6 +40,7 @@ export function GroupDetailsClient({
   initialMembers,
   userRole,
   pagination,
+  meetings,
 }: GroupDetailsClientProps) {
   return (
     <div className="flex flex-col gap-6">
@@ -52,9 +58,20 @@ export function GroupDetailsClient({
                 {group.collectionOfficer.lastName}
               </p>
             ) : null}
+            <p className="mt-1 text-sm text-slate-500">
+              {meetings.schedule ? `Meets ${meetings.schedule}` : "No meeting schedule"}
+              {meetings.meetingCount > 0
+                ? ` · attendance ${meetings.attendanceRate === null ? "-" : `${(meetings.attendanceRate * 100).toFixed(1)}%`} over ${meetings.meetingCount} meeting(s)`
+                : ""}
+            </p>
           </div>
           <div className="flex gap-2">
-             {/* Additional group actions can go here */}
+            <Link
+              href={`/app/groups/${group.id}/meetings`}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Attendance
+            </Link>
           </div>
         </div>
       </div>
@@ -0,0 +1,322 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { AttendanceStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requireGroupAccess } from "@/lib/auth/access";
+import { hasPermission, requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import {
+  ATTENDANCE_STATUS_LABELS,
+  RecordAttendanceSchema,
+  formatMeetingSchedule,
+  getGroupAttendanceSummary,
+  getMeetingSheet,
+  getWeekdayForDate,
+  recordMeetingAttendance,
+} from "@/lib/meetings";
+import { SubmitButton } from "../../../_components/submit-button";
+
+async function recordAttendanceAction(groupId: string, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "meeting.record");
+  await requireGroupAccess(user, groupId);
+
+  const pagePath = `/app/groups/${groupId}/meetings`;
+  const meetingDate = String(formData.get("meetingDate") || "");
+  const entries = formData
+    .getAll("memberIds")
+    .map(String)
+    .map((memberId) => ({ memberId, status: String(formData.get(`status_${memberId}`) || "") }))
+    .filter((entry) => entry.status !== "");
+
+  const parsed = RecordAttendanceSchema.safeParse({
+    meetingDate,
+    notes: String(formData.get("notes") || ""),
+    entries,
+  });
+  if (!parsed.success) redirect(`${pagePath}?date=${encodeURIComponent(meetingDate)}&error=invalid`);
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const meeting = await recordMeetingAttendance(tx, {
+        ...parsed.data,
+        groupId,
+        today: formatDateYMD(getManilaBusinessDate()),
+        userId: user.id,
+      });
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "MEETING_ATTENDANCE_RECORD",
+        entityType: "GroupMeeting",
+        entityId: meeting.id,
+        metadata: {
+          groupId,
+          meetingDate: parsed.data.meetingDate,
+          present: meeting.counts.PRESENT,
+          late: meeting.counts.LATE,
+          excused: meeting.counts.EXCUSED,
+          absent: meeting.counts.ABSENT,
+        },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Meeting attendance error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) {
+    redirect(`${pagePath}?date=${encodeURIComponent(meetingDate)}&error=${encodeURIComponent(errorCode)}`);
+  }
+
+  revalidatePath(pagePath);
+  revalidatePath(`/app/groups/${groupId}`);
+  revalidatePath("/app/meetings");
+  redirect(`${pagePath}?date=${encodeURIComponent(meetingDate)}&status=saved`);
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Mark at least one member.",
+  MEETING_DATE_IN_FUTURE: "Attendance cannot be recorded for a future date.",
+  ATTENDANCE_DUPLICATE_MEMBER: "A member appears more than once.",
+  MEMBER_NOT_IN_GROUP: "A member on the sheet is no longer in this group. Reload and try again.",
+};
+
+const STATUS_CLASSES: Record<AttendanceStatus, string> = {
+  PRESENT: "peer-checked:bg-emerald-600 peer-checked:text-white peer-checked:border-emerald-600",
+  LATE: "peer-checked:bg-amber-500 peer-checked:text-white peer-checked:border-amber-500",
+  EXCUSED: "peer-checked:bg-slate-500 peer-checked:text-white peer-checked:border-slate-500",
+  ABSENT: "peer-checked:bg-red-600 peer-checked:text-white peer-checked:border-red-600",
+};
+
+const formatRate = (rate: number | null) => (rate === null ? "-" : `${(rate * 100).toFixed(1)}%`);
+
+export default async function GroupMeetingsPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ groupId: string }>;
+  searchParams: Promise<{ date?: string; status?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "meeting.view");
+  const { groupId } = await params;
+  await requireGroupAccess(user, groupId);
+
+  const sp = await searchParams;
+  const today = formatDateYMD(getManilaBusinessDate());
+  const date = sp.date && /^\d{4}-\d{2}-\d{2}$/.test(sp.date) && sp.date <= today ? sp.date : today;
+  const canRecord = hasPermission(user, "meeting.record");
+
+  const group = await prisma.group.findUnique({
+    where: { id: groupId },
+    select: { id: true, name: true, meetingWeekday: true, meetingTime: true, meetingVenue: true, meetingBarangay: true },
+  });
+
+  if (!group) {
+    return (
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm text-slate-500">Group not found.</div>
+        <div className="mt-4">
+          <Link href="/app/groups" className="text-sm font-medium text-slate-700 hover:underline">
+            Back to Groups
+          </Link>
+        </div>
+      </div>
+    );
+  }
+
+  const [sheet, summary] = await Promise.all([getMeetingSheet(groupId, date), getGroupAttendanceSummary(groupId)]);
+  const schedule = formatMeetingSchedule(group);
+  const offSchedule = group.meetingWeekday !== null && getWeekdayForDate(date) !== group.meetingWeekday;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <Link href={`/app/groups/${groupId}`} className="text-sm text-slate-500 hover:underline">
+              ← Back to Group
+            </Link>
+            <h1 className="mt-2 text-xl font-semibold text-slate-900">{group.name} Attendance</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {schedule ? `Meets ${schedule}.` : "No meeting schedule set."} Attendance rate{" "}
+              {formatRate(summary.overall.rate)} over {summary.meetingCount} meeting(s).
+            </p>
+          </div>
+          <form className="flex items-end gap-2">
+            <input
+              type="date"
+              name="date"
+              defaultValue={date}
+              max={today}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+            <button
+              type="submit"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Open
+            </button>
+          </form>
+        </div>
+
+        {sp.status === "saved" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Attendance saved.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to save attendance."}
+          </div>
+        )}
+        {offSchedule && (
+          <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            {date} is not this group&apos;s scheduled meeting day. It will still be recorded as a meeting.
+          </div>
+        )}
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">
+          Meeting on {date}
+          {sheet.meeting ? (
+            <span className="font-normal text-slate-500"> · recorded by {sheet.meeting.recordedBy}</span>
+          ) : (
+            <span className="font-normal text-slate-500"> · not yet recorded</span>
+          )}
+        </div>
+
+        <form action={recordAttendanceAction.bind(null, groupId)} className="mt-4">
+          <input type="hidden" name="meetingDate" value={date} />
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+                <tr>
+                  <th className="py-2 pr-4 pl-2">Member</th>
+                  <th className="py-2 pr-4">Status</th>
+                  <th className="py-2 pr-2 text-right">Attendance Rate</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {sheet.members.map((member) => {
+                  const selected = member.status ?? (sheet.meeting ? null : AttendanceStatus.PRESENT);
+                  return (
+                    <tr key={member.id} className="hover:bg-slate-50">
+                      <td className="py-2 pr-4 pl-2 font-medium text-slate-900">
+                        <input type="hidden" name="memberIds" value={member.id} />
+                        <Link href={`/app/members/${member.id}`} className="hover:underline hover:text-blue-600">
+                          {member.name}
+                        </Link>
+                      </td>
+                      <td className="py-2 pr-4">
+                        <div className="flex flex-wrap gap-1">
+                          {Object.values(AttendanceStatus).map((status) => (
+                            <label key={status} className="cursor-pointer">
+                              <input
+                                type="radio"
+                                name={`status_${member.id}`}
+                                value={status}
+                                defaultChecked={selected === status}
+                                disabled={!canRecord}
+                                className="peer sr-only"
+                              />
+                              <span
+                                className={`inline-block rounded-md border border-slate-200 px-2 py-1 text-xs text-slate-600 ${STATUS_CLASSES[status]}`}
+                              >
+                                {ATTENDANCE_STATUS_LABELS[status]}
+                              </span>
+                            </label>
+                          ))}
+                        </div>
+                      </td>
+                      <td className="py-2 pr-2 text-right text-slate-700">
+                        {formatRate(member.attendance.rate)}
+                        <div className="text-xs text-slate-500">
+                          {member.attendance.ABSENT} absent · {member.attendance.LATE} late
+                        </div>
+                      </td>
+                    </tr>
+                  );
+                })}
+                {sheet.members.length === 0 ? (
+                  <tr>
+                    <td className="py-4 text-slate-500 pl-2" colSpan={3}>
+                      No active members in this group.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+
+          {canRecord && sheet.members.length > 0 ? (
+            <div className="mt-4 flex flex-wrap items-end gap-3">
+              <div className="min-w-[240px] flex-1">
+                <label className="text-sm font-medium text-slate-700">Notes</label>
+                <input
+                  name="notes"
+                  defaultValue={sheet.meeting?.notes ?? ""}
+                  maxLength={500}
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                />
+              </div>
+              <SubmitButton loadingText="Saving...">{sheet.meeting ? "Update Attendance" : "Save Attendance"}</SubmitButton>
+            </div>
+          ) : null}
+        </form>
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">Recent Meetings</div>
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Date</th>
+                <th className="py-2 pr-4 text-right">Present</th>
+                <th className="py-2 pr-4 text-right">Late</th>
+                <th className="py-2 pr-4 text-right">Excused</th>
+                <th className="py-2 pr-4 text-right">Absent</th>
+                <th className="py-2 pr-2 text-right">Rate</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {summary.recent.map((meeting) => (
+                <tr key={meeting.date} className="hover:bg-slate-50">
+                  <td className="py-2 pr-4 pl-2">
+                    <Link
+                      href={`/app/groups/${groupId}/meetings?date=${meeting.date}`}
+                      className="font-medium text-slate-900 hover:underline hover:text-blue-600"
+                    >
+                      {meeting.date}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{meeting.counts.PRESENT}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{meeting.counts.LATE}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{meeting.counts.EXCUSED}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{meeting.counts.ABSENT}</td>
+                  <td className="py-2 pr-2 text-right font-semibold text-slate-900">{formatRate(meeting.counts.rate)}</td>
+                </tr>
+              ))}
+              {summary.recent.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={6}>
+                    No meetings recorded yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
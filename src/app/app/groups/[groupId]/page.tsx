@@ -1,6 +1,6 @@
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds, requireCollectorGroupAccess } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { getScopedGroupIds, requireGroupAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { Role } from "@prisma/client";
 import Link from "next/link";
 import { redirect } from "next/navigation";
@@ -8,11 +8,15 @@ import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 import { revalidatePath } from "next/cache";
 import { GroupDetailsClient } from "./group-details-client";
 import { getManilaBusinessDate, getManilaDateRange, formatDateYMD } from "@/lib/date";
+import { applyLoanDeduction, deductionExceedsLoan } from "@/lib/loans";
+import { assertMemberLedgerOpen, assertPeriodOpen } from "@/lib/period-close";
+import { formatMeetingSchedule, getGroupAttendanceSummary } from "@/lib/meetings";
 
 async function deleteMemberAction(groupId: string, memberId: string) {
   "use server";
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "member.delete");
+  await requireGroupAccess(actor, groupId);
 
   try {
     const request = await tryGetAuditRequestContext();
@@ -21,8 +25,10 @@ async function deleteMemberAction(groupId: string, memberId: string) {
         where: { id: memberId },
         select: { id: true, firstName: true, lastName: true, groupId: true },
       });
-      if (!member) return;
+      if (!member || member.groupId !== groupId) return;
 
+      // Deleting cascades to the member's ledger rows, which closed periods still rely on
+      await assertMemberLedgerOpen(tx, member.id);
       await tx.member.delete({ where: { id: memberId } });
 
       await createAuditLog(tx, {
@@ -44,7 +50,8 @@ async function deleteMemberAction(groupId: string, memberId: string) {
 async function onBulkUpdate(groupId: string, updates: { memberId: string; balanceDeduct: string; savingsIncrease: string; processingFee: string; daysCount: string; notes?: string }[]) {
   "use server";
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(actor, "adjustment.create");
+  await requireGroupAccess(actor, groupId);
 
   const request = await tryGetAuditRequestContext();
   const businessDate = getManilaBusinessDate();
@@ -55,9 +62,12 @@ async function onBulkUpdate(groupId: string, updates: { memberId: string; balanc
   const warnings: { memberId: string; message: string }[] = [];
 
   await prisma.$transaction(async (tx) => {
+    await assertPeriodOpen(tx, businessDate);
+
     for (const update of updates) {
-      const member = await tx.member.findUnique({
-        where: { id: update.memberId },
+      // Only members of this group, which requireGroupAccess has scoped
+      const member = await tx.member.findFirst({
+        where: { id: update.memberId, groupId },
         select: { id: true, firstName: true, lastName: true, balance: true, savings: true, daysCount: true },
       });
       if (!member) continue;
@@ -94,6 +104,9 @@ async function onBulkUpdate(groupId: string, updates: { memberId: string; balanc
           where: {
             memberId: member.id,
             createdAt: { gte: todayRange.from, lte: todayRange.to },
+            savingsOffset: { is: null },
+            reversalOfId: null,
+            reversal: { is: null },
           },
         });
 
@@ -111,6 +124,12 @@ async function onBulkUpdate(groupId: string, updates: { memberId: string; balanc
             type: "balance",
             message: `Balance for ${member.firstName} has already been updated today.`
           });
+        } else if (await deductionExceedsLoan(tx, member.id, balanceDeduct)) {
+          errors.push({
+            memberId: member.id,
+            type: "balance",
+            message: `Payment for ${member.firstName} is more than the outstanding balance of their loan.`,
+          });
         } else {
           const balanceBefore = member.balance;
           const balanceAfter = balanceBefore.minus(balanceDeduct);
@@ -126,6 +145,8 @@ async function onBulkUpdate(groupId: string, updates: { memberId: string; balanc
             },
           });
 
+          const loanId = await applyLoanDeduction(tx, member.id, balanceDeduct);
+
           await tx.balanceAdjustment.create({
             data: {
               memberId: member.id,
@@ -134,6 +155,7 @@ async function onBulkUpdate(groupId: string, updates: { memberId: string; balanc
               amount: balanceDeduct,
               balanceBefore,
               balanceAfter,
+              loanId,
               createdAt: businessDate,
             },
           });
@@ -165,6 +187,9 @@ async function onBulkUpdate(groupId: string, updates: { memberId: string; balanc
           where: {
             memberId: member.id,
             createdAt: { gte: todayRange.from, lte: todayRange.to },
+            type: { not: "APPLY_TO_BALANCE" },
+            reversalOfId: null,
+            reversal: { is: null },
           },
         });
 
@@ -242,11 +267,11 @@ export default async function GroupDetailsPage({
   }>;
 }) {
   const user = await requireUser();
-  requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+  requirePermission(user, "group.view");
   const { groupId } = await params;
   const sp = await searchParams;
-  await requireCollectorGroupAccess(user, groupId);
-  const collectorGroupIds = await getCollectorScopedGroupIds(user);
+  await requireGroupAccess(user, groupId);
+  const scopedGroupIds = await getScopedGroupIds(user);
 
   const businessDate = getManilaBusinessDate();
   const todayStr = formatDateYMD(businessDate);
@@ -265,7 +290,7 @@ export default async function GroupDetailsPage({
     }),
     prisma.member.count({ where: { groupId, status: "ACTIVE" } }),
     prisma.group.findMany({
-      where: collectorGroupIds ? { id: { in: collectorGroupIds } } : undefined,
+      where: scopedGroupIds ? { id: { in: scopedGroupIds } } : undefined,
       select: { id: true, name: true },
       orderBy: { name: "asc" },
     }),
@@ -333,6 +358,7 @@ export default async function GroupDetailsPage({
   }
 
   const totalPages = Math.ceil(totalCount / limit);
+  const attendance = await getGroupAttendanceSummary(group.id, 0);
 
   const plainMembers = (members as any[]).map((m) => ({
     id: m.id,
@@ -385,6 +411,11 @@ export default async function GroupDetailsPage({
       pagination={{ page, limit, totalCount, totalPages }}
       sort={sort}
       createdStatus={sp.created}
+      meetings={{
+        schedule: formatMeetingSchedule(group),
+        meetingCount: attendance.meetingCount,
+        attendanceRate: attendance.overall.rate,
+      }}
     />
   );
 }
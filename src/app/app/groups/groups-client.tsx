@@ -11,6 +11,8 @@ type Group = {
   name: string;
   description: string | null;
   collectionOfficerId: string | null;
+  branchId: string;
+  branch: { id: string; name: string };
   collectionOfficer: {
     id: string;
     firstName: string;
@@ -32,11 +34,17 @@ type GroupOption = {
   name: string;
 };
 
+type BranchOption = {
+  id: string;
+  name: string;
+};
+
 interface GroupsClientProps {
   initialGroups: Group[];
   initialTotal: number;
   initialCollectionOfficers: CollectionOfficer[];
   initialGroupOptions: GroupOption[];
+  initialBranches: BranchOption[];
   canCreate: boolean;
   canDelete: boolean;
 }
@@ -94,6 +102,7 @@ export function GroupsClient({
   initialTotal,
   initialCollectionOfficers,
   initialGroupOptions,
+  initialBranches,
   canCreate,
   canDelete,
 }: GroupsClientProps) {
@@ -121,10 +130,12 @@ export function GroupsClient({
   const [isConfirming, setIsConfirming] = useState(false);
   
   // Form State
+  const defaultBranchId = initialBranches.length === 1 ? initialBranches[0].id : "";
   const [formData, setFormData] = useState({
     name: "",
     description: "",
     collectionOfficerId: "",
+    branchId: defaultBranchId,
   });
 
   const limit = 20;
@@ -189,6 +200,7 @@ export function GroupsClient({
         name: group.name,
         description: group.description || "",
         collectionOfficerId: group.collectionOfficerId || "",
+        branchId: group.branchId,
       });
     } else {
       setEditingGroup(null);
@@ -196,6 +208,7 @@ export function GroupsClient({
         name: "",
         description: "",
         collectionOfficerId: "",
+        branchId: defaultBranchId,
       });
     }
     setIsModalOpen(true);
@@ -376,6 +389,7 @@ export function GroupsClient({
                 <th className="py-3 pr-4 font-medium">Name</th>
                 <th className="py-3 px-4 font-medium">Description</th>
                 <th className="py-3 px-4 font-medium">Officer</th>
+                <th className="py-3 px-4 font-medium">Branch</th>
                 <th className="py-3 px-4 font-medium text-right">Active Members</th>
                 <th className="py-3 pl-4 text-right font-medium">Actions</th>
               </tr>
@@ -396,6 +410,7 @@ export function GroupsClient({
                       ? `${group.collectionOfficer.lastName}, ${group.collectionOfficer.firstName}`
                       : <span className="text-slate-400 italic">Unassigned</span>}
                   </td>
+                  <td className="py-3 px-4 text-slate-600">{group.branch.name}</td>
                   <td className="py-3 px-4 text-right text-slate-600">
                     {group._count.members}
                   </td>
@@ -432,7 +447,7 @@ export function GroupsClient({
               ))}
               {groups.length === 0 && !isLoading && (
                 <tr>
-                  <td colSpan={5} className="py-8 text-center text-slate-500">
+                  <td colSpan={6} className="py-8 text-center text-slate-500">
                     No groups found.
                   </td>
                 </tr>
@@ -493,6 +508,25 @@ export function GroupsClient({
                 />
               </div>
 
+              <div>
+                <label className="mb-1 block text-sm font-medium text-slate-700">
+                  Branch <span className="text-red-500">*</span>
+                </label>
+                <select
+                  required
+                  value={formData.branchId}
+                  onChange={(e) => setFormData({ ...formData, branchId: e.target.value })}
+                  className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 focus:border-indigo-500 focus:outline-none focus:ring-1 focus:ring-indigo-500/20"
+                >
+                  <option value="">Select a branch...</option>
+                  {initialBranches.map((branch) => (
+                    <option key={branch.id} value={branch.id}>
+                      {branch.name}
+                    </option>
+                  ))}
+                </select>
+              </div>
+
               <div>
                 <label className="mb-1 block text-sm font-medium text-slate-700">
                   Assigned Officer
@@ -1,7 +1,7 @@
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { Role } from "@prisma/client";
+import { getScopedBranchIds, getScopedGroupIds } from "@/lib/auth/access";
+import { hasPermission, requirePermission, requireUser } from "@/lib/auth/session";
+import { listBranches } from "@/lib/branches";
 import { GroupsClient } from "./groups-client";
 
 function clampInt(n: number, min: number, max: number) {
@@ -18,19 +18,19 @@ export default async function GroupsPage({
   }>;
 }) {
   const user = await requireUser();
-  requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+  requirePermission(user, "group.view");
   const sp = await searchParams;
-  const canCreate = user.role === Role.SUPER_ADMIN || user.role === Role.ENCODER;
-  const canDelete = user.role === Role.SUPER_ADMIN;
-  const collectorGroupIds = await getCollectorScopedGroupIds(user);
+  const canCreate = hasPermission(user, "group.update");
+  const canDelete = hasPermission(user, "group.delete");
+  const [scopedGroupIds, scopedBranchIds] = await Promise.all([getScopedGroupIds(user), getScopedBranchIds(user)]);
 
   const q = (sp.q ?? "").trim();
   const page = clampInt(Number(sp.page ?? "1") || 1, 1, 10_000);
   const limit = clampInt(Number(sp.pageSize ?? "20") || 20, 5, 100);
 
   const where: any = {};
-  if (collectorGroupIds) {
-    where.id = { in: collectorGroupIds };
+  if (scopedGroupIds) {
+    where.id = { in: scopedGroupIds };
   }
   if (q) {
     where.OR = [
@@ -46,7 +46,7 @@ export default async function GroupsPage({
     ];
   }
 
-  const [groups, total, collectionOfficers, groupOptions] = await Promise.all([
+  const [groups, total, collectionOfficers, groupOptions, branches] = await Promise.all([
     prisma.group.findMany({
       where,
       include: {
@@ -58,6 +58,7 @@ export default async function GroupsPage({
           },
         },
         collectionOfficer: { select: { id: true, firstName: true, lastName: true } },
+        branch: { select: { id: true, name: true } },
       },
       orderBy: { name: "asc" },
       skip: (page - 1) * limit,
@@ -65,17 +66,20 @@ export default async function GroupsPage({
     }),
     prisma.group.count({ where }),
     prisma.employee.findMany({
-      where: collectorGroupIds
-        ? { groupsAsCollectionOfficer: { some: { id: { in: collectorGroupIds } } } }
-        : undefined,
+      where: scopedBranchIds
+        ? { branchId: { in: scopedBranchIds } }
+        : scopedGroupIds
+          ? { groupsAsCollectionOfficer: { some: { id: { in: scopedGroupIds } } } }
+          : undefined,
       select: { id: true, firstName: true, lastName: true },
       orderBy: { lastName: "asc" },
     }),
     prisma.group.findMany({
-      where: collectorGroupIds ? { id: { in: collectorGroupIds } } : undefined,
+      where: scopedGroupIds ? { id: { in: scopedGroupIds } } : undefined,
       select: { id: true, name: true },
       orderBy: { name: "asc" },
     }),
+    listBranches({ branchIds: scopedBranchIds }),
   ]);
 
   return (
@@ -84,6 +88,7 @@ export default async function GroupsPage({
       initialTotal={total}
       initialCollectionOfficers={collectionOfficers}
       initialGroupOptions={groupOptions}
+      initialBranches={branches}
       canCreate={canCreate}
       canDelete={canDelete}
     />
@@ -6,7 +6,7 @@ export default async function AppLayout({
 }: {
   children: React.ReactNode;
 }) {
-  const user = await requireUser();
+  const user = await requireUser({ allowTwoFactorSetup: true });
 
   return (
     <AppShell user={user}>{children}</AppShell>
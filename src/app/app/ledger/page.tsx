@@ -0,0 +1,221 @@
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getScopedBranchIds, resolveBranchFilter } from "@/lib/auth/access";
+import { listBranches } from "@/lib/branches";
+import { getReportPreset1Month } from "@/lib/date";
+import { getLedgerReportData } from "@/lib/ledger";
+import { DateRangeFilter } from "../reports/date-filter";
+import { BranchSelect } from "../_components/branch-select";
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function StatementSection({
+  title,
+  rows,
+  totalLabel,
+  total,
+}: {
+  title: string;
+  rows: { code: string; name: string; amount: number }[];
+  totalLabel: string;
+  total: number;
+}) {
+  return (
+    <div>
+      <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</div>
+      <table className="min-w-full text-left text-sm">
+        <tbody className="divide-y divide-slate-200">
+          {rows.map((row) => (
+            <tr key={`${row.code}-${row.name}`}>
+              <td className="py-1.5 pr-4 text-slate-500 w-16">{row.code}</td>
+              <td className="py-1.5 pr-4 text-slate-700">{row.name}</td>
+              <td className="py-1.5 pr-0 text-right text-slate-700">{formatAmount(row.amount)}</td>
+            </tr>
+          ))}
+          {rows.length === 0 ? (
+            <tr>
+              <td className="py-2 text-slate-500" colSpan={3}>
+                No activity.
+              </td>
+            </tr>
+          ) : null}
+          <tr className="font-semibold text-slate-900">
+            <td className="py-2 pr-4" colSpan={2}>
+              {totalLabel}
+            </td>
+            <td className="py-2 pr-0 text-right">{formatAmount(total)}</td>
+          </tr>
+        </tbody>
+      </table>
+    </div>
+  );
+}
+
+export default async function LedgerPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ from?: string; to?: string; branch?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "ledger.view");
+
+  const sp = await searchParams;
+  const defaultPreset = getReportPreset1Month();
+  const from =
+    (sp.from?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.from) ? sp.from : null) ??
+    defaultPreset.from;
+  const to =
+    (sp.to?.trim() && /^\d{4}-\d{2}-\d{2}$/.test(sp.to) ? sp.to : null) ??
+    defaultPreset.to;
+
+  const [scopedBranchIds, branchIds] = await Promise.all([
+    getScopedBranchIds(user),
+    resolveBranchFilter(user, sp.branch),
+  ]);
+  const [report, branches] = await Promise.all([
+    getLedgerReportData(from, to, { branchIds }),
+    listBranches({ branchIds: scopedBranchIds }),
+  ]);
+  const { trialBalance, incomeStatement, balanceSheet } = report;
+  const isBalanced = trialBalance.totalDebit === trialBalance.totalCredit;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">General Ledger</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Journals are posted automatically from collections, savings, fees, releases and saved
+              accounting days.
+            </p>
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <BranchSelect
+              branches={branches}
+              value={branchIds && branchIds.length === 1 ? branchIds[0] : null}
+              allowAll={branches.length > 1}
+            />
+            <a
+              href={`/api/reports/ledger?from=${from}&to=${to}${sp.branch ? `&branch=${sp.branch}` : ""}`}
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Download JSON
+            </a>
+          </div>
+        </div>
+
+        <DateRangeFilter
+          from={from}
+          to={to}
+          basePath="/app/ledger"
+          branch={sp.branch}
+          description="Statements cover the selected from and to dates; the balance sheet is as of the to date."
+        />
+      </div>
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between">
+          <div className="text-sm font-semibold text-slate-900">Trial Balance</div>
+          <span
+            className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${
+              isBalanced ? "bg-emerald-100 text-emerald-700" : "bg-red-100 text-red-700"
+            }`}
+          >
+            {isBalanced ? "Balanced" : "Out of balance"}
+          </span>
+        </div>
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Code</th>
+                <th className="py-2 pr-4">Account</th>
+                <th className="py-2 pr-4">Type</th>
+                <th className="py-2 pr-4 text-right">Opening</th>
+                <th className="py-2 pr-4 text-right">Debit</th>
+                <th className="py-2 pr-4 text-right">Credit</th>
+                <th className="py-2 pr-2 text-right">Closing</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {trialBalance.rows.map((row) => (
+                <tr key={row.code} className="hover:bg-slate-50">
+                  <td className="py-2 pr-4 pl-2 text-slate-500">{row.code}</td>
+                  <td className="py-2 pr-4 font-medium text-slate-900">{row.name}</td>
+                  <td className="py-2 pr-4 text-xs text-slate-500">{row.type}</td>
+                  <td className="py-2 pr-4 text-right text-slate-600">{formatAmount(row.opening)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{row.debit ? formatAmount(row.debit) : "-"}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{row.credit ? formatAmount(row.credit) : "-"}</td>
+                  <td className="py-2 pr-2 text-right font-medium text-slate-900">{formatAmount(row.closing)}</td>
+                </tr>
+              ))}
+              <tr className="bg-slate-50 font-semibold text-slate-900">
+                <td className="py-2 pr-4 pl-2" colSpan={4}>
+                  Totals
+                </td>
+                <td className="py-2 pr-4 text-right">{formatAmount(trialBalance.totalDebit)}</td>
+                <td className="py-2 pr-4 text-right">{formatAmount(trialBalance.totalCredit)}</td>
+                <td className="py-2 pr-2" />
+              </tr>
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div className="grid gap-6 xl:grid-cols-2">
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm space-y-6">
+          <div className="text-sm font-semibold text-slate-900">
+            Income Statement <span className="font-normal text-slate-500">({from} to {to})</span>
+          </div>
+          <StatementSection
+            title="Income"
+            rows={incomeStatement.income}
+            totalLabel="Total Income"
+            total={incomeStatement.totalIncome}
+          />
+          <StatementSection
+            title="Expenses"
+            rows={incomeStatement.expenses}
+            totalLabel="Total Expenses"
+            total={incomeStatement.totalExpenses}
+          />
+          <div className="flex justify-between border-t border-slate-200 pt-3 text-sm font-semibold">
+            <span className="text-slate-900">Net Income</span>
+            <span className={incomeStatement.netIncome < 0 ? "text-red-600" : "text-emerald-600"}>
+              {formatAmount(incomeStatement.netIncome)}
+            </span>
+          </div>
+        </div>
+
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm space-y-6">
+          <div className="text-sm font-semibold text-slate-900">
+            Balance Sheet <span className="font-normal text-slate-500">(as of {to})</span>
+          </div>
+          <StatementSection
+            title="Assets"
+            rows={balanceSheet.assets}
+            totalLabel="Total Assets"
+            total={balanceSheet.totalAssets}
+          />
+          <StatementSection
+            title="Liabilities"
+            rows={balanceSheet.liabilities}
+            totalLabel="Total Liabilities"
+            total={balanceSheet.totalLiabilities}
+          />
+          <StatementSection
+            title="Equity"
+            rows={balanceSheet.equity}
+            totalLabel="Total Equity"
+            total={balanceSheet.totalEquity}
+          />
+          <div className="flex justify-between border-t border-slate-200 pt-3 text-sm font-semibold text-slate-900">
+            <span>Total Liabilities and Equity</span>
+            <span>{formatAmount(balanceSheet.totalLiabilities + balanceSheet.totalEquity)}</span>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -1,12 +1,31 @@
 "use client";
 
+// Must match CACHE_NAME in public/sw.js and the keys of the collection sheet client
+const SHEET_CACHE_NAME = "collection-sheet-v1";
+const SHEET_STORAGE_PREFIXES = ["collection_sheet:", "collection_queue:"];
+
+// The offline collection sheet keeps member data and unsent entries on the device;
+// drop them so the next person on a shared phone cannot see them.
+async function clearOfflineSheetData() {
+  for (const key of Object.keys(localStorage)) {
+    if (SHEET_STORAGE_PREFIXES.some((prefix) => key.startsWith(prefix))) localStorage.removeItem(key);
+  }
+  if ("caches" in window) await caches.delete(SHEET_CACHE_NAME).catch(() => false);
+}
+
 export function LogoutButton() {
+  const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = e.currentTarget;
+    await clearOfflineSheetData();
+    form.submit();
+  };
+
   return (
-    <form action="/app/logout" method="post">
+    <form action="/app/logout" method="post" onSubmit={handleSubmit}>
       <button className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-700 hover:bg-slate-50">
         Logout
       </button>
     </form>
   );
 }
-
@@ -0,0 +1,107 @@
+import Link from "next/link";
+import { getScopedGroupIds } from "@/lib/auth/access";
+import { hasPermission, requirePermission, requireUser } from "@/lib/auth/session";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { WEEKDAY_LABELS, formatMeetingTime, getMeetingAgenda } from "@/lib/meetings";
+
+export default async function MeetingAgendaPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ date?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "meeting.view");
+
+  const sp = await searchParams;
+  const today = formatDateYMD(getManilaBusinessDate());
+  const date = sp.date && /^\d{4}-\d{2}-\d{2}$/.test(sp.date) ? sp.date : today;
+  const scopedGroupIds = await getScopedGroupIds(user);
+  const agenda = await getMeetingAgenda(date, scopedGroupIds);
+  const canRecord = hasPermission(user, "meeting.record") && date <= today;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">
+              {date === today ? "Today's Meetings" : `Meetings on ${date}`}
+            </h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {WEEKDAY_LABELS[agenda.weekday]} · {agenda.groups.length} group(s) scheduled
+              {scopedGroupIds ? " among the groups you can see" : ""}. Schedules are set on each group&apos;s edit page.
+            </p>
+          </div>
+          <form className="flex items-end gap-2">
+            <input
+              type="date"
+              name="date"
+              defaultValue={date}
+              className="rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+            />
+            <button
+              type="submit"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Show
+            </button>
+          </form>
+        </div>
+      </div>
+
+      <div className="grid gap-4 md:grid-cols-2 xl:grid-cols-3">
+        {agenda.groups.map((group) => (
+          <div key={group.id} className="rounded-2xl border border-slate-200 bg-white p-5 shadow-sm">
+            <div className="flex items-start justify-between gap-3">
+              <div>
+                <div className="text-xs font-semibold uppercase tracking-wide text-blue-600">
+                  {group.meetingTime ? formatMeetingTime(group.meetingTime) : "Time not set"}
+                </div>
+                <Link
+                  href={`/app/groups/${group.id}`}
+                  className="mt-1 block text-base font-semibold text-slate-900 hover:underline"
+                >
+                  {group.name}
+                </Link>
+                <div className="mt-1 text-sm text-slate-500">{group.venue ?? "Venue not set"}</div>
+                {group.officerName && user.role !== "COLLECTOR" ? (
+                  <div className="mt-1 text-xs text-slate-500">Collection officer: {group.officerName}</div>
+                ) : null}
+              </div>
+              <span
+                className={`rounded-full px-2 py-0.5 text-xs font-medium ${
+                  group.attendance ? "bg-emerald-50 text-emerald-700" : "bg-slate-100 text-slate-600"
+                }`}
+              >
+                {group.attendance ? "Recorded" : "Pending"}
+              </span>
+            </div>
+
+            <div className="mt-4 flex items-end justify-between gap-3">
+              <div className="text-xs text-slate-500">
+                {group.activeMembers} active member(s)
+                {group.attendance
+                  ? ` · ${group.attendance.PRESENT + group.attendance.LATE} attended, ${group.attendance.ABSENT} absent`
+                  : ""}
+              </div>
+              {canRecord ? (
+                <Link
+                  href={`/app/groups/${group.id}/meetings?date=${date}`}
+                  className="rounded-lg bg-slate-900 px-3 py-1.5 text-xs font-medium text-white hover:bg-slate-800"
+                >
+                  {group.attendance ? "Edit Attendance" : "Take Attendance"}
+                </Link>
+              ) : null}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      {agenda.groups.length === 0 ? (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 text-sm text-slate-500 shadow-sm">
+          No group meetings are scheduled on {WEEKDAY_LABELS[agenda.weekday]}s.
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -1,12 +1,24 @@
 import Link from "next/link";
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { countBusinessDays, formatDateTimeManila, formatDateManila } from "@/lib/date";
-import { Prisma, Role } from "@prisma/client";
+import { requireMemberAccess } from "@/lib/auth/access";
+import { hasPermission, requirePermission, requireUser } from "@/lib/auth/session";
+import { countBusinessDays, formatDateTimeManila, formatDateManila, getManilaBusinessDate } from "@/lib/date";
+import { ApprovalRequestType, LoanStatus, Prisma } from "@prisma/client";
 import { z } from "zod";
 import { redirect } from "next/navigation";
 import { revalidatePath } from "next/cache";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { allocateScheduleStatus, applyLoanDeduction, applyLoanIncrease } from "@/lib/loans";
+import { assertPeriodOpen } from "@/lib/period-close";
+import { applySavingsOffset } from "@/lib/savings";
+import { ReversalSchema, reverseBalanceAdjustment, reverseSavingsAdjustment } from "@/lib/reversals";
+import {
+  canApproveRequests,
+  requiresWithdrawalApproval,
+  submitApprovalRequest,
+  submitReversalRequest,
+} from "@/lib/approvals";
+import { ATTENDANCE_STATUS_LABELS, getMemberAttendance } from "@/lib/meetings";
 import { ConfirmSubmitButton } from "../../_components/confirm-submit-button";
 import { SubmitButton } from "../../_components/submit-button";
 
@@ -28,7 +40,8 @@ async function updateBalanceAction(memberId: string, formData: FormData) {
   "use server";
 
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "adjustment.create");
+  await requireMemberAccess(user, memberId);
 
   const parsed = BalanceUpdateSchema.safeParse({
     type: String(formData.get("type") || ""),
@@ -40,6 +53,25 @@ async function updateBalanceAction(memberId: string, formData: FormData) {
   const amount = new Prisma.Decimal(parsed.data.amount.toFixed(2));
   const type = parsed.data.type;
 
+  if (type === "INCREASE" && !(await canApproveRequests(user))) {
+    try {
+      const request = await tryGetAuditRequestContext();
+      await prisma.$transaction((tx) =>
+        submitApprovalRequest(tx, {
+          type: ApprovalRequestType.BALANCE_INCREASE,
+          memberId,
+          payload: { amount: amount.toFixed(2) },
+          requestedById: user.id,
+          request,
+        }),
+      );
+    } catch (e: any) {
+      console.error("Balance increase request error:", e);
+      redirect(`/app/members/${memberId}?balanceUpdated=0`);
+    }
+    redirect(`/app/members/${memberId}?balanceUpdated=pending`);
+  }
+
   let daysCountWarning = false;
 
   try {
@@ -49,10 +81,15 @@ async function updateBalanceAction(memberId: string, formData: FormData) {
     startOfToday.setHours(0, 0, 0, 0);
 
     await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(tx, now);
+
       const alreadyUpdated = await tx.balanceAdjustment.findFirst({
         where: {
           memberId,
           createdAt: { gte: startOfToday },
+          savingsOffset: { is: null },
+          reversalOfId: null,
+          reversal: { is: null },
         },
       });
 
@@ -84,6 +121,11 @@ async function updateBalanceAction(memberId: string, formData: FormData) {
         after = before.minus(amount);
       }
 
+      const loanId =
+        type === "DEDUCT"
+          ? await applyLoanDeduction(tx, memberId, amount)
+          : await applyLoanIncrease(tx, memberId, amount);
+
       await tx.balanceAdjustment.create({
         data: {
           memberId,
@@ -92,6 +134,7 @@ async function updateBalanceAction(memberId: string, formData: FormData) {
           amount,
           balanceBefore: before,
           balanceAfter: after,
+          loanId,
         },
       });
 
@@ -137,6 +180,9 @@ async function updateBalanceAction(memberId: string, formData: FormData) {
     if (e.message === "ALREADY_UPDATED_TODAY") {
       redirect(`/app/members/${memberId}?balanceUpdated=2`);
     }
+    if (e.message === "PERIOD_CLOSED") {
+      redirect(`/app/members/${memberId}?error=period_closed`);
+    }
     redirect(`/app/members/${memberId}?balanceUpdated=0`);
   }
 
@@ -150,7 +196,8 @@ async function updateSavingsAction(memberId: string, formData: FormData) {
   "use server";
 
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "adjustment.create");
+  await requireMemberAccess(user, memberId);
 
   const parsed = SavingsUpdateSchema.safeParse({
     type: String(formData.get("type") || ""),
@@ -162,6 +209,29 @@ async function updateSavingsAction(memberId: string, formData: FormData) {
   const amount = new Prisma.Decimal(parsed.data.amount.toFixed(2));
   const type = parsed.data.type;
 
+  if (type === "WITHDRAW" && requiresWithdrawalApproval(amount) && !(await canApproveRequests(user))) {
+    try {
+      const request = await tryGetAuditRequestContext();
+      await prisma.$transaction(async (tx) => {
+        const member = await tx.member.findUnique({ where: { id: memberId }, select: { savings: true } });
+        if (!member) throw new Error("Member not found");
+        if (member.savings.lessThan(amount)) throw new Error("Withdrawal exceeds current savings");
+
+        await submitApprovalRequest(tx, {
+          type: ApprovalRequestType.SAVINGS_WITHDRAWAL,
+          memberId,
+          payload: { amount: amount.toFixed(2) },
+          requestedById: user.id,
+          request,
+        });
+      });
+    } catch (e: any) {
+      console.error("Savings withdrawal request error:", e);
+      redirect(`/app/members/${memberId}?savingsUpdated=0`);
+    }
+    redirect(`/app/members/${memberId}?savingsUpdated=pending`);
+  }
+
   try {
     const request = await tryGetAuditRequestContext();
     const now = new Date();
@@ -169,10 +239,15 @@ async function updateSavingsAction(memberId: string, formData: FormData) {
     startOfToday.setHours(0, 0, 0, 0);
 
     await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(tx, now);
+
       const alreadyUpdated = await tx.savingsAdjustment.findFirst({
         where: {
           memberId,
           createdAt: { gte: startOfToday },
+          type: { not: "APPLY_TO_BALANCE" },
+          reversalOfId: null,
+          reversal: { is: null },
         },
       });
 
@@ -243,17 +318,79 @@ async function updateSavingsAction(memberId: string, formData: FormData) {
     if (e.message === "ALREADY_UPDATED_TODAY") {
       redirect(`/app/members/${memberId}?savingsUpdated=2`);
     }
+    if (e.message === "PERIOD_CLOSED") {
+      redirect(`/app/members/${memberId}?error=period_closed`);
+    }
     redirect(`/app/members/${memberId}?savingsUpdated=0`);
   }
 
   redirect(`/app/members/${memberId}?savingsUpdated=1`);
 }
 
-async function revertBalanceAdjustmentAction(adjustmentId: string, memberId: string) {
+const SavingsOffsetSchema = z.object({
+  amount: z.coerce.number().positive(),
+});
+
+async function applySavingsOffsetAction(memberId: string, formData: FormData) {
   "use server";
 
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]);
+  requirePermission(user, "adjustment.create");
+  await requireMemberAccess(user, memberId);
+
+  const parsed = SavingsOffsetSchema.safeParse({
+    amount: Number(formData.get("amount")),
+  });
+
+  if (!parsed.success) redirect(`/app/members/${memberId}?offsetApplied=0`);
+
+  const amount = new Prisma.Decimal(parsed.data.amount.toFixed(2));
+
+  try {
+    const request = await tryGetAuditRequestContext();
+
+    await prisma.$transaction(async (tx) => {
+      const offset = await applySavingsOffset(tx, { memberId, encodedById: user.id, amount });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "SAVINGS_OFFSET",
+        entityType: "Member",
+        entityId: memberId,
+        metadata: {
+          amount: amount.toFixed(2),
+          savingsAdjustmentId: offset.savingsAdjustment.id,
+          balanceAdjustmentId: offset.balanceAdjustment.id,
+          loanId: offset.balanceAdjustment.loanId,
+          savingsAfter: offset.savingsAdjustment.savingsAfter.toFixed(2),
+          balanceAfter: offset.balanceAdjustment.balanceAfter.toFixed(2),
+        },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Savings offset error:", e);
+    if (e.message === "PERIOD_CLOSED") {
+      redirect(`/app/members/${memberId}?error=period_closed`);
+    }
+    redirect(`/app/members/${memberId}?offsetApplied=0`);
+  }
+
+  revalidatePath(`/app/members/${memberId}`);
+  redirect(`/app/members/${memberId}?offsetApplied=1`);
+}
+
+async function revertBalanceAdjustmentAction(adjustmentId: string, memberId: string, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "adjustment.revert");
+  await requireMemberAccess(user, memberId);
+
+  const parsed = ReversalSchema.safeParse({ reason: String(formData.get("reason") || "") });
+  if (!parsed.success) redirect(`/app/members/${memberId}?error=revert_failed`);
+
+  const needsApproval = !(await canApproveRequests(user));
 
   try {
     const request = await tryGetAuditRequestContext();
@@ -261,70 +398,71 @@ async function revertBalanceAdjustmentAction(adjustmentId: string, memberId: str
     await prisma.$transaction(async (tx) => {
       const adjustment = await tx.balanceAdjustment.findUnique({
         where: { id: adjustmentId },
+        select: { memberId: true },
       });
 
       if (!adjustment || adjustment.memberId !== memberId) {
         throw new Error("Adjustment not found");
       }
 
-      const member = await tx.member.findUnique({ where: { id: memberId } });
-      if (!member) throw new Error("Member not found");
-
-      // Revert the calculation
-      let newBalance: Prisma.Decimal;
-      if (adjustment.type === "INCREASE") {
-        newBalance = member.balance.minus(adjustment.amount);
-      } else {
-        newBalance = member.balance.plus(adjustment.amount);
-      }
-
-      // Prepare update data
-      const updateData: any = { balance: newBalance };
-
-      // Decrement daysCount when reverting a DEDUCT adjustment
-      // (since we increment it when creating DEDUCT adjustments)
-      if (adjustment.type === "DEDUCT" && member.daysCount > 0) {
-        updateData.daysCount = member.daysCount - 1;
+      if (needsApproval) {
+        await submitReversalRequest(tx, {
+          target: "BALANCE",
+          adjustmentId,
+          reason: parsed.data.reason,
+          requestedById: user.id,
+          request,
+        });
+        return;
       }
 
-      await tx.member.update({
-        where: { id: memberId },
-        data: updateData,
-      });
-
-      await tx.balanceAdjustment.delete({
-        where: { id: adjustmentId },
+      const result = await reverseBalanceAdjustment(tx, {
+        id: adjustmentId,
+        encodedById: user.id,
+        reason: parsed.data.reason,
       });
 
       await createAuditLog(tx, {
         actorUserId: user.id,
-        action: "BALANCE_ADJUSTMENT_REVERTED",
+        action: result.kind === "OFFSET" ? "SAVINGS_OFFSET_REVERTED" : "BALANCE_ADJUSTMENT_REVERTED",
         entityType: "Member",
         entityId: memberId,
         metadata: {
           adjustmentId,
-          type: adjustment.type,
-          amount: adjustment.amount.toFixed(2),
-          memberBalanceBeforeRevert: member.balance.toFixed(2),
-          memberBalanceAfterRevert: newBalance.toFixed(2),
+          reversalId: result.balance.reversal.id,
+          type: result.balance.original.type,
+          amount: result.balance.original.amount.toFixed(2),
+          reason: parsed.data.reason,
+          memberBalanceBeforeRevert: result.memberBefore.balance.toFixed(2),
+          memberBalanceAfterRevert: result.member.balance.toFixed(2),
         },
         request,
       });
     });
   } catch (e: any) {
     console.error("Revert balance error:", e);
+    if (e.message === "PERIOD_CLOSED") {
+      redirect(`/app/members/${memberId}?error=period_closed`);
+    }
     redirect(`/app/members/${memberId}?error=revert_failed`);
   }
 
   revalidatePath(`/app/members/${memberId}`);
+  if (needsApproval) redirect(`/app/members/${memberId}?status=reversal_requested`);
   redirect(`/app/members/${memberId}?status=reverted`);
 }
 
-async function revertSavingsAdjustmentAction(adjustmentId: string, memberId: string) {
+async function revertSavingsAdjustmentAction(adjustmentId: string, memberId: string, formData: FormData) {
   "use server";
 
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN]);
+  requirePermission(user, "adjustment.revert");
+  await requireMemberAccess(user, memberId);
+
+  const parsed = ReversalSchema.safeParse({ reason: String(formData.get("reason") || "") });
+  if (!parsed.success) redirect(`/app/members/${memberId}?error=revert_failed`);
+
+  const needsApproval = !(await canApproveRequests(user));
 
   try {
     const request = await tryGetAuditRequestContext();
@@ -332,56 +470,108 @@ async function revertSavingsAdjustmentAction(adjustmentId: string, memberId: str
     await prisma.$transaction(async (tx) => {
       const adjustment = await tx.savingsAdjustment.findUnique({
         where: { id: adjustmentId },
+        select: { memberId: true },
       });
 
       if (!adjustment || adjustment.memberId !== memberId) {
         throw new Error("Adjustment not found");
       }
 
-      const member = await tx.member.findUnique({ where: { id: memberId } });
-      if (!member) throw new Error("Member not found");
-
-      // Revert the calculation
-      let newSavings: Prisma.Decimal;
-      if (adjustment.type === "INCREASE") {
-        newSavings = member.savings.minus(adjustment.amount);
-      } else {
-        newSavings = member.savings.plus(adjustment.amount);
+      if (needsApproval) {
+        await submitReversalRequest(tx, {
+          target: "SAVINGS",
+          adjustmentId,
+          reason: parsed.data.reason,
+          requestedById: user.id,
+          request,
+        });
+        return;
       }
 
-      await tx.member.update({
-        where: { id: memberId },
-        data: { savings: newSavings },
-      });
-
-      await tx.savingsAdjustment.delete({
-        where: { id: adjustmentId },
+      const result = await reverseSavingsAdjustment(tx, {
+        id: adjustmentId,
+        encodedById: user.id,
+        reason: parsed.data.reason,
       });
 
       await createAuditLog(tx, {
         actorUserId: user.id,
-        action: "SAVINGS_ADJUSTMENT_REVERTED",
+        action: result.kind === "OFFSET" ? "SAVINGS_OFFSET_REVERTED" : "SAVINGS_ADJUSTMENT_REVERTED",
         entityType: "Member",
         entityId: memberId,
         metadata: {
           adjustmentId,
-          type: adjustment.type,
-          amount: adjustment.amount.toFixed(2),
-          memberSavingsBeforeRevert: member.savings.toFixed(2),
-          memberSavingsAfterRevert: newSavings.toFixed(2),
+          reversalId: result.savings.reversal.id,
+          type: result.savings.original.type,
+          amount: result.savings.original.amount.toFixed(2),
+          reason: parsed.data.reason,
+          memberSavingsBeforeRevert: result.memberBefore.savings.toFixed(2),
+          memberSavingsAfterRevert: result.member.savings.toFixed(2),
         },
         request,
       });
     });
   } catch (e: any) {
     console.error("Revert savings error:", e);
+    if (e.message === "PERIOD_CLOSED") {
+      redirect(`/app/members/${memberId}?error=period_closed`);
+    }
     redirect(`/app/members/${memberId}?error=revert_failed`);
   }
 
   revalidatePath(`/app/members/${memberId}`);
+  if (needsApproval) redirect(`/app/members/${memberId}?status=reversal_requested`);
   redirect(`/app/members/${memberId}?status=reverted`);
 }
 
+async function writeOffLoanAction(loanId: string, memberId: string) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "loan.writeOff");
+  await requireMemberAccess(user, memberId);
+
+  try {
+    const request = await tryGetAuditRequestContext();
+
+    await prisma.$transaction(async (tx) => {
+      const loan = await tx.loan.findUnique({ where: { id: loanId } });
+      if (!loan || loan.memberId !== memberId || loan.status !== LoanStatus.OPEN) {
+        throw new Error("Loan not found");
+      }
+
+      await tx.loan.update({
+        where: { id: loanId },
+        data: { status: LoanStatus.WRITTEN_OFF, closedAt: new Date() },
+      });
+      // The written-off amount no longer counts toward the member's balance
+      await tx.member.update({
+        where: { id: memberId },
+        data: { balance: { decrement: loan.outstandingBalance } },
+      });
+
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "LOAN_WRITE_OFF",
+        entityType: "Member",
+        entityId: memberId,
+        metadata: {
+          loanId,
+          principal: loan.principal.toFixed(2),
+          outstandingBalance: loan.outstandingBalance.toFixed(2),
+        },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Write off loan error:", e);
+    redirect(`/app/members/${memberId}?error=write_off_failed`);
+  }
+
+  revalidatePath(`/app/members/${memberId}`);
+  redirect(`/app/members/${memberId}?status=written_off`);
+}
+
 export default async function MemberDetailPage({
   params,
   searchParams,
@@ -392,18 +582,22 @@ export default async function MemberDetailPage({
     pageSize?: string;
     balancePage?: string;
     balancePageSize?: string;
+    loanId?: string;
     balanceUpdated?: string;
     warning?: string;
     savingsPage?: string;
     savingsPageSize?: string;
     savingsUpdated?: string;
+    offsetApplied?: string;
     status?: string;
     error?: string;
   }>;
 }) {
   const currentUser = await requireUser();
-  const isAdmin = currentUser.role === Role.SUPER_ADMIN;
+  const canWriteOff = hasPermission(currentUser, "loan.writeOff");
+  const canRevert = hasPermission(currentUser, "adjustment.revert");
   const { memberId } = await params;
+  await requireMemberAccess(currentUser, memberId);
   const sp = await searchParams;
 
   const page = clampInt(Number(sp.page ?? "1") || 1, 1, 10_000);
@@ -412,9 +606,8 @@ export default async function MemberDetailPage({
   const balancePageSize = clampInt(Number(sp.balancePageSize ?? "10") || 10, 5, 100);
   const savingsPage = clampInt(Number(sp.savingsPage ?? "1") || 1, 1, 10_000);
   const savingsPageSize = clampInt(Number(sp.savingsPageSize ?? "10") || 10, 5, 100);
-  const canUpdateBalance =
-    currentUser.role === Role.SUPER_ADMIN || currentUser.role === Role.ENCODER;
-  const canUpdateSavings = currentUser.role === Role.SUPER_ADMIN || currentUser.role === Role.ENCODER;
+  const canUpdateBalance = hasPermission(currentUser, "adjustment.create");
+  const canUpdateSavings = hasPermission(currentUser, "adjustment.create");
 
   const member = await prisma.member.findUnique({
     where: { id: memberId },
@@ -442,6 +635,8 @@ export default async function MemberDetailPage({
     totalSavingsUpdates,
     savingsUpdates,
     memberCycles,
+    loans,
+    attendance,
   ] = await Promise.all([
     prisma.savingsAccrual.count({ where: { memberId } }),
     prisma.savingsAccrual.findMany({
@@ -456,7 +651,11 @@ export default async function MemberDetailPage({
     }),
     prisma.balanceAdjustment.findMany({
       where: { memberId },
-      include: { encodedBy: { select: { name: true, email: true, role: true } } },
+      include: {
+        encodedBy: { select: { name: true, email: true, role: true } },
+        savingsOffset: { select: { id: true } },
+        reversal: { select: { id: true } },
+      },
       orderBy: { createdAt: "desc" },
       take: balancePageSize,
       skip: (balancePage - 1) * balancePageSize,
@@ -464,7 +663,10 @@ export default async function MemberDetailPage({
     prisma.savingsAdjustment.count({ where: { memberId } }),
     prisma.savingsAdjustment.findMany({
       where: { memberId },
-      include: { encodedBy: { select: { name: true, email: true, role: true } } },
+      include: {
+        encodedBy: { select: { name: true, email: true, role: true } },
+        reversal: { select: { id: true } },
+      },
       orderBy: { createdAt: "desc" },
       take: savingsPageSize,
       skip: (savingsPage - 1) * savingsPageSize,
@@ -473,10 +675,38 @@ export default async function MemberDetailPage({
       where: { memberId },
       orderBy: { cycleNumber: "desc" },
     }),
+    prisma.loan.findMany({
+      where: { memberId },
+      orderBy: [{ releaseDate: "desc" }, { createdAt: "desc" }],
+    }),
+    getMemberAttendance(memberId),
   ]);
 
   const latestCycle = memberCycles[0];
 
+  const scheduleLoan =
+    loans.find((l) => l.id === sp.loanId) ??
+    loans.find((l) => l.status === LoanStatus.OPEN) ??
+    loans[0];
+  const scheduleRows = scheduleLoan
+    ? allocateScheduleStatus(
+      (
+        await prisma.loanInstallment.findMany({
+          where: { loanId: scheduleLoan.id },
+          orderBy: { sequence: "asc" },
+        })
+      ).map((row) => ({
+        sequence: row.sequence,
+        dueDate: row.dueDate,
+        principalDue: Number(row.principalDue),
+        interestDue: Number(row.interestDue),
+        amountDue: Number(row.amountDue),
+      })),
+      Number(scheduleLoan.totalPayable.minus(scheduleLoan.outstandingBalance)),
+      getManilaBusinessDate(),
+    )
+    : [];
+
   const totalPages = Math.max(1, Math.ceil(totalAccrualCount / pageSize));
   const safePage = Math.min(page, totalPages);
 
@@ -548,7 +778,7 @@ export default async function MemberDetailPage({
               ) : null}
               Group:{" "}
               {member.group ? (
-                currentUser.role === Role.SUPER_ADMIN ? (
+                hasPermission(currentUser, "group.view") ? (
                   <Link
                     href={`/app/groups/${member.group.id}`}
                     className="font-medium text-slate-700 hover:underline"
@@ -567,7 +797,13 @@ export default async function MemberDetailPage({
 
         {sp.status === "reverted" && (
           <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
-            Adjustment has been reverted and member record recalculated.
+            Adjustment has been reversed and member record recalculated.
+          </div>
+        )}
+
+        {sp.status === "reversal_requested" && (
+          <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-700">
+            Reversal submitted for approval. The entry stays unchanged until a manager approves it.
           </div>
         )}
 
@@ -577,6 +813,24 @@ export default async function MemberDetailPage({
           </div>
         )}
 
+        {sp.error === "period_closed" && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            This accounting period is closed. A super admin must reopen it before the ledger can change.
+          </div>
+        )}
+
+        {sp.status === "written_off" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Loan has been written off.
+          </div>
+        )}
+
+        {sp.error === "write_off_failed" && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            Failed to write off loan.
+          </div>
+        )}
+
         {sp.balanceUpdated === "1" ? (
           <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
             Balance updated.
@@ -588,7 +842,11 @@ export default async function MemberDetailPage({
           </div>
         ) : sp.balanceUpdated === "0" ? (
           <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
-            Could not update balance (check inputs / insufficient balance for deduction).
+            Could not update balance (check inputs / deduction exceeds the balance or the loan&apos;s outstanding balance).
+          </div>
+        ) : sp.balanceUpdated === "pending" ? (
+          <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-700">
+            Balance increase submitted for approval. It will be applied once a manager approves it.
           </div>
         ) : sp.balanceUpdated === "2" ? (
           <div className="mt-4 rounded-lg border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-700">
@@ -604,12 +862,26 @@ export default async function MemberDetailPage({
           <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
             Could not update savings (check inputs / insufficient savings / payment exceeds balance).
           </div>
+        ) : sp.savingsUpdated === "pending" ? (
+          <div className="mt-4 rounded-lg border border-blue-200 bg-blue-50 px-3 py-2 text-sm text-blue-700">
+            Savings withdrawal submitted for approval. It will be applied once a manager approves it.
+          </div>
         ) : sp.savingsUpdated === "2" ? (
           <div className="mt-4 rounded-lg border border-yellow-200 bg-yellow-50 px-3 py-2 text-sm text-yellow-700">
             Savings have already been adjusted for this member today. Access blocked to prevent duplicates.
           </div>
         ) : null}
 
+        {sp.offsetApplied === "1" ? (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Savings applied to balance.
+          </div>
+        ) : sp.offsetApplied === "0" ? (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            Could not apply savings to balance (check inputs / insufficient savings / offset exceeds balance).
+          </div>
+        ) : null}
+
         <div className="mt-6 grid gap-4 md:grid-cols-3">
           <div className="rounded-xl border border-slate-200 bg-white p-4">
             <div className="text-xs uppercase text-slate-500">Balance</div>
@@ -729,6 +1001,39 @@ export default async function MemberDetailPage({
           )}
         </div>
 
+        {canUpdateSavings ? (
+          <div className="mt-6 rounded-xl border border-slate-200 bg-white p-4">
+            <div>
+              <div className="text-sm font-medium text-slate-900">Offset Savings to Balance</div>
+              <div className="mt-1 text-sm text-slate-500">
+                Pay down the balance from savings. Records a linked savings debit and balance deduction.
+              </div>
+            </div>
+
+            <form
+              action={applySavingsOffsetAction.bind(null, memberId)}
+              className="mt-4 grid gap-3 md:grid-cols-6"
+            >
+              <div className="md:col-span-4">
+                <label className="text-sm font-medium">Amount</label>
+                <input
+                  name="amount"
+                  type="number"
+                  step="0.01"
+                  required
+                  max={Math.min(Number(member.savings), Number(member.balance)).toFixed(2)}
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                />
+              </div>
+              <div className="md:col-span-2 flex items-end">
+                <SubmitButton className="w-full" loadingText="Applying...">
+                  Apply Offset
+                </SubmitButton>
+              </div>
+            </form>
+          </div>
+        ) : null}
+
         <div className="mt-6 grid gap-4 md:grid-cols-2">
           <div className="rounded-xl border border-slate-200 bg-white p-4">
             <div className="text-sm font-medium text-slate-900">Contact</div>
@@ -762,6 +1067,236 @@ export default async function MemberDetailPage({
 
       </div>
 
+      <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-4 bg-white">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900 uppercase tracking-wider">Loans</h2>
+            <div className="mt-1 text-[10px] font-medium uppercase tracking-tighter text-slate-500">
+              {loans.length} loan{loans.length === 1 ? "" : "s"}
+              {" · "}
+              {loans.filter((l) => l.status === LoanStatus.OPEN).length} open
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto bg-white border-t border-slate-200">
+          <table className="min-w-full table-fixed border-separate border-spacing-0 text-left text-xs">
+            <thead className="sticky top-0 z-10 bg-slate-50 shadow-sm">
+              <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Released</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Principal</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Interest</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Term</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Installment</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Total Payable</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Outstanding</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Maturity</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Status</th>
+                {canWriteOff && <th className="border-b border-slate-200 px-3 py-2 font-semibold text-center w-20">Actions</th>}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {loans.map((loan) => (
+                <tr key={loan.id} className="group hover:bg-blue-50 odd:bg-white even:bg-slate-50">
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    <Link href={buildUrl({ loanId: loan.id })} className="hover:underline">
+                      {formatDateManila(loan.releaseDate)}
+                    </Link>
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    {loan.principal.toFixed(2)}
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    {loan.interestRate.toFixed(2)}% {loan.interestMethod === "DIMINISHING" ? "Diminishing" : "Add-on"}
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    {loan.termDays} days
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    {loan.installmentAmount.toFixed(2)}
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    {loan.totalPayable.toFixed(2)}
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-blue-600 transition-colors group-hover:border-blue-200">
+                    {loan.outstandingBalance.toFixed(2)}
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    {formatDateManila(loan.maturityDate)}
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 transition-colors group-hover:border-blue-200">
+                    <span
+                      className={`rounded px-1.5 py-0.5 text-[10px] font-bold uppercase ${
+                        loan.status === LoanStatus.OPEN
+                          ? "bg-blue-100 text-blue-700"
+                          : loan.status === LoanStatus.PAID
+                            ? "bg-emerald-100 text-emerald-700"
+                            : "bg-red-100 text-red-700"
+                      }`}
+                    >
+                      {loan.status.replace("_", " ")}
+                    </span>
+                  </td>
+                  {canWriteOff && (
+                    <td className="border-b border-slate-200 px-3 py-1 text-center transition-colors group-hover:border-blue-200">
+                      {loan.status === LoanStatus.OPEN ? (
+                        <form action={writeOffLoanAction.bind(null, loan.id, memberId)}>
+                          <ConfirmSubmitButton
+                            confirmMessage={`Write off this loan with ${loan.outstandingBalance.toFixed(2)} outstanding? This cannot be undone.`}
+                            className="text-[10px] font-bold text-red-600 hover:text-red-700 hover:underline px-2 py-1 rounded transition-colors uppercase tracking-tight"
+                          >
+                            Write Off
+                          </ConfirmSubmitButton>
+                        </form>
+                      ) : null}
+                    </td>
+                  )}
+                </tr>
+              ))}
+              {loans.length === 0 ? (
+                <tr>
+                  <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={canWriteOff ? 10 : 9}>
+                    No loans recorded.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      {scheduleLoan ? (
+        <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+          <div className="flex items-center justify-between gap-3 p-4 bg-white">
+            <div>
+              <h2 className="text-sm font-semibold text-slate-900 uppercase tracking-wider">Amortization Schedule</h2>
+              <div className="mt-1 text-[10px] font-medium uppercase tracking-tighter text-slate-500">
+                Loan released {formatDateManila(scheduleLoan.releaseDate)}
+                {" · "}
+                {scheduleRows.length} {scheduleLoan.paymentFrequency === "WEEKLY" ? "weekly" : "daily"} installment{scheduleRows.length === 1 ? "" : "s"}
+                {" · "}
+                {scheduleRows.filter((r) => r.status === "OVERDUE").length} overdue
+              </div>
+            </div>
+          </div>
+
+          <div className="max-h-96 overflow-auto bg-white border-t border-slate-200">
+            <table className="min-w-full table-fixed border-separate border-spacing-0 text-left text-xs">
+              <thead className="sticky top-0 z-10 bg-slate-50 shadow-sm">
+                <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                  <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">#</th>
+                  <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Due Date</th>
+                  <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Principal</th>
+                  <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Interest</th>
+                  <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Amount Due</th>
+                  <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Paid</th>
+                  <th className="border-b border-slate-200 px-3 py-2 font-semibold">Status</th>
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {scheduleRows.map((row) => (
+                  <tr key={row.sequence} className="group hover:bg-blue-50 odd:bg-white even:bg-slate-50">
+                    <td className="border-b border-r border-slate-200 px-3 py-1.5 font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                      {row.sequence}
+                    </td>
+                    <td className="border-b border-r border-slate-200 px-3 py-1.5 font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                      {formatDateManila(row.dueDate)}
+                    </td>
+                    <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                      {row.principalDue.toFixed(2)}
+                    </td>
+                    <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                      {row.interestDue.toFixed(2)}
+                    </td>
+                    <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                      {row.amountDue.toFixed(2)}
+                    </td>
+                    <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono text-blue-600 transition-colors group-hover:border-blue-200">
+                      {row.paidAmount.toFixed(2)}
+                    </td>
+                    <td className="border-b border-slate-200 px-3 py-1.5 transition-colors group-hover:border-blue-200">
+                      <span
+                        className={`rounded px-1.5 py-0.5 text-[10px] font-bold uppercase ${
+                          row.status === "PAID"
+                            ? "bg-emerald-100 text-emerald-700"
+                            : row.status === "OVERDUE"
+                              ? "bg-red-100 text-red-700"
+                              : row.status === "PARTIAL"
+                                ? "bg-yellow-100 text-yellow-700"
+                                : "bg-slate-100 text-slate-600"
+                        }`}
+                      >
+                        {row.status}
+                      </span>
+                    </td>
+                  </tr>
+                ))}
+                {scheduleRows.length === 0 ? (
+                  <tr>
+                    <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={7}>
+                      No schedule generated for this loan.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+
+      <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
+        <div className="flex items-center justify-between gap-3 p-4 bg-white">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900 uppercase tracking-wider">Meeting Attendance</h2>
+            <div className="mt-1 text-[10px] font-medium uppercase tracking-tighter text-slate-500">
+              {attendance.overall.rate === null ? "-" : `${(attendance.overall.rate * 100).toFixed(1)}%`} attendance ·{" "}
+              {attendance.overall.PRESENT} present · {attendance.overall.LATE} late · {attendance.overall.EXCUSED}{" "}
+              excused · {attendance.overall.ABSENT} absent
+            </div>
+          </div>
+        </div>
+
+        <div className="overflow-x-auto bg-white border-t border-slate-200">
+          <table className="min-w-full table-fixed border-separate border-spacing-0 text-left text-xs">
+            <thead className="sticky top-0 z-10 bg-slate-50 shadow-sm">
+              <tr className="text-[10px] uppercase tracking-widest text-slate-500">
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Meeting Date</th>
+                <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Group</th>
+                <th className="border-b border-slate-200 px-3 py-2 font-semibold">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {attendance.recent.map((record) => (
+                <tr key={`${record.groupId}-${record.date}`} className="group hover:bg-blue-50 odd:bg-white even:bg-slate-50">
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 font-mono text-slate-700 transition-colors group-hover:border-blue-200">
+                    <Link href={`/app/groups/${record.groupId}/meetings?date=${record.date}`} className="hover:underline">
+                      {record.date}
+                    </Link>
+                  </td>
+                  <td className="border-b border-r border-slate-200 px-3 py-1.5 text-slate-700 transition-colors group-hover:border-blue-200">
+                    {record.groupName}
+                  </td>
+                  <td
+                    className={`border-b border-slate-200 px-3 py-1.5 font-medium transition-colors group-hover:border-blue-200 ${
+                      record.status === "ABSENT" ? "text-red-600" : record.status === "LATE" ? "text-amber-700" : "text-slate-700"
+                    }`}
+                  >
+                    {ATTENDANCE_STATUS_LABELS[record.status]}
+                  </td>
+                </tr>
+              ))}
+              {attendance.recent.length === 0 ? (
+                <tr>
+                  <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={3}>
+                    No meeting attendance recorded.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
       <div className="overflow-hidden rounded-2xl border border-slate-200 bg-white shadow-sm">
         <div className="flex items-center justify-between gap-3 p-4 bg-white">
           <div>
@@ -848,7 +1383,7 @@ export default async function MemberDetailPage({
                 <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Before</th>
                 <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">After</th>
                 <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Encoded By</th>
-                {isAdmin && <th className="border-b border-slate-200 px-3 py-2 font-semibold text-center w-20">Actions</th>}
+                {canRevert && <th className="border-b border-slate-200 px-3 py-2 font-semibold text-center w-20">Actions</th>}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200">
@@ -858,10 +1393,19 @@ export default async function MemberDetailPage({
                     {formatDateTimeManila(s.createdAt)}
                   </td>
                   <td className="border-b border-r border-slate-200 px-3 py-1.5 font-medium text-slate-700 transition-colors group-hover:border-blue-200">
-                    <span className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${s.type === 'INCREASE' ? 'bg-emerald-100 text-emerald-700' : 'bg-blue-100 text-blue-700'
+                    <span className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${s.type === 'INCREASE' ? 'bg-emerald-100 text-emerald-700' : s.type === 'APPLY_TO_BALANCE' ? 'bg-amber-100 text-amber-700' : 'bg-blue-100 text-blue-700'
                       }`}>
-                      {s.type}
+                      {s.type === 'APPLY_TO_BALANCE' ? 'OFFSET' : s.type}
                     </span>
+                    {s.reversalOfId ? (
+                      <span className="ml-1 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-bold uppercase text-red-700" title={s.reversalReason ?? undefined}>
+                        Reversal
+                      </span>
+                    ) : s.reversal ? (
+                      <span className="ml-1 rounded-full bg-slate-200 px-2 py-0.5 text-[10px] font-bold uppercase text-slate-600">
+                        Reversed
+                      </span>
+                    ) : null}
                   </td>
                   <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono font-medium text-slate-700 transition-colors group-hover:border-blue-200">
                     {s.amount.toFixed(2)}
@@ -875,23 +1419,28 @@ export default async function MemberDetailPage({
                   <td className="border-b border-r border-slate-200 px-3 py-1.5 text-slate-500 transition-colors group-hover:border-blue-200 text-[10px] font-medium">
                     {s.encodedBy.name}
                   </td>
-                  {isAdmin && (
+                  {canRevert && (
                     <td className="border-b border-slate-200 px-3 py-1 text-center transition-colors group-hover:border-blue-200">
-                      <form action={revertSavingsAdjustmentAction.bind(null, s.id, memberId)}>
-                        <ConfirmSubmitButton
-                          confirmMessage={`Revert this savings adjustment of ${s.amount.toFixed(2)}? This will recalculate the member's current savings.`}
-                          className="text-[10px] font-bold text-red-600 hover:text-red-700 hover:underline px-2 py-1 rounded transition-colors uppercase tracking-tight"
-                        >
-                          Revert
-                        </ConfirmSubmitButton>
-                      </form>
+                      {s.reversalOfId || s.reversal ? null : (
+                        <form action={revertSavingsAdjustmentAction.bind(null, s.id, memberId)}>
+                          <ConfirmSubmitButton
+                            reasonName="reason"
+                            confirmMessage={s.balanceAdjustmentId
+                              ? `Revert this offset of ${s.amount.toFixed(2)}? The linked balance deduction will be reverted too.`
+                              : `Revert this savings adjustment of ${s.amount.toFixed(2)}? A reversing entry will be recorded and the member's savings recalculated.`}
+                            className="text-[10px] font-bold text-red-600 hover:text-red-700 hover:underline px-2 py-1 rounded transition-colors uppercase tracking-tight"
+                          >
+                            Revert
+                          </ConfirmSubmitButton>
+                        </form>
+                      )}
                     </td>
                   )}
                 </tr>
               ))}
               {savingsUpdates.length === 0 ? (
                 <tr>
-                  <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={isAdmin ? 7 : 6}>
+                  <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={canRevert ? 7 : 6}>
                     No savings updates yet.
                   </td>
                 </tr>
@@ -942,7 +1491,7 @@ export default async function MemberDetailPage({
                 <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">Before</th>
                 <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold text-right">After</th>
                 <th className="border-b border-r border-slate-200 px-3 py-2 font-semibold">Encoded By</th>
-                {isAdmin && <th className="border-b border-slate-200 px-3 py-2 font-semibold text-center w-20">Actions</th>}
+                {canRevert && <th className="border-b border-slate-200 px-3 py-2 font-semibold text-center w-20">Actions</th>}
               </tr>
             </thead>
             <tbody className="divide-y divide-slate-200">
@@ -956,6 +1505,20 @@ export default async function MemberDetailPage({
                       }`}>
                       {b.type}
                     </span>
+                    {b.savingsOffset ? (
+                      <span className="ml-1 rounded-full bg-amber-100 px-2 py-0.5 text-[10px] font-bold uppercase text-amber-700">
+                        Offset
+                      </span>
+                    ) : null}
+                    {b.reversalOfId ? (
+                      <span className="ml-1 rounded-full bg-red-100 px-2 py-0.5 text-[10px] font-bold uppercase text-red-700" title={b.reversalReason ?? undefined}>
+                        Reversal
+                      </span>
+                    ) : b.reversal ? (
+                      <span className="ml-1 rounded-full bg-slate-200 px-2 py-0.5 text-[10px] font-bold uppercase text-slate-600">
+                        Reversed
+                      </span>
+                    ) : null}
                   </td>
                   <td className="border-b border-r border-slate-200 px-3 py-1.5 text-right font-mono font-medium text-slate-700 transition-colors group-hover:border-blue-200">
                     {b.amount.toFixed(2)}
@@ -969,23 +1532,28 @@ export default async function MemberDetailPage({
                   <td className="border-b border-r border-slate-200 px-3 py-1.5 text-slate-500 transition-colors group-hover:border-blue-200 text-[10px] font-medium">
                     {b.encodedBy.name}
                   </td>
-                  {isAdmin && (
+                  {canRevert && (
                     <td className="border-b border-slate-200 px-3 py-1 text-center transition-colors group-hover:border-blue-200">
-                      <form action={revertBalanceAdjustmentAction.bind(null, b.id, memberId)}>
-                        <ConfirmSubmitButton
-                          confirmMessage={`Revert this balance adjustment of ${b.amount.toFixed(2)}? This will recalculate the member's current balance.`}
-                          className="text-[10px] font-bold text-red-600 hover:text-red-700 hover:underline px-2 py-1 rounded transition-colors uppercase tracking-tight"
-                        >
-                          Revert
-                        </ConfirmSubmitButton>
-                      </form>
+                      {b.reversalOfId || b.reversal ? null : (
+                        <form action={revertBalanceAdjustmentAction.bind(null, b.id, memberId)}>
+                          <ConfirmSubmitButton
+                            reasonName="reason"
+                            confirmMessage={b.savingsOffset
+                              ? `Revert this offset of ${b.amount.toFixed(2)}? The linked savings debit will be reverted too.`
+                              : `Revert this balance adjustment of ${b.amount.toFixed(2)}? A reversing entry will be recorded and the member's balance recalculated.`}
+                            className="text-[10px] font-bold text-red-600 hover:text-red-700 hover:underline px-2 py-1 rounded transition-colors uppercase tracking-tight"
+                          >
+                            Revert
+                          </ConfirmSubmitButton>
+                        </form>
+                      )}
                     </td>
                   )}
                 </tr>
               ))}
               {balanceUpdates.length === 0 ? (
                 <tr>
-                  <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={isAdmin ? 7 : 6}>
+                  <td className="py-12 text-center text-slate-500 italic border-b border-slate-200" colSpan={canRevert ? 7 : 6}>
                     No balance updates yet.
                   </td>
                 </tr>
@@ -1,6 +1,6 @@
 import { prisma } from "@/lib/db";
-import { getCollectorScopedGroupIds } from "@/lib/auth/access";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
 import { Role } from "@prisma/client";
 import { MembersClient } from "./members-client";
 import { getManilaBusinessDate, getManilaDateRange, formatDateYMD } from "@/lib/date";
@@ -19,9 +19,9 @@ export default async function MembersPage({
   }>;
 }) {
   const user = await requireUser();
-  requireRole(user, ["SUPER_ADMIN", "ENCODER", "VIEWER", "COLLECTOR"] as Role[]);
+  requirePermission(user, "member.view");
   const sp = await searchParams;
-  const collectorGroupIds = await getCollectorScopedGroupIds(user);
+  const scopedGroupIds = await getScopedGroupIds(user);
 
   const businessDate = getManilaBusinessDate();
   const todayStr = formatDateYMD(businessDate);
@@ -37,15 +37,15 @@ export default async function MembersPage({
   const status = (sp.status ?? "ACTIVE") as "ACTIVE" | "INACTIVE" | "ALL";
 
   const where: any = {};
-  if (collectorGroupIds) {
+  if (scopedGroupIds) {
     if (groupId) {
-      if (collectorGroupIds.includes(groupId)) {
+      if (scopedGroupIds.includes(groupId)) {
         where.groupId = groupId;
       } else {
         where.id = { in: [] };
       }
     } else {
-      where.groupId = { in: collectorGroupIds };
+      where.groupId = { in: scopedGroupIds };
     }
   } else if (groupId) {
     where.groupId = groupId;
@@ -68,7 +68,7 @@ export default async function MembersPage({
 
   // Fetch groups for dropdown
   const groups = await prisma.group.findMany({
-    where: collectorGroupIds ? { id: { in: collectorGroupIds } } : undefined,
+    where: scopedGroupIds ? { id: { in: scopedGroupIds } } : undefined,
     orderBy: { name: "asc" },
     select: { id: true, name: true },
   });
@@ -1,10 +1,12 @@
 import Link from "next/link";
-import { requireUser } from "@/lib/auth/session";
+import { hasPermission, requireUser } from "@/lib/auth/session";
 import { prisma } from "@/lib/db";
-import { Role } from "@prisma/client";
 import { redirect } from "next/navigation";
+import { getScopedBranchIds, resolveBranchFilter } from "@/lib/auth/access";
+import { branchMemberFilter, branchMemberWhere, listBranches } from "@/lib/branches";
 import { getReportPreset2Weeks, formatDateTimeManila } from "@/lib/date";
 import { DashboardDateFilter } from "./dashboard-date-filter";
+import { BranchSelect } from "./_components/branch-select";
 
 function getGreeting() {
   const hour = new Date().getHours();
@@ -24,14 +26,18 @@ const formatDateWithDay = (d: Date) => {
 export default async function DashboardPage({
   searchParams,
 }: {
-  searchParams: Promise<{ error?: string; from?: string; to?: string }>;
+  searchParams: Promise<{ error?: string; from?: string; to?: string; branch?: string }>;
 }) {
   const user = await requireUser();
-  if (user.role === Role.ENCODER || user.role === Role.VIEWER || user.role === "COLLECTOR") {
+  // Unit and operations managers see the dashboard for their branch or area
+  const scopedBranchIds = user.role === "COLLECTOR" ? null : await getScopedBranchIds(user);
+  if (!hasPermission(user, "dashboard.view") && !scopedBranchIds) {
     redirect("/app/groups");
   }
 
   const sp = await searchParams;
+  const branchIds = await resolveBranchFilter(user, sp.branch);
+  const memberWhere = branchMemberWhere(branchIds);
 
   // Dates for filtering
   const defaultPreset = getReportPreset2Weeks();
@@ -53,9 +59,9 @@ export default async function DashboardPage({
     dailyCollections,
     dailyAccruals
   ] = await Promise.all([
-    prisma.member.count({ where: { status: "ACTIVE" } }),
+    prisma.member.count({ where: { status: "ACTIVE", ...memberWhere } }),
     prisma.member.aggregate({
-      where: { status: "ACTIVE" },
+      where: { status: "ACTIVE", ...memberWhere },
       _sum: { balance: true, savings: true },
     }),
     // Total Collections in period (Balance Deductions)
@@ -65,6 +71,7 @@ export default async function DashboardPage({
             WHERE "type" = 'DEDUCT'
               AND "createdAt" >= ${startDate}
               AND "createdAt" <= ${endDate}
+              ${branchMemberFilter(branchIds, '"memberId"')}
         `,
     // Total Savings Increases in period (Manual)
     prisma.$queryRaw<{ total: number }[]>`
@@ -73,11 +80,13 @@ export default async function DashboardPage({
             WHERE "type" = 'INCREASE'
               AND "createdAt" >= ${startDate}
               AND "createdAt" <= ${endDate}
+              ${branchMemberFilter(branchIds, '"memberId"')}
         `,
     // New members in period
     prisma.member.count({
       where: {
-        createdAt: { gte: startDate, lte: endDate }
+        createdAt: { gte: startDate, lte: endDate },
+        ...memberWhere,
       }
     }),
     // Daily collections for bar chart
@@ -89,6 +98,7 @@ export default async function DashboardPage({
             WHERE "type" = 'DEDUCT'
               AND "createdAt" >= ${startDate}
               AND "createdAt" <= ${endDate}
+              ${branchMemberFilter(branchIds, '"memberId"')}
             GROUP BY 1
             ORDER BY 1 ASC
         `,
@@ -101,11 +111,14 @@ export default async function DashboardPage({
             WHERE "type" = 'INCREASE'
               AND "createdAt" >= ${startDate}
               AND "createdAt" <= ${endDate}
+              ${branchMemberFilter(branchIds, '"memberId"')}
             GROUP BY 1
             ORDER BY 1 ASC
         `
   ]);
 
+  const branches = await listBranches({ branchIds: scopedBranchIds });
+
   const globalBalance = globalAgg._sum.balance ?? 0;
   const globalSavings = globalAgg._sum.savings ?? 0;
   const periodCollections = periodCollectionsRow?.[0]?.total ?? 0;
@@ -221,6 +234,11 @@ export default async function DashboardPage({
         </div>
 
         <div className="flex flex-wrap items-center gap-3">
+          <BranchSelect
+            branches={branches}
+            value={branchIds && branchIds.length === 1 ? branchIds[0] : null}
+            allowAll={branches.length > 1}
+          />
           <DashboardDateFilter from={from} to={to} />
         </div>
       </div>
@@ -0,0 +1,349 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { RemittanceStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requireGroupAccess } from "@/lib/auth/access";
+import { hasPermission, requirePermission, requireUser, type AuthUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateTimeManila } from "@/lib/date";
+import {
+  PostRemittanceSchema,
+  REMITTANCE_COLLECTION_TYPES,
+  REMITTANCE_STATUS_LABELS,
+  RejectRemittanceSchema,
+  getRemittanceBatch,
+  postRemittanceBatch,
+  rejectRemittanceBatch,
+} from "@/lib/remittances";
+import { ConfirmSubmitButton } from "../../_components/confirm-submit-button";
+import { SubmitButton } from "../../_components/submit-button";
+
+async function requireBatchAccess(user: AuthUser, batchId: string) {
+  const batch = await prisma.remittanceBatch.findUnique({ where: { id: batchId }, select: { groupId: true } });
+  if (!batch) notFound();
+  await requireGroupAccess(user, batch.groupId);
+}
+
+async function postRemittanceAction(batchId: string, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "remittance.review");
+  await requireBatchAccess(user, batchId);
+
+  const parsed = PostRemittanceSchema.safeParse({
+    lines: [...formData.entries()]
+      .filter(([name]) => name.startsWith("posted:"))
+      .map(([name, value]) => ({ id: name.slice("posted:".length), amount: String(value || "0") })),
+    cashTurnedIn: String(formData.get("cashTurnedIn") || "0"),
+    note: String(formData.get("note") || "") || undefined,
+  });
+  if (!parsed.success) redirect(`/app/remittances/${batchId}?error=invalid`);
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(
+      async (tx) => {
+        const { batch, reachedFortyDays } = await postRemittanceBatch(tx, {
+          ...parsed.data,
+          batchId,
+          userId: user.id,
+        });
+        await createAuditLog(tx, {
+          actorUserId: user.id,
+          action: "REMITTANCE_POST",
+          entityType: "RemittanceBatch",
+          entityId: batch.id,
+          metadata: {
+            businessDate: batch.businessDate.toISOString().slice(0, 10),
+            declaredTotal: Number(batch.declaredTotal),
+            postedTotal: Number(batch.postedTotal),
+            cashTurnedIn: Number(batch.cashTurnedIn),
+            variance: Number(batch.variance),
+          },
+          request,
+        });
+        for (const memberId of reachedFortyDays) {
+          await createAuditLog(tx, {
+            actorUserId: user.id,
+            action: "MEMBER_REACHED_40_DAYS",
+            entityType: "Member",
+            entityId: memberId,
+            metadata: { source: "remittance" },
+            request,
+          });
+        }
+      },
+      { maxWait: 10000, timeout: 30000 },
+    );
+  } catch (e: any) {
+    console.error("Post remittance error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`/app/remittances/${batchId}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath("/app/remittances");
+  redirect("/app/remittances?status=posted");
+}
+
+async function rejectRemittanceAction(batchId: string, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "remittance.review");
+  await requireBatchAccess(user, batchId);
+
+  const parsed = RejectRemittanceSchema.safeParse({ reason: String(formData.get("reason") || "") });
+  if (!parsed.success) redirect(`/app/remittances/${batchId}?error=reason`);
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const batch = await rejectRemittanceBatch(tx, { batchId, reason: parsed.data.reason, userId: user.id });
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "REMITTANCE_REJECT",
+        entityType: "RemittanceBatch",
+        entityId: batch.id,
+        metadata: { reason: parsed.data.reason },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Reject remittance error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`/app/remittances/${batchId}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath("/app/remittances");
+  redirect("/app/remittances?status=rejected");
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Posted amounts and cash turned in must be zero or more.",
+  reason: "Give a reason for returning the remittance.",
+  REMITTANCE_NOT_FOUND: "Remittance batch not found.",
+  REMITTANCE_NOT_PENDING: "This remittance has already been reviewed.",
+  REMITTANCE_SELF_REVIEW: "You cannot post a remittance you submitted.",
+  REMITTANCE_BALANCE_ALREADY_UPDATED:
+    "A member's balance was already updated that day. Set their loan payment to zero and post again.",
+  REMITTANCE_SAVINGS_ALREADY_UPDATED:
+    "A member's savings was already updated that day. Set their savings to zero and post again.",
+  PERIOD_CLOSED: "The accounting period is closed. A super admin must reopen it first.",
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const inputClass =
+  "w-28 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-right text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+export default async function RemittanceBatchPage({
+  params,
+  searchParams,
+}: {
+  params: Promise<{ batchId: string }>;
+  searchParams: Promise<{ error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "remittance.view");
+  const { batchId } = await params;
+  const sp = await searchParams;
+
+  const batch = await getRemittanceBatch(batchId);
+  if (!batch) notFound();
+  await requireGroupAccess(user, batch.groupId);
+
+  const canReview =
+    hasPermission(user, "remittance.review") &&
+    batch.status === RemittanceStatus.PENDING &&
+    batch.submittedById !== user.id;
+  const typeLabel = (type: string) => REMITTANCE_COLLECTION_TYPES.find((t) => t.type === type)?.label ?? type;
+  const cashDifference =
+    batch.cashTurnedIn !== null && batch.postedTotal !== null ? batch.cashTurnedIn - batch.postedTotal : null;
+
+  const linesTable = (
+    <table className="min-w-full text-left text-sm">
+      <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+        <tr>
+          <th className="py-2 pr-4 pl-2">Member</th>
+          <th className="py-2 pr-4">Collection</th>
+          <th className="py-2 pr-4 text-right">Declared</th>
+          <th className="py-2 pr-4 text-right">Posted</th>
+          {batch.status === RemittanceStatus.POSTED ? <th className="py-2 pr-2 text-right">Variance</th> : null}
+        </tr>
+      </thead>
+      <tbody className="divide-y divide-slate-200">
+        {batch.lines.map((line) => {
+          const variance = line.postedAmount === null ? null : line.postedAmount - line.declaredAmount;
+          return (
+            <tr key={line.id} className="hover:bg-slate-50">
+              <td className="py-2 pr-4 pl-2 font-medium text-slate-900 whitespace-nowrap">
+                <Link href={`/app/members/${line.memberId}`} className="hover:underline hover:text-blue-600">
+                  {line.memberName}
+                </Link>
+              </td>
+              <td className="py-2 pr-4 text-slate-600">{typeLabel(line.type)}</td>
+              <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(line.declaredAmount)}</td>
+              <td className="py-2 pr-4 text-right text-slate-700">
+                {canReview ? (
+                  <input
+                    type="number"
+                    name={`posted:${line.id}`}
+                    min={0}
+                    step="0.01"
+                    defaultValue={line.declaredAmount}
+                    className={inputClass}
+                  />
+                ) : line.postedAmount === null ? (
+                  "-"
+                ) : (
+                  formatAmount(line.postedAmount)
+                )}
+              </td>
+              {batch.status === RemittanceStatus.POSTED ? (
+                <td
+                  className={`py-2 pr-2 text-right font-medium ${
+                    !variance ? "text-slate-500" : variance < 0 ? "text-red-600" : "text-amber-700"
+                  }`}
+                >
+                  {variance === null ? "-" : formatAmount(variance)}
+                </td>
+              ) : null}
+            </tr>
+          );
+        })}
+      </tbody>
+    </table>
+  );
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">
+              {batch.groupName} · {batch.businessDate}
+            </h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {REMITTANCE_STATUS_LABELS[batch.status]} · Submitted by {batch.submittedByName} on{" "}
+              {formatDateTimeManila(new Date(batch.submittedAt))}
+              {batch.reviewedByName && batch.reviewedAt
+                ? ` · Reviewed by ${batch.reviewedByName} on ${formatDateTimeManila(new Date(batch.reviewedAt))}`
+                : ""}
+            </p>
+          </div>
+          <Link
+            href="/app/remittances"
+            className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Back to Remittances
+          </Link>
+        </div>
+
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to process the remittance."}
+          </div>
+        )}
+        {batch.reviewNote ? (
+          <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            {batch.status === RemittanceStatus.REJECTED ? "Returned: " : "Note: "}
+            {batch.reviewNote}
+          </div>
+        ) : null}
+
+        <div className="mt-4 grid gap-3 md:grid-cols-4">
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Declared</div>
+            <div className="mt-2 text-xl font-semibold text-slate-900">{formatAmount(batch.declaredTotal)}</div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Posted</div>
+            <div className="mt-2 text-xl font-semibold text-slate-900">
+              {batch.postedTotal === null ? "-" : formatAmount(batch.postedTotal)}
+            </div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Posted vs Declared</div>
+            <div
+              className={`mt-2 text-xl font-semibold ${
+                !batch.variance ? "text-slate-900" : batch.variance < 0 ? "text-red-600" : "text-amber-700"
+              }`}
+            >
+              {batch.variance === null ? "-" : formatAmount(batch.variance)}
+            </div>
+          </div>
+          <div className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+            <div className="text-xs font-semibold uppercase tracking-wide text-slate-500">Cash Turned In</div>
+            <div className="mt-2 text-xl font-semibold text-slate-900">
+              {batch.cashTurnedIn === null ? "-" : formatAmount(batch.cashTurnedIn)}
+            </div>
+            {cashDifference ? (
+              <div className={`text-xs ${cashDifference < 0 ? "text-red-600" : "text-amber-700"}`}>
+                {formatAmount(cashDifference)} against posted
+              </div>
+            ) : null}
+          </div>
+        </div>
+      </div>
+
+      {canReview ? (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <form action={postRemittanceAction.bind(null, batch.id)}>
+            <div className="text-sm font-semibold text-slate-900">Review</div>
+            <p className="mt-1 text-sm text-slate-500">
+              Posted amounts start at what the collector declared. Correct any line that does not match the cash,
+              then post. A line set to zero is not posted.
+            </p>
+            <div className="mt-4 overflow-x-auto">{linesTable}</div>
+            <div className="mt-4 grid gap-4 md:grid-cols-[200px_minmax(0,1fr)_auto] md:items-end">
+              <div>
+                <label className="text-sm font-medium text-slate-700">Cash Turned In</label>
+                <input
+                  type="number"
+                  name="cashTurnedIn"
+                  min={0}
+                  step="0.01"
+                  required
+                  defaultValue={batch.declaredTotal}
+                  className={`${inputClass} mt-1 w-full`}
+                />
+              </div>
+              <div>
+                <label className="text-sm font-medium text-slate-700">Note</label>
+                <input
+                  type="text"
+                  name="note"
+                  maxLength={500}
+                  placeholder="Why posted amounts differ, if they do"
+                  className="mt-1 w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                />
+              </div>
+              <SubmitButton loadingText="Posting...">Post Remittance</SubmitButton>
+            </div>
+          </form>
+          <form action={rejectRemittanceAction.bind(null, batch.id)} className="mt-3 flex justify-end">
+            <ConfirmSubmitButton
+              reasonName="reason"
+              confirmMessage="Return this remittance to the collector? Nothing will be posted."
+              loadingText="Returning..."
+              className="rounded-lg border border-red-200 bg-white px-4 py-2 text-sm font-medium text-red-600 hover:bg-red-50"
+            >
+              Return to Collector
+            </ConfirmSubmitButton>
+          </form>
+        </div>
+      ) : (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="overflow-x-auto">{linesTable}</div>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+import Link from "next/link";
+import { notFound, redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { MemberStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requireGroupAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import { formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import {
+  REMITTANCE_COLLECTION_TYPES,
+  SubmitRemittanceSchema,
+  listRemittanceBatches,
+  getRemittanceBatch,
+  submitRemittanceBatch,
+} from "@/lib/remittances";
+import { SubmitButton } from "../../_components/submit-button";
+
+async function submitRemittanceAction(groupId: string, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "remittance.submit");
+  await requireGroupAccess(user, groupId);
+
+  const lines = [...formData.entries()]
+    .filter(([name]) => name.startsWith("amount:"))
+    .map(([name, value]) => {
+      const [, memberId, type] = name.split(":");
+      return { memberId, type, amount: String(value || "0") };
+    });
+
+  const parsed = SubmitRemittanceSchema.safeParse({ groupId, lines });
+  if (!parsed.success) redirect(`/app/remittances/new?groupId=${groupId}&error=invalid`);
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const batch = await submitRemittanceBatch(tx, {
+        groupId,
+        businessDate: getManilaBusinessDate(),
+        lines: parsed.data.lines,
+        userId: user.id,
+      });
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "REMITTANCE_SUBMIT",
+        entityType: "RemittanceBatch",
+        entityId: batch.id,
+        metadata: {
+          groupId,
+          businessDate: batch.businessDate.toISOString().slice(0, 10),
+          declaredTotal: Number(batch.declaredTotal),
+        },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Submit remittance error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`/app/remittances/new?groupId=${groupId}&error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath("/app/remittances");
+  redirect("/app/remittances?status=submitted");
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  invalid: "Amounts must be zero or more.",
+  REMITTANCE_EMPTY: "Enter at least one collection before submitting.",
+  REMITTANCE_MEMBER_NOT_IN_GROUP: "A member in the list has moved to another group. Reload the page.",
+  REMITTANCE_ALREADY_POSTED: "Today's remittance for this group has already been posted.",
+  PERIOD_CLOSED: "The accounting period is closed. A super admin must reopen it first.",
+};
+
+const inputClass =
+  "w-24 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-right text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+export default async function NewRemittancePage({
+  searchParams,
+}: {
+  searchParams: Promise<{ groupId?: string; error?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "remittance.submit");
+  const sp = await searchParams;
+  if (!sp.groupId) notFound();
+  await requireGroupAccess(user, sp.groupId);
+
+  const today = formatDateYMD(getManilaBusinessDate());
+  const [group, members, [existing]] = await Promise.all([
+    prisma.group.findUnique({ where: { id: sp.groupId }, select: { id: true, name: true } }),
+    prisma.member.findMany({
+      where: { groupId: sp.groupId, status: MemberStatus.ACTIVE },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      select: { id: true, firstName: true, lastName: true, balance: true },
+    }),
+    listRemittanceBatches({ groupIds: [sp.groupId], businessDate: today }),
+  ]);
+  if (!group) notFound();
+
+  const batch = existing ? await getRemittanceBatch(existing.id) : null;
+  if (batch?.status === "POSTED") redirect(`/app/remittances/${batch.id}`);
+  const declared = (memberId: string, type: string) =>
+    batch?.lines.find((line) => line.memberId === memberId && line.type === type)?.declaredAmount;
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">{group.name} · {today}</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Enter what each member handed you today. Leave a field blank when nothing was collected.
+            </p>
+          </div>
+          <Link
+            href="/app/remittances"
+            className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Back to Remittances
+          </Link>
+        </div>
+
+        {batch?.status === "REJECTED" && batch.reviewNote ? (
+          <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            Returned by {batch.reviewedByName ?? "the encoder"}: {batch.reviewNote}
+          </div>
+        ) : null}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to submit the remittance."}
+          </div>
+        )}
+      </div>
+
+      <form
+        action={submitRemittanceAction.bind(null, group.id)}
+        className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm"
+      >
+        <div className="overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Member</th>
+                <th className="py-2 pr-4 text-right">Balance</th>
+                {REMITTANCE_COLLECTION_TYPES.map((t) => (
+                  <th key={t.type} className="py-2 pr-4 text-right">{t.label}</th>
+                ))}
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {members.map((member) => (
+                <tr key={member.id} className="hover:bg-slate-50">
+                  <td className="py-2 pr-4 pl-2 font-medium text-slate-900 whitespace-nowrap">
+                    {member.lastName}, {member.firstName}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-600">
+                    {Number(member.balance).toLocaleString("en-US", { minimumFractionDigits: 2 })}
+                  </td>
+                  {REMITTANCE_COLLECTION_TYPES.map((t) => (
+                    <td key={t.type} className="py-2 pr-4 text-right">
+                      <input
+                        type="number"
+                        name={`amount:${member.id}:${t.type}`}
+                        min={0}
+                        step="0.01"
+                        inputMode="decimal"
+                        defaultValue={declared(member.id, t.type) ?? ""}
+                        className={inputClass}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+              {members.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={REMITTANCE_COLLECTION_TYPES.length + 2}>
+                    No active members in this group.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="mt-4 flex justify-end">
+          <SubmitButton loadingText="Submitting...">
+            {batch ? "Resubmit for Review" : "Submit for Review"}
+          </SubmitButton>
+        </div>
+      </form>
+    </div>
+  );
+}
@@ -0,0 +1,217 @@
+import Link from "next/link";
+import { RemittanceStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getCollectorScopedGroupIds, getScopedGroupIds } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { formatDateTimeManila, formatDateYMD, getManilaBusinessDate } from "@/lib/date";
+import { REMITTANCE_STATUS_LABELS, listRemittanceBatches } from "@/lib/remittances";
+
+const STATUS_FILTERS = ["PENDING", "POSTED", "REJECTED", "ALL"] as const;
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const STATUS_BADGE: Record<RemittanceStatus, string> = {
+  PENDING: "bg-amber-100 text-amber-700",
+  POSTED: "bg-emerald-100 text-emerald-700",
+  REJECTED: "bg-red-100 text-red-700",
+};
+
+export default async function RemittancesPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ filter?: string; status?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "remittance.view");
+  const sp = await searchParams;
+
+  const [collectorGroupIds, scopedGroupIds] = await Promise.all([
+    getCollectorScopedGroupIds(user),
+    getScopedGroupIds(user),
+  ]);
+  const isCollector = collectorGroupIds !== null;
+  const filter = STATUS_FILTERS.find((f) => f === sp.filter) ?? (isCollector ? "ALL" : "PENDING");
+  const today = formatDateYMD(getManilaBusinessDate());
+
+  const [batches, groups, todayBatches] = await Promise.all([
+    listRemittanceBatches({
+      status: filter === "ALL" ? undefined : (filter as RemittanceStatus),
+      groupIds: scopedGroupIds,
+    }),
+    isCollector
+      ? prisma.group.findMany({
+          where: { id: { in: collectorGroupIds } },
+          orderBy: { name: "asc" },
+          select: { id: true, name: true },
+        })
+      : Promise.resolve([]),
+    isCollector ? listRemittanceBatches({ groupIds: collectorGroupIds, businessDate: today }) : Promise.resolve([]),
+  ]);
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Remittances</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              {isCollector
+                ? "Record what each member paid in the field. An encoder checks it against the cash you turn in before it is posted."
+                : "Field collections declared by collectors. Check each batch against the cash turned in, correct it and post it."}
+            </p>
+          </div>
+          <div className="flex gap-2">
+            {STATUS_FILTERS.map((f) => (
+              <Link
+                key={f}
+                href={`/app/remittances?filter=${f}`}
+                className={`rounded-lg border px-3 py-2 text-sm ${filter === f
+                    ? "border-blue-600 bg-blue-600 text-white"
+                    : "border-slate-200 bg-white text-slate-700 hover:bg-slate-50"
+                  }`}
+              >
+                {f.charAt(0) + f.slice(1).toLowerCase()}
+              </Link>
+            ))}
+          </div>
+        </div>
+
+        {sp.status === "submitted" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Remittance submitted for review.
+          </div>
+        )}
+        {sp.status === "posted" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Remittance posted.
+          </div>
+        )}
+        {sp.status === "rejected" && (
+          <div className="mt-4 rounded-lg border border-slate-200 bg-slate-50 px-3 py-2 text-sm text-slate-700">
+            Remittance returned to the collector.
+          </div>
+        )}
+      </div>
+
+      {isCollector ? (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="text-sm font-semibold text-slate-900">Today ({today})</div>
+          {groups.length === 0 ? (
+            <div className="mt-3 text-sm text-slate-500">No groups are assigned to you.</div>
+          ) : (
+            <div className="mt-3 grid gap-3 md:grid-cols-2 lg:grid-cols-3">
+              {groups.map((group) => {
+                const batch = todayBatches.find((row) => row.groupId === group.id);
+                return (
+                  <div key={group.id} className="rounded-xl border border-slate-200 bg-slate-50 p-4">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="font-medium text-slate-900">{group.name}</div>
+                      {batch ? (
+                        <span className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${STATUS_BADGE[batch.status]}`}>
+                          {REMITTANCE_STATUS_LABELS[batch.status]}
+                        </span>
+                      ) : null}
+                    </div>
+                    <div className="mt-1 text-sm text-slate-500">
+                      {batch ? `Declared ${formatAmount(batch.declaredTotal)}` : "Nothing recorded yet"}
+                    </div>
+                    {batch?.status === RemittanceStatus.REJECTED && batch.reviewNote ? (
+                      <div className="mt-1 text-xs text-red-600">Returned: {batch.reviewNote}</div>
+                    ) : null}
+                    {batch?.status !== RemittanceStatus.POSTED ? (
+                      <div className="mt-3 flex flex-wrap gap-2">
+                        <Link
+                          href={`/app/remittances/new?groupId=${group.id}`}
+                          className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                        >
+                          {batch ? "Edit Collections" : "Record Collections"}
+                        </Link>
+                        <Link
+                          href={`/app/remittances/sheet/${group.id}`}
+                          className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                        >
+                          Offline Sheet
+                        </Link>
+                      </div>
+                    ) : null}
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </div>
+      ) : null}
+
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="text-sm font-semibold text-slate-900">{batches.length.toLocaleString()} batch(es)</div>
+
+        <div className="mt-4 overflow-x-auto">
+          <table className="min-w-full text-left text-sm">
+            <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+              <tr>
+                <th className="py-2 pr-4 pl-2">Business Date</th>
+                <th className="py-2 pr-4">Group</th>
+                <th className="py-2 pr-4">Collector</th>
+                <th className="py-2 pr-4 text-right">Declared</th>
+                <th className="py-2 pr-4 text-right">Posted</th>
+                <th className="py-2 pr-4 text-right">Variance</th>
+                <th className="py-2 pr-4 text-right">Cash Turned In</th>
+                <th className="py-2 pr-2">Status</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-slate-200">
+              {batches.map((batch) => (
+                <tr key={batch.id} className="hover:bg-slate-50 align-top">
+                  <td className="py-2 pr-4 pl-2 whitespace-nowrap">
+                    <Link href={`/app/remittances/${batch.id}`} className="text-slate-700 hover:underline hover:text-blue-600">
+                      {batch.businessDate}
+                    </Link>
+                  </td>
+                  <td className="py-2 pr-4 font-medium text-slate-900">{batch.groupName}</td>
+                  <td className="py-2 pr-4 text-slate-600">
+                    <div>{batch.submittedByName}</div>
+                    <div className="text-xs text-slate-500">{formatDateTimeManila(new Date(batch.submittedAt))}</div>
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(batch.declaredTotal)}</td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {batch.postedTotal === null ? "-" : formatAmount(batch.postedTotal)}
+                  </td>
+                  <td
+                    className={`py-2 pr-4 text-right font-medium ${
+                      batch.variance === null || batch.variance === 0
+                        ? "text-slate-500"
+                        : batch.variance < 0
+                          ? "text-red-600"
+                          : "text-amber-700"
+                    }`}
+                  >
+                    {batch.variance === null ? "-" : formatAmount(batch.variance)}
+                  </td>
+                  <td className="py-2 pr-4 text-right text-slate-700">
+                    {batch.cashTurnedIn === null ? "-" : formatAmount(batch.cashTurnedIn)}
+                  </td>
+                  <td className="py-2 pr-2">
+                    <span className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${STATUS_BADGE[batch.status]}`}>
+                      {REMITTANCE_STATUS_LABELS[batch.status]}
+                    </span>
+                    {batch.reviewedByName ? (
+                      <div className="mt-1 text-xs text-slate-500">{batch.reviewedByName}</div>
+                    ) : null}
+                  </td>
+                </tr>
+              ))}
+              {batches.length === 0 ? (
+                <tr>
+                  <td className="py-4 text-slate-500 pl-2" colSpan={8}>
+                    No remittances found.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
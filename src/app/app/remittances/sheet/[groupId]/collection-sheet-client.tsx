@@ -0,0 +1,401 @@
+"use client";
+
+import { useCallback, useEffect, useRef, useState } from "react";
+import Link from "next/link";
+import { showAppToast } from "../../../_components/app-toast";
+import type { CollectionSheet, SyncConflictReason, SyncEntryResult } from "@/lib/collection-sheet";
+import type { RemittanceCollectionType } from "@prisma/client";
+
+type CollectionType = { type: RemittanceCollectionType; label: string };
+
+type QueuedEntry = {
+  idempotencyKey: string;
+  businessDate: string;
+  syncToken?: string;
+  memberId: string;
+  type: RemittanceCollectionType;
+  amount: number;
+  recordedAt: string;
+  baseBalance: number;
+  baseBalanceUpdatedToday: boolean;
+  baseSavingsUpdatedToday: boolean;
+  force?: boolean;
+  conflict?: NonNullable<SyncEntryResult["conflict"]>;
+};
+
+const CONFLICT_MESSAGES: Record<SyncConflictReason, string> = {
+  BALANCE_CHANGED: "The member's balance changed on the server after this sheet was loaded.",
+  BALANCE_UPDATED_TODAY: "The member's balance was already updated today by someone else.",
+  SAVINGS_UPDATED_TODAY: "The member's savings were already updated today by someone else.",
+  BATCH_POSTED: "Today's remittance for this group has already been posted.",
+  MEMBER_NOT_IN_GROUP: "The member is no longer in this group.",
+};
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const inputClass =
+  "w-24 rounded-lg border border-slate-200 bg-white px-2 py-1.5 text-right text-sm text-slate-900 outline-none focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20";
+
+export function CollectionSheetClient({
+  groupId,
+  collectionTypes,
+}: {
+  groupId: string;
+  collectionTypes: CollectionType[];
+}) {
+  const SHEET_KEY = `collection_sheet:${groupId}`;
+  const QUEUE_KEY = `collection_queue:${groupId}`;
+
+  const [sheet, setSheet] = useState<CollectionSheet | null>(null);
+  const [queue, setQueue] = useState<QueuedEntry[]>([]);
+  const [isQueueLoaded, setIsQueueLoaded] = useState(false);
+  const [online, setOnline] = useState(true);
+  const [syncing, setSyncing] = useState(false);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const syncingRef = useRef(false);
+  const queueRef = useRef<QueuedEntry[]>([]);
+  queueRef.current = queue;
+
+  const loadSheet = useCallback(async () => {
+    try {
+      const res = await fetch(`/api/remittances/sheet?groupId=${groupId}`, { cache: "no-store" });
+      const data = await res.json();
+      if (!res.ok) throw new Error(data.error || "Failed to load collection sheet");
+      setSheet(data.sheet);
+      setLoadError(null);
+      localStorage.setItem(SHEET_KEY, JSON.stringify(data.sheet));
+    } catch (e) {
+      // Offline or the server is unreachable: keep working from the cached sheet
+      const cached = localStorage.getItem(SHEET_KEY);
+      if (cached) {
+        try {
+          setSheet(JSON.parse(cached));
+        } catch (parseError) {
+          console.error("Failed to parse cached sheet", parseError);
+        }
+      } else {
+        setLoadError(e instanceof Error ? e.message : "Failed to load collection sheet");
+      }
+    }
+  }, [groupId, SHEET_KEY]);
+
+  const syncQueue = useCallback(async () => {
+    const pending = queueRef.current.filter((entry) => !entry.conflict);
+    if (syncingRef.current || pending.length === 0 || !navigator.onLine) return;
+
+    syncingRef.current = true;
+    setSyncing(true);
+    try {
+      const results: SyncEntryResult[] = [];
+      const dates = [...new Set(pending.map((entry) => entry.businessDate))];
+      for (const businessDate of dates) {
+        const res = await fetch("/api/remittances/sync", {
+          method: "POST",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({
+            groupId,
+            businessDate,
+            syncToken: pending.find((entry) => entry.businessDate === businessDate)?.syncToken,
+            entries: pending
+              .filter((entry) => entry.businessDate === businessDate)
+              .map(({ businessDate: _date, syncToken: _token, conflict: _conflict, ...entry }) => entry),
+          }),
+        });
+        const data = await res.json();
+        if (!res.ok) throw new Error(data.error || "Failed to sync collections");
+        results.push(...data.results);
+      }
+
+      const byKey = new Map(results.map((result) => [result.idempotencyKey, result]));
+      setQueue((prev) =>
+        prev.flatMap((entry) => {
+          const result = byKey.get(entry.idempotencyKey);
+          if (!result) return [entry];
+          if (result.status !== "CONFLICT") return [];
+          return [{ ...entry, force: false, conflict: result.conflict }];
+        }),
+      );
+
+      const conflicts = results.filter((result) => result.status === "CONFLICT").length;
+      if (conflicts > 0) {
+        showAppToast("warning", `${conflicts} entr${conflicts === 1 ? "y needs" : "ies need"} your review.`);
+      } else {
+        showAppToast("success", "Collections synced.");
+      }
+      await loadSheet();
+    } catch (e) {
+      console.error("Sync failed", e);
+      showAppToast("error", e instanceof Error ? e.message : "Failed to sync collections");
+    } finally {
+      syncingRef.current = false;
+      setSyncing(false);
+    }
+  }, [groupId, loadSheet]);
+
+  // Load queue on mount
+  useEffect(() => {
+    const saved = localStorage.getItem(QUEUE_KEY);
+    if (saved) {
+      try {
+        setQueue(JSON.parse(saved));
+      } catch (e) {
+        console.error("Failed to parse queue", e);
+      }
+    }
+    setIsQueueLoaded(true);
+    setOnline(navigator.onLine);
+    loadSheet();
+
+    if ("serviceWorker" in navigator) {
+      navigator.serviceWorker.register("/sw.js").catch((e) => console.error("Service worker registration failed", e));
+    }
+  }, [QUEUE_KEY, loadSheet]);
+
+  // Save queue on change
+  useEffect(() => {
+    if (!isQueueLoaded) return;
+    if (queue.length === 0) {
+      localStorage.removeItem(QUEUE_KEY);
+    } else {
+      localStorage.setItem(QUEUE_KEY, JSON.stringify(queue));
+    }
+  }, [queue, isQueueLoaded, QUEUE_KEY]);
+
+  useEffect(() => {
+    const handleOnline = () => {
+      setOnline(true);
+      syncQueue();
+    };
+    const handleOffline = () => setOnline(false);
+    window.addEventListener("online", handleOnline);
+    window.addEventListener("offline", handleOffline);
+    return () => {
+      window.removeEventListener("online", handleOnline);
+      window.removeEventListener("offline", handleOffline);
+    };
+  }, [syncQueue]);
+
+  // Push new entries as soon as there is a connection
+  useEffect(() => {
+    if (isQueueLoaded && online && queue.some((entry) => !entry.conflict)) {
+      syncQueue();
+    }
+  }, [queue, isQueueLoaded, online, syncQueue]);
+
+  const getValue = (memberId: string, type: RemittanceCollectionType) => {
+    const queued = [...queue].reverse().find((entry) => entry.memberId === memberId && entry.type === type);
+    if (queued) return String(queued.amount);
+    const declared = sheet?.declared.find((line) => line.memberId === memberId && line.type === type);
+    return declared ? String(declared.amount) : "";
+  };
+
+  const handleEntry = (memberId: string, type: RemittanceCollectionType, raw: string) => {
+    if (!sheet) return;
+    const amount = raw.trim() === "" ? 0 : Number(raw);
+    if (!Number.isFinite(amount) || amount < 0) {
+      showAppToast("error", "Amounts must be zero or more.");
+      return;
+    }
+    if (Number(getValue(memberId, type) || 0) === amount) return;
+    const member = sheet.members.find((m) => m.id === memberId);
+    if (!member) return;
+
+    const entry: QueuedEntry = {
+      idempotencyKey: crypto.randomUUID(),
+      businessDate: sheet.businessDate,
+      syncToken: sheet.syncToken,
+      memberId,
+      type,
+      amount,
+      recordedAt: new Date().toISOString(),
+      baseBalance: member.balance,
+      baseBalanceUpdatedToday: member.balanceUpdatedToday,
+      baseSavingsUpdatedToday: member.savingsUpdatedToday,
+    };
+    setQueue((prev) => [
+      // An unsent entry for the same cell is superseded; anything in flight keeps its key
+      ...prev.filter(
+        (queued) => syncingRef.current || queued.conflict || queued.memberId !== memberId || queued.type !== type,
+      ),
+      entry,
+    ]);
+  };
+
+  const resolveConflict = (idempotencyKey: string, keep: boolean) => {
+    setQueue((prev) =>
+      keep
+        ? prev.map((entry) =>
+            entry.idempotencyKey === idempotencyKey ? { ...entry, force: true, conflict: undefined } : entry,
+          )
+        : prev.filter((entry) => entry.idempotencyKey !== idempotencyKey),
+    );
+  };
+
+  const memberName = (memberId: string) => sheet?.members.find((m) => m.id === memberId)?.name ?? "Unknown member";
+  const typeLabel = (type: RemittanceCollectionType) => collectionTypes.find((t) => t.type === type)?.label ?? type;
+  const conflicts = queue.filter((entry) => entry.conflict);
+  const pendingCount = queue.length - conflicts.length;
+  const isPosted = sheet?.batchStatus === "POSTED";
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">
+              {sheet ? `${sheet.groupName} · ${sheet.businessDate}` : "Collection Sheet"}
+            </h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Entries are saved on this device and sent to the encoder whenever you have a connection.
+            </p>
+          </div>
+          <div className="flex items-center gap-2">
+            <span
+              className={`rounded-full px-2 py-0.5 text-[10px] font-bold uppercase ${
+                online ? "bg-emerald-100 text-emerald-700" : "bg-slate-200 text-slate-700"
+              }`}
+            >
+              {online ? "Online" : "Offline"}
+            </span>
+            <button
+              type="button"
+              onClick={syncQueue}
+              disabled={!online || syncing || pendingCount === 0}
+              className="rounded-lg bg-blue-600 px-4 py-2 text-sm font-medium text-white hover:bg-blue-700 disabled:opacity-50"
+            >
+              {syncing ? "Syncing..." : `Sync Now${pendingCount > 0 ? ` (${pendingCount})` : ""}`}
+            </button>
+            <Link
+              href="/app/remittances"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Back to Remittances
+            </Link>
+          </div>
+        </div>
+
+        {sheet ? (
+          <div className="mt-3 text-xs text-slate-500">
+            Sheet loaded {new Date(sheet.fetchedAt).toLocaleString("en-US", { timeZone: "Asia/Manila" })}
+            {pendingCount > 0 ? ` · ${pendingCount} entr${pendingCount === 1 ? "y" : "ies"} waiting to sync` : ""}
+          </div>
+        ) : null}
+        {sheet?.batchStatus === "REJECTED" && sheet.reviewNote ? (
+          <div className="mt-4 rounded-lg border border-amber-200 bg-amber-50 px-3 py-2 text-sm text-amber-800">
+            Returned by the encoder: {sheet.reviewNote}
+          </div>
+        ) : null}
+        {isPosted ? (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            This remittance has been posted. New entries can no longer be added.
+          </div>
+        ) : null}
+        {loadError && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {loadError}. Open this sheet once while online to use it offline.
+          </div>
+        )}
+      </div>
+
+      {conflicts.length > 0 ? (
+        <div className="rounded-2xl border border-amber-200 bg-white p-6 shadow-sm">
+          <div className="text-sm font-semibold text-slate-900">Needs review ({conflicts.length})</div>
+          <div className="mt-3 divide-y divide-slate-200">
+            {conflicts.map((entry) => (
+              <div key={entry.idempotencyKey} className="flex flex-wrap items-center justify-between gap-3 py-3">
+                <div className="text-sm">
+                  <div className="font-medium text-slate-900">
+                    {memberName(entry.memberId)} · {typeLabel(entry.type)} {formatAmount(entry.amount)}
+                  </div>
+                  <div className="text-slate-600">{CONFLICT_MESSAGES[entry.conflict!.reason]}</div>
+                  {entry.conflict!.currentBalance !== null ? (
+                    <div className="text-xs text-slate-500">
+                      Balance on your sheet {formatAmount(entry.baseBalance)} · on the server{" "}
+                      {formatAmount(entry.conflict!.currentBalance)}
+                    </div>
+                  ) : null}
+                </div>
+                <div className="flex gap-2">
+                  {entry.conflict!.resolvable ? (
+                    <button
+                      type="button"
+                      onClick={() => resolveConflict(entry.idempotencyKey, true)}
+                      className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+                    >
+                      Submit Anyway
+                    </button>
+                  ) : null}
+                  <button
+                    type="button"
+                    onClick={() => resolveConflict(entry.idempotencyKey, false)}
+                    className="rounded-lg border border-slate-200 bg-white px-3 py-1.5 text-xs font-medium text-slate-700 hover:bg-slate-50"
+                  >
+                    Discard
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      ) : null}
+
+      {sheet ? (
+        <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+          <div className="overflow-x-auto">
+            <table className="min-w-full text-left text-sm">
+              <thead className="text-xs uppercase text-slate-500 bg-slate-50">
+                <tr>
+                  <th className="py-2 pr-4 pl-2">Member</th>
+                  <th className="py-2 pr-4 text-right">Balance</th>
+                  <th className="py-2 pr-4 text-right">Expected Due</th>
+                  {collectionTypes.map((t) => (
+                    <th key={t.type} className="py-2 pr-4 text-right">{t.label}</th>
+                  ))}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-200">
+                {sheet.members.map((member) => (
+                  <tr key={member.id} className="hover:bg-slate-50">
+                    <td className="py-2 pr-4 pl-2 font-medium text-slate-900 whitespace-nowrap">
+                      {member.name}
+                      {member.balanceUpdatedToday ? (
+                        <div className="text-[10px] font-normal text-amber-700">Balance already updated today</div>
+                      ) : null}
+                    </td>
+                    <td className="py-2 pr-4 text-right text-slate-600">{formatAmount(member.balance)}</td>
+                    <td className="py-2 pr-4 text-right text-slate-600">
+                      {member.expectedDue === null ? "-" : formatAmount(member.expectedDue)}
+                    </td>
+                    {collectionTypes.map((t) => (
+                      <td key={t.type} className="py-2 pr-4 text-right">
+                        <input
+                          key={`${member.id}:${t.type}:${getValue(member.id, t.type)}`}
+                          type="number"
+                          min={0}
+                          step="0.01"
+                          inputMode="decimal"
+                          disabled={isPosted}
+                          defaultValue={getValue(member.id, t.type)}
+                          onBlur={(e) => handleEntry(member.id, t.type, e.target.value)}
+                          className={inputClass}
+                        />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+                {sheet.members.length === 0 ? (
+                  <tr>
+                    <td className="py-4 text-slate-500 pl-2" colSpan={collectionTypes.length + 3}>
+                      No active members in this group.
+                    </td>
+                  </tr>
+                ) : null}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ) : null}
+    </div>
+  );
+}
@@ -0,0 +1,13 @@
+import { requireGroupAccess } from "@/lib/auth/access";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { REMITTANCE_COLLECTION_TYPES } from "@/lib/remittances";
+import { CollectionSheetClient } from "./collection-sheet-client";
+
+export default async function CollectionSheetPage({ params }: { params: Promise<{ groupId: string }> }) {
+  const user = await requireUser();
+  requirePermission(user, "remittance.submit");
+  const { groupId } = await params;
+  await requireGroupAccess(user, groupId);
+
+  return <CollectionSheetClient groupId={groupId} collectionTypes={REMITTANCE_COLLECTION_TYPES} />;
+}
@@ -11,9 +11,20 @@ import {
 interface DateRangeFilterProps {
     from: string;
     to: string;
+    /** Page the filter navigates to; defaults to the reports page. */
+    basePath?: string;
+    description?: string;
+    /** Branch filter kept when the dates change */
+    branch?: string | null;
 }
 
-export function DateRangeFilter({ from, to }: DateRangeFilterProps) {
+export function DateRangeFilter({
+    from,
+    to,
+    basePath = "/app/reports",
+    description = "Exports will include data within the selected from and to dates.",
+    branch,
+}: DateRangeFilterProps) {
     const router = useRouter();
     const [isPending, startTransition] = useTransition();
 
@@ -51,16 +62,15 @@ export function DateRangeFilter({ from, to }: DateRangeFilterProps) {
             const params = new URLSearchParams();
             params.set("from", targetFrom);
             params.set("to", targetTo);
-            router.push(`/app/reports?${params.toString()}`);
+            if (branch) params.set("branch", branch);
+            router.push(`${basePath}?${params.toString()}`);
         });
     };
 
     return (
         <div className="mt-6 rounded-xl border border-slate-200 bg-white p-4">
             <h2 className="text-sm font-semibold text-slate-900">Date range</h2>
-            <p className="mt-1 text-xs text-slate-500">
-                Exports will include data within the selected from and to dates.
-            </p>
+            <p className="mt-1 text-xs text-slate-500">{description}</p>
 
             <form onSubmit={handleApply} className="mt-4 grid gap-3 sm:grid-cols-4 items-end">
                 <div className="sm:col-span-1">
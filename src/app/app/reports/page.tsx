@@ -1,9 +1,12 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { getScopedBranchIds, resolveBranchFilter } from "@/lib/auth/access";
+import { branchMemberWhere, listBranches } from "@/lib/branches";
 import { getReportPreset2Weeks } from "@/lib/date";
-import { Role } from "@prisma/client";
+import { getParReportData } from "@/lib/par";
 import { DateRangeFilter } from "./date-filter";
 import { ReportsClient } from "./reports-client";
+import { BranchSelect } from "../_components/branch-select";
 
 export default async function ReportsPage({
   searchParams,
@@ -11,10 +14,11 @@ export default async function ReportsPage({
   searchParams: Promise<{
     from?: string;
     to?: string;
+    branch?: string;
   }>;
 }) {
   const user = await requireUser();
-  requireRole(user, [Role.SUPER_ADMIN, Role.ENCODER]);
+  requirePermission(user, "report.view");
 
   const sp = await searchParams;
   const defaultPreset = getReportPreset2Weeks();
@@ -26,27 +30,34 @@ export default async function ReportsPage({
     defaultPreset.to;
 
   const limit = 20;
+  const [scopedBranchIds, branchIds] = await Promise.all([
+    getScopedBranchIds(user),
+    resolveBranchFilter(user, sp.branch),
+  ]);
+  const groupWhere = branchIds ? { branchId: { in: branchIds } } : {};
+  const memberWhere = { status: "ACTIVE" as const, ...branchMemberWhere(branchIds) };
 
-  const [groupsRaw, totalGroups, members, totalMembers, officers] = await Promise.all([
+  const [groupsRaw, totalGroups, members, totalMembers, officers, parReport, branches] = await Promise.all([
     prisma.group.findMany({
+      where: groupWhere,
       orderBy: { name: "asc" },
       select: { id: true, name: true },
       skip: 0,
       take: limit,
     }),
-    prisma.group.count(),
+    prisma.group.count({ where: groupWhere }),
     prisma.member.findMany({
-      where: { status: "ACTIVE" },
+      where: memberWhere,
       orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
       select: { id: true, firstName: true, lastName: true },
       skip: 0,
       take: limit,
     }),
-    prisma.member.count({ where: { status: "ACTIVE" } }),
+    prisma.member.count({ where: memberWhere }),
     prisma.employee.findMany({
       where: {
         groupsAsCollectionOfficer: {
-          some: {},
+          some: groupWhere,
         },
       },
       orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
@@ -55,6 +66,7 @@ export default async function ReportsPage({
         firstName: true,
         lastName: true,
         groupsAsCollectionOfficer: {
+          where: groupWhere,
           select: {
             id: true,
             name: true,
@@ -62,6 +74,8 @@ export default async function ReportsPage({
         },
       },
     }),
+    getParReportData(undefined, { branchIds }),
+    listBranches({ branchIds: scopedBranchIds }),
   ]);
 
   const groupIds = groupsRaw.map((g) => g.id);
@@ -89,24 +103,34 @@ export default async function ReportsPage({
   return (
     <div className="space-y-6">
       <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
-        <div>
-          <h1 className="text-xl font-semibold text-slate-900">Reports</h1>
-          <p className="mt-1 text-sm text-slate-500">
-            Generate and download report exports (group data, member data).
-          </p>
+        <div className="flex flex-wrap items-start justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Reports</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Generate and download report exports (group data, member data, portfolio at risk).
+            </p>
+          </div>
+          <BranchSelect
+            branches={branches}
+            value={branchIds && branchIds.length === 1 ? branchIds[0] : null}
+            allowAll={branches.length > 1}
+          />
         </div>
 
-        <DateRangeFilter from={from} to={to} />
+        <DateRangeFilter from={from} to={to} branch={sp.branch} />
       </div>
 
       <ReportsClient
+        key={sp.branch ?? "all"}
         initialGroups={groups}
         initialTotalGroups={totalGroups}
         initialMembers={members}
         initialTotalMembers={totalMembers}
         initialOfficers={officers}
+        parReport={parReport}
         from={from}
         to={to}
+        branch={sp.branch ?? null}
       />
     </div>
   );
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import Link from "next/link";
 import { IconSearch, IconChevronUp, IconChevronDown, IconEye, IconX, IconFileText } from "../_components/icons";
+import { PAR_BUCKETS, type ParReportData, type ParRow } from "@/lib/par";
 
 type Group = { id: string; name: string; activeMemberCount: number };
 type Member = { id: string; firstName: string; lastName: string };
@@ -19,8 +20,67 @@ interface ReportsClientProps {
   initialMembers: Member[];
   initialTotalMembers: number;
   initialOfficers: Officer[];
+  parReport: ParReportData;
   from: string;
   to: string;
+  /** Selected branch, passed on to the list and PAR endpoints */
+  branch: string | null;
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const formatRatio = (ratio: number) => `${(ratio * 100).toFixed(2)}%`;
+
+function ParBreakdownTable({ title, rows }: { title: string; rows: ParRow[] }) {
+  return (
+    <div>
+      <div className="mb-2 text-xs font-semibold uppercase tracking-wide text-slate-500">{title}</div>
+      <div className="max-h-72 overflow-auto">
+        <table className="min-w-full text-left text-sm">
+          <thead className="text-xs uppercase text-slate-500">
+            <tr>
+              <th className="py-2 pr-4">Name</th>
+              <th className="py-2 pr-4 text-right">Outstanding</th>
+              {PAR_BUCKETS.map((b) => (
+                <th key={b.key} className="py-2 pr-4 text-right whitespace-nowrap">
+                  {b.label}
+                </th>
+              ))}
+              <th className="py-2 pr-0 text-right">PAR %</th>
+            </tr>
+          </thead>
+          <tbody className="divide-y divide-slate-200">
+            {rows.map((row) => (
+              <tr key={row.id ?? "none"} className="hover:bg-slate-50">
+                <td className="py-2 pr-4 font-medium text-slate-900">{row.name}</td>
+                <td className="py-2 pr-4 text-right text-slate-700">{formatAmount(row.outstanding)}</td>
+                {PAR_BUCKETS.map((b) => (
+                  <td key={b.key} className="py-2 pr-4 text-right text-slate-600">
+                    {row.buckets[b.key].amount ? formatAmount(row.buckets[b.key].amount) : "-"}
+                  </td>
+                ))}
+                <td
+                  className={`py-2 pr-0 text-right font-semibold ${
+                    row.parRatio > 0 ? "text-red-600" : "text-emerald-600"
+                  }`}
+                >
+                  {formatRatio(row.parRatio)}
+                </td>
+              </tr>
+            ))}
+            {rows.length === 0 ? (
+              <tr>
+                <td className="py-4 text-slate-500" colSpan={PAR_BUCKETS.length + 3}>
+                  No outstanding loans.
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
 }
 
 function PaginationControls({
@@ -77,8 +137,10 @@ export function ReportsClient({
   initialMembers,
   initialTotalMembers,
   initialOfficers,
+  parReport,
   from,
   to,
+  branch,
 }: ReportsClientProps) {
   const [groups, setGroups] = useState(initialGroups);
   const [totalGroups, setTotalGroups] = useState(initialTotalGroups);
@@ -97,18 +159,22 @@ export function ReportsClient({
 
   // Preview Modal State
   const [previewUrl, setPreviewUrl] = useState<string | null>(null);
-  const [previewType, setPreviewType] = useState<"group" | "officer" | "member" | null>(null);
+  const [previewType, setPreviewType] = useState<"group" | "officer" | "fieldSheet" | "member" | "par" | null>(null);
   const [isPreviewLoading, setIsPreviewLoading] = useState(false);
 
-  const handleView = async (type: "group" | "officer" | "member", id: string) => {
+  const handleView = async (type: "group" | "officer" | "fieldSheet" | "member" | "par", id: string) => {
     setPreviewType(type);
     let url = "";
     if (type === "group") {
       url = `/api/groups/${id}/export?from=${from}&to=${to}&preview=true`;
     } else if (type === "officer") {
       url = `/api/employees/${id}/collection-report?from=${officerDate}&to=${officerDate}&preview=true`;
+    } else if (type === "fieldSheet") {
+      url = `/api/employees/${id}/field-sheet?date=${officerDate}&preview=true`;
     } else if (type === "member") {
       url = `/api/members/${id}/export?from=${from}&to=${to}&preview=true`;
+    } else if (type === "par") {
+      url = `/api/reports/par?preview=true${branchQuery}`;
     }
     setPreviewUrl(url);
   };
@@ -119,6 +185,7 @@ export function ReportsClient({
   };
 
   const query = `from=${encodeURIComponent(from)}&to=${encodeURIComponent(to)}`;
+  const branchQuery = branch ? `&branch=${encodeURIComponent(branch)}` : "";
   const officerQuery = `from=${encodeURIComponent(officerDate)}&to=${encodeURIComponent(
     officerDate,
   )}`;
@@ -136,7 +203,7 @@ export function ReportsClient({
         const res = await fetch(
           `/api/reports/groups?page=${groupPage}&limit=${limit}&q=${encodeURIComponent(
             groupSearch
-          )}`
+          )}${branchQuery}`
         );
         if (!res.ok) throw new Error("Failed to fetch groups");
         const data = await res.json();
@@ -166,7 +233,7 @@ export function ReportsClient({
         const res = await fetch(
           `/api/reports/members?page=${memberPage}&limit=${limit}&q=${encodeURIComponent(
             memberSearch
-          )}&sort=${memberSort}`
+          )}&sort=${memberSort}${branchQuery}`
         );
         if (!res.ok) throw new Error("Failed to fetch members");
         const data = await res.json();
@@ -295,7 +362,8 @@ export function ReportsClient({
                 Daily collection report (per officer)
               </h2>
               <p className="mt-1 text-sm text-slate-500">
-                Download a daily collection summary per collection officer and their groups.
+                Download a daily collection summary per collection officer and their groups, or print the
+                field sheet to carry before collecting.
               </p>
             </div>
             <div className="flex flex-col items-start gap-1 text-sm text-slate-600">
@@ -360,6 +428,14 @@ export function ReportsClient({
                       >
                         Download
                       </a>
+                      <button
+                        onClick={() => handleView("fieldSheet", o.id)}
+                        disabled={isPreviewLoading}
+                        title="Pre-collection field sheet with blank columns for amounts and signatures"
+                        className="inline-flex rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50 disabled:opacity-50"
+                      >
+                        Field Sheet
+                      </button>
                     </td>
                   </tr>
                 ))}
@@ -376,6 +452,66 @@ export function ReportsClient({
         </div>
       </div>
 
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="mb-4 flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between">
+          <div>
+            <h2 className="text-sm font-semibold text-slate-900">Portfolio at risk (PAR)</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Outstanding balances aged by days past due as of {parReport.asOf}, per collection officer and group.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleView("par", "")}
+              disabled={isPreviewLoading}
+              className="inline-flex items-center gap-1.5 rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-blue-600 hover:bg-slate-50 disabled:opacity-50"
+            >
+              <IconEye className="h-4 w-4" />
+              View
+            </button>
+            <a
+              href={`/api/reports/par${branchQuery.replace("&", "?")}`}
+              title="Download PAR report (PDF)"
+              className="inline-flex rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Download
+            </a>
+          </div>
+        </div>
+
+        <div className="grid gap-3 sm:grid-cols-3 lg:grid-cols-7">
+          <div className="rounded-xl border border-slate-200 p-3">
+            <div className="text-xs uppercase text-slate-500">Portfolio</div>
+            <div className="mt-1 text-lg font-semibold text-slate-900">
+              {formatAmount(parReport.totals.outstanding)}
+            </div>
+            <div className="text-xs text-slate-500">
+              PAR {formatRatio(parReport.totals.parRatio)}
+            </div>
+          </div>
+          {PAR_BUCKETS.map((b) => (
+            <div key={b.key} className="rounded-xl border border-slate-200 p-3">
+              <div className="text-xs uppercase text-slate-500">{b.label}</div>
+              <div
+                className={`mt-1 text-lg font-semibold ${
+                  b.key === "current" ? "text-slate-900" : "text-red-600"
+                }`}
+              >
+                {formatAmount(parReport.totals.buckets[b.key].amount)}
+              </div>
+              <div className="text-xs text-slate-500">
+                {parReport.totals.buckets[b.key].count} member(s)
+              </div>
+            </div>
+          ))}
+        </div>
+
+        <div className="mt-6 space-y-6">
+          <ParBreakdownTable title="By collection officer" rows={parReport.officers} />
+          <ParBreakdownTable title="By group" rows={parReport.groups} />
+        </div>
+      </div>
+
       <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
         <div className="flex flex-col gap-4 sm:flex-row sm:items-center sm:justify-between mb-4">
           <div>
@@ -482,10 +618,16 @@ export function ReportsClient({
                 <h3 className="text-lg font-semibold text-slate-900">
                   {previewType === "group" && "Group Report Preview"}
                   {previewType === "officer" && "Daily Collection Preview"}
+                  {previewType === "fieldSheet" && "Field Collection Sheet Preview"}
                   {previewType === "member" && "Member Ledger Preview"}
+                  {previewType === "par" && "Portfolio at Risk Preview"}
                 </h3>
                 <p className="text-sm text-slate-500">
-                  {previewType === "officer" ? officerDate : `${from} - ${to}`}
+                  {previewType === "officer" || previewType === "fieldSheet"
+                    ? officerDate
+                    : previewType === "par"
+                      ? `As of ${parReport.asOf}`
+                      : `${from} - ${to}`}
                 </p>
               </div>
               <button
@@ -522,7 +664,7 @@ export function ReportsClient({
               </button>
               {previewUrl && (
                 <a
-                  href={previewUrl.replace("&preview=true", "")}
+                  href={previewUrl.replace(/[?&]preview=true/, "")}
                   target="_blank"
                   rel="noopener noreferrer"
                   className="inline-flex items-center gap-2 rounded-lg bg-blue-600 px-4 py-2 text-sm font-semibold text-white hover:bg-blue-700 shadow-lg shadow-blue-200 transition-all active:scale-95"
@@ -1,6 +1,6 @@
 import { prisma } from "@/lib/db";
-import { requireRole, requireUser } from "@/lib/auth/session";
-import { EmployeePosition, Role } from "@prisma/client";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { EmployeePosition } from "@prisma/client";
 import { UsersClient } from "./users-client";
 
 export default async function UsersAdminPage({
@@ -9,7 +9,7 @@ export default async function UsersAdminPage({
   searchParams: Promise<{ q?: string }>;
 }) {
   const actor = await requireUser();
-  requireRole(actor, [Role.SUPER_ADMIN]);
+  requirePermission(actor, "user.manage");
 
   const sp = await searchParams;
   const q = (sp.q ?? "").trim();
@@ -41,6 +41,7 @@ export default async function UsersAdminPage({
           select: { id: true, firstName: true, lastName: true },
         },
         isActive: true,
+        totpEnabledAt: true,
         createdAt: true,
       },
     }),
@@ -52,6 +53,7 @@ export default async function UsersAdminPage({
 
   const serializedUsers = users.map(u => ({
     ...u,
+    totpEnabledAt: u.totpEnabledAt?.toISOString() ?? null,
     createdAt: u.createdAt.toISOString()
   }));
 
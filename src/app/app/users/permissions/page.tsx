@@ -0,0 +1,237 @@
+import Link from "next/link";
+import { redirect } from "next/navigation";
+import { revalidatePath } from "next/cache";
+import { Role } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { requirePermission, requireUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import {
+  EDITABLE_ROLES,
+  PERMISSIONS,
+  PERMISSION_KEYS,
+  getPermissionMatrix,
+  saveRolePermissions,
+  type Permission,
+} from "@/lib/auth/permissions";
+import { getTwoFactorPolicy, saveTwoFactorPolicy } from "@/lib/auth/two-factor";
+
+const PAGE_PATH = "/app/users/permissions";
+
+async function saveRolePermissionsAction(role: Role, formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "user.manage");
+
+  const permissions = formData.getAll("permission").map(String);
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const result = await saveRolePermissions(tx, role, permissions);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "ROLE_PERMISSIONS_UPDATE",
+        entityType: "Role",
+        entityId: role,
+        metadata: { granted: result.granted, revoked: result.revoked },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Role permissions error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`${PAGE_PATH}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath(PAGE_PATH);
+  redirect(`${PAGE_PATH}?status=saved&role=${role}`);
+}
+
+async function saveTwoFactorPolicyAction(formData: FormData) {
+  "use server";
+
+  const user = await requireUser();
+  requirePermission(user, "user.manage");
+
+  const roles = Object.values(Role);
+  const requiredRoles = formData
+    .getAll("role")
+    .map(String)
+    .filter((value): value is Role => (roles as string[]).includes(value));
+
+  let errorCode: string | null = null;
+  try {
+    const request = await tryGetAuditRequestContext();
+    await prisma.$transaction(async (tx) => {
+      const result = await saveTwoFactorPolicy(tx, requiredRoles);
+      await createAuditLog(tx, {
+        actorUserId: user.id,
+        action: "TWO_FACTOR_POLICY_UPDATE",
+        entityType: "RoleSecurityPolicy",
+        entityId: "two-factor",
+        metadata: { before: result.before, after: result.after },
+        request,
+      });
+    });
+  } catch (e: any) {
+    console.error("Two-factor policy error:", e);
+    errorCode = e instanceof Error ? e.message : "FAILED";
+  }
+
+  if (errorCode) redirect(`${PAGE_PATH}?error=${encodeURIComponent(errorCode)}`);
+
+  revalidatePath(PAGE_PATH);
+  redirect(`${PAGE_PATH}?status=policy`);
+}
+
+const ERROR_MESSAGES: Record<string, string> = {
+  PERMISSION_ROLE_LOCKED: "Super admin permissions cannot be changed.",
+  PERMISSION_UNKNOWN: "One of the permissions is no longer available. Reload and try again.",
+};
+
+const ROLE_LABELS: Record<Role, string> = {
+  SUPER_ADMIN: "Super Admin",
+  ENCODER: "Encoder",
+  VIEWER: "Viewer",
+  COLLECTOR: "Collector",
+};
+
+function groupPermissions() {
+  const groups = new Map<string, Permission[]>();
+  for (const key of PERMISSION_KEYS) {
+    const group = PERMISSIONS[key].group;
+    groups.set(group, [...(groups.get(group) ?? []), key]);
+  }
+  return [...groups.entries()];
+}
+
+export default async function RolePermissionsPage({
+  searchParams,
+}: {
+  searchParams: Promise<{ status?: string; error?: string; role?: string }>;
+}) {
+  const user = await requireUser();
+  requirePermission(user, "user.manage");
+  const sp = await searchParams;
+
+  const [matrix, twoFactorPolicy] = await Promise.all([getPermissionMatrix(), getTwoFactorPolicy()]);
+  const groups = groupPermissions();
+
+  return (
+    <div className="space-y-6">
+      <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex flex-wrap items-end justify-between gap-4">
+          <div>
+            <h1 className="text-xl font-semibold text-slate-900">Role Permissions</h1>
+            <p className="mt-1 text-sm text-slate-500">
+              Choose what each role may do. Changes apply on the user&apos;s next page load. Super admins always keep
+              their permissions; branch managers additionally see their branch&apos;s dashboard, audit trail and
+              approvals.
+            </p>
+          </div>
+          <Link
+            href="/app/users"
+            className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+          >
+            Back to Users
+          </Link>
+        </div>
+
+        {sp.status === "saved" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            {ROLE_LABELS[sp.role as Role] ?? "Role"} permissions updated.
+          </div>
+        )}
+        {sp.status === "policy" && (
+          <div className="mt-4 rounded-lg border border-emerald-200 bg-emerald-50 px-3 py-2 text-sm text-emerald-700">
+            Two-factor policy updated.
+          </div>
+        )}
+        {sp.error && (
+          <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+            {ERROR_MESSAGES[sp.error] ?? "Failed to update the permissions."}
+          </div>
+        )}
+      </div>
+
+      <form action={saveTwoFactorPolicyAction} className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
+        <div className="flex items-center justify-between gap-3">
+          <div>
+            <h2 className="text-base font-semibold text-slate-900">Two-Factor Authentication</h2>
+            <p className="mt-1 text-sm text-slate-500">
+              Users of a checked role must set up an authenticator app before they can use the system.
+            </p>
+          </div>
+          <button
+            type="submit"
+            className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+          >
+            Save
+          </button>
+        </div>
+        <div className="mt-4 flex flex-wrap gap-6">
+          {Object.values(Role).map((role) => (
+            <label key={role} className="flex items-center gap-2 text-sm text-slate-700">
+              <input
+                type="checkbox"
+                name="role"
+                value={role}
+                defaultChecked={twoFactorPolicy[role]}
+                className="h-4 w-4 rounded border-slate-300"
+              />
+              {ROLE_LABELS[role]}
+            </label>
+          ))}
+        </div>
+      </form>
+
+      <div className="grid gap-6 xl:grid-cols-3">
+        {EDITABLE_ROLES.map((role) => (
+          <form
+            key={role}
+            action={saveRolePermissionsAction.bind(null, role)}
+            className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm"
+          >
+            <div className="flex items-center justify-between gap-3">
+              <h2 className="text-base font-semibold text-slate-900">{ROLE_LABELS[role]}</h2>
+              <button
+                type="submit"
+                className="rounded-lg bg-blue-600 px-3 py-1.5 text-xs font-medium text-white hover:bg-blue-700"
+              >
+                Save
+              </button>
+            </div>
+
+            <div className="mt-4 space-y-5">
+              {groups.map(([group, keys]) => (
+                <fieldset key={group}>
+                  <legend className="text-xs font-semibold uppercase tracking-wide text-slate-500">{group}</legend>
+                  <div className="mt-2 space-y-1.5">
+                    {keys.map((key) => (
+                      <label key={key} className="flex items-start gap-2 text-sm text-slate-700">
+                        <input
+                          type="checkbox"
+                          name="permission"
+                          value={key}
+                          defaultChecked={matrix[role].includes(key)}
+                          className="mt-0.5 h-4 w-4 rounded border-slate-300"
+                        />
+                        <span>
+                          {PERMISSIONS[key].label}
+                          <span className="ml-1 font-mono text-xs text-slate-400">{key}</span>
+                        </span>
+                      </label>
+                    ))}
+                  </div>
+                </fieldset>
+              ))}
+            </div>
+          </form>
+        ))}
+      </div>
+    </div>
+  );
+}
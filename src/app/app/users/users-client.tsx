@@ -1,5 +1,6 @@
 "use client";
 
+import Link from "next/link";
 import { useState, useEffect } from "react";
 import { useRouter } from "next/navigation";
 import { IconSearch, IconPlus, IconX, IconPencil, IconTrash } from "../_components/icons";
@@ -21,6 +22,7 @@ type User = {
     lastName: string;
   } | null;
   isActive: boolean;
+  totpEnabledAt?: string | null;
   createdAt: string;
 };
 
@@ -50,6 +52,7 @@ export function UsersClient({
   const [resettingPasswordUser, setResettingPasswordUser] = useState<User | null>(null);
   const [statusChangeUser, setStatusChangeUser] = useState<User | null>(null);
   const [deletingUser, setDeletingUser] = useState<User | null>(null);
+  const [twoFactorResetUser, setTwoFactorResetUser] = useState<User | null>(null);
   const [modalLoading, setModalLoading] = useState(false);
 
   // Form states
@@ -264,6 +267,30 @@ export function UsersClient({
     }
   };
 
+  const handleConfirmTwoFactorReset = async () => {
+    if (!twoFactorResetUser) return;
+    setModalLoading(true);
+
+    try {
+      const res = await fetch(`/api/users/${twoFactorResetUser.id}/two-factor`, {
+        method: "DELETE",
+      });
+
+      if (!res.ok) {
+        const data = await res.json();
+        throw new Error(data.error || "Failed to reset two-factor authentication");
+      }
+
+      setUsers(users.map(u => (u.id === twoFactorResetUser.id ? { ...u, totpEnabledAt: null } : u)));
+      setTwoFactorResetUser(null);
+      showAppToast("success", "Two-factor authentication reset. The user will set it up again on next sign in.");
+    } catch (error: any) {
+      showAppToast("error", error.message || "Failed to reset two-factor authentication");
+    } finally {
+      setModalLoading(false);
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="rounded-2xl border border-slate-200 bg-white p-6 shadow-sm">
@@ -275,6 +302,12 @@ export function UsersClient({
             </p>
           </div>
           <div className="flex gap-2">
+            <Link
+              href="/app/users/permissions"
+              className="rounded-lg border border-slate-200 bg-white px-4 py-2 text-sm font-medium text-slate-700 hover:bg-slate-50"
+            >
+              Permissions
+            </Link>
             <div className="flex gap-2">
               <input
                 value={search}
@@ -353,6 +386,16 @@ export function UsersClient({
                       >
                         <span className="text-xs font-bold">PW</span>
                       </button>
+                      {u.totpEnabledAt && (
+                        <button
+                          onClick={() => setTwoFactorResetUser(u)}
+                          disabled={u.id === currentUserId}
+                          className={`rounded p-1 text-slate-400 hover:bg-slate-100 hover:text-amber-600 ${u.id === currentUserId ? "opacity-50 cursor-not-allowed" : ""}`}
+                          title="Reset Two-Factor Authentication"
+                        >
+                          <span className="text-xs font-bold">2FA</span>
+                        </button>
+                      )}
                        <button
                         onClick={() => handleDeleteUser(u)}
                         disabled={u.id === currentUserId}
@@ -661,6 +704,42 @@ export function UsersClient({
         </div>
       )}
 
+      {/* Two-Factor Reset Confirmation Modal */}
+      {twoFactorResetUser && (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4 backdrop-blur-sm">
+          <div className="w-full max-w-md rounded-2xl border border-slate-200 bg-white p-6 shadow-xl">
+            <div className="flex items-center justify-between">
+              <h2 className="text-lg font-semibold text-slate-900">Reset Two-Factor Authentication</h2>
+              <button onClick={() => setTwoFactorResetUser(null)} className="text-slate-400 hover:text-slate-600">
+                <IconX className="h-5 w-5" />
+              </button>
+            </div>
+            <p className="mt-4 text-sm text-slate-600">
+              Remove the authenticator app and recovery codes of <strong>{twoFactorResetUser.name}</strong>? They
+              will be signed out and can sign in with their password only until they set it up again.
+            </p>
+
+            <div className="flex justify-end gap-3 pt-6">
+              <button
+                type="button"
+                onClick={() => setTwoFactorResetUser(null)}
+                className="rounded-lg px-4 py-2 text-sm font-medium text-slate-600 hover:bg-slate-100"
+              >
+                Cancel
+              </button>
+              <button
+                type="button"
+                onClick={handleConfirmTwoFactorReset}
+                disabled={modalLoading}
+                className="rounded-lg bg-amber-600 px-4 py-2 text-sm font-medium text-white hover:bg-amber-700 disabled:opacity-50"
+              >
+                {modalLoading ? "Resetting..." : "Reset"}
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       {/* Delete Confirmation Modal */}
       {deletingUser && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/50 p-4 backdrop-blur-sm">
@@ -1,7 +1,16 @@
+import { Role } from "@prisma/client";
 import { prisma } from "@/lib/db";
-import { createSession, getCurrentUser } from "@/lib/auth/session";
+import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
+import {
+  beginTwoFactorChallenge,
+  clearTwoFactorChallenge,
+  createSession,
+  getCurrentUser,
+  getTwoFactorChallenge,
+} from "@/lib/auth/session";
+import { getRolePermissions } from "@/lib/auth/permissions";
 import { verifyPassword } from "@/lib/auth/password";
-import { Role } from "@prisma/client";
+import { isTwoFactorLocked, recordTwoFactorFailure, verifyTwoFactorCode } from "@/lib/auth/two-factor";
 import { z } from "zod";
 import { redirect } from "next/navigation";
 import { LoginButton } from "./login-button";
@@ -12,6 +21,10 @@ const LoginSchema = z.object({
   password: z.string().min(1),
 });
 
+async function getLandingPath(role: Role) {
+  return (await getRolePermissions(role)).includes("dashboard.view") ? "/app" : "/app/groups";
+}
+
 async function loginAction(formData: FormData) {
   "use server";
 
@@ -34,22 +47,82 @@ async function loginAction(formData: FormData) {
   const ok = await verifyPassword(parsed.data.password, user.passwordHash);
   if (!ok) redirect("/login?error=invalid");
 
+  // With two-factor on, the session waits for the authenticator code
+  if (user.totpEnabledAt) {
+    if (isTwoFactorLocked(user)) redirect("/login?error=locked");
+    await beginTwoFactorChallenge(user.id);
+    redirect("/login?step=code");
+  }
+
   await createSession(user.id);
-  redirect(
-    user.role === Role.ENCODER || user.role === Role.VIEWER || user.role === "COLLECTOR" ? "/app/groups" : "/app",
-  );
+  redirect(await getLandingPath(user.role));
 }
 
+async function verifyCodeAction(formData: FormData) {
+  "use server";
+
+  const challenge = await getTwoFactorChallenge();
+  if (!challenge) redirect("/login?error=expired");
+
+  const code = String(formData.get("code") || "").trim();
+  const request = await tryGetAuditRequestContext();
+
+  let method: Awaited<ReturnType<typeof verifyTwoFactorCode>>;
+  try {
+    method = await prisma.$transaction(async (tx) => {
+      const method = code ? await verifyTwoFactorCode(tx, challenge.userId, code) : null;
+      if (method === "RECOVERY_CODE") {
+        const remaining = await tx.userRecoveryCode.count({ where: { userId: challenge.userId, usedAt: null } });
+        await createAuditLog(tx, {
+          actorType: "USER",
+          actorUserId: challenge.userId,
+          action: "TWO_FACTOR_RECOVERY_CODE_USED",
+          entityType: "User",
+          entityId: challenge.userId,
+          metadata: { remaining },
+          request,
+        });
+      }
+      return method;
+    });
+  } catch (e) {
+    if (!(e instanceof Error) || e.message !== "TWO_FACTOR_LOCKED") throw e;
+    await clearTwoFactorChallenge();
+    redirect("/login?error=locked");
+  }
+
+  if (!method) {
+    const { locked } = await recordTwoFactorFailure(challenge.userId, "LOGIN", request);
+    if (locked) {
+      await clearTwoFactorChallenge();
+      redirect("/login?error=locked");
+    }
+    redirect("/login?step=code&error=code");
+  }
+
+  await clearTwoFactorChallenge();
+  await createSession(challenge.userId);
+  const user = await prisma.user.findUniqueOrThrow({ where: { id: challenge.userId }, select: { role: true } });
+  redirect(await getLandingPath(user.role));
+}
+
+const CODE_STEP_ERRORS: Record<string, string> = {
+  code: "That code is not valid. Check your authenticator app and try again.",
+  locked: "Too many wrong codes. Wait 15 minutes, then sign in again.",
+  expired: "The sign-in took too long. Enter your password again.",
+};
+
 export default async function LoginPage({
   searchParams,
 }: {
-  searchParams: Promise<{ error?: string }>;
+  searchParams: Promise<{ error?: string; step?: string }>;
 }) {
   const alreadyAuthed = await getCurrentUser();
   if (alreadyAuthed) redirect("/app");
 
   const sp = await searchParams;
-  const showError = sp.error === "invalid";
+  const challenge = sp.step === "code" ? await getTwoFactorChallenge() : null;
+  const errorMessage = CODE_STEP_ERRORS[sp.error ?? ""];
 
   return (
     <main className="min-h-screen bg-slate-50 text-slate-900">
@@ -75,44 +148,93 @@ export default async function LoginPage({
             </a>
 
             <div className="mt-8 rounded-2xl border border-slate-200 bg-white p-8 shadow-sm">
-              <h1 className="text-3xl font-semibold tracking-tight text-slate-900">
-                Sign In
-              </h1>
-              <p className="mt-2 text-sm text-slate-500">
-                Enter your username and password to sign in.
-              </p>
-
-
-              <form action={loginAction} className="mt-6 space-y-4">
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-slate-700">
-                    Username
-                  </label>
-                  <input
-                    name="username"
-                    type="text"
-                    autoComplete="username"
-                    placeholder="Enter username"
-                    required
-                    className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
-                  />
-                </div>
-                <div className="space-y-1">
-                  <label className="text-sm font-medium text-slate-700">
-                    Password
-                  </label>
-                  <input
-                    name="password"
-                    type="password"
-                    autoComplete="current-password"
-                    placeholder="Enter your password"
-                    required
-                    className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
-                  />
-                </div>
+              {challenge ? (
+                <>
+                  <h1 className="text-3xl font-semibold tracking-tight text-slate-900">
+                    Verification Code
+                  </h1>
+                  <p className="mt-2 text-sm text-slate-500">
+                    Enter the 6-digit code from your authenticator app for {challenge.user.username}, or one of
+                    your recovery codes.
+                  </p>
+
+                  {errorMessage && (
+                    <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                      {errorMessage}
+                    </div>
+                  )}
+
+                  <form action={verifyCodeAction} className="mt-6 space-y-4">
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-slate-700">
+                        Code
+                      </label>
+                      <input
+                        name="code"
+                        type="text"
+                        inputMode="numeric"
+                        autoComplete="one-time-code"
+                        autoFocus
+                        placeholder="123456"
+                        required
+                        maxLength={11}
+                        className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm tracking-widest text-slate-900 outline-none placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                      />
+                    </div>
+
+                    <LoginButton />
+                  </form>
+                  <a href="/login" className="mt-4 inline-block text-sm text-slate-500 hover:text-slate-900">
+                    Use a different account
+                  </a>
+                </>
+              ) : (
+                <>
+                  <h1 className="text-3xl font-semibold tracking-tight text-slate-900">
+                    Sign In
+                  </h1>
+                  <p className="mt-2 text-sm text-slate-500">
+                    Enter your username and password to sign in.
+                  </p>
+
+                  {errorMessage && (
+                    <div className="mt-4 rounded-lg border border-red-200 bg-red-50 px-3 py-2 text-sm text-red-700">
+                      {errorMessage}
+                    </div>
+                  )}
+
+                  <form action={loginAction} className="mt-6 space-y-4">
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-slate-700">
+                        Username
+                      </label>
+                      <input
+                        name="username"
+                        type="text"
+                        autoComplete="username"
+                        placeholder="Enter username"
+                        required
+                        className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <label className="text-sm font-medium text-slate-700">
+                        Password
+                      </label>
+                      <input
+                        name="password"
+                        type="password"
+                        autoComplete="current-password"
+                        placeholder="Enter your password"
+                        required
+                        className="w-full rounded-lg border border-slate-200 bg-white px-3 py-2 text-sm text-slate-900 outline-none placeholder:text-slate-400 focus:border-blue-500 focus:ring-2 focus:ring-blue-500/20"
+                      />
+                    </div>
 
-                <LoginButton />
-              </form>
+                    <LoginButton />
+                  </form>
+                </>
+              )}
             </div>
           </div>
         </div>
@@ -0,0 +1,14 @@
+import type { MetadataRoute } from "next";
+
+export default function manifest(): MetadataRoute.Manifest {
+  return {
+    name: process.env.NEXT_PUBLIC_APP_NAME || "TRIPLE E microfinance inc.",
+    short_name: "Collections",
+    description: "Collector's collection sheet, usable offline",
+    start_url: "/app/remittances",
+    display: "standalone",
+    background_color: "#f8fafc",
+    theme_color: "#2563eb",
+    icons: [{ src: "/logo.jpg", sizes: "192x192", type: "image/jpeg" }],
+  };
+}
@@ -0,0 +1,319 @@
+import { AccountingLineCategory, AccountingLineSection, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { invalidateClosingBalances } from "@/lib/closing-balances";
+import { CHART_OF_ACCOUNTS, LEDGER_ACCOUNTS } from "@/lib/ledger-accounts";
+import type { AccountingManualData } from "@/lib/accounting";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Manual lines of the accounting day (receipts, payments and daily expenses).
+ *
+ * `section` is the AccountingDay JSON column the value is stored in and the card it
+ * is shown on; it never changes, so saved days keep resolving their values by key.
+ * `category` decides what the value counts toward in the day's totals. Items are
+ * archived instead of deleted so historical days still render and total correctly.
+ */
+
+export type AccountingLineItemConfig = {
+  key: string;
+  label: string;
+  section: AccountingLineSection;
+  category: AccountingLineCategory;
+  ledgerAccountCode: string | null;
+  archived: boolean;
+};
+
+export const ACCOUNTING_LINE_SECTION_FIELDS: Record<
+  AccountingLineSection,
+  "receipts" | "payments" | "dailyExpenses"
+> = {
+  RECEIPTS: "receipts",
+  PAYMENTS: "payments",
+  DAILY_EXPENSES: "dailyExpenses",
+};
+
+export const ACCOUNTING_LINE_SECTION_LABELS: Record<AccountingLineSection, string> = {
+  RECEIPTS: "Receipts",
+  PAYMENTS: "Payments",
+  DAILY_EXPENSES: "Daily Expenses",
+};
+
+export const ACCOUNTING_LINE_CATEGORY_LABELS: Record<AccountingLineCategory, string> = {
+  RECEIPT: "Receipts",
+  PAYMENT: "Payments",
+  BANK_DEPOSIT: "Bank Deposits",
+  MANAGEMENT_EXPENSE: "Management Expense",
+  MEMO: "Memo only (not counted)",
+};
+
+const A = LEDGER_ACCOUNTS;
+
+function defaults(
+  section: AccountingLineSection,
+  category: AccountingLineCategory,
+  items: [key: string, label: string, ledgerAccountCode: string | null][],
+): AccountingLineItemConfig[] {
+  return items.map(([key, label, ledgerAccountCode]) => ({
+    key,
+    label,
+    section,
+    category,
+    ledgerAccountCode,
+    archived: false,
+  }));
+}
+
+/**
+ * The original hardcoded layout. It is seeded into accounting_line_items on first
+ * use and stays the fallback for pure helpers called without a configuration.
+ */
+export const DEFAULT_ACCOUNTING_LINE_ITEMS: AccountingLineItemConfig[] = [
+  ...defaults(AccountingLineSection.RECEIPTS, AccountingLineCategory.RECEIPT, [
+    ["cashAdvance", "Cash Advance", A.ADVANCES],
+    ["ftIn", "FT(IN)", A.FUND_TRANSFERS],
+  ]),
+  ...defaults(AccountingLineSection.PAYMENTS, AccountingLineCategory.PAYMENT, [
+    ["otherPay", "Other Pay", A.MISCELLANEOUS],
+    ["ftOut", "FT(OUT)", A.FUND_TRANSFERS],
+  ]),
+  // Hand-typed bank figures, superseded by the bank account register. Kept archived
+  // so days that have them still show them.
+  ...defaults(AccountingLineSection.PAYMENTS, AccountingLineCategory.MEMO, [
+    ["bankTransactionDepo", "Bank Transaction - Depo", null],
+    ["bankTransactionWithdraw", "Bank Transaction - Withdraw", null],
+    ["bankTransactionBalance", "Bank Transaction - Balance", null],
+    ["bankTransactionTotalAmount", "Bank Transaction - Total Amount", null],
+  ]).map((item) => ({ ...item, archived: true })),
+  ...defaults(AccountingLineSection.DAILY_EXPENSES, AccountingLineCategory.MANAGEMENT_EXPENSE, [
+    ["representation", "Representation", A.REPRESENTATION],
+    ["fuel", "Fuel", A.FUEL],
+    ["travelExpenses", "Travel Expenses", A.TRAVEL],
+    ["ownersWithdrawal", "Owners Withdrawal", A.OWNERS_DRAWINGS],
+    ["professionalFee", "Professional Fee", A.PROFESSIONAL_FEES],
+    ["salariesAndWages", "Salaries and Wages", A.SALARIES_AND_WAGES],
+    ["staffBenefits", "Staff Benefits", A.STAFF_BENEFITS],
+    ["allowance", "Allowance", A.ALLOWANCE],
+    ["cashAdvance", "Cash Advance", A.ADVANCES],
+    ["furnitureAndFixtures", "Furniture and Fixtures", A.FIXED_ASSETS],
+    ["officeRent", "Office Rent", A.OFFICE_RENT],
+    ["utilitiesExpenses", "Utilities Expenses", A.UTILITIES],
+    ["officeSupplies", "Office Supplies", A.OFFICE_SUPPLIES],
+    ["cashDividend", "Cash Dividend", A.OWNERS_DRAWINGS],
+    ["miscellaneous", "Miscellaneous", A.MISCELLANEOUS],
+    ["sssPagibigPh", "SSS/Pagibig/PH", A.GOVERNMENT_CONTRIBUTIONS],
+    ["officeEquipment", "Office Equipment", A.FIXED_ASSETS],
+    ["staffLoan", "Staff Loan", A.ADVANCES],
+    // Posted to the ledger from the savings offset rows themselves
+    ["offset", "Offset", null],
+  ]),
+];
+
+/** Accounts a line can post against; Cash on Hand is always the other side. */
+export const LINE_ITEM_LEDGER_ACCOUNTS = CHART_OF_ACCOUNTS.filter((account) => account.code !== A.CASH_ON_HAND);
+
+const LedgerAccountCodeSchema = z
+  .string()
+  .trim()
+  .optional()
+  .transform((v) => v || null)
+  .refine((v) => v === null || LINE_ITEM_LEDGER_ACCOUNTS.some((account) => account.code === v), {
+    message: "Unknown ledger account",
+  });
+
+export const CreateAccountingLineItemSchema = z.object({
+  section: z.enum(AccountingLineSection),
+  label: z.string().trim().min(1, "Label is required").max(60),
+  category: z.enum(AccountingLineCategory),
+  ledgerAccountCode: LedgerAccountCodeSchema,
+});
+
+export const UpdateAccountingLineItemSchema = CreateAccountingLineItemSchema.omit({ section: true });
+
+function toLineItemConfig(row: {
+  key: string;
+  label: string;
+  section: AccountingLineSection;
+  category: AccountingLineCategory;
+  ledgerAccountCode: string | null;
+  archivedAt: Date | null;
+}): AccountingLineItemConfig {
+  return {
+    key: row.key,
+    label: row.label,
+    section: row.section,
+    category: row.category,
+    ledgerAccountCode: row.ledgerAccountCode,
+    archived: row.archivedAt != null,
+  };
+}
+
+/** Seeds the default layout the first time line items are read. */
+async function ensureAccountingLineItems(db: Db) {
+  if ((await db.accountingLineItem.count()) > 0) return;
+
+  const sortOrders = new Map<AccountingLineSection, number>();
+  await db.accountingLineItem.createMany({
+    data: DEFAULT_ACCOUNTING_LINE_ITEMS.map((item) => {
+      const sortOrder = (sortOrders.get(item.section) ?? 0) + 10;
+      sortOrders.set(item.section, sortOrder);
+      return {
+        section: item.section,
+        key: item.key,
+        label: item.label,
+        category: item.category,
+        ledgerAccountCode: item.ledgerAccountCode,
+        sortOrder,
+        archivedAt: item.archived ? new Date() : null,
+      };
+    }),
+    skipDuplicates: true,
+  });
+}
+
+const LINE_ITEM_ORDER_BY: Prisma.AccountingLineItemOrderByWithRelationInput[] = [
+  { section: "asc" },
+  { sortOrder: "asc" },
+  { createdAt: "asc" },
+];
+
+/** Returns every line item, archived ones included, in display order. */
+export async function getAccountingLineItems(db: Db = prisma): Promise<AccountingLineItemConfig[]> {
+  await ensureAccountingLineItems(db);
+  const rows = await db.accountingLineItem.findMany({ orderBy: LINE_ITEM_ORDER_BY });
+  return rows.map(toLineItemConfig);
+}
+
+/** Line item rows with ids for the settings page. */
+export async function listAccountingLineItems(db: Db = prisma) {
+  await ensureAccountingLineItems(db);
+  return db.accountingLineItem.findMany({ orderBy: LINE_ITEM_ORDER_BY });
+}
+
+/**
+ * Items of one section to show for a day: active items, plus archived items that
+ * still carry a value on that day.
+ */
+export function getVisibleLineItems(
+  lineItems: AccountingLineItemConfig[],
+  manualData: AccountingManualData,
+  section: AccountingLineSection,
+) {
+  const values = manualData[ACCOUNTING_LINE_SECTION_FIELDS[section]];
+  return lineItems.filter(
+    (item) => item.section === section && (!item.archived || Number(values[item.key] || 0) !== 0),
+  );
+}
+
+function toLineItemKey(label: string) {
+  const words = label
+    .replace(/[^A-Za-z0-9]+/g, " ")
+    .trim()
+    .toLowerCase()
+    .split(" ")
+    .filter(Boolean);
+  const key = words.map((word, i) => (i === 0 ? word : word.charAt(0).toUpperCase() + word.slice(1))).join("");
+  return /^[a-z]/.test(key) ? key : `item${key.charAt(0).toUpperCase()}${key.slice(1)}`;
+}
+
+export async function createAccountingLineItem(
+  tx: Db,
+  input: z.infer<typeof CreateAccountingLineItemSchema>,
+) {
+  await ensureAccountingLineItems(tx);
+
+  const existing = await tx.accountingLineItem.findMany({
+    where: { section: input.section },
+    select: { key: true, sortOrder: true },
+  });
+  const taken = new Set(existing.map((item) => item.key));
+  const baseKey = toLineItemKey(input.label);
+  let key = baseKey;
+  for (let n = 2; taken.has(key); n += 1) key = `${baseKey}${n}`;
+
+  return tx.accountingLineItem.create({
+    data: {
+      section: input.section,
+      key,
+      label: input.label,
+      category: input.category,
+      ledgerAccountCode: input.ledgerAccountCode,
+      sortOrder: Math.max(0, ...existing.map((item) => item.sortOrder)) + 10,
+    },
+  });
+}
+
+async function findLineItem(tx: Db, id: string) {
+  const item = await tx.accountingLineItem.findUnique({ where: { id } });
+  if (!item) throw new Error("LINE_ITEM_NOT_FOUND");
+  return item;
+}
+
+export async function updateAccountingLineItem(
+  tx: Db,
+  id: string,
+  input: z.infer<typeof UpdateAccountingLineItemSchema>,
+) {
+  const item = await findLineItem(tx, id);
+  // The category decides what a line counts toward, so every stored closing may change.
+  if (item.category !== input.category) await invalidateClosingBalances(tx, null);
+  return tx.accountingLineItem.update({
+    where: { id },
+    data: {
+      label: input.label,
+      category: input.category,
+      ledgerAccountCode: input.ledgerAccountCode,
+    },
+  });
+}
+
+export async function setAccountingLineItemArchived(tx: Db, id: string, archived: boolean) {
+  const item = await findLineItem(tx, id);
+  if (archived === (item.archivedAt != null)) {
+    throw new Error(archived ? "LINE_ITEM_ALREADY_ARCHIVED" : "LINE_ITEM_NOT_ARCHIVED");
+  }
+  return tx.accountingLineItem.update({
+    where: { id },
+    data: { archivedAt: archived ? new Date() : null },
+  });
+}
+
+/** Swaps the item with its neighbour in the same section. */
+export async function moveAccountingLineItem(tx: Db, id: string, direction: "up" | "down") {
+  const item = await findLineItem(tx, id);
+  const siblings = await tx.accountingLineItem.findMany({
+    where: { section: item.section },
+    orderBy: [{ sortOrder: "asc" }, { createdAt: "asc" }],
+    select: { id: true },
+  });
+
+  const index = siblings.findIndex((sibling) => sibling.id === id);
+  const target = direction === "up" ? index - 1 : index + 1;
+  if (target < 0 || target >= siblings.length) return item;
+
+  const reordered = [...siblings];
+  [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+  // Renumber the whole section so ties left by earlier inserts cannot block a move
+  for (const [i, sibling] of reordered.entries()) {
+    await tx.accountingLineItem.update({ where: { id: sibling.id }, data: { sortOrder: (i + 1) * 10 } });
+  }
+  return item;
+}
+
+/** Maps line item error codes to an HTTP status and message. */
+export function getAccountingLineItemErrorResponse(
+  error: unknown,
+): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "LINE_ITEM_NOT_FOUND":
+      return { status: 404, error: "Line item not found" };
+    case "LINE_ITEM_ALREADY_ARCHIVED":
+      return { status: 409, error: "This line item is already archived" };
+    case "LINE_ITEM_NOT_ARCHIVED":
+      return { status: 409, error: "This line item is not archived" };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,164 @@
+import { AccountingRevisionSource, Prisma } from "@prisma/client";
+import { z } from "zod";
+import type { AccountingManualData } from "@/lib/accounting";
+import { prisma } from "@/lib/db";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Every write to an accounting day leaves a revision: the full manual inputs as
+ * stored, the closing balance they produced, and the fields that changed from the
+ * state before the write. Restoring a revision is itself a new revision.
+ */
+
+export type AccountingRevisionChange = {
+  field: string;
+  from: number | boolean | null;
+  to: number | boolean | null;
+};
+
+export type AccountingDayRevisionEntry = {
+  id: string;
+  version: number;
+  source: AccountingRevisionSource;
+  changes: AccountingRevisionChange[];
+  closingBalance: number | null;
+  encoderOverrideAllowed: boolean;
+  restoredFromVersion: number | null;
+  savedByName: string | null;
+  createdAt: string;
+};
+
+export const RestoreAccountingRevisionSchema = z.object({
+  branchId: z.string().uuid(),
+  accountingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  version: z.number().int().positive(),
+});
+
+function toRevisionDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+/**
+ * Field-level differences between two states of a day. Section values are keyed
+ * `receipts.<key>`, bank entries `bank.<bankAccountId>.deposit|withdrawal`; a value
+ * missing on one side counts as zero.
+ */
+export function diffAccountingManualData(
+  before: AccountingManualData | null,
+  after: AccountingManualData,
+): AccountingRevisionChange[] {
+  const changes: AccountingRevisionChange[] = [];
+  const push = (field: string, from: number | boolean | null, to: number | boolean | null) => {
+    if (from !== to) changes.push({ field, from, to });
+  };
+
+  push("openingBalanceOverride", before?.openingBalanceOverride ?? null, after.openingBalanceOverride);
+  push("loanReleaseOverride", before?.loanReleaseOverride ?? null, after.loanReleaseOverride);
+  push("encoderOverrideAllowed", before?.encoderOverrideAllowed ?? false, after.encoderOverrideAllowed);
+
+  for (const section of ["receipts", "payments", "dailyExpenses"] as const) {
+    const keys = new Set([...Object.keys(before?.[section] ?? {}), ...Object.keys(after[section])]);
+    for (const key of keys) {
+      push(`${section}.${key}`, before?.[section][key] ?? 0, after[section][key] ?? 0);
+    }
+  }
+
+  const bankIds = new Set([
+    ...(before?.bankTransactions ?? []).map((entry) => entry.bankAccountId),
+    ...after.bankTransactions.map((entry) => entry.bankAccountId),
+  ]);
+  for (const bankAccountId of bankIds) {
+    const from = before?.bankTransactions.find((entry) => entry.bankAccountId === bankAccountId);
+    const to = after.bankTransactions.find((entry) => entry.bankAccountId === bankAccountId);
+    push(`bank.${bankAccountId}.deposit`, from?.deposit ?? 0, to?.deposit ?? 0);
+    push(`bank.${bankAccountId}.withdrawal`, from?.withdrawal ?? 0, to?.withdrawal ?? 0);
+  }
+
+  return changes;
+}
+
+/**
+ * Appends the next revision of a day. `snapshot` is the stored form of the manual
+ * inputs, so a restore can hand it straight back to `saveAccountingDay`.
+ */
+export async function recordAccountingDayRevision(
+  tx: Db,
+  input: {
+    accountingDayId: string;
+    source: AccountingRevisionSource;
+    before: AccountingManualData | null;
+    after: AccountingManualData;
+    snapshot: Prisma.InputJsonValue;
+    closingBalance: number | null;
+    restoredFromVersion?: number | null;
+    userId: string;
+  },
+) {
+  const latest = await tx.accountingDayRevision.findFirst({
+    where: { accountingDayId: input.accountingDayId },
+    orderBy: { version: "desc" },
+    select: { version: true },
+  });
+
+  return tx.accountingDayRevision.create({
+    data: {
+      accountingDayId: input.accountingDayId,
+      version: (latest?.version ?? 0) + 1,
+      source: input.source,
+      snapshot: input.snapshot,
+      changes: diffAccountingManualData(input.before, input.after),
+      closingBalance: input.closingBalance == null ? null : new Prisma.Decimal(input.closingBalance),
+      restoredFromVersion: input.restoredFromVersion ?? null,
+      savedById: input.userId,
+    },
+  });
+}
+
+/** Revisions of a branch's day, newest first. */
+export async function listAccountingDayRevisions(
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingDayRevisionEntry[]> {
+  const revisions = await prisma.accountingDayRevision.findMany({
+    where: { accountingDay: { branchId, accountingDate: toRevisionDate(accountingDate) } },
+    orderBy: { version: "desc" },
+    include: { savedBy: { select: { name: true } } },
+  });
+
+  return revisions.map((revision) => ({
+    id: revision.id,
+    version: revision.version,
+    source: revision.source,
+    changes: Array.isArray(revision.changes) ? (revision.changes as AccountingRevisionChange[]) : [],
+    closingBalance: revision.closingBalance == null ? null : Number(revision.closingBalance),
+    encoderOverrideAllowed: (revision.snapshot as Record<string, unknown> | null)?.encoderOverrideAllowed === true,
+    restoredFromVersion: revision.restoredFromVersion,
+    savedByName: revision.savedBy?.name ?? null,
+    createdAt: revision.createdAt.toISOString(),
+  }));
+}
+
+export async function getAccountingDayRevisionSnapshot(
+  db: Db,
+  branchId: string,
+  accountingDate: string,
+  version: number,
+) {
+  const revision = await db.accountingDayRevision.findFirst({
+    where: { version, accountingDay: { branchId, accountingDate: toRevisionDate(accountingDate) } },
+    select: { version: true, snapshot: true },
+  });
+  if (!revision) throw new Error("ACCOUNTING_REVISION_NOT_FOUND");
+  return revision;
+}
+
+export function getAccountingRevisionErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "ACCOUNTING_REVISION_NOT_FOUND":
+      return { status: 404, error: "Revision not found for this accounting day" };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,236 @@
+import { AccountingLineSection } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { getWeekdaysInRange } from "@/lib/date";
+import {
+  getAccountingReportData,
+  type AccountingManualSection,
+  type AccountingReportData,
+} from "@/lib/accounting";
+import { ACCOUNTING_LINE_SECTION_FIELDS } from "@/lib/accounting-line-items";
+import { getVisibleBankAccounts, sanitizeBankEntries } from "@/lib/bank-accounts";
+
+export const ACCOUNTING_ROLLUP_MAX_DAYS = 93;
+
+export type AccountingRollupRow = {
+  key: string;
+  label: string;
+  /** One value per day, in the same order as `days`. */
+  values: number[];
+  total: number;
+  emphasis?: boolean;
+};
+
+export type AccountingRollupSection = {
+  key: string;
+  title: string;
+  rows: AccountingRollupRow[];
+};
+
+export type AccountingRollupData = {
+  from: string;
+  to: string;
+  days: string[];
+  savedDays: string[];
+  openingBalance: number;
+  closingBalance: number;
+  sections: AccountingRollupSection[];
+};
+
+/** Validates a rollup range; returns an error message, or null when the range is usable. */
+export function validateAccountingRollupRange(from: string, to: string): string | null {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(from) || !/^\d{4}-\d{2}-\d{2}$/.test(to) || from > to) {
+    return "Invalid date range";
+  }
+  const days = (Date.parse(`${to}T00:00:00Z`) - Date.parse(`${from}T00:00:00Z`)) / 86_400_000 + 1;
+  if (days > ACCOUNTING_ROLLUP_MAX_DAYS) {
+    return `The range can cover at most ${ACCOUNTING_ROLLUP_MAX_DAYS} days`;
+  }
+  return null;
+}
+
+/** Weekdays in the range plus any weekend day that has a saved sheet in one of the branches. */
+async function getRollupDays(from: string, to: string, branchIds: string[]) {
+  const saved = await (prisma as any).accountingDay.findMany({
+    where: {
+      branchId: { in: branchIds },
+      accountingDate: {
+        gte: new Date(`${from}T12:00:00.000+08:00`),
+        lte: new Date(`${to}T12:00:00.000+08:00`),
+      },
+    },
+    select: { accountingDate: true },
+  });
+  const savedDays: string[] = Array.from(
+    new Set<string>(saved.map((day: { accountingDate: Date }) => day.accountingDate.toISOString().slice(0, 10))),
+  ).sort();
+  const days = Array.from(new Set([...getWeekdaysInRange(from, to), ...savedDays])).sort();
+  return { days, savedDays };
+}
+
+function addSections(sections: AccountingManualSection[]) {
+  const total: AccountingManualSection = {};
+  for (const section of sections) {
+    for (const [key, value] of Object.entries(section)) total[key] = (total[key] ?? 0) + Number(value || 0);
+  }
+  return total;
+}
+
+function addNumbers<T extends Record<string, number>>(rows: T[]): T {
+  const total = { ...rows[0] };
+  for (const row of rows.slice(1)) {
+    for (const key of Object.keys(total) as (keyof T)[]) {
+      total[key] = (Number(total[key]) + Number(row[key])) as T[keyof T];
+    }
+  }
+  return total;
+}
+
+/** One day's sheets of several branches added together; per-branch overrides and counts are dropped. */
+function combineBranchReports(reports: AccountingReportData[]): AccountingReportData {
+  if (reports.length === 1) return reports[0];
+  const [first] = reports;
+  return {
+    ...first,
+    manualData: {
+      openingBalanceOverride: null,
+      loanReleaseOverride: null,
+      encoderOverrideAllowed: false,
+      receipts: addSections(reports.map((r) => r.manualData.receipts)),
+      payments: addSections(reports.map((r) => r.manualData.payments)),
+      dailyExpenses: addSections(reports.map((r) => r.manualData.dailyExpenses)),
+      bankTransactions: sanitizeBankEntries(reports.flatMap((r) => r.manualData.bankTransactions)),
+    },
+    computedTotals: addNumbers(reports.map((r) => r.computedTotals)),
+    view: addNumbers(reports.map((r) => r.view)),
+    cashCount: null,
+    lastUpdatedAt: null,
+  };
+}
+
+function sumRow(key: string, label: string, values: number[], emphasis = false): AccountingRollupRow {
+  return { key, label, values, total: values.reduce((sum, value) => sum + value, 0), emphasis };
+}
+
+/**
+ * Builds a period summary from the daily sheets: every day is resolved exactly as
+ * the accounting page shows it, so overrides, archived lines and bank entries carry over.
+ * Flow rows are summed; the opening balance comes from the first day and the closing
+ * balance from the last. With several branches each day is the sum of their sheets
+ * (the consolidated view).
+ */
+export async function getAccountingRollupData(
+  from: string,
+  to: string,
+  branchIds: string[],
+): Promise<AccountingRollupData> {
+  const { days, savedDays } = await getRollupDays(from, to, branchIds);
+
+  const reports: AccountingReportData[] = [];
+  for (const day of days) {
+    // Sequential on purpose: each day resolves its opening balance from the days before it.
+    const branchReports: AccountingReportData[] = [];
+    for (const branchId of branchIds) branchReports.push(await getAccountingReportData(branchId, day));
+    reports.push(combineBranchReports(branchReports));
+  }
+
+  const lineItems = reports[0]?.lineItems ?? [];
+  const bankAccounts = reports[0]?.bankAccounts ?? [];
+  const pick = (fn: (report: AccountingReportData) => number) => reports.map(fn);
+
+  const manualRows = (section: AccountingLineSection) => {
+    const field = ACCOUNTING_LINE_SECTION_FIELDS[section];
+    return lineItems
+      .filter(
+        (item) =>
+          item.section === section &&
+          (!item.archived || reports.some((report) => Number(report.manualData[field][item.key] || 0) !== 0)),
+      )
+      .map((item) => sumRow(`${field}.${item.key}`, item.label, pick((r) => r.manualData[field][item.key] ?? 0)));
+  };
+
+  const visibleBankAccounts = getVisibleBankAccounts(
+    bankAccounts,
+    reports.flatMap((report) => report.manualData.bankTransactions),
+  );
+  const bankRows = (field: "deposit" | "withdrawal", prefix: string) =>
+    visibleBankAccounts.map((account) =>
+      sumRow(
+        `${field}.${account.id}`,
+        `${prefix}-${account.name}`,
+        pick((r) => r.manualData.bankTransactions.find((e) => e.bankAccountId === account.id)?.[field] ?? 0),
+      ),
+    );
+
+  const openingValues = pick((r) => r.view.openingBalance);
+  const closingValues = pick((r) => r.view.closingBalance);
+  const openingBalance = openingValues[0] ?? 0;
+  const closingBalance = closingValues[closingValues.length - 1] ?? 0;
+
+  const inflows = pick((r) => r.view.receiptsTotal - r.view.openingBalance);
+  const outflows = pick((r) => r.view.paymentBaseTotal);
+  const inflowTotal = inflows.reduce((sum, value) => sum + value, 0);
+  const outflowTotal = outflows.reduce((sum, value) => sum + value, 0);
+
+  const sections: AccountingRollupSection[] = [
+    {
+      key: "collections",
+      title: "Computed Totals",
+      rows: [
+        sumRow("totalCollection", "Total Collection", pick((r) => r.computedTotals.totalCollection), true),
+        sumRow("fullRepaymentCount", "Full Repayments (count)", pick((r) => r.computedTotals.fullRepaymentCount)),
+        sumRow("fullRepaymentAmount", "Full Repayment", pick((r) => r.computedTotals.fullRepaymentAmount)),
+      ],
+    },
+    {
+      key: "receipts",
+      title: "Receipts",
+      rows: [
+        { key: "openingBalance", label: "Opening Balance", values: openingValues, total: openingBalance, emphasis: true },
+        sumRow("loanCollection", "Loan Col. (Current)", pick((r) => r.computedTotals.loanCollection)),
+        sumRow("savings", "Savings", pick((r) => r.computedTotals.savings)),
+        sumRow("processingFee", "PF", pick((r) => r.computedTotals.processingFee)),
+        sumRow("passbook", "Passbook", pick((r) => r.computedTotals.passbook)),
+        sumRow("membershipFee", "Mem Fee", pick((r) => r.computedTotals.membershipFee)),
+        sumRow("loanInsurance", "Loan Insurance", pick((r) => r.computedTotals.loanInsurance)),
+        ...manualRows(AccountingLineSection.RECEIPTS),
+        ...bankRows("withdrawal", "Bank wdl."),
+        {
+          key: "receiptsTotal",
+          label: "Total Receipts",
+          values: pick((r) => r.view.receiptsTotal),
+          total: openingBalance + inflowTotal,
+          emphasis: true,
+        },
+      ],
+    },
+    {
+      key: "payments",
+      title: "Payments",
+      rows: [
+        sumRow("loanRelease", "Loan Release", pick((r) => r.computedTotals.loanRelease)),
+        sumRow("managementExpense", "Mgmt. Exp.", pick((r) => r.view.managementExpense)),
+        ...manualRows(AccountingLineSection.PAYMENTS),
+        ...bankRows("deposit", "Bank depo"),
+        sumRow("bankDepositTotal", "Bank Deposit Total", pick((r) => r.view.bankDepositTotal)),
+        { key: "closingBalance", label: "Closing Balance", values: closingValues, total: closingBalance, emphasis: true },
+        {
+          key: "totalPayments",
+          label: "Total Payments",
+          values: pick((r) => r.view.totalPayments),
+          total: outflowTotal + closingBalance,
+          emphasis: true,
+        },
+      ],
+    },
+    {
+      key: "dailyExpenses",
+      title: "Daily Expenses",
+      rows: [
+        ...manualRows(AccountingLineSection.DAILY_EXPENSES),
+        sumRow("dailyExpensesTotal", "Total Daily Expenses", pick((r) => r.view.dailyExpensesTotal), true),
+      ],
+    },
+  ];
+
+  return { from, to, days, savedDays, openingBalance, closingBalance, sections };
+}
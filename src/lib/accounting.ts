@@ -1,50 +1,29 @@
-import { BalanceUpdateType, MemberStatus, Prisma, SavingsUpdateType } from "@prisma/client";
+import { AccountingRevisionSource, MemberStatus, Prisma } from "@prisma/client";
 import { prisma } from "@/lib/db";
 import { getManilaDateRange } from "@/lib/date";
-
-export const RECEIPTS_MANUAL_FIELDS = [
-  { key: "cashAdvance", label: "Cash Advance" },
-  { key: "ftIn", label: "FT(IN)" },
-  { key: "bankWithdrawal1", label: "Bank wdl.-DFOB1" },
-  { key: "bankWithdrawal2", label: "Bank wdl.-DFOB2" },
-] as const;
-
-export const PAYMENT_MANUAL_FIELDS = [
-  { key: "loanRelease", label: "Loan Release" },
-  { key: "otherPay", label: "Other Pay" },
-  { key: "ftOut", label: "FT(OUT)" },
-  { key: "bankDeposit1", label: "Bank depo-DFOB1" },
-  { key: "bankDeposit2", label: "Bank depo-DFOB2" },
-  { key: "bankDeposit3", label: "Bank depo-DFOB3" },
-  { key: "bankDeposit4", label: "Bank depo-DFOB4" },
-  { key: "bankDeposit5", label: "Bank depo-DFOB5" },
-  { key: "bankTransactionDepo", label: "Bank Transaction - Depo" },
-  { key: "bankTransactionWithdraw", label: "Bank Transaction - Withdraw" },
-  { key: "bankTransactionBalance", label: "Bank Transaction - Balance" },
-  { key: "bankTransactionTotalAmount", label: "Bank Transaction - Total Amount" },
-] as const;
-
-export const DAILY_EXPENSE_FIELDS = [
-  { key: "representation", label: "Representation" },
-  { key: "fuel", label: "Fuel" },
-  { key: "travelExpenses", label: "Travel Expenses" },
-  { key: "ownersWithdrawal", label: "Owners Withdrawal" },
-  { key: "professionalFee", label: "Professional Fee" },
-  { key: "salariesAndWages", label: "Salaries and Wages" },
-  { key: "staffBenefits", label: "Staff Benefits" },
-  { key: "allowance", label: "Allowance" },
-  { key: "cashAdvance", label: "Cash Advance" },
-  { key: "furnitureAndFixtures", label: "Furniture and Fixtures" },
-  { key: "officeRent", label: "Office Rent" },
-  { key: "utilitiesExpenses", label: "Utilities Expenses" },
-  { key: "officeSupplies", label: "Office Supplies" },
-  { key: "cashDividend", label: "Cash Dividend" },
-  { key: "miscellaneous", label: "Miscellaneous" },
-  { key: "sssPagibigPh", label: "SSS/Pagibig/PH" },
-  { key: "officeEquipment", label: "Office Equipment" },
-  { key: "staffLoan", label: "Staff Loan" },
-  { key: "offset", label: "Offset" },
-] as const;
+import { branchMemberFilter } from "@/lib/branches";
+import {
+  ACCOUNTING_LINE_SECTION_FIELDS,
+  DEFAULT_ACCOUNTING_LINE_ITEMS,
+  getAccountingLineItems,
+  type AccountingLineItemConfig,
+} from "@/lib/accounting-line-items";
+import {
+  getAccountingBankAccounts,
+  getBankEntriesByDate,
+  getBankEntriesForDate,
+  sanitizeBankEntries,
+  saveBankEntriesForDay,
+  type AccountingBankAccount,
+  type AccountingBankEntry,
+} from "@/lib/bank-accounts";
+import {
+  getCashCountForDate,
+  syncCashCountExpectedBalance,
+  type AccountingCashCount,
+} from "@/lib/cash-count";
+import { recordAccountingDayRevision } from "@/lib/accounting-revisions";
+import { invalidateClosingBalances } from "@/lib/closing-balances";
 
 export type AccountingManualSection = Record<string, number>;
 
@@ -55,6 +34,7 @@ export type AccountingManualData = {
   receipts: AccountingManualSection;
   payments: AccountingManualSection;
   dailyExpenses: AccountingManualSection;
+  bankTransactions: AccountingBankEntry[];
 };
 
 export type AccountingComputedTotals = {
@@ -83,17 +63,20 @@ export type AccountingView = {
 };
 
 export type AccountingReportData = {
+  branchId: string;
   accountingDate: string;
   manualData: AccountingManualData;
   computedTotals: AccountingComputedTotals;
   view: AccountingView;
+  lineItems: AccountingLineItemConfig[];
+  bankAccounts: AccountingBankAccount[];
+  cashCount: AccountingCashCount | null;
   lastUpdatedAt: string | null;
 };
 
 const OPENING_BALANCE_OVERRIDE_KEY = "__openingBalanceOverride";
 const LOAN_RELEASE_OVERRIDE_KEY = "__loanReleaseOverride";
 const ENCODER_OVERRIDE_ALLOWED_KEY = "__encoderOverrideAllowed";
-export const CLOSING_BALANCE_KEY = "__closingBalance";
 
 function toNumber(value: unknown) {
   if (typeof value === "number") return Number.isFinite(value) ? value : 0;
@@ -113,36 +96,50 @@ function toOptionalNumber(value: unknown) {
   return null;
 }
 
-function extractClosingBalance(payments: unknown): number | null {
-  if (!payments || typeof payments !== "object") return null;
-  return toOptionalNumber((payments as Record<string, unknown>)[CLOSING_BALANCE_KEY]);
-}
-
-function createEmptySection(keys: readonly { key: string }[]) {
-  return Object.fromEntries(keys.map(({ key }) => [key, 0])) as AccountingManualSection;
+function createEmptySection(
+  lineItems: AccountingLineItemConfig[],
+  field: "receipts" | "payments" | "dailyExpenses",
+) {
+  return Object.fromEntries(
+    lineItems
+      .filter((item) => ACCOUNTING_LINE_SECTION_FIELDS[item.section] === field)
+      .map((item) => [item.key, 0]),
+  ) as AccountingManualSection;
 }
 
-export function getDefaultAccountingManualData(): AccountingManualData {
+export function getDefaultAccountingManualData(
+  lineItems: AccountingLineItemConfig[] = DEFAULT_ACCOUNTING_LINE_ITEMS,
+): AccountingManualData {
   return {
     openingBalanceOverride: null,
     loanReleaseOverride: null,
     encoderOverrideAllowed: false,
-    receipts: createEmptySection(RECEIPTS_MANUAL_FIELDS),
-    payments: createEmptySection(PAYMENT_MANUAL_FIELDS),
-    dailyExpenses: createEmptySection(DAILY_EXPENSE_FIELDS),
+    receipts: createEmptySection(lineItems, "receipts"),
+    payments: createEmptySection(lineItems, "payments"),
+    dailyExpenses: createEmptySection(lineItems, "dailyExpenses"),
+    bankTransactions: [],
   };
 }
 
+/**
+ * Normalizes stored or submitted manual inputs. Every configured key gets a value,
+ * and keys that are no longer configured are kept so older days lose nothing.
+ */
 export function sanitizeAccountingManualData(
   input: Partial<AccountingManualData> | null | undefined,
+  lineItems: AccountingLineItemConfig[] = DEFAULT_ACCOUNTING_LINE_ITEMS,
 ): AccountingManualData {
   const normalize = (
     source: Record<string, unknown> | null | undefined,
-    keys: readonly { key: string }[],
-  ) =>
-    Object.fromEntries(
-      keys.map(({ key }) => [key, roundWhole(source?.[key])]),
-    ) as AccountingManualSection;
+    field: "receipts" | "payments" | "dailyExpenses",
+  ) => {
+    const section = createEmptySection(lineItems, field);
+    for (const [key, value] of Object.entries(source ?? {})) {
+      if (key.startsWith("__")) continue;
+      section[key] = roundWhole(value);
+    }
+    return section;
+  };
 
   return {
     openingBalanceOverride: toOptionalNumber(
@@ -156,12 +153,10 @@ export function sanitizeAccountingManualData(
     encoderOverrideAllowed:
       input?.encoderOverrideAllowed === true ||
       (input?.receipts as Record<string, unknown> | undefined)?.[ENCODER_OVERRIDE_ALLOWED_KEY] === true,
-    receipts: normalize(input?.receipts as Record<string, unknown> | undefined, RECEIPTS_MANUAL_FIELDS),
-    payments: normalize(input?.payments as Record<string, unknown> | undefined, PAYMENT_MANUAL_FIELDS),
-    dailyExpenses: normalize(
-      input?.dailyExpenses as Record<string, unknown> | undefined,
-      DAILY_EXPENSE_FIELDS,
-    ),
+    receipts: normalize(input?.receipts as Record<string, unknown> | undefined, "receipts"),
+    payments: normalize(input?.payments as Record<string, unknown> | undefined, "payments"),
+    dailyExpenses: normalize(input?.dailyExpenses as Record<string, unknown> | undefined, "dailyExpenses"),
+    bankTransactions: sanitizeBankEntries(input?.bankTransactions),
   };
 }
 
@@ -188,32 +183,48 @@ export function serializeAccountingManualData(manualData: AccountingManualData)
   };
 }
 
-function sumSection(section: AccountingManualSection, keys: readonly { key: string }[]) {
-  return keys.reduce((sum, field) => sum + toNumber(section[field.key]), 0);
-}
-
 function roundWhole(value: unknown) {
   const n = toNumber(value);
   if (!Number.isFinite(n)) return 0;
   return Math.round(n);
 }
 
+function sumLineItems(
+  manual: AccountingManualData,
+  lineItems: AccountingLineItemConfig[],
+  predicate: (item: AccountingLineItemConfig) => boolean,
+) {
+  return lineItems
+    .filter(predicate)
+    .reduce(
+      (sum, item) => sum + roundWhole(manual[ACCOUNTING_LINE_SECTION_FIELDS[item.section]][item.key]),
+      0,
+    );
+}
+
+/**
+ * Totals the day from the configured line items and the bank entries. Archived
+ * items still count, so a day saved before an item was archived keeps its totals.
+ */
 export function buildAccountingView(
   manual: AccountingManualData,
   computed: AccountingComputedTotals,
   openingBalance = computed.cashOnHand,
+  lineItems: AccountingLineItemConfig[] = DEFAULT_ACCOUNTING_LINE_ITEMS,
 ): AccountingView {
-  const bankDepositTotal = PAYMENT_MANUAL_FIELDS.filter((field) =>
-    field.key.startsWith("bankDeposit"),
-  ).reduce((sum, field) => sum + toNumber(manual.payments[field.key]), 0);
-
-  const dailyExpensesTotal = roundWhole(sumSection(manual.dailyExpenses, DAILY_EXPENSE_FIELDS));
-  const managementExpense = dailyExpensesTotal;
-  const manualReceiptInflows =
-    roundWhole(manual.receipts.cashAdvance) +
-    roundWhole(manual.receipts.ftIn) +
-    roundWhole(manual.receipts.bankWithdrawal1) +
-    roundWhole(manual.receipts.bankWithdrawal2);
+  const byCategory = (category: AccountingLineItemConfig["category"]) =>
+    sumLineItems(manual, lineItems, (item) => item.category === category);
+
+  const bankDeposits = manual.bankTransactions.reduce((sum, entry) => sum + roundWhole(entry.deposit), 0);
+  const bankWithdrawals = manual.bankTransactions.reduce((sum, entry) => sum + roundWhole(entry.withdrawal), 0);
+  const bankDepositTotal = byCategory("BANK_DEPOSIT") + bankDeposits;
+  const managementExpense = byCategory("MANAGEMENT_EXPENSE");
+  const dailyExpensesTotal = sumLineItems(
+    manual,
+    lineItems,
+    (item) => item.section === "DAILY_EXPENSES" && item.category !== "MEMO",
+  );
+  const manualReceiptInflows = byCategory("RECEIPT") + bankWithdrawals;
   const receiptsTotal =
     roundWhole(openingBalance) +
     roundWhole(computed.loanCollection) +
@@ -227,9 +238,8 @@ export function buildAccountingView(
   const paymentBaseTotal =
     roundWhole(computed.loanRelease) +
     managementExpense +
-    roundWhole(manual.payments.otherPay) +
-    roundWhole(manual.payments.ftOut) +
-    roundWhole(bankDepositTotal);
+    byCategory("PAYMENT") +
+    bankDepositTotal;
 
   const closingBalance = roundWhole(receiptsTotal - paymentBaseTotal);
   const totalPayments = roundWhole(paymentBaseTotal + closingBalance);
@@ -239,20 +249,24 @@ export function buildAccountingView(
     receiptsTotal: roundWhole(receiptsTotal),
     managementExpense,
     dailyExpensesTotal,
-    bankDepositTotal: roundWhole(bankDepositTotal),
+    bankDepositTotal,
     paymentBaseTotal: roundWhole(paymentBaseTotal),
     closingBalance,
     totalPayments,
   };
 }
 
-export async function getAccountingManualDataForDate(accountingDate: string): Promise<{
+export async function getAccountingManualDataForDate(
+  branchId: string,
+  accountingDate: string,
+  lineItems?: AccountingLineItemConfig[],
+): Promise<{
   manualData: AccountingManualData;
   lastUpdatedAt: string | null;
 }> {
   const record = await (prisma as any).accountingDay.findUnique({
     where: {
-      accountingDate: toAccountingDate(accountingDate),
+      branchId_accountingDate: { branchId, accountingDate: toAccountingDate(accountingDate) },
     },
     select: {
       receipts: true,
@@ -263,14 +277,19 @@ export async function getAccountingManualDataForDate(accountingDate: string): Pr
     },
   });
 
+  const bankTransactions = await getBankEntriesForDate(prisma, branchId, accountingDate);
   const manualData = record
-    ? sanitizeAccountingManualData({
-        receipts: record.receipts,
-        payments: record.payments,
-        dailyExpenses: record.dailyExpenses,
-        encoderOverrideAllowed: record.encoderOverrideAllowed,
-      })
-    : getDefaultAccountingManualData();
+    ? sanitizeAccountingManualData(
+        {
+          receipts: record.receipts,
+          payments: record.payments,
+          dailyExpenses: record.dailyExpenses,
+          encoderOverrideAllowed: record.encoderOverrideAllowed,
+          bankTransactions,
+        },
+        lineItems,
+      )
+    : { ...getDefaultAccountingManualData(lineItems), bankTransactions };
 
   return {
     manualData,
@@ -282,6 +301,12 @@ function toAccountingDate(accountingDate: string) {
   return new Date(`${accountingDate}T12:00:00.000+08:00`);
 }
 
+function nextDay(accountingDate: string) {
+  const date = new Date(`${accountingDate}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + 1);
+  return date.toISOString().slice(0, 10);
+}
+
 type AccountingDaySnapshot = {
   accountingDate: string;
   receipts: unknown;
@@ -289,42 +314,59 @@ type AccountingDaySnapshot = {
   dailyExpenses: unknown;
   encoderOverrideAllowed: boolean;
   closingBalance: number | null;
+  closingBalanceVersion: number;
   updatedAt: string | null;
 };
 
+type Db = Prisma.TransactionClient;
+
+const SNAPSHOT_SELECT = {
+  accountingDate: true,
+  receipts: true,
+  payments: true,
+  dailyExpenses: true,
+  encoderOverrideAllowed: true,
+  closingBalance: true,
+  closingBalanceVersion: true,
+  updatedAt: true,
+} as const;
+
 function dateToYmd(value: Date) {
   return new Date(value).toISOString().slice(0, 10);
 }
 
-async function getAccountingDaySnapshot(accountingDate: string): Promise<AccountingDaySnapshot | null> {
-  const record = await (prisma as any).accountingDay.findUnique({
-    where: { accountingDate: toAccountingDate(accountingDate) },
-    select: {
-      accountingDate: true,
-      receipts: true,
-      payments: true,
-      dailyExpenses: true,
-      encoderOverrideAllowed: true,
-      updatedAt: true,
-    },
-  });
-
-  if (!record) return null;
-
+function toSnapshot(record: any): AccountingDaySnapshot {
   return {
     accountingDate: dateToYmd(record.accountingDate),
     receipts: record.receipts,
     payments: record.payments,
     dailyExpenses: record.dailyExpenses,
     encoderOverrideAllowed: record.encoderOverrideAllowed ?? false,
-    closingBalance: extractClosingBalance(record.payments),
+    closingBalance: record.closingBalance == null ? null : Number(record.closingBalance),
+    closingBalanceVersion: record.closingBalanceVersion ?? 0,
     updatedAt: record.updatedAt?.toISOString?.() ?? null,
   };
 }
 
-async function getPreviousSavedAccountingDay(accountingDate: string): Promise<AccountingDaySnapshot | null> {
+async function getAccountingDaySnapshot(
+  db: Db,
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingDaySnapshot | null> {
+  const record = await (db as any).accountingDay.findUnique({
+    where: { branchId_accountingDate: { branchId, accountingDate: toAccountingDate(accountingDate) } },
+    select: SNAPSHOT_SELECT,
+  });
+  return record ? toSnapshot(record) : null;
+}
+
+async function getPreviousSavedAccountingDay(
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingDaySnapshot | null> {
   const record = await (prisma as any).accountingDay.findFirst({
     where: {
+      branchId,
       accountingDate: {
         lt: toAccountingDate(accountingDate),
       },
@@ -332,216 +374,247 @@ async function getPreviousSavedAccountingDay(accountingDate: string): Promise<Ac
     orderBy: {
       accountingDate: "desc",
     },
-    select: {
-      accountingDate: true,
-      receipts: true,
-      payments: true,
-      dailyExpenses: true,
-      encoderOverrideAllowed: true,
-      updatedAt: true,
-    },
+    select: SNAPSHOT_SELECT,
   });
-
-  if (!record) return null;
-
-  return {
-    accountingDate: dateToYmd(record.accountingDate),
-    receipts: record.receipts,
-    payments: record.payments,
-    dailyExpenses: record.dailyExpenses,
-    encoderOverrideAllowed: record.encoderOverrideAllowed ?? false,
-    closingBalance: extractClosingBalance(record.payments),
-    updatedAt: record.updatedAt?.toISOString?.() ?? null,
-  };
+  return record ? toSnapshot(record) : null;
 }
 
-async function getStoredOrComputedClosingBalance(accountingDate: string): Promise<number | null> {
-  const target = await getAccountingDaySnapshot(accountingDate);
+/**
+ * Returns the closing balance of a branch's saved day. When it is stale, the chain is
+ * recomputed forward from the branch's last saved day that still has one, in a single pass
+ * with batched totals, and every recomputed closing is stored again.
+ *
+ * A closing is only written back if no invalidation happened since it was read
+ * (`closingBalanceVersion`), so a concurrent backdated write is never overwritten.
+ */
+async function getStoredOrComputedClosingBalance(
+  branchId: string,
+  accountingDate: string,
+  db: Db = prisma,
+): Promise<number | null> {
+  const target = await getAccountingDaySnapshot(db, branchId, accountingDate);
   if (!target) return null;
   if (target.closingBalance != null) return target.closingBalance;
 
-  const toCompute: AccountingDaySnapshot[] = [target];
-  let baseClosingBalance: number | null = null;
+  const anchor = await (db as any).accountingDay.findFirst({
+    where: { branchId, accountingDate: { lt: toAccountingDate(accountingDate) }, closingBalance: { not: null } },
+    orderBy: { accountingDate: "desc" },
+    select: { accountingDate: true, closingBalance: true },
+  });
+  const stale: AccountingDaySnapshot[] = (
+    await (db as any).accountingDay.findMany({
+      where: {
+        branchId,
+        accountingDate: {
+          ...(anchor ? { gt: anchor.accountingDate } : {}),
+          lte: toAccountingDate(accountingDate),
+        },
+      },
+      orderBy: { accountingDate: "asc" },
+      select: SNAPSHOT_SELECT,
+    })
+  ).map(toSnapshot);
+
+  const from = stale[0].accountingDate;
+  const [lineItems, totalsByDate, bankEntriesByDate] = await Promise.all([
+    getAccountingLineItems(),
+    getAccountingComputedTotalsByDate(branchId, from, accountingDate),
+    getBankEntriesByDate(db, branchId, from, accountingDate),
+  ]);
 
-  while (true) {
-    const cursor = toCompute[toCompute.length - 1];
-    const prev = await getPreviousSavedAccountingDay(cursor.accountingDate);
-    if (!prev) {
-      baseClosingBalance = null;
-      break;
+  let previousClosing: number | null = anchor ? Number(anchor.closingBalance) : null;
+  for (const snapshot of stale) {
+    if (snapshot.closingBalance != null) {
+      previousClosing = snapshot.closingBalance;
+      continue;
     }
-    if (prev.closingBalance != null) {
-      baseClosingBalance = prev.closingBalance;
-      break;
-    }
-    toCompute.push(prev);
-  }
 
-  let previousClosing = baseClosingBalance;
-  for (let i = toCompute.length - 1; i >= 0; i -= 1) {
-    const snapshot = toCompute[i];
-    const computedTotals = await getAccountingComputedTotals(snapshot.accountingDate);
-    const manualData = sanitizeAccountingManualData({
-      receipts: snapshot.receipts as any,
-      payments: snapshot.payments as any,
-      dailyExpenses: snapshot.dailyExpenses as any,
-      encoderOverrideAllowed: snapshot.encoderOverrideAllowed,
-    });
+    const computedTotals = totalsByDate.get(snapshot.accountingDate) ?? EMPTY_COMPUTED_TOTALS;
+    const manualData = sanitizeAccountingManualData(
+      {
+        receipts: snapshot.receipts as any,
+        payments: snapshot.payments as any,
+        dailyExpenses: snapshot.dailyExpenses as any,
+        encoderOverrideAllowed: snapshot.encoderOverrideAllowed,
+        bankTransactions: bankEntriesByDate.get(snapshot.accountingDate) ?? [],
+      },
+      lineItems,
+    );
     const openingBalance =
       manualData.openingBalanceOverride ?? (previousClosing ?? computedTotals.cashOnHand);
     const resolvedComputedTotals = {
       ...computedTotals,
       loanRelease: manualData.loanReleaseOverride ?? computedTotals.loanRelease,
     };
-    const view = buildAccountingView(manualData, resolvedComputedTotals, openingBalance);
+    const view = buildAccountingView(manualData, resolvedComputedTotals, openingBalance, lineItems);
     previousClosing = view.closingBalance;
+
+    await (db as any).accountingDay.updateMany({
+      where: {
+        branchId,
+        accountingDate: toAccountingDate(snapshot.accountingDate),
+        closingBalanceVersion: snapshot.closingBalanceVersion,
+      },
+      data: { closingBalance: new Prisma.Decimal(view.closingBalance) },
+    });
   }
 
   return previousClosing;
 }
 
 export async function getBaseOpeningBalance(
+  branchId: string,
   accountingDate: string,
   computedTotals: AccountingComputedTotals,
 ): Promise<number> {
-  const previousSavedDay = await getPreviousSavedAccountingDay(accountingDate);
+  const previousSavedDay = await getPreviousSavedAccountingDay(branchId, accountingDate);
   if (!previousSavedDay) return computedTotals.cashOnHand;
 
   const previousClosing =
     previousSavedDay.closingBalance ??
-    (await getStoredOrComputedClosingBalance(previousSavedDay.accountingDate));
+    (await getStoredOrComputedClosingBalance(branchId, previousSavedDay.accountingDate));
 
   return previousClosing ?? computedTotals.cashOnHand;
 }
 
-export async function getAccountingComputedTotals(accountingDate: string): Promise<AccountingComputedTotals> {
-  const range = getManilaDateRange(accountingDate, accountingDate);
+const EMPTY_COMPUTED_TOTALS: AccountingComputedTotals = {
+  cashOnHand: 0,
+  loanCollection: 0,
+  loanRelease: 0,
+  loanInsurance: 0,
+  processingFee: 0,
+  passbook: 0,
+  membershipFee: 0,
+  savings: 0,
+  totalCollection: 0,
+  fullRepaymentCount: 0,
+  fullRepaymentAmount: 0,
+};
 
-  const [
-    loanCollectionAgg,
-    loanReleaseAgg,
-    loanInsuranceAgg,
-    processingFeeAgg,
-    passbookAgg,
-    membershipFeeAgg,
-    savingsAgg,
-    fullRepaymentCount,
-    fullRepaymentAmountAgg,
-  ] = await Promise.all([
-    prisma.balanceAdjustment.aggregate({
-      where: {
-        type: BalanceUpdateType.DEDUCT,
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    (prisma as any).activeRelease.aggregate({
-      where: {
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    (prisma as any).loanInsurance.aggregate({
-      where: {
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    (prisma as any).processingFee.aggregate({
-      where: {
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    (prisma as any).passbookFee.aggregate({
-      where: {
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    (prisma as any).membershipFee.aggregate({
-      where: {
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    prisma.savingsAdjustment.aggregate({
-      where: {
-        type: SavingsUpdateType.INCREASE,
-        createdAt: { gte: range.from, lte: range.to },
-      },
-      _sum: { amount: true },
-    }),
-    prisma.balanceAdjustment.count({
-      where: {
-        type: BalanceUpdateType.DEDUCT,
-        createdAt: { gte: range.from, lte: range.to },
-        balanceAfter: new Prisma.Decimal(0),
-      },
-    }),
-    prisma.balanceAdjustment.aggregate({
-      where: {
-        type: BalanceUpdateType.DEDUCT,
-        createdAt: { gte: range.from, lte: range.to },
-        balanceAfter: new Prisma.Decimal(0),
-      },
-      _sum: { amount: true },
-    }),
-  ]);
+export async function getAccountingComputedTotals(
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingComputedTotals> {
+  return (await getAccountingComputedTotalsByDate(branchId, accountingDate, accountingDate)).get(accountingDate) ??
+    EMPTY_COMPUTED_TOTALS;
+}
 
-  const loanCollection = Number(loanCollectionAgg._sum.amount ?? 0);
-  const loanRelease = Number(loanReleaseAgg._sum.amount ?? 0);
-  const loanInsurance = Number(loanInsuranceAgg._sum.amount ?? 0);
-  const processingFee = Number(processingFeeAgg._sum.amount ?? 0);
-  const passbook = Number(passbookAgg._sum.amount ?? 0);
-  const membershipFee = Number(membershipFeeAgg._sum.amount ?? 0);
-  const savings = Number(savingsAgg._sum.amount ?? 0);
-  const totalCollection =
-    loanCollection + loanInsurance + processingFee + passbook + membershipFee + savings;
-  const fullRepaymentAmount = Number(fullRepaymentAmountAgg._sum.amount ?? 0);
-  const cashOnHand = totalCollection - fullRepaymentAmount;
+/**
+ * Computed totals of every day in the range, keyed by Manila calendar date, from one
+ * grouped query. Only members of the branch's groups count. Days without activity
+ * are absent from the map.
+ */
+export async function getAccountingComputedTotalsByDate(
+  branchId: string,
+  from: string,
+  to: string,
+): Promise<Map<string, AccountingComputedTotals>> {
+  const range = getManilaDateRange(from, to);
+  const inBranch = branchMemberFilter([branchId], '"memberId"');
+
+  const rows = await prisma.$queryRaw<{ day: Date; kind: string; total: Prisma.Decimal; count: number }[]>`
+    SELECT s."day", s."kind", COALESCE(SUM(s."amount"), 0) AS "total", COUNT(*)::int AS "count"
+    FROM (
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date AS "day", 'loanCollection' AS "kind", "amount"
+      FROM "balance_adjustments"
+      WHERE "type" = 'DEDUCT' AND "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'fullRepayment', "amount"
+      FROM "balance_adjustments"
+      WHERE "type" = 'DEDUCT' AND "balanceAfter" = 0 AND "createdAt" >= ${range.from} AND "createdAt" <= ${range.to}
+        ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'loanRelease', "amount"
+      FROM "active_releases"
+      WHERE "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'loanInsurance', "amount"
+      FROM "loan_insurances"
+      WHERE "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'processingFee', "amount"
+      FROM "processing_fees"
+      WHERE "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'passbook', "amount"
+      FROM "passbook_fees"
+      WHERE "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'membershipFee', "amount"
+      FROM "membership_fees"
+      WHERE "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+      UNION ALL
+      SELECT ("createdAt" AT TIME ZONE 'Asia/Manila')::date, 'savings', "amount"
+      FROM "savings_adjustments"
+      WHERE "type" = 'INCREASE' AND "createdAt" >= ${range.from} AND "createdAt" <= ${range.to} ${inBranch}
+    ) s
+    GROUP BY s."day", s."kind"
+  `;
 
-  return {
-    cashOnHand: roundWhole(cashOnHand),
-    loanCollection: roundWhole(loanCollection),
-    loanRelease: roundWhole(loanRelease),
-    loanInsurance: roundWhole(loanInsurance),
-    processingFee: roundWhole(processingFee),
-    passbook: roundWhole(passbook),
-    membershipFee: roundWhole(membershipFee),
-    savings: roundWhole(savings),
-    totalCollection: roundWhole(totalCollection),
-    fullRepaymentCount,
-    fullRepaymentAmount: roundWhole(fullRepaymentAmount),
-  };
+  const sums = new Map<string, Record<string, { total: number; count: number }>>();
+  for (const row of rows) {
+    const ymd = dateToYmd(row.day);
+    sums.set(ymd, { ...sums.get(ymd), [row.kind]: { total: Number(row.total), count: row.count } });
+  }
+
+  const byDate = new Map<string, AccountingComputedTotals>();
+  for (const [ymd, day] of sums) {
+    const sum = (kind: string) => day[kind]?.total ?? 0;
+    const loanCollection = sum("loanCollection");
+    const loanInsurance = sum("loanInsurance");
+    const processingFee = sum("processingFee");
+    const passbook = sum("passbook");
+    const membershipFee = sum("membershipFee");
+    const savings = sum("savings");
+    const totalCollection =
+      loanCollection + loanInsurance + processingFee + passbook + membershipFee + savings;
+    const fullRepaymentAmount = sum("fullRepayment");
+    const cashOnHand = totalCollection - fullRepaymentAmount;
+
+    byDate.set(ymd, {
+      cashOnHand: roundWhole(cashOnHand),
+      loanCollection: roundWhole(loanCollection),
+      loanRelease: roundWhole(sum("loanRelease")),
+      loanInsurance: roundWhole(loanInsurance),
+      processingFee: roundWhole(processingFee),
+      passbook: roundWhole(passbook),
+      membershipFee: roundWhole(membershipFee),
+      savings: roundWhole(savings),
+      totalCollection: roundWhole(totalCollection),
+      fullRepaymentCount: day.fullRepayment?.count ?? 0,
+      fullRepaymentAmount: roundWhole(fullRepaymentAmount),
+    });
+  }
+
+  return byDate;
 }
 
-async function getOffsetAmountForDate(accountingDate: string): Promise<number> {
+async function getOffsetAmountForDate(branchId: string, accountingDate: string): Promise<number> {
   const range = getManilaDateRange(accountingDate, accountingDate);
 
   const rows = await prisma.$queryRaw<{ total: number }[]>`
     SELECT COALESCE(SUM(sa."amount"), 0)::float8 AS "total"
     FROM "savings_adjustments" sa
-    WHERE sa."type" = 'WITHDRAW'
+    WHERE sa."type" = 'APPLY_TO_BALANCE'
+      AND sa."balanceAdjustmentId" IS NOT NULL
       AND sa."createdAt" >= ${range.from}
       AND sa."createdAt" <= ${range.to}
-      AND EXISTS (
-        SELECT 1
-        FROM "member_notes" mn
-        WHERE mn."memberId" = sa."memberId"
-          AND UPPER(TRIM(mn."content")) = 'OFFSET'
-          AND (mn."createdAt" AT TIME ZONE 'Asia/Manila')::date = (sa."createdAt" AT TIME ZONE 'Asia/Manila')::date
-      )
+      ${branchMemberFilter([branchId], 'sa."memberId"')}
   `;
 
   return Number(rows?.[0]?.total ?? 0);
 }
 
-export async function getAccountingReportData(accountingDate: string): Promise<AccountingReportData> {
-  const [{ manualData, lastUpdatedAt }, computedTotals, offsetAmount] = await Promise.all([
-    getAccountingManualDataForDate(accountingDate),
-    getAccountingComputedTotals(accountingDate),
-    getOffsetAmountForDate(accountingDate),
+export async function getAccountingReportData(
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingReportData> {
+  const [lineItems, bankAccounts] = await Promise.all([getAccountingLineItems(), getAccountingBankAccounts()]);
+  const [{ manualData, lastUpdatedAt }, computedTotals, offsetAmount, cashCount] = await Promise.all([
+    getAccountingManualDataForDate(branchId, accountingDate, lineItems),
+    getAccountingComputedTotals(branchId, accountingDate),
+    getOffsetAmountForDate(branchId, accountingDate),
+    getCashCountForDate(prisma, branchId, accountingDate),
   ]);
 
   const resolvedManualData =
@@ -555,7 +628,7 @@ export async function getAccountingReportData(accountingDate: string): Promise<A
         }
       : manualData;
 
-  const baseOpeningBalance = await getBaseOpeningBalance(accountingDate, computedTotals);
+  const baseOpeningBalance = await getBaseOpeningBalance(branchId, accountingDate, computedTotals);
   const resolvedOpeningBalance = resolvedManualData.openingBalanceOverride ?? baseOpeningBalance;
   const resolvedComputedTotals = {
     ...computedTotals,
@@ -563,10 +636,218 @@ export async function getAccountingReportData(accountingDate: string): Promise<A
   };
 
   return {
+    branchId,
     accountingDate,
     manualData: resolvedManualData,
     computedTotals: resolvedComputedTotals,
-    view: buildAccountingView(resolvedManualData, resolvedComputedTotals, resolvedOpeningBalance),
+    view: buildAccountingView(resolvedManualData, resolvedComputedTotals, resolvedOpeningBalance, lineItems),
+    lineItems,
+    bankAccounts,
+    cashCount,
     lastUpdatedAt,
   };
 }
+
+function toRevisionSnapshot(manualData: AccountingManualData) {
+  return {
+    ...serializeAccountingManualData(manualData),
+    encoderOverrideAllowed: manualData.encoderOverrideAllowed,
+    bankTransactions: manualData.bankTransactions,
+  };
+}
+
+async function getStoredManualData(
+  tx: Prisma.TransactionClient,
+  existing: { receipts: unknown; payments: unknown; dailyExpenses: unknown; encoderOverrideAllowed: boolean },
+  branchId: string,
+  accountingDate: string,
+  lineItems: AccountingLineItemConfig[],
+) {
+  return sanitizeAccountingManualData(
+    {
+      receipts: existing.receipts as AccountingManualSection,
+      payments: existing.payments as AccountingManualSection,
+      dailyExpenses: existing.dailyExpenses as AccountingManualSection,
+      encoderOverrideAllowed: existing.encoderOverrideAllowed,
+      bankTransactions: await getBankEntriesForDate(tx, branchId, accountingDate),
+    },
+    lineItems,
+  );
+}
+
+/**
+ * Writes the manual inputs of a branch's accounting day, creating the day if it has not
+ * been saved yet. The closing balance is recomputed and stored with the payments,
+ * and the write is recorded as the day's next revision.
+ * Callers decide whether the user is allowed to overwrite a saved day.
+ */
+export async function saveAccountingDay(
+  tx: Prisma.TransactionClient,
+  input: {
+    branchId: string;
+    accountingDate: string;
+    manualData: Partial<AccountingManualData>;
+    userId: string;
+    source?: AccountingRevisionSource;
+    restoredFromVersion?: number;
+  },
+) {
+  const accountingDate = new Date(`${input.accountingDate}T12:00:00.000+08:00`);
+  const key = { branchId_accountingDate: { branchId: input.branchId, accountingDate } };
+  const existing = await (tx as any).accountingDay.findUnique({
+    where: key,
+    select: { id: true, receipts: true, payments: true, dailyExpenses: true, encoderOverrideAllowed: true },
+  });
+
+  const lineItems = await getAccountingLineItems(tx);
+  const before = existing
+    ? await getStoredManualData(tx, existing, input.branchId, input.accountingDate, lineItems)
+    : null;
+  const manualData = {
+    ...sanitizeAccountingManualData(input.manualData, lineItems),
+    encoderOverrideAllowed: existing?.encoderOverrideAllowed ?? false,
+  };
+  const serializedManualData = serializeAccountingManualData(manualData);
+  await saveBankEntriesForDay(tx, {
+    branchId: input.branchId,
+    accountingDate: input.accountingDate,
+    entries: manualData.bankTransactions,
+    userId: input.userId,
+  });
+
+  const computedTotals = await getAccountingComputedTotals(input.branchId, input.accountingDate);
+  const baseOpeningBalance = await getBaseOpeningBalance(input.branchId, input.accountingDate, computedTotals);
+  const resolvedOpeningBalance = manualData.openingBalanceOverride ?? baseOpeningBalance;
+  const resolvedComputedTotals = {
+    ...computedTotals,
+    loanRelease: manualData.loanReleaseOverride ?? computedTotals.loanRelease,
+  };
+  const view = buildAccountingView(manualData, resolvedComputedTotals, resolvedOpeningBalance, lineItems);
+  const closingBalance = new Prisma.Decimal(Math.round(view.closingBalance));
+
+  const day = existing
+    ? await (tx as any).accountingDay.update({
+        where: key,
+        data: {
+          receipts: serializedManualData.receipts,
+          payments: serializedManualData.payments,
+          dailyExpenses: serializedManualData.dailyExpenses,
+          encoderOverrideAllowed: manualData.encoderOverrideAllowed,
+          closingBalance,
+          closingBalanceVersion: { increment: 1 },
+          updatedById: input.userId,
+        },
+      })
+    : await (tx as any).accountingDay.create({
+        data: {
+          branchId: input.branchId,
+          accountingDate,
+          receipts: serializedManualData.receipts,
+          payments: serializedManualData.payments,
+          dailyExpenses: serializedManualData.dailyExpenses,
+          encoderOverrideAllowed: manualData.encoderOverrideAllowed,
+          closingBalance,
+          createdById: input.userId,
+          updatedById: input.userId,
+        },
+      });
+  await invalidateClosingBalances(tx, nextDay(input.accountingDate));
+  await syncCashCountExpectedBalance(tx, input.branchId, input.accountingDate, Number(closingBalance));
+  await recordAccountingDayRevision(tx, {
+    accountingDayId: day.id,
+    source: input.source ?? AccountingRevisionSource.SAVE,
+    before,
+    after: manualData,
+    snapshot: toRevisionSnapshot(manualData),
+    closingBalance: Number(closingBalance),
+    restoredFromVersion: input.restoredFromVersion,
+    userId: input.userId,
+  });
+
+  return {
+    day,
+    data: {
+      ...serializedManualData,
+      closingBalance: Number(closingBalance),
+      bankTransactions: manualData.bankTransactions,
+      encoderOverrideAllowed: manualData.encoderOverrideAllowed,
+      lastUpdatedAt: day.updatedAt?.toISOString?.() ?? null,
+    },
+  };
+}
+
+/**
+ * Grants or revokes the encoder's right to overwrite a saved day. The manual inputs
+ * are untouched; the change is still recorded as a revision so the history shows
+ * when the day was open to encoders.
+ */
+export async function setAccountingEncoderOverride(
+  tx: Prisma.TransactionClient,
+  input: { branchId: string; accountingDate: string; encoderOverrideAllowed: boolean; userId: string },
+) {
+  const key = {
+    branchId_accountingDate: { branchId: input.branchId, accountingDate: toAccountingDate(input.accountingDate) },
+  };
+  const existing = await (tx as any).accountingDay.findUnique({
+    where: key,
+    select: {
+      id: true,
+      receipts: true,
+      payments: true,
+      dailyExpenses: true,
+      encoderOverrideAllowed: true,
+      closingBalance: true,
+    },
+  });
+  if (!existing) return null;
+
+  const lineItems = await getAccountingLineItems(tx);
+  const before = await getStoredManualData(tx, existing, input.branchId, input.accountingDate, lineItems);
+  const after = { ...before, encoderOverrideAllowed: input.encoderOverrideAllowed };
+  const serializedManualData = serializeAccountingManualData(after);
+
+  const day = await (tx as any).accountingDay.update({
+    where: key,
+    data: {
+      receipts: serializedManualData.receipts,
+      payments: serializedManualData.payments,
+      dailyExpenses: serializedManualData.dailyExpenses,
+      encoderOverrideAllowed: input.encoderOverrideAllowed,
+      updatedById: input.userId,
+    },
+  });
+  await recordAccountingDayRevision(tx, {
+    accountingDayId: day.id,
+    source: AccountingRevisionSource.ENCODER_OVERRIDE,
+    before,
+    after,
+    snapshot: toRevisionSnapshot(after),
+    closingBalance: existing.closingBalance == null ? null : Number(existing.closingBalance),
+    userId: input.userId,
+  });
+
+  return day;
+}
+
+/**
+ * Stores the closing balance of every saved day in the range, in every branch, that
+ * does not have one yet. Opening balances after a closed period then read the frozen
+ * figure, and invalidation skips days inside an active close.
+ */
+export async function freezeClosingBalances(tx: Prisma.TransactionClient, from: string, to: string) {
+  const stale: { branchId: string; accountingDate: Date }[] = await (tx as any).accountingDay.findMany({
+    where: {
+      accountingDate: { gte: toAccountingDate(from), lte: toAccountingDate(to) },
+      closingBalance: null,
+    },
+    orderBy: { accountingDate: "asc" },
+    select: { branchId: true, accountingDate: true },
+  });
+  if (stale.length === 0) return 0;
+
+  const lastStaleByBranch = new Map(stale.map((day) => [day.branchId, dateToYmd(day.accountingDate)]));
+  for (const [branchId, accountingDate] of lastStaleByBranch) {
+    await getStoredOrComputedClosingBalance(branchId, accountingDate, tx);
+  }
+  return stale.length;
+}
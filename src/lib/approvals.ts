@@ -0,0 +1,547 @@
+import {
+  AccountingRevisionSource,
+  ApprovalRequestType,
+  ApprovalStatus,
+  BalanceUpdateType,
+  EmployeePosition,
+  Prisma,
+  SavingsUpdateType,
+} from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { getScopedBranchIds } from "@/lib/auth/access";
+import type { AuthUser } from "@/lib/auth/session";
+import { createAuditLog, type AuditRequestContext } from "@/lib/audit";
+import { saveAccountingDay, type AccountingManualData } from "@/lib/accounting";
+import { applyLoanIncrease } from "@/lib/loans";
+import { assertPeriodOpen } from "@/lib/period-close";
+import {
+  FEE_TYPES,
+  getReversalErrorResponse,
+  reverseBalanceAdjustment,
+  reverseFee,
+  reverseSavingsAdjustment,
+} from "@/lib/reversals";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Maker-checker workflow for sensitive ledger operations.
+ *
+ * Users who cannot approve (see `canApproveRequests`) do not mutate the ledger for
+ * these operations; they file an ApprovalRequest instead. The mutation runs only
+ * when another user approves it, inside the same transaction that marks the request
+ * APPROVED, so a failed execution leaves the request PENDING.
+ */
+
+/** Savings withdrawals at or above this amount need approval. */
+export const WITHDRAWAL_APPROVAL_THRESHOLD = Number(
+  process.env.LMS_WITHDRAWAL_APPROVAL_THRESHOLD ?? "1000",
+);
+
+export const APPROVER_POSITIONS: readonly EmployeePosition[] = [
+  EmployeePosition.UNIT_MANAGER,
+  EmployeePosition.OPERATIONS_MANAGER,
+];
+
+export const APPROVAL_TYPE_LABELS: Record<ApprovalRequestType, string> = {
+  REVERSAL: "Reversal",
+  BALANCE_INCREASE: "Balance Increase",
+  SAVINGS_WITHDRAWAL: "Savings Withdrawal",
+  ACCOUNTING_OVERRIDE: "Accounting Override",
+};
+
+export const REVERSAL_TARGETS = ["BALANCE", "SAVINGS", ...FEE_TYPES] as const;
+
+export type ReversalTarget = (typeof REVERSAL_TARGETS)[number];
+
+const ReversalPayloadSchema = z.object({
+  target: z.enum(REVERSAL_TARGETS),
+  adjustmentId: z.string().uuid(),
+});
+
+const AmountPayloadSchema = z.object({
+  amount: z.string().regex(/^\d+(\.\d{1,2})?$/),
+});
+
+const AccountingOverridePayloadSchema = z.object({
+  branchId: z.string().uuid(),
+  accountingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  manualData: z.record(z.string(), z.unknown()),
+});
+
+export type ApprovalPayload =
+  | { target: ReversalTarget; adjustmentId: string }
+  | { amount: string }
+  | { branchId: string; accountingDate: string; manualData: Prisma.InputJsonObject };
+
+export const ApprovalDecisionSchema = z.object({
+  decision: z.enum(["APPROVE", "REJECT"]),
+  note: z.string().trim().max(500).optional(),
+});
+
+/**
+ * Whether the user approves requests at all or, given `approvalId`, that request:
+ * a branch-scoped approver only decides requests inside their branches.
+ */
+export async function canApproveRequests(user: AuthUser, approvalId?: string): Promise<boolean> {
+  if (!(await isApprover(user))) return false;
+  if (!approvalId) return true;
+
+  const inScope = await prisma.approvalRequest.count({
+    where: { id: approvalId, ...(await getApprovalScopeWhere(user)) },
+  });
+  return inScope > 0;
+}
+
+async function isApprover(user: AuthUser) {
+  if (user.permissions.includes("approval.decide")) return true;
+  if (!user.employeeId) return false;
+
+  const employee = await prisma.employee.findUnique({
+    where: { id: user.employeeId },
+    select: { position: true },
+  });
+  return Boolean(employee && APPROVER_POSITIONS.includes(employee.position));
+}
+
+/**
+ * Requests within the user's branches: those for a member of one of their groups,
+ * and accounting overrides for one of their branches. Empty for unscoped users.
+ */
+export async function getApprovalScopeWhere(user: AuthUser): Promise<Prisma.ApprovalRequestWhereInput> {
+  const branchIds = await getScopedBranchIds(user);
+  if (!branchIds) return {};
+
+  return {
+    OR: [
+      { member: { group: { branchId: { in: branchIds } } } },
+      ...branchIds.map((branchId) => ({
+        type: ApprovalRequestType.ACCOUNTING_OVERRIDE,
+        payload: { path: ["branchId"], equals: branchId },
+      })),
+    ],
+  };
+}
+
+export function requiresWithdrawalApproval(amount: Prisma.Decimal.Value): boolean {
+  return new Prisma.Decimal(amount).greaterThanOrEqualTo(WITHDRAWAL_APPROVAL_THRESHOLD);
+}
+
+export async function submitApprovalRequest(
+  tx: Db,
+  input: {
+    type: ApprovalRequestType;
+    memberId?: string | null;
+    payload: ApprovalPayload;
+    reason?: string | null;
+    requestedById: string;
+    request?: AuditRequestContext;
+  },
+) {
+  if (input.type === ApprovalRequestType.REVERSAL) {
+    const { adjustmentId } = ReversalPayloadSchema.parse(input.payload);
+    const pending = await tx.approvalRequest.findFirst({
+      where: {
+        type: ApprovalRequestType.REVERSAL,
+        status: ApprovalStatus.PENDING,
+        payload: { path: ["adjustmentId"], equals: adjustmentId },
+      },
+      select: { id: true },
+    });
+    if (pending) throw new Error("APPROVAL_ALREADY_PENDING");
+  }
+
+  const approval = await tx.approvalRequest.create({
+    data: {
+      type: input.type,
+      memberId: input.memberId ?? null,
+      payload: input.payload,
+      reason: input.reason ?? null,
+      requestedById: input.requestedById,
+    },
+  });
+
+  await createAuditLog(tx, {
+    actorUserId: input.requestedById,
+    action: "APPROVAL_REQUESTED",
+    entityType: "ApprovalRequest",
+    entityId: approval.id,
+    metadata: {
+      type: approval.type,
+      memberId: approval.memberId,
+      payload: input.payload,
+      reason: approval.reason,
+    },
+    request: input.request,
+  });
+
+  return approval;
+}
+
+/** Files a REVERSAL request after checking that the entry can still be reversed. */
+type ReversalEntry = { memberId: string; reversalOfId: string | null; reversal: { id: string } | null };
+
+async function findReversalEntry(db: Db, target: ReversalTarget, id: string): Promise<ReversalEntry | null> {
+  const select = { memberId: true, reversalOfId: true, reversal: { select: { id: true } } };
+  switch (target) {
+    case "BALANCE":
+      return db.balanceAdjustment.findUnique({ where: { id }, select });
+    case "SAVINGS":
+      return db.savingsAdjustment.findUnique({ where: { id }, select });
+    case "processing":
+      return db.processingFee.findUnique({ where: { id }, select });
+    case "membership":
+      return db.membershipFee.findUnique({ where: { id }, select });
+    case "loan-insurance":
+      return db.loanInsurance.findUnique({ where: { id }, select });
+    case "passbook":
+      return db.passbookFee.findUnique({ where: { id }, select });
+  }
+}
+
+/** Member an adjustment or fee belongs to, so routes can check branch scope before reverting it. */
+export async function getReversalMemberId(target: ReversalTarget, id: string, db: Db = prisma) {
+  const entry = await findReversalEntry(db, target, id);
+  return entry?.memberId ?? null;
+}
+
+export async function submitReversalRequest(
+  tx: Db,
+  input: {
+    target: ReversalTarget;
+    adjustmentId: string;
+    reason: string;
+    requestedById: string;
+    request?: AuditRequestContext;
+  },
+) {
+  const entry = await findReversalEntry(tx, input.target, input.adjustmentId);
+  if (!entry) throw new Error("ADJUSTMENT_NOT_FOUND");
+  if (entry.reversalOfId) throw new Error("CANNOT_REVERSE_REVERSAL");
+  if (entry.reversal) throw new Error("ALREADY_REVERSED");
+
+  return submitApprovalRequest(tx, {
+    type: ApprovalRequestType.REVERSAL,
+    memberId: entry.memberId,
+    payload: { target: input.target, adjustmentId: input.adjustmentId },
+    reason: input.reason,
+    requestedById: input.requestedById,
+    request: input.request,
+  });
+}
+
+type ExecutionResult = {
+  resultId: string;
+  audit: {
+    action: string;
+    entityType: string;
+    entityId: string;
+    metadata: Prisma.InputJsonObject;
+  };
+};
+
+async function executeReversal(
+  tx: Db,
+  approval: { requestedById: string; reason: string | null; payload: Prisma.JsonValue },
+): Promise<ExecutionResult> {
+  const { target, adjustmentId } = ReversalPayloadSchema.parse(approval.payload);
+  const reason = approval.reason ?? "";
+  const input = { id: adjustmentId, encodedById: approval.requestedById, reason };
+
+  if (target === "BALANCE") {
+    const result = await reverseBalanceAdjustment(tx, input);
+    return {
+      resultId: result.balance.reversal.id,
+      audit: {
+        action: result.kind === "OFFSET" ? "SAVINGS_OFFSET_REVERTED" : "BALANCE_ADJUSTMENT_REVERTED",
+        entityType: "Member",
+        entityId: result.member.id,
+        metadata: {
+          adjustmentId,
+          reversalId: result.balance.reversal.id,
+          type: result.balance.original.type,
+          amount: result.balance.original.amount.toFixed(2),
+          reason,
+          memberBalanceBeforeRevert: result.memberBefore.balance.toFixed(2),
+          memberBalanceAfterRevert: result.member.balance.toFixed(2),
+        },
+      },
+    };
+  }
+
+  if (target === "SAVINGS") {
+    const result = await reverseSavingsAdjustment(tx, input);
+    return {
+      resultId: result.savings.reversal.id,
+      audit: {
+        action: result.kind === "OFFSET" ? "SAVINGS_OFFSET_REVERTED" : "SAVINGS_ADJUSTMENT_REVERTED",
+        entityType: "Member",
+        entityId: result.member.id,
+        metadata: {
+          adjustmentId,
+          reversalId: result.savings.reversal.id,
+          type: result.savings.original.type,
+          amount: result.savings.original.amount.toFixed(2),
+          reason,
+          memberSavingsBeforeRevert: result.memberBefore.savings.toFixed(2),
+          memberSavingsAfterRevert: result.member.savings.toFixed(2),
+        },
+      },
+    };
+  }
+
+  const result = await reverseFee(tx, target, input);
+  return {
+    resultId: result.reversal.id,
+    audit: {
+      action: "FEE_REVERTED",
+      entityType: "Member",
+      entityId: result.original.memberId,
+      metadata: {
+        feeType: target,
+        feeId: adjustmentId,
+        reversalId: result.reversal.id,
+        amount: result.original.amount.toFixed(2),
+        reason,
+      },
+    },
+  };
+}
+
+async function executeBalanceIncrease(
+  tx: Db,
+  approval: { memberId: string | null; requestedById: string; payload: Prisma.JsonValue },
+): Promise<ExecutionResult> {
+  const amount = new Prisma.Decimal(AmountPayloadSchema.parse(approval.payload).amount);
+  const member = approval.memberId
+    ? await tx.member.findUnique({ where: { id: approval.memberId } })
+    : null;
+  if (!member) throw new Error("MEMBER_NOT_FOUND");
+  await assertPeriodOpen(tx, new Date());
+
+  const balanceAfter = member.balance.plus(amount);
+  const loanId = await applyLoanIncrease(tx, member.id, amount);
+  const adjustment = await tx.balanceAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: approval.requestedById,
+      type: BalanceUpdateType.INCREASE,
+      amount,
+      balanceBefore: member.balance,
+      balanceAfter,
+      loanId,
+    },
+  });
+  await tx.member.update({ where: { id: member.id }, data: { balance: balanceAfter } });
+
+  return {
+    resultId: adjustment.id,
+    audit: {
+      action: "BALANCE_UPDATE",
+      entityType: "Member",
+      entityId: member.id,
+      metadata: {
+        type: BalanceUpdateType.INCREASE,
+        amount: amount.toFixed(2),
+        before: member.balance.toFixed(2),
+        after: balanceAfter.toFixed(2),
+      },
+    },
+  };
+}
+
+async function executeSavingsWithdrawal(
+  tx: Db,
+  approval: { memberId: string | null; requestedById: string; payload: Prisma.JsonValue },
+): Promise<ExecutionResult> {
+  const amount = new Prisma.Decimal(AmountPayloadSchema.parse(approval.payload).amount);
+  const member = approval.memberId
+    ? await tx.member.findUnique({ where: { id: approval.memberId } })
+    : null;
+  if (!member) throw new Error("MEMBER_NOT_FOUND");
+  if (member.savings.lessThan(amount)) throw new Error("INSUFFICIENT_SAVINGS");
+  await assertPeriodOpen(tx, new Date());
+
+  const savingsAfter = member.savings.minus(amount);
+  const adjustment = await tx.savingsAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: approval.requestedById,
+      type: SavingsUpdateType.WITHDRAW,
+      amount,
+      savingsBefore: member.savings,
+      savingsAfter,
+    },
+  });
+  await tx.member.update({ where: { id: member.id }, data: { savings: savingsAfter } });
+
+  return {
+    resultId: adjustment.id,
+    audit: {
+      action: "SAVINGS_UPDATE",
+      entityType: "Member",
+      entityId: member.id,
+      metadata: {
+        type: SavingsUpdateType.WITHDRAW,
+        amount: amount.toFixed(2),
+        savingsBefore: member.savings.toFixed(2),
+        savingsAfter: savingsAfter.toFixed(2),
+      },
+    },
+  };
+}
+
+async function executeAccountingOverride(
+  tx: Db,
+  approval: { requestedById: string; payload: Prisma.JsonValue },
+): Promise<ExecutionResult> {
+  const { branchId, accountingDate, manualData } = AccountingOverridePayloadSchema.parse(approval.payload);
+  await assertPeriodOpen(tx, new Date(`${accountingDate}T12:00:00.000+08:00`));
+  const { day } = await saveAccountingDay(tx, {
+    branchId,
+    accountingDate,
+    manualData: manualData as Partial<AccountingManualData>,
+    userId: approval.requestedById,
+    source: AccountingRevisionSource.APPROVAL,
+  });
+
+  return {
+    resultId: day.id,
+    audit: {
+      action: "ACCOUNTING_DAY_SAVE",
+      entityType: "AccountingDay",
+      entityId: day.id,
+      metadata: { branchId, accountingDate },
+    },
+  };
+}
+
+/**
+ * Approves or rejects a PENDING request. Approving runs the requested mutation; the
+ * caller must already have checked `canApproveRequests` for the decider and this request.
+ */
+export async function decideApprovalRequest(
+  tx: Db,
+  input: {
+    id: string;
+    decidedById: string;
+    decision: "APPROVE" | "REJECT";
+    note?: string | null;
+    request?: AuditRequestContext;
+  },
+) {
+  const approval = await tx.approvalRequest.findUnique({ where: { id: input.id } });
+  if (!approval) throw new Error("APPROVAL_NOT_FOUND");
+  if (approval.status !== ApprovalStatus.PENDING) throw new Error("APPROVAL_ALREADY_DECIDED");
+  if (approval.requestedById === input.decidedById) throw new Error("SELF_APPROVAL");
+
+  const status = input.decision === "APPROVE" ? ApprovalStatus.APPROVED : ApprovalStatus.REJECTED;
+
+  // Claim the request first so two deciders cannot both execute it
+  const claimed = await tx.approvalRequest.updateMany({
+    where: { id: approval.id, status: ApprovalStatus.PENDING },
+    data: {
+      status,
+      decidedById: input.decidedById,
+      decidedAt: new Date(),
+      decisionNote: input.note || null,
+    },
+  });
+  if (claimed.count === 0) throw new Error("APPROVAL_ALREADY_DECIDED");
+
+  let execution: ExecutionResult | null = null;
+  if (status === ApprovalStatus.APPROVED) {
+    switch (approval.type) {
+      case ApprovalRequestType.REVERSAL:
+        execution = await executeReversal(tx, approval);
+        break;
+      case ApprovalRequestType.BALANCE_INCREASE:
+        execution = await executeBalanceIncrease(tx, approval);
+        break;
+      case ApprovalRequestType.SAVINGS_WITHDRAWAL:
+        execution = await executeSavingsWithdrawal(tx, approval);
+        break;
+      case ApprovalRequestType.ACCOUNTING_OVERRIDE:
+        execution = await executeAccountingOverride(tx, approval);
+        break;
+    }
+
+    await tx.approvalRequest.update({
+      where: { id: approval.id },
+      data: { resultId: execution.resultId },
+    });
+
+    await createAuditLog(tx, {
+      actorUserId: input.decidedById,
+      action: execution.audit.action,
+      entityType: execution.audit.entityType,
+      entityId: execution.audit.entityId,
+      metadata: {
+        ...execution.audit.metadata,
+        approvalRequestId: approval.id,
+        requestedById: approval.requestedById,
+      },
+      request: input.request,
+    });
+  }
+
+  await createAuditLog(tx, {
+    actorUserId: input.decidedById,
+    action: status === ApprovalStatus.APPROVED ? "APPROVAL_APPROVED" : "APPROVAL_REJECTED",
+    entityType: "ApprovalRequest",
+    entityId: approval.id,
+    metadata: {
+      type: approval.type,
+      memberId: approval.memberId,
+      requestedById: approval.requestedById,
+      note: input.note || null,
+      resultId: execution?.resultId ?? null,
+    },
+    request: input.request,
+  });
+
+  return { approval: { ...approval, status }, resultId: execution?.resultId ?? null };
+}
+
+/** Short human-readable description of what a request will do when approved. */
+export function describeApprovalRequest(approval: { type: ApprovalRequestType; payload: Prisma.JsonValue }) {
+  const payload = (approval.payload ?? {}) as Record<string, any>;
+  switch (approval.type) {
+    case ApprovalRequestType.REVERSAL: {
+      const target = String(payload.target ?? "");
+      const label =
+        target === "BALANCE"
+          ? "balance adjustment"
+          : target === "SAVINGS"
+            ? "savings adjustment"
+            : `${target.replace("-", " ")} fee`;
+      return `Reverse ${label}`;
+    }
+    case ApprovalRequestType.BALANCE_INCREASE:
+      return `Increase balance by ${Number(payload.amount ?? 0).toFixed(2)}`;
+    case ApprovalRequestType.SAVINGS_WITHDRAWAL:
+      return `Withdraw ${Number(payload.amount ?? 0).toFixed(2)} from savings`;
+    case ApprovalRequestType.ACCOUNTING_OVERRIDE:
+      return `Overwrite accounting day ${payload.accountingDate ?? ""}`;
+  }
+}
+
+/** Maps approval error codes to an HTTP status and message. */
+export function getApprovalErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "APPROVAL_NOT_FOUND":
+      return { status: 404, error: "Approval request not found" };
+    case "APPROVAL_ALREADY_DECIDED":
+      return { status: 409, error: "This request has already been decided" };
+    case "APPROVAL_ALREADY_PENDING":
+      return { status: 409, error: "A request for this entry is already awaiting approval" };
+    case "SELF_APPROVAL":
+      return { status: 403, error: "You cannot decide on your own request" };
+    case "INSUFFICIENT_SAVINGS":
+      return { status: 400, error: "Withdrawal exceeds current savings" };
+    default:
+      return getReversalErrorResponse(error);
+  }
+}
@@ -1,4 +1,5 @@
 import { notFound } from "next/navigation";
+import { EmployeePosition } from "@prisma/client";
 import { prisma } from "@/lib/db";
 import type { AuthUser } from "./session";
 
@@ -25,3 +26,111 @@ export async function requireCollectorGroupAccess(user: AuthUser, groupId: strin
     notFound();
   }
 }
+
+/**
+ * Branches a manager may see: a unit manager's own branch, or every branch in an
+ * operations manager's area. Returns null for everyone else (SUPER_ADMIN sees the
+ * consolidated view; collectors are scoped by group instead).
+ */
+export async function getScopedBranchIds(user: AuthUser): Promise<string[] | null> {
+  if (user.role === "SUPER_ADMIN" || !user.employeeId) {
+    return null;
+  }
+
+  const employee = await prisma.employee.findUnique({
+    where: { id: user.employeeId },
+    select: { position: true, branchId: true, branch: { select: { area: true } } },
+  });
+  if (!employee) return null;
+
+  if (employee.position === EmployeePosition.UNIT_MANAGER) {
+    return [employee.branchId];
+  }
+  if (employee.position === EmployeePosition.OPERATIONS_MANAGER) {
+    if (!employee.branch.area) return [employee.branchId];
+    const branches = await prisma.branch.findMany({
+      where: { area: employee.branch.area },
+      select: { id: true },
+    });
+    return branches.map((branch) => branch.id);
+  }
+  return null;
+}
+
+/** Group ids the user may see: a collector's own groups, a manager's branch groups, or null for all. */
+export async function getScopedGroupIds(user: AuthUser): Promise<string[] | null> {
+  const collectorGroupIds = await getCollectorScopedGroupIds(user);
+  if (collectorGroupIds) return collectorGroupIds;
+
+  const branchIds = await getScopedBranchIds(user);
+  if (!branchIds) return null;
+
+  const groups = await prisma.group.findMany({
+    where: { branchId: { in: branchIds } },
+    select: { id: true },
+  });
+  return groups.map((group) => group.id);
+}
+
+export async function requireGroupAccess(user: AuthUser, groupId: string) {
+  const accessibleGroupIds = await getScopedGroupIds(user);
+  if (accessibleGroupIds && !accessibleGroupIds.includes(groupId)) {
+    notFound();
+  }
+}
+
+/** Whether the group is within the user's scope; for API routes, which answer 404 themselves. */
+export async function canAccessGroup(user: AuthUser, groupId: string) {
+  const accessibleGroupIds = await getScopedGroupIds(user);
+  return !accessibleGroupIds || accessibleGroupIds.includes(groupId);
+}
+
+/** Whether the member's group is within the user's scope. A scoped user never sees members without a group. */
+export async function canAccessMember(user: AuthUser, memberId: string) {
+  const accessibleGroupIds = await getScopedGroupIds(user);
+  if (!accessibleGroupIds) return true;
+
+  const member = await prisma.member.findUnique({ where: { id: memberId }, select: { groupId: true } });
+  return !!member?.groupId && accessibleGroupIds.includes(member.groupId);
+}
+
+/** Whether the employee works in a branch within the user's scope; a collector only reaches themselves. */
+export async function canAccessEmployee(user: AuthUser, employeeId: string) {
+  if (user.role === "COLLECTOR") return user.employeeId === employeeId;
+
+  const branchIds = await getScopedBranchIds(user);
+  if (!branchIds) return true;
+
+  const employee = await prisma.employee.findUnique({ where: { id: employeeId }, select: { branchId: true } });
+  return !!employee && branchIds.includes(employee.branchId);
+}
+
+export async function requireEmployeeAccess(user: AuthUser, employeeId: string) {
+  if (!(await canAccessEmployee(user, employeeId))) {
+    notFound();
+  }
+}
+
+export async function requireMemberAccess(user: AuthUser, memberId: string) {
+  if (!(await canAccessMember(user, memberId))) {
+    notFound();
+  }
+}
+
+/**
+ * Narrows a `?branch=` filter to what the user may see. Returns the branch ids to
+ * filter by, or null for the consolidated view (SUPER_ADMIN without a selection).
+ */
+export async function resolveBranchFilter(user: AuthUser, requested: string | null | undefined) {
+  const branchIds = await getScopedBranchIds(user);
+  if (!branchIds) return requested ? [requested] : null;
+  return requested && branchIds.includes(requested) ? [requested] : branchIds;
+}
+
+/** Throws BRANCH_ACCESS_DENIED unless the user may act on the branch. */
+export async function assertBranchAccess(user: AuthUser, branchId: string) {
+  const branchIds = await getScopedBranchIds(user);
+  if (branchIds && !branchIds.includes(branchId)) {
+    throw new Error("BRANCH_ACCESS_DENIED");
+  }
+}
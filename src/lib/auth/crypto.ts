@@ -12,3 +12,21 @@ export function hashToken(token: string) {
   return crypto.createHmac("sha256", getAuthSecret()).update(token).digest("hex");
 }
 
+function getEncryptionKey() {
+  return crypto.createHash("sha256").update(`secret-box:${getAuthSecret()}`).digest();
+}
+
+/** AES-256-GCM with a key derived from AUTH_SECRET; output is `iv.tag.ciphertext` in base64url. */
+export function encryptSecret(plain: string) {
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  const ciphertext = Buffer.concat([cipher.update(plain, "utf8"), cipher.final()]);
+  return [iv, cipher.getAuthTag(), ciphertext].map((b) => b.toString("base64url")).join(".");
+}
+
+export function decryptSecret(sealed: string) {
+  const [iv, tag, ciphertext] = sealed.split(".").map((part) => Buffer.from(part, "base64url"));
+  const decipher = crypto.createDecipheriv("aes-256-gcm", getEncryptionKey(), iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]).toString("utf8");
+}
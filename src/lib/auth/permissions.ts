@@ -0,0 +1,203 @@
+import { Prisma, Role } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Every action a route or page may guard, with the roles that hold it by default.
+ * A super admin edits the other roles' grants in Users → Permissions; SUPER_ADMIN
+ * always keeps its defaults so nobody can lock the admins out.
+ */
+export const PERMISSIONS = {
+  "dashboard.view": { group: "General", label: "View the dashboard", roles: [Role.SUPER_ADMIN] },
+  "account.update": {
+    group: "General",
+    label: "Edit own account",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.COLLECTOR],
+  },
+  "approval.view": {
+    group: "General",
+    label: "See own approval requests",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.VIEWER, Role.COLLECTOR],
+  },
+  "approval.decide": { group: "General", label: "Approve or reject requests", roles: [Role.SUPER_ADMIN] },
+
+  "group.view": {
+    group: "Groups & Members",
+    label: "View groups",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.VIEWER, Role.COLLECTOR],
+  },
+  "group.update": { group: "Groups & Members", label: "Create and edit groups", roles: [Role.SUPER_ADMIN, Role.ENCODER] },
+  "group.delete": { group: "Groups & Members", label: "Delete groups", roles: [Role.SUPER_ADMIN] },
+  "member.view": {
+    group: "Groups & Members",
+    label: "View members",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.VIEWER, Role.COLLECTOR],
+  },
+  "member.create": { group: "Groups & Members", label: "Add members", roles: [Role.SUPER_ADMIN, Role.ENCODER] },
+  "member.update": {
+    group: "Groups & Members",
+    label: "Edit members and notes",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+  "member.delete": { group: "Groups & Members", label: "Delete members", roles: [Role.SUPER_ADMIN] },
+  "meeting.view": {
+    group: "Groups & Members",
+    label: "View meetings and attendance",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.VIEWER, Role.COLLECTOR],
+  },
+  "meeting.record": {
+    group: "Groups & Members",
+    label: "Record attendance",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.COLLECTOR],
+  },
+
+  "adjustment.view": {
+    group: "Loans & Collections",
+    label: "View balance and savings history",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.VIEWER, Role.COLLECTOR],
+  },
+  "adjustment.create": {
+    group: "Loans & Collections",
+    label: "Post collections, savings, fees and releases",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+  "adjustment.revert": {
+    group: "Loans & Collections",
+    label: "Revert balance, savings and fee entries",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+  "loan.writeOff": { group: "Loans & Collections", label: "Write off loans", roles: [Role.SUPER_ADMIN] },
+  "remittance.view": {
+    group: "Loans & Collections",
+    label: "View remittances",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER, Role.COLLECTOR],
+  },
+  "remittance.submit": { group: "Loans & Collections", label: "Submit field remittances", roles: [Role.COLLECTOR] },
+  "remittance.review": {
+    group: "Loans & Collections",
+    label: "Post or return remittances",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+
+  "accounting.view": {
+    group: "Accounting",
+    label: "View accounting days and summaries",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+  "accounting.save": {
+    group: "Accounting",
+    label: "Save accounting days and cash counts",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+  "accounting.override": {
+    group: "Accounting",
+    label: "Overwrite saved days, grant encoder overrides and restore revisions",
+    roles: [Role.SUPER_ADMIN],
+  },
+  "accounting.close": { group: "Accounting", label: "Close and reopen periods", roles: [Role.SUPER_ADMIN] },
+  "accounting.configure": {
+    group: "Accounting",
+    label: "Manage line items and bank accounts",
+    roles: [Role.SUPER_ADMIN],
+  },
+  "bank.reconcile": {
+    group: "Accounting",
+    label: "View bank accounts and import statements",
+    roles: [Role.SUPER_ADMIN, Role.ENCODER],
+  },
+  "ledger.view": { group: "Accounting", label: "View the general ledger", roles: [Role.SUPER_ADMIN, Role.ENCODER] },
+
+  "report.view": { group: "Reports", label: "View reports", roles: [Role.SUPER_ADMIN, Role.ENCODER] },
+  "report.export": { group: "Reports", label: "Download PDF and Excel exports", roles: [Role.SUPER_ADMIN, Role.ENCODER] },
+
+  "employee.manage": { group: "Administration", label: "Manage employees", roles: [Role.SUPER_ADMIN] },
+  "employee.performance": {
+    group: "Administration",
+    label: "View officer performance",
+    roles: [Role.SUPER_ADMIN],
+  },
+  "incentive.manage": { group: "Administration", label: "Manage officer incentives", roles: [Role.SUPER_ADMIN] },
+  "branch.manage": { group: "Administration", label: "Manage branches", roles: [Role.SUPER_ADMIN] },
+  "user.manage": { group: "Administration", label: "Manage users and permissions", roles: [Role.SUPER_ADMIN] },
+  "audit.view": { group: "Administration", label: "View the audit trail", roles: [Role.SUPER_ADMIN] },
+  "notification.view": { group: "Administration", label: "Receive activity notifications", roles: [Role.SUPER_ADMIN] },
+} as const satisfies Record<string, { group: string; label: string; roles: readonly Role[] }>;
+
+export type Permission = keyof typeof PERMISSIONS;
+
+export const PERMISSION_KEYS = Object.keys(PERMISSIONS) as Permission[];
+
+/** Roles whose grants can be edited; SUPER_ADMIN is fixed to its defaults. */
+export const EDITABLE_ROLES = [Role.ENCODER, Role.VIEWER, Role.COLLECTOR] as const;
+
+export function isPermission(value: string): value is Permission {
+  return Object.prototype.hasOwnProperty.call(PERMISSIONS, value);
+}
+
+function getDefaultPermissions(role: Role): Permission[] {
+  return PERMISSION_KEYS.filter((key) => (PERMISSIONS[key].roles as readonly Role[]).includes(role));
+}
+
+/** Effective permissions of a role: its defaults with any stored grants or revocations applied. */
+export async function getRolePermissions(role: Role, db: Db = prisma): Promise<Permission[]> {
+  if (role === Role.SUPER_ADMIN) return getDefaultPermissions(role);
+
+  const rows = await db.rolePermission.findMany({ where: { role }, select: { permission: true, allowed: true } });
+  const granted = new Set(getDefaultPermissions(role));
+  for (const row of rows) {
+    if (!isPermission(row.permission)) continue;
+    if (row.allowed) granted.add(row.permission);
+    else granted.delete(row.permission);
+  }
+  return PERMISSION_KEYS.filter((key) => granted.has(key));
+}
+
+export async function getPermissionMatrix(): Promise<Record<Role, Permission[]>> {
+  const entries = await Promise.all(
+    Object.values(Role).map(async (role) => [role, await getRolePermissions(role)] as const),
+  );
+  return Object.fromEntries(entries) as Record<Role, Permission[]>;
+}
+
+/**
+ * Replaces an editable role's grants with `permissions`. Only differences from the
+ * defaults are stored, so permissions added later start at their default.
+ */
+export async function saveRolePermissions(tx: Db, role: Role, permissions: string[]) {
+  if (!(EDITABLE_ROLES as readonly Role[]).includes(role)) throw new Error("PERMISSION_ROLE_LOCKED");
+  const unknown = permissions.filter((p) => !isPermission(p));
+  if (unknown.length > 0) throw new Error("PERMISSION_UNKNOWN");
+
+  const before = await getRolePermissions(role, tx);
+  const defaults = new Set(getDefaultPermissions(role));
+  const next = new Set(permissions as Permission[]);
+
+  await tx.rolePermission.deleteMany({ where: { role } });
+  const overrides = PERMISSION_KEYS.filter((key) => defaults.has(key) !== next.has(key));
+  if (overrides.length > 0) {
+    await tx.rolePermission.createMany({
+      data: overrides.map((permission) => ({ role, permission, allowed: next.has(permission) })),
+    });
+  }
+
+  const after = PERMISSION_KEYS.filter((key) => next.has(key));
+  return {
+    before,
+    after,
+    granted: after.filter((key) => !before.includes(key)),
+    revoked: before.filter((key) => !after.includes(key)),
+  };
+}
+
+export function getPermissionErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "PERMISSION_ROLE_LOCKED":
+      return { status: 400, error: "Super admin permissions cannot be changed" };
+    case "PERMISSION_UNKNOWN":
+      return { status: 400, error: "Unknown permission" };
+    default:
+      return null;
+  }
+}
@@ -2,11 +2,15 @@ import { cookies } from "next/headers";
 import { redirect, notFound } from "next/navigation";
 import { prisma } from "@/lib/db";
 import { hashToken, randomToken } from "./crypto";
+import { getRolePermissions, type Permission } from "./permissions";
+import { isTwoFactorRequired } from "./two-factor";
 import type { Role, User } from "@prisma/client";
 import { createAuditLog, tryGetAuditRequestContext } from "@/lib/audit";
 
 const COOKIE_NAME = process.env.AUTH_COOKIE_NAME || "lms_session";
 const SESSION_HOURS = 8;
+const CHALLENGE_COOKIE_NAME = `${COOKIE_NAME}_2fa`;
+const CHALLENGE_MINUTES = 5;
 
 export type AuthUser = {
   id: string;
@@ -15,6 +19,10 @@ export type AuthUser = {
   name: string;
   role: Role | "COLLECTOR";
   employeeId: string | null;
+  permissions: Permission[];
+  twoFactorEnabled: boolean;
+  // The role requires a second factor and the user has not enrolled yet
+  twoFactorSetupRequired: boolean;
 };
 
 function cookieOptions() {
@@ -112,22 +120,73 @@ export async function getCurrentUser(): Promise<AuthUser | null> {
     email: session.user.email,
     name: session.user.name,
     role: session.user.role as AuthUser["role"],
-    employeeId: (session.user as any).employeeId ?? null,
+    employeeId: session.user.employeeId,
+    permissions: await getRolePermissions(session.user.role),
+    twoFactorEnabled: Boolean(session.user.totpEnabledAt),
+    twoFactorSetupRequired: !session.user.totpEnabledAt && (await isTwoFactorRequired(session.user.role)),
   };
 }
 
-export async function requireUser() {
+/**
+ * Users who still have to enroll a required second factor are sent to their account
+ * page; only that page (and the layout around it) passes `allowTwoFactorSetup`.
+ */
+export async function requireUser(options: { allowTwoFactorSetup?: boolean } = {}) {
   const user = await getCurrentUser();
   if (!user) redirect("/login");
+  if (user.twoFactorSetupRequired && !options.allowTwoFactorSetup) redirect("/app/account?twoFactor=required");
   return user;
 }
 
-export function hasRole(user: AuthUser, roles: readonly (Role | "COLLECTOR")[]) {
-  return roles.includes(user.role as Role | "COLLECTOR");
+/**
+ * Starts the second login step for a user whose password checked out: the session is
+ * created only after `consumeTwoFactorChallenge` accepts their code.
+ */
+export async function beginTwoFactorChallenge(userId: string) {
+  const token = randomToken(32);
+  const expiresAt = new Date(Date.now() + CHALLENGE_MINUTES * 60 * 1000);
+
+  await prisma.$transaction(async (tx) => {
+    await tx.twoFactorChallenge.deleteMany({ where: { userId } });
+    await tx.twoFactorChallenge.create({ data: { userId, tokenHash: hashToken(token), expiresAt } });
+  });
+
+  const jar = await cookies();
+  jar.set(CHALLENGE_COOKIE_NAME, token, { ...cookieOptions(), expires: expiresAt });
+}
+
+export async function getTwoFactorChallenge() {
+  const jar = await cookies();
+  const token = jar.get(CHALLENGE_COOKIE_NAME)?.value;
+  if (!token) return null;
+
+  const challenge = await prisma.twoFactorChallenge.findUnique({
+    where: { tokenHash: hashToken(token) },
+    include: { user: { select: { id: true, username: true, isActive: true } } },
+  });
+  if (!challenge) return null;
+  if (challenge.expiresAt.getTime() <= Date.now() || !challenge.user.isActive) {
+    await prisma.twoFactorChallenge.delete({ where: { id: challenge.id } });
+    return null;
+  }
+  return challenge;
+}
+
+export async function clearTwoFactorChallenge() {
+  const jar = await cookies();
+  const token = jar.get(CHALLENGE_COOKIE_NAME)?.value;
+  if (token) {
+    await prisma.twoFactorChallenge.deleteMany({ where: { tokenHash: hashToken(token) } });
+  }
+  jar.set(CHALLENGE_COOKIE_NAME, "", { ...cookieOptions(), expires: new Date(0) });
+}
+
+export function hasPermission(user: AuthUser, permission: Permission) {
+  return user.permissions.includes(permission);
 }
 
-export function requireRole(user: AuthUser, roles: readonly (Role | "COLLECTOR")[]) {
-  if (!hasRole(user, roles)) {
+export function requirePermission(user: AuthUser, permission: Permission) {
+  if (!hasPermission(user, permission)) {
     notFound();
   }
 }
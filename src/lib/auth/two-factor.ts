@@ -0,0 +1,234 @@
+import QRCode from "qrcode";
+import { Prisma, Role } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { createAuditLogStandalone, type AuditRequestContext } from "@/lib/audit";
+import { decryptSecret, encryptSecret, hashToken, randomToken } from "./crypto";
+import { buildTotpUri, generateTotpSecret, verifyTotpCode } from "./totp";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Optional TOTP second factor. A user enrolls from their account page by scanning a
+ * QR code and confirming one code, and receives single-use recovery codes. A super
+ * admin can make the second factor mandatory per role; users of such a role are sent
+ * to their account page until they enroll.
+ */
+
+const ISSUER = "Triple E Microfinance";
+const RECOVERY_CODE_COUNT = 10;
+
+export const TWO_FACTOR_MAX_ATTEMPTS = 5;
+const LOCK_MINUTES = 15;
+
+export async function getTwoFactorPolicy(db: Db = prisma): Promise<Record<Role, boolean>> {
+  const rows = await db.roleSecurityPolicy.findMany();
+  const policy = Object.fromEntries(Object.values(Role).map((role) => [role, false])) as Record<Role, boolean>;
+  for (const row of rows) policy[row.role] = row.twoFactorRequired;
+  return policy;
+}
+
+export async function isTwoFactorRequired(role: Role, db: Db = prisma) {
+  const row = await db.roleSecurityPolicy.findUnique({ where: { role }, select: { twoFactorRequired: true } });
+  return row?.twoFactorRequired ?? false;
+}
+
+export async function saveTwoFactorPolicy(tx: Db, requiredRoles: Role[]) {
+  const before = await getTwoFactorPolicy(tx);
+  for (const role of Object.values(Role)) {
+    const twoFactorRequired = requiredRoles.includes(role);
+    await tx.roleSecurityPolicy.upsert({
+      where: { role },
+      create: { role, twoFactorRequired },
+      update: { twoFactorRequired },
+    });
+  }
+  const after = await getTwoFactorPolicy(tx);
+  return { before, after };
+}
+
+async function getTotpUser(db: Db, userId: string) {
+  const user = await db.user.findUnique({
+    where: { id: userId },
+    select: {
+      id: true,
+      username: true,
+      role: true,
+      totpSecret: true,
+      totpEnabledAt: true,
+      totpLastStep: true,
+      totpLockedUntil: true,
+    },
+  });
+  if (!user) throw new Error("TWO_FACTOR_USER_NOT_FOUND");
+  return user;
+}
+
+/** Stores a fresh pending secret and returns what the authenticator app needs. */
+export async function startTwoFactorEnrollment(tx: Db, userId: string) {
+  const user = await getTotpUser(tx, userId);
+  if (user.totpEnabledAt) throw new Error("TWO_FACTOR_ALREADY_ENABLED");
+
+  const secret = generateTotpSecret();
+  await tx.user.update({
+    where: { id: userId },
+    data: { totpSecret: encryptSecret(secret), totpLastStep: null },
+  });
+
+  const uri = buildTotpUri({ issuer: ISSUER, accountName: user.username, secret });
+  const qrSvg = await QRCode.toString(uri, { type: "svg", errorCorrectionLevel: "M", margin: 1 });
+  return { secret, uri, qrSvg };
+}
+
+async function replaceRecoveryCodes(tx: Db, userId: string) {
+  const codes = Array.from({ length: RECOVERY_CODE_COUNT }, () => {
+    const raw = randomToken(5);
+    return `${raw.slice(0, 5)}-${raw.slice(5)}`;
+  });
+  await tx.userRecoveryCode.deleteMany({ where: { userId } });
+  await tx.userRecoveryCode.createMany({
+    data: codes.map((code) => ({ userId, codeHash: hashToken(code) })),
+  });
+  return codes;
+}
+
+/** Turns the pending secret on once the user proves their app produces valid codes. */
+export async function confirmTwoFactorEnrollment(tx: Db, userId: string, code: string) {
+  const user = await getTotpUser(tx, userId);
+  if (user.totpEnabledAt) throw new Error("TWO_FACTOR_ALREADY_ENABLED");
+  if (!user.totpSecret) throw new Error("TWO_FACTOR_NOT_STARTED");
+
+  const step = verifyTotpCode(decryptSecret(user.totpSecret), code, null);
+  if (step == null) throw new Error("TWO_FACTOR_INVALID_CODE");
+
+  await tx.user.update({
+    where: { id: userId },
+    data: { totpEnabledAt: new Date(), totpLastStep: step },
+  });
+  const recoveryCodes = await replaceRecoveryCodes(tx, userId);
+  return { recoveryCodes };
+}
+
+export function isTwoFactorLocked(user: { totpLockedUntil: Date | null }) {
+  return user.totpLockedUntil != null && user.totpLockedUntil.getTime() > Date.now();
+}
+
+/**
+ * Checks a login or confirmation code: a current TOTP code, or an unused recovery
+ * code, which is then spent. Returns how the user proved themselves, or null; a
+ * correct code clears the failure count. Throws while the user is locked out.
+ */
+export async function verifyTwoFactorCode(tx: Db, userId: string, code: string): Promise<"TOTP" | "RECOVERY_CODE" | null> {
+  const user = await getTotpUser(tx, userId);
+  if (!user.totpEnabledAt || !user.totpSecret) return null;
+  if (isTwoFactorLocked(user)) throw new Error("TWO_FACTOR_LOCKED");
+
+  const step = verifyTotpCode(decryptSecret(user.totpSecret), code, user.totpLastStep);
+  if (step != null) {
+    await tx.user.update({
+      where: { id: userId },
+      data: { totpLastStep: step, totpFailedAttempts: 0, totpLockedUntil: null },
+    });
+    return "TOTP";
+  }
+
+  const normalized = code.trim().toLowerCase();
+  if (!/^[0-9a-f]{5}-[0-9a-f]{5}$/.test(normalized)) return null;
+  const spent = await tx.userRecoveryCode.updateMany({
+    where: { userId, codeHash: hashToken(normalized), usedAt: null },
+    data: { usedAt: new Date() },
+  });
+  if (spent.count === 0) return null;
+  await tx.user.update({ where: { id: userId }, data: { totpFailedAttempts: 0, totpLockedUntil: null } });
+  return "RECOVERY_CODE";
+}
+
+/**
+ * Counts a wrong code against the user and audits it. Runs outside the caller's
+ * transaction so the count survives its rollback, and is kept on the user rather
+ * than the login challenge so signing in again does not reset it. From the
+ * TWO_FACTOR_MAX_ATTEMPTS-th miss on, each miss locks the second factor for
+ * LOCK_MINUTES.
+ */
+export async function recordTwoFactorFailure(userId: string, context: string, request?: AuditRequestContext) {
+  const { totpFailedAttempts: attempts } = await prisma.user.update({
+    where: { id: userId },
+    data: { totpFailedAttempts: { increment: 1 } },
+    select: { totpFailedAttempts: true },
+  });
+  const locked = attempts >= TWO_FACTOR_MAX_ATTEMPTS;
+  if (locked) {
+    await prisma.user.update({
+      where: { id: userId },
+      data: { totpLockedUntil: new Date(Date.now() + LOCK_MINUTES * 60_000) },
+    });
+  }
+
+  await createAuditLogStandalone({
+    actorType: "USER",
+    actorUserId: userId,
+    action: "TWO_FACTOR_FAILED",
+    entityType: "User",
+    entityId: userId,
+    metadata: { context, attempts, locked },
+    request,
+  });
+  return { attempts, locked };
+}
+
+export async function regenerateRecoveryCodes(tx: Db, userId: string, code: string) {
+  const user = await getTotpUser(tx, userId);
+  if (!user.totpEnabledAt) throw new Error("TWO_FACTOR_NOT_ENABLED");
+  if (!(await verifyTwoFactorCode(tx, userId, code))) throw new Error("TWO_FACTOR_INVALID_CODE");
+  return { recoveryCodes: await replaceRecoveryCodes(tx, userId) };
+}
+
+async function clearTwoFactor(tx: Db, userId: string) {
+  await tx.user.update({
+    where: { id: userId },
+    data: { totpSecret: null, totpEnabledAt: null, totpLastStep: null, totpFailedAttempts: 0, totpLockedUntil: null },
+  });
+  await tx.userRecoveryCode.deleteMany({ where: { userId } });
+  await tx.twoFactorChallenge.deleteMany({ where: { userId } });
+}
+
+/** The user turns off their own second factor; not allowed while their role requires it. */
+export async function disableTwoFactor(tx: Db, userId: string, code: string) {
+  const user = await getTotpUser(tx, userId);
+  if (!user.totpEnabledAt) throw new Error("TWO_FACTOR_NOT_ENABLED");
+  if (await isTwoFactorRequired(user.role, tx)) throw new Error("TWO_FACTOR_REQUIRED_BY_ROLE");
+  if (!(await verifyTwoFactorCode(tx, userId, code))) throw new Error("TWO_FACTOR_INVALID_CODE");
+  await clearTwoFactor(tx, userId);
+}
+
+/** A super admin clears another user's second factor, e.g. after a lost phone. */
+export async function resetTwoFactor(tx: Db, userId: string) {
+  const user = await getTotpUser(tx, userId);
+  if (!user.totpEnabledAt && !user.totpSecret) throw new Error("TWO_FACTOR_NOT_ENABLED");
+  await clearTwoFactor(tx, userId);
+}
+
+export async function countUnusedRecoveryCodes(userId: string) {
+  return prisma.userRecoveryCode.count({ where: { userId, usedAt: null } });
+}
+
+export function getTwoFactorErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "TWO_FACTOR_USER_NOT_FOUND":
+      return { status: 404, error: "User not found" };
+    case "TWO_FACTOR_ALREADY_ENABLED":
+      return { status: 409, error: "Two-factor authentication is already on" };
+    case "TWO_FACTOR_NOT_STARTED":
+      return { status: 409, error: "Start the setup again to get a new QR code" };
+    case "TWO_FACTOR_NOT_ENABLED":
+      return { status: 409, error: "Two-factor authentication is not on" };
+    case "TWO_FACTOR_INVALID_CODE":
+      return { status: 400, error: "The code is not valid. Check your authenticator app and try again" };
+    case "TWO_FACTOR_LOCKED":
+      return { status: 429, error: "Too many wrong codes. Try again in a few minutes" };
+    case "TWO_FACTOR_REQUIRED_BY_ROLE":
+      return { status: 403, error: "Your role requires two-factor authentication, so it cannot be turned off" };
+    default:
+      return null;
+  }
+}
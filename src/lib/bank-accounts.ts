@@ -0,0 +1,552 @@
+import { BankTransactionType, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { formatDateYMDManila } from "@/lib/date";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Bank accounts and the deposits and withdrawals recorded against them from the
+ * accounting day. Each account has at most one deposit and one withdrawal per day,
+ * saved together with the day.
+ *
+ * Reconciliation imports a bank statement CSV and matches each statement line to a
+ * recorded transaction of the same direction and amount within MATCH_WINDOW_DAYS.
+ * Whatever is left on either side is flagged as unmatched.
+ */
+
+export type AccountingBankEntry = {
+  bankAccountId: string;
+  deposit: number;
+  withdrawal: number;
+};
+
+export type AccountingBankAccount = {
+  id: string;
+  name: string;
+  archived: boolean;
+};
+
+export const CreateBankAccountSchema = z.object({
+  name: z.string().trim().min(1, "Name is required").max(40),
+  bankName: z
+    .string()
+    .trim()
+    .max(80)
+    .optional()
+    .transform((v) => v || null),
+  accountNumber: z
+    .string()
+    .trim()
+    .max(40)
+    .optional()
+    .transform((v) => v || null),
+  openingBalance: z.coerce.number().finite().default(0),
+});
+
+const MATCH_WINDOW_DAYS = 3;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+function toBankDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+function dateToYmd(value: Date) {
+  return value.toISOString().slice(0, 10);
+}
+
+function toCents(value: Prisma.Decimal | number) {
+  return Math.round(Number(value) * 100);
+}
+
+export async function getAccountingBankAccounts(db: Db = prisma): Promise<AccountingBankAccount[]> {
+  const accounts = await db.bankAccount.findMany({
+    orderBy: { name: "asc" },
+    select: { id: true, name: true, archivedAt: true },
+  });
+  return accounts.map((account) => ({ id: account.id, name: account.name, archived: account.archivedAt != null }));
+}
+
+/** Active accounts, plus archived accounts that still have an entry on the day. */
+export function getVisibleBankAccounts(accounts: AccountingBankAccount[], entries: AccountingBankEntry[]) {
+  return accounts.filter(
+    (account) =>
+      !account.archived ||
+      entries.some((entry) => entry.bankAccountId === account.id && (entry.deposit !== 0 || entry.withdrawal !== 0)),
+  );
+}
+
+/** Normalizes submitted entries: one entry per account, whole amounts, empty entries dropped. */
+export function sanitizeBankEntries(input: unknown): AccountingBankEntry[] {
+  if (!Array.isArray(input)) return [];
+
+  const byAccount = new Map<string, AccountingBankEntry>();
+  for (const raw of input) {
+    if (!raw || typeof raw !== "object") continue;
+    const { bankAccountId, deposit, withdrawal } = raw as Record<string, unknown>;
+    if (typeof bankAccountId !== "string" || !bankAccountId) continue;
+
+    const entry = byAccount.get(bankAccountId) ?? { bankAccountId, deposit: 0, withdrawal: 0 };
+    entry.deposit += Math.round(Number(deposit) || 0);
+    entry.withdrawal += Math.round(Number(withdrawal) || 0);
+    byAccount.set(bankAccountId, entry);
+  }
+
+  return [...byAccount.values()].filter((entry) => entry.deposit !== 0 || entry.withdrawal !== 0);
+}
+
+export async function getBankEntriesForDate(
+  db: Db,
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingBankEntry[]> {
+  return (await getBankEntriesByDate(db, branchId, accountingDate, accountingDate)).get(accountingDate) ?? [];
+}
+
+/** A branch's bank entries of every day in the range, keyed by accounting date. */
+export async function getBankEntriesByDate(db: Db, branchId: string, from: string, to: string) {
+  const rows = await db.bankTransaction.findMany({
+    where: { branchId, accountingDate: { gte: toBankDate(from), lte: toBankDate(to) } },
+    select: { accountingDate: true, bankAccountId: true, type: true, amount: true },
+  });
+
+  const byDate = new Map<string, AccountingBankEntry[]>();
+  for (const row of rows) {
+    const ymd = dateToYmd(row.accountingDate);
+    byDate.set(ymd, [
+      ...(byDate.get(ymd) ?? []),
+      {
+        bankAccountId: row.bankAccountId,
+        deposit: row.type === BankTransactionType.DEPOSIT ? Number(row.amount) : 0,
+        withdrawal: row.type === BankTransactionType.WITHDRAWAL ? Number(row.amount) : 0,
+      },
+    ]);
+  }
+  for (const [ymd, entries] of byDate) byDate.set(ymd, sanitizeBankEntries(entries));
+  return byDate;
+}
+
+/**
+ * Replaces a branch's bank transactions of an accounting day with the given entries.
+ * A transaction whose amount changes loses its statement match so it is checked again.
+ */
+export async function saveBankEntriesForDay(
+  tx: Db,
+  input: { branchId: string; accountingDate: string; entries: AccountingBankEntry[]; userId: string },
+) {
+  const accountingDate = toBankDate(input.accountingDate);
+  const [existing, accounts] = await Promise.all([
+    tx.bankTransaction.findMany({ where: { branchId: input.branchId, accountingDate } }),
+    tx.bankAccount.findMany({
+      where: { id: { in: input.entries.map((entry) => entry.bankAccountId) } },
+      select: { id: true, archivedAt: true },
+    }),
+  ]);
+
+  const desired = new Map<string, { bankAccountId: string; type: BankTransactionType; amount: number }>();
+  for (const entry of input.entries) {
+    const account = accounts.find((a) => a.id === entry.bankAccountId);
+    if (!account) throw new Error("BANK_ACCOUNT_NOT_FOUND");
+
+    for (const [type, amount] of [
+      [BankTransactionType.DEPOSIT, entry.deposit],
+      [BankTransactionType.WITHDRAWAL, entry.withdrawal],
+    ] as const) {
+      if (amount === 0) continue;
+      const isNew = !existing.some((row) => row.bankAccountId === entry.bankAccountId && row.type === type);
+      if (isNew && account.archivedAt) throw new Error("BANK_ACCOUNT_ARCHIVED");
+      desired.set(`${entry.bankAccountId}:${type}`, { bankAccountId: entry.bankAccountId, type, amount });
+    }
+  }
+
+  for (const row of existing) {
+    const next = desired.get(`${row.bankAccountId}:${row.type}`);
+    desired.delete(`${row.bankAccountId}:${row.type}`);
+    if (!next) {
+      await tx.bankTransaction.delete({ where: { id: row.id } });
+    } else if (toCents(row.amount) !== toCents(next.amount)) {
+      await tx.bankStatementLine.updateMany({
+        where: { matchedTransactionId: row.id },
+        data: { matchedTransactionId: null },
+      });
+      await tx.bankTransaction.update({
+        where: { id: row.id },
+        data: { amount: new Prisma.Decimal(next.amount) },
+      });
+    }
+  }
+
+  if (desired.size > 0) {
+    await tx.bankTransaction.createMany({
+      data: [...desired.values()].map((next) => ({
+        bankAccountId: next.bankAccountId,
+        branchId: input.branchId,
+        accountingDate,
+        type: next.type,
+        amount: new Prisma.Decimal(next.amount),
+        createdById: input.userId,
+      })),
+    });
+  }
+}
+
+export async function createBankAccount(tx: Db, input: z.infer<typeof CreateBankAccountSchema>) {
+  const duplicate = await tx.bankAccount.findUnique({ where: { name: input.name }, select: { id: true } });
+  if (duplicate) throw new Error("BANK_ACCOUNT_NAME_TAKEN");
+
+  return tx.bankAccount.create({
+    data: {
+      name: input.name,
+      bankName: input.bankName,
+      accountNumber: input.accountNumber,
+      openingBalance: new Prisma.Decimal(input.openingBalance),
+    },
+  });
+}
+
+export async function setBankAccountArchived(tx: Db, id: string, archived: boolean) {
+  const account = await tx.bankAccount.findUnique({ where: { id } });
+  if (!account) throw new Error("BANK_ACCOUNT_NOT_FOUND");
+  return tx.bankAccount.update({
+    where: { id },
+    data: { archivedAt: archived ? (account.archivedAt ?? new Date()) : null },
+  });
+}
+
+export type ParsedStatementLine = {
+  transactionDate: string;
+  description: string;
+  amount: number;
+  balance: number | null;
+};
+
+function parseCsvRows(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  const source = text.replace(/^\uFEFF/, "");
+  for (let i = 0; i < source.length; i += 1) {
+    const ch = source[i];
+    if (quoted) {
+      if (ch === '"' && source[i + 1] === '"') {
+        field += '"';
+        i += 1;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      row.push(field);
+      field = "";
+    } else if (ch === "\n" || ch === "\r") {
+      if (ch === "\r" && source[i + 1] === "\n") i += 1;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += ch;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((r) => r.some((cell) => cell.trim() !== ""));
+}
+
+const STATEMENT_COLUMNS = {
+  date: ["date", "transactiondate", "postingdate", "postdate", "valuedate", "txndate"],
+  description: ["description", "particulars", "details", "narration", "memo", "remarks", "reference"],
+  amount: ["amount", "netamount"],
+  credit: ["credit", "credits", "deposit", "deposits", "creditamount"],
+  debit: ["debit", "debits", "withdrawal", "withdrawals", "debitamount"],
+  balance: ["balance", "runningbalance", "endingbalance"],
+} as const;
+
+function parseStatementMoney(value: string | undefined): number | null {
+  const raw = (value ?? "").trim();
+  if (!raw) return null;
+  const negative = /^\(.*\)$/.test(raw) || /^-/.test(raw) || /\bDR$/i.test(raw);
+  const digits = raw.replace(/[^0-9.]/g, "");
+  if (!digits) return null;
+  const amount = Number(digits);
+  if (!Number.isFinite(amount)) return null;
+  return negative ? -amount : amount;
+}
+
+function parseStatementDate(value: string | undefined): string | null {
+  const raw = (value ?? "").trim();
+  if (/^\d{4}-\d{2}-\d{2}$/.test(raw)) return raw;
+
+  // Local banks export month first
+  const slashed = raw.match(/^(\d{1,2})\/(\d{1,2})\/(\d{4})$/);
+  if (slashed) {
+    const [, month, day, year] = slashed;
+    return `${year}-${month.padStart(2, "0")}-${day.padStart(2, "0")}`;
+  }
+
+  const parsed = Date.parse(raw);
+  return Number.isNaN(parsed) ? null : formatDateYMDManila(new Date(parsed));
+}
+
+/**
+ * Reads a statement CSV with a header row. Needs a date column and either a signed
+ * amount column or separate credit (deposit) and debit (withdrawal) columns.
+ */
+export function parseBankStatementCsv(text: string): ParsedStatementLine[] {
+  const [header, ...rows] = parseCsvRows(text);
+  if (!header || rows.length === 0) throw new Error("BANK_STATEMENT_EMPTY");
+
+  const normalized = header.map((cell) => cell.toLowerCase().replace(/[^a-z]/g, ""));
+  const column = (names: readonly string[]) => normalized.findIndex((cell) => names.includes(cell));
+  const dateCol = column(STATEMENT_COLUMNS.date);
+  const descriptionCol = column(STATEMENT_COLUMNS.description);
+  const amountCol = column(STATEMENT_COLUMNS.amount);
+  const creditCol = column(STATEMENT_COLUMNS.credit);
+  const debitCol = column(STATEMENT_COLUMNS.debit);
+  const balanceCol = column(STATEMENT_COLUMNS.balance);
+
+  if (dateCol < 0 || (amountCol < 0 && creditCol < 0 && debitCol < 0)) {
+    throw new Error("BANK_STATEMENT_COLUMNS");
+  }
+
+  return rows.map((cells) => {
+    const transactionDate = parseStatementDate(cells[dateCol]);
+    const amount =
+      amountCol >= 0
+        ? parseStatementMoney(cells[amountCol])
+        : (parseStatementMoney(cells[creditCol]) ?? 0) - Math.abs(parseStatementMoney(cells[debitCol]) ?? 0);
+    if (!transactionDate || amount === null || amount === 0) throw new Error("BANK_STATEMENT_INVALID_ROW");
+
+    return {
+      transactionDate,
+      description: (descriptionCol >= 0 ? cells[descriptionCol] : "")?.trim() ?? "",
+      amount,
+      balance: balanceCol >= 0 ? parseStatementMoney(cells[balanceCol]) : null,
+    };
+  });
+}
+
+/**
+ * Matches unmatched statement lines of the account to unmatched transactions of the
+ * same direction and amount, preferring the closest date. Returns how many matched.
+ */
+export async function matchBankStatement(tx: Db, bankAccountId: string) {
+  const [lines, transactions] = await Promise.all([
+    tx.bankStatementLine.findMany({
+      where: { matchedTransactionId: null, statementImport: { bankAccountId } },
+      orderBy: { transactionDate: "asc" },
+    }),
+    tx.bankTransaction.findMany({
+      where: { bankAccountId, statementLine: null },
+      orderBy: { accountingDate: "asc" },
+    }),
+  ]);
+
+  const available = new Set(transactions.map((t) => t.id));
+  let matched = 0;
+
+  for (const line of lines) {
+    const type = Number(line.amount) > 0 ? BankTransactionType.DEPOSIT : BankTransactionType.WITHDRAWAL;
+    const cents = Math.abs(toCents(line.amount));
+
+    let best: { id: string; distance: number } | null = null;
+    for (const t of transactions) {
+      if (!available.has(t.id) || t.type !== type || toCents(t.amount) !== cents) continue;
+      const distance = Math.abs(t.accountingDate.getTime() - line.transactionDate.getTime()) / DAY_MS;
+      if (distance > MATCH_WINDOW_DAYS) continue;
+      if (!best || distance < best.distance) best = { id: t.id, distance };
+    }
+    if (!best) continue;
+
+    available.delete(best.id);
+    await tx.bankStatementLine.update({ where: { id: line.id }, data: { matchedTransactionId: best.id } });
+    matched += 1;
+  }
+
+  return matched;
+}
+
+export async function importBankStatement(
+  tx: Db,
+  input: { bankAccountId: string; fileName: string; csv: string; importedById: string },
+) {
+  const account = await tx.bankAccount.findUnique({ where: { id: input.bankAccountId }, select: { id: true } });
+  if (!account) throw new Error("BANK_ACCOUNT_NOT_FOUND");
+
+  const lines = parseBankStatementCsv(input.csv);
+  const dates = lines.map((line) => line.transactionDate).sort();
+  const lastWithBalance = [...lines].reverse().find((line) => line.balance !== null);
+
+  const statementImport = await tx.bankStatementImport.create({
+    data: {
+      bankAccountId: account.id,
+      fileName: input.fileName,
+      statementStart: toBankDate(dates[0]),
+      statementEnd: toBankDate(dates[dates.length - 1]),
+      endingBalance: lastWithBalance ? new Prisma.Decimal(lastWithBalance.balance!) : null,
+      importedById: input.importedById,
+    },
+  });
+
+  await tx.bankStatementLine.createMany({
+    data: lines.map((line) => ({
+      importId: statementImport.id,
+      transactionDate: toBankDate(line.transactionDate),
+      description: line.description,
+      amount: new Prisma.Decimal(line.amount),
+      balance: line.balance === null ? null : new Prisma.Decimal(line.balance),
+    })),
+  });
+
+  const matched = await matchBankStatement(tx, account.id);
+  return { statementImport, lineCount: lines.length, matched };
+}
+
+function signedAmount(row: { type: BankTransactionType; amount: Prisma.Decimal }) {
+  return row.type === BankTransactionType.DEPOSIT ? Number(row.amount) : -Number(row.amount);
+}
+
+/** Every account with its book balance and how many transactions are not on a statement yet. */
+export async function listBankAccountBalances() {
+  const [accounts, totals, unmatched] = await Promise.all([
+    prisma.bankAccount.findMany({ orderBy: [{ archivedAt: { sort: "asc", nulls: "first" } }, { name: "asc" }] }),
+    prisma.bankTransaction.groupBy({ by: ["bankAccountId", "type"], _sum: { amount: true } }),
+    prisma.bankTransaction.groupBy({
+      by: ["bankAccountId"],
+      where: { statementLine: null },
+      _count: { _all: true },
+    }),
+  ]);
+
+  return accounts.map((account) => {
+    const sum = (type: BankTransactionType) =>
+      Number(totals.find((t) => t.bankAccountId === account.id && t.type === type)?._sum.amount ?? 0);
+    return {
+      ...account,
+      openingBalance: Number(account.openingBalance),
+      balance:
+        Number(account.openingBalance) + sum(BankTransactionType.DEPOSIT) - sum(BankTransactionType.WITHDRAWAL),
+      unmatchedCount: unmatched.find((u) => u.bankAccountId === account.id)?._count._all ?? 0,
+    };
+  });
+}
+
+/**
+ * The account register with a running balance, its statement imports and the
+ * reconciliation of the latest statement against the book balance on its last day.
+ */
+export async function getBankAccountRegister(bankAccountId: string) {
+  const account = await prisma.bankAccount.findUnique({ where: { id: bankAccountId } });
+  if (!account) return null;
+
+  const [transactions, imports] = await Promise.all([
+    prisma.bankTransaction.findMany({
+      where: { bankAccountId },
+      orderBy: [{ accountingDate: "asc" }, { type: "asc" }],
+      include: { statementLine: { select: { id: true } } },
+    }),
+    prisma.bankStatementImport.findMany({
+      where: { bankAccountId },
+      orderBy: { createdAt: "desc" },
+      include: {
+        importedBy: { select: { name: true } },
+        lines: {
+          orderBy: { transactionDate: "asc" },
+          include: { matchedTransaction: { select: { accountingDate: true, type: true } } },
+        },
+      },
+    }),
+  ]);
+
+  let running = Number(account.openingBalance);
+  const register = transactions.map((t) => {
+    running += signedAmount(t);
+    return {
+      id: t.id,
+      accountingDate: dateToYmd(t.accountingDate),
+      type: t.type,
+      amount: Number(t.amount),
+      balance: running,
+      matched: t.statementLine != null,
+    };
+  });
+
+  const latest = imports[0] ?? null;
+  const reconciliation = latest
+    ? (() => {
+        const end = dateToYmd(latest.statementEnd);
+        const start = dateToYmd(latest.statementStart);
+        const bookBalance =
+          Number(account.openingBalance) +
+          transactions
+            .filter((t) => dateToYmd(t.accountingDate) <= end)
+            .reduce((sum, t) => sum + signedAmount(t), 0);
+        const statementBalance = latest.endingBalance == null ? null : Number(latest.endingBalance);
+        return {
+          importId: latest.id,
+          statementStart: start,
+          statementEnd: end,
+          statementBalance,
+          bookBalance,
+          difference: statementBalance == null ? null : statementBalance - bookBalance,
+          unmatchedStatementLines: latest.lines.filter((line) => !line.matchedTransactionId).length,
+          unmatchedTransactions: register.filter(
+            (t) => !t.matched && t.accountingDate >= start && t.accountingDate <= end,
+          ).length,
+        };
+      })()
+    : null;
+
+  return {
+    account: { ...account, openingBalance: Number(account.openingBalance) },
+    register,
+    balance: running,
+    imports: imports.map((i) => ({
+      id: i.id,
+      fileName: i.fileName,
+      statementStart: dateToYmd(i.statementStart),
+      statementEnd: dateToYmd(i.statementEnd),
+      endingBalance: i.endingBalance == null ? null : Number(i.endingBalance),
+      importedByName: i.importedBy.name,
+      createdAt: i.createdAt,
+      lines: i.lines.map((line) => ({
+        id: line.id,
+        transactionDate: dateToYmd(line.transactionDate),
+        description: line.description,
+        amount: Number(line.amount),
+        balance: line.balance == null ? null : Number(line.balance),
+        matchedDate: line.matchedTransaction ? dateToYmd(line.matchedTransaction.accountingDate) : null,
+      })),
+    })),
+    reconciliation,
+  };
+}
+
+/** Maps bank account error codes to an HTTP status and message. */
+export function getBankAccountErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "BANK_ACCOUNT_NOT_FOUND":
+      return { status: 404, error: "Bank account not found" };
+    case "BANK_ACCOUNT_ARCHIVED":
+      return { status: 409, error: "This bank account is archived" };
+    case "BANK_ACCOUNT_NAME_TAKEN":
+      return { status: 409, error: "A bank account with this name already exists" };
+    case "BANK_STATEMENT_EMPTY":
+      return { status: 400, error: "The statement file has no rows" };
+    case "BANK_STATEMENT_COLUMNS":
+      return { status: 400, error: "The statement needs a date column and an amount, or credit and debit, column" };
+    case "BANK_STATEMENT_INVALID_ROW":
+      return { status: 400, error: "The statement has a row with an invalid date or amount" };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,125 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Branches own groups, employees and accounting days. Members belong to a branch
+ * through their group, so every ledger figure can be split per branch. Branches that
+ * share an `area` are overseen together by an operations manager.
+ */
+
+export const BranchSchema = z.object({
+  code: z
+    .string()
+    .trim()
+    .min(1, "Code is required")
+    .max(12)
+    .regex(/^[A-Za-z0-9-]+$/, "Use letters, digits and dashes")
+    .transform((v) => v.toUpperCase()),
+  name: z.string().trim().min(1, "Name is required").max(80),
+  area: z
+    .string()
+    .trim()
+    .max(80)
+    .optional()
+    .transform((v) => v || null),
+  address: z
+    .string()
+    .trim()
+    .max(200)
+    .optional()
+    .transform((v) => v || null),
+});
+
+export type BranchInput = z.infer<typeof BranchSchema>;
+
+export type BranchSummary = {
+  id: string;
+  code: string;
+  name: string;
+  area: string | null;
+};
+
+export async function listBranches(input: { branchIds?: string[] | null } = {}): Promise<BranchSummary[]> {
+  return prisma.branch.findMany({
+    where: input.branchIds ? { id: { in: input.branchIds } } : undefined,
+    orderBy: { name: "asc" },
+    select: { id: true, code: true, name: true, area: true },
+  });
+}
+
+/**
+ * Raw-SQL filter keeping rows whose member (`memberIdExpr`) belongs to a group in
+ * `branchIds`. Empty when `branchIds` is null (consolidated view).
+ */
+export function branchMemberFilter(branchIds: string[] | null, memberIdExpr: string) {
+  if (!branchIds) return Prisma.empty;
+  return Prisma.sql`AND ${Prisma.raw(memberIdExpr)} IN (
+    SELECT bm."id" FROM "members" bm
+    JOIN "groups" bg ON bg."id" = bm."groupId"
+    WHERE bg."branchId" = ANY(${branchIds}::uuid[])
+  )`;
+}
+
+/** Prisma `where` for members of groups in `branchIds` (everything when null). */
+export function branchMemberWhere(branchIds: string[] | null): Prisma.MemberWhereInput {
+  return branchIds ? { group: { branchId: { in: branchIds } } } : {};
+}
+
+export async function listBranchesWithCounts() {
+  const rows = await prisma.branch.findMany({
+    orderBy: { name: "asc" },
+    include: { _count: { select: { groups: true, employees: true } } },
+  });
+  return rows.map((row) => ({
+    id: row.id,
+    code: row.code,
+    name: row.name,
+    area: row.area,
+    address: row.address,
+    groupCount: row._count.groups,
+    employeeCount: row._count.employees,
+  }));
+}
+
+async function assertUnique(tx: Db, input: BranchInput, exceptId?: string) {
+  const duplicate = await tx.branch.findFirst({
+    where: {
+      OR: [{ code: input.code }, { name: { equals: input.name, mode: "insensitive" } }],
+      ...(exceptId ? { id: { not: exceptId } } : {}),
+    },
+    select: { code: true },
+  });
+  if (duplicate) throw new Error(duplicate.code === input.code ? "BRANCH_CODE_TAKEN" : "BRANCH_NAME_TAKEN");
+}
+
+export async function createBranch(tx: Db, input: BranchInput) {
+  await assertUnique(tx, input);
+  return tx.branch.create({ data: input });
+}
+
+export async function updateBranch(tx: Db, id: string, input: BranchInput) {
+  const before = await tx.branch.findUnique({ where: { id } });
+  if (!before) throw new Error("BRANCH_NOT_FOUND");
+  await assertUnique(tx, input, id);
+  const after = await tx.branch.update({ where: { id }, data: input });
+  return { before, after };
+}
+
+export function getBranchErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "BRANCH_NOT_FOUND":
+      return { status: 404, error: "Branch not found" };
+    case "BRANCH_CODE_TAKEN":
+      return { status: 409, error: "Another branch already uses this code" };
+    case "BRANCH_NAME_TAKEN":
+      return { status: 409, error: "Another branch already uses this name" };
+    case "BRANCH_ACCESS_DENIED":
+      return { status: 403, error: "You do not have access to this branch" };
+    default:
+      return null;
+  }
+}
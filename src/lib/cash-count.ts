@@ -0,0 +1,218 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Physical cash counted at the end of a branch's accounting day, by denomination. The
+ * counted total is compared with the day's closing balance: a negative variance
+ * is a shortage, a positive one an overage, and either needs an explanation.
+ */
+
+export type CashDenomination = {
+  key: string;
+  label: string;
+  value: number;
+  kind: "BILL" | "COIN";
+};
+
+export const CASH_DENOMINATIONS: CashDenomination[] = [
+  { key: "bill1000", label: "1,000", value: 1000, kind: "BILL" },
+  { key: "bill500", label: "500", value: 500, kind: "BILL" },
+  { key: "bill200", label: "200", value: 200, kind: "BILL" },
+  { key: "bill100", label: "100", value: 100, kind: "BILL" },
+  { key: "bill50", label: "50", value: 50, kind: "BILL" },
+  { key: "bill20", label: "20", value: 20, kind: "BILL" },
+  { key: "coin20", label: "20", value: 20, kind: "COIN" },
+  { key: "coin10", label: "10", value: 10, kind: "COIN" },
+  { key: "coin5", label: "5", value: 5, kind: "COIN" },
+  { key: "coin1", label: "1", value: 1, kind: "COIN" },
+  { key: "coin025", label: "0.25", value: 0.25, kind: "COIN" },
+  { key: "coin005", label: "0.05", value: 0.05, kind: "COIN" },
+  { key: "coin001", label: "0.01", value: 0.01, kind: "COIN" },
+];
+
+export type CashCounts = Record<string, number>;
+
+export type AccountingCashCount = {
+  counts: CashCounts;
+  countedTotal: number;
+  expectedBalance: number;
+  variance: number;
+  explanation: string | null;
+  countedByName: string | null;
+  updatedAt: string;
+};
+
+export const SaveCashCountSchema = z.object({
+  branchId: z.string().uuid(),
+  accountingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  counts: z.record(z.string(), z.union([z.number(), z.string()])),
+  explanation: z.string().trim().max(500).optional().nullable(),
+});
+
+function toCashDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+function roundCents(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Whole, non-negative piece counts for the known denominations; anything else is dropped. */
+export function sanitizeCashCounts(input: unknown): CashCounts {
+  const source = input && typeof input === "object" ? (input as Record<string, unknown>) : {};
+  return Object.fromEntries(
+    CASH_DENOMINATIONS.map((d) => [d.key, Math.max(0, Math.round(Number(source[d.key]) || 0))]),
+  );
+}
+
+export function getCashCountTotal(counts: CashCounts) {
+  return roundCents(CASH_DENOMINATIONS.reduce((sum, d) => sum + d.value * (counts[d.key] ?? 0), 0));
+}
+
+export function getCashVariance(countedTotal: number, expectedBalance: number) {
+  return roundCents(countedTotal - expectedBalance);
+}
+
+function toCashCount(record: any): AccountingCashCount {
+  return {
+    counts: sanitizeCashCounts(record.denominations),
+    countedTotal: Number(record.countedTotal),
+    expectedBalance: Number(record.expectedBalance),
+    variance: Number(record.variance),
+    explanation: record.explanation ?? null,
+    countedByName: record.countedBy?.name ?? null,
+    updatedAt: record.updatedAt.toISOString(),
+  };
+}
+
+export async function getCashCountForDate(
+  db: Db,
+  branchId: string,
+  accountingDate: string,
+): Promise<AccountingCashCount | null> {
+  const record = await db.accountingCashCount.findUnique({
+    where: { branchId_accountingDate: { branchId, accountingDate: toCashDate(accountingDate) } },
+    include: { countedBy: { select: { name: true } } },
+  });
+  return record ? toCashCount(record) : null;
+}
+
+/**
+ * Records the cash count of a day against its closing balance. A count with any
+ * variance must say why. Recounting replaces the previous count.
+ */
+export async function saveCashCount(
+  tx: Db,
+  input: {
+    branchId: string;
+    accountingDate: string;
+    counts: CashCounts;
+    explanation: string | null;
+    expectedBalance: number;
+    userId: string;
+  },
+) {
+  const key = { branchId: input.branchId, accountingDate: toCashDate(input.accountingDate) };
+  const day = await tx.accountingDay.findUnique({
+    where: { branchId_accountingDate: key },
+    select: { id: true },
+  });
+  if (!day) throw new Error("CASH_COUNT_DAY_NOT_SAVED");
+
+  const counts = sanitizeCashCounts(input.counts);
+  const countedTotal = getCashCountTotal(counts);
+  const variance = getCashVariance(countedTotal, input.expectedBalance);
+  const explanation = input.explanation?.trim() || null;
+  if (variance !== 0 && !explanation) throw new Error("CASH_COUNT_EXPLANATION_REQUIRED");
+
+  const data = {
+    denominations: counts,
+    countedTotal: new Prisma.Decimal(countedTotal),
+    expectedBalance: new Prisma.Decimal(input.expectedBalance),
+    variance: new Prisma.Decimal(variance),
+    explanation,
+    countedById: input.userId,
+  };
+
+  const record = await tx.accountingCashCount.upsert({
+    where: { branchId_accountingDate: key },
+    create: { ...key, ...data },
+    update: data,
+    include: { countedBy: { select: { name: true } } },
+  });
+  return { id: record.id, cashCount: toCashCount(record) };
+}
+
+/**
+ * Keeps a stored count in step when the day's closing balance is saved again, so
+ * the variance always compares against the figure on the sheet.
+ */
+export async function syncCashCountExpectedBalance(
+  tx: Db,
+  branchId: string,
+  accountingDate: string,
+  closingBalance: number,
+) {
+  const record = await tx.accountingCashCount.findUnique({
+    where: { branchId_accountingDate: { branchId, accountingDate: toCashDate(accountingDate) } },
+    select: { id: true, countedTotal: true },
+  });
+  if (!record) return;
+
+  await tx.accountingCashCount.update({
+    where: { id: record.id },
+    data: {
+      expectedBalance: new Prisma.Decimal(closingBalance),
+      variance: new Prisma.Decimal(getCashVariance(Number(record.countedTotal), closingBalance)),
+    },
+  });
+}
+
+/**
+ * Counts in the range, newest first, with shortage and overage totals. `branchIds`
+ * limits them to those branches; null lists every branch.
+ */
+export async function listCashCountVariances(from: string, to: string, branchIds: string[] | null = null) {
+  const records = await prisma.accountingCashCount.findMany({
+    where: {
+      accountingDate: { gte: toCashDate(from), lte: toCashDate(to) },
+      ...(branchIds ? { branchId: { in: branchIds } } : {}),
+    },
+    orderBy: [{ accountingDate: "desc" }, { branch: { name: "asc" } }],
+    include: { countedBy: { select: { name: true } }, branch: { select: { name: true } } },
+  });
+
+  const rows = records.map((record) => ({
+    id: record.id,
+    accountingDate: record.accountingDate.toISOString().slice(0, 10),
+    branchId: record.branchId,
+    branchName: record.branch.name,
+    ...toCashCount(record),
+  }));
+  const shortage = roundCents(rows.filter((r) => r.variance < 0).reduce((sum, r) => sum + r.variance, 0));
+  const overage = roundCents(rows.filter((r) => r.variance > 0).reduce((sum, r) => sum + r.variance, 0));
+
+  return {
+    rows,
+    counted: rows.length,
+    withVariance: rows.filter((r) => r.variance !== 0).length,
+    shortage,
+    overage,
+    net: roundCents(shortage + overage),
+  };
+}
+
+export function getCashCountErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "CASH_COUNT_DAY_NOT_SAVED":
+      return { status: 409, error: "Save the accounting day before recording its cash count" };
+    case "CASH_COUNT_EXPLANATION_REQUIRED":
+      return { status: 400, error: "Explain the shortage or overage before saving the cash count" };
+    default:
+      return null;
+  }
+}
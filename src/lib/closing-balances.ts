@@ -0,0 +1,16 @@
+import { Prisma } from "@prisma/client";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Stored closing balances form a chain: each saved accounting day opens with the
+ * closing balance of the saved day before it. A change dated on a day therefore
+ * makes that day's closing, and every later one, stale.
+ *
+ * Ledger rows (adjustments, fees, releases) invalidate through database triggers,
+ * so every write path is covered. Manual edits call this directly. Days inside an
+ * active period close keep their frozen closing balance.
+ */
+export async function invalidateClosingBalances(db: Db, fromDate: string | null) {
+  await db.$executeRaw`SELECT invalidate_accounting_closing_balances(${fromDate ?? "0001-01-01"}::date)`;
+}
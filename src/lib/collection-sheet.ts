@@ -0,0 +1,333 @@
+import { LoanStatus, MemberStatus, Prisma, RemittanceCollectionType, RemittanceStatus } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { hashToken } from "@/lib/auth/crypto";
+import { formatDateYMD, getManilaBusinessDate, getManilaDateRange } from "@/lib/date";
+import { assertPeriodOpen } from "@/lib/period-close";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * The collector's offline sheet. The sheet is a snapshot of a group on a business
+ * date that the browser keeps; entries made against it are queued on the device and
+ * synced into the group's remittance batch later. Every entry carries an
+ * idempotency key, so a retried sync never counts twice, and the balance it was
+ * recorded against, so the server can tell when the member changed in the meantime.
+ */
+
+export type CollectionSheetMember = {
+  id: string;
+  name: string;
+  balance: number;
+  savings: number;
+  expectedDue: number | null;
+  balanceUpdatedToday: boolean;
+  savingsUpdatedToday: boolean;
+};
+
+export type CollectionSheet = {
+  groupId: string;
+  groupName: string;
+  businessDate: string;
+  // Proves to a later sync that the server issued this sheet for this date
+  syncToken: string;
+  fetchedAt: string;
+  batchStatus: RemittanceStatus | null;
+  reviewNote: string | null;
+  declared: { memberId: string; type: RemittanceCollectionType; amount: number }[];
+  members: CollectionSheetMember[];
+};
+
+export type SyncConflictReason =
+  | "BALANCE_CHANGED"
+  | "BALANCE_UPDATED_TODAY"
+  | "SAVINGS_UPDATED_TODAY"
+  | "BATCH_POSTED"
+  | "MEMBER_NOT_IN_GROUP";
+
+export type SyncEntryResult = {
+  idempotencyKey: string;
+  status: "APPLIED" | "DUPLICATE" | "CONFLICT";
+  conflict?: {
+    reason: SyncConflictReason;
+    // Whether the collector may resend the entry with `force` to keep it
+    resolvable: boolean;
+    currentBalance: number | null;
+  };
+};
+
+export const SyncRemittanceSchema = z.object({
+  groupId: z.string().uuid(),
+  businessDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  syncToken: z.string().max(200).optional(),
+  entries: z
+    .array(
+      z.object({
+        idempotencyKey: z.string().min(8).max(100),
+        memberId: z.string().uuid(),
+        type: z.enum(RemittanceCollectionType),
+        amount: z.coerce.number().min(0).max(10_000_000),
+        recordedAt: z.coerce.date(),
+        baseBalance: z.coerce.number(),
+        baseBalanceUpdatedToday: z.boolean(),
+        baseSavingsUpdatedToday: z.boolean(),
+        force: z.boolean().optional(),
+      }),
+    )
+    .max(500),
+});
+
+function toSheetDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+/** Members whose balance or savings already has a non-reversed entry on the day, as the encode routes check it. */
+async function getUpdatedToday(db: Db, memberIds: string[], businessDate: string) {
+  const range = getManilaDateRange(businessDate, businessDate);
+  const [balances, savings] = await Promise.all([
+    db.balanceAdjustment.findMany({
+      where: {
+        memberId: { in: memberIds },
+        createdAt: { gte: range.from, lte: range.to },
+        savingsOffset: { is: null },
+        reversalOfId: null,
+        reversal: { is: null },
+      },
+      select: { memberId: true },
+    }),
+    db.savingsAdjustment.findMany({
+      where: {
+        memberId: { in: memberIds },
+        createdAt: { gte: range.from, lte: range.to },
+        type: { not: "APPLY_TO_BALANCE" },
+        reversalOfId: null,
+        reversal: { is: null },
+      },
+      select: { memberId: true },
+    }),
+  ]);
+  return {
+    balance: new Set(balances.map((row) => row.memberId)),
+    savings: new Set(savings.map((row) => row.memberId)),
+  };
+}
+
+function getSheetSyncToken(groupId: string, businessDate: string, userId: string) {
+  return hashToken(`collection-sheet:${groupId}:${businessDate}:${userId}`);
+}
+
+export async function getCollectionSheet(
+  groupId: string,
+  businessDate: string,
+  userId: string,
+): Promise<CollectionSheet | null> {
+  const group = await prisma.group.findUnique({ where: { id: groupId }, select: { id: true, name: true } });
+  if (!group) return null;
+
+  const [members, batch] = await Promise.all([
+    prisma.member.findMany({
+      where: { groupId, status: MemberStatus.ACTIVE },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        balance: true,
+        savings: true,
+        loans: {
+          where: { status: LoanStatus.OPEN },
+          orderBy: [{ releaseDate: "asc" }, { createdAt: "asc" }],
+          take: 1,
+          select: { installmentAmount: true },
+        },
+      },
+    }),
+    prisma.remittanceBatch.findUnique({
+      where: { groupId_businessDate: { groupId, businessDate: toSheetDate(businessDate) } },
+      include: { lines: true },
+    }),
+  ]);
+  const updatedToday = await getUpdatedToday(
+    prisma,
+    members.map((member) => member.id),
+    businessDate,
+  );
+
+  return {
+    groupId: group.id,
+    groupName: group.name,
+    businessDate,
+    syncToken: getSheetSyncToken(groupId, businessDate, userId),
+    fetchedAt: new Date().toISOString(),
+    batchStatus: batch?.status ?? null,
+    reviewNote: batch?.reviewNote ?? null,
+    declared: (batch?.lines ?? []).map((line) => ({
+      memberId: line.memberId,
+      type: line.type,
+      amount: Number(line.declaredAmount),
+    })),
+    members: members.map((member) => ({
+      id: member.id,
+      name: `${member.lastName}, ${member.firstName}`,
+      balance: Number(member.balance),
+      savings: Number(member.savings),
+      expectedDue: member.loans[0] ? Number(member.loans[0].installmentAmount) : null,
+      balanceUpdatedToday: updatedToday.balance.has(member.id),
+      savingsUpdatedToday: updatedToday.savings.has(member.id),
+    })),
+  };
+}
+
+/**
+ * Merges queued sheet entries into the group's batch for the day. Each entry sets
+ * one member's amount for one collection type (zero removes it); entries apply in
+ * the order they were recorded. A returned batch goes back to pending review.
+ * Entries are accepted for the current business date, or for an earlier date only
+ * with the sync token of a sheet the same collector loaded for that date.
+ */
+export async function syncRemittanceEntries(
+  tx: Db,
+  input: z.infer<typeof SyncRemittanceSchema> & { userId: string },
+): Promise<SyncEntryResult[]> {
+  const today = formatDateYMD(getManilaBusinessDate());
+  if (input.businessDate !== today) {
+    const cachedFor = input.syncToken === getSheetSyncToken(input.groupId, input.businessDate, input.userId);
+    if (input.businessDate > today || !cachedFor) throw new Error("COLLECTION_SHEET_DATE_INVALID");
+  }
+  await assertPeriodOpen(tx, toSheetDate(input.businessDate));
+
+  const entries = [...input.entries].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime());
+  const synced = await tx.remittanceSyncEntry.findMany({
+    where: { idempotencyKey: { in: entries.map((entry) => entry.idempotencyKey) } },
+    select: { idempotencyKey: true },
+  });
+  const syncedKeys = new Set(synced.map((row) => row.idempotencyKey));
+
+  const memberIds = [...new Set(entries.map((entry) => entry.memberId))];
+  const [members, updatedToday] = await Promise.all([
+    tx.member.findMany({ where: { id: { in: memberIds }, groupId: input.groupId }, select: { id: true, balance: true } }),
+    getUpdatedToday(tx, memberIds, input.businessDate),
+  ]);
+
+  let batch = await tx.remittanceBatch.findUnique({
+    where: { groupId_businessDate: { groupId: input.groupId, businessDate: toSheetDate(input.businessDate) } },
+    select: { id: true, status: true },
+  });
+
+  const results: SyncEntryResult[] = [];
+  for (const entry of entries) {
+    if (syncedKeys.has(entry.idempotencyKey)) {
+      results.push({ idempotencyKey: entry.idempotencyKey, status: "DUPLICATE" });
+      continue;
+    }
+
+    const member = members.find((m) => m.id === entry.memberId);
+    const currentBalance = member ? Number(member.balance) : null;
+    const conflict = (reason: SyncConflictReason, resolvable: boolean) =>
+      results.push({
+        idempotencyKey: entry.idempotencyKey,
+        status: "CONFLICT",
+        conflict: { reason, resolvable, currentBalance },
+      });
+
+    if (batch?.status === RemittanceStatus.POSTED) {
+      conflict("BATCH_POSTED", false);
+      continue;
+    }
+    if (!member) {
+      conflict("MEMBER_NOT_IN_GROUP", false);
+      continue;
+    }
+    if (!entry.force && entry.amount > 0) {
+      if (entry.type === RemittanceCollectionType.LOAN_PAYMENT) {
+        if (updatedToday.balance.has(member.id) && !entry.baseBalanceUpdatedToday) {
+          conflict("BALANCE_UPDATED_TODAY", true);
+          continue;
+        }
+        if (currentBalance !== entry.baseBalance) {
+          conflict("BALANCE_CHANGED", true);
+          continue;
+        }
+      }
+      if (
+        entry.type === RemittanceCollectionType.SAVINGS &&
+        updatedToday.savings.has(member.id) &&
+        !entry.baseSavingsUpdatedToday
+      ) {
+        conflict("SAVINGS_UPDATED_TODAY", true);
+        continue;
+      }
+    }
+
+    if (!batch) {
+      batch = await tx.remittanceBatch.create({
+        data: {
+          groupId: input.groupId,
+          businessDate: toSheetDate(input.businessDate),
+          declaredTotal: new Prisma.Decimal(0),
+          submittedById: input.userId,
+        },
+        select: { id: true, status: true },
+      });
+    }
+
+    if (entry.amount > 0) {
+      await tx.remittanceLine.upsert({
+        where: { batchId_memberId_type: { batchId: batch.id, memberId: entry.memberId, type: entry.type } },
+        create: {
+          batchId: batch.id,
+          memberId: entry.memberId,
+          type: entry.type,
+          declaredAmount: new Prisma.Decimal(entry.amount),
+        },
+        update: { declaredAmount: new Prisma.Decimal(entry.amount) },
+      });
+    } else {
+      await tx.remittanceLine.deleteMany({
+        where: { batchId: batch.id, memberId: entry.memberId, type: entry.type },
+      });
+    }
+    await tx.remittanceSyncEntry.create({
+      data: {
+        idempotencyKey: entry.idempotencyKey,
+        batchId: batch.id,
+        memberId: entry.memberId,
+        type: entry.type,
+        amount: new Prisma.Decimal(entry.amount),
+        recordedAt: entry.recordedAt,
+        syncedById: input.userId,
+      },
+    });
+    results.push({ idempotencyKey: entry.idempotencyKey, status: "APPLIED" });
+  }
+
+  if (batch && results.some((result) => result.status === "APPLIED")) {
+    const total = await tx.remittanceLine.aggregate({ where: { batchId: batch.id }, _sum: { declaredAmount: true } });
+    // A reviewer may have posted the batch since it was read; roll the sync back if so
+    const updated = await tx.remittanceBatch.updateMany({
+      where: { id: batch.id, status: { not: RemittanceStatus.POSTED } },
+      data: {
+        status: RemittanceStatus.PENDING,
+        declaredTotal: total._sum.declaredAmount ?? new Prisma.Decimal(0),
+        submittedById: input.userId,
+        submittedAt: new Date(),
+        reviewNote: null,
+        reviewedById: null,
+        reviewedAt: null,
+      },
+    });
+    if (updated.count === 0) throw new Error("REMITTANCE_ALREADY_POSTED");
+  }
+
+  return results;
+}
+
+export function getCollectionSheetErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "COLLECTION_SHEET_DATE_INVALID":
+      return { status: 400, error: "These collections are for a date this sheet was not loaded for" };
+    default:
+      return null;
+  }
+}
@@ -75,6 +75,21 @@ export function countBusinessDays(from: Date, to: Date): number {
   return count;
 }
 
+/**
+ * Returns the date `days` weekdays (Mon–Fri) after `from`, skipping weekends.
+ * The time of day of `from` is preserved.
+ */
+export function addBusinessDays(from: Date, days: number): Date {
+  const cursor = new Date(from);
+  let remaining = days;
+  while (remaining > 0) {
+    cursor.setDate(cursor.getDate() + 1);
+    const day = cursor.getDay();
+    if (day !== 0 && day !== 6) remaining -= 1;
+  }
+  return cursor;
+}
+
 /** Monday (start of week) for the week containing d */
 export function getMonday(d: Date): Date {
   const x = new Date(d);
@@ -190,6 +205,18 @@ export function formatDateTimeManila(d: Date): string {
   return `${getPart("year")}-${getPart("month")}-${getPart("day")} ${getPart("hour")}:${getPart("minute")}:${getPart("second")} ${getPart("dayPeriod")}`;
 }
 
+/**
+ * Returns "YYYY-MM-DD" in Manila timezone
+ */
+export function formatDateYMDManila(d: Date): string {
+  return new Intl.DateTimeFormat("en-CA", {
+    timeZone: MANILA_TIMEZONE,
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+  }).format(d);
+}
+
 /**
  * Returns "MM/DD/YYYY" in Manila timezone
  */
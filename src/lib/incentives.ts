@@ -0,0 +1,330 @@
+import { EmployeePosition, IncentiveRuleType, Prisma } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { formatDateYMDManila, getManilaDateRange } from "@/lib/date";
+import { findOfficerOnDate, listOfficerAssignmentWindows } from "@/lib/officer-assignments";
+import { getOfficerPerformance } from "@/lib/officer-performance";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Collection officer incentives. Rules are evaluated per officer per calendar month,
+ * crediting each group's activity to the officer assigned to it on the day:
+ * collections are non-reversed balance deductions, new members are members with a
+ * membership fee paid in the month, and PAR is the officer's ratio at month end. Nothing is stored; a statement is
+ * recomputed from the ledger every time, so it follows later corrections.
+ */
+
+export const INCENTIVE_RULE_TYPES: {
+  type: IncentiveRuleType;
+  label: string;
+  description: string;
+  fields: ("rate" | "amount" | "threshold")[];
+}[] = [
+  {
+    type: IncentiveRuleType.COLLECTION_ABOVE_TARGET,
+    label: "Collections above target",
+    description: "Rate % of the month's collections above the target amount",
+    fields: ["rate", "threshold"],
+  },
+  {
+    type: IncentiveRuleType.NEW_MEMBER_BONUS,
+    label: "New member bonus",
+    description: "Fixed amount per member who paid a membership fee in the month",
+    fields: ["amount"],
+  },
+  {
+    type: IncentiveRuleType.RELEASE_PERCENT,
+    label: "Release commission",
+    description: "Rate % of the amount released in the month",
+    fields: ["rate"],
+  },
+  {
+    type: IncentiveRuleType.PAR_PENALTY,
+    label: "PAR penalty",
+    description: "Fixed deduction when month-end PAR is at or above the threshold %",
+    fields: ["amount", "threshold"],
+  },
+];
+
+export const IncentiveRuleSchema = z
+  .object({
+    name: z.string().trim().min(1).max(80),
+    type: z.enum(IncentiveRuleType),
+    rate: z.coerce.number().min(0).max(100).optional(),
+    amount: z.coerce.number().min(0).max(10_000_000).optional(),
+    threshold: z.coerce.number().min(0).max(1_000_000_000).optional(),
+  })
+  .superRefine((rule, ctx) => {
+    const config = INCENTIVE_RULE_TYPES.find((t) => t.type === rule.type);
+    for (const field of config?.fields ?? []) {
+      if (rule[field] === undefined) {
+        ctx.addIssue({ code: "custom", path: [field], message: `${field} is required` });
+      }
+    }
+    if (rule.type === IncentiveRuleType.PAR_PENALTY && (rule.threshold ?? 0) > 100) {
+      ctx.addIssue({ code: "custom", path: ["threshold"], message: "PAR threshold is a percentage" });
+    }
+  });
+
+export type IncentiveRuleInput = z.infer<typeof IncentiveRuleSchema>;
+
+export type IncentiveRuleConfig = {
+  id: string;
+  name: string;
+  type: IncentiveRuleType;
+  rate: number | null;
+  amount: number | null;
+  threshold: number | null;
+  archived: boolean;
+};
+
+export type IncentiveLine = {
+  ruleId: string;
+  ruleName: string;
+  type: IncentiveRuleType;
+  basis: string;
+  amount: number;
+};
+
+export type IncentiveStatement = {
+  employeeId: string;
+  employeeName: string;
+  baseSalary: number;
+  groupNames: string[];
+  metrics: {
+    collections: number;
+    newMembers: number;
+    releaseCount: number;
+    releaseAmount: number;
+    parRatio: number;
+  };
+  lines: IncentiveLine[];
+  incentiveTotal: number;
+  totalPay: number;
+};
+
+export type IncentiveReport = {
+  month: string;
+  monthLabel: string;
+  from: string;
+  to: string;
+  parAsOf: string;
+  rules: IncentiveRuleConfig[];
+  statements: IncentiveStatement[];
+  totals: { baseSalary: number; incentiveTotal: number; totalPay: number };
+};
+
+const MONTH_PATTERN = /^\d{4}-(0[1-9]|1[0-2])$/;
+
+export function isIncentiveMonth(value: string | null | undefined): value is string {
+  return !!value && MONTH_PATTERN.test(value);
+}
+
+function getMonthRange(month: string) {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { from: `${month}-01`, to: `${month}-${String(lastDay).padStart(2, "0")}` };
+}
+
+function round2(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+const formatAmount = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+function toRuleConfig(row: {
+  id: string;
+  name: string;
+  type: IncentiveRuleType;
+  rate: Prisma.Decimal | null;
+  amount: Prisma.Decimal | null;
+  threshold: Prisma.Decimal | null;
+  archivedAt: Date | null;
+}): IncentiveRuleConfig {
+  return {
+    id: row.id,
+    name: row.name,
+    type: row.type,
+    rate: row.rate === null ? null : Number(row.rate),
+    amount: row.amount === null ? null : Number(row.amount),
+    threshold: row.threshold === null ? null : Number(row.threshold),
+    archived: row.archivedAt !== null,
+  };
+}
+
+function ruleData(input: IncentiveRuleInput) {
+  const config = INCENTIVE_RULE_TYPES.find((t) => t.type === input.type)!;
+  // Fields the rule type does not use are cleared so a changed type leaves nothing stale
+  const pick = (field: "rate" | "amount" | "threshold") =>
+    config.fields.includes(field) && input[field] !== undefined ? new Prisma.Decimal(input[field]!) : null;
+  return { name: input.name, type: input.type, rate: pick("rate"), amount: pick("amount"), threshold: pick("threshold") };
+}
+
+export async function listIncentiveRules(options: { includeArchived?: boolean } = {}) {
+  const rows = await prisma.incentiveRule.findMany({
+    where: options.includeArchived ? {} : { archivedAt: null },
+    orderBy: [{ archivedAt: { sort: "desc", nulls: "first" } }, { sortOrder: "asc" }, { createdAt: "asc" }],
+  });
+  return rows.map(toRuleConfig);
+}
+
+export async function createIncentiveRule(tx: Db, input: IncentiveRuleInput & { userId: string }) {
+  const last = await tx.incentiveRule.aggregate({ _max: { sortOrder: true } });
+  return tx.incentiveRule.create({
+    data: { ...ruleData(input), sortOrder: (last._max.sortOrder ?? 0) + 1, createdById: input.userId },
+  });
+}
+
+async function findIncentiveRule(tx: Db, id: string) {
+  const rule = await tx.incentiveRule.findUnique({ where: { id } });
+  if (!rule) throw new Error("INCENTIVE_RULE_NOT_FOUND");
+  return rule;
+}
+
+export async function updateIncentiveRule(tx: Db, id: string, input: IncentiveRuleInput) {
+  await findIncentiveRule(tx, id);
+  return tx.incentiveRule.update({ where: { id }, data: ruleData(input) });
+}
+
+export async function setIncentiveRuleArchived(tx: Db, id: string, archived: boolean) {
+  const rule = await findIncentiveRule(tx, id);
+  if (archived === (rule.archivedAt !== null)) {
+    throw new Error(archived ? "INCENTIVE_RULE_ALREADY_ARCHIVED" : "INCENTIVE_RULE_NOT_ARCHIVED");
+  }
+  return tx.incentiveRule.update({ where: { id }, data: { archivedAt: archived ? new Date() : null } });
+}
+
+function evaluateRule(rule: IncentiveRuleConfig, metrics: IncentiveStatement["metrics"]): IncentiveLine {
+  const base = { ruleId: rule.id, ruleName: rule.name, type: rule.type };
+  const rate = rule.rate ?? 0;
+  const amount = rule.amount ?? 0;
+  const threshold = rule.threshold ?? 0;
+
+  switch (rule.type) {
+    case IncentiveRuleType.COLLECTION_ABOVE_TARGET: {
+      const excess = Math.max(0, metrics.collections - threshold);
+      return {
+        ...base,
+        basis: `${rate}% of ${formatAmount(excess)} collected above ${formatAmount(threshold)}`,
+        amount: round2((excess * rate) / 100),
+      };
+    }
+    case IncentiveRuleType.NEW_MEMBER_BONUS:
+      return {
+        ...base,
+        basis: `${metrics.newMembers} new member(s) × ${formatAmount(amount)}`,
+        amount: round2(metrics.newMembers * amount),
+      };
+    case IncentiveRuleType.RELEASE_PERCENT:
+      return {
+        ...base,
+        basis: `${rate}% of ${formatAmount(metrics.releaseAmount)} released`,
+        amount: round2((metrics.releaseAmount * rate) / 100),
+      };
+    case IncentiveRuleType.PAR_PENALTY: {
+      const parPercent = metrics.parRatio * 100;
+      return {
+        ...base,
+        basis: `PAR ${parPercent.toFixed(1)}% ${parPercent >= threshold ? "≥" : "<"} ${threshold}%`,
+        amount: parPercent >= threshold ? -amount : 0,
+      };
+    }
+  }
+}
+
+/** Statements for every collection officer (or one) for a `YYYY-MM` month, using the active rules. */
+export async function getIncentiveReport(month: string, employeeId?: string): Promise<IncentiveReport> {
+  const { from, to } = getMonthRange(month);
+  const range = getManilaDateRange(from, to);
+
+  const [rules, performance, employees, windows] = await Promise.all([
+    listIncentiveRules(),
+    getOfficerPerformance({ from, to }),
+    prisma.employee.findMany({
+      where: { position: EmployeePosition.COLLECTION_OFFICER, ...(employeeId ? { id: employeeId } : {}) },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      select: { id: true, firstName: true, lastName: true, baseSalary: true },
+    }),
+    listOfficerAssignmentWindows({ from, to, employeeIds: employeeId ? [employeeId] : undefined }),
+  ]);
+
+  const groupIds = [...new Set(windows.map((w) => w.groupId))];
+  const membershipFees = groupIds.length
+    ? await prisma.membershipFee.findMany({
+        where: {
+          createdAt: { gte: range.from, lte: range.to },
+          reversalOfId: null,
+          reversal: { is: null },
+          member: { groupId: { in: groupIds } },
+        },
+        distinct: ["memberId"],
+        select: { createdAt: true, member: { select: { groupId: true } } },
+      })
+    : [];
+  const newMembersByOfficer = new Map<string, number>();
+  for (const fee of membershipFees) {
+    if (!fee.member.groupId) continue;
+    const officerId = findOfficerOnDate(windows, fee.member.groupId, formatDateYMDManila(fee.createdAt));
+    if (officerId) newMembersByOfficer.set(officerId, (newMembersByOfficer.get(officerId) ?? 0) + 1);
+  }
+
+  const statements = employees.map((employee): IncentiveStatement => {
+    const scorecard = performance.officers.find((o) => o.officerId === employee.id);
+    const metrics = {
+      collections: scorecard?.collected ?? 0,
+      newMembers: newMembersByOfficer.get(employee.id) ?? 0,
+      releaseCount: scorecard?.releaseCount ?? 0,
+      releaseAmount: scorecard?.releaseAmount ?? 0,
+      parRatio: scorecard?.parRatio ?? 0,
+    };
+    const lines = rules.map((rule) => evaluateRule(rule, metrics));
+    const baseSalary = employee.baseSalary === null ? 0 : Number(employee.baseSalary);
+    const incentiveTotal = round2(lines.reduce((sum, line) => sum + line.amount, 0));
+
+    return {
+      employeeId: employee.id,
+      employeeName: `${employee.lastName}, ${employee.firstName}`,
+      baseSalary,
+      groupNames: scorecard?.groups.map((g) => g.groupName) ?? [],
+      metrics,
+      lines,
+      incentiveTotal,
+      totalPay: round2(baseSalary + incentiveTotal),
+    };
+  });
+
+  return {
+    month,
+    monthLabel: new Date(`${from}T00:00:00.000Z`).toLocaleDateString("en-US", {
+      month: "long",
+      year: "numeric",
+      timeZone: "UTC",
+    }),
+    from,
+    to,
+    parAsOf: performance.parAsOf,
+    rules,
+    statements,
+    totals: {
+      baseSalary: round2(statements.reduce((sum, s) => sum + s.baseSalary, 0)),
+      incentiveTotal: round2(statements.reduce((sum, s) => sum + s.incentiveTotal, 0)),
+      totalPay: round2(statements.reduce((sum, s) => sum + s.totalPay, 0)),
+    },
+  };
+}
+
+export function getIncentiveErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "INCENTIVE_RULE_NOT_FOUND":
+      return { status: 404, error: "Incentive rule not found" };
+    case "INCENTIVE_RULE_ALREADY_ARCHIVED":
+      return { status: 409, error: "This incentive rule is already archived" };
+    case "INCENTIVE_RULE_NOT_ARCHIVED":
+      return { status: 409, error: "This incentive rule is not archived" };
+    default:
+      return null;
+  }
+}
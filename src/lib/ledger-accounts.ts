@@ -0,0 +1,68 @@
+import { LedgerAccountType } from "@prisma/client";
+
+/** Chart of accounts seeded into ledger_accounts. Codes are stable identifiers. */
+export const LEDGER_ACCOUNTS = {
+  CASH_ON_HAND: "1000",
+  CASH_IN_BANK: "1010",
+  LOANS_RECEIVABLE: "1100",
+  ADVANCES: "1200",
+  FIXED_ASSETS: "1500",
+  MEMBER_SAVINGS: "2000",
+  LOAN_INSURANCE_PAYABLE: "2100",
+  LOAN_RELEASE_CLEARING: "2200",
+  FUND_TRANSFERS: "2300",
+  OWNERS_CAPITAL: "3000",
+  OWNERS_DRAWINGS: "3100",
+  INTEREST_INCOME: "4000",
+  PROCESSING_FEE_INCOME: "4100",
+  MEMBERSHIP_FEE_INCOME: "4200",
+  PASSBOOK_FEE_INCOME: "4300",
+  REPRESENTATION: "5000",
+  FUEL: "5010",
+  TRAVEL: "5020",
+  PROFESSIONAL_FEES: "5030",
+  SALARIES_AND_WAGES: "5040",
+  STAFF_BENEFITS: "5050",
+  ALLOWANCE: "5060",
+  OFFICE_RENT: "5070",
+  UTILITIES: "5080",
+  OFFICE_SUPPLIES: "5090",
+  GOVERNMENT_CONTRIBUTIONS: "5100",
+  SAVINGS_CREDITS: "5200",
+  MISCELLANEOUS: "5900",
+} as const;
+
+export type LedgerAccountCode = (typeof LEDGER_ACCOUNTS)[keyof typeof LEDGER_ACCOUNTS];
+
+const A = LEDGER_ACCOUNTS;
+
+export const CHART_OF_ACCOUNTS: { code: LedgerAccountCode; name: string; type: LedgerAccountType }[] = [
+  { code: A.CASH_ON_HAND, name: "Cash on Hand", type: LedgerAccountType.ASSET },
+  { code: A.CASH_IN_BANK, name: "Cash in Bank", type: LedgerAccountType.ASSET },
+  { code: A.LOANS_RECEIVABLE, name: "Loans Receivable", type: LedgerAccountType.ASSET },
+  { code: A.ADVANCES, name: "Advances to Officers and Staff", type: LedgerAccountType.ASSET },
+  { code: A.FIXED_ASSETS, name: "Furniture, Fixtures and Equipment", type: LedgerAccountType.ASSET },
+  { code: A.MEMBER_SAVINGS, name: "Members' Savings", type: LedgerAccountType.LIABILITY },
+  { code: A.LOAN_INSURANCE_PAYABLE, name: "Loan Insurance Payable", type: LedgerAccountType.LIABILITY },
+  { code: A.LOAN_RELEASE_CLEARING, name: "Loan Release Clearing", type: LedgerAccountType.LIABILITY },
+  { code: A.FUND_TRANSFERS, name: "Fund Transfers (In/Out)", type: LedgerAccountType.LIABILITY },
+  { code: A.OWNERS_CAPITAL, name: "Owner's Capital", type: LedgerAccountType.EQUITY },
+  { code: A.OWNERS_DRAWINGS, name: "Owner's Drawings and Dividends", type: LedgerAccountType.EQUITY },
+  { code: A.INTEREST_INCOME, name: "Interest Income", type: LedgerAccountType.INCOME },
+  { code: A.PROCESSING_FEE_INCOME, name: "Processing Fee Income", type: LedgerAccountType.INCOME },
+  { code: A.MEMBERSHIP_FEE_INCOME, name: "Membership Fee Income", type: LedgerAccountType.INCOME },
+  { code: A.PASSBOOK_FEE_INCOME, name: "Passbook Fee Income", type: LedgerAccountType.INCOME },
+  { code: A.REPRESENTATION, name: "Representation", type: LedgerAccountType.EXPENSE },
+  { code: A.FUEL, name: "Fuel", type: LedgerAccountType.EXPENSE },
+  { code: A.TRAVEL, name: "Travel Expenses", type: LedgerAccountType.EXPENSE },
+  { code: A.PROFESSIONAL_FEES, name: "Professional Fees", type: LedgerAccountType.EXPENSE },
+  { code: A.SALARIES_AND_WAGES, name: "Salaries and Wages", type: LedgerAccountType.EXPENSE },
+  { code: A.STAFF_BENEFITS, name: "Staff Benefits", type: LedgerAccountType.EXPENSE },
+  { code: A.ALLOWANCE, name: "Allowance", type: LedgerAccountType.EXPENSE },
+  { code: A.OFFICE_RENT, name: "Office Rent", type: LedgerAccountType.EXPENSE },
+  { code: A.UTILITIES, name: "Utilities Expenses", type: LedgerAccountType.EXPENSE },
+  { code: A.OFFICE_SUPPLIES, name: "Office Supplies", type: LedgerAccountType.EXPENSE },
+  { code: A.GOVERNMENT_CONTRIBUTIONS, name: "SSS/Pagibig/PH Contributions", type: LedgerAccountType.EXPENSE },
+  { code: A.SAVINGS_CREDITS, name: "Savings Credits", type: LedgerAccountType.EXPENSE },
+  { code: A.MISCELLANEOUS, name: "Miscellaneous and Other Payments", type: LedgerAccountType.EXPENSE },
+];
@@ -0,0 +1,539 @@
+import { randomUUID } from "crypto";
+import {
+  BalanceUpdateType,
+  BankTransactionType,
+  JournalSourceType,
+  LedgerAccountType,
+  Prisma,
+  SavingsUpdateType,
+} from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { sanitizeAccountingManualData } from "@/lib/accounting";
+import { ACCOUNTING_LINE_SECTION_FIELDS, getAccountingLineItems } from "@/lib/accounting-line-items";
+import { CHART_OF_ACCOUNTS, LEDGER_ACCOUNTS, type LedgerAccountCode } from "@/lib/ledger-accounts";
+import { branchMemberWhere } from "@/lib/branches";
+import { formatDateYMDManila } from "@/lib/date";
+
+/**
+ * Double-entry general ledger.
+ *
+ * Journals are posted from the transaction tables by postLedgerJournals, an
+ * idempotent catch-up keyed on (sourceType, sourceId), so every balance, savings,
+ * fee and release row gets exactly one balanced journal. Each run holds an advisory
+ * lock for its whole transaction, so concurrent report loads post one at a time
+ * instead of racing on the unique key. Contra-entries carry a
+ * negated amount and post with debit and credit swapped.
+ *
+ * Loans Receivable follows the members' loans: a release and a balance INCREASE debit
+ * it against Loan Release Clearing, and releases pay the principal out of that
+ * clearing account. Collections on a loan move the loan's interest share from clearing to
+ * Interest Income, so clearing nets to zero once a loan encoded at its total
+ * payable is fully collected. Balance carried from before loans were tracked has no
+ * receivable: its releases, increases and collections go through clearing alone.
+ */
+
+const A = LEDGER_ACCOUNTS;
+
+type Posting = [debit: LedgerAccountCode, credit: LedgerAccountCode, amount: Prisma.Decimal.Value];
+
+type Db = Prisma.TransactionClient;
+
+type PendingJournal = {
+  sourceType: JournalSourceType;
+  sourceId: string;
+  memberId: string | null;
+  entryDate: Date;
+  description: string;
+  postings: Posting[];
+};
+
+const POST_BATCH_SIZE = 500;
+const POST_TIMEOUT_MS = 120_000;
+
+function toEntryDate(date: Date) {
+  return new Date(`${formatDateYMDManila(date)}T12:00:00.000+08:00`);
+}
+
+/** Expands postings into journal lines; negative amounts (contra-entries) swap sides. */
+function buildLines(journalEntryId: string, postings: Posting[]) {
+  const lines: Prisma.JournalLineCreateManyInput[] = [];
+  for (const [debit, credit, value] of postings) {
+    const amount = new Prisma.Decimal(value).toDecimalPlaces(2);
+    if (amount.isZero()) continue;
+    const [dr, cr] = amount.isNegative() ? [credit, debit] : [debit, credit];
+    lines.push({ journalEntryId, accountCode: dr, debit: amount.abs(), credit: 0 });
+    lines.push({ journalEntryId, accountCode: cr, debit: 0, credit: amount.abs() });
+  }
+  return lines;
+}
+
+async function writeJournals(tx: Db, journals: PendingJournal[]) {
+  let posted = 0;
+  for (let i = 0; i < journals.length; i += POST_BATCH_SIZE) {
+    const batch = journals.slice(i, i + POST_BATCH_SIZE).map((j) => ({ ...j, id: randomUUID() }));
+    await tx.journalEntry.createMany({
+      data: batch.map(({ postings: _postings, ...entry }) => entry),
+    });
+    await tx.journalLine.createMany({
+      data: batch.flatMap((j) => buildLines(j.id, j.postings)),
+    });
+    posted += batch.length;
+  }
+  return posted;
+}
+
+/** Ids of rows in `table` that have no journal entry of `sourceType` yet. */
+async function findUnpostedIds(tx: Db, table: string, sourceType: JournalSourceType) {
+  const rows = await tx.$queryRaw<{ id: string }[]>`
+    SELECT t."id"
+    FROM ${Prisma.raw(`"${table}"`)} t
+    LEFT JOIN "journal_entries" j
+      ON j."sourceType" = ${sourceType}::"JournalSourceType" AND j."sourceId" = t."id"
+    WHERE j."id" IS NULL
+  `;
+  return rows.map((r) => r.id);
+}
+
+type LoanAmounts = { principal: Prisma.Decimal; totalPayable: Prisma.Decimal };
+
+/** Account a collection credits: the loan's receivable, or clearing for balance carried from before loans. */
+function receivableAccount(loan: LoanAmounts | null): LedgerAccountCode {
+  return loan ? A.LOANS_RECEIVABLE : A.LOAN_RELEASE_CLEARING;
+}
+
+function interestShare(amount: Prisma.Decimal, loan: LoanAmounts | null) {
+  if (!loan || loan.totalPayable.lessThanOrEqualTo(loan.principal)) return new Prisma.Decimal(0);
+  return amount.times(loan.totalPayable.minus(loan.principal)).dividedBy(loan.totalPayable).toDecimalPlaces(2);
+}
+
+async function collectBalanceJournals(tx: Db): Promise<PendingJournal[]> {
+  const ids = await findUnpostedIds(tx, "balance_adjustments", JournalSourceType.BALANCE_ADJUSTMENT);
+  if (ids.length === 0) return [];
+
+  const rows = await tx.balanceAdjustment.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      memberId: true,
+      type: true,
+      amount: true,
+      reversalOfId: true,
+      createdAt: true,
+      savingsOffset: { select: { id: true } },
+      loan: { select: { principal: true, totalPayable: true } },
+    },
+  });
+
+  return rows
+    // Offset deductions are posted from their savings side, which carries no cash
+    .filter((row) => !row.savingsOffset)
+    .map((row) => {
+      const postings: Posting[] =
+        row.type === BalanceUpdateType.DEDUCT
+          ? [
+              [A.CASH_ON_HAND, receivableAccount(row.loan), row.amount],
+              [A.LOAN_RELEASE_CLEARING, A.INTEREST_INCOME, interestShare(row.amount, row.loan)],
+            ]
+          : row.loan
+            ? [[A.LOANS_RECEIVABLE, A.LOAN_RELEASE_CLEARING, row.amount]]
+            : [];
+      return {
+        sourceType: JournalSourceType.BALANCE_ADJUSTMENT,
+        sourceId: row.id,
+        memberId: row.memberId,
+        entryDate: toEntryDate(row.createdAt),
+        description: `${row.reversalOfId ? "Reversal: " : ""}Balance ${row.type === BalanceUpdateType.DEDUCT ? "collection" : "increase"}`,
+        postings,
+      };
+    });
+}
+
+async function collectSavingsJournals(tx: Db): Promise<PendingJournal[]> {
+  const ids = await findUnpostedIds(tx, "savings_adjustments", JournalSourceType.SAVINGS_ADJUSTMENT);
+  if (ids.length === 0) return [];
+
+  const rows = await tx.savingsAdjustment.findMany({
+    where: { id: { in: ids } },
+    select: {
+      id: true,
+      memberId: true,
+      type: true,
+      amount: true,
+      reversalOfId: true,
+      createdAt: true,
+      balanceAdjustment: { select: { loan: { select: { principal: true, totalPayable: true } } } },
+    },
+  });
+
+  return rows.map((row) => {
+    let postings: Posting[];
+    let label: string;
+    if (row.type === SavingsUpdateType.INCREASE) {
+      postings = [[A.CASH_ON_HAND, A.MEMBER_SAVINGS, row.amount]];
+      label = "Savings deposit";
+    } else if (row.type === SavingsUpdateType.WITHDRAW) {
+      postings = [[A.MEMBER_SAVINGS, A.CASH_ON_HAND, row.amount]];
+      label = "Savings withdrawal";
+    } else {
+      const loan = row.balanceAdjustment?.loan ?? null;
+      postings = [
+        [A.MEMBER_SAVINGS, receivableAccount(loan), row.amount],
+        [A.LOAN_RELEASE_CLEARING, A.INTEREST_INCOME, interestShare(row.amount, loan)],
+      ];
+      label = "Savings offset to balance";
+    }
+    return {
+      sourceType: JournalSourceType.SAVINGS_ADJUSTMENT,
+      sourceId: row.id,
+      memberId: row.memberId,
+      entryDate: toEntryDate(row.createdAt),
+      description: `${row.reversalOfId ? "Reversal: " : ""}${label}`,
+      postings,
+    };
+  });
+}
+
+async function collectAccrualJournals(tx: Db): Promise<PendingJournal[]> {
+  const ids = await findUnpostedIds(tx, "savings_accruals", JournalSourceType.SAVINGS_ACCRUAL);
+  if (ids.length === 0) return [];
+
+  const rows = await tx.savingsAccrual.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, memberId: true, amount: true, accruedForDate: true },
+  });
+
+  return rows.map((row) => ({
+    sourceType: JournalSourceType.SAVINGS_ACCRUAL,
+    sourceId: row.id,
+    memberId: row.memberId,
+    entryDate: row.accruedForDate,
+    description: "Daily savings credit",
+    postings: [[A.SAVINGS_CREDITS, A.MEMBER_SAVINGS, row.amount]],
+  }));
+}
+
+const FEE_SOURCES = [
+  {
+    table: "processing_fees",
+    sourceType: JournalSourceType.PROCESSING_FEE,
+    label: "Processing fee",
+    credit: A.PROCESSING_FEE_INCOME,
+    find: (tx: Db, ids: string[]) => tx.processingFee.findMany({ where: { id: { in: ids } } }),
+  },
+  {
+    table: "passbook_fees",
+    sourceType: JournalSourceType.PASSBOOK_FEE,
+    label: "Passbook fee",
+    credit: A.PASSBOOK_FEE_INCOME,
+    find: (tx: Db, ids: string[]) => tx.passbookFee.findMany({ where: { id: { in: ids } } }),
+  },
+  {
+    table: "loan_insurances",
+    sourceType: JournalSourceType.LOAN_INSURANCE,
+    label: "Loan insurance",
+    credit: A.LOAN_INSURANCE_PAYABLE,
+    find: (tx: Db, ids: string[]) => tx.loanInsurance.findMany({ where: { id: { in: ids } } }),
+  },
+  {
+    table: "membership_fees",
+    sourceType: JournalSourceType.MEMBERSHIP_FEE,
+    label: "Membership fee",
+    credit: A.MEMBERSHIP_FEE_INCOME,
+    find: (tx: Db, ids: string[]) => tx.membershipFee.findMany({ where: { id: { in: ids } } }),
+  },
+] as const;
+
+async function collectFeeJournals(tx: Db): Promise<PendingJournal[]> {
+  const journals: PendingJournal[] = [];
+  for (const source of FEE_SOURCES) {
+    const ids = await findUnpostedIds(tx, source.table, source.sourceType);
+    if (ids.length === 0) continue;
+
+    const rows = await source.find(tx, ids);
+    for (const row of rows) {
+      journals.push({
+        sourceType: source.sourceType,
+        sourceId: row.id,
+        memberId: row.memberId,
+        entryDate: toEntryDate(row.createdAt),
+        description: `${row.reversalOfId ? "Reversal: " : ""}${source.label}`,
+        postings: [[A.CASH_ON_HAND, source.credit, row.amount]],
+      });
+    }
+  }
+  return journals;
+}
+
+async function collectReleaseJournals(tx: Db): Promise<PendingJournal[]> {
+  const ids = await findUnpostedIds(tx, "active_releases", JournalSourceType.ACTIVE_RELEASE);
+  if (ids.length === 0) return [];
+
+  const rows = await tx.activeRelease.findMany({
+    where: { id: { in: ids } },
+    select: { id: true, memberId: true, amount: true, releaseDate: true, loan: { select: { totalPayable: true } } },
+  });
+
+  return rows.map((row) => ({
+    sourceType: JournalSourceType.ACTIVE_RELEASE,
+    sourceId: row.id,
+    memberId: row.memberId,
+    entryDate: row.releaseDate,
+    description: "Loan release",
+    postings: [
+      [A.LOANS_RECEIVABLE, A.LOAN_RELEASE_CLEARING, row.loan?.totalPayable ?? 0],
+      [A.LOAN_RELEASE_CLEARING, A.CASH_ON_HAND, row.amount],
+    ],
+  }));
+}
+
+/**
+ * Re-posts every accounting day saved since its journal was written. Each line item
+ * posts against its configured ledger account with Cash on Hand on the other side;
+ * items without an account (memo lines, the savings offset) are not posted. The
+ * day's bank deposits and withdrawals move cash between hand and bank.
+ */
+async function repostAccountingDays(tx: Db) {
+  const days = await tx.$queryRaw<{ id: string }[]>`
+    SELECT d."id"
+    FROM "accounting_days" d
+    LEFT JOIN "journal_entries" j
+      ON j."sourceType" = 'ACCOUNTING_DAY'::"JournalSourceType" AND j."sourceId" = d."id"
+    WHERE j."id" IS NULL OR j."createdAt" < d."updatedAt"
+  `;
+  if (days.length === 0) return 0;
+
+  const rows = await tx.accountingDay.findMany({
+    where: { id: { in: days.map((d) => d.id) } },
+    select: { id: true, branchId: true, accountingDate: true, receipts: true, payments: true, dailyExpenses: true },
+  });
+
+  const lineItems = (await getAccountingLineItems(tx)).filter(
+    (item) => item.ledgerAccountCode && item.category !== "MEMO",
+  );
+  const bankTransactions = await tx.bankTransaction.findMany({
+    where: { accountingDate: { in: rows.map((row) => row.accountingDate) } },
+    select: { branchId: true, accountingDate: true, type: true, amount: true },
+  });
+  const journals: PendingJournal[] = rows.map((row) => {
+    const manual = sanitizeAccountingManualData(
+      {
+        receipts: row.receipts as any,
+        payments: row.payments as any,
+        dailyExpenses: row.dailyExpenses as any,
+      },
+      lineItems,
+    );
+    const postings: Posting[] = lineItems.map((item) => {
+      const account = item.ledgerAccountCode as LedgerAccountCode;
+      const amount = manual[ACCOUNTING_LINE_SECTION_FIELDS[item.section]][item.key] ?? 0;
+      return item.category === "RECEIPT"
+        ? [A.CASH_ON_HAND, account, amount]
+        : [account, A.CASH_ON_HAND, amount];
+    });
+    for (const t of bankTransactions) {
+      if (t.branchId !== row.branchId || t.accountingDate.getTime() !== row.accountingDate.getTime()) continue;
+      postings.push(
+        t.type === BankTransactionType.DEPOSIT
+          ? [A.CASH_IN_BANK, A.CASH_ON_HAND, t.amount]
+          : [A.CASH_ON_HAND, A.CASH_IN_BANK, t.amount],
+      );
+    }
+    return {
+      sourceType: JournalSourceType.ACCOUNTING_DAY,
+      sourceId: row.id,
+      memberId: null,
+      entryDate: row.accountingDate,
+      description: `Accounting day ${row.accountingDate.toISOString().slice(0, 10)}`,
+      postings,
+    };
+  });
+
+  await tx.journalEntry.deleteMany({
+    where: { sourceType: JournalSourceType.ACCOUNTING_DAY, sourceId: { in: rows.map((r) => r.id) } },
+  });
+  return writeJournals(tx, journals);
+}
+
+/**
+ * Posts a journal for every transaction row that does not have one yet and
+ * re-posts edited accounting days. Safe to run repeatedly.
+ */
+export async function postLedgerJournals(): Promise<{ posted: number }> {
+  await prisma.ledgerAccount.createMany({ data: CHART_OF_ACCOUNTS, skipDuplicates: true });
+
+  return prisma.$transaction(
+    async (tx) => {
+      // A second run waits here, then finds nothing left to post
+      await tx.$executeRaw`SELECT pg_advisory_xact_lock(hashtext('ledger_journals'))`;
+
+      const journals = [
+        ...(await collectBalanceJournals(tx)),
+        ...(await collectSavingsJournals(tx)),
+        ...(await collectAccrualJournals(tx)),
+        ...(await collectFeeJournals(tx)),
+        ...(await collectReleaseJournals(tx)),
+      ];
+
+      const posted = (await writeJournals(tx, journals)) + (await repostAccountingDays(tx));
+      return { posted };
+    },
+    { timeout: POST_TIMEOUT_MS, maxWait: POST_TIMEOUT_MS },
+  );
+}
+
+export type LedgerAccountRow = {
+  code: string;
+  name: string;
+  type: LedgerAccountType;
+  opening: number;
+  debit: number;
+  credit: number;
+  closing: number;
+};
+
+export type LedgerReportData = {
+  from: string;
+  to: string;
+  trialBalance: { rows: LedgerAccountRow[]; totalDebit: number; totalCredit: number };
+  incomeStatement: {
+    income: { code: string; name: string; amount: number }[];
+    expenses: { code: string; name: string; amount: number }[];
+    totalIncome: number;
+    totalExpenses: number;
+    netIncome: number;
+  };
+  balanceSheet: {
+    assets: { code: string; name: string; amount: number }[];
+    liabilities: { code: string; name: string; amount: number }[];
+    equity: { code: string; name: string; amount: number }[];
+    totalAssets: number;
+    totalLiabilities: number;
+    totalEquity: number;
+  };
+};
+
+const DEBIT_NORMAL: LedgerAccountType[] = [LedgerAccountType.ASSET, LedgerAccountType.EXPENSE];
+
+function roundMoney(value: number) {
+  return Math.round(value * 100) / 100;
+}
+
+/** Balance in the account's normal direction (debit for assets and expenses). */
+function normalBalance(type: LedgerAccountType, debit: number, credit: number) {
+  return DEBIT_NORMAL.includes(type) ? debit - credit : credit - debit;
+}
+
+async function sumLinesByAccount(where: Prisma.JournalEntryWhereInput) {
+  const groups = await prisma.journalLine.groupBy({
+    by: ["accountCode"],
+    where: { entry: where },
+    _sum: { debit: true, credit: true },
+  });
+  return new Map(
+    groups.map((g) => [g.accountCode, { debit: Number(g._sum.debit ?? 0), credit: Number(g._sum.credit ?? 0) }]),
+  );
+}
+
+/**
+ * Journals belonging to `branchIds`: member entries through the member's group and
+ * accounting-day entries through the day's branch. Everything when null.
+ */
+async function branchEntryWhere(branchIds: string[] | null): Promise<Prisma.JournalEntryWhereInput> {
+  if (!branchIds) return {};
+  const days = await prisma.accountingDay.findMany({
+    where: { branchId: { in: branchIds } },
+    select: { id: true },
+  });
+  return {
+    OR: [
+      { member: branchMemberWhere(branchIds) },
+      { sourceType: JournalSourceType.ACCOUNTING_DAY, sourceId: { in: days.map((day) => day.id) } },
+    ],
+  };
+}
+
+/**
+ * Trial balance, income statement and balance sheet for `from`..`to` (Manila dates).
+ * The balance sheet is as of `to` and carries net income to date as current earnings.
+ */
+export async function getLedgerReportData(
+  from: string,
+  to: string,
+  options: { branchIds?: string[] | null } = {},
+): Promise<LedgerReportData> {
+  await postLedgerJournals();
+
+  const fromDate = new Date(`${from}T12:00:00.000+08:00`);
+  const toDate = new Date(`${to}T12:00:00.000+08:00`);
+  const scope = await branchEntryWhere(options.branchIds ?? null);
+
+  const [accounts, before, during] = await Promise.all([
+    prisma.ledgerAccount.findMany({ orderBy: { code: "asc" } }),
+    sumLinesByAccount({ ...scope, entryDate: { lt: fromDate } }),
+    sumLinesByAccount({ ...scope, entryDate: { gte: fromDate, lte: toDate } }),
+  ]);
+
+  const rows: LedgerAccountRow[] = accounts.map((account) => {
+    const prior = before.get(account.code) ?? { debit: 0, credit: 0 };
+    const period = during.get(account.code) ?? { debit: 0, credit: 0 };
+    const opening = normalBalance(account.type, prior.debit, prior.credit);
+    return {
+      code: account.code,
+      name: account.name,
+      type: account.type,
+      opening: roundMoney(opening),
+      debit: roundMoney(period.debit),
+      credit: roundMoney(period.credit),
+      closing: roundMoney(opening + normalBalance(account.type, period.debit, period.credit)),
+    };
+  });
+
+  const byType = (type: LedgerAccountType, pick: (row: LedgerAccountRow) => number) =>
+    rows
+      .filter((row) => row.type === type)
+      .map((row) => ({ code: row.code, name: row.name, amount: roundMoney(pick(row)) }))
+      .filter((row) => row.amount !== 0);
+  const total = (items: { amount: number }[]) => roundMoney(items.reduce((sum, item) => sum + item.amount, 0));
+  const periodAmount = (row: LedgerAccountRow) => normalBalance(row.type, row.debit, row.credit);
+
+  const income = byType(LedgerAccountType.INCOME, periodAmount);
+  const expenses = byType(LedgerAccountType.EXPENSE, periodAmount);
+  const totalIncome = total(income);
+  const totalExpenses = total(expenses);
+
+  const assets = byType(LedgerAccountType.ASSET, (row) => row.closing);
+  const liabilities = byType(LedgerAccountType.LIABILITY, (row) => row.closing);
+  const equity = byType(LedgerAccountType.EQUITY, (row) => row.closing);
+  const earningsToDate = roundMoney(
+    total(byType(LedgerAccountType.INCOME, (row) => row.closing)) -
+      total(byType(LedgerAccountType.EXPENSE, (row) => row.closing)),
+  );
+  if (earningsToDate !== 0) {
+    equity.push({ code: "", name: "Current Earnings", amount: earningsToDate });
+  }
+
+  return {
+    from,
+    to,
+    trialBalance: {
+      rows,
+      totalDebit: roundMoney(rows.reduce((sum, row) => sum + row.debit, 0)),
+      totalCredit: roundMoney(rows.reduce((sum, row) => sum + row.credit, 0)),
+    },
+    incomeStatement: {
+      income,
+      expenses,
+      totalIncome,
+      totalExpenses,
+      netIncome: roundMoney(totalIncome - totalExpenses),
+    },
+    balanceSheet: {
+      assets,
+      liabilities,
+      equity,
+      totalAssets: total(assets),
+      totalLiabilities: total(liabilities),
+      totalEquity: total(equity),
+    },
+  };
+}
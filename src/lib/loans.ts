@@ -0,0 +1,380 @@
+import { LoanInterestMethod, LoanPaymentFrequency, LoanStatus, Prisma } from "@prisma/client";
+import { addBusinessDays, formatDateYMD, getWeekdaysInRange } from "@/lib/date";
+import { assertPeriodOpen } from "@/lib/period-close";
+
+type Db = Prisma.TransactionClient;
+
+/** Default term used when a release is posted without explicit loan terms. */
+export const LOAN_DEFAULT_TERM_DAYS = Number(process.env.LMS_LOAN_DEFAULT_TERM_DAYS ?? "40");
+
+/** Default interest rate (percent for the whole term) when none is supplied. */
+export const LOAN_DEFAULT_INTEREST_RATE = Number(process.env.LMS_LOAN_DEFAULT_INTEREST_RATE ?? "0");
+
+export type LoanTermsInput = {
+  principal: number;
+  interestMethod?: LoanInterestMethod;
+  interestRate?: number;
+  termDays?: number;
+  paymentFrequency?: LoanPaymentFrequency;
+};
+
+export type LoanTerms = {
+  principal: Prisma.Decimal;
+  interestMethod: LoanInterestMethod;
+  interestRate: Prisma.Decimal;
+  termDays: number;
+  paymentFrequency: LoanPaymentFrequency;
+  installmentAmount: Prisma.Decimal;
+  totalPayable: Prisma.Decimal;
+  installments: { principalDue: number; interestDue: number; amountDue: number }[];
+};
+
+export type AmortizationRow = {
+  sequence: number;
+  dueDate: Date;
+  principalDue: number;
+  interestDue: number;
+  amountDue: number;
+};
+
+export type ScheduleRowStatus = "PAID" | "PARTIAL" | "OVERDUE" | "UPCOMING";
+
+function roundMoney(n: number): number {
+  return Math.round(n * 100) / 100;
+}
+
+/** Number of installments for a term: one per business day, or one per five business days. */
+export function getInstallmentCount(termDays: number, paymentFrequency: LoanPaymentFrequency): number {
+  return paymentFrequency === LoanPaymentFrequency.WEEKLY ? Math.ceil(termDays / 5) : termDays;
+}
+
+/**
+ * Resolves the repayment terms of a loan.
+ *
+ * `interestRate` is the percent charged over the whole term:
+ * - ADD_ON: interest is computed on the full principal and spread evenly over
+ *   the installments.
+ * - DIMINISHING: the rate is split evenly across the installments and charged
+ *   on the remaining principal, giving a level (annuity) installment.
+ *
+ * Rounding differences are absorbed by the last installment.
+ */
+export function computeLoanTerms(input: LoanTermsInput): LoanTerms {
+  const principal = roundMoney(input.principal);
+  const interestMethod = input.interestMethod ?? LoanInterestMethod.ADD_ON;
+  const interestRate = input.interestRate ?? LOAN_DEFAULT_INTEREST_RATE;
+  const termDays = Math.max(1, Math.floor(input.termDays ?? LOAN_DEFAULT_TERM_DAYS));
+  const paymentFrequency = input.paymentFrequency ?? LoanPaymentFrequency.DAILY;
+  const count = getInstallmentCount(termDays, paymentFrequency);
+
+  const installments: LoanTerms["installments"] = [];
+  let remaining = principal;
+
+  if (interestMethod === LoanInterestMethod.DIMINISHING && interestRate > 0) {
+    const periodRate = interestRate / 100 / count;
+    const level = roundMoney((principal * periodRate) / (1 - Math.pow(1 + periodRate, -count)));
+    for (let i = 0; i < count; i++) {
+      const interestDue = roundMoney(remaining * periodRate);
+      const principalDue = i === count - 1 ? remaining : roundMoney(Math.min(level - interestDue, remaining));
+      remaining = roundMoney(remaining - principalDue);
+      installments.push({ principalDue, interestDue, amountDue: roundMoney(principalDue + interestDue) });
+    }
+  } else {
+    const interest = roundMoney((principal * interestRate) / 100);
+    const principalEach = roundMoney(principal / count);
+    const interestEach = roundMoney(interest / count);
+    let interestRemaining = interest;
+    for (let i = 0; i < count; i++) {
+      const last = i === count - 1;
+      const principalDue = last ? remaining : principalEach;
+      const interestDue = last ? interestRemaining : interestEach;
+      remaining = roundMoney(remaining - principalDue);
+      interestRemaining = roundMoney(interestRemaining - interestDue);
+      installments.push({ principalDue, interestDue, amountDue: roundMoney(principalDue + interestDue) });
+    }
+  }
+
+  const totalPayable = roundMoney(installments.reduce((sum, row) => sum + row.amountDue, 0));
+
+  return {
+    principal: new Prisma.Decimal(principal.toFixed(2)),
+    interestMethod,
+    interestRate: new Prisma.Decimal(interestRate.toFixed(4)),
+    termDays,
+    paymentFrequency,
+    installmentAmount: new Prisma.Decimal(installments[0].amountDue.toFixed(2)),
+    totalPayable: new Prisma.Decimal(totalPayable.toFixed(2)),
+    installments,
+  };
+}
+
+/**
+ * Assigns due dates to the installments of a loan released on `releaseDate`.
+ * Daily loans fall due on every business day after the release; weekly loans on
+ * every fifth business day. The last installment always falls on the maturity date.
+ */
+export function buildAmortizationSchedule(
+  terms: LoanTerms,
+  releaseDate: Date,
+): { maturityDate: Date; rows: AmortizationRow[] } {
+  const maturity = addBusinessDays(releaseDate, terms.termDays);
+  const firstDay = new Date(releaseDate);
+  firstDay.setDate(firstDay.getDate() + 1);
+  const weekdays = getWeekdaysInRange(formatDateYMD(firstDay), formatDateYMD(maturity));
+
+  const count = terms.installments.length;
+  const rows = terms.installments.map((row, i) => {
+    const index =
+      terms.paymentFrequency === LoanPaymentFrequency.WEEKLY
+        ? Math.min(i * 5 + 4, weekdays.length - 1)
+        : i;
+    const ymd = i === count - 1 ? weekdays[weekdays.length - 1] : weekdays[index];
+    return {
+      sequence: i + 1,
+      dueDate: new Date(`${ymd}T12:00:00.000+08:00`),
+      ...row,
+    };
+  });
+
+  return { maturityDate: new Date(`${formatDateYMD(maturity)}T12:00:00.000+08:00`), rows };
+}
+
+/**
+ * Spreads the amount paid on a loan over its installments in due-date order and
+ * labels each installment as of `asOf`.
+ */
+export function allocateScheduleStatus<T extends { dueDate: Date; amountDue: number }>(
+  rows: T[],
+  paidTotal: number,
+  asOf: Date,
+): (T & { paidAmount: number; status: ScheduleRowStatus })[] {
+  const asOfYmd = formatDateYMD(asOf);
+  let available = roundMoney(paidTotal);
+
+  return rows.map((row) => {
+    const paidAmount = roundMoney(Math.max(0, Math.min(row.amountDue, available)));
+    available = roundMoney(available - paidAmount);
+
+    let status: ScheduleRowStatus;
+    if (paidAmount >= row.amountDue) status = "PAID";
+    else if (formatDateYMD(row.dueDate) <= asOfYmd) status = "OVERDUE";
+    else if (paidAmount > 0) status = "PARTIAL";
+    else status = "UPCOMING";
+
+    return { ...row, paidAmount, status };
+  });
+}
+
+/**
+ * Creates a loan together with the ActiveRelease that disburses it and its
+ * amortization schedule, and adds the loan's total payable to Member.balance so the
+ * balance stays the sum of the member's open loans (plus any balance carried from
+ * before loans were tracked).
+ */
+export async function createLoanWithRelease(
+  tx: Db,
+  input: {
+    memberId: string;
+    createdById: string;
+    releaseDate: Date;
+    terms: LoanTermsInput;
+  },
+) {
+  await assertPeriodOpen(tx, input.releaseDate);
+
+  const terms = computeLoanTerms(input.terms);
+  const schedule = buildAmortizationSchedule(terms, input.releaseDate);
+
+  const loan = await tx.loan.create({
+    data: {
+      memberId: input.memberId,
+      principal: terms.principal,
+      interestMethod: terms.interestMethod,
+      interestRate: terms.interestRate,
+      termDays: terms.termDays,
+      paymentFrequency: terms.paymentFrequency,
+      installmentAmount: terms.installmentAmount,
+      totalPayable: terms.totalPayable,
+      outstandingBalance: terms.totalPayable,
+      releaseDate: input.releaseDate,
+      maturityDate: schedule.maturityDate,
+      createdById: input.createdById,
+      createdAt: input.releaseDate,
+    },
+  });
+
+  await tx.loanInstallment.createMany({
+    data: schedule.rows.map((row) => ({
+      loanId: loan.id,
+      sequence: row.sequence,
+      dueDate: row.dueDate,
+      principalDue: row.principalDue,
+      interestDue: row.interestDue,
+      amountDue: row.amountDue,
+    })),
+  });
+
+  const release = await tx.activeRelease.create({
+    data: {
+      memberId: input.memberId,
+      loanId: loan.id,
+      amount: terms.principal,
+      releaseDate: input.releaseDate,
+      createdAt: input.releaseDate,
+    },
+  });
+
+  await tx.member.update({
+    where: { id: input.memberId },
+    data: { balance: { increment: terms.totalPayable } },
+  });
+
+  return { loan, release };
+}
+
+/** Moves a loan's outstanding balance by `delta`, marking it paid at zero and reopening it above zero. */
+async function changeOutstandingBalance(
+  tx: Db,
+  loan: { id: string; outstandingBalance: Prisma.Decimal; status: LoanStatus; closedAt: Date | null },
+  delta: Prisma.Decimal.Value,
+) {
+  const outstandingBalance = loan.outstandingBalance.plus(delta);
+  let status = loan.status;
+  let closedAt = loan.closedAt;
+  if (loan.status === LoanStatus.OPEN && outstandingBalance.lessThanOrEqualTo(0)) {
+    status = LoanStatus.PAID;
+    closedAt = new Date();
+  } else if (loan.status === LoanStatus.PAID && outstandingBalance.greaterThan(0)) {
+    status = LoanStatus.OPEN;
+    closedAt = null;
+  }
+
+  await tx.loan.update({ where: { id: loan.id }, data: { outstandingBalance, status, closedAt } });
+}
+
+/**
+ * Applies a balance deduction to the member's oldest open loan.
+ * Returns the loan id to store on the BalanceAdjustment, or null when the member
+ * has no open loan (balances encoded before loans were tracked). A deduction larger
+ * than that loan's outstanding balance is rejected rather than split, so that a
+ * reversal can always put the whole amount back on the one loan it names.
+ */
+export async function applyLoanDeduction(
+  tx: Db,
+  memberId: string,
+  amount: Prisma.Decimal.Value,
+): Promise<string | null> {
+  const loan = await tx.loan.findFirst({
+    where: { memberId, status: LoanStatus.OPEN },
+    orderBy: [{ releaseDate: "asc" }, { createdAt: "asc" }],
+  });
+  if (!loan) return null;
+  if (loan.outstandingBalance.lessThan(amount)) throw new Error("LOAN_DEDUCTION_EXCEEDS_BALANCE");
+
+  await changeOutstandingBalance(tx, loan, new Prisma.Decimal(amount).negated());
+  return loan.id;
+}
+
+/** Whether applyLoanDeduction would reject `amount`, for callers that report per-member errors instead of failing. */
+export async function deductionExceedsLoan(tx: Db, memberId: string, amount: Prisma.Decimal.Value) {
+  const loan = await tx.loan.findFirst({
+    where: { memberId, status: LoanStatus.OPEN },
+    orderBy: [{ releaseDate: "asc" }, { createdAt: "asc" }],
+    select: { outstandingBalance: true },
+  });
+  return loan != null && loan.outstandingBalance.lessThan(amount);
+}
+
+/**
+ * Adds a balance increase (e.g. a penalty or an approved correction) to the
+ * member's newest open loan. Returns its id, or null when no loan is open.
+ */
+export async function applyLoanIncrease(
+  tx: Db,
+  memberId: string,
+  amount: Prisma.Decimal.Value,
+): Promise<string | null> {
+  const loan = await tx.loan.findFirst({
+    where: { memberId, status: LoanStatus.OPEN },
+    orderBy: [{ releaseDate: "desc" }, { createdAt: "desc" }],
+  });
+  if (!loan) return null;
+
+  await changeOutstandingBalance(tx, loan, amount);
+  return loan.id;
+}
+
+/** Undoes applyLoanDeduction, reopening the loan if the reversal leaves a balance. */
+export async function reverseLoanDeduction(
+  tx: Db,
+  loanId: string | null,
+  amount: Prisma.Decimal.Value,
+) {
+  if (!loanId) return;
+
+  const loan = await tx.loan.findUnique({ where: { id: loanId } });
+  if (!loan) return;
+
+  await changeOutstandingBalance(tx, loan, amount);
+}
+
+/** Undoes applyLoanIncrease; rejected once later payments have brought the loan below the amount. */
+export async function reverseLoanIncrease(
+  tx: Db,
+  loanId: string | null,
+  amount: Prisma.Decimal.Value,
+) {
+  if (!loanId) return;
+
+  const loan = await tx.loan.findUnique({ where: { id: loanId } });
+  if (!loan) return;
+  if (loan.outstandingBalance.lessThan(amount)) throw new Error("LOAN_DEDUCTION_EXCEEDS_BALANCE");
+
+  await changeOutstandingBalance(tx, loan, new Prisma.Decimal(amount).negated());
+}
+
+export function serializeLoan(loan: {
+  id: string;
+  memberId: string;
+  principal: Prisma.Decimal;
+  interestMethod: LoanInterestMethod;
+  interestRate: Prisma.Decimal;
+  termDays: number;
+  paymentFrequency: LoanPaymentFrequency;
+  installmentAmount: Prisma.Decimal;
+  totalPayable: Prisma.Decimal;
+  outstandingBalance: Prisma.Decimal;
+  releaseDate: Date;
+  maturityDate: Date;
+  status: LoanStatus;
+  closedAt: Date | null;
+  createdAt: Date;
+}) {
+  return {
+    id: loan.id,
+    memberId: loan.memberId,
+    principal: Number(loan.principal),
+    interestMethod: loan.interestMethod,
+    interestRate: Number(loan.interestRate),
+    termDays: loan.termDays,
+    paymentFrequency: loan.paymentFrequency,
+    installmentAmount: Number(loan.installmentAmount),
+    totalPayable: Number(loan.totalPayable),
+    outstandingBalance: Number(loan.outstandingBalance),
+    releaseDate: loan.releaseDate.toISOString(),
+    maturityDate: loan.maturityDate.toISOString(),
+    status: loan.status,
+    closedAt: loan.closedAt ? loan.closedAt.toISOString() : null,
+    createdAt: loan.createdAt.toISOString(),
+  };
+}
+
+export function getLoanErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "LOAN_DEDUCTION_EXCEEDS_BALANCE":
+      return { status: 400, error: "The amount is more than the outstanding balance of the member's loan" };
+    default:
+      return null;
+  }
+}
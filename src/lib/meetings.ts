@@ -0,0 +1,295 @@
+import { AttendanceStatus, MemberStatus, Prisma, Weekday } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Groups meet once a week on a fixed weekday. A meeting row is created the first
+ * time attendance is recorded for a group and date; recording again replaces the
+ * statuses. Attendance rate counts present and late as attended and leaves excused
+ * absences out of the denominator.
+ */
+
+export const WEEKDAY_LABELS: Record<Weekday, string> = {
+  MONDAY: "Monday",
+  TUESDAY: "Tuesday",
+  WEDNESDAY: "Wednesday",
+  THURSDAY: "Thursday",
+  FRIDAY: "Friday",
+  SATURDAY: "Saturday",
+  SUNDAY: "Sunday",
+};
+
+export const ATTENDANCE_STATUS_LABELS: Record<AttendanceStatus, string> = {
+  PRESENT: "Present",
+  LATE: "Late",
+  EXCUSED: "Excused",
+  ABSENT: "Absent",
+};
+
+const WEEKDAYS_BY_UTC_DAY: Weekday[] = [
+  Weekday.SUNDAY,
+  Weekday.MONDAY,
+  Weekday.TUESDAY,
+  Weekday.WEDNESDAY,
+  Weekday.THURSDAY,
+  Weekday.FRIDAY,
+  Weekday.SATURDAY,
+];
+
+const optionalText = (max: number) =>
+  z
+    .string()
+    .trim()
+    .max(max)
+    .transform((value) => value || null)
+    .nullable()
+    .optional();
+
+export const MeetingScheduleSchema = z.object({
+  meetingWeekday: z.enum(Weekday).nullable().optional(),
+  meetingTime: z
+    .string()
+    .trim()
+    .regex(/^([01]\d|2[0-3]):[0-5]\d$/)
+    .nullable()
+    .optional(),
+  meetingVenue: optionalText(120),
+  meetingBarangay: optionalText(120),
+});
+
+export const RecordAttendanceSchema = z.object({
+  meetingDate: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  notes: z.string().trim().max(500).optional(),
+  entries: z
+    .array(z.object({ memberId: z.string().uuid(), status: z.enum(AttendanceStatus) }))
+    .min(1),
+});
+
+export type MeetingSchedule = {
+  meetingWeekday: Weekday | null;
+  meetingTime: string | null;
+  meetingVenue: string | null;
+  meetingBarangay: string | null;
+};
+
+export type AttendanceCounts = Record<AttendanceStatus, number> & { rate: number | null };
+
+function toMeetingDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+export function getWeekdayForDate(ymd: string): Weekday {
+  return WEEKDAYS_BY_UTC_DAY[new Date(`${ymd}T00:00:00.000Z`).getUTCDay()];
+}
+
+export function formatMeetingTime(time: string) {
+  const [hours, minutes] = time.split(":").map(Number);
+  return `${hours % 12 || 12}:${String(minutes).padStart(2, "0")} ${hours < 12 ? "AM" : "PM"}`;
+}
+
+/** "Tuesdays, 9:00 AM · Covered court, Brgy. San Isidro", or null when no weekday is set. */
+export function formatMeetingSchedule(schedule: MeetingSchedule) {
+  if (!schedule.meetingWeekday) return null;
+  const when = [
+    `${WEEKDAY_LABELS[schedule.meetingWeekday]}s`,
+    schedule.meetingTime ? formatMeetingTime(schedule.meetingTime) : null,
+  ]
+    .filter(Boolean)
+    .join(", ");
+  const where = [schedule.meetingVenue, schedule.meetingBarangay].filter(Boolean).join(", ");
+  return where ? `${when} · ${where}` : when;
+}
+
+function countAttendance(statuses: AttendanceStatus[]): AttendanceCounts {
+  const counts = { PRESENT: 0, LATE: 0, EXCUSED: 0, ABSENT: 0 };
+  for (const status of statuses) counts[status] += 1;
+  const attended = counts.PRESENT + counts.LATE;
+  const expected = attended + counts.ABSENT;
+  return { ...counts, rate: expected > 0 ? attended / expected : null };
+}
+
+/**
+ * Creates or replaces the attendance for one group meeting. Every entry must be a
+ * member of the group; members left out keep no record for the meeting.
+ */
+export async function recordMeetingAttendance(
+  tx: Db,
+  input: z.infer<typeof RecordAttendanceSchema> & { groupId: string; today: string; userId: string },
+) {
+  if (input.meetingDate > input.today) throw new Error("MEETING_DATE_IN_FUTURE");
+
+  const memberIds = input.entries.map((entry) => entry.memberId);
+  if (new Set(memberIds).size !== memberIds.length) throw new Error("ATTENDANCE_DUPLICATE_MEMBER");
+
+  const inGroup = await tx.member.count({ where: { id: { in: memberIds }, groupId: input.groupId } });
+  if (inGroup !== memberIds.length) throw new Error("MEMBER_NOT_IN_GROUP");
+
+  const meetingDate = toMeetingDate(input.meetingDate);
+  const meeting = await tx.groupMeeting.upsert({
+    where: { groupId_meetingDate: { groupId: input.groupId, meetingDate } },
+    create: { groupId: input.groupId, meetingDate, notes: input.notes || null, recordedById: input.userId },
+    update: { notes: input.notes || null, recordedById: input.userId },
+  });
+
+  await tx.meetingAttendance.deleteMany({ where: { meetingId: meeting.id } });
+  await tx.meetingAttendance.createMany({
+    data: input.entries.map((entry) => ({ meetingId: meeting.id, memberId: entry.memberId, status: entry.status })),
+  });
+
+  return { id: meeting.id, counts: countAttendance(input.entries.map((entry) => entry.status)) };
+}
+
+/**
+ * Attendance sheet for a group and date: the active members, plus anyone already
+ * recorded for that meeting, with their status and overall attendance rate.
+ */
+export async function getMeetingSheet(groupId: string, ymd: string) {
+  const meeting = await prisma.groupMeeting.findUnique({
+    where: { groupId_meetingDate: { groupId, meetingDate: toMeetingDate(ymd) } },
+    select: {
+      id: true,
+      notes: true,
+      updatedAt: true,
+      recordedBy: { select: { name: true } },
+      attendances: { select: { memberId: true, status: true } },
+    },
+  });
+  const recordedIds = meeting?.attendances.map((a) => a.memberId) ?? [];
+
+  const members = await prisma.member.findMany({
+    where: { groupId, OR: [{ status: MemberStatus.ACTIVE }, { id: { in: recordedIds } }] },
+    orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    select: {
+      id: true,
+      firstName: true,
+      lastName: true,
+      meetingAttendances: { where: { meeting: { groupId } }, select: { status: true } },
+    },
+  });
+  const statusByMember = new Map(meeting?.attendances.map((a) => [a.memberId, a.status]));
+
+  return {
+    meeting: meeting
+      ? { id: meeting.id, notes: meeting.notes, recordedBy: meeting.recordedBy.name, updatedAt: meeting.updatedAt }
+      : null,
+    members: members.map((member) => ({
+      id: member.id,
+      name: `${member.lastName}, ${member.firstName}`,
+      status: statusByMember.get(member.id) ?? null,
+      attendance: countAttendance(member.meetingAttendances.map((a) => a.status)),
+    })),
+  };
+}
+
+/** Group-wide rate over every recorded meeting, and the most recent meetings with their counts. */
+export async function getGroupAttendanceSummary(groupId: string, recent = 8) {
+  const [statuses, meetings] = await Promise.all([
+    prisma.meetingAttendance.findMany({ where: { meeting: { groupId } }, select: { status: true } }),
+    prisma.groupMeeting.findMany({
+      where: { groupId },
+      orderBy: { meetingDate: "desc" },
+      select: {
+        id: true,
+        meetingDate: true,
+        _count: { select: { attendances: true } },
+      },
+    }),
+  ]);
+
+  const recentMeetings = meetings.slice(0, recent);
+  const recentStatuses = recentMeetings.length
+    ? await prisma.meetingAttendance.findMany({
+        where: { meetingId: { in: recentMeetings.map((m) => m.id) } },
+        select: { meetingId: true, status: true },
+      })
+    : [];
+
+  return {
+    meetingCount: meetings.length,
+    overall: countAttendance(statuses.map((s) => s.status)),
+    recent: recentMeetings.map((meeting) => ({
+      date: meeting.meetingDate.toISOString().slice(0, 10),
+      counts: countAttendance(recentStatuses.filter((s) => s.meetingId === meeting.id).map((s) => s.status)),
+    })),
+  };
+}
+
+export async function getMemberAttendance(memberId: string, recent = 10) {
+  const records = await prisma.meetingAttendance.findMany({
+    where: { memberId },
+    orderBy: { meeting: { meetingDate: "desc" } },
+    select: {
+      status: true,
+      meeting: { select: { meetingDate: true, group: { select: { id: true, name: true } } } },
+    },
+  });
+
+  return {
+    overall: countAttendance(records.map((r) => r.status)),
+    recent: records.slice(0, recent).map((record) => ({
+      date: record.meeting.meetingDate.toISOString().slice(0, 10),
+      groupId: record.meeting.group.id,
+      groupName: record.meeting.group.name,
+      status: record.status,
+    })),
+  };
+}
+
+/** Groups scheduled to meet on `ymd` (optionally limited to `groupIds`), with whether attendance is in. */
+export async function getMeetingAgenda(ymd: string, groupIds: string[] | null) {
+  const weekday = getWeekdayForDate(ymd);
+  const groups = await prisma.group.findMany({
+    where: { meetingWeekday: weekday, ...(groupIds ? { id: { in: groupIds } } : {}) },
+    select: {
+      id: true,
+      name: true,
+      meetingWeekday: true,
+      meetingTime: true,
+      meetingVenue: true,
+      meetingBarangay: true,
+      collectionOfficer: { select: { firstName: true, lastName: true } },
+      _count: { select: { members: { where: { status: MemberStatus.ACTIVE } } } },
+      meetings: {
+        where: { meetingDate: toMeetingDate(ymd) },
+        select: { attendances: { select: { status: true } } },
+      },
+    },
+  });
+
+  return {
+    weekday,
+    groups: groups
+      .map((group) => ({
+        id: group.id,
+        name: group.name,
+        meetingTime: group.meetingTime,
+        venue: [group.meetingVenue, group.meetingBarangay].filter(Boolean).join(", ") || null,
+        officerName: group.collectionOfficer
+          ? `${group.collectionOfficer.firstName} ${group.collectionOfficer.lastName}`
+          : null,
+        activeMembers: group._count.members,
+        attendance: group.meetings[0] ? countAttendance(group.meetings[0].attendances.map((a) => a.status)) : null,
+      }))
+      // Untimed meetings go last; otherwise by time, then name
+      .sort(
+        (a, b) =>
+          (a.meetingTime ?? "99:99").localeCompare(b.meetingTime ?? "99:99") || a.name.localeCompare(b.name),
+      ),
+  };
+}
+
+export function getMeetingErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "MEETING_DATE_IN_FUTURE":
+      return { status: 400, error: "Attendance cannot be recorded for a future date" };
+    case "ATTENDANCE_DUPLICATE_MEMBER":
+      return { status: 400, error: "A member appears more than once" };
+    case "MEMBER_NOT_IN_GROUP":
+      return { status: 400, error: "Every member must belong to the group" };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,214 @@
+import { Prisma } from "@prisma/client";
+import { prisma } from "@/lib/db";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * `Group.collectionOfficerId` is the current officer; `group_officer_assignments`
+ * records who held each group over which Manila business days, with an inclusive
+ * `effectiveTo` that stays null while the assignment is current. Reports credit
+ * activity to the officer assigned on the day it happened, so reassigning a group
+ * leaves its history with the previous officer.
+ */
+
+export type OfficerAssignmentWindow = {
+  groupId: string;
+  groupName: string;
+  employeeId: string;
+  /** First day in the requested range the officer held the group */
+  from: string;
+  /** Last day in the requested range the officer held the group */
+  to: string;
+};
+
+function toAssignmentDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+function toYmd(date: Date) {
+  return date.toISOString().slice(0, 10);
+}
+
+function addDays(ymd: string, days: number) {
+  const date = new Date(`${ymd}T00:00:00.000Z`);
+  date.setUTCDate(date.getUTCDate() + days);
+  return toYmd(date);
+}
+
+/**
+ * SQL join restricting rows to the assignment in force on `dateExpr` (a date
+ * expression), exposing it as `goa`. Expects the member's group as `m."groupId"`.
+ */
+export function assignedOfficerJoin(dateExpr: string) {
+  const date = Prisma.raw(dateExpr);
+  return Prisma.sql`JOIN "group_officer_assignments" goa
+    ON goa."groupId" = m."groupId"
+    AND goa."effectiveFrom" <= ${date}
+    AND (goa."effectiveTo" IS NULL OR goa."effectiveTo" >= ${date})`;
+}
+
+/**
+ * Hands the group to `employeeId` (or leaves it unassigned) from `effectiveFrom`.
+ * The open assignment ends the day before; one that started the same day is
+ * replaced outright. Returns false when the officer is unchanged.
+ */
+export async function setGroupCollectionOfficer(
+  tx: Db,
+  input: { groupId: string; employeeId: string | null; effectiveFrom: string; today: string; userId: string },
+) {
+  if (input.effectiveFrom > input.today) throw new Error("ASSIGNMENT_DATE_IN_FUTURE");
+
+  const group = await tx.group.findUnique({ where: { id: input.groupId }, select: { collectionOfficerId: true } });
+  if (!group) throw new Error("GROUP_NOT_FOUND");
+
+  const latest = await tx.groupOfficerAssignment.findFirst({
+    where: { groupId: input.groupId },
+    orderBy: { effectiveFrom: "desc" },
+  });
+  const current = latest && latest.effectiveTo === null ? latest : null;
+
+  if ((current?.employeeId ?? null) === input.employeeId) {
+    if (group.collectionOfficerId !== input.employeeId) {
+      await tx.group.update({ where: { id: input.groupId }, data: { collectionOfficerId: input.employeeId } });
+    }
+    return false;
+  }
+
+  if (latest) {
+    const latestStart = toYmd(latest.effectiveFrom);
+    const latestEnd = latest.effectiveTo ? toYmd(latest.effectiveTo) : null;
+    if (input.effectiveFrom < latestStart || (latestEnd && input.effectiveFrom <= latestEnd)) {
+      throw new Error("ASSIGNMENT_BEFORE_CURRENT");
+    }
+  }
+
+  if (current) {
+    if (toYmd(current.effectiveFrom) === input.effectiveFrom) {
+      await tx.groupOfficerAssignment.delete({ where: { id: current.id } });
+    } else {
+      await tx.groupOfficerAssignment.update({
+        where: { id: current.id },
+        data: { effectiveTo: toAssignmentDate(addDays(input.effectiveFrom, -1)) },
+      });
+    }
+  }
+
+  if (input.employeeId) {
+    await tx.groupOfficerAssignment.create({
+      data: {
+        groupId: input.groupId,
+        employeeId: input.employeeId,
+        effectiveFrom: toAssignmentDate(input.effectiveFrom),
+        assignedById: input.userId,
+      },
+    });
+  }
+
+  await tx.group.update({ where: { id: input.groupId }, data: { collectionOfficerId: input.employeeId } });
+  return true;
+}
+
+/**
+ * Makes `groupIds` exactly the employee's groups from `effectiveFrom`: listed groups
+ * move to the employee and their other groups are left unassigned. Returns the ids
+ * of the groups that changed hands.
+ */
+export async function setEmployeeGroups(
+  tx: Db,
+  input: { employeeId: string; groupIds: string[]; effectiveFrom: string; today: string; userId: string },
+) {
+  const held = await tx.group.findMany({
+    where: { collectionOfficerId: input.employeeId },
+    select: { id: true },
+  });
+  const wanted = new Set(input.groupIds);
+  const changed: string[] = [];
+
+  for (const group of held) {
+    if (wanted.has(group.id)) continue;
+    if (await setGroupCollectionOfficer(tx, { ...input, groupId: group.id, employeeId: null })) changed.push(group.id);
+  }
+  for (const groupId of wanted) {
+    if (await setGroupCollectionOfficer(tx, { ...input, groupId })) changed.push(groupId);
+  }
+
+  return changed;
+}
+
+/** Assignment windows overlapping `from`..`to`, clipped to the range. */
+export async function listOfficerAssignmentWindows(input: {
+  from: string;
+  to: string;
+  employeeIds?: string[];
+  groupIds?: string[];
+}): Promise<OfficerAssignmentWindow[]> {
+  const rows = await prisma.groupOfficerAssignment.findMany({
+    where: {
+      effectiveFrom: { lte: toAssignmentDate(input.to) },
+      OR: [{ effectiveTo: null }, { effectiveTo: { gte: toAssignmentDate(input.from) } }],
+      ...(input.employeeIds ? { employeeId: { in: input.employeeIds } } : {}),
+      ...(input.groupIds ? { groupId: { in: input.groupIds } } : {}),
+    },
+    orderBy: [{ effectiveFrom: "asc" }],
+    select: {
+      groupId: true,
+      employeeId: true,
+      effectiveFrom: true,
+      effectiveTo: true,
+      group: { select: { name: true } },
+    },
+  });
+
+  return rows.map((row) => {
+    const start = toYmd(row.effectiveFrom);
+    const end = row.effectiveTo ? toYmd(row.effectiveTo) : null;
+    return {
+      groupId: row.groupId,
+      groupName: row.group.name,
+      employeeId: row.employeeId,
+      from: start > input.from ? start : input.from,
+      to: end && end < input.to ? end : input.to,
+    };
+  });
+}
+
+/** The officer holding `groupId` on `ymd` according to `windows`, if any. */
+export function findOfficerOnDate(windows: OfficerAssignmentWindow[], groupId: string, ymd: string) {
+  return windows.find((w) => w.groupId === groupId && w.from <= ymd && ymd <= w.to)?.employeeId ?? null;
+}
+
+export async function listGroupAssignmentHistory(groupId: string) {
+  const rows = await prisma.groupOfficerAssignment.findMany({
+    where: { groupId },
+    orderBy: { effectiveFrom: "desc" },
+    select: {
+      id: true,
+      effectiveFrom: true,
+      effectiveTo: true,
+      employee: { select: { firstName: true, lastName: true } },
+      assignedBy: { select: { name: true } },
+    },
+  });
+
+  return rows.map((row) => ({
+    id: row.id,
+    employeeName: `${row.employee.firstName} ${row.employee.lastName}`,
+    from: toYmd(row.effectiveFrom),
+    to: row.effectiveTo ? toYmd(row.effectiveTo) : null,
+    assignedBy: row.assignedBy?.name ?? null,
+  }));
+}
+
+export function getOfficerAssignmentErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "ASSIGNMENT_DATE_IN_FUTURE":
+      return { status: 400, error: "The effective date cannot be in the future" };
+    case "ASSIGNMENT_BEFORE_CURRENT":
+      return { status: 409, error: "The effective date must be after the start of the current assignment" };
+    case "GROUP_NOT_FOUND":
+      return { status: 404, error: "Group not found" };
+    default:
+      return null;
+  }
+}
@@ -0,0 +1,410 @@
+import { EmployeePosition, MemberStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { formatDateYMDManila, getManilaBusinessDate, getManilaDateRange } from "@/lib/date";
+import { assignedOfficerJoin, findOfficerOnDate, listOfficerAssignmentWindows } from "@/lib/officer-assignments";
+import { getParReportData } from "@/lib/par";
+
+export type PerformanceGranularity = "day" | "week" | "month";
+
+export type PerformanceMetrics = {
+  /** Installments falling due in the period on loans that were still open on the due date. */
+  due: number;
+  collected: number;
+  /** The part of `collected` applied to a scheduled loan; this is what efficiency divides by `due`. */
+  scheduledCollected: number;
+  efficiency: number | null;
+  releaseCount: number;
+  releaseAmount: number;
+  fullRepaymentCount: number;
+  fullRepaymentAmount: number;
+  attritionCount: number;
+  attritionRate: number | null;
+  activeMembers: number;
+  parOutstanding: number;
+  parAtRisk: number;
+  parRatio: number;
+  /** This row's share of everyone's at-risk balance. */
+  parShare: number;
+};
+
+export type PerformanceTrendPoint = {
+  bucket: string;
+  label: string;
+  due: number;
+  scheduledCollected: number;
+  efficiency: number | null;
+};
+
+export type GroupScorecard = PerformanceMetrics & {
+  groupId: string;
+  groupName: string;
+  /** Days within the period the officer held the group. */
+  assignedFrom: string;
+  assignedTo: string;
+  /** False when the group had passed to another officer by `parAsOf`. */
+  heldAtParAsOf: boolean;
+};
+
+export type OfficerScorecard = PerformanceMetrics & {
+  officerId: string;
+  officerName: string;
+  rank: number;
+  groups: GroupScorecard[];
+  trend: PerformanceTrendPoint[];
+};
+
+export type OfficerPerformanceReport = {
+  from: string;
+  to: string;
+  parAsOf: string;
+  granularity: PerformanceGranularity;
+  /** Officers ranked, even when `officers` is narrowed to one. */
+  officerCount: number;
+  totals: PerformanceMetrics;
+  officers: OfficerScorecard[];
+};
+
+type BucketCounts = {
+  due: number;
+  collected: number;
+  scheduledCollected: number;
+  releaseCount: number;
+  releaseAmount: number;
+  fullRepaymentCount: number;
+  fullRepaymentAmount: number;
+  attritionCount: number;
+};
+
+function emptyCounts(): BucketCounts {
+  return {
+    due: 0,
+    collected: 0,
+    scheduledCollected: 0,
+    releaseCount: 0,
+    releaseAmount: 0,
+    fullRepaymentCount: 0,
+    fullRepaymentAmount: 0,
+    attritionCount: 0,
+  };
+}
+
+function addCounts(target: BucketCounts, source: BucketCounts) {
+  for (const key of Object.keys(target) as (keyof BucketCounts)[]) {
+    target[key] += source[key];
+  }
+}
+
+function toMetrics(
+  counts: BucketCounts,
+  activeMembers: number,
+  par: { outstanding: number; atRisk: number },
+  totalAtRisk: number,
+): PerformanceMetrics {
+  return {
+    ...counts,
+    efficiency: counts.due > 0 ? counts.scheduledCollected / counts.due : null,
+    attritionRate:
+      activeMembers + counts.attritionCount > 0 ? counts.attritionCount / (activeMembers + counts.attritionCount) : null,
+    activeMembers,
+    parOutstanding: par.outstanding,
+    parAtRisk: par.atRisk,
+    parRatio: par.outstanding > 0 ? par.atRisk / par.outstanding : 0,
+    parShare: totalAtRisk > 0 ? par.atRisk / totalAtRisk : 0,
+  };
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  return Math.round((Date.parse(toYmd) - Date.parse(fromYmd)) / 86_400_000);
+}
+
+export function getPerformanceGranularity(from: string, to: string): PerformanceGranularity {
+  const days = daysBetween(from, to);
+  if (days <= 14) return "day";
+  if (days <= 62) return "week";
+  return "month";
+}
+
+/** Bucket start dates covering the range, matching Postgres `date_trunc` (weeks start on Monday). */
+function listBuckets(from: string, to: string, granularity: PerformanceGranularity): string[] {
+  const cursor = new Date(`${from}T00:00:00.000Z`);
+  if (granularity === "week") cursor.setUTCDate(cursor.getUTCDate() - ((cursor.getUTCDay() + 6) % 7));
+  if (granularity === "month") cursor.setUTCDate(1);
+
+  const buckets: string[] = [];
+  while (cursor.toISOString().slice(0, 10) <= to) {
+    buckets.push(cursor.toISOString().slice(0, 10));
+    if (granularity === "month") cursor.setUTCMonth(cursor.getUTCMonth() + 1);
+    else cursor.setUTCDate(cursor.getUTCDate() + (granularity === "week" ? 7 : 1));
+  }
+  return buckets;
+}
+
+function formatBucketLabel(bucket: string, granularity: PerformanceGranularity) {
+  const date = new Date(`${bucket}T00:00:00.000Z`);
+  return granularity === "month"
+    ? date.toLocaleDateString("en-US", { month: "short", year: "numeric", timeZone: "UTC" })
+    : date.toLocaleDateString("en-US", { month: "short", day: "numeric", timeZone: "UTC" });
+}
+
+/**
+ * Per-officer, per-group, per-bucket counts for the period, each event credited to
+ * the officer assigned to the member's group on the day it happened. Reversed
+ * adjustments and reversal rows are left out; installments after a loan was paid
+ * off or written off are not counted as due.
+ */
+async function loadOfficerBuckets(
+  officerIds: string[],
+  from: string,
+  to: string,
+  granularity: PerformanceGranularity,
+) {
+  const range = getManilaDateRange(from, to);
+
+  const [dues, collections, releases, exits] = await Promise.all([
+    prisma.$queryRaw<{ officerId: string; groupId: string; bucket: string; due: number }[]>`
+      SELECT
+        goa."employeeId"::text AS "officerId",
+        m."groupId"::text AS "groupId",
+        to_char(date_trunc(${granularity}::text, li."dueDate"::timestamp), 'YYYY-MM-DD') AS "bucket",
+        COALESCE(SUM(li."amountDue"), 0)::float8 AS "due"
+      FROM "loan_installments" li
+      JOIN "loans" l ON l."id" = li."loanId"
+      JOIN "members" m ON m."id" = l."memberId"
+      ${assignedOfficerJoin(`li."dueDate"`)}
+      WHERE goa."employeeId" = ANY(${officerIds}::uuid[])
+        AND li."dueDate" >= ${from}::date
+        AND li."dueDate" <= ${to}::date
+        AND (l."closedAt" IS NULL OR li."dueDate" <= (l."closedAt" AT TIME ZONE 'Asia/Manila')::date)
+      GROUP BY 1, 2, 3
+    `,
+    prisma.$queryRaw<
+      {
+        officerId: string;
+        groupId: string;
+        bucket: string;
+        collected: number;
+        scheduled: number;
+        full_count: number;
+        full_amount: number;
+      }[]
+    >`
+      SELECT
+        goa."employeeId"::text AS "officerId",
+        m."groupId"::text AS "groupId",
+        to_char(date_trunc(${granularity}::text, ba."createdAt" AT TIME ZONE 'Asia/Manila'), 'YYYY-MM-DD') AS "bucket",
+        COALESCE(SUM(ba."amount"), 0)::float8 AS "collected",
+        COALESCE(SUM(ba."amount") FILTER (WHERE ba."loanId" IS NOT NULL), 0)::float8 AS "scheduled",
+        COUNT(DISTINCT ba."memberId") FILTER (WHERE ba."balanceAfter" = 0 AND ba."amount" > 0)::int4 AS "full_count",
+        COALESCE(SUM(ba."amount") FILTER (WHERE ba."balanceAfter" = 0 AND ba."amount" > 0), 0)::float8 AS "full_amount"
+      FROM "balance_adjustments" ba
+      JOIN "members" m ON m."id" = ba."memberId"
+      ${assignedOfficerJoin(`(ba."createdAt" AT TIME ZONE 'Asia/Manila')::date`)}
+      WHERE goa."employeeId" = ANY(${officerIds}::uuid[])
+        AND ba."type" = 'DEDUCT'
+        AND ba."reversalOfId" IS NULL
+        AND NOT EXISTS (SELECT 1 FROM "balance_adjustments" r WHERE r."reversalOfId" = ba."id")
+        AND ba."createdAt" >= ${range.from}
+        AND ba."createdAt" <= ${range.to}
+      GROUP BY 1, 2, 3
+    `,
+    prisma.$queryRaw<{ officerId: string; groupId: string; bucket: string; count: number; amount: number }[]>`
+      SELECT
+        goa."employeeId"::text AS "officerId",
+        m."groupId"::text AS "groupId",
+        to_char(date_trunc(${granularity}::text, ar."releaseDate"::timestamp), 'YYYY-MM-DD') AS "bucket",
+        COUNT(*)::int4 AS "count",
+        COALESCE(SUM(ar."amount"), 0)::float8 AS "amount"
+      FROM "active_releases" ar
+      JOIN "members" m ON m."id" = ar."memberId"
+      ${assignedOfficerJoin(`ar."releaseDate"`)}
+      WHERE goa."employeeId" = ANY(${officerIds}::uuid[])
+        AND ar."releaseDate" >= ${from}::date
+        AND ar."releaseDate" <= ${to}::date
+      GROUP BY 1, 2, 3
+    `,
+    prisma.$queryRaw<{ officerId: string; groupId: string; bucket: string; count: number }[]>`
+      SELECT
+        goa."employeeId"::text AS "officerId",
+        m."groupId"::text AS "groupId",
+        to_char(date_trunc(${granularity}::text, m."deactivatedAt" AT TIME ZONE 'Asia/Manila'), 'YYYY-MM-DD') AS "bucket",
+        COUNT(*)::int4 AS "count"
+      FROM "members" m
+      ${assignedOfficerJoin(`(m."deactivatedAt" AT TIME ZONE 'Asia/Manila')::date`)}
+      WHERE goa."employeeId" = ANY(${officerIds}::uuid[])
+        AND m."status" = 'INACTIVE'
+        AND m."deactivatedAt" >= ${range.from}
+        AND m."deactivatedAt" <= ${range.to}
+      GROUP BY 1, 2, 3
+    `,
+  ]);
+
+  const byOfficerGroup = new Map<string, Map<string, BucketCounts>>();
+  const cell = (officerId: string, groupId: string, bucket: string) => {
+    const key = `${officerId}:${groupId}`;
+    if (!byOfficerGroup.has(key)) byOfficerGroup.set(key, new Map());
+    const buckets = byOfficerGroup.get(key)!;
+    if (!buckets.has(bucket)) buckets.set(bucket, emptyCounts());
+    return buckets.get(bucket)!;
+  };
+
+  for (const row of dues) cell(row.officerId, row.groupId, row.bucket).due += row.due;
+  for (const row of collections) {
+    const counts = cell(row.officerId, row.groupId, row.bucket);
+    counts.collected += row.collected;
+    counts.scheduledCollected += row.scheduled;
+    counts.fullRepaymentCount += row.full_count;
+    counts.fullRepaymentAmount += row.full_amount;
+  }
+  for (const row of releases) {
+    const counts = cell(row.officerId, row.groupId, row.bucket);
+    counts.releaseCount += row.count;
+    counts.releaseAmount += row.amount;
+  }
+  for (const row of exits) cell(row.officerId, row.groupId, row.bucket).attritionCount += row.count;
+
+  return byOfficerGroup;
+}
+
+/**
+ * Scorecards for every collection officer over the period, ranked by collection
+ * efficiency. Each officer is credited with the groups they held during the period,
+ * and with each group's activity only on the days they held it. Active members and
+ * PAR are taken as of the end of the period (or today, when the period runs into the
+ * future) and count toward the officer holding the group on that day.
+ */
+export async function getOfficerPerformance(input: {
+  from: string;
+  to: string;
+  officerId?: string;
+}): Promise<OfficerPerformanceReport> {
+  const granularity = getPerformanceGranularity(input.from, input.to);
+  const today = formatDateYMDManila(getManilaBusinessDate());
+  const parAsOf = input.to < today ? input.to : today;
+
+  const officers = await prisma.employee.findMany({
+    where: { position: EmployeePosition.COLLECTION_OFFICER },
+    orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+    select: { id: true, firstName: true, lastName: true },
+  });
+  const officerIds = officers.map((officer) => officer.id);
+  const windows = await listOfficerAssignmentWindows({ from: input.from, to: input.to, employeeIds: officerIds });
+  const groupIds = [...new Set(windows.map((w) => w.groupId))];
+
+  const [officerBuckets, activeCounts, par] = await Promise.all([
+    officerIds.length > 0
+      ? loadOfficerBuckets(officerIds, input.from, input.to, granularity)
+      : Promise.resolve(new Map<string, Map<string, BucketCounts>>()),
+    prisma.member.groupBy({
+      by: ["groupId"],
+      where: { groupId: { in: groupIds }, status: MemberStatus.ACTIVE },
+      _count: { _all: true },
+    }),
+    getParReportData(new Date(`${parAsOf}T12:00:00.000+08:00`)),
+  ]);
+
+  const activeByGroup = new Map(activeCounts.map((row) => [row.groupId, row._count._all]));
+  const parByGroup = new Map(par.groups.map((row) => [row.id, row]));
+  const totalAtRisk = par.totals.atRisk;
+  const buckets = listBuckets(input.from, input.to, granularity);
+
+  // One entry per officer and group, spanning every window they held it in the period
+  const heldGroups = new Map<string, { groupId: string; groupName: string; from: string; to: string }[]>();
+  for (const w of windows) {
+    if (!heldGroups.has(w.employeeId)) heldGroups.set(w.employeeId, []);
+    const list = heldGroups.get(w.employeeId)!;
+    const existing = list.find((g) => g.groupId === w.groupId);
+    if (existing) {
+      if (w.from < existing.from) existing.from = w.from;
+      if (w.to > existing.to) existing.to = w.to;
+    } else {
+      list.push({ groupId: w.groupId, groupName: w.groupName, from: w.from, to: w.to });
+    }
+  }
+
+  const totalCounts = emptyCounts();
+  let totalActive = 0;
+
+  const scorecards = officers.map((officer) => {
+    const officerCounts = emptyCounts();
+    const officerTrend = new Map(buckets.map((bucket) => [bucket, emptyCounts()]));
+    const officerPar = { outstanding: 0, atRisk: 0 };
+    let officerActive = 0;
+
+    const held = (heldGroups.get(officer.id) ?? []).sort((a, b) => a.groupName.localeCompare(b.groupName));
+    const groups: GroupScorecard[] = held.map((group) => {
+      const groupCounts = emptyCounts();
+      for (const [bucket, counts] of officerBuckets.get(`${officer.id}:${group.groupId}`) ?? []) {
+        addCounts(groupCounts, counts);
+        const officerBucket = officerTrend.get(bucket);
+        if (officerBucket) addCounts(officerBucket, counts);
+      }
+      addCounts(officerCounts, groupCounts);
+
+      // Snapshot figures belong to whoever holds the group at parAsOf
+      const heldAtParAsOf = findOfficerOnDate(windows, group.groupId, parAsOf) === officer.id;
+      const activeMembers = activeByGroup.get(group.groupId) ?? 0;
+      const groupPar = parByGroup.get(group.groupId);
+      if (heldAtParAsOf) {
+        officerActive += activeMembers;
+        officerPar.outstanding += groupPar?.outstanding ?? 0;
+        officerPar.atRisk += groupPar?.atRisk ?? 0;
+      }
+      return {
+        groupId: group.groupId,
+        groupName: group.groupName,
+        assignedFrom: group.from,
+        assignedTo: group.to,
+        heldAtParAsOf,
+        ...toMetrics(
+          groupCounts,
+          activeMembers,
+          { outstanding: groupPar?.outstanding ?? 0, atRisk: groupPar?.atRisk ?? 0 },
+          totalAtRisk,
+        ),
+      };
+    });
+
+    addCounts(totalCounts, officerCounts);
+    totalActive += officerActive;
+
+    return {
+      officerId: officer.id,
+      officerName: `${officer.lastName}, ${officer.firstName}`,
+      rank: 0,
+      groups,
+      trend: buckets.map((bucket) => {
+        const counts = officerTrend.get(bucket)!;
+        return {
+          bucket,
+          label: formatBucketLabel(bucket, granularity),
+          due: counts.due,
+          scheduledCollected: counts.scheduledCollected,
+          efficiency: counts.due > 0 ? counts.scheduledCollected / counts.due : null,
+        };
+      }),
+      ...toMetrics(officerCounts, officerActive, officerPar, totalAtRisk),
+    };
+  });
+
+  // Officers with nothing due rank after everyone else, by amount collected
+  scorecards.sort(
+    (a, b) =>
+      (b.efficiency ?? -1) - (a.efficiency ?? -1) || b.collected - a.collected || a.officerName.localeCompare(b.officerName),
+  );
+  scorecards.forEach((scorecard, index) => {
+    scorecard.rank = index + 1;
+  });
+
+  const officersAtRisk = scorecards.reduce((sum, s) => sum + s.parAtRisk, 0);
+  const officersOutstanding = scorecards.reduce((sum, s) => sum + s.parOutstanding, 0);
+
+  return {
+    from: input.from,
+    to: input.to,
+    parAsOf,
+    granularity,
+    officerCount: scorecards.length,
+    totals: toMetrics(totalCounts, totalActive, { outstanding: officersOutstanding, atRisk: officersAtRisk }, totalAtRisk),
+    officers: input.officerId ? scorecards.filter((s) => s.officerId === input.officerId) : scorecards,
+  };
+}
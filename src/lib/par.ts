@@ -0,0 +1,218 @@
+import { BalanceUpdateType, LoanStatus, MemberStatus } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { addBusinessDays, formatDateYMDManila, getManilaBusinessDate } from "@/lib/date";
+import { allocateScheduleStatus } from "@/lib/loans";
+import { branchMemberWhere } from "@/lib/branches";
+
+export const PAR_BUCKETS = [
+  { key: "current", label: "Current", minDays: 0, maxDays: 0 },
+  { key: "par1to7", label: "PAR 1-7", minDays: 1, maxDays: 7 },
+  { key: "par8to30", label: "PAR 8-30", minDays: 8, maxDays: 30 },
+  { key: "par31to60", label: "PAR 31-60", minDays: 31, maxDays: 60 },
+  { key: "par61to90", label: "PAR 61-90", minDays: 61, maxDays: 90 },
+  { key: "par90plus", label: "PAR 90+", minDays: 91, maxDays: null },
+] as const;
+
+export type ParBucketKey = (typeof PAR_BUCKETS)[number]["key"];
+
+export type ParBucketTotals = Record<ParBucketKey, { count: number; amount: number }>;
+
+export type ParRow = {
+  id: string | null;
+  name: string;
+  memberCount: number;
+  outstanding: number;
+  atRisk: number;
+  parRatio: number;
+  buckets: ParBucketTotals;
+};
+
+export type ParMemberRow = {
+  memberId: string;
+  name: string;
+  groupName: string;
+  officerName: string;
+  outstanding: number;
+  daysPastDue: number;
+  bucket: ParBucketKey;
+  basis: "SCHEDULE" | "LAST_PAYMENT";
+};
+
+export type ParReportData = {
+  asOf: string;
+  totals: ParRow;
+  groups: ParRow[];
+  officers: ParRow[];
+  /** Delinquent members only, most overdue first. */
+  members: ParMemberRow[];
+};
+
+function emptyBuckets(): ParBucketTotals {
+  return Object.fromEntries(
+    PAR_BUCKETS.map((b) => [b.key, { count: 0, amount: 0 }]),
+  ) as ParBucketTotals;
+}
+
+function emptyRow(id: string | null, name: string): ParRow {
+  return { id, name, memberCount: 0, outstanding: 0, atRisk: 0, parRatio: 0, buckets: emptyBuckets() };
+}
+
+function addToRow(row: ParRow, bucket: ParBucketKey, amount: number) {
+  row.memberCount += 1;
+  row.outstanding += amount;
+  if (bucket !== "current") row.atRisk += amount;
+  row.buckets[bucket].count += 1;
+  row.buckets[bucket].amount += amount;
+}
+
+function finalizeRow(row: ParRow): ParRow {
+  return { ...row, parRatio: row.outstanding > 0 ? row.atRisk / row.outstanding : 0 };
+}
+
+function daysBetween(fromYmd: string, toYmd: string): number {
+  return Math.round((Date.parse(toYmd) - Date.parse(fromYmd)) / 86_400_000);
+}
+
+export function getParBucket(daysPastDue: number): ParBucketKey {
+  const bucket = PAR_BUCKETS.find(
+    (b) => daysPastDue >= b.minDays && (b.maxDays === null || daysPastDue <= b.maxDays),
+  );
+  return bucket?.key ?? "current";
+}
+
+/**
+ * Buckets the outstanding balance of every ACTIVE member by days past due.
+ *
+ * Members with an open loan schedule are aged from their oldest unpaid installment.
+ * Everyone else is aged from the business day after their last DEDUCT (or their
+ * latest release / join date when they have never paid).
+ */
+export async function getParReportData(
+  asOf: Date = getManilaBusinessDate(),
+  options: { branchIds?: string[] | null } = {},
+): Promise<ParReportData> {
+  const asOfYmd = formatDateYMDManila(asOf);
+
+  const [members, lastPayments, lastReleases] = await Promise.all([
+    prisma.member.findMany({
+      where: { status: MemberStatus.ACTIVE, balance: { gt: 0 }, ...branchMemberWhere(options.branchIds ?? null) },
+      orderBy: [{ lastName: "asc" }, { firstName: "asc" }],
+      select: {
+        id: true,
+        firstName: true,
+        lastName: true,
+        balance: true,
+        createdAt: true,
+        group: {
+          select: {
+            id: true,
+            name: true,
+            collectionOfficer: { select: { id: true, firstName: true, lastName: true } },
+          },
+        },
+        loans: {
+          where: { status: LoanStatus.OPEN },
+          select: {
+            totalPayable: true,
+            outstandingBalance: true,
+            installments: {
+              orderBy: { sequence: "asc" },
+              select: { dueDate: true, amountDue: true },
+            },
+          },
+        },
+      },
+    }),
+    prisma.balanceAdjustment.groupBy({
+      by: ["memberId"],
+      where: { type: BalanceUpdateType.DEDUCT, reversalOfId: null, reversal: { is: null } },
+      _max: { createdAt: true },
+    }),
+    prisma.activeRelease.groupBy({
+      by: ["memberId"],
+      _max: { releaseDate: true },
+    }),
+  ]);
+
+  const lastPaymentByMember = new Map(lastPayments.map((r) => [r.memberId, r._max.createdAt]));
+  const lastReleaseByMember = new Map(lastReleases.map((r) => [r.memberId, r._max.releaseDate]));
+
+  const totals = emptyRow(null, "All");
+  const groups = new Map<string, ParRow>();
+  const officers = new Map<string, ParRow>();
+  const memberRows: ParMemberRow[] = [];
+
+  for (const member of members) {
+    const outstanding = Number(member.balance);
+    const scheduledLoans = member.loans.filter((l) => l.installments.length > 0);
+
+    let daysPastDue = 0;
+    let basis: ParMemberRow["basis"];
+
+    if (scheduledLoans.length > 0) {
+      basis = "SCHEDULE";
+      for (const loan of scheduledLoans) {
+        const rows = allocateScheduleStatus(
+          loan.installments.map((i) => ({ dueDate: i.dueDate, amountDue: Number(i.amountDue) })),
+          Number(loan.totalPayable.minus(loan.outstandingBalance)),
+          asOf,
+        );
+        const firstUnpaid = rows.find((r) => r.paidAmount < r.amountDue);
+        if (!firstUnpaid) continue;
+        const dueYmd = formatDateYMDManila(firstUnpaid.dueDate);
+        if (dueYmd < asOfYmd) {
+          daysPastDue = Math.max(daysPastDue, daysBetween(dueYmd, asOfYmd));
+        }
+      }
+    } else {
+      basis = "LAST_PAYMENT";
+      const reference =
+        lastPaymentByMember.get(member.id) ?? lastReleaseByMember.get(member.id) ?? member.createdAt;
+      const referenceYmd = formatDateYMDManila(reference);
+      const expectedYmd = formatDateYMDManila(
+        addBusinessDays(new Date(`${referenceYmd}T12:00:00.000+08:00`), 1),
+      );
+      if (expectedYmd < asOfYmd) {
+        daysPastDue = daysBetween(expectedYmd, asOfYmd);
+      }
+    }
+
+    const bucket = getParBucket(daysPastDue);
+    const groupName = member.group?.name ?? "No Group";
+    const officer = member.group?.collectionOfficer ?? null;
+    const officerName = officer ? `${officer.lastName}, ${officer.firstName}` : "Unassigned";
+
+    addToRow(totals, bucket, outstanding);
+
+    const groupKey = member.group?.id ?? "";
+    if (!groups.has(groupKey)) groups.set(groupKey, emptyRow(member.group?.id ?? null, groupName));
+    addToRow(groups.get(groupKey)!, bucket, outstanding);
+
+    const officerKey = officer?.id ?? "";
+    if (!officers.has(officerKey)) officers.set(officerKey, emptyRow(officer?.id ?? null, officerName));
+    addToRow(officers.get(officerKey)!, bucket, outstanding);
+
+    memberRows.push({
+      memberId: member.id,
+      name: `${member.lastName}, ${member.firstName}`,
+      groupName,
+      officerName,
+      outstanding,
+      daysPastDue,
+      bucket,
+      basis,
+    });
+  }
+
+  const byName = (a: ParRow, b: ParRow) => a.name.localeCompare(b.name);
+
+  return {
+    asOf: asOfYmd,
+    totals: finalizeRow(totals),
+    groups: [...groups.values()].map(finalizeRow).sort(byName),
+    officers: [...officers.values()].map(finalizeRow).sort(byName),
+    members: memberRows
+      .filter((m) => m.daysPastDue > 0)
+      .sort((a, b) => b.daysPastDue - a.daysPastDue || b.outstanding - a.outstanding),
+  };
+}
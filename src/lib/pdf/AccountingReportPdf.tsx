@@ -7,11 +7,14 @@ import {
   Text,
   View,
 } from "@react-pdf/renderer";
+import { type AccountingReportData } from "@/lib/accounting";
 import {
-  DAILY_EXPENSE_FIELDS,
-  PAYMENT_MANUAL_FIELDS,
-  type AccountingReportData,
-} from "@/lib/accounting";
+  ACCOUNTING_LINE_SECTION_FIELDS,
+  getVisibleLineItems,
+  type AccountingLineItemConfig,
+} from "@/lib/accounting-line-items";
+import { getVisibleBankAccounts } from "@/lib/bank-accounts";
+import { CASH_DENOMINATIONS } from "@/lib/cash-count";
 
 export type AccountingPdfData = AccountingReportData & {
   companyName?: string;
@@ -191,6 +194,48 @@ const styles = StyleSheet.create({
     textAlign: "right",
     fontFamily: "Helvetica-Bold",
   },
+  cashCountBox: {
+    marginTop: 6,
+    borderWidth: 1,
+    borderColor: "#0f172a",
+    borderRadius: 6,
+    overflow: "hidden",
+  },
+  cashCountBody: {
+    flexDirection: "row",
+  },
+  cashDenominations: {
+    flex: 2,
+    flexDirection: "row",
+    flexWrap: "wrap",
+    borderRightWidth: 1,
+    borderRightColor: "#cbd5e1",
+  },
+  cashDenominationItem: {
+    width: "14.2857%",
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  cashSummary: {
+    flex: 1,
+    paddingHorizontal: 6,
+    paddingVertical: 3,
+    gap: 2,
+  },
+  cashSummaryRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+  },
+  cashVarianceShort: {
+    fontFamily: "Helvetica-Bold",
+    color: "#b91c1c",
+  },
+  cashVarianceOver: {
+    fontFamily: "Helvetica-Bold",
+    color: "#92400e",
+  },
   footer: {
     width: "92%",
     alignSelf: "center",
@@ -238,6 +283,13 @@ function formatMoney(value: number) {
   });
 }
 
+function formatCash(value: number) {
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+}
+
 function renderSection(
   title: string,
   description: string,
@@ -268,6 +320,22 @@ function renderSection(
 }
 
 export function AccountingReportPdf({ data }: { data: AccountingPdfData }) {
+  const toManualRows = (section: AccountingLineItemConfig["section"]) =>
+    getVisibleLineItems(data.lineItems, data.manualData, section).map((item) => ({
+      key: item.key,
+      label: item.label,
+      value: data.manualData[ACCOUNTING_LINE_SECTION_FIELDS[section]][item.key] ?? 0,
+      manual: true,
+    }));
+
+  const toBankRows = (field: "deposit" | "withdrawal", prefix: string) =>
+    getVisibleBankAccounts(data.bankAccounts, data.manualData.bankTransactions).map((account) => ({
+      key: `${field}-${account.id}`,
+      label: `${prefix}-${account.name}`,
+      value: data.manualData.bankTransactions.find((e) => e.bankAccountId === account.id)?.[field] ?? 0,
+      manual: true,
+    }));
+
   const receiptsRows = [
     {
       key: "openingBalance",
@@ -280,11 +348,9 @@ export function AccountingReportPdf({ data }: { data: AccountingPdfData }) {
     { key: "processingFee", label: "PF", value: data.computedTotals.processingFee },
     { key: "passbook", label: "Passbook", value: data.computedTotals.passbook },
     { key: "membershipFee", label: "Mem Fee", value: data.computedTotals.membershipFee },
-    { key: "cashAdvance", label: "CASH ADVANCE", value: data.manualData.receipts.cashAdvance, manual: true },
     { key: "loanInsurance", label: "Loan Insurance", value: data.computedTotals.loanInsurance },
-    { key: "ftIn", label: "FT(IN)", value: data.manualData.receipts.ftIn, manual: true },
-    { key: "bankWithdrawal1", label: "Bank wdl.-DFOB1", value: data.manualData.receipts.bankWithdrawal1, manual: true },
-    { key: "bankWithdrawal2", label: "Bank wdl.-DFOB2", value: data.manualData.receipts.bankWithdrawal2, manual: true },
+    ...toManualRows("RECEIPTS"),
+    ...toBankRows("withdrawal", "Bank wdl."),
   ];
 
   const paymentRows = [
@@ -299,30 +365,13 @@ export function AccountingReportPdf({ data }: { data: AccountingPdfData }) {
       label: "Mgmt. Exp.",
       value: data.view.managementExpense,
     },
-    { key: "otherPay", label: "Other Pay", value: data.manualData.payments.otherPay, manual: true },
-    { key: "ftOut", label: "FT(OUT)", value: data.manualData.payments.ftOut, manual: true },
-    ...PAYMENT_MANUAL_FIELDS.filter((field) => field.key.startsWith("bankDeposit")).map((field) => ({
-      key: field.key,
-      label: field.label,
-      value: data.manualData.payments[field.key],
-      manual: true,
-    })),
-    ...PAYMENT_MANUAL_FIELDS.filter((field) => field.key.startsWith("bankTransaction")).map((field) => ({
-      key: field.key,
-      label: field.label,
-      value: data.manualData.payments[field.key],
-      manual: true,
-    })),
+    ...toManualRows("PAYMENTS"),
+    ...toBankRows("deposit", "Bank depo"),
     { key: "bankDepositTotal", label: "Bank Deposit Total", value: data.view.bankDepositTotal },
     { key: "closingBalance", label: "Closing Balance", value: data.view.closingBalance },
   ];
 
-  const expenseRows = DAILY_EXPENSE_FIELDS.map((field) => ({
-    key: field.key,
-    label: field.label,
-    value: data.manualData.dailyExpenses[field.key],
-    manual: true,
-  }));
+  const expenseRows = toManualRows("DAILY_EXPENSES");
 
   const computedSummaryRows = [
     { key: "loanCollection", label: "Loan Collection Current", value: data.computedTotals.loanCollection },
@@ -385,6 +434,58 @@ export function AccountingReportPdf({ data }: { data: AccountingPdfData }) {
             data.view.dailyExpensesTotal,
           )}
           </View>
+          {data.cashCount ? (
+            <View style={styles.cashCountBox}>
+              <View style={styles.sectionHeader}>
+                <Text style={styles.sectionTitle}>Cash Count</Text>
+              </View>
+              <View style={styles.cashCountBody}>
+                <View style={styles.cashDenominations}>
+                  {CASH_DENOMINATIONS.map((d) => (
+                    <View key={d.key} style={styles.cashDenominationItem}>
+                      <Text style={styles.summaryItemLabel}>
+                        {d.kind === "BILL" ? "Bill" : "Coin"} {d.label} x {data.cashCount?.counts[d.key] ?? 0}
+                      </Text>
+                      <Text>{formatCash(d.value * (data.cashCount?.counts[d.key] ?? 0))}</Text>
+                    </View>
+                  ))}
+                </View>
+                <View style={styles.cashSummary}>
+                  <View style={styles.cashSummaryRow}>
+                    <Text>Cash Counted</Text>
+                    <Text>{formatCash(data.cashCount.countedTotal)}</Text>
+                  </View>
+                  <View style={styles.cashSummaryRow}>
+                    <Text>Closing Balance</Text>
+                    <Text>{formatCash(data.cashCount.expectedBalance)}</Text>
+                  </View>
+                  <View style={styles.cashSummaryRow}>
+                    <Text>
+                      {data.cashCount.variance < 0
+                        ? "Shortage"
+                        : data.cashCount.variance > 0
+                          ? "Overage"
+                          : "Variance"}
+                    </Text>
+                    <Text
+                      style={
+                        data.cashCount.variance < 0
+                          ? styles.cashVarianceShort
+                          : data.cashCount.variance > 0
+                            ? styles.cashVarianceOver
+                            : undefined
+                      }
+                    >
+                      {formatCash(data.cashCount.variance)}
+                    </Text>
+                  </View>
+                  {data.cashCount.explanation ? (
+                    <Text style={styles.sectionDescription}>{data.cashCount.explanation}</Text>
+                  ) : null}
+                </View>
+              </View>
+            </View>
+          ) : null}
         </View>
 
         <View style={styles.footer} wrap={false}>
@@ -0,0 +1,204 @@
+import React from "react";
+import {
+  Document,
+  Image as PdfImage,
+  Page,
+  StyleSheet,
+  Text,
+  View,
+} from "@react-pdf/renderer";
+import { type AccountingRollupData } from "@/lib/accounting-rollup";
+
+export type AccountingRollupPdfData = AccountingRollupData & {
+  companyName?: string;
+  logoUrl?: any;
+};
+
+/** Day columns per page; longer ranges continue on the next page. */
+const DAYS_PER_PAGE = 16;
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 28,
+    paddingBottom: 20,
+    paddingHorizontal: 24,
+    fontSize: 6,
+    fontFamily: "Helvetica",
+    backgroundColor: "#ffffff",
+  },
+  header: {
+    marginBottom: 8,
+    textAlign: "center",
+  },
+  brandRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 4,
+    marginBottom: 2,
+  },
+  logo: {
+    width: 28,
+    height: 28,
+    objectFit: "contain",
+  },
+  companyName: {
+    fontSize: 9,
+    fontFamily: "Helvetica-Bold",
+  },
+  title: {
+    fontSize: 10,
+    fontFamily: "Helvetica-Bold",
+  },
+  subtitle: {
+    marginTop: 1,
+    fontSize: 7,
+  },
+  balances: {
+    flexDirection: "row",
+    justifyContent: "center",
+    gap: 16,
+    marginTop: 3,
+    fontSize: 7,
+    fontFamily: "Helvetica-Bold",
+  },
+  table: {
+    borderWidth: 1,
+    borderColor: "#0f172a",
+  },
+  headRow: {
+    flexDirection: "row",
+    backgroundColor: "#e2e8f0",
+    borderBottomWidth: 1,
+    borderBottomColor: "#0f172a",
+    fontFamily: "Helvetica-Bold",
+  },
+  sectionRow: {
+    flexDirection: "row",
+    backgroundColor: "#f1f5f9",
+    borderBottomWidth: 1,
+    borderBottomColor: "#94a3b8",
+    fontFamily: "Helvetica-Bold",
+  },
+  row: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#e2e8f0",
+  },
+  emphasisRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#cbd5e1",
+    fontFamily: "Helvetica-Bold",
+  },
+  labelCell: {
+    width: 96,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRightWidth: 1,
+    borderRightColor: "#cbd5e1",
+  },
+  dayCell: {
+    flex: 1,
+    paddingHorizontal: 2,
+    paddingVertical: 2,
+    textAlign: "right",
+    borderRightWidth: 1,
+    borderRightColor: "#e2e8f0",
+  },
+  totalCell: {
+    width: 56,
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    textAlign: "right",
+    fontFamily: "Helvetica-Bold",
+    backgroundColor: "#f8fafc",
+  },
+  generatedText: {
+    marginTop: 6,
+    textAlign: "right",
+    fontSize: 6,
+    color: "#475569",
+  },
+});
+
+function formatMoney(value: number) {
+  if (!value) return "";
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 0,
+  });
+}
+
+function chunkDays(days: string[]) {
+  const chunks: { start: number; days: string[] }[] = [];
+  for (let start = 0; start < days.length; start += DAYS_PER_PAGE) {
+    chunks.push({ start, days: days.slice(start, start + DAYS_PER_PAGE) });
+  }
+  return chunks.length ? chunks : [{ start: 0, days: [] }];
+}
+
+export function AccountingRollupPdf({ data }: { data: AccountingRollupPdfData }) {
+  const chunks = chunkDays(data.days);
+
+  return (
+    <Document>
+      {chunks.map((chunk, pageIndex) => (
+        <Page key={chunk.start} size="LEGAL" orientation="landscape" style={styles.page}>
+          <View style={styles.header}>
+            <View style={styles.brandRow}>
+              {data.logoUrl ? <PdfImage src={data.logoUrl} style={styles.logo} /> : null}
+              <Text style={styles.companyName}>{data.companyName ?? "Triple E Microfinance"}</Text>
+            </View>
+            <Text style={styles.title}>Accounting Period Summary</Text>
+            <Text style={styles.subtitle}>
+              {data.from} to {data.to}
+              {chunks.length > 1 ? `  (page ${pageIndex + 1} of ${chunks.length})` : ""}
+            </Text>
+            <View style={styles.balances}>
+              <Text>Opening Balance: {formatMoney(data.openingBalance) || "0"}</Text>
+              <Text>Closing Balance: {formatMoney(data.closingBalance) || "0"}</Text>
+            </View>
+          </View>
+
+          <View style={styles.table}>
+            <View style={styles.headRow} fixed>
+              <Text style={styles.labelCell}>Line</Text>
+              {chunk.days.map((day) => (
+                <Text key={day} style={styles.dayCell}>
+                  {day.slice(5)}
+                </Text>
+              ))}
+              <Text style={styles.totalCell}>Period</Text>
+            </View>
+
+            {data.sections.map((section) => (
+              <View key={section.key}>
+                <View style={styles.sectionRow} wrap={false}>
+                  <Text style={styles.labelCell}>{section.title}</Text>
+                  {chunk.days.map((day) => (
+                    <Text key={day} style={styles.dayCell} />
+                  ))}
+                  <Text style={styles.totalCell} />
+                </View>
+                {section.rows.map((row) => (
+                  <View key={row.key} style={row.emphasis ? styles.emphasisRow : styles.row} wrap={false}>
+                    <Text style={styles.labelCell}>{row.label}</Text>
+                    {chunk.days.map((day, index) => (
+                      <Text key={day} style={styles.dayCell}>
+                        {formatMoney(row.values[chunk.start + index] ?? 0)}
+                      </Text>
+                    ))}
+                    <Text style={styles.totalCell}>{formatMoney(row.total)}</Text>
+                  </View>
+                ))}
+              </View>
+            ))}
+          </View>
+
+          <Text style={styles.generatedText}>Generated Triple E Monitoring System</Text>
+        </Page>
+      ))}
+    </Document>
+  );
+}
@@ -138,6 +138,10 @@ interface ReportData {
     totalPayments: number;
     totalSavings: number;
   };
+  /** Collection officer assigned on each day column (date -> name) */
+  dayOfficers?: Record<string, string>;
+  /** Payments and savings credited to each officer over the report's days */
+  officerTotals?: Array<{ officerName: string; totalPayments: number; totalSavings: number }>;
   companyName?: string;
   logoUrl?: any;
 }
@@ -441,7 +445,31 @@ export const CollectionReportPdf = ({ data }: { data: ReportData }) => {
                 </View>
               </View>
             )}
+
+            {/* Officer Row */}
+            {pageIndex === memberChunks.length - 1 && data.dayOfficers && (
+              <View style={styles.tableRow}>
+                <View style={[styles.tableCell, { width: '32%' }]}>
+                  <Text style={styles.bold}>COLLECTION OFFICER:</Text>
+                </View>
+                {dayColumns.map((date) => (
+                  <View key={date} style={[styles.tableCell, { width: `${dayWidth * 2}%`, fontSize: 6 }]}>
+                    <Text>{data.dayOfficers?.[date] ?? '-'}</Text>
+                  </View>
+                ))}
+                <View style={[styles.tableCell, { width: `${feeWidth * 4 + fwdWidth * 2}%` }]}>
+                  <Text />
+                </View>
+              </View>
+            )}
             </View>
+            {pageIndex === memberChunks.length - 1 && data.officerTotals && data.officerTotals.length > 1 && (
+              <Text style={styles.footer}>
+                {data.officerTotals
+                  .map((o) => `${o.officerName}: payments ${formatMoney(o.totalPayments) || '0'}, savings ${formatMoney(o.totalSavings) || '0'}`)
+                  .join('  |  ')}
+              </Text>
+            )}
           </View>
         </Page>
       ))}
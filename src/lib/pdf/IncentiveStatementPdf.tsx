@@ -0,0 +1,279 @@
+import React from "react";
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  StyleSheet,
+  Image as PdfImage,
+} from "@react-pdf/renderer";
+import type { IncentiveReport, IncentiveStatement } from "@/lib/incentives";
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 32,
+    paddingBottom: 32,
+    paddingHorizontal: 36,
+    fontSize: 9,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    marginBottom: 14,
+    textAlign: "center",
+  },
+  brandRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 4,
+    marginBottom: 2,
+  },
+  logo: {
+    width: 32,
+    height: 32,
+    objectFit: "contain",
+  },
+  logoPlaceholder: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderColor: "#000",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  companyName: {
+    fontSize: 10,
+    fontFamily: "Helvetica-Bold",
+  },
+  title: {
+    fontSize: 11,
+    fontFamily: "Helvetica-Bold",
+    marginTop: 2,
+  },
+  subtitle: {
+    fontSize: 9,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 9,
+    fontFamily: "Helvetica-Bold",
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  infoRow: {
+    flexDirection: "row",
+    marginBottom: 2,
+  },
+  infoLabel: {
+    width: 120,
+    color: "#444",
+  },
+  table: {
+    width: "100%",
+    borderWidth: 1,
+    borderColor: "#000",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#000",
+    minHeight: 16,
+    alignItems: "center",
+  },
+  tableHeaderRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#000",
+    backgroundColor: "#f0f0f0",
+    minHeight: 16,
+    alignItems: "center",
+  },
+  cell: {
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRightWidth: 1,
+    borderRightColor: "#000",
+    height: "100%",
+    justifyContent: "center",
+  },
+  cellTextRight: {
+    textAlign: "right",
+  },
+  bold: {
+    fontFamily: "Helvetica-Bold",
+  },
+  signatureRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 40,
+    paddingHorizontal: 20,
+  },
+  signatureBox: {
+    width: 150,
+    borderTopWidth: 1,
+    borderTopColor: "#000",
+    paddingTop: 2,
+    textAlign: "center",
+    fontSize: 8,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 14,
+    left: 36,
+    right: 36,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 7,
+  },
+});
+
+export interface IncentiveStatementPdfData {
+  report: IncentiveReport;
+  companyName?: string;
+  logoUrl?: any;
+}
+
+const formatMoney = (value: number) =>
+  value.toLocaleString("en-US", { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
+const widths = { rule: "30%", basis: "50%", amount: "20%" } as const;
+
+const InfoRow = ({ label, value }: { label: string; value: string }) => (
+  <View style={styles.infoRow}>
+    <Text style={styles.infoLabel}>{label}</Text>
+    <Text>{value}</Text>
+  </View>
+);
+
+const StatementPage = ({
+  statement,
+  report,
+  companyName,
+  logoUrl,
+}: {
+  statement: IncentiveStatement;
+  report: IncentiveReport;
+  companyName: string;
+  logoUrl?: any;
+}) => (
+  <Page size="A4" style={styles.page}>
+    <View style={styles.header}>
+      <View style={styles.brandRow}>
+        {logoUrl ? (
+          <PdfImage src={logoUrl} style={styles.logo} />
+        ) : (
+          <View style={styles.logoPlaceholder}>
+            <Text>LOGO</Text>
+          </View>
+        )}
+        <Text style={styles.companyName}>{companyName}</Text>
+      </View>
+      <Text style={styles.title}>Incentive Statement</Text>
+      <Text style={styles.subtitle}>
+        {report.monthLabel} ({report.from} to {report.to})
+      </Text>
+    </View>
+
+    <InfoRow label="Collection Officer" value={statement.employeeName} />
+    <InfoRow label="Groups" value={statement.groupNames.join(", ") || "None"} />
+
+    <Text style={styles.sectionTitle}>Basis</Text>
+    <InfoRow label="Collections" value={formatMoney(statement.metrics.collections)} />
+    <InfoRow label="New members" value={String(statement.metrics.newMembers)} />
+    <InfoRow
+      label="Releases"
+      value={`${statement.metrics.releaseCount} (${formatMoney(statement.metrics.releaseAmount)})`}
+    />
+    <InfoRow label={`PAR as of ${report.parAsOf}`} value={`${(statement.metrics.parRatio * 100).toFixed(1)}%`} />
+
+    <Text style={styles.sectionTitle}>Computation</Text>
+    <View style={styles.table}>
+      <View style={styles.tableHeaderRow}>
+        <View style={[styles.cell, { width: widths.rule }]}>
+          <Text style={styles.bold}>Rule</Text>
+        </View>
+        <View style={[styles.cell, { width: widths.basis }]}>
+          <Text style={styles.bold}>Basis</Text>
+        </View>
+        <View style={[styles.cell, { width: widths.amount, borderRightWidth: 0 }]}>
+          <Text style={[styles.bold, styles.cellTextRight]}>Amount</Text>
+        </View>
+      </View>
+      <View style={styles.tableRow}>
+        <View style={[styles.cell, { width: widths.rule }]}>
+          <Text>Base salary</Text>
+        </View>
+        <View style={[styles.cell, { width: widths.basis }]}>
+          <Text>Monthly rate</Text>
+        </View>
+        <View style={[styles.cell, { width: widths.amount, borderRightWidth: 0 }]}>
+          <Text style={styles.cellTextRight}>{formatMoney(statement.baseSalary)}</Text>
+        </View>
+      </View>
+      {statement.lines.map((line) => (
+        <View key={line.ruleId} style={styles.tableRow} wrap={false}>
+          <View style={[styles.cell, { width: widths.rule }]}>
+            <Text>{line.ruleName}</Text>
+          </View>
+          <View style={[styles.cell, { width: widths.basis }]}>
+            <Text>{line.basis}</Text>
+          </View>
+          <View style={[styles.cell, { width: widths.amount, borderRightWidth: 0 }]}>
+            <Text style={styles.cellTextRight}>{formatMoney(line.amount)}</Text>
+          </View>
+        </View>
+      ))}
+      <View style={styles.tableRow}>
+        <View style={[styles.cell, { width: "80%" }]}>
+          <Text style={styles.bold}>Total incentives</Text>
+        </View>
+        <View style={[styles.cell, { width: widths.amount, borderRightWidth: 0 }]}>
+          <Text style={[styles.bold, styles.cellTextRight]}>{formatMoney(statement.incentiveTotal)}</Text>
+        </View>
+      </View>
+      <View style={[styles.tableRow, { borderBottomWidth: 0 }]}>
+        <View style={[styles.cell, { width: "80%" }]}>
+          <Text style={styles.bold}>Total pay</Text>
+        </View>
+        <View style={[styles.cell, { width: widths.amount, borderRightWidth: 0 }]}>
+          <Text style={[styles.bold, styles.cellTextRight]}>{formatMoney(statement.totalPay)}</Text>
+        </View>
+      </View>
+    </View>
+
+    <View style={styles.signatureRow} wrap={false}>
+      <Text style={styles.signatureBox}>Prepared by</Text>
+      <Text style={styles.signatureBox}>Approved by</Text>
+      <Text style={styles.signatureBox}>Received by</Text>
+    </View>
+
+    <View style={styles.footer} fixed>
+      <Text>Generated Triple E Monitoring System</Text>
+      <Text>{statement.employeeName}</Text>
+    </View>
+  </Page>
+);
+
+export const IncentiveStatementPdf = ({ data }: { data: IncentiveStatementPdfData }) => {
+  const companyName = data.companyName ?? process.env.LMS_COMPANY_NAME ?? "Triple E Microfinance";
+
+  return (
+    <Document>
+      {data.report.statements.length === 0 ? (
+        <Page size="A4" style={styles.page}>
+          <Text>No collection officers found for {data.report.monthLabel}.</Text>
+        </Page>
+      ) : (
+        data.report.statements.map((statement) => (
+          <StatementPage
+            key={statement.employeeId}
+            statement={statement}
+            report={data.report}
+            companyName={companyName}
+            logoUrl={data.logoUrl}
+          />
+        ))
+      )}
+    </Document>
+  );
+};
@@ -86,8 +86,47 @@ const styles = StyleSheet.create({
     fontFamily: 'Helvetica-Bold',
     fontWeight: 'bold',
   },
+  schedulePage: {
+    paddingTop: 20,
+    paddingBottom: 20,
+    paddingHorizontal: 50,
+    fontSize: 7.2,
+    fontFamily: 'Helvetica',
+  },
+  scheduleTitle: {
+    fontSize: 9,
+    fontFamily: 'Helvetica-Bold',
+    marginBottom: 6,
+  },
+  scheduleRow: {
+    flexDirection: 'row',
+    borderBottomWidth: 1,
+    borderBottomColor: '#000',
+    minHeight: 12,
+    alignItems: 'center',
+  },
 });
 
+interface MemberReportScheduleRow {
+  sequence: number;
+  dueDate: string; // YYYY-MM-DD
+  principalDue: number;
+  interestDue: number;
+  amountDue: number;
+  paidAmount: number;
+  status: string;
+}
+
+interface MemberReportSchedule {
+  releaseDate: string; // YYYY-MM-DD
+  maturityDate: string; // YYYY-MM-DD
+  principal: number;
+  totalPayable: number;
+  outstandingBalance: number;
+  paymentFrequency: string;
+  rows: MemberReportScheduleRow[];
+}
+
 interface MemberReportData {
   memberInfo: {
     name: string;
@@ -103,6 +142,7 @@ interface MemberReportData {
   savings: Record<string, number>; // date -> amount
   totalPayments: number;
   totalSavings: number;
+  schedule?: MemberReportSchedule | null;
   companyName?: string;
   logoUrl?: any;
 }
@@ -112,6 +152,9 @@ const formatMoney = (amount: number) => {
   return amount.toLocaleString('en-US', { minimumFractionDigits: 0, maximumFractionDigits: 0 });
 };
 
+const formatMoney2 = (amount: number) =>
+  amount.toLocaleString('en-US', { minimumFractionDigits: 2, maximumFractionDigits: 2 });
+
 const formatDateHeader = (dateStr: string) => {
   const d = new Date(dateStr);
   return d.toLocaleDateString('en-US', { day: 'numeric', month: 'short' });
@@ -128,6 +171,7 @@ export const MemberReportPdf = ({ data }: { data: MemberReportData }) => {
     savings,
     totalPayments,
     totalSavings,
+    schedule,
   } = data;
   const companyName = data.companyName ?? (process.env.LMS_COMPANY_NAME || 'TRIPLE E Microfinance Inc.');
   const logoUrl = data.logoUrl ?? (process.env.LMS_COMPANY_LOGO_URL || '');
@@ -276,6 +320,58 @@ export const MemberReportPdf = ({ data }: { data: MemberReportData }) => {
         </View>
         </View>
       </Page>
+      {schedule && schedule.rows.length > 0 ? (
+        <Page size="LEGAL" orientation="landscape" style={styles.schedulePage}>
+          <Text style={styles.scheduleTitle}>AMORTIZATION SCHEDULE</Text>
+          <View style={styles.infoSection}>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Name</Text>
+              <Text style={styles.infoValue}>{memberInfo.name}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Released</Text>
+              <Text style={styles.infoValue}>
+                {schedule.releaseDate} (matures {schedule.maturityDate}, {schedule.paymentFrequency.toLowerCase()})
+              </Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Principal</Text>
+              <Text style={styles.infoValue}>{formatMoney2(schedule.principal)}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Total Payable</Text>
+              <Text style={styles.infoValue}>{formatMoney2(schedule.totalPayable)}</Text>
+            </View>
+            <View style={styles.infoRow}>
+              <Text style={styles.infoLabel}>Outstanding</Text>
+              <Text style={styles.infoValue}>{formatMoney2(schedule.outstandingBalance)}</Text>
+            </View>
+          </View>
+
+          <View style={styles.table}>
+            <View style={styles.tableHeaderRow} fixed>
+              <View style={[styles.tableCell, { width: '8%' }]}><Text style={styles.bold}>NO.</Text></View>
+              <View style={[styles.tableCell, { width: '16%' }]}><Text style={styles.bold}>DUE DATE</Text></View>
+              <View style={[styles.tableCell, { width: '15%' }]}><Text style={styles.bold}>PRINCIPAL</Text></View>
+              <View style={[styles.tableCell, { width: '15%' }]}><Text style={styles.bold}>INTEREST</Text></View>
+              <View style={[styles.tableCell, { width: '16%' }]}><Text style={styles.bold}>AMOUNT DUE</Text></View>
+              <View style={[styles.tableCell, { width: '15%' }]}><Text style={styles.bold}>PAID</Text></View>
+              <View style={[styles.tableCell, { width: '15%', borderRightWidth: 0 }]}><Text style={styles.bold}>STATUS</Text></View>
+            </View>
+            {schedule.rows.map((row) => (
+              <View key={row.sequence} style={styles.scheduleRow} wrap={false}>
+                <View style={[styles.tableCell, { width: '8%' }]}><Text>{row.sequence}</Text></View>
+                <View style={[styles.tableCell, { width: '16%' }]}><Text>{row.dueDate}</Text></View>
+                <View style={[styles.tableCell, { width: '15%', textAlign: 'right', paddingRight: 2 }]}><Text>{formatMoney2(row.principalDue)}</Text></View>
+                <View style={[styles.tableCell, { width: '15%', textAlign: 'right', paddingRight: 2 }]}><Text>{formatMoney2(row.interestDue)}</Text></View>
+                <View style={[styles.tableCell, { width: '16%', textAlign: 'right', paddingRight: 2 }]}><Text>{formatMoney2(row.amountDue)}</Text></View>
+                <View style={[styles.tableCell, { width: '15%', textAlign: 'right', paddingRight: 2 }]}><Text>{formatMoney2(row.paidAmount)}</Text></View>
+                <View style={[styles.tableCell, { width: '15%', borderRightWidth: 0 }]}><Text>{row.status}</Text></View>
+              </View>
+            ))}
+          </View>
+        </Page>
+      ) : null}
     </Document>
   );
 };
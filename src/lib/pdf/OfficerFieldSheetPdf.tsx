@@ -0,0 +1,319 @@
+import React from "react";
+import {
+  Document,
+  Page,
+  Text,
+  View,
+  StyleSheet,
+  Image as PdfImage,
+} from "@react-pdf/renderer";
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 28,
+    paddingBottom: 28,
+    paddingHorizontal: 28,
+    fontSize: 7,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    marginBottom: 10,
+    textAlign: "center",
+  },
+  brandRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 4,
+    marginBottom: 2,
+  },
+  logo: {
+    width: 32,
+    height: 32,
+    objectFit: "contain",
+  },
+  logoPlaceholder: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderColor: "#000",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  companyName: {
+    fontSize: 9,
+    fontFamily: "Helvetica-Bold",
+  },
+  title: {
+    fontSize: 10,
+    fontFamily: "Helvetica-Bold",
+    marginTop: 2,
+  },
+  subtitle: {
+    fontSize: 9,
+    marginTop: 2,
+  },
+  groupBlock: {
+    marginBottom: 12,
+  },
+  groupTitle: {
+    fontSize: 9,
+    fontFamily: "Helvetica-Bold",
+    marginBottom: 3,
+  },
+  table: {
+    width: "100%",
+    borderWidth: 1,
+    borderColor: "#000",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#000",
+    minHeight: 18,
+    alignItems: "center",
+  },
+  tableHeaderRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#000",
+    backgroundColor: "#f0f0f0",
+    minHeight: 16,
+    alignItems: "center",
+  },
+  cell: {
+    paddingHorizontal: 3,
+    paddingVertical: 2,
+    borderRightWidth: 1,
+    borderRightColor: "#000",
+    fontSize: 8,
+    height: "100%",
+    justifyContent: "center",
+  },
+  cellTextRight: {
+    textAlign: "right",
+  },
+  cellTextCenter: {
+    textAlign: "center",
+  },
+  bold: {
+    fontFamily: "Helvetica-Bold",
+  },
+  signatureRow: {
+    flexDirection: "row",
+    justifyContent: "space-between",
+    marginTop: 24,
+    paddingHorizontal: 40,
+  },
+  signatureBox: {
+    width: 180,
+    borderTopWidth: 1,
+    borderTopColor: "#000",
+    paddingTop: 2,
+    textAlign: "center",
+    fontSize: 8,
+  },
+  footer: {
+    position: "absolute",
+    bottom: 12,
+    left: 28,
+    right: 28,
+    flexDirection: "row",
+    justifyContent: "space-between",
+    fontSize: 7,
+  },
+});
+
+export interface FieldSheetMemberRow {
+  memberName: string;
+  balance: number;
+  expectedInstallment: number | null;
+  daysCount: number;
+  savings: number;
+  lastPaymentDate: string | null;
+}
+
+export interface FieldSheetGroup {
+  groupName: string;
+  members: FieldSheetMemberRow[];
+  totals: {
+    balance: number;
+    expectedInstallment: number;
+    savings: number;
+  };
+}
+
+export interface OfficerFieldSheetData {
+  officerName: string;
+  dateLabel: string;
+  groups: FieldSheetGroup[];
+  companyName?: string;
+  logoUrl?: any;
+}
+
+const formatMoney = (value: number) => {
+  if (!value) return "";
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 0,
+    maximumFractionDigits: 2,
+  });
+};
+
+const widths = {
+  no: "4%",
+  member: "18%",
+  balance: "9%",
+  installment: "8%",
+  days: "5%",
+  savings: "8%",
+  lastPayment: "9%",
+  payment: "9%",
+  savingsIn: "8%",
+  others: "8%",
+  signature: "14%",
+} as const;
+
+const HeaderRow = () => (
+  <View style={styles.tableHeaderRow} fixed>
+    <View style={[styles.cell, { width: widths.no }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>No.</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.member }]}>
+      <Text style={styles.bold}>Member</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.balance }]}>
+      <Text style={[styles.bold, styles.cellTextRight]}>Balance</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.installment }]}>
+      <Text style={[styles.bold, styles.cellTextRight]}>Installment</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.days }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>Days</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.savings }]}>
+      <Text style={[styles.bold, styles.cellTextRight]}>Savings</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.lastPayment }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>Last Payment</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.payment }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>Amount Paid</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.savingsIn }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>Savings In</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.others }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>Fees</Text>
+    </View>
+    <View style={[styles.cell, { width: widths.signature, borderRightWidth: 0 }]}>
+      <Text style={[styles.bold, styles.cellTextCenter]}>Signature</Text>
+    </View>
+  </View>
+);
+
+export const OfficerFieldSheetPdf = ({ data }: { data: OfficerFieldSheetData }) => {
+  const companyName = data.companyName ?? process.env.LMS_COMPANY_NAME ?? "Triple E Microfinance";
+
+  return (
+    <Document>
+      <Page size="LEGAL" orientation="landscape" style={styles.page}>
+        <View style={styles.header}>
+          <View style={styles.brandRow}>
+            {data.logoUrl ? (
+              <PdfImage src={data.logoUrl} style={styles.logo} />
+            ) : (
+              <View style={styles.logoPlaceholder}>
+                <Text>LOGO</Text>
+              </View>
+            )}
+            <Text style={styles.companyName}>{companyName}</Text>
+          </View>
+          <Text style={styles.title}>Field Collection Sheet</Text>
+          <Text style={styles.subtitle}>
+            Collection Officer: {data.officerName} | Date: {data.dateLabel}
+          </Text>
+        </View>
+
+        {data.groups.length === 0 ? (
+          <Text style={styles.cellTextCenter}>No groups are assigned to this collection officer.</Text>
+        ) : null}
+
+        {data.groups.map((group, groupIndex) => (
+          <View key={group.groupName + groupIndex} style={styles.groupBlock} break={groupIndex > 0}>
+            <Text style={styles.groupTitle}>
+              {group.groupName} ({group.members.length} active member{group.members.length === 1 ? "" : "s"})
+            </Text>
+            <View style={styles.table}>
+              <HeaderRow />
+              {group.members.map((row, index) => (
+                <View key={row.memberName + index} style={styles.tableRow} wrap={false}>
+                  <View style={[styles.cell, { width: widths.no }]}>
+                    <Text style={styles.cellTextCenter}>{index + 1}</Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.member }]}>
+                    <Text>{row.memberName}</Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.balance }]}>
+                    <Text style={styles.cellTextRight}>{formatMoney(row.balance)}</Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.installment }]}>
+                    <Text style={styles.cellTextRight}>
+                      {row.expectedInstallment === null ? "" : formatMoney(row.expectedInstallment)}
+                    </Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.days }]}>
+                    <Text style={styles.cellTextCenter}>{row.daysCount ? String(row.daysCount) : ""}</Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.savings }]}>
+                    <Text style={styles.cellTextRight}>{formatMoney(row.savings)}</Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.lastPayment }]}>
+                    <Text style={styles.cellTextCenter}>{row.lastPaymentDate ?? ""}</Text>
+                  </View>
+                  <View style={[styles.cell, { width: widths.payment }]} />
+                  <View style={[styles.cell, { width: widths.savingsIn }]} />
+                  <View style={[styles.cell, { width: widths.others }]} />
+                  <View style={[styles.cell, { width: widths.signature, borderRightWidth: 0 }]} />
+                </View>
+              ))}
+              <View style={[styles.tableRow, { borderBottomWidth: 0 }]} wrap={false}>
+                <View style={[styles.cell, { width: widths.no }]} />
+                <View style={[styles.cell, { width: widths.member }]}>
+                  <Text style={styles.bold}>Total</Text>
+                </View>
+                <View style={[styles.cell, { width: widths.balance }]}>
+                  <Text style={[styles.bold, styles.cellTextRight]}>{formatMoney(group.totals.balance)}</Text>
+                </View>
+                <View style={[styles.cell, { width: widths.installment }]}>
+                  <Text style={[styles.bold, styles.cellTextRight]}>
+                    {formatMoney(group.totals.expectedInstallment)}
+                  </Text>
+                </View>
+                <View style={[styles.cell, { width: widths.days }]} />
+                <View style={[styles.cell, { width: widths.savings }]}>
+                  <Text style={[styles.bold, styles.cellTextRight]}>{formatMoney(group.totals.savings)}</Text>
+                </View>
+                <View style={[styles.cell, { width: widths.lastPayment }]} />
+                <View style={[styles.cell, { width: widths.payment }]} />
+                <View style={[styles.cell, { width: widths.savingsIn }]} />
+                <View style={[styles.cell, { width: widths.others }]} />
+                <View style={[styles.cell, { width: widths.signature, borderRightWidth: 0 }]} />
+              </View>
+            </View>
+
+            <View style={styles.signatureRow} wrap={false}>
+              <Text style={styles.signatureBox}>Collection Officer</Text>
+              <Text style={styles.signatureBox}>Group Leader</Text>
+              <Text style={styles.signatureBox}>Received by (Cashier)</Text>
+            </View>
+          </View>
+        ))}
+
+        <View style={styles.footer} fixed>
+          <Text>Generated Triple E Monitoring System</Text>
+          <Text render={({ pageNumber, totalPages }) => `Page ${pageNumber} of ${totalPages}`} />
+        </View>
+      </Page>
+    </Document>
+  );
+};
@@ -0,0 +1,308 @@
+import React from "react";
+import {
+  Document,
+  Image as PdfImage,
+  Page,
+  StyleSheet,
+  Text,
+  View,
+} from "@react-pdf/renderer";
+import { PAR_BUCKETS, type ParReportData, type ParRow } from "@/lib/par";
+
+export type ParPdfData = ParReportData & {
+  companyName?: string;
+  logoUrl?: any;
+};
+
+const styles = StyleSheet.create({
+  page: {
+    paddingTop: 32,
+    paddingBottom: 24,
+    paddingHorizontal: 40,
+    fontSize: 7,
+    fontFamily: "Helvetica",
+  },
+  header: {
+    marginBottom: 14,
+    textAlign: "center",
+  },
+  brandRow: {
+    flexDirection: "row",
+    alignItems: "center",
+    justifyContent: "center",
+    gap: 4,
+    marginBottom: 2,
+  },
+  logo: {
+    width: 32,
+    height: 32,
+    objectFit: "contain",
+  },
+  logoPlaceholder: {
+    width: 32,
+    height: 32,
+    borderWidth: 1,
+    borderColor: "#000",
+    alignItems: "center",
+    justifyContent: "center",
+  },
+  companyName: {
+    fontSize: 9,
+    fontFamily: "Helvetica-Bold",
+  },
+  title: {
+    fontSize: 10,
+    fontFamily: "Helvetica-Bold",
+  },
+  subtitle: {
+    fontSize: 9,
+    marginTop: 2,
+  },
+  sectionTitle: {
+    fontSize: 9,
+    fontFamily: "Helvetica-Bold",
+    marginTop: 12,
+    marginBottom: 4,
+  },
+  table: {
+    width: "100%",
+    borderWidth: 1,
+    borderColor: "#000",
+  },
+  tableRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#000",
+    minHeight: 14,
+    alignItems: "center",
+  },
+  tableHeaderRow: {
+    flexDirection: "row",
+    borderBottomWidth: 1,
+    borderBottomColor: "#000",
+    backgroundColor: "#f0f0f0",
+    minHeight: 16,
+    alignItems: "center",
+  },
+  cell: {
+    paddingHorizontal: 4,
+    paddingVertical: 2,
+    borderRightWidth: 1,
+    borderRightColor: "#000",
+    fontSize: 8,
+  },
+  cellTextRight: {
+    textAlign: "right",
+  },
+  cellTextCenter: {
+    textAlign: "center",
+  },
+  bold: {
+    fontFamily: "Helvetica-Bold",
+  },
+});
+
+const formatMoney = (value: number) => {
+  if (!value) return "";
+  return value.toLocaleString("en-US", {
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+  });
+};
+
+const formatPercent = (ratio: number) => `${(ratio * 100).toFixed(2)}%`;
+
+const breakdownWidths = {
+  name: "18%",
+  members: "6%",
+  outstanding: "11%",
+  bucket: "9%",
+  par: "11%",
+} as const;
+
+function BreakdownTable({ title, rows, totals }: { title: string; rows: ParRow[]; totals: ParRow }) {
+  return (
+    <View>
+      <Text style={styles.sectionTitle}>{title}</Text>
+      <View style={styles.table}>
+        <View style={styles.tableHeaderRow} fixed>
+          <View style={[styles.cell, { width: breakdownWidths.name }]}>
+            <Text style={styles.bold}>Name</Text>
+          </View>
+          <View style={[styles.cell, { width: breakdownWidths.members }]}>
+            <Text style={[styles.bold, styles.cellTextCenter]}>Members</Text>
+          </View>
+          <View style={[styles.cell, { width: breakdownWidths.outstanding }]}>
+            <Text style={[styles.bold, styles.cellTextRight]}>Outstanding</Text>
+          </View>
+          {PAR_BUCKETS.map((b) => (
+            <View key={b.key} style={[styles.cell, { width: breakdownWidths.bucket }]}>
+              <Text style={[styles.bold, styles.cellTextRight]}>{b.label}</Text>
+            </View>
+          ))}
+          <View style={[styles.cell, { width: breakdownWidths.par, borderRightWidth: 0 }]}>
+            <Text style={[styles.bold, styles.cellTextRight]}>PAR %</Text>
+          </View>
+        </View>
+
+        {[...rows, totals].map((row, index) => {
+          const isTotal = index === rows.length;
+          const text = isTotal ? styles.bold : {};
+          return (
+            <View key={`${row.id ?? "none"}-${index}`} style={styles.tableRow} wrap={false}>
+              <View style={[styles.cell, { width: breakdownWidths.name }]}>
+                <Text style={text}>{isTotal ? "Total" : row.name}</Text>
+              </View>
+              <View style={[styles.cell, { width: breakdownWidths.members }]}>
+                <Text style={[text, styles.cellTextCenter]}>{row.memberCount}</Text>
+              </View>
+              <View style={[styles.cell, { width: breakdownWidths.outstanding }]}>
+                <Text style={[text, styles.cellTextRight]}>{formatMoney(row.outstanding)}</Text>
+              </View>
+              {PAR_BUCKETS.map((b) => (
+                <View key={b.key} style={[styles.cell, { width: breakdownWidths.bucket }]}>
+                  <Text style={[text, styles.cellTextRight]}>{formatMoney(row.buckets[b.key].amount)}</Text>
+                </View>
+              ))}
+              <View style={[styles.cell, { width: breakdownWidths.par, borderRightWidth: 0 }]}>
+                <Text style={[text, styles.cellTextRight]}>{formatPercent(row.parRatio)}</Text>
+              </View>
+            </View>
+          );
+        })}
+      </View>
+    </View>
+  );
+}
+
+export const ParReportPdf = ({ data }: { data: ParPdfData }) => {
+  const companyName = data.companyName ?? process.env.LMS_COMPANY_NAME ?? "Triple E Microfinance";
+  const { totals } = data;
+
+  return (
+    <Document>
+      <Page size="LEGAL" orientation="landscape" style={styles.page}>
+        <View style={styles.header}>
+          <View style={styles.brandRow}>
+            {data.logoUrl ? (
+              <PdfImage src={data.logoUrl} style={styles.logo} />
+            ) : (
+              <View style={styles.logoPlaceholder}>
+                <Text>LOGO</Text>
+              </View>
+            )}
+            <Text style={styles.companyName}>{companyName}</Text>
+          </View>
+          <Text style={styles.title}>Portfolio at Risk / Delinquency Aging</Text>
+          <Text style={styles.subtitle}>As of {data.asOf}</Text>
+        </View>
+
+        <Text style={styles.sectionTitle}>Summary</Text>
+        <View style={[styles.table, { width: "50%" }]}>
+          <View style={styles.tableHeaderRow}>
+            <View style={[styles.cell, { width: "34%" }]}>
+              <Text style={styles.bold}>Bucket</Text>
+            </View>
+            <View style={[styles.cell, { width: "18%" }]}>
+              <Text style={[styles.bold, styles.cellTextCenter]}>Members</Text>
+            </View>
+            <View style={[styles.cell, { width: "28%" }]}>
+              <Text style={[styles.bold, styles.cellTextRight]}>Outstanding</Text>
+            </View>
+            <View style={[styles.cell, { width: "20%", borderRightWidth: 0 }]}>
+              <Text style={[styles.bold, styles.cellTextRight]}>% of Portfolio</Text>
+            </View>
+          </View>
+          {PAR_BUCKETS.map((b) => (
+            <View key={b.key} style={styles.tableRow}>
+              <View style={[styles.cell, { width: "34%" }]}>
+                <Text>{b.label}</Text>
+              </View>
+              <View style={[styles.cell, { width: "18%" }]}>
+                <Text style={styles.cellTextCenter}>{totals.buckets[b.key].count}</Text>
+              </View>
+              <View style={[styles.cell, { width: "28%" }]}>
+                <Text style={styles.cellTextRight}>{formatMoney(totals.buckets[b.key].amount)}</Text>
+              </View>
+              <View style={[styles.cell, { width: "20%", borderRightWidth: 0 }]}>
+                <Text style={styles.cellTextRight}>
+                  {formatPercent(totals.outstanding > 0 ? totals.buckets[b.key].amount / totals.outstanding : 0)}
+                </Text>
+              </View>
+            </View>
+          ))}
+          <View style={styles.tableRow}>
+            <View style={[styles.cell, { width: "34%" }]}>
+              <Text style={styles.bold}>Total portfolio</Text>
+            </View>
+            <View style={[styles.cell, { width: "18%" }]}>
+              <Text style={[styles.bold, styles.cellTextCenter]}>{totals.memberCount}</Text>
+            </View>
+            <View style={[styles.cell, { width: "28%" }]}>
+              <Text style={[styles.bold, styles.cellTextRight]}>{formatMoney(totals.outstanding)}</Text>
+            </View>
+            <View style={[styles.cell, { width: "20%", borderRightWidth: 0 }]}>
+              <Text style={[styles.bold, styles.cellTextRight]}>PAR {formatPercent(totals.parRatio)}</Text>
+            </View>
+          </View>
+        </View>
+
+        <BreakdownTable title="By Collection Officer" rows={data.officers} totals={totals} />
+        <BreakdownTable title="By Group" rows={data.groups} totals={totals} />
+
+        <Text style={styles.sectionTitle}>Delinquent Members</Text>
+        <View style={styles.table}>
+          <View style={styles.tableHeaderRow} fixed>
+            <View style={[styles.cell, { width: "5%" }]}>
+              <Text style={[styles.bold, styles.cellTextCenter]}>No.</Text>
+            </View>
+            <View style={[styles.cell, { width: "25%" }]}>
+              <Text style={styles.bold}>Member</Text>
+            </View>
+            <View style={[styles.cell, { width: "20%" }]}>
+              <Text style={styles.bold}>Group</Text>
+            </View>
+            <View style={[styles.cell, { width: "20%" }]}>
+              <Text style={styles.bold}>Collection Officer</Text>
+            </View>
+            <View style={[styles.cell, { width: "10%" }]}>
+              <Text style={[styles.bold, styles.cellTextCenter]}>Days Past Due</Text>
+            </View>
+            <View style={[styles.cell, { width: "20%", borderRightWidth: 0 }]}>
+              <Text style={[styles.bold, styles.cellTextRight]}>Outstanding</Text>
+            </View>
+          </View>
+          {data.members.map((m, index) => (
+            <View key={m.memberId} style={styles.tableRow} wrap={false}>
+              <View style={[styles.cell, { width: "5%" }]}>
+                <Text style={styles.cellTextCenter}>{index + 1}</Text>
+              </View>
+              <View style={[styles.cell, { width: "25%" }]}>
+                <Text>{m.name}</Text>
+              </View>
+              <View style={[styles.cell, { width: "20%" }]}>
+                <Text>{m.groupName}</Text>
+              </View>
+              <View style={[styles.cell, { width: "20%" }]}>
+                <Text>{m.officerName}</Text>
+              </View>
+              <View style={[styles.cell, { width: "10%" }]}>
+                <Text style={styles.cellTextCenter}>{m.daysPastDue}</Text>
+              </View>
+              <View style={[styles.cell, { width: "20%", borderRightWidth: 0 }]}>
+                <Text style={styles.cellTextRight}>{formatMoney(m.outstanding)}</Text>
+              </View>
+            </View>
+          ))}
+          {data.members.length === 0 ? (
+            <View style={styles.tableRow}>
+              <View style={[styles.cell, { width: "100%", borderRightWidth: 0 }]}>
+                <Text style={styles.cellTextCenter}>No delinquent members.</Text>
+              </View>
+            </View>
+          ) : null}
+        </View>
+      </Page>
+    </Document>
+  );
+};
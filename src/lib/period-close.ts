@@ -0,0 +1,174 @@
+import { Prisma } from "@prisma/client";
+import { z } from "zod";
+import { freezeClosingBalances } from "@/lib/accounting";
+import { formatDateYMDManila, getManilaDateRange } from "@/lib/date";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Closed periods lock the ledger. While a close is active (not reopened), nothing
+ * dated inside it may be created, reverted or deleted: balance and savings
+ * adjustments, fees, releases and the accounting day itself.
+ *
+ * Dates are compared as Manila calendar days.
+ */
+
+export const ClosePeriodSchema = z
+  .object({
+    from: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+    to: z.string().regex(/^\d{4}-\d{2}-\d{2}$/),
+  })
+  .refine((v) => v.from <= v.to, { message: "Start date must be on or before end date" });
+
+export const ReopenPeriodSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+function toPeriodDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+/** First and last day of the month containing `ymd`. */
+export function getMonthBounds(ymd: string): { from: string; to: string } {
+  const [year, month] = ymd.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, month, 0)).getUTCDate();
+  const mm = String(month).padStart(2, "0");
+  return { from: `${year}-${mm}-01`, to: `${year}-${mm}-${String(lastDay).padStart(2, "0")}` };
+}
+
+export function serializePeriodClose(close: {
+  id: string;
+  periodStart: Date;
+  periodEnd: Date;
+  closedAt: Date;
+  closedBy?: { name: string } | null;
+}) {
+  return {
+    id: close.id,
+    periodStart: close.periodStart.toISOString().slice(0, 10),
+    periodEnd: close.periodEnd.toISOString().slice(0, 10),
+    closedAt: close.closedAt.toISOString(),
+    closedByName: close.closedBy?.name ?? null,
+  };
+}
+
+export type SerializedPeriodClose = ReturnType<typeof serializePeriodClose>;
+
+/** Returns the active close covering the Manila calendar day of `date`, if any. */
+export async function findActivePeriodClose(db: Db, date: Date) {
+  const day = toPeriodDate(formatDateYMDManila(date));
+  return db.accountingPeriodClose.findFirst({
+    where: {
+      reopenedAt: null,
+      periodStart: { lte: day },
+      periodEnd: { gte: day },
+    },
+    orderBy: { closedAt: "desc" },
+    include: { closedBy: { select: { name: true } } },
+  });
+}
+
+/**
+ * Throws PERIOD_CLOSED when any of the given dates falls in a closed period.
+ * Call it with the date the new ledger row will carry and, for reversals and
+ * deletions, the date of the original row.
+ */
+export async function assertPeriodOpen(db: Db, ...dates: (Date | null | undefined)[]) {
+  const days = [...new Set(dates.filter((d): d is Date => Boolean(d)).map(formatDateYMDManila))];
+  for (const ymd of days) {
+    if (await findActivePeriodClose(db, toPeriodDate(ymd))) {
+      throw new Error("PERIOD_CLOSED");
+    }
+  }
+}
+
+/**
+ * Throws PERIOD_CLOSED when the member has any ledger row inside an active close,
+ * which would disappear if the member were deleted.
+ */
+export async function assertMemberLedgerOpen(db: Db, memberId: string) {
+  const closes = await db.accountingPeriodClose.findMany({
+    where: { reopenedAt: null },
+    select: { periodStart: true, periodEnd: true },
+  });
+
+  for (const close of closes) {
+    const range = getManilaDateRange(
+      close.periodStart.toISOString().slice(0, 10),
+      close.periodEnd.toISOString().slice(0, 10),
+    );
+    const where = { memberId, createdAt: { gte: range.from, lte: range.to } };
+    const counts = await Promise.all([
+      db.balanceAdjustment.count({ where }),
+      db.savingsAdjustment.count({ where }),
+      db.processingFee.count({ where }),
+      db.passbookFee.count({ where }),
+      db.loanInsurance.count({ where }),
+      db.membershipFee.count({ where }),
+      db.activeRelease.count({ where: { memberId, releaseDate: { gte: range.from, lte: range.to } } }),
+    ]);
+    if (counts.some((n) => n > 0)) throw new Error("PERIOD_CLOSED");
+  }
+}
+
+export async function closeAccountingPeriod(
+  tx: Db,
+  input: { from: string; to: string; closedById: string },
+) {
+  const covering = await tx.accountingPeriodClose.findFirst({
+    where: {
+      reopenedAt: null,
+      periodStart: { lte: toPeriodDate(input.from) },
+      periodEnd: { gte: toPeriodDate(input.to) },
+    },
+    select: { id: true },
+  });
+  if (covering) throw new Error("PERIOD_ALREADY_CLOSED");
+
+  const frozenDays = await freezeClosingBalances(tx, input.from, input.to);
+
+  const close = await tx.accountingPeriodClose.create({
+    data: {
+      periodStart: toPeriodDate(input.from),
+      periodEnd: toPeriodDate(input.to),
+      closedById: input.closedById,
+    },
+  });
+
+  return { close, frozenDays };
+}
+
+export async function reopenAccountingPeriod(
+  tx: Db,
+  input: { id: string; reopenedById: string; reason: string },
+) {
+  const close = await tx.accountingPeriodClose.findUnique({ where: { id: input.id } });
+  if (!close) throw new Error("PERIOD_CLOSE_NOT_FOUND");
+  if (close.reopenedAt) throw new Error("PERIOD_ALREADY_REOPENED");
+
+  return tx.accountingPeriodClose.update({
+    where: { id: close.id },
+    data: {
+      reopenedById: input.reopenedById,
+      reopenedAt: new Date(),
+      reopenReason: input.reason,
+    },
+  });
+}
+
+/** Maps period close error codes to an HTTP status and message. */
+export function getPeriodCloseErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "PERIOD_CLOSED":
+      return { status: 409, error: "This accounting period is closed. A super admin must reopen it first." };
+    case "PERIOD_ALREADY_CLOSED":
+      return { status: 409, error: "This period is already closed" };
+    case "PERIOD_CLOSE_NOT_FOUND":
+      return { status: 404, error: "Closed period not found" };
+    case "PERIOD_ALREADY_REOPENED":
+      return { status: 409, error: "This period has already been reopened" };
+    default:
+      return null;
+  }
+}
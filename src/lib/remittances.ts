@@ -0,0 +1,441 @@
+import { Prisma, RemittanceCollectionType, RemittanceStatus } from "@prisma/client";
+import { z } from "zod";
+import { prisma } from "@/lib/db";
+import { formatDateYMD, getManilaDateRange } from "@/lib/date";
+import { applyLoanDeduction, getLoanErrorResponse } from "@/lib/loans";
+import { assertPeriodOpen } from "@/lib/period-close";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Collectors declare what each member paid in the field as one batch per group and
+ * business date. An encoder checks the batch against the cash turned in, corrects
+ * the amounts and posts it; only then do balances, savings and fees change. The
+ * declared and posted amounts are both kept, so the variance stays on record.
+ */
+
+export const REMITTANCE_COLLECTION_TYPES: { type: RemittanceCollectionType; label: string }[] = [
+  { type: RemittanceCollectionType.LOAN_PAYMENT, label: "Loan Payment" },
+  { type: RemittanceCollectionType.SAVINGS, label: "Savings" },
+  { type: RemittanceCollectionType.PROCESSING_FEE, label: "PF" },
+  { type: RemittanceCollectionType.PASSBOOK_FEE, label: "Passbook" },
+  { type: RemittanceCollectionType.MEMBERSHIP_FEE, label: "Mem Fee" },
+  { type: RemittanceCollectionType.LOAN_INSURANCE, label: "Loan Insurance" },
+];
+
+export const REMITTANCE_STATUS_LABELS: Record<RemittanceStatus, string> = {
+  PENDING: "Pending review",
+  POSTED: "Posted",
+  REJECTED: "Returned",
+};
+
+const amount = z.coerce.number().min(0).max(10_000_000);
+
+export const SubmitRemittanceSchema = z.object({
+  groupId: z.string().uuid(),
+  lines: z.array(
+    z.object({
+      memberId: z.string().uuid(),
+      type: z.enum(RemittanceCollectionType),
+      amount,
+    }),
+  ),
+});
+
+export const PostRemittanceSchema = z.object({
+  lines: z.array(z.object({ id: z.string().uuid(), amount })),
+  cashTurnedIn: amount,
+  note: z.string().trim().max(500).optional(),
+});
+
+export const RejectRemittanceSchema = z.object({
+  reason: z.string().trim().min(1).max(500),
+});
+
+function toRemittanceDate(ymd: string) {
+  return new Date(`${ymd}T12:00:00.000+08:00`);
+}
+
+function sumAmounts(values: number[]) {
+  return Math.round(values.reduce((sum, value) => sum + value, 0) * 100) / 100;
+}
+
+/**
+ * Creates the collector's batch for the group and day, or replaces the lines of a
+ * batch that is still pending or was returned. Zero amounts are dropped.
+ */
+export async function submitRemittanceBatch(
+  tx: Db,
+  input: {
+    groupId: string;
+    businessDate: Date;
+    lines: z.infer<typeof SubmitRemittanceSchema>["lines"];
+    userId: string;
+  },
+) {
+  await assertPeriodOpen(tx, input.businessDate);
+
+  const lines = input.lines.filter((line) => line.amount > 0);
+  if (lines.length === 0) throw new Error("REMITTANCE_EMPTY");
+
+  const memberIds = [...new Set(lines.map((line) => line.memberId))];
+  const members = await tx.member.count({ where: { id: { in: memberIds }, groupId: input.groupId } });
+  if (members !== memberIds.length) throw new Error("REMITTANCE_MEMBER_NOT_IN_GROUP");
+
+  const businessDate = toRemittanceDate(formatDateYMD(input.businessDate));
+  const existing = await tx.remittanceBatch.findUnique({
+    where: { groupId_businessDate: { groupId: input.groupId, businessDate } },
+    select: { id: true, status: true },
+  });
+  if (existing?.status === RemittanceStatus.POSTED) throw new Error("REMITTANCE_ALREADY_POSTED");
+
+  // Resubmitting must not reopen a batch a reviewer posted in the meantime
+  if (existing) {
+    const reopened = await tx.remittanceBatch.updateMany({
+      where: { id: existing.id, status: { not: RemittanceStatus.POSTED } },
+      data: { status: RemittanceStatus.PENDING },
+    });
+    if (reopened.count === 0) throw new Error("REMITTANCE_ALREADY_POSTED");
+  }
+
+  const data = {
+    status: RemittanceStatus.PENDING,
+    declaredTotal: new Prisma.Decimal(sumAmounts(lines.map((line) => line.amount))),
+    postedTotal: null,
+    cashTurnedIn: null,
+    variance: null,
+    reviewNote: null,
+    submittedById: input.userId,
+    submittedAt: new Date(),
+    reviewedById: null,
+    reviewedAt: null,
+  };
+
+  if (existing) {
+    await tx.remittanceLine.deleteMany({ where: { batchId: existing.id } });
+  }
+  const batch = existing
+    ? await tx.remittanceBatch.update({ where: { id: existing.id }, data })
+    : await tx.remittanceBatch.create({ data: { groupId: input.groupId, businessDate, ...data } });
+
+  await tx.remittanceLine.createMany({
+    data: lines.map((line) => ({
+      batchId: batch.id,
+      memberId: line.memberId,
+      type: line.type,
+      declaredAmount: new Prisma.Decimal(line.amount),
+    })),
+  });
+
+  return batch;
+}
+
+async function postLine(
+  tx: Db,
+  line: { memberId: string; type: RemittanceCollectionType },
+  amount: number,
+  context: { businessDate: Date; userId: string; dayRange: { from: Date; to: Date } },
+) {
+  const { businessDate, userId, dayRange } = context;
+
+  switch (line.type) {
+    case RemittanceCollectionType.LOAN_PAYMENT: {
+      const alreadyUpdated = await tx.balanceAdjustment.findFirst({
+        where: {
+          memberId: line.memberId,
+          createdAt: { gte: dayRange.from, lte: dayRange.to },
+          savingsOffset: { is: null },
+          reversalOfId: null,
+          reversal: { is: null },
+        },
+        select: { id: true },
+      });
+      if (alreadyUpdated) throw new Error("REMITTANCE_BALANCE_ALREADY_UPDATED");
+
+      const member = await tx.member.findUniqueOrThrow({
+        where: { id: line.memberId },
+        select: { balance: true, daysCount: true },
+      });
+      const balanceAfter = member.balance.minus(amount);
+      await tx.member.update({
+        where: { id: line.memberId },
+        data: { balance: balanceAfter, daysCount: member.daysCount + 1 },
+      });
+
+      const loanId = await applyLoanDeduction(tx, line.memberId, amount);
+      await tx.balanceAdjustment.create({
+        data: {
+          memberId: line.memberId,
+          encodedById: userId,
+          type: "DEDUCT",
+          amount,
+          balanceBefore: member.balance,
+          balanceAfter,
+          loanId,
+          createdAt: businessDate,
+        },
+      });
+      return member.daysCount + 1;
+    }
+    case RemittanceCollectionType.SAVINGS: {
+      const alreadyUpdated = await tx.savingsAdjustment.findFirst({
+        where: {
+          memberId: line.memberId,
+          createdAt: { gte: dayRange.from, lte: dayRange.to },
+          type: { not: "APPLY_TO_BALANCE" },
+          reversalOfId: null,
+          reversal: { is: null },
+        },
+        select: { id: true },
+      });
+      if (alreadyUpdated) throw new Error("REMITTANCE_SAVINGS_ALREADY_UPDATED");
+
+      const member = await tx.member.findUniqueOrThrow({
+        where: { id: line.memberId },
+        select: { savings: true },
+      });
+      const savingsAfter = member.savings.plus(amount);
+      await tx.member.update({ where: { id: line.memberId }, data: { savings: savingsAfter } });
+      await tx.savingsAdjustment.create({
+        data: {
+          memberId: line.memberId,
+          encodedById: userId,
+          type: "INCREASE",
+          amount,
+          savingsBefore: member.savings,
+          savingsAfter,
+          createdAt: businessDate,
+        },
+      });
+      return null;
+    }
+    case RemittanceCollectionType.PROCESSING_FEE:
+      await tx.processingFee.create({
+        data: { memberId: line.memberId, encodedById: userId, amount, createdAt: businessDate },
+      });
+      return null;
+    case RemittanceCollectionType.PASSBOOK_FEE:
+      await tx.passbookFee.create({
+        data: { memberId: line.memberId, encodedById: userId, amount, createdAt: businessDate },
+      });
+      return null;
+    case RemittanceCollectionType.MEMBERSHIP_FEE:
+      await tx.membershipFee.create({
+        data: { memberId: line.memberId, encodedById: userId, amount, createdAt: businessDate },
+      });
+      return null;
+    case RemittanceCollectionType.LOAN_INSURANCE:
+      await tx.loanInsurance.create({
+        data: { memberId: line.memberId, encodedById: userId, amount, createdAt: businessDate },
+      });
+      return null;
+  }
+}
+
+/**
+ * Posts a pending batch with the encoder's amounts, dated on the batch's business
+ * date. Lines left out of `input.lines` post as declared; lines set to zero post
+ * nothing. Returns the members whose day count reached 40.
+ */
+export async function postRemittanceBatch(
+  tx: Db,
+  input: z.infer<typeof PostRemittanceSchema> & { batchId: string; userId: string },
+) {
+  const pending = await tx.remittanceBatch.findUnique({
+    where: { id: input.batchId },
+    select: { status: true, submittedById: true, businessDate: true },
+  });
+  if (!pending) throw new Error("REMITTANCE_NOT_FOUND");
+  if (pending.status !== RemittanceStatus.PENDING) throw new Error("REMITTANCE_NOT_PENDING");
+  if (pending.submittedById === input.userId) throw new Error("REMITTANCE_SELF_REVIEW");
+
+  await assertPeriodOpen(tx, pending.businessDate);
+
+  // Claim the batch first so two reviewers cannot both post it, then read the lines it holds
+  const claimed = await tx.remittanceBatch.updateMany({
+    where: { id: input.batchId, status: RemittanceStatus.PENDING, submittedById: pending.submittedById },
+    data: { status: RemittanceStatus.POSTED, reviewedById: input.userId, reviewedAt: new Date() },
+  });
+  if (claimed.count === 0) throw new Error("REMITTANCE_NOT_PENDING");
+  const batch = await tx.remittanceBatch.findUniqueOrThrow({
+    where: { id: input.batchId },
+    include: { lines: true },
+  });
+
+  const ymd = batch.businessDate.toISOString().slice(0, 10);
+  const context = {
+    businessDate: toRemittanceDate(ymd),
+    userId: input.userId,
+    dayRange: getManilaDateRange(ymd, ymd),
+  };
+
+  const reachedFortyDays: string[] = [];
+  const postedAmounts: number[] = [];
+  for (const line of batch.lines) {
+    const override = input.lines.find((l) => l.id === line.id);
+    const posted = override ? Math.round(override.amount * 100) / 100 : Number(line.declaredAmount);
+    postedAmounts.push(posted);
+
+    await tx.remittanceLine.update({
+      where: { id: line.id },
+      data: { postedAmount: new Prisma.Decimal(posted) },
+    });
+    if (posted <= 0) continue;
+
+    const daysCount = await postLine(tx, line, posted, context);
+    if (daysCount !== null && daysCount >= 40) reachedFortyDays.push(line.memberId);
+  }
+
+  const postedTotal = sumAmounts(postedAmounts);
+  const updated = await tx.remittanceBatch.update({
+    where: { id: batch.id },
+    data: {
+      postedTotal: new Prisma.Decimal(postedTotal),
+      cashTurnedIn: new Prisma.Decimal(input.cashTurnedIn),
+      variance: new Prisma.Decimal(sumAmounts([postedTotal, -Number(batch.declaredTotal)])),
+      reviewNote: input.note || null,
+    },
+  });
+
+  return { batch: updated, reachedFortyDays };
+}
+
+/** Returns a pending batch to the collector with the reason; nothing is posted. */
+export async function rejectRemittanceBatch(tx: Db, input: { batchId: string; reason: string; userId: string }) {
+  const batch = await tx.remittanceBatch.findUnique({ where: { id: input.batchId }, select: { status: true } });
+  if (!batch) throw new Error("REMITTANCE_NOT_FOUND");
+  if (batch.status !== RemittanceStatus.PENDING) throw new Error("REMITTANCE_NOT_PENDING");
+
+  const claimed = await tx.remittanceBatch.updateMany({
+    where: { id: input.batchId, status: RemittanceStatus.PENDING },
+    data: {
+      status: RemittanceStatus.REJECTED,
+      reviewNote: input.reason,
+      reviewedById: input.userId,
+      reviewedAt: new Date(),
+    },
+  });
+  if (claimed.count === 0) throw new Error("REMITTANCE_NOT_PENDING");
+
+  return tx.remittanceBatch.findUniqueOrThrow({ where: { id: input.batchId } });
+}
+
+export type RemittanceBatchRow = {
+  id: string;
+  groupId: string;
+  groupName: string;
+  businessDate: string;
+  status: RemittanceStatus;
+  declaredTotal: number;
+  postedTotal: number | null;
+  cashTurnedIn: number | null;
+  variance: number | null;
+  reviewNote: string | null;
+  submittedById: string;
+  submittedByName: string;
+  submittedAt: string;
+  reviewedByName: string | null;
+  reviewedAt: string | null;
+};
+
+const BATCH_INCLUDE = {
+  group: { select: { name: true } },
+  submittedBy: { select: { name: true } },
+  reviewedBy: { select: { name: true } },
+} as const;
+
+function toBatchRow(
+  batch: Prisma.RemittanceBatchGetPayload<{ include: typeof BATCH_INCLUDE }>,
+): RemittanceBatchRow {
+  return {
+    id: batch.id,
+    groupId: batch.groupId,
+    groupName: batch.group.name,
+    businessDate: batch.businessDate.toISOString().slice(0, 10),
+    status: batch.status,
+    declaredTotal: Number(batch.declaredTotal),
+    postedTotal: batch.postedTotal == null ? null : Number(batch.postedTotal),
+    cashTurnedIn: batch.cashTurnedIn == null ? null : Number(batch.cashTurnedIn),
+    variance: batch.variance == null ? null : Number(batch.variance),
+    reviewNote: batch.reviewNote,
+    submittedById: batch.submittedById,
+    submittedByName: batch.submittedBy.name,
+    submittedAt: batch.submittedAt.toISOString(),
+    reviewedByName: batch.reviewedBy?.name ?? null,
+    reviewedAt: batch.reviewedAt?.toISOString() ?? null,
+  };
+}
+
+/** Batches newest first. `groupIds` limits a collector to their own groups. */
+export async function listRemittanceBatches(filter: {
+  status?: RemittanceStatus;
+  groupIds?: string[] | null;
+  businessDate?: string;
+  take?: number;
+}) {
+  const batches = await prisma.remittanceBatch.findMany({
+    where: {
+      ...(filter.status ? { status: filter.status } : {}),
+      ...(filter.businessDate ? { businessDate: toRemittanceDate(filter.businessDate) } : {}),
+      ...(filter.groupIds ? { groupId: { in: filter.groupIds } } : {}),
+    },
+    orderBy: [{ businessDate: "desc" }, { submittedAt: "desc" }],
+    take: filter.take ?? 100,
+    include: BATCH_INCLUDE,
+  });
+  return batches.map(toBatchRow);
+}
+
+export async function getRemittanceBatch(id: string) {
+  const batch = await prisma.remittanceBatch.findUnique({
+    where: { id },
+    include: {
+      ...BATCH_INCLUDE,
+      lines: { include: { member: { select: { firstName: true, lastName: true } } } },
+    },
+  });
+  if (!batch) return null;
+
+  return {
+    ...toBatchRow(batch),
+    lines: batch.lines
+      .map((line) => ({
+        id: line.id,
+        memberId: line.memberId,
+        memberName: `${line.member.lastName}, ${line.member.firstName}`,
+        type: line.type,
+        declaredAmount: Number(line.declaredAmount),
+        postedAmount: line.postedAmount == null ? null : Number(line.postedAmount),
+      }))
+      .sort(
+        (a, b) =>
+          a.memberName.localeCompare(b.memberName) ||
+          REMITTANCE_COLLECTION_TYPES.findIndex((t) => t.type === a.type) -
+            REMITTANCE_COLLECTION_TYPES.findIndex((t) => t.type === b.type),
+      ),
+  };
+}
+
+export function getRemittanceErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "REMITTANCE_NOT_FOUND":
+      return { status: 404, error: "Remittance batch not found" };
+    case "REMITTANCE_EMPTY":
+      return { status: 400, error: "Enter at least one collection before submitting" };
+    case "REMITTANCE_MEMBER_NOT_IN_GROUP":
+      return { status: 400, error: "Every member in the batch must belong to the group" };
+    case "REMITTANCE_ALREADY_POSTED":
+      return { status: 409, error: "This group's remittance for the day has already been posted" };
+    case "REMITTANCE_NOT_PENDING":
+      return { status: 409, error: "This remittance has already been reviewed" };
+    case "REMITTANCE_SELF_REVIEW":
+      return { status: 403, error: "You cannot post a remittance you submitted" };
+    case "REMITTANCE_BALANCE_ALREADY_UPDATED":
+      return { status: 409, error: "A member's balance was already updated that day; set their loan payment to zero" };
+    case "REMITTANCE_SAVINGS_ALREADY_UPDATED":
+      return { status: 409, error: "A member's savings was already updated that day; set their savings to zero" };
+    default:
+      return getLoanErrorResponse(error);
+  }
+}
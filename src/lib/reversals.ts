@@ -0,0 +1,287 @@
+import { BalanceUpdateType, Prisma, SavingsUpdateType } from "@prisma/client";
+import { z } from "zod";
+import { getLoanErrorResponse, reverseLoanDeduction, reverseLoanIncrease } from "@/lib/loans";
+import { assertPeriodOpen, getPeriodCloseErrorResponse } from "@/lib/period-close";
+
+type Db = Prisma.TransactionClient;
+
+/**
+ * Reversals never delete ledger rows. They add a contra-entry of the same type with
+ * the amount negated, dated when the reversal is made and pointing back to the
+ * original through `reversalOfId`. Totals for the original date therefore stay
+ * reproducible, while the reversal nets out on the day it was recorded.
+ */
+
+export const ReversalSchema = z.object({
+  reason: z.string().trim().min(1, "Reason is required").max(500),
+});
+
+export const FEE_TYPES = ["processing", "membership", "loan-insurance", "passbook"] as const;
+
+export type FeeType = (typeof FEE_TYPES)[number];
+
+export function isFeeType(value: string): value is FeeType {
+  return (FEE_TYPES as readonly string[]).includes(value);
+}
+
+type ReversalInput = {
+  id: string;
+  encodedById: string;
+  reason: string;
+};
+
+function assertReversible(
+  original: { reversalOfId: string | null; reversal: { id: string } | null } | null,
+): asserts original {
+  if (!original) throw new Error("ADJUSTMENT_NOT_FOUND");
+  if (original.reversalOfId) throw new Error("CANNOT_REVERSE_REVERSAL");
+  if (original.reversal) throw new Error("ALREADY_REVERSED");
+}
+
+/** Reverses an offset from its savings side, adding contra-entries for both linked rows. */
+async function reverseSavingsOffset(tx: Db, savingsAdjustmentId: string, input: ReversalInput) {
+  const offset = await tx.savingsAdjustment.findUnique({
+    where: { id: savingsAdjustmentId },
+    include: {
+      reversal: { select: { id: true } },
+      balanceAdjustment: { include: { reversal: { select: { id: true } } } },
+    },
+  });
+  assertReversible(offset);
+  const deduct = offset.balanceAdjustment;
+  if (!deduct) throw new Error("ADJUSTMENT_NOT_FOUND");
+  assertReversible(deduct);
+  await assertPeriodOpen(tx, offset.createdAt, deduct.createdAt, new Date());
+
+  const member = await tx.member.findUnique({ where: { id: offset.memberId } });
+  if (!member) throw new Error("MEMBER_NOT_FOUND");
+
+  const balanceAfter = member.balance.plus(deduct.amount);
+  const savingsAfter = member.savings.plus(offset.amount);
+
+  const balanceReversal = await tx.balanceAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: input.encodedById,
+      type: deduct.type,
+      amount: deduct.amount.negated(),
+      balanceBefore: member.balance,
+      balanceAfter,
+      loanId: deduct.loanId,
+      reversalOfId: deduct.id,
+      reversalReason: input.reason,
+    },
+  });
+
+  const savingsReversal = await tx.savingsAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: input.encodedById,
+      type: offset.type,
+      amount: offset.amount.negated(),
+      savingsBefore: member.savings,
+      savingsAfter,
+      balanceAdjustmentId: balanceReversal.id,
+      reversalOfId: offset.id,
+      reversalReason: input.reason,
+    },
+  });
+
+  await reverseLoanDeduction(tx, deduct.loanId, deduct.amount);
+
+  const updated = await tx.member.update({
+    where: { id: member.id },
+    data: { balance: balanceAfter, savings: savingsAfter },
+  });
+
+  return {
+    kind: "OFFSET" as const,
+    memberBefore: member,
+    member: updated,
+    savings: { original: offset, reversal: savingsReversal },
+    balance: { original: deduct, reversal: balanceReversal },
+  };
+}
+
+export async function reverseBalanceAdjustment(tx: Db, input: ReversalInput) {
+  const original = await tx.balanceAdjustment.findUnique({
+    where: { id: input.id },
+    include: {
+      reversal: { select: { id: true } },
+      savingsOffset: { select: { id: true } },
+    },
+  });
+  assertReversible(original);
+
+  // Deductions paid from savings are reversed together with their savings side
+  if (original.savingsOffset) {
+    return reverseSavingsOffset(tx, original.savingsOffset.id, input);
+  }
+  await assertPeriodOpen(tx, original.createdAt, new Date());
+
+  const member = await tx.member.findUnique({ where: { id: original.memberId } });
+  if (!member) throw new Error("MEMBER_NOT_FOUND");
+
+  const isDeduct = original.type === BalanceUpdateType.DEDUCT;
+  const balanceAfter = isDeduct
+    ? member.balance.plus(original.amount)
+    : member.balance.minus(original.amount);
+
+  const reversal = await tx.balanceAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: input.encodedById,
+      type: original.type,
+      amount: original.amount.negated(),
+      balanceBefore: member.balance,
+      balanceAfter,
+      loanId: original.loanId,
+      reversalOfId: original.id,
+      reversalReason: input.reason,
+    },
+  });
+
+  if (isDeduct) {
+    await reverseLoanDeduction(tx, original.loanId, original.amount);
+  } else {
+    await reverseLoanIncrease(tx, original.loanId, original.amount);
+  }
+
+  const updated = await tx.member.update({
+    where: { id: member.id },
+    data: {
+      balance: balanceAfter,
+      // DEDUCTs count as collection days
+      ...(isDeduct && member.daysCount > 0 ? { daysCount: member.daysCount - 1 } : {}),
+    },
+  });
+
+  return {
+    kind: "BALANCE" as const,
+    memberBefore: member,
+    member: updated,
+    balance: { original, reversal },
+  };
+}
+
+export async function reverseSavingsAdjustment(tx: Db, input: ReversalInput) {
+  const original = await tx.savingsAdjustment.findUnique({
+    where: { id: input.id },
+    include: { reversal: { select: { id: true } } },
+  });
+  assertReversible(original);
+
+  if (original.balanceAdjustmentId) {
+    return reverseSavingsOffset(tx, original.id, input);
+  }
+  await assertPeriodOpen(tx, original.createdAt, new Date());
+
+  const member = await tx.member.findUnique({ where: { id: original.memberId } });
+  if (!member) throw new Error("MEMBER_NOT_FOUND");
+
+  const savingsAfter =
+    original.type === SavingsUpdateType.INCREASE
+      ? member.savings.minus(original.amount)
+      : member.savings.plus(original.amount);
+
+  const reversal = await tx.savingsAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: input.encodedById,
+      type: original.type,
+      amount: original.amount.negated(),
+      savingsBefore: member.savings,
+      savingsAfter,
+      reversalOfId: original.id,
+      reversalReason: input.reason,
+    },
+  });
+
+  const updated = await tx.member.update({
+    where: { id: member.id },
+    data: { savings: savingsAfter },
+  });
+
+  return {
+    kind: "SAVINGS" as const,
+    memberBefore: member,
+    member: updated,
+    savings: { original, reversal },
+  };
+}
+
+type FeeRow = {
+  id: string;
+  memberId: string;
+  amount: Prisma.Decimal;
+  createdAt: Date;
+  reversalOfId: string | null;
+};
+
+type FeeReversalData = {
+  memberId: string;
+  encodedById: string;
+  amount: Prisma.Decimal;
+  reversalOfId: string;
+  reversalReason: string;
+};
+
+function findFee(tx: Db, type: FeeType, id: string): Promise<(FeeRow & { reversal: { id: string } | null }) | null> {
+  const args = { where: { id }, include: { reversal: { select: { id: true } } } };
+  switch (type) {
+    case "processing":
+      return tx.processingFee.findUnique(args);
+    case "membership":
+      return tx.membershipFee.findUnique(args);
+    case "loan-insurance":
+      return tx.loanInsurance.findUnique(args);
+    case "passbook":
+      return tx.passbookFee.findUnique(args);
+  }
+}
+
+function createFee(tx: Db, type: FeeType, data: FeeReversalData): Promise<FeeRow> {
+  switch (type) {
+    case "processing":
+      return tx.processingFee.create({ data });
+    case "membership":
+      return tx.membershipFee.create({ data });
+    case "loan-insurance":
+      return tx.loanInsurance.create({ data });
+    case "passbook":
+      return tx.passbookFee.create({ data });
+  }
+}
+
+export async function reverseFee(tx: Db, type: FeeType, input: ReversalInput) {
+  const original = await findFee(tx, type, input.id);
+  assertReversible(original);
+  await assertPeriodOpen(tx, original.createdAt, new Date());
+
+  const reversal = await createFee(tx, type, {
+    memberId: original.memberId,
+    encodedById: input.encodedById,
+    amount: original.amount.negated(),
+    reversalOfId: original.id,
+    reversalReason: input.reason,
+  });
+
+  return { original, reversal };
+}
+
+/** Maps reversal error codes to an HTTP status and message. */
+export function getReversalErrorResponse(error: unknown): { status: number; error: string } | null {
+  if (!(error instanceof Error)) return null;
+  switch (error.message) {
+    case "ADJUSTMENT_NOT_FOUND":
+      return { status: 404, error: "Adjustment not found" };
+    case "MEMBER_NOT_FOUND":
+      return { status: 404, error: "Member not found" };
+    case "ALREADY_REVERSED":
+      return { status: 409, error: "This entry has already been reversed" };
+    case "CANNOT_REVERSE_REVERSAL":
+      return { status: 400, error: "A reversal entry cannot be reversed" };
+    default:
+      return getLoanErrorResponse(error) ?? getPeriodCloseErrorResponse(error);
+  }
+}
@@ -0,0 +1,159 @@
+import { BalanceUpdateType, MemberStatus, Prisma, SavingsUpdateType } from "@prisma/client";
+import { prisma } from "@/lib/db";
+import { formatDateYMD, formatDateYMDManila, getManilaToday, getWeekdaysInRange } from "@/lib/date";
+import { applyLoanDeduction } from "@/lib/loans";
+import { assertPeriodOpen } from "@/lib/period-close";
+
+type Db = Prisma.TransactionClient;
+
+/** Amount credited to each active member's savings per business day. */
+export const SAVINGS_DAILY_INCREMENT = Number(process.env.SAVINGS_DAILY_INCREMENT ?? "20.00");
+
+/**
+ * Go-live date (YYYY-MM-DD, Manila). Members without a `savingsLastAccruedAt` marker are
+ * never credited for days before it; when unset they start on the day of the run.
+ */
+const accrualStartEnv = process.env.SAVINGS_ACCRUAL_START_DATE?.trim() ?? "";
+const SAVINGS_ACCRUAL_START_DATE = /^\d{4}-\d{2}-\d{2}$/.test(accrualStartEnv) ? accrualStartEnv : null;
+
+export type SavingsAccrualRunResult = {
+  asOf: string;
+  increment: number;
+  membersProcessed: number;
+  membersCredited: number;
+  accrualsCreated: number;
+  totalAmount: number;
+};
+
+/**
+ * Credits every ACTIVE member once per business day (Mon–Fri) since their
+ * `savingsLastAccruedAt` (or join date, but not before SAVINGS_ACCRUAL_START_DATE)
+ * up to and including today in Manila. Fails with
+ * PERIOD_CLOSED when a day to credit falls in a closed period.
+ *
+ * Safe to call repeatedly: days that already have a SavingsAccrual row are skipped
+ * through the (memberId, accruedForDate) unique constraint, and only newly inserted
+ * rows are added to Member.savings.
+ */
+export async function accrueSavings(): Promise<SavingsAccrualRunResult> {
+  const todayYmd = formatDateYMD(getManilaToday());
+  const increment = new Prisma.Decimal(SAVINGS_DAILY_INCREMENT.toFixed(2));
+
+  const members = await prisma.member.findMany({
+    where: { status: MemberStatus.ACTIVE },
+    select: { id: true, savingsLastAccruedAt: true, createdAt: true },
+  });
+
+  let membersCredited = 0;
+  let accrualsCreated = 0;
+
+  for (const member of members) {
+    // savingsLastAccruedAt is a DATE column, so read it in UTC; createdAt is a timestamp.
+    const lastYmd = member.savingsLastAccruedAt
+      ? member.savingsLastAccruedAt.toISOString().slice(0, 10)
+      : formatDateYMDManila(member.createdAt);
+    const next = new Date(`${lastYmd}T12:00:00.000Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    let startYmd = next.toISOString().slice(0, 10);
+    // Without a marker, never credit days before the accrual start
+    if (!member.savingsLastAccruedAt) {
+      const goLiveYmd = SAVINGS_ACCRUAL_START_DATE ?? todayYmd;
+      if (startYmd < goLiveYmd) startYmd = goLiveYmd;
+    }
+    if (startYmd > todayYmd) continue;
+
+    const days = getWeekdaysInRange(startYmd, todayYmd);
+
+    const created = await prisma.$transaction(async (tx) => {
+      await assertPeriodOpen(tx, ...days.map((ymd) => new Date(`${ymd}T12:00:00.000+08:00`)));
+
+      const { count } = days.length
+        ? await tx.savingsAccrual.createMany({
+            data: days.map((ymd) => ({
+              memberId: member.id,
+              accruedForDate: new Date(`${ymd}T12:00:00.000+08:00`),
+              amount: increment,
+            })),
+            skipDuplicates: true,
+          })
+        : { count: 0 };
+
+      await tx.member.update({
+        where: { id: member.id },
+        data: {
+          savingsLastAccruedAt: new Date(`${todayYmd}T12:00:00.000+08:00`),
+          ...(count > 0 ? { savings: { increment: increment.times(count) } } : {}),
+        },
+      });
+
+      return count;
+    });
+
+    if (created > 0) membersCredited += 1;
+    accrualsCreated += created;
+  }
+
+  return {
+    asOf: todayYmd,
+    increment: Number(increment),
+    membersProcessed: members.length,
+    membersCredited,
+    accrualsCreated,
+    totalAmount: Number(increment.times(accrualsCreated)),
+  };
+}
+
+/**
+ * Applies part of a member's savings to their outstanding balance (OFFSET).
+ *
+ * Writes an APPLY_TO_BALANCE savings adjustment and the DEDUCT it pays for, linked
+ * through `balanceAdjustmentId`. The deduction goes to the oldest open loan like any
+ * other payment, but does not count as a collection day (daysCount is unchanged).
+ */
+export async function applySavingsOffset(
+  tx: Db,
+  input: { memberId: string; encodedById: string; amount: Prisma.Decimal; createdAt?: Date },
+) {
+  const member = await tx.member.findUnique({ where: { id: input.memberId } });
+  if (!member) throw new Error("MEMBER_NOT_FOUND");
+  if (member.savings.lessThan(input.amount)) throw new Error("INSUFFICIENT_SAVINGS");
+  if (member.balance.lessThan(input.amount)) throw new Error("EXCEEDS_BALANCE");
+  await assertPeriodOpen(tx, input.createdAt ?? new Date());
+
+  const savingsAfter = member.savings.minus(input.amount);
+  const balanceAfter = member.balance.minus(input.amount);
+  const loanId = await applyLoanDeduction(tx, member.id, input.amount);
+
+  const balanceAdjustment = await tx.balanceAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: input.encodedById,
+      type: BalanceUpdateType.DEDUCT,
+      amount: input.amount,
+      balanceBefore: member.balance,
+      balanceAfter,
+      loanId,
+      createdAt: input.createdAt,
+    },
+  });
+
+  const savingsAdjustment = await tx.savingsAdjustment.create({
+    data: {
+      memberId: member.id,
+      encodedById: input.encodedById,
+      type: SavingsUpdateType.APPLY_TO_BALANCE,
+      amount: input.amount,
+      savingsBefore: member.savings,
+      savingsAfter,
+      balanceAdjustmentId: balanceAdjustment.id,
+      createdAt: input.createdAt,
+    },
+  });
+
+  await tx.member.update({
+    where: { id: member.id },
+    data: { savings: savingsAfter, balance: balanceAfter },
+  });
+
+  return { member, savingsAdjustment, balanceAdjustment };
+}
@@ -0,0 +1,62 @@
+import ExcelJS from "exceljs";
+import { type AccountingRollupData } from "@/lib/accounting-rollup";
+
+const MONEY_FORMAT = "#,##0;-#,##0;\"\"";
+
+/** One sheet with a column per day and a period column, matching the PDF rollup. */
+export async function buildAccountingRollupWorkbook(
+  data: AccountingRollupData,
+  companyName = "Triple E Microfinance",
+) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = companyName;
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet("Period Summary", {
+    views: [{ state: "frozen", xSplit: 1, ySplit: 5 }],
+    pageSetup: { orientation: "landscape", paperSize: 5, fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+  });
+  const columnCount = data.days.length + 2;
+
+  sheet.getColumn(1).width = 28;
+  for (let i = 2; i <= columnCount; i += 1) sheet.getColumn(i).width = 12;
+
+  sheet.addRow([companyName]).font = { bold: true, size: 12 };
+  sheet.addRow([`Accounting Period Summary: ${data.from} to ${data.to}`]).font = { bold: true };
+  sheet.addRow(["Opening Balance", data.openingBalance, "Closing Balance", data.closingBalance]);
+  sheet.addRow([]);
+
+  const header = sheet.addRow(["Line", ...data.days, "Period"]);
+  header.font = { bold: true };
+  header.eachCell((cell) => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE2E8F0" } };
+    cell.border = { bottom: { style: "thin" } };
+  });
+  header.getCell(1).alignment = { horizontal: "left" };
+  for (let i = 2; i <= columnCount; i += 1) header.getCell(i).alignment = { horizontal: "right" };
+
+  for (const section of data.sections) {
+    const sectionRow = sheet.addRow([section.title]);
+    sectionRow.font = { bold: true };
+    for (let i = 1; i <= columnCount; i += 1) {
+      sectionRow.getCell(i).fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFF1F5F9" } };
+    }
+
+    for (const row of section.rows) {
+      const added = sheet.addRow([row.label, ...row.values, row.total]);
+      if (row.emphasis) added.font = { bold: true };
+      added.getCell(columnCount).font = { bold: true };
+    }
+  }
+
+  sheet.getRow(3).getCell(2).numFmt = MONEY_FORMAT;
+  sheet.getRow(3).getCell(4).numFmt = MONEY_FORMAT;
+  for (let i = 2; i <= columnCount; i += 1) {
+    sheet.getColumn(i).eachCell((cell, rowNumber) => {
+      if (rowNumber > 5) cell.numFmt = MONEY_FORMAT;
+    });
+  }
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
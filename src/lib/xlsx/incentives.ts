@@ -0,0 +1,94 @@
+import ExcelJS from "exceljs";
+import { type IncentiveReport } from "@/lib/incentives";
+
+const MONEY_FORMAT = "#,##0.00;-#,##0.00;\"\"";
+
+/** Payroll sheet with one row per officer and a column per active rule, plus the basis figures. */
+export async function buildIncentivePayrollWorkbook(
+  report: IncentiveReport,
+  companyName = "Triple E Microfinance",
+) {
+  const workbook = new ExcelJS.Workbook();
+  workbook.creator = companyName;
+  workbook.created = new Date();
+
+  const sheet = workbook.addWorksheet("Payroll", {
+    views: [{ state: "frozen", xSplit: 1, ySplit: 4 }],
+    pageSetup: { orientation: "landscape", paperSize: 5, fitToPage: true, fitToWidth: 1, fitToHeight: 0 },
+  });
+
+  const headers = [
+    "Employee",
+    "Employee ID",
+    "Collections",
+    "New Members",
+    "Release Amount",
+    "PAR %",
+    "Base Salary",
+    ...report.rules.map((rule) => rule.name),
+    "Total Incentives",
+    "Total Pay",
+  ];
+  const moneyColumns = new Set([3, 5, 7, ...report.rules.map((_, i) => 8 + i), headers.length - 1, headers.length]);
+
+  sheet.getColumn(1).width = 28;
+  sheet.getColumn(2).width = 38;
+  for (let i = 3; i <= headers.length; i += 1) sheet.getColumn(i).width = 14;
+
+  sheet.addRow([companyName]).font = { bold: true, size: 12 };
+  sheet.addRow([`Incentive Payroll: ${report.monthLabel} (${report.from} to ${report.to}), PAR as of ${report.parAsOf}`])
+    .font = { bold: true };
+  sheet.addRow([]);
+
+  const header = sheet.addRow(headers);
+  header.font = { bold: true };
+  header.eachCell((cell, col) => {
+    cell.fill = { type: "pattern", pattern: "solid", fgColor: { argb: "FFE2E8F0" } };
+    cell.border = { bottom: { style: "thin" } };
+    cell.alignment = { horizontal: col <= 2 ? "left" : "right", wrapText: true };
+  });
+
+  for (const statement of report.statements) {
+    sheet.addRow([
+      statement.employeeName,
+      statement.employeeId,
+      statement.metrics.collections,
+      statement.metrics.newMembers,
+      statement.metrics.releaseAmount,
+      statement.metrics.parRatio,
+      statement.baseSalary,
+      ...statement.lines.map((line) => line.amount),
+      statement.incentiveTotal,
+      statement.totalPay,
+    ]);
+  }
+
+  const totalRow = sheet.addRow([
+    "Total",
+    "",
+    report.statements.reduce((sum, s) => sum + s.metrics.collections, 0),
+    report.statements.reduce((sum, s) => sum + s.metrics.newMembers, 0),
+    report.statements.reduce((sum, s) => sum + s.metrics.releaseAmount, 0),
+    null,
+    report.totals.baseSalary,
+    ...report.rules.map((_, i) => report.statements.reduce((sum, s) => sum + s.lines[i].amount, 0)),
+    report.totals.incentiveTotal,
+    report.totals.totalPay,
+  ]);
+  totalRow.font = { bold: true };
+  totalRow.eachCell((cell) => {
+    cell.border = { top: { style: "thin" } };
+  });
+
+  for (const col of moneyColumns) {
+    sheet.getColumn(col).eachCell((cell, rowNumber) => {
+      if (rowNumber > 4) cell.numFmt = MONEY_FORMAT;
+    });
+  }
+  sheet.getColumn(6).eachCell((cell, rowNumber) => {
+    if (rowNumber > 4) cell.numFmt = "0.0%";
+  });
+
+  const buffer = await workbook.xlsx.writeBuffer();
+  return Buffer.from(buffer as ArrayBuffer);
+}
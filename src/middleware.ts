@@ -2,6 +2,11 @@ import { NextResponse } from "next/server";
 import type { NextRequest } from "next/server";
 
 export function middleware(request: NextRequest) {
+  // Job endpoints are called server-to-server (Cron/EventBridge) and authenticate with LMS_JOBS_API_KEY
+  if (request.nextUrl.pathname.startsWith("/api/jobs/")) {
+    return NextResponse.next();
+  }
+
   // Only apply to /api routes
   if (request.nextUrl.pathname.startsWith("/api")) {
     // 1. Enforce Same-Origin Policy